@@ -3,25 +3,21 @@
 import { useEffect } from 'react';
 import { usePathname } from 'next/navigation';
 import { API_BASE_URL as API_FROM_UTIL } from './utils/api';
+import { apiFetch } from './utils/apiClient';
 
 const API_BASE_URL =
   (API_FROM_UTIL as string) ||
   (process.env.NEXT_PUBLIC_API_BASE_URL || '').trim();
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
 const DEFAULT_TITLE = 'Creative Prints';
 
+// Pages whose server metadata sets their own title (category, product, blog post, search, wishlist)
+const SERVER_TITLED = /^\/((home|blog)\/[^/]+|(search|wishlist)(\/|$))/;
+
 async function getTitle(): Promise<string> {
   if (!API_BASE_URL) return DEFAULT_TITLE;
   try {
-    const res = await fetch(
-      `${API_BASE_URL}/api/show-sitetitle-details/?_=${Date.now()}`,
-      {
-        headers: FRONTEND_KEY ? { 'X-Frontend-Key': FRONTEND_KEY } : undefined,
-        cache: 'no-store',
-        credentials: 'omit',
-      }
-    );
+    const res = await apiFetch(`${API_BASE_URL}/api/show-sitetitle-details/?_=${Date.now()}`);
     if (!res.ok) return DEFAULT_TITLE;
     const json = await res.json();
     const t = (json?.site_title || '').toString().trim();
@@ -35,6 +31,7 @@ export default function ClientTitleLock() {
   const pathname = usePathname();
 
   useEffect(() => {
+    if (SERVER_TITLED.test(pathname || '')) return;
     let cancelled = false;
     (async () => {
       const siteTitle = await getTitle();
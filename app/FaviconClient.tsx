@@ -2,12 +2,12 @@
 
 import { useEffect } from 'react';
 import { API_BASE_URL as API_FROM_UTIL } from './utils/api';
+import { apiFetch } from './utils/apiClient';
 
 const API_BASE_URL =
   (API_FROM_UTIL as string) ||
   (process.env.NEXT_PUBLIC_API_BASE_URL || '').trim();
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
 
 const DEFAULT_FAVICON = '/favicon.ico';
 
@@ -49,12 +49,7 @@ export default function FaviconClient() {
 
     (async () => {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/show-favicon/?_=${Date.now()}`, {
-          headers: FRONTEND_KEY ? { 'X-Frontend-Key': FRONTEND_KEY } : undefined,
-          cache: 'no-store',
-          credentials: 'omit',
-          mode: 'cors',
-        });
+        const res = await apiFetch(`${API_BASE_URL}/api/show-favicon/?_=${Date.now()}`, { mode: 'cors' });
         const json = res.ok ? await res.json() : null;
         const raw = json?.favicon?.url as string | undefined;
 
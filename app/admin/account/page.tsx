@@ -0,0 +1,53 @@
+"use client";
+
+import AdminSidebar from "../components/AdminSideBar";
+import AdminAuthGuard from "../components/AdminAuthGaurd";
+import TwoFactorSettings from "../components/TwoFactorSettings";
+import LoginHistoryTable from "../components/LoginHistoryTable";
+import { useAdminSession } from "../utils/adminSession";
+import { ToastContainer } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import { FaUserShield } from "react-icons/fa";
+
+const AccountPage = () => {
+  const { session } = useAdminSession();
+
+  return (
+    <AdminAuthGuard>
+      <div className="flex">
+        <AdminSidebar />
+
+        <div className="flex-1 px-4 sm:px-6 lg:px-8 xl:px-12 py-6 sm:py-8 lg:py-10 bg-gray-50 min-h-screen">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="bg-gradient-to-r from-white via-[#f8f9fa] to-gray-100 p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-200 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <FaUserShield className="text-[#891F1A] text-2xl" />
+                <h1 className="text-3xl font-bold text-[#891F1A]">My Account</h1>
+              </div>
+              {session && (
+                <p className="text-sm text-gray-500 hidden md:block">
+                  {session.admin_name || session.admin_id}
+                  {session.role_name ? ` · ${session.role_name}` : ""}
+                </p>
+              )}
+            </div>
+
+            <section className="bg-white border border-gray-200 rounded-2xl shadow-md p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-[#891F1A] mb-4">Two-factor authentication</h2>
+              <TwoFactorSettings />
+            </section>
+
+            <section className="bg-white border border-gray-200 rounded-2xl shadow-md p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-[#891F1A] mb-4">Recent sign-ins</h2>
+              <LoginHistoryTable />
+            </section>
+          </div>
+        </div>
+      </div>
+      <ToastContainer position="top-right" autoClose={3000} />
+    </AdminAuthGuard>
+  );
+};
+
+export default AccountPage;
@@ -14,6 +14,7 @@ import {
   DropResult,
 } from "@hello-pangea/dnd";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
 import "react-quill-new/dist/quill.snow.css";
 
 const ReactQuill = dynamic(() => import("react-quill-new"), { ssr: false });
@@ -76,12 +77,6 @@ const fileToDataUrl = (file: File): Promise<string> =>
   });
 
 /* =================== REQUIRED HEADERS =================== */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
 
 /* =================== ENDPOINTS =================== */
 const TAX_ENDPOINTS = {
@@ -111,14 +106,7 @@ const toAbsoluteUrl = (u?: string | null) => {
 
 /* Unified JSON fetcher with key + JSON headers */
 const jsonFetch = async (url: string, options: RequestInit = {}) => {
-  const init = withFrontendKey({
-    ...options,
-    headers: new Headers({
-      "Content-Type": "application/json",
-      ...(options.headers || {}),
-    }),
-  });
-  const res = await fetch(url, init);
+  const res = await apiFetch(url, options);
   if (!res.ok) {
     const text = await res.text().catch(() => res.statusText);
     throw new Error(text || `HTTP ${res.status}`);
@@ -137,13 +125,13 @@ const uploadImage = async (dataUrl: string) => {
     linked_table: "AttributeSubCategory",
   });
 
-  const res = await fetch(
+  const res = await apiFetch(
     MEDIA_ENDPOINTS.SAVE_IMAGE,
-    withFrontendKey({
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body,
-    })
+    {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  }
   );
   if (!res.ok) {
     const t = await res.text().catch(() => "");
@@ -648,8 +636,8 @@ export default function AttributesPage() {
     setIsLoading(true);
     try {
       const [catRes, subRes] = await Promise.all([
-        fetch(TAX_ENDPOINTS.SHOW_CATS, withFrontendKey()).catch(() => null),
-        fetch(TAX_ENDPOINTS.SHOW_SUBS, withFrontendKey()).catch(() => null),
+        apiFetch(TAX_ENDPOINTS.SHOW_CATS).catch(() => null),
+        apiFetch(TAX_ENDPOINTS.SHOW_SUBS).catch(() => null),
       ]);
 
       let cats: Category[] = [];
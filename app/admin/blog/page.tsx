@@ -9,22 +9,18 @@ import "react-toastify/dist/ReactToastify.css";
 import { FiSave } from "react-icons/fi";
 import { MdOutlineArticle } from "react-icons/md";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
 
 // Keep CSS; load Quill at runtime inside component
 import "quill/dist/quill.snow.css";
 
 import Cropper from "cropperjs";
 import "cropperjs/dist/cropper.css";
+import { refreshStorefront } from "../../utils/storefront";
 
 export const dynamic = "force-dynamic";
 
 /* -------------------- Small helpers -------------------- */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
 const slugify = (s: string) =>
   s
     .toLowerCase()
@@ -455,9 +451,8 @@ function BlogManagementPage() {
 
     const hydrateForEdit = async (id: string) => {
       try {
-        const res = await fetch(
-          `${API_BASE_URL}/api/show-specific-blog?blog_id=${encodeURIComponent(id)}&all=true`,
-          withFrontendKey()
+        const res = await apiFetch(
+          `${API_BASE_URL}/api/show-specific-blog?blog_id=${encodeURIComponent(id)}&all=true`
         );
         if (!res.ok) throw new Error("Failed to load blog");
         const blog = await res.json();
@@ -603,19 +598,20 @@ function BlogManagementPage() {
         method = "PUT";
       }
 
-      const res = await fetch(
+      const res = await apiFetch(
         endpoint,
-        withFrontendKey({
-          method,
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-        })
+        {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      }
       );
 
       if (!res.ok) {
         const text = await res.text().catch(() => "");
         throw new Error(text || "Save failed");
       }
+      refreshStorefront("blog");
 
       if (isEdit) {
         toast.success("✅ Blog updated");
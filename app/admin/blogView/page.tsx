@@ -7,14 +7,8 @@ import AdminSidebar from "../components/AdminSideBar";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import { API_BASE_URL } from "../../utils/api";
-
-/* ---------- FRONTEND KEY helper (avoid header when empty to reduce preflights) ---------- */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers, cache: "no-store", credentials: "omit", mode: "cors" };
-};
+import { apiFetch } from "../../utils/apiClient";
+import { refreshStorefront } from "../../utils/storefront";
 
 /* -------------------------------- Types -------------------------------- */
 type Blog = {
@@ -44,9 +38,9 @@ export default function BlogAdminManager() {
     setLoading(true);
     const ac = new AbortController();
     try {
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/show-all-blogs/?all=1&_=${Date.now()}`,
-        { ...withFrontendKey(), signal: ac.signal }
+        { signal: ac.signal }
       );
       if (!res.ok) throw new Error(`Failed to load blogs (${res.status})`);
       const data = await res.json();
@@ -128,16 +122,15 @@ export default function BlogAdminManager() {
 
     setDeletingId(id);
     try {
-      const res = await fetch(`${API_BASE_URL}/api/delete-blogs/`, {
-        ...withFrontendKey({
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ ids: [id] }),
-        }),
+      const res = await apiFetch(`${API_BASE_URL}/api/delete-blogs/`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: [id] }),
       });
       if (!res.ok) throw new Error("Delete failed");
       setBlogs((prev) => prev.filter((b) => b.id !== id));
       toast.success("🗑️ Blog deleted");
+      refreshStorefront("blog");
       // If the deleted blog is open in the modal, close it
       setViewBlog((vb) => (vb?.id === id ? null : vb));
     } catch {
@@ -7,12 +7,15 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
-  useRef,
   useState,
   useId,
   useTransition,
 } from "react";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
+import { unreadCount as countUnread } from "../../utils/adminNotifications";
+import { logoutAdmin, useAdminSession } from "../utils/adminSession";
+import { useAdminNotifications } from "../utils/notificationStream";
 
 /* ================= Types ================= */
 export type LinkItem = {
@@ -21,67 +24,14 @@ export type LinkItem = {
   children?: { label: string; href: string }[];
 };
 
-type Notification = {
-  notification_id: string;
-  message: string;
-  created_at: string;
-  type: string;
-  status: "read" | "unread";
-  source_table?: string;
-  source_id?: string;
-  order_id?: string;
-  sku?: string;
-  user?: string;
-};
-
-type AdminRow = {
-  admin_id: string;
-  admin_name: string;
-  password_hash: string;
-  role_id: string;
-  role_name: string;
-  access_pages: string[];
-  created_at: string;
-};
-
 /* ================= Constants ================= */
 const GROUP_LABEL = "Home Settings";
 
-// Map backend → allowed page label
-const sourceTableToPageLabel: Record<string, string> = {
-  category: "Manage Categories",
-  subcategory: "Manage Categories",
-  orders: "Orders",
-  product: "Products Section",
-  inventory: "Inventory",
-  admin: "New Account",
-  blog: "Blog",
-  attributes: "Attributes",
-};
-
-const sourceToPath: Record<string, string> = {
-  category: "/admin/manage-categories",
-  subcategory: "/admin/manage-categories",
-  orders: "/admin/orders",
-  product: "/admin/products",
-  inventory: "/admin/inventory",
-  admin: "/admin/new-account",
-  blog: "/admin/blogView",
-  attributes: "/admin/attributes",
-};
-
-// Frontend key passthrough
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
-
 const ALL_LINKS: LinkItem[] = [
   { label: "Dashboard", href: "/admin/dashboard" },
   { label: "Recently Deleted", href: "/admin/recently-deleted" },
   { label: "Orders", href: "/admin/orders" },
+  { label: "Promotions", href: "/admin/promotions" },
   { label: "Manage Categories", href: "/admin/manage-categories" },
   { label: "Attributes", href: "/admin/attributes" },
   { label: "Products Section", href: "/admin/products" },
@@ -118,45 +68,6 @@ const normalizeLogoUrl = (u?: string) => {
   return LOCAL_LOGO_FALLBACK;
 };
 
-/* ================= Utils ================= */
-function safeParseAccessPages(raw: string | null): string[] {
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-function normalizePermissions(perms: string[]) {
-  const s = new Set((perms || []).map((p) => p?.trim()));
-  if (s.has("Blog")) s.add("Blog View");
-  return Array.from(s).filter((p) => p !== "Blog View");
-}
-
-function sameSetCI(a: string[], b: string[]) {
-  const A = new Set(a.map((x) => x.trim().toLowerCase()));
-  const B = new Set(b.map((x) => x.trim().toLowerCase()));
-  if (A.size !== B.size) return false;
-  for (const v of A) if (!B.has(v)) return false;
-  return true;
-}
-
-const usePageVisibility = () => {
-  const [visible, setVisible] = useState(
-    typeof document !== "undefined"
-      ? document.visibilityState === "visible"
-      : true
-  );
-  useEffect(() => {
-    const onVisible = () => setVisible(document.visibilityState === "visible");
-    document.addEventListener("visibilitychange", onVisible);
-    return () => document.removeEventListener("visibilitychange", onVisible);
-  }, []);
-  return visible;
-};
-
 /* ================= Component ================= */
 export default function AdminSidebar() {
   const router = useRouter();
@@ -164,118 +75,18 @@ export default function AdminSidebar() {
   const [isPending, startTransition] = useTransition();
   const idPrefix = useId();
 
-  const [loading, setLoading] = useState(true);
-  const [isAuthed, setIsAuthed] = useState<boolean>(false);
-  const [accessPages, setAccessPages] = useState<string[]>([]);
+  const { session, loading } = useAdminSession();
   const [openGroups, setOpenGroups] = useState<Record<string, boolean>>({});
-  const [unreadCount, setUnreadCount] = useState<number>(0);
   const [logoUrl, setLogoUrl] = useState<string>(LOCAL_LOGO_FALLBACK);
 
-  const validatingRef = useRef(false);
-  const notifyAbortRef = useRef<AbortController | null>(null);
-  const visible = usePageVisibility();
+  const isAuthed = !!session;
+  const accessPages = useMemo(() => session?.access_pages || [], [session]);
 
-  const forceLogout = useCallback(() => {
-    try {
-      localStorage.removeItem("admin-auth");
-      localStorage.removeItem("admin-id");
-      localStorage.removeItem("access-pages");
-    } catch {}
+  const forceLogout = useCallback(async () => {
+    await logoutAdmin();
     router.replace("/admin/login");
   }, [router]);
 
-  const validateSession = useCallback(async () => {
-    if (validatingRef.current) return;
-    validatingRef.current = true;
-    try {
-      const isLoggedIn =
-        typeof window !== "undefined" &&
-        localStorage.getItem("admin-auth") === "true";
-      const adminId =
-        typeof window !== "undefined"
-          ? localStorage.getItem("admin-id") || ""
-          : "";
-
-      if (!isLoggedIn || !adminId) {
-        validatingRef.current = false;
-        return forceLogout();
-      }
-
-      const res = await fetch(
-        `${API_BASE_URL}/api/show-admin/`,
-        withFrontendKey()
-      );
-      if (!res.ok) {
-        validatingRef.current = false;
-        return;
-      }
-      const data = await res.json();
-      const list: AdminRow[] = data?.admins || [];
-
-      const me = list.find((r) => String(r.admin_id) === String(adminId));
-      if (!me) {
-        validatingRef.current = false;
-        return forceLogout();
-      }
-
-      const localPerms = safeParseAccessPages(
-        localStorage.getItem("access-pages")
-      );
-      const serverPerms = normalizePermissions(me.access_pages || []);
-      if (!sameSetCI(normalizePermissions(localPerms), serverPerms)) {
-        validatingRef.current = false;
-        return forceLogout();
-      }
-    } catch {
-      // swallow transient errors
-    } finally {
-      validatingRef.current = false;
-    }
-  }, [forceLogout]);
-
-  // Load auth + first validation
-  useEffect(() => {
-    const isLoggedIn =
-      typeof window !== "undefined" &&
-      localStorage.getItem("admin-auth") === "true";
-
-    setIsAuthed(!!isLoggedIn);
-
-    if (!isLoggedIn) {
-      router.replace("/admin/login");
-      setLoading(false);
-      return;
-    }
-
-    const pages = safeParseAccessPages(localStorage.getItem("access-pages"));
-    setAccessPages(pages);
-    setLoading(false);
-
-    validateSession();
-
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === "admin-auth") {
-        const nowAuthed = localStorage.getItem("admin-auth") === "true";
-        setIsAuthed(nowAuthed);
-        if (!nowAuthed) router.replace("/admin/login");
-      }
-      if (e.key === "access-pages") {
-        const updated = safeParseAccessPages(localStorage.getItem("access-pages"));
-        setAccessPages(updated);
-        validateSession();
-      }
-    };
-    window.addEventListener("storage", onStorage);
-    return () => window.removeEventListener("storage", onStorage);
-  }, [router, validateSession]);
-
-  // Periodic revalidation (reduced churn: only when tab visible)
-  useEffect(() => {
-    if (!visible) return;
-    const t = setInterval(validateSession, 60_000);
-    return () => clearInterval(t);
-  }, [visible, validateSession]);
-
   // Access set
   const accessSet = useMemo(
     () => new Set(accessPages.map((s) => s.toLowerCase().trim())),
@@ -283,6 +94,9 @@ export default function AdminSidebar() {
   );
 
   const canSeeNotifications = accessSet.has("notifications");
+  // Live stream, already filtered to the sources this role can open
+  const { notifications } = useAdminNotifications(canSeeNotifications);
+  const unreadCount = canSeeNotifications ? countUnread(notifications) : 0;
 
   // Visible links (respect access)
   const visibleLinks = useMemo(() => {
@@ -312,53 +126,6 @@ export default function AdminSidebar() {
     }, []);
   }, [accessPages, accessSet]);
 
-  // Notifications fetch (debounced + visibility-aware)
-  const fetchNotifications = useCallback(async () => {
-    if (!canSeeNotifications) {
-      setUnreadCount(0);
-      return;
-    }
-    if (notifyAbortRef.current) notifyAbortRef.current.abort();
-    const ac = new AbortController();
-    notifyAbortRef.current = ac;
-
-    try {
-      const res = await fetch(
-        `${API_BASE_URL}/api/notifications/`,
-        withFrontendKey({ signal: ac.signal, cache: "no-store" })
-      );
-      if (!res.ok) return;
-      const data: Notification[] = await res.json();
-
-      const filtered = data.filter((n) => {
-        const src = (n.source_table || "").toLowerCase();
-        if (src === "adminrole" || src === "adminrolemap") return false;
-        const label = sourceTableToPageLabel[src];
-        if (!label) return false;
-        return accessSet.has(label.toLowerCase());
-      });
-
-      const unread = filtered.reduce(
-        (acc, n) => acc + (n.status === "unread" ? 1 : 0),
-        0
-      );
-      setUnreadCount(unread);
-    } catch {
-      // ignore
-    }
-  }, [canSeeNotifications, accessSet]);
-
-  // Notifications polling: only when visible; backoff when hidden
-  useEffect(() => {
-    if (!visible) return;
-    fetchNotifications();
-    const poll = setInterval(fetchNotifications, 30_000);
-    return () => {
-      clearInterval(poll);
-      if (notifyAbortRef.current) notifyAbortRef.current.abort();
-    };
-  }, [visible, fetchNotifications]);
-
   // ===== Fetch logo with sessionStorage cache (cuts a network hop per mount) =====
   useEffect(() => {
     let cancelled = false;
@@ -371,9 +138,9 @@ export default function AdminSidebar() {
           if (!cancelled) setLogoUrl(normalizeLogoUrl(url));
           return;
         }
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-logo/?_=${Date.now()}`,
-          withFrontendKey({ cache: "no-store" })
+          { cache: "no-store" }
         );
         const json = res.ok ? await res.json() : null;
         const url = normalizeLogoUrl(json?.logo?.url);
@@ -575,8 +342,21 @@ export default function AdminSidebar() {
         )}
       </ul>
 
-      {/* Logout */}
-      <div className="px-4 mt-12 mb-4">
+      {/* Account + Logout */}
+      <div className="px-4 mt-12 mb-4 space-y-2">
+        <Link
+          href="/admin/account"
+          prefetch
+          className={[
+            "block w-full text-center px-4 py-2 rounded border text-sm sm:text-base transition-colors duration-200",
+            pathname === "/admin/account"
+              ? "border-[#891F1A] text-[#891F1A] bg-red-50"
+              : "border-gray-300 text-black hover:bg-gray-100",
+          ].join(" ")}
+          aria-current={pathname === "/admin/account" ? "page" : undefined}
+        >
+          My Account
+        </Link>
         <button
           className="w-full bg-[#891F1A] text-white px-4 py-2 rounded hover:bg-red-700 text-sm sm:text-base"
           onClick={forceLogout}
@@ -0,0 +1,328 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { isAbortError } from "../../utils/apiClient";
+import {
+  CATALOG_COLUMNS,
+  CATALOG_HEADERS,
+  fetchCatalogImportJob,
+  previewCatalogImport,
+  startCatalogImport,
+  toCsv,
+  type CatalogImportJob,
+  type CatalogPreview,
+} from "../../utils/catalog";
+import { refreshStorefront } from "../../utils/storefront";
+
+type CatalogImportModalProps = {
+  onClose: () => void;
+  onImported: () => void; // a job finished; the product list is stale
+};
+
+const POLL_MS = 1000;
+// The preview table gets slow beyond this; counts still cover every row
+const PREVIEW_ROWS_SHOWN = 200;
+
+const ACTION_TONES = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  invalid: "bg-red-100 text-red-800",
+};
+
+function downloadTemplate() {
+  const blob = new Blob([toCsv([CATALOG_HEADERS])], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "catalog-template.csv";
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Upload a .csv/.xlsx catalog, check it row by row without saving anything, then import it and watch progress. */
+export default function CatalogImportModal({ onClose, onImported }: CatalogImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CatalogPreview | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [job, setJob] = useState<CatalogImportJob | null>(null);
+
+  const running = job?.status === "running";
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && !running && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose, running]);
+
+  // Progress
+  useEffect(() => {
+    if (!job || job.status !== "running") return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const next = await fetchCatalogImportJob(job.id, controller.signal);
+        setJob(next);
+        if (next.status === "done") {
+          onImported();
+          refreshStorefront("catalog");
+          if (next.failed.length) toast.warn(`Import finished with ${next.failed.length} failed row(s)`);
+          else toast.success("📦 Import finished");
+        }
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        toast.error(`❌ ${err?.message || "Lost track of the import"}`);
+        setJob((j) => (j ? { ...j, status: "done" } : j));
+      }
+    }, POLL_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [job, onImported]);
+
+  const choose = (f: File | null) => {
+    setFile(f);
+    setPreview(null);
+    setJob(null);
+  };
+
+  const runPreview = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      setPreview(await previewCatalogImport(file));
+    } catch (err: any) {
+      toast.error(`❌ ${err?.message || "Failed to read the file"}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      setJob(await startCatalogImport(file, skipInvalid));
+    } catch (err: any) {
+      toast.error(`❌ ${err?.message || "Failed to start the import"}`);
+      if (err?.data?.preview) setPreview(err.data.preview);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const counts = preview?.counts;
+  const importable = counts ? counts.create + counts.update : 0;
+  const canImport =
+    !!preview && !preview.errors.length && importable > 0 && (counts!.invalid === 0 || skipInvalid) && !job;
+  const percent = job && job.total ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="catalog-import-title"
+      onClick={() => !running && onClose()}
+    >
+      <div
+        className="bg-white text-gray-900 rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-start border-b border-gray-200 pb-4 mb-4">
+          <div>
+            <h2 id="catalog-import-title" className="text-xl font-bold text-[#891F1A]">
+              Import products
+            </h2>
+            <p className="text-sm text-gray-500">
+              One product per row. Rows with a known SKU update that product; only filled-in cells change.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={running}
+            aria-label="Close"
+            className="text-gray-400 hover:text-red-600 text-2xl font-bold disabled:opacity-40"
+            type="button"
+          >
+            &times;
+          </button>
+        </header>
+
+        {/* File */}
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center mb-4 text-sm">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => choose(e.target.files?.[0] || null)}
+            disabled={busy || running}
+            className="flex-1"
+          />
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            className="text-[#891F1A] underline whitespace-nowrap"
+          >
+            Download template
+          </button>
+          <button
+            type="button"
+            onClick={runPreview}
+            disabled={!file || busy || running}
+            className="bg-white border border-[#891F1A] text-[#891F1A] hover:bg-[#891F1A] hover:text-white px-4 py-2 rounded-md disabled:opacity-60"
+          >
+            {busy && !preview ? "Checking…" : "Check file"}
+          </button>
+        </div>
+
+        <details className="mb-4 text-xs text-gray-600">
+          <summary className="cursor-pointer">Columns</summary>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-2">
+            {CATALOG_COLUMNS.map((c) => (
+              <div key={c.key} className="flex gap-2">
+                <dt className="font-semibold whitespace-nowrap">{c.header}</dt>
+                <dd className="text-gray-500">{c.hint}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+
+        {/* Preview */}
+        {preview && (
+          <section aria-label="Preview" className="mb-4">
+            {preview.errors.length > 0 && (
+              <ul className="mb-3 text-sm text-red-700 list-disc pl-5">
+                {preview.errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            )}
+            {preview.ignored_columns.length > 0 && (
+              <p className="mb-3 text-xs text-gray-500">
+                Ignored columns: {preview.ignored_columns.join(", ")}
+              </p>
+            )}
+            {counts && !preview.errors.length && (
+              <p className="mb-3 text-sm">
+                <b>{counts.create}</b> new, <b>{counts.update}</b> to update,{" "}
+                <b className={counts.invalid ? "text-red-700" : ""}>{counts.invalid}</b> with errors
+              </p>
+            )}
+
+            {preview.rows.length > 0 && (
+              <div className="overflow-auto rounded-lg border border-gray-200 max-h-80">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                    <tr>
+                      <th scope="col" className="p-2 text-left">Row</th>
+                      <th scope="col" className="p-2 text-left">SKU</th>
+                      <th scope="col" className="p-2 text-left">Title</th>
+                      <th scope="col" className="p-2 text-left">Result</th>
+                      <th scope="col" className="p-2 text-left">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.rows.slice(0, PREVIEW_ROWS_SHOWN).map((r) => {
+                      const status = r.errors.length ? "invalid" : r.action;
+                      return (
+                        <tr key={r.row} className={r.errors.length ? "bg-red-50/50" : ""}>
+                          <td className="p-2 text-gray-500">{r.row}</td>
+                          <td className="p-2 font-mono">{r.product.sku || "—"}</td>
+                          <td className="p-2">{r.product.name || "—"}</td>
+                          <td className="p-2">
+                            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${ACTION_TONES[status]}`}>
+                              {status === "invalid" ? "Error" : status === "create" ? "New" : "Update"}
+                            </span>
+                          </td>
+                          <td className="p-2 text-red-700">
+                            {r.errors.map((e, i) => (
+                              <span key={i} className="block">
+                                <b>{e.column}:</b> {e.message}
+                              </span>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {preview.rows.length > PREVIEW_ROWS_SHOWN && (
+                  <p className="p-2 text-xs text-gray-500">
+                    Showing the first {PREVIEW_ROWS_SHOWN} of {preview.rows.length} rows.
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Progress */}
+        {job && (
+          <section aria-label="Import progress" className="mb-4 text-sm">
+            <div className="flex justify-between mb-1">
+              <span>
+                {job.status === "running" ? "Importing…" : "Finished"} {job.processed} / {job.total}
+              </span>
+              <span className="text-gray-500">
+                {job.created} created · {job.updated} updated
+                {job.skipped ? ` · ${job.skipped} skipped` : ""}
+                {job.failed.length ? ` · ${job.failed.length} failed` : ""}
+              </span>
+            </div>
+            <div
+              className="h-2 rounded-full bg-gray-200 overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div className="h-full bg-[#891F1A] transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            {job.failed.length > 0 && (
+              <ul className="mt-3 text-red-700 space-y-1 max-h-40 overflow-y-auto">
+                {job.failed.map((f) => (
+                  <li key={f.row}>
+                    Row {f.row}
+                    {f.sku ? ` (${f.sku})` : ""}: {f.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        <footer className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 border-t border-gray-200 pt-4 text-sm">
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={skipInvalid}
+              onChange={(e) => setSkipInvalid(e.target.checked)}
+              disabled={!!job}
+            />
+            Skip rows with errors
+          </label>
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={running}
+              className="px-4 py-2 rounded-md border border-gray-300 hover:bg-gray-100 disabled:opacity-60"
+            >
+              {job?.status === "done" ? "Close" : "Cancel"}
+            </button>
+            <button
+              type="button"
+              onClick={runImport}
+              disabled={!canImport || busy}
+              className="bg-[#891F1A] hover:bg-[#6d1915] text-white px-4 py-2 rounded-md disabled:opacity-60"
+            >
+              {busy && preview ? "Starting…" : `Import ${importable || ""} product${importable === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import dynamic from "next/dynamic";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch, FRONTEND_KEY } from "../../utils/apiClient";
 
 // ✅ Quill (no SSR) + styles
 const ReactQuill = dynamic(() => import("react-quill-new"), { ssr: false });
@@ -54,17 +55,11 @@ function ensureQuillRegistration() {
 type CategoryOption = { id: string | number; name: string };
 
 // --- util helpers (unchanged) ---
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-function withFrontendKey(init: RequestInit = {}): RequestInit {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-}
 async function fetchJsonArray<T>(
   url: string,
   init?: RequestInit
 ): Promise<T[]> {
-  const res = await fetch(url, withFrontendKey(init));
+  const res = await apiFetch(url, init);
   if (!res.ok) {
     const text = await res.text().catch(() => "");
     throw new Error(
@@ -287,12 +282,12 @@ const CategorySubCategoryModal: React.FC<CategorySubCategoryModalProps> = ({
 
   /* ---------- Save helpers ---------- */
   async function postForm(endpoint: string, formData: FormData) {
-    const res = await fetch(
+    const res = await apiFetch(
       `${API_BASE_URL}/api/${endpoint}/`,
-      withFrontendKey({
-        method: "POST",
-        body: formData,
-      })
+      {
+      method: "POST",
+      body: formData,
+    }
     );
     const text = await res.text();
     let result: any;
@@ -0,0 +1,86 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+const CheckoutSettings = () => {
+  const [form, setForm] = useState({ guestCheckout: false })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const res = await fetch('/api/settings/checkout/')
+      if (res.ok) {
+        const data = await res.json()
+        setForm(data)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    const res = await fetch('/api/settings/checkout/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(form),
+    })
+    const data = await res.json().catch(() => ({}))
+    setSaving(false)
+    if (!res.ok) {
+      alert([data.error || 'Failed to save.', ...(data.details || [])].join('\n'))
+      return
+    }
+    setForm(data)
+    alert('Checkout settings saved.')
+  }
+
+  return (
+    <div className="space-y-10 max-w-3xl text-black">
+      <section className="bg-white p-6 rounded-2xl shadow border border-gray-200">
+        <h2 className="text-2xl font-bold text-[#891F1A] mb-4">🛒 Checkout</h2>
+
+        <div className="flex items-start space-x-3">
+          <input
+            id="guestCheckout"
+            type="checkbox"
+            checked={form.guestCheckout}
+            onChange={(e) => setForm({ guestCheckout: e.target.checked })}
+            className="w-5 h-5 mt-0.5"
+          />
+          <div>
+            <label htmlFor="guestCheckout" className="text-black font-medium">Allow guest checkout</label>
+            <p className="text-xs text-gray-500 mt-1">
+              Customers can order without an account. They get an order-tracking link by email and are offered
+              an account afterwards; signing up later moves the order into their account.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <div className="pt-2">
+        <button onClick={handleSave} disabled={saving} className="btn-primary">
+          {saving ? 'Saving...' : 'Save Checkout Settings'}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .btn-primary {
+          background: #891f1a;
+          color: white;
+          padding: 0.6rem 1.5rem;
+          border-radius: 0.5rem;
+          font-weight: 600;
+        }
+
+        .btn-primary:hover {
+          background: #6d1915;
+        }
+
+        .btn-primary:disabled {
+          opacity: 0.6;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+export default CheckoutSettings
@@ -0,0 +1,208 @@
+'use client'
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATE_INFO,
+  SAMPLE_EMAIL_VARS,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateId,
+  type EmailTemplates,
+} from '../../utils/emailTemplates'
+
+const EmailSettings = () => {
+  const [templates, setTemplates] = useState<EmailTemplates>(DEFAULT_EMAIL_TEMPLATES)
+  const [preview, setPreview] = useState<EmailTemplateId | null>(null)
+  const [testTo, setTestTo] = useState('')
+  const [testing, setTesting] = useState<EmailTemplateId | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const res = await fetch('/api/settings/emails/')
+      if (res.ok) {
+        const data = await res.json()
+        if (data?.templates) setTemplates(data.templates)
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const update = (id: EmailTemplateId, patch: Partial<EmailTemplate>) =>
+    setTemplates((t) => ({ ...t, [id]: { ...t[id], ...patch } }))
+
+  const handleSave = async () => {
+    setSaving(true)
+    const res = await fetch('/api/settings/emails/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ templates }),
+    })
+    const data = await res.json().catch(() => ({}))
+    setSaving(false)
+    if (!res.ok) {
+      alert([data.error || 'Failed to save.', ...(data.details || [])].join('\n'))
+      return
+    }
+    setTemplates(data.templates)
+    alert('Email templates saved.')
+  }
+
+  const sendTest = async (id: EmailTemplateId) => {
+    if (!testTo.trim()) {
+      alert('Enter an address to send the test to.')
+      return
+    }
+    setTesting(id)
+    const res = await fetch('/api/settings/emails/test/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, template: templates[id], to: testTo.trim() }),
+    })
+    const data = await res.json().catch(() => ({}))
+    setTesting(null)
+    alert(res.ok ? `Test email sent to ${testTo.trim()}.` : [data.error || 'Failed to send.', ...(data.details || [])].join('\n'))
+  }
+
+  return (
+    <div className="space-y-10 max-w-3xl text-black">
+      <section className="bg-white p-6 rounded-2xl shadow border border-gray-200">
+        <h2 className="text-2xl font-bold text-[#891F1A] mb-2">✉️ Customer Emails</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Write plain text; blank lines start a new paragraph and links become clickable. Placeholders such as{' '}
+          <code>{'{{order_id}}'}</code> are filled in when the email is sent. Test emails use example values.
+        </p>
+        <label className="block font-medium mb-1">Send tests to</label>
+        <input
+          type="email"
+          value={testTo}
+          onChange={(e) => setTestTo(e.target.value)}
+          className="input-field"
+          placeholder="you@example.com"
+        />
+      </section>
+
+      {EMAIL_TEMPLATE_IDS.map((id) => {
+        const info = EMAIL_TEMPLATE_INFO[id]
+        const tpl = templates[id]
+        const rendered = preview === id ? renderEmailTemplate(tpl, SAMPLE_EMAIL_VARS) : null
+        return (
+          <section key={id} className="bg-white p-6 rounded-2xl shadow border border-gray-200">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-[#891F1A]">{info.label}</h3>
+                <p className="text-xs text-gray-500">{info.trigger}</p>
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={tpl.enabled}
+                  onChange={(e) => update(id, { enabled: e.target.checked })}
+                  className="w-5 h-5"
+                />
+                Enabled
+              </label>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block font-medium mb-1">Subject</label>
+                <input
+                  type="text"
+                  value={tpl.subject}
+                  onChange={(e) => update(id, { subject: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block font-medium mb-1">Body</label>
+                <textarea
+                  value={tpl.body}
+                  onChange={(e) => update(id, { body: e.target.value })}
+                  rows={8}
+                  className="input-field font-mono text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Placeholders: {info.placeholders.map((p) => `{{${p}}}`).join(', ')}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                <button type="button" className="btn-secondary" onClick={() => setPreview(preview === id ? null : id)}>
+                  {preview === id ? 'Hide preview' : 'Preview'}
+                </button>
+                <button type="button" className="btn-secondary" onClick={() => sendTest(id)} disabled={testing === id}>
+                  {testing === id ? 'Sending...' : 'Send test'}
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => update(id, { subject: DEFAULT_EMAIL_TEMPLATES[id].subject, body: DEFAULT_EMAIL_TEMPLATES[id].body })}
+                >
+                  Reset to default
+                </button>
+              </div>
+
+              {rendered && (
+                <div className="border rounded-lg overflow-hidden">
+                  <p className="px-3 py-2 bg-gray-50 border-b text-sm">
+                    <strong>Subject:</strong> {rendered.subject}
+                  </p>
+                  <iframe title={`${info.label} preview`} srcDoc={rendered.html} className="w-full h-80 bg-white" sandbox="" />
+                </div>
+              )}
+            </div>
+          </section>
+        )
+      })}
+
+      <div className="pt-2">
+        <button onClick={handleSave} disabled={saving} className="btn-primary">
+          {saving ? 'Saving...' : 'Save Email Templates'}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .input-field {
+          width: 100%;
+          padding: 0.5rem;
+          border-radius: 0.5rem;
+          border: 1px solid #d1d5db;
+          background: white;
+        }
+
+        .btn-primary {
+          background: #891f1a;
+          color: white;
+          padding: 0.6rem 1.5rem;
+          border-radius: 0.5rem;
+          font-weight: 600;
+        }
+
+        .btn-primary:hover {
+          background: #6d1915;
+        }
+
+        .btn-primary:disabled,
+        .btn-secondary:disabled {
+          opacity: 0.6;
+        }
+
+        .btn-secondary {
+          border: 1px solid #d1d5db;
+          padding: 0.4rem 1rem;
+          border-radius: 0.5rem;
+          font-size: 0.875rem;
+          font-weight: 500;
+        }
+
+        .btn-secondary:hover {
+          background: #f9fafb;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+export default EmailSettings
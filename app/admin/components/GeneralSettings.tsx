@@ -1,15 +1,9 @@
 'use client'
 import { useEffect, useState, useCallback } from 'react'
-import { API_BASE_URL } from '../../utils/api'
+import { apiGet, apiPost } from '../../utils/apiClient'
 import { ToastContainer, toast } from 'react-toastify'
 import 'react-toastify/dist/ReactToastify.css'
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim()
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {})
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY)
-  return { ...init, headers }
-}
 
 type DataUrl = string | null
 
@@ -29,15 +23,6 @@ const GeneralSettings = () => {
 
   const buster = (u: string) => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : '')
 
-  const fetchJSON = async (url: string, init?: RequestInit) => {
-    const res = await fetch(url, withFrontendKey(init))
-    if (!res.ok) {
-      const txt = await res.text().catch(() => '')
-      throw new Error(`${res.status} ${res.statusText} - ${txt}`)
-    }
-    return res.json()
-  }
-
   const fileToDataUrl = (file: File): Promise<string> =>
     new Promise((resolve, reject) => {
       const r = new FileReader()
@@ -48,17 +33,17 @@ const GeneralSettings = () => {
 
   // fetchers from Show APIs (single source of truth)
   const refreshTitle = useCallback(async () => {
-    const t = await fetchJSON(`${API_BASE_URL}/api/show-sitetitle-details/`)
+    const t = await apiGet<any>('show-sitetitle-details')
     if (typeof t?.site_title === 'string') setSiteTitle(t.site_title)
   }, [])
 
   const refreshLogo = useCallback(async () => {
-    const l = await fetchJSON(`${API_BASE_URL}/api/show-logo/`)
+    const l = await apiGet<any>('show-logo')
     setLogoUrl(l?.logo?.url || '')
   }, [])
 
   const refreshFavicon = useCallback(async () => {
-    const f = await fetchJSON(`${API_BASE_URL}/api/show-favicon/`)
+    const f = await apiGet<any>('show-favicon')
     setFaviconUrl(f?.favicon?.url || '')
   }, [])
 
@@ -95,24 +80,12 @@ setFaviconUrl(u => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : ''
 
   // saves
   const saveTitle = async () => {
-    await fetchJSON(`${API_BASE_URL}/api/save-sitetitle-details/`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ site_title: siteTitle }),
-    })
+    await apiPost('save-sitetitle-details', { site_title: siteTitle })
   }
 
   const saveLogo = async () => {
     if (!logoPreview) return
-    const res = await fetch(`${API_BASE_URL}/api/save-logo/`, withFrontendKey({
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ source: logoPreview }), // base64 data URL
-    }))
-    if (!res.ok) {
-      const txt = await res.text().catch(() => '')
-      throw new Error(`${res.status} ${res.statusText} - ${txt}`)
-    }
+    await apiPost('save-logo', { source: logoPreview }) // base64 data URL
     // After save: re-fetch from Show API and clear preview
     await refreshLogo()
     setLogoPreview(null)
@@ -120,15 +93,7 @@ setFaviconUrl(u => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : ''
 
   const saveFavicon = async () => {
     if (!faviconPreview) return
-    const res = await fetch(`${API_BASE_URL}/api/save-favicon/`, withFrontendKey({
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ source: faviconPreview }), // base64 data URL
-    }))
-    if (!res.ok) {
-      const txt = await res.text().catch(() => '')
-      throw new Error(`${res.status} ${res.statusText} - ${txt}`)
-    }
+    await apiPost('save-favicon', { source: faviconPreview }) // base64 data URL
     await refreshFavicon()
     setFaviconPreview(null)
   }
@@ -153,17 +118,9 @@ setFaviconUrl(u => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : ''
   }
 
   // deletes -> always re-fetch afterwards
-  const postVoid = async (url: string) => {
-    const r = await fetch(url, withFrontendKey({ method: 'POST' }))
-    if (!r.ok) {
-      const txt = await r.text().catch(() => '')
-      throw new Error(`${r.status} ${r.statusText} - ${txt}`)
-    }
-  }
-
   const deleteLogo = async () => {
     try {
-      await postVoid(`${API_BASE_URL}/api/delete-logo/`)
+      await apiPost('delete-logo')
       await refreshLogo()
       setLogoPreview(null)
       toast.success('Logo deleted')
@@ -175,7 +132,7 @@ setFaviconUrl(u => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : ''
 
   const deleteFavicon = async () => {
     try {
-      await postVoid(`${API_BASE_URL}/api/delete-favicon/`)
+      await apiPost('delete-favicon')
       await refreshFavicon()
       setFaviconPreview(null)
       toast.success('Favicon deleted')
@@ -187,7 +144,7 @@ setFaviconUrl(u => (u ? `${u}${u.includes('?') ? '&' : '?'}v=${Date.now()}` : ''
 
   const deleteTitle = async () => {
     try {
-      await postVoid(`${API_BASE_URL}/api/delete-sitetitle-details/`)
+      await apiPost('delete-sitetitle-details')
       await refreshTitle()
       toast.success('Site title cleared')
     } catch (e: any) {
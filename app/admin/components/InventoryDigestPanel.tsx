@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { isAbortError } from "../../utils/apiClient";
+import { availableStock, fetchInventoryDigest, type InventoryDigest, type StockLevel } from "../../utils/inventory";
+
+const levelName = (l: { label: string; product_id: string }) => l.label || `Product #${l.product_id}`;
+
+const LevelList = ({ title, levels, tone }: { title: string; levels: StockLevel[]; tone: string }) => (
+  <div className="rounded-lg border border-gray-200 p-3">
+    <h3 className={`text-sm font-semibold mb-2 ${tone}`}>
+      {title} ({levels.length})
+    </h3>
+    {levels.length === 0 ? (
+      <p className="text-xs text-gray-400">None</p>
+    ) : (
+      <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+        {levels.map((l) => (
+          <li key={`${l.product_id}|${l.variant_signature}`} className="flex justify-between gap-2">
+            <span className="truncate">{levelName(l)}</span>
+            <span className="text-gray-500 whitespace-nowrap">{Math.max(0, availableStock(l))} left</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/** Today's stock digest for the Inventory tab of the notifications page: what's out, what's low, what to reorder. */
+export default function InventoryDigestPanel() {
+  const [digest, setDigest] = useState<InventoryDigest | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchInventoryDigest(controller.signal)
+      .then(setDigest)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err?.message || "Failed to load inventory digest");
+      });
+    return () => controller.abort();
+  }, []);
+
+  if (error) return <div className="mb-6 text-sm text-red-700">{error}</div>;
+  if (!digest) return <div className="mb-6 text-sm text-gray-500">Loading stock digest…</div>;
+
+  return (
+    <section className="mb-6 bg-white border border-gray-200 rounded-xl p-4 shadow-sm" aria-labelledby="stock-digest-title">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 id="stock-digest-title" className="text-lg font-semibold text-[#891F1A]">
+          📦 Stock digest
+        </h2>
+        <span className="text-xs text-gray-400">{new Date(digest.generated_at).toLocaleString()}</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        <LevelList title="Out of stock" levels={digest.out_of_stock} tone="text-red-700" />
+        <LevelList title="Low stock" levels={digest.low_stock} tone="text-yellow-700" />
+      </div>
+
+      <div className="overflow-auto rounded-lg border border-gray-200">
+        <table className="w-full text-sm">
+          <caption className="text-left text-xs text-gray-500 px-2 pt-2">
+            Reorder suggestions — enough for a month at the last 30 days&apos; rate of sale
+          </caption>
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th scope="col" className="p-2 text-left">Product</th>
+              <th scope="col" className="p-2 text-right">Available</th>
+              <th scope="col" className="p-2 text-right">Alert at</th>
+              <th scope="col" className="p-2 text-right">Sold / day</th>
+              <th scope="col" className="p-2 text-right">Days left</th>
+              <th scope="col" className="p-2 text-right">Reorder</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {digest.suggestions.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-4 text-center text-gray-500">
+                  Nothing needs reordering.
+                </td>
+              </tr>
+            ) : (
+              digest.suggestions.map((s) => (
+                <tr key={`${s.product_id}|${s.variant_signature}`}>
+                  <td className="p-2">
+                    <a href="/admin/inventory" className="text-[#891F1A] underline">
+                      {levelName(s)}
+                    </a>
+                  </td>
+                  <td className={`p-2 text-right ${s.available <= 0 ? "text-red-700 font-semibold" : ""}`}>{s.available}</td>
+                  <td className="p-2 text-right">{s.threshold ?? "—"}</td>
+                  <td className="p-2 text-right">{s.per_day}</td>
+                  <td className="p-2 text-right">{s.days_left ?? "—"}</td>
+                  <td className="p-2 text-right font-semibold">{s.suggested}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,197 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+type Form = {
+  companyName: string
+  address: string
+  trn: string
+  vatRegistered: boolean
+  email: string
+  phone: string
+  invoicePrefix: string
+  creditNotePrefix: string
+  footerNote: string
+}
+
+const EMPTY: Form = {
+  companyName: '',
+  address: '',
+  trn: '',
+  vatRegistered: false,
+  email: '',
+  phone: '',
+  invoicePrefix: 'INV-',
+  creditNotePrefix: 'CN-',
+  footerNote: '',
+}
+
+const InvoiceSettings = () => {
+  const [form, setForm] = useState<Form>(EMPTY)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const res = await fetch('/api/settings/invoice/')
+      if (res.ok) {
+        const data = await res.json()
+        setForm({ ...EMPTY, ...data })
+      }
+    }
+    fetchSettings()
+  }, [])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    const upper = name === 'invoicePrefix' || name === 'creditNotePrefix'
+    setForm((f) => ({ ...f, [name]: upper ? value.toUpperCase() : value }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const res = await fetch('/api/settings/invoice/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(form),
+    })
+    const data = await res.json().catch(() => ({}))
+    setSaving(false)
+    if (!res.ok) {
+      alert([data.error || 'Failed to save.', ...(data.details || [])].join('\n'))
+      return
+    }
+    setForm({ ...EMPTY, ...data })
+    alert('Invoice settings saved.')
+  }
+
+  return (
+    <div className="space-y-10 max-w-3xl text-black">
+      <section className="bg-white p-6 rounded-2xl shadow border border-gray-200">
+        <h2 className="text-2xl font-bold text-[#891F1A] mb-4">🏢 Company Details</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Printed on every invoice and credit note. The logo is the one set under General.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block font-medium mb-1">Company Name</label>
+            <input type="text" name="companyName" value={form.companyName} onChange={handleChange} className="input-field" />
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Address</label>
+            <textarea name="address" value={form.address} onChange={handleChange} rows={3} className="input-field" />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block font-medium mb-1">Email</label>
+              <input type="email" name="email" value={form.email} onChange={handleChange} className="input-field" />
+            </div>
+            <div>
+              <label className="block font-medium mb-1">Phone</label>
+              <input type="tel" name="phone" value={form.phone} onChange={handleChange} className="input-field" />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <input
+              id="vatRegistered"
+              type="checkbox"
+              checked={form.vatRegistered}
+              onChange={(e) => setForm((f) => ({ ...f, vatRegistered: e.target.checked }))}
+              className="w-5 h-5"
+            />
+            <label htmlFor="vatRegistered" className="text-black font-medium">VAT registered</label>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">Tax Registration Number (TRN)</label>
+            <input
+              type="text"
+              name="trn"
+              value={form.trn}
+              onChange={handleChange}
+              className="input-field"
+              inputMode="numeric"
+              maxLength={15}
+              placeholder="100000000000003"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              15 digits. Required when VAT registered; documents are then titled &quot;Tax Invoice&quot;.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow border border-gray-200">
+        <h2 className="text-2xl font-bold text-[#891F1A] mb-4">🧾 Numbering</h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block font-medium mb-1">Invoice Prefix</label>
+            <input type="text" name="invoicePrefix" value={form.invoicePrefix} onChange={handleChange} className="input-field" />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">Credit Note Prefix</label>
+            <input
+              type="text"
+              name="creditNotePrefix"
+              value={form.creditNotePrefix}
+              onChange={handleChange}
+              className="input-field"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Numbers run on without gaps and are never reused. A new prefix only applies to documents issued after the change.
+        </p>
+
+        <div className="mt-4">
+          <label className="block font-medium mb-1">Footer Note</label>
+          <textarea
+            name="footerNote"
+            value={form.footerNote}
+            onChange={handleChange}
+            rows={2}
+            className="input-field"
+            placeholder="Thank you for your business."
+          />
+        </div>
+      </section>
+
+      <div className="pt-2">
+        <button onClick={handleSave} disabled={saving} className="btn-primary">
+          {saving ? 'Saving...' : 'Save Invoice Settings'}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .input-field {
+          width: 100%;
+          padding: 0.5rem;
+          border-radius: 0.5rem;
+          border: 1px solid #d1d5db;
+          background: white;
+        }
+
+        .btn-primary {
+          background: #891f1a;
+          color: white;
+          padding: 0.6rem 1.5rem;
+          border-radius: 0.5rem;
+          font-weight: 600;
+        }
+
+        .btn-primary:hover {
+          background: #6d1915;
+        }
+
+        .btn-primary:disabled {
+          opacity: 0.6;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+export default InvoiceSettings
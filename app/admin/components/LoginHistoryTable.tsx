@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+
+type LoginEvent = {
+  username: string;
+  admin_id?: string;
+  outcome: 'success' | 'bad_password' | 'bad_2fa' | 'recovery_code';
+  ip: string;
+  user_agent: string;
+  created_at: string;
+};
+
+const OUTCOME_LABELS: Record<LoginEvent['outcome'], { label: string; cls: string }> = {
+  success: { label: 'Signed in', cls: 'bg-green-100 text-green-700' },
+  recovery_code: { label: 'Signed in (recovery code)', cls: 'bg-yellow-100 text-yellow-800' },
+  bad_password: { label: 'Wrong password', cls: 'bg-red-100 text-red-700' },
+  bad_2fa: { label: 'Wrong 2FA code', cls: 'bg-red-100 text-red-700' },
+};
+
+// Short browser/OS hint from a user agent string
+const deviceOf = (ua: string) => {
+  if (!ua) return '—';
+  const browser = /Edg\//.test(ua) ? 'Edge' : /Chrome\//.test(ua) ? 'Chrome' : /Firefox\//.test(ua) ? 'Firefox' : /Safari\//.test(ua) ? 'Safari' : 'Browser';
+  const os = /Windows/.test(ua) ? 'Windows' : /Mac OS X/.test(ua) ? 'macOS' : /Android/.test(ua) ? 'Android' : /iPhone|iPad/.test(ua) ? 'iOS' : /Linux/.test(ua) ? 'Linux' : '';
+  return os ? `${browser} on ${os}` : browser;
+};
+
+/** Login history for one admin (own account when adminId is omitted). */
+export default function LoginHistoryTable({ adminId, username }: { adminId?: string; username?: string }) {
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const ac = new AbortController();
+    const qs = new URLSearchParams();
+    if (adminId) qs.set('admin_id', adminId);
+    if (username) qs.set('username', username);
+
+    setLoading(true);
+    fetch(`/api/admin/login-history?${qs}`, { cache: 'no-store', signal: ac.signal })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to load login history');
+        setEvents(Array.isArray(data?.events) ? data.events : []);
+        setError('');
+      })
+      .catch((err) => {
+        if (err?.name !== 'AbortError') setError(err?.message || 'Failed to load login history');
+      })
+      .finally(() => setLoading(false));
+
+    return () => ac.abort();
+  }, [adminId, username]);
+
+  if (loading) return <p className="text-sm text-gray-500">Loading login history…</p>;
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!events.length) return <p className="text-sm text-gray-500">No sign-in attempts recorded yet.</p>;
+
+  return (
+    <div className="overflow-x-auto max-h-96">
+      <table className="w-full text-sm text-left text-black">
+        <thead className="bg-gray-50 text-gray-600 sticky top-0">
+          <tr>
+            <th className="px-3 py-2 font-semibold">When</th>
+            <th className="px-3 py-2 font-semibold">Result</th>
+            <th className="px-3 py-2 font-semibold">IP</th>
+            <th className="px-3 py-2 font-semibold">Device</th>
+          </tr>
+        </thead>
+        <tbody>
+          {events.map((e, i) => {
+            const outcome = OUTCOME_LABELS[e.outcome] || { label: e.outcome, cls: 'bg-gray-100 text-gray-700' };
+            return (
+              <tr key={`${e.created_at}-${i}`} className="border-b">
+                <td className="px-3 py-2 whitespace-nowrap" title={new Date(e.created_at).toLocaleString('en-GB')}>
+                  {formatDistanceToNow(new Date(e.created_at), { addSuffix: true })}
+                </td>
+                <td className="px-3 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${outcome.cls}`}>{outcome.label}</span>
+                </td>
+                <td className="px-3 py-2 font-mono text-xs">{e.ip || '—'}</td>
+                <td className="px-3 py-2" title={e.user_agent}>
+                  {deviceOf(e.user_agent)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
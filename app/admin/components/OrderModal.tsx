@@ -4,15 +4,9 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import { toast } from 'react-toastify';
 import { API_BASE_URL } from '../../utils/api';
-
-// ---- Frontend key helper (required for FrontendOnlyPermission) ----
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set('X-Frontend-Key', FRONTEND_KEY);
-  return { ...init, headers };
-};
-// -------------------------------------------------------------------
+import { apiFetch, FRONTEND_KEY, orderIdFrom } from '../../utils/apiClient';
+import { checkStock, reserveOrderStock } from '../../utils/inventory';
+import { INITIAL_ORDER_STATUSES, ORDER_STATUS_LABELS, type OrderStatus } from '../../utils/orderStatus';
 
 const CURRENCY = 'AED';
 const fmtMoney = (n: number) =>
@@ -22,8 +16,6 @@ const toNum = (v: unknown, def = 0) => {
   return Number.isFinite(n) ? n : def;
 };
 
-type OrderStatus = 'Pending' | 'Processing' | 'Shipped' | 'Completed';
-
 type OrderFormData = {
   customer: string;
   items: number;
@@ -108,15 +100,14 @@ export default function OrderForm({ onClose, onSave }: OrderFormProps) {
       setLoading(true);
       setErrorMsg('');
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-product/?_=${Date.now()}`,
-          withFrontendKey({
-            headers: { 'Content-Type': 'application/json' },
-            method: 'GET',
-            cache: 'no-store',
-            signal: controller.signal,
-          }),
-        );
+          {
+          headers: { 'Content-Type': 'application/json' },
+          method: 'GET',
+          cache: 'no-store',
+          signal: controller.signal,
+        });
 
         if (!res.ok) {
           const txt = await res.text().catch(() => '');
@@ -171,7 +162,7 @@ export default function OrderForm({ onClose, onSave }: OrderFormProps) {
     customer: '',
     items: 1,
     total: '',
-    status: 'Pending',
+    status: 'pending',
     email: '',
     phone: '',
     address: '',
@@ -226,6 +217,15 @@ export default function OrderForm({ onClose, onSave }: OrderFormProps) {
     if (!formData.zip_code?.trim()) return toast.error('Please enter the zip code.');
     if (selectedItems.length === 0) return toast.error('Please select at least one product.');
 
+    // Admins may oversell on purpose (e.g. stock arriving), but not by accident
+    const short = await checkStock(selectedItems.map((i) => ({ ...i, variant_signature: '' })));
+    if (short.length) {
+      const names = short
+        .map((s) => `${products.find((p) => String(p.id) === s.product_id)?.name || s.product_id} (${s.available} available)`)
+        .join(', ');
+      if (!confirm(`Not enough stock for: ${names}. Save the order anyway?`)) return;
+    }
+
     const payload: OrderPayload = {
       user_name: formData.customer,
       delivery: {
@@ -246,18 +246,20 @@ export default function OrderForm({ onClose, onSave }: OrderFormProps) {
 
     try {
       setSaving(true);
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/save-order/`,
-        withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
-        }),
-      );
+        {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
 
       const result = await res.json().catch(() => ({}));
 
       if (res.ok) {
+        const orderId = orderIdFrom(result);
+        // The admin already chose to save despite any shortage; only a failed hold needs saying
+        if (orderId) await reserveOrderStock(orderId).catch(() => toast.warn('Order saved, but its stock could not be reserved.'));
         toast.success('Order saved successfully!');
         onSave(payload);
         onClose();
@@ -493,10 +495,11 @@ export default function OrderForm({ onClose, onSave }: OrderFormProps) {
             onChange={(e) => setFormData({ ...formData, status: e.target.value as OrderStatus })}
             className="w-full px-4 py-3 border rounded-md focus:ring-2 focus:ring-[#891F1A]"
           >
-            <option value="Pending">Pending</option>
-            <option value="Processing">Processing</option>
-            <option value="Shipped">Shipped</option>
-            <option value="Completed">Completed</option>
+            {INITIAL_ORDER_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {ORDER_STATUS_LABELS[s]}
+              </option>
+            ))}
           </select>
 
           <input
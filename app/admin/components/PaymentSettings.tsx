@@ -6,7 +6,7 @@ const PaymentSettings = () => {
     stripeKey: '',
     paypalKey: '',
     codEnabled: true,
-    mode: 'sandbox',
+    mode: 'live',
   })
 
   const [logs, setLogs] = useState<string[]>([])
@@ -21,6 +21,7 @@ const PaymentSettings = () => {
       }
     }
     fetchSettings()
+    fetchLogs()
   }, [])
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -36,7 +37,15 @@ const PaymentSettings = () => {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(form),
     })
-    alert(res.ok ? 'Payment settings saved.' : 'Failed to save.')
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      alert([data.error || 'Failed to save.', ...(data.details || [])].join('\n'))
+      return
+    }
+    // server returns the saved settings with secrets masked again
+    setForm(data)
+    fetchLogs()
+    alert('Payment settings saved.')
   }
 
   const fetchLogs = async () => {
@@ -65,7 +74,9 @@ const PaymentSettings = () => {
               onChange={handleChange}
               className="input-field"
               placeholder="sk_live_..."
+              autoComplete="off"
             />
+            <p className="text-xs text-gray-500 mt-1">Stored keys are shown masked. Leave as is to keep the current key.</p>
           </div>
 
           <div>
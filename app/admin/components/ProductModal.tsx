@@ -4,8 +4,15 @@ import type React from "react";
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { toast } from "react-toastify";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch, FRONTEND_KEY } from "../../utils/apiClient";
+import {
+  MAX_VARIANT_COMBINATIONS,
+  normalizeVariantStocks,
+  variantCombinations,
+} from "../../utils/inventory";
 import dynamic from "next/dynamic";
 import "react-quill-new/dist/quill.snow.css";
+import { refreshStorefront } from "../../utils/storefront";
 
 const ReactQuill = dynamic(() => import("react-quill-new"), { ssr: false });
 
@@ -29,6 +36,11 @@ type CustomAttribute = {
   status?: string; // "active" | "hidden" | etc.
 };
 
+// One row of the variant inventory grid, as typed (blank = not set)
+type VariantStockDraft = { sku_suffix: string; stock: string; threshold: string };
+
+const SKU_SUFFIX_RE = /^[A-Za-z0-9_-]{0,20}$/;
+
 type ModalImage = {
   src: string;
   file?: File | null;
@@ -40,18 +52,10 @@ type ModalImage = {
   is_primary?: boolean; // backend truth
 };
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
 const MAX_IMAGES = 99;
 
 // ---------------- Helpers ----------------
 
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  if (!headers.has("Content-Type"))
-    headers.set("Content-Type", "application/json");
-  return { ...init, headers };
-};
 
 const parseJsonSafe = async (res: Response, label: string) => {
   if (!res.ok) {
@@ -252,6 +256,10 @@ const Modal = ({
   );
   const [isLoadingLibraryAttributes, setIsLoadingLibraryAttributes] =
     useState(false);
+  // variant signature → stock / SKU suffix / threshold for that combination
+  const [variantStock, setVariantStock] = useState<
+    Record<string, VariantStockDraft>
+  >({});
   const [libraryAttributesError, setLibraryAttributesError] = useState<
     string | null
   >(null);
@@ -304,6 +312,7 @@ const Modal = ({
     groupedFilters: "",
     processingTime: "",
     shippingClass: [],
+    weight: "",
     card1Title: "",
     card1: "",
     card2Title: "",
@@ -397,12 +406,12 @@ const Modal = ({
 
   // Single source of truth loader for "other details" (images)
   const fetchOtherDetails = useCallback(async (prodId: string) => {
-    const res = await fetch(
+    const res = await apiFetch(
       `${API_BASE_URL}/api/show_product_other_details/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: prodId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: prodId }),
+    }
     );
     const other = await parseJsonSafe(res, "show_product_other_details");
 
@@ -495,6 +504,7 @@ const Modal = ({
         groupedFilters: "",
         processingTime: "",
         shippingClass: [],
+        weight: "",
         card1Title: "",
         card1: "",
         card2Title: "",
@@ -515,6 +525,7 @@ const Modal = ({
       setSelectedCategories([]);
       setSelectedSubcategories([]);
       setCustomAttributes([]);
+      setVariantStock({});
     };
 
     if (!productId) {
@@ -527,55 +538,55 @@ const Modal = ({
       try {
 const [basicRes, seoRes, variantRes, shipRes, combosRes, attrsRes, cardsRes] =
   await Promise.all([
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_specific_product/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_product_seo/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_product_variant/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_product_shipping_info/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_product_variants/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show_product_attributes/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
     // 👇 NEW: ShowProductCardAPIView
-    fetch(
+    apiFetch(
       `${API_BASE_URL}/api/show-product-cards/`,
-      withFrontendKey({
-        method: "POST",
-        body: JSON.stringify({ product_id: productId }),
-      })
+      {
+      method: "POST",
+      body: JSON.stringify({ product_id: productId }),
+    }
     ),
   ]);
 
@@ -651,6 +662,7 @@ const [basicRes, seoRes, variantRes, shipRes, combosRes, attrsRes, cardsRes] =
           groupedFilters: seo.grouped_filters || [],
           processingTime: shipping.processing_time || "",
           shippingClass: (shipping.shipping_class || "").split(","),
+          weight: shipping.weight ?? basic.weight ?? "",
           card1Title: cards.card1_title || "",
 card1: cards.card1 || "",
 card2Title: cards.card2_title || "",
@@ -698,6 +710,18 @@ card3: cards.card3 || "",
             : ""
         );
 
+        // per-variant stock rows
+        const drafts: Record<string, VariantStockDraft> = {};
+        normalizeVariantStocks(basic.variant_inventory).forEach((v) => {
+          drafts[v.signature] = {
+            sku_suffix: v.sku_suffix,
+            stock: v.stock_quantity === null ? "" : String(v.stock_quantity),
+            threshold:
+              v.low_stock_threshold === null ? "" : String(v.low_stock_threshold),
+          };
+        });
+        setVariantStock(drafts);
+
         // normalize attributes previews
         if (Array.isArray(attrs)) {
           const normalized: CustomAttribute[] = attrs.map((a: any) => ({
@@ -752,8 +776,8 @@ card3: cards.card3 || "",
     (async () => {
       try {
         const [catRes, subRes] = await Promise.all([
-          fetch(`${API_BASE_URL}/api/show-categories/`, withFrontendKey()),
-          fetch(`${API_BASE_URL}/api/show-subcategories/`, withFrontendKey()),
+          apiFetch(`${API_BASE_URL}/api/show-categories/`),
+          apiFetch(`${API_BASE_URL}/api/show-subcategories/`),
         ]);
         const catData = await parseJsonSafe(catRes, "show-categories");
         const subData = await parseJsonSafe(subRes, "show-subcategories");
@@ -951,12 +975,12 @@ card3: cards.card3 || "",
     }
     try {
       setIsSettingThumb(true);
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/set-product-thumbnail/`,
-        withFrontendKey({
-          method: "POST",
-          body: JSON.stringify({ product_id: prodId, image_id: img.image_id }),
-        })
+        {
+        method: "POST",
+        body: JSON.stringify({ product_id: prodId, image_id: img.image_id }),
+      }
       );
       const data = await parseJsonSafe(res, "set-product-thumbnail");
       if (data?.success) {
@@ -1023,11 +1047,11 @@ card3: cards.card3 || "",
         const responses = await Promise.all(
           activeSubcategoryIds.map(async (subId) => {
             try {
-              const res = await fetch(
+              const res = await apiFetch(
                 `${API_BASE_URL}/api/show-subcat-attributes/?subcategory_id=${encodeURIComponent(
                   subId
                 )}`,
-                withFrontendKey({ method: "GET" })
+                { method: "GET" }
               );
               if (res.status === 404) return [];
               const data = await parseJsonSafe(res, "show-subcat-attributes");
@@ -1481,6 +1505,72 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
   updateOption(attrId, optId, { _image_file: file, _image_preview: preview, image_id: null });
 };
 
+  // ---------- Variant inventory ----------
+  const variantRows = useMemo(
+    () =>
+      variantCombinations(
+        customAttributes.map((a) => ({
+          id: a.id,
+          name: a.name.trim(),
+          options: a.options.filter((o) => o.label.trim()),
+        }))
+      ),
+    [customAttributes]
+  );
+  const variantCombinationCount = useMemo(
+    () =>
+      customAttributes
+        .map((a) => a.options.filter((o) => o.label.trim()).length)
+        .filter(Boolean)
+        .reduce((n, c) => n * c, 1),
+    [customAttributes]
+  );
+
+  const updateVariantStock = (
+    signature: string,
+    patch: Partial<VariantStockDraft>
+  ) =>
+    setVariantStock((prev) => ({
+      ...prev,
+      [signature]: {
+        ...(prev[signature] || { sku_suffix: "", stock: "", threshold: "" }),
+        ...patch,
+      },
+    }));
+
+  // Rows left blank aren't sent: those variants share the product's stock
+  const buildVariantInventoryPayload = () => {
+    const out: any[] = [];
+    const errors: string[] = [];
+    const suffixes = new Set<string>();
+    for (const row of variantRows) {
+      const d = variantStock[row.signature];
+      if (!d || (!d.sku_suffix.trim() && d.stock === "" && d.threshold === ""))
+        continue;
+      const suffix = d.sku_suffix.trim();
+      const stock = d.stock === "" ? null : Number(d.stock);
+      const threshold = d.threshold === "" ? null : Number(d.threshold);
+      if (!SKU_SUFFIX_RE.test(suffix))
+        errors.push(`${row.label}: SKU suffix may use letters, digits, - and _ (max 20)`);
+      if (suffix && suffixes.has(suffix))
+        errors.push(`${row.label}: SKU suffix "${suffix}" is used twice`);
+      if (stock !== null && !(Number.isInteger(stock) && stock >= 0))
+        errors.push(`${row.label}: stock must be a whole number of 0 or more`);
+      if (threshold !== null && !(Number.isInteger(threshold) && threshold >= 0))
+        errors.push(`${row.label}: low-stock alert must be a whole number of 0 or more`);
+      suffixes.add(suffix);
+      out.push({
+        signature: row.signature,
+        options: row.options,
+        label: row.label,
+        sku_suffix: suffix,
+        stock_quantity: stock,
+        low_stock_threshold: threshold,
+      });
+    }
+    return { rows: out, errors };
+  };
+
   // ---------- Save product (trimmed to the relevant imaging bits) ----------
   const handleSubmit = async (e: any) => {
     e.preventDefault();
@@ -1501,6 +1591,12 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
       return;
     }
 
+    const variantInventory = buildVariantInventoryPayload();
+    if (variantInventory.errors.length > 0) {
+      toast.error(variantInventory.errors[0]);
+      return;
+    }
+
     let toastId: any;
     try {
       toastId = toast.loading(
@@ -1585,6 +1681,7 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
         category_ids: selectedCategories,
         subcategory_ids: finalSubcategoryIds,
         shippingClass: cleanCommaArray(tempShippingClass),
+        weight: parseFloat(formData.weight) || 0,
         processing_time: formData.processingTime,
         image_alt_text: formData.imageAlt,
         meta_title: formData.metaTitle,
@@ -1603,6 +1700,7 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
         customTags: cleanCommaArray(tempCustomTags),
         groupedFilters: cleanCommaArray(tempGroupedFilters),
         customAttributes: attributesPayload,
+        variant_inventory: variantInventory.rows,
         images_with_meta,
         card1_title: formData.card1Title,
         card1: formData.card1,
@@ -1622,9 +1720,9 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
         payload.force_replace_images = !!hasNewImages;
         if (hasNewImages) payload.images = newImagesBase64;
 
-        res = await fetch(
+        res = await apiFetch(
           `${API_BASE_URL}/api/edit-product/`,
-          withFrontendKey({ method: "POST", body: JSON.stringify(payload) })
+          { method: "POST", body: JSON.stringify(payload) }
         );
       } else {
         const payload: any = {
@@ -1632,9 +1730,9 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
           images: newImagesBase64,
           force_replace_images: true,
         };
-        res = await fetch(
+        res = await apiFetch(
           `${API_BASE_URL}/api/save-product/`,
-          withFrontendKey({ method: "POST", body: JSON.stringify(payload) })
+          { method: "POST", body: JSON.stringify(payload) }
         );
       }
 
@@ -1650,6 +1748,7 @@ const handleOptionImageChange = (attrId: string, optId: string, file: File | nul
             ? "Product updated successfully!"
             : "Product saved successfully!"
         );
+        refreshStorefront("catalog");
 
         // After saving new images in edit mode, refresh to pick up server-provided image_ids/is_primary
         const prodId = formData.sku || productId;
@@ -3079,6 +3178,113 @@ useEffect(() => {
               </div>
             </section>
 
+            {/* Variant Inventory */}
+            <section>
+              <h3 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4 border-b border-gray-200 pb-2 text-[#8B1C1C]">
+                Variant Inventory
+              </h3>
+              {variantCombinationCount > MAX_VARIANT_COMBINATIONS ? (
+                <div className="rounded-xl border border-dashed border-gray-300 bg-gray-50/60 px-4 py-6 text-center text-sm text-gray-500">
+                  {variantCombinationCount} combinations is too many to track
+                  one by one (max {MAX_VARIANT_COMBINATIONS}). Split the
+                  product or reduce its options.
+                </div>
+              ) : variantRows.length === 0 ? (
+                <div className="rounded-xl border border-dashed border-gray-300 bg-gray-50/60 px-4 py-6 text-center text-sm text-gray-500">
+                  Add custom attributes with options to track stock per
+                  combination.
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Leave stock blank for combinations that share the
+                    product&apos;s stock quantity. The SKU is the product ID
+                    followed by the suffix.
+                  </p>
+                  <div className="overflow-auto max-h-[360px] rounded-lg border border-gray-200">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                        <tr>
+                          <th scope="col" className="p-2 text-left">
+                            Variant
+                          </th>
+                          <th scope="col" className="p-2 text-left w-36">
+                            SKU suffix
+                          </th>
+                          <th scope="col" className="p-2 text-left w-28">
+                            Stock
+                          </th>
+                          <th scope="col" className="p-2 text-left w-28">
+                            Low-stock alert
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {variantRows.map((row) => {
+                          const d = variantStock[row.signature] || {
+                            sku_suffix: "",
+                            stock: "",
+                            threshold: "",
+                          };
+                          return (
+                            <tr key={row.signature}>
+                              <td className="p-2 text-gray-800">{row.label}</td>
+                              <td className="p-2">
+                                <input
+                                  type="text"
+                                  aria-label={`SKU suffix for ${row.label}`}
+                                  placeholder="-XL-RED"
+                                  className="input-primary !py-1"
+                                  value={d.sku_suffix}
+                                  maxLength={20}
+                                  onChange={(e) =>
+                                    updateVariantStock(row.signature, {
+                                      sku_suffix: e.target.value,
+                                    })
+                                  }
+                                />
+                              </td>
+                              <td className="p-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={1}
+                                  aria-label={`Stock for ${row.label}`}
+                                  placeholder="Shared"
+                                  className="input-primary !py-1"
+                                  value={d.stock}
+                                  onChange={(e) =>
+                                    updateVariantStock(row.signature, {
+                                      stock: e.target.value,
+                                    })
+                                  }
+                                />
+                              </td>
+                              <td className="p-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={1}
+                                  aria-label={`Low-stock alert for ${row.label}`}
+                                  className="input-primary !py-1"
+                                  value={d.threshold}
+                                  onChange={(e) =>
+                                    updateVariantStock(row.signature, {
+                                      threshold: e.target.value,
+                                    })
+                                  }
+                                />
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </section>
+
             {/* Additional Metadata */}
             <section>
               <h3 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4 border-b border-gray-200 pb-2 text-[#8B1C1C]">
@@ -3126,6 +3332,16 @@ useEffect(() => {
                   value={tempShippingClass}
                   onChange={(e) => setTempShippingClass(e.target.value)}
                 />
+                <input
+                  name="weight"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Weight per unit (KG)"
+                  className="input-primary"
+                  value={formData.weight}
+                  onChange={handleChange}
+                />
               </div>
             </section>
           </form>
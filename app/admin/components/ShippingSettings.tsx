@@ -1,7 +1,47 @@
 'use client'
 import { useState, useEffect } from 'react'
+import { normalizeZone, splitList, SHIPPING_COUNTRIES } from '../../utils/pricing'
 
-const defaultZone = { zoneName: '', country: '', type: 'flat', price: 0 }
+// cities / class rates are edited as free text and converted on load/save
+const defaultZone = {
+  zoneName: '',
+  country: '',
+  type: 'flat',
+  price: 0,
+  freeOver: 0,
+  citiesText: '',
+  classRatesText: '',
+}
+
+const toFormZone = (raw: any) => {
+  const z = normalizeZone(raw)
+  return {
+    zoneName: z.zoneName,
+    country: z.country,
+    type: z.type,
+    price: z.price,
+    freeOver: z.freeOver || 0,
+    citiesText: (z.cities || []).join(', '),
+    classRatesText: Object.entries(z.classRates || {})
+      .map(([k, v]) => `${k}:${v}`)
+      .join(', '),
+  }
+}
+
+const fromFormZone = (z: typeof defaultZone) => ({
+  zoneName: z.zoneName,
+  country: z.country,
+  type: z.type,
+  price: Number(z.price) || 0,
+  freeOver: Number(z.freeOver) || 0,
+  cities: splitList(z.citiesText),
+  classRates: Object.fromEntries(
+    splitList(z.classRatesText)
+      .map(pair => pair.split(':').map(s => s.trim()))
+      .filter(([k, v]) => k && v !== undefined && !isNaN(parseFloat(v)))
+      .map(([k, v]) => [k.toLowerCase(), parseFloat(v)])
+  ),
+})
 
 const ShippingSettings = () => {
   const [zones, setZones] = useState([defaultZone])
@@ -12,7 +52,7 @@ const ShippingSettings = () => {
       const res = await fetch('/api/settings/shipping/')
       if (res.ok) {
         const data = await res.json()
-        setZones(data.zones || [defaultZone])
+        setZones(Array.isArray(data.zones) && data.zones.length ? data.zones.map(toFormZone) : [defaultZone])
         setIntegrations(data.integrations || { aramex: false, dhl: false })
       }
     }
@@ -39,9 +79,11 @@ const ShippingSettings = () => {
     const res = await fetch('/api/settings/shipping/', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ zones, integrations }),
+      body: JSON.stringify({ zones: zones.map(fromFormZone), integrations }),
     })
-    alert(res.ok ? 'Shipping settings saved successfully!' : 'Failed to save.')
+    if (res.ok) return alert('Shipping settings saved successfully!')
+    const data = await res.json().catch(() => ({}))
+    alert([data.error || 'Failed to save.', ...(data.details || [])].join('\n'))
   }
 
   return (
@@ -79,11 +121,9 @@ const ShippingSettings = () => {
                   className="input-field"
                 >
                   <option value="">Select country</option>
-                  <option value="UAE">UAE</option>
-                  <option value="Saudi Arabia">Saudi Arabia</option>
-                  <option value="Kuwait">Kuwait</option>
-                  <option value="Qatar">Qatar</option>
-                  <option value="Bahrain">Bahrain</option>
+                  {SHIPPING_COUNTRIES.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
                 </select>
               </div>
 
@@ -96,21 +136,61 @@ const ShippingSettings = () => {
                 >
                   <option value="flat">Flat Rate</option>
                   <option value="weight">Weight-Based</option>
+                  <option value="free">Free Shipping</option>
                 </select>
               </div>
 
+              {zone.type !== 'free' && (
+                <div>
+                  <label className="block font-medium mb-1">
+                    {zone.type === 'flat' ? 'Flat Rate Price' : 'Price per KG'}
+                  </label>
+                  <input
+                    type="number"
+                    value={zone.price}
+                    onChange={e => updateZone(idx, 'price', parseFloat(e.target.value))}
+                    className="input-field"
+                    placeholder="0.00"
+                  />
+                </div>
+              )}
+
               <div>
-                <label className="block font-medium mb-1">
-                  {zone.type === 'flat' ? 'Flat Rate Price' : 'Price per KG'}
-                </label>
+                <label className="block font-medium mb-1">Cities (optional)</label>
                 <input
-                  type="number"
-                  value={zone.price}
-                  onChange={e => updateZone(idx, 'price', parseFloat(e.target.value))}
+                  type="text"
+                  value={zone.citiesText}
+                  onChange={e => updateZone(idx, 'citiesText', e.target.value)}
                   className="input-field"
-                  placeholder="0.00"
+                  placeholder="Leave empty for the whole country, e.g. Dubai, Sharjah"
                 />
               </div>
+
+              {zone.type !== 'free' && (
+                <>
+                  <div>
+                    <label className="block font-medium mb-1">Free Shipping Over (AED)</label>
+                    <input
+                      type="number"
+                      value={zone.freeOver}
+                      onChange={e => updateZone(idx, 'freeOver', parseFloat(e.target.value))}
+                      className="input-field"
+                      placeholder="0 = never"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block font-medium mb-1">Shipping Class Surcharges</label>
+                    <input
+                      type="text"
+                      value={zone.classRatesText}
+                      onChange={e => updateZone(idx, 'classRatesText', e.target.value)}
+                      className="input-field"
+                      placeholder="e.g. bulky:25, fragile:10"
+                    />
+                  </div>
+                </>
+              )}
             </div>
           </div>
         ))}
@@ -123,6 +203,10 @@ const ShippingSettings = () => {
       {/* INTEGRATIONS */}
       <section className="bg-white p-6 rounded-2xl shadow border border-gray-200">
         <h2 className="text-2xl font-bold text-[#891F1A] mb-4">🔌 API Integrations</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Enabled carriers can book shipments and print labels from an order's page. Account credentials are read
+          from the server environment (ARAMEX_* and DHL_* variables).
+        </p>
 
         <div className="space-y-4">
           {['aramex', 'dhl'].map((provider) => (
@@ -0,0 +1,337 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { isAbortError } from "../../utils/apiClient";
+import {
+  STOCK_MOVEMENT_LABELS,
+  adjustStock,
+  availableStock,
+  fetchStockLedger,
+  type StockLevel,
+  type StockMovement,
+  type VariantStock,
+} from "../../utils/inventory";
+
+type StockLedgerModalProps = {
+  productId: string;
+  productName: string;
+  variants?: VariantStock[]; // for readable variant names
+  onClose: () => void;
+  onAdjusted: (level: StockLevel) => void;
+};
+
+const formatWhen = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso || "—" : d.toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+};
+
+const KIND_TONES: Record<StockMovement["kind"], string> = {
+  reserve: "bg-yellow-100 text-yellow-800",
+  release: "bg-gray-200 text-gray-700",
+  commit: "bg-green-100 text-green-800",
+  adjust: "bg-blue-100 text-blue-800",
+};
+
+// Reserve/release move the reserved count, not what's on the shelf
+const signedQuantity = (m: StockMovement) => {
+  if (m.kind === "adjust") return m.quantity > 0 ? `+${m.quantity}` : String(m.quantity);
+  if (m.kind === "commit") return `−${m.quantity}`;
+  return String(m.quantity);
+};
+
+/** One product's stock levels, its movement history and a form to record a count or correction. */
+export default function StockLedgerModal({
+  productId,
+  productName,
+  variants = [],
+  onClose,
+  onAdjusted,
+}: StockLedgerModalProps) {
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<{ variant: string; mode: "set" | "delta"; quantity: string; note: string }>({
+    variant: "",
+    mode: "delta",
+    quantity: "",
+    note: "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      setLoading(true);
+      try {
+        const data = await fetchStockLedger(productId, signal);
+        setLevels(data.levels);
+        setMovements(data.movements);
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        toast.error(`❌ ${err?.message || "Failed to load stock ledger"}`);
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [productId]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = Number(form.quantity);
+    if (form.quantity.trim() === "" || !Number.isInteger(quantity)) {
+      toast.error("Enter a whole number");
+      return;
+    }
+    setSaving(true);
+    try {
+      const [after] = await adjustStock({
+        product_ids: [productId],
+        variant_signature: form.variant,
+        mode: form.mode,
+        quantity,
+        note: form.note,
+      });
+      toast.success("📦 Stock adjusted");
+      setForm((f) => ({ ...f, mode: "delta", quantity: "", note: "" }));
+      if (after) onAdjusted(after);
+      await load();
+    } catch (err: any) {
+      toast.error(`❌ ${err?.message || "Failed to adjust stock"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const level = levels.find((l) => !l.variant_signature) || null;
+  const variantLevels = levels.filter((l) => l.variant_signature);
+  const available = availableStock(level);
+
+  const variantName = (signature: string) =>
+    variants.find((v) => v.signature === signature)?.label || signature;
+  // variants configured on the product plus any the ledger already knows about
+  const variantChoices = Array.from(
+    new Set([...variants.map((v) => v.signature), ...variantLevels.map((l) => l.variant_signature)])
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center px-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="stock-ledger-title"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white text-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="flex justify-between items-start border-b border-gray-200 pb-4 mb-4">
+          <div>
+            <h2 id="stock-ledger-title" className="text-xl font-bold text-[#891F1A]">
+              Stock ledger
+            </h2>
+            <p className="text-sm text-gray-500">
+              {productName} (#{productId})
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-400 hover:text-red-600 text-2xl font-bold"
+            type="button"
+          >
+            &times;
+          </button>
+        </header>
+
+        {/* Levels */}
+        <dl className="grid grid-cols-3 gap-3 text-center mb-6">
+          <div className="rounded-lg border border-gray-200 p-3">
+            <dt className="text-xs text-gray-500">On hand</dt>
+            <dd className="text-2xl font-semibold">{level?.on_hand ?? "—"}</dd>
+          </div>
+          <div className="rounded-lg border border-gray-200 p-3">
+            <dt className="text-xs text-gray-500">Reserved</dt>
+            <dd className="text-2xl font-semibold">{level?.reserved ?? 0}</dd>
+          </div>
+          <div className="rounded-lg border border-gray-200 p-3">
+            <dt className="text-xs text-gray-500">Available</dt>
+            <dd className={`text-2xl font-semibold ${available < 0 ? "text-red-700" : ""}`}>
+              {Number.isFinite(available) ? available : "Not tracked"}
+            </dd>
+          </div>
+        </dl>
+
+        {variantLevels.length > 0 && (
+          <div className="overflow-auto rounded-lg border border-gray-200 mb-6">
+            <table className="w-full text-sm">
+              <caption className="text-left text-xs text-gray-500 px-2 pt-2">
+                Variants with their own count (others draw on the product&apos;s)
+              </caption>
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th scope="col" className="p-2 text-left">Variant</th>
+                  <th scope="col" className="p-2 text-right">On hand</th>
+                  <th scope="col" className="p-2 text-right">Reserved</th>
+                  <th scope="col" className="p-2 text-right">Available</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {variantLevels.map((l) => {
+                  const avail = availableStock(l);
+                  return (
+                    <tr key={l.variant_signature}>
+                      <td className="p-2">{variantName(l.variant_signature)}</td>
+                      <td className="p-2 text-right">{l.on_hand ?? "—"}</td>
+                      <td className="p-2 text-right">{l.reserved}</td>
+                      <td className={`p-2 text-right font-semibold ${avail <= 0 ? "text-red-700" : ""}`}>
+                        {Number.isFinite(avail) ? avail : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Adjust */}
+        <form onSubmit={submit} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end text-sm mb-6">
+          {variantChoices.length > 0 && (
+            <label className="sm:col-span-4">
+              <span className="block text-xs text-gray-500 mb-1">Count</span>
+              <select
+                value={form.variant}
+                onChange={(e) => setForm((f) => ({ ...f, variant: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="">Product (shared count)</option>
+                {variantChoices.map((sig) => (
+                  <option key={sig} value={sig}>
+                    {variantName(sig)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">Adjustment</span>
+            <select
+              value={form.mode}
+              onChange={(e) => setForm((f) => ({ ...f, mode: e.target.value as "set" | "delta" }))}
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+            >
+              <option value="delta">Add / remove units</option>
+              <option value="set">Set counted quantity</option>
+            </select>
+          </label>
+          <label>
+            <span className="block text-xs text-gray-500 mb-1">{form.mode === "set" ? "Counted" : "Units (+/−)"}</span>
+            <input
+              type="number"
+              step={1}
+              min={form.mode === "set" ? 0 : undefined}
+              value={form.quantity}
+              onChange={(e) => setForm((f) => ({ ...f, quantity: e.target.value }))}
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <label className="sm:col-span-2">
+            <span className="block text-xs text-gray-500 mb-1">Reason</span>
+            <input
+              type="text"
+              maxLength={300}
+              value={form.note}
+              onChange={(e) => setForm((f) => ({ ...f, note: e.target.value }))}
+              placeholder="e.g. Delivery from supplier, stock count, damaged"
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <div className="sm:col-span-4 flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || !form.note.trim() || form.quantity.trim() === ""}
+              className="bg-[#891F1A] hover:bg-[#6d1915] text-white px-4 py-2 rounded-md disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Record adjustment"}
+            </button>
+          </div>
+        </form>
+
+        {/* Movements */}
+        <div className="overflow-auto rounded-lg border border-gray-200">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th scope="col" className="p-2 text-left">When</th>
+                <th scope="col" className="p-2 text-left">Movement</th>
+                <th scope="col" className="p-2 text-right">Qty</th>
+                <th scope="col" className="p-2 text-right">On hand</th>
+                <th scope="col" className="p-2 text-right">Reserved</th>
+                <th scope="col" className="p-2 text-left">Order / reason</th>
+                <th scope="col" className="p-2 text-left">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={7} className="p-4 text-center text-gray-500">
+                    Loading ledger…
+                  </td>
+                </tr>
+              ) : movements.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-4 text-center text-gray-500">
+                    No stock movements recorded yet.
+                  </td>
+                </tr>
+              ) : (
+                movements.map((m, i) => (
+                  <tr key={m.id || `${m.at}-${i}`}>
+                    <td className="p-2 whitespace-nowrap">
+                      <time dateTime={m.at}>{formatWhen(m.at)}</time>
+                    </td>
+                    <td className="p-2">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${KIND_TONES[m.kind]}`}>
+                        {STOCK_MOVEMENT_LABELS[m.kind]}
+                      </span>
+                      {m.variant_signature ? (
+                        <span className="block text-xs text-gray-500 mt-0.5">{variantName(m.variant_signature)}</span>
+                      ) : null}
+                    </td>
+                    <td className="p-2 text-right font-mono">{signedQuantity(m)}</td>
+                    <td className="p-2 text-right">{m.on_hand_after ?? "—"}</td>
+                    <td className="p-2 text-right">{m.reserved_after ?? "—"}</td>
+                    <td className="p-2">
+                      {m.order_id ? (
+                        <a href={`/admin/orders/${encodeURIComponent(m.order_id)}`} className="text-[#891F1A] underline">
+                          #{m.order_id}
+                        </a>
+                      ) : null}
+                      {m.order_id && m.note ? " · " : null}
+                      {m.note}
+                    </td>
+                    <td className="p-2 text-gray-500">{m.actor || "—"}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+
+type Setup = { secret: string; qr: string; enroll_token: string };
+
+const post = async (body: Record<string, unknown>) => {
+  const res = await fetch('/api/admin/2fa', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Request failed');
+  return data;
+};
+
+/** TOTP enrollment for the signed-in admin's own account. */
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<{ enabled: boolean; recovery_remaining: number } | null>(null);
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = async () => {
+    const res = await fetch('/api/admin/2fa', { cache: 'no-store' });
+    if (res.ok) setStatus(await res.json());
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const run = async (action: string, extra: Record<string, unknown> = {}) => {
+    setBusy(true);
+    try {
+      const data = await post({ action, code, ...extra });
+      setCode('');
+      return data;
+    } catch (err: any) {
+      toast.error(err?.message || 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await run('setup');
+    if (data) setSetup(data);
+  };
+
+  const enable = async () => {
+    const data = await run('enable', { enroll_token: setup?.enroll_token });
+    if (!data) return;
+    setSetup(null);
+    setRecoveryCodes(data.recovery_codes || []);
+    toast.success('Two-factor authentication enabled');
+    loadStatus();
+  };
+
+  const regenerate = async () => {
+    const data = await run('regenerate');
+    if (!data) return;
+    setRecoveryCodes(data.recovery_codes || []);
+    toast.success('New recovery codes generated');
+    loadStatus();
+  };
+
+  const disable = async () => {
+    if (!confirm('Turn off two-factor authentication for your account?')) return;
+    const data = await run('disable');
+    if (!data) return;
+    setRecoveryCodes([]);
+    toast.info('Two-factor authentication disabled');
+    loadStatus();
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      className="border border-gray-300 px-3 py-2 rounded text-black w-40 focus:outline-none focus:ring-2 focus:ring-[#891F1A]"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+    />
+  );
+  const btn = 'px-4 py-2 rounded text-sm font-medium disabled:opacity-60 disabled:cursor-not-allowed';
+
+  if (!status) return <p className="text-sm text-gray-500">Loading…</p>;
+
+  return (
+    <div className="space-y-4 text-black">
+      <p className="text-sm">
+        Status:{' '}
+        <span className={status.enabled ? 'text-green-700 font-semibold' : 'text-gray-600 font-semibold'}>
+          {status.enabled ? 'Enabled' : 'Disabled'}
+        </span>
+        {status.enabled && (
+          <span className="text-gray-500"> · {status.recovery_remaining} recovery code(s) left</span>
+        )}
+      </p>
+
+      {!status.enabled && !setup && (
+        <button className={`${btn} bg-[#891F1A] text-white hover:bg-red-700`} disabled={busy} onClick={startSetup}>
+          Set up authenticator app
+        </button>
+      )}
+
+      {setup && (
+        <div className="border rounded-lg p-4 space-y-3">
+          <p className="text-sm">
+            1. Scan this QR code with Google Authenticator, 1Password, Authy or a similar app.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={setup.qr} alt="Two-factor QR code" width={220} height={220} className="border rounded" />
+          <p className="text-xs text-gray-500">
+            Can&apos;t scan? Enter this key manually: <span className="font-mono break-all">{setup.secret}</span>
+          </p>
+          <p className="text-sm">2. Enter the 6-digit code the app shows.</p>
+          <div className="flex gap-2 items-center">
+            {codeInput}
+            <button className={`${btn} bg-[#891F1A] text-white hover:bg-red-700`} disabled={busy || !code} onClick={enable}>
+              Verify &amp; enable
+            </button>
+            <button className={`${btn} border border-gray-300 hover:bg-gray-100`} disabled={busy} onClick={() => setSetup(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="flex flex-wrap gap-2 items-center">
+          {codeInput}
+          <button className={`${btn} border border-gray-300 hover:bg-gray-100`} disabled={busy || !code} onClick={regenerate}>
+            New recovery codes
+          </button>
+          <button className={`${btn} bg-red-600 text-white hover:bg-red-700`} disabled={busy || !code} onClick={disable}>
+            Disable 2FA
+          </button>
+        </div>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-4">
+          <p className="text-sm font-semibold mb-2">Save these recovery codes now — they won&apos;t be shown again.</p>
+          <p className="text-xs text-gray-600 mb-3">Each code signs you in once if you lose your phone.</p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+          <button
+            className={`${btn} mt-3 border border-gray-300 hover:bg-white`}
+            onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n')).then(() => toast.success('Copied'))}
+          >
+            Copy codes
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
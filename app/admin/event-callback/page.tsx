@@ -3,6 +3,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import AdminAuthGuard from "../components/AdminAuthGaurd";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
 import AdminSidebar from "../components/AdminSideBar";
 import { Checkbox } from "@mui/material";
 import { ToastContainer, toast } from "react-toastify";
@@ -14,17 +15,11 @@ import "react-toastify/dist/ReactToastify.css";
  * - Sticky top bar inside main content
  * - Modal is shared for Add + View/Edit, prefilled freshly from backend on edit
  * - POST /api/save-callback/ for create, POST /api/edit-callback/ for update
+ * - Moving a request to Scheduled emails the customer (/api/admin/callbacks/notify)
  * - Toasts for create, update, delete
  */
 
 // ===== Helpers
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  headers.set("Content-Type", "application/json");
-  return { ...init, headers, cache: "no-store" };
-};
 
 function ensureDeviceUUID() {
   if (typeof window === "undefined") return "admin-ui";
@@ -73,6 +68,23 @@ function formatDisplay(dt: string) {
   }
 }
 
+// Emails the customer; the save already succeeded, so a failure is only reported
+async function notifyScheduled(id: string) {
+  try {
+    const res = await fetch("/api/admin/callbacks/notify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "same-origin",
+      body: JSON.stringify({ id }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error);
+    if (json.sent) toast.info("Customer emailed about the scheduled call back");
+  } catch {
+    toast.warn("Callback saved, but the customer email could not be sent");
+  }
+}
+
 // ===== Types aligned to backend serializer
 export type CallbackRow = {
   id: string;
@@ -174,9 +186,8 @@ function CallbackModal({ open, onClose, initial, onSaved }: ModalProps) {
       setSaving(false);
       if (isEdit && initial?.id) {
         try {
-          const res = await fetch(
-            `${API_BASE_URL}/api/show-specific-callback/?id=${encodeURIComponent(initial.id)}&_=${Date.now()}`,
-            withFrontendKey()
+          const res = await apiFetch(
+            `${API_BASE_URL}/api/show-specific-callback/?id=${encodeURIComponent(initial.id)}&_=${Date.now()}`
           );
           const json = await res.json();
           if (!res.ok) throw new Error(json?.error || "Failed to fetch callback");
@@ -245,7 +256,7 @@ function CallbackModal({ open, onClose, initial, onSaved }: ModalProps) {
 
     try {
       const url = isEdit ? `${API_BASE_URL}/api/edit-callback/` : `${API_BASE_URL}/api/save-callback/`;
-      const res = await fetch(url, withFrontendKey({ method: "POST", body: JSON.stringify(payload) }));
+      const res = await apiFetch(url, { method: "POST", body: JSON.stringify(payload) });
       const json = await res.json();
       if (!res.ok) {
         const msg = json?.error || "Failed to save.";
@@ -255,6 +266,7 @@ function CallbackModal({ open, onClose, initial, onSaved }: ModalProps) {
         return;
       }
       toast.success(isEdit ? "Callback updated" : "Callback created");
+      if (isEdit && status === "scheduled" && initial?.status !== "scheduled") notifyScheduled(String(initial.id));
       onSaved(json as CallbackRow);
       onClose();
     } catch (err: any) {
@@ -458,7 +470,7 @@ export default function Page() {
     setError("");
     try {
       const url = `${API_BASE_URL}/api/show-all-callback/?_=${Date.now()}`;
-      const res = await fetch(url, withFrontendKey());
+      const res = await apiFetch(url);
       const json = await res.json();
       if (!res.ok) throw new Error(json?.error || "Failed to fetch");
       setRows(Array.isArray(json) ? json : []);
@@ -510,9 +522,9 @@ export default function Page() {
     let failCount = 0;
     for (const id of ids) {
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/delete-callback/`,
-          withFrontendKey({ method: "POST", body: JSON.stringify({ id }) })
+          { method: "POST", body: JSON.stringify({ id }) }
         );
         if (res.ok) okCount++; else failCount++;
       } catch {
@@ -4,15 +4,7 @@ import { useEffect, useMemo, useRef, useState, useId } from 'react';
 import AdminAuthGuard from '../components/AdminAuthGaurd';
 import AdminSidebar from '../components/AdminSideBar';
 import { API_BASE_URL } from '../../utils/api';
-
-// Frontend key helper
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  headers.set('Accept', 'application/json');
-  return { ...init, headers, cache: 'no-store' };
-};
+import { apiFetch } from '../../utils/apiClient';
 
 // Types
 type Category = { id: string; name: string; slug?: string; status?: string };
@@ -84,8 +76,8 @@ export default function FirstCarouselPage() {
     (async () => {
       try {
         const [catsRes, subsRes] = await Promise.all([
-          fetch(`${API_BASE_URL}/api/show-categories/?_=${Date.now()}`, withFrontendKey({ signal: controller.signal })),
-          fetch(`${API_BASE_URL}/api/show-subcategories/?_=${Date.now()}`, withFrontendKey({ signal: controller.signal })),
+          apiFetch(`${API_BASE_URL}/api/show-categories/?_=${Date.now()}`, { signal: controller.signal }),
+          apiFetch(`${API_BASE_URL}/api/show-subcategories/?_=${Date.now()}`, { signal: controller.signal }),
         ]);
 
         const arrCats = catsRes.ok ? await catsRes.json() : [];
@@ -124,7 +116,7 @@ export default function FirstCarouselPage() {
     const controller = new AbortController();
     (async () => {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/first-carousel/?_=${Date.now()}`, withFrontendKey({ signal: controller.signal }));
+        const res = await apiFetch(`${API_BASE_URL}/api/first-carousel/?_=${Date.now()}`, { signal: controller.signal });
         if (!res.ok) return;
         const data = await res.json();
 
@@ -329,13 +321,13 @@ export default function FirstCarouselPage() {
         return;
       }
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${API_BASE_URL}/api/first-carousel/`,
-        withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title, description, images: validImages }),
-        })
+        {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, description, images: validImages }),
+      }
       );
 
       const result = await response.json().catch(() => ({}));
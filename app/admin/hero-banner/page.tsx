@@ -5,6 +5,7 @@ import Image from 'next/image';
 import AdminAuthGuard from '../components/AdminAuthGaurd';
 import AdminSidebar from '../components/AdminSideBar';
 import { API_BASE_URL } from '../../utils/api';
+import { apiFetch } from '../../utils/apiClient';
 
 type ImageEntry = {
   type: 'url' | 'file';
@@ -12,19 +13,13 @@ type ImageEntry = {
   file: File | null;
 };
 // ADD THIS
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set('X-Frontend-Key', FRONTEND_KEY);
-  return { ...init, headers };
-};
 export default function HeroBannerPage() {
   const [showSidebar, setShowSidebar] = useState(true);
   const [desktopImages, setDesktopImages] = useState<ImageEntry[]>([{ type: 'url', value: '', file: null }]);
   const [mobileImages, setMobileImages] = useState<ImageEntry[]>([{ type: 'url', value: '', file: null }]);
 
  useEffect(() => {
-  fetch(`${API_BASE_URL}/api/hero-banner/`, withFrontendKey())
+  apiFetch(`${API_BASE_URL}/api/hero-banner/`)
     .then(res => res.json())
     .then(data => {
       const images: { url: string; device_type: string }[] = data?.images || [];
@@ -125,11 +120,11 @@ const handleSave = async () => {
 
     const finalPayload = [...desktopPayload, ...mobilePayload];
 
-    const res = await fetch(`${API_BASE_URL}/api/hero-banner/`, withFrontendKey({
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ images: finalPayload }),
-    }));
+    const res = await apiFetch(`${API_BASE_URL}/api/hero-banner/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ images: finalPayload }),
+  });
 
     const result = await res.json();
     if (res.ok) {
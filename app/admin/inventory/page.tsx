@@ -15,15 +15,16 @@ import "react-toastify/dist/ReactToastify.css";
 import Checkbox from "@mui/material/Checkbox";
 import Modal from "../components/ProductModal";
 import { API_BASE_URL } from "../../utils/api";
-
-/* ======================== FRONTEND KEY helper ======================== */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  // keep headers minimal to avoid CORS preflights; never send credentials
-  return { ...init, headers, cache: "no-store", credentials: "omit", mode: "cors" };
-};
+import { apiFetch } from "../../utils/apiClient";
+import {
+  adjustStock,
+  isLowStock,
+  normalizeVariantStocks,
+  variantAvailable,
+  type StockLevel,
+  type VariantStock,
+} from "../../utils/inventory";
+import StockLedgerModal from "../components/StockLedgerModal";
 
 /* ======================= Utility: absolute URL ======================= */
 const toAbsolute = (maybeRelative: string) => {
@@ -45,6 +46,9 @@ type Product = {
   sizes?: string[];
   stock_quantity?: number | string;
   quantity?: number;
+  reserved?: number; // held by open orders
+  low_stock_alert?: number | string;
+  variants?: VariantStock[]; // attribute combinations with their own count
   price?: number;
   printing_methods?: string[]; // backend variant
   printingMethod?: string[]; // normalized here
@@ -78,6 +82,8 @@ export default function InventoryManagerPage() {
   });
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProductId, setEditingProductId] = useState<string | null>(null);
+  const [ledgerProduct, setLedgerProduct] = useState<Product | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
   const captionId = useId();
@@ -96,16 +102,13 @@ export default function InventoryManagerPage() {
     setLoading(true);
     try {
       const [productRes, subcatRes, catRes] = await Promise.all([
-        fetch(`${API_BASE_URL}/api/show-product/?_=${Date.now()}`, {
-          ...withFrontendKey(),
+        apiFetch(`${API_BASE_URL}/api/show-product/?_=${Date.now()}`, {
           signal: ac.signal,
         }),
-        fetch(`${API_BASE_URL}/api/show-subcategories/?_=${Date.now()}`, {
-          ...withFrontendKey(),
+        apiFetch(`${API_BASE_URL}/api/show-subcategories/?_=${Date.now()}`, {
           signal: ac.signal,
         }),
-        fetch(`${API_BASE_URL}/api/show-categories/?_=${Date.now()}`, {
-          ...withFrontendKey(),
+        apiFetch(`${API_BASE_URL}/api/show-categories/?_=${Date.now()}`, {
           signal: ac.signal,
         }),
       ]);
@@ -167,6 +170,8 @@ export default function InventoryManagerPage() {
           ...p,
           id: String(p.id),
           quantity: quantityNum,
+          reserved: Math.max(0, parseInt(String(p.reserved_quantity ?? "0"), 10) || 0),
+          variants: normalizeVariantStocks(p.variant_inventory),
           printingMethod: printingList,
           images: [{ type: "url", value: p.image || "", file: null }],
           isVisible: subcatStatus === "visible" && hasVisibleCategory,
@@ -255,12 +260,10 @@ export default function InventoryManagerPage() {
     if (!confirmDelete) return;
 
     try {
-      const res = await fetch(`${API_BASE_URL}/api/delete-product/`, {
-        ...withFrontendKey({
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ ids: selectedProductIds, confirm: true }),
-        }),
+      const res = await apiFetch(`${API_BASE_URL}/api/delete-product/`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: selectedProductIds, confirm: true }),
       });
 
       const result = await res.json().catch(() => ({}));
@@ -277,27 +280,18 @@ export default function InventoryManagerPage() {
     }
   };
 
+  // Recorded in each product's stock ledger as a count of zero
   const handleMarkOutOfStock = async () => {
     if (selectedProductIds.length === 0) return;
 
     try {
-      const res = await fetch(`${API_BASE_URL}/api/edit_product/`, {
-        ...withFrontendKey({
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            product_ids: selectedProductIds,
-            quantity: 0,
-          }),
-        }),
+      await adjustStock({
+        product_ids: selectedProductIds,
+        mode: "set",
+        quantity: 0,
+        note: "Marked out of stock",
       });
 
-      const result = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        toast.error(`❌ Failed: ${result?.error || "Unknown error"}`);
-        return;
-      }
-
       toast.success("📦 Selected products marked out of stock");
       setSelectedProductIds([]);
       refreshProducts();
@@ -306,6 +300,26 @@ export default function InventoryManagerPage() {
     }
   };
 
+  const applyStockLevel = (level: StockLevel) => {
+    setProducts((prev) =>
+      prev.map((p) => {
+        if (p.id !== level.product_id) return p;
+        if (!level.variant_signature) return { ...p, quantity: level.on_hand ?? 0, reserved: level.reserved };
+        return {
+          ...p,
+          variants: (p.variants || []).map((v) =>
+            v.signature === level.variant_signature
+              ? { ...v, stock_quantity: level.on_hand, reserved: level.reserved }
+              : v
+          ),
+        };
+      })
+    );
+  };
+
+  const toggleExpanded = (id: string) =>
+    setExpandedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
   /* ============================== Render ============================== */
   return (
     <AdminAuthGuard>
@@ -402,7 +416,13 @@ export default function InventoryManagerPage() {
                     Name
                   </th>
                   <th scope="col" className="p-3 text-center">
-                    Stock
+                    On hand
+                  </th>
+                  <th scope="col" className="p-3 text-center">
+                    Reserved
+                  </th>
+                  <th scope="col" className="p-3 text-center">
+                    Available
                   </th>
                   <th scope="col" className="p-3 text-center">
                     Price
@@ -419,7 +439,7 @@ export default function InventoryManagerPage() {
               <tbody className="text-gray-800 divide-y divide-gray-100">
                 {loading && (
                   <tr>
-                    <td colSpan={8} className="p-6 text-center text-gray-500">
+                    <td colSpan={10} className="p-6 text-center text-gray-500">
                       Loading inventory…
                     </td>
                   </tr>
@@ -427,7 +447,7 @@ export default function InventoryManagerPage() {
 
                 {!loading && filteredInventory.length === 0 && (
                   <tr>
-                    <td colSpan={8} className="p-6 text-center text-gray-500">
+                    <td colSpan={10} className="p-6 text-center text-gray-500">
                       No products match your filters.
                     </td>
                   </tr>
@@ -442,59 +462,122 @@ export default function InventoryManagerPage() {
                     const printingText = Array.isArray(printingList) && printingList.length
                       ? printingList.join(", ")
                       : "—";
+                    const available = (prod.quantity || 0) - (prod.reserved || 0);
+                    const threshold = parseInt(String(prod.low_stock_alert ?? ""), 10);
+                    const variants = prod.variants || [];
+                    const expanded = expandedIds.includes(prod.id);
 
                     return (
-                      <tr key={prod.id} className="hover:bg-gray-50 transition-colors">
-                        <td className="p-3 text-center">
-                          <Checkbox
-                            inputProps={{ "aria-label": `Select product ${prod.id}` }}
-                            checked={selectedProductIds.includes(String(prod.id))}
-                            onChange={() => toggleSelectProduct(String(prod.id))}
-                            sx={{
-                              color: "#891F1A",
-                              "&.Mui-checked": { color: "#891F1A" },
-                              marginLeft: "-13px",
-                            }}
-                          />
-                        </td>
-                        <th scope="row" className="p-3 text-[#891F1A] font-semibold text-center">
-                          {prod.id}
-                        </th>
-                        <td className="p-3 text-center">
-                          <img
-                            src={imgSrc}
-                            alt={`${prod.name || prod.title || "Product"} thumbnail`}
-                            width={45}
-                            height={45}
-                            loading="lazy"
-                            decoding="async"
-                            sizes="45px"
-                            className="rounded shadow mx-auto object-cover w-[45px] h-[45px]"
-                            onError={(e) => {
-                              const el = e.currentTarget as HTMLImageElement;
-                              el.onerror = null;
-                              el.src = "/img1.jpg";
-                            }}
-                          />
-                        </td>
-                        <td className="p-3">{prod.name || prod.title || "—"}</td>
-                        <td className="p-3 text-center text-red-700 font-semibold">
-                          {prod.quantity}
-                        </td>
-                        <td className="p-3 text-center text-green-700 font-semibold">
-                          £{Number(prod.price || 0).toFixed(2)}
-                        </td>
-                        <td className="p-3 text-center">{printingText}</td>
-                        <td className="p-3 text-center">
-                          <button
-                            onClick={() => handleEditProduct(prod)}
-                            className="bg-[#891F1A] hover:bg-[#6e1915] text-white text-xs px-4 py-2 rounded-full transition-colors"
-                            type="button"
+                      <React.Fragment key={prod.id}>
+                        <tr className="hover:bg-gray-50 transition-colors">
+                          <td className="p-3 text-center">
+                            <Checkbox
+                              inputProps={{ "aria-label": `Select product ${prod.id}` }}
+                              checked={selectedProductIds.includes(String(prod.id))}
+                              onChange={() => toggleSelectProduct(String(prod.id))}
+                              sx={{
+                                color: "#891F1A",
+                                "&.Mui-checked": { color: "#891F1A" },
+                                marginLeft: "-13px",
+                              }}
+                            />
+                          </td>
+                          <th scope="row" className="p-3 text-[#891F1A] font-semibold text-center">
+                            {prod.id}
+                          </th>
+                          <td className="p-3 text-center">
+                            <img
+                              src={imgSrc}
+                              alt={`${prod.name || prod.title || "Product"} thumbnail`}
+                              width={45}
+                              height={45}
+                              loading="lazy"
+                              decoding="async"
+                              sizes="45px"
+                              className="rounded shadow mx-auto object-cover w-[45px] h-[45px]"
+                              onError={(e) => {
+                                const el = e.currentTarget as HTMLImageElement;
+                                el.onerror = null;
+                                el.src = "/img1.jpg";
+                              }}
+                            />
+                          </td>
+                          <td className="p-3">
+                            {prod.name || prod.title || "—"}
+                            {variants.length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => toggleExpanded(prod.id)}
+                                aria-expanded={expanded}
+                                className="block text-xs text-[#891F1A] hover:underline mt-0.5"
+                              >
+                                {expanded ? "▾" : "▸"} {variants.length} variant{variants.length !== 1 ? "s" : ""}
+                                {variants.some((v) => isLowStock(variantAvailable(v), v.low_stock_threshold))
+                                  ? " · low stock"
+                                  : ""}
+                              </button>
+                            )}
+                          </td>
+                          <td className="p-3 text-center font-semibold">{prod.quantity}</td>
+                          <td className="p-3 text-center text-gray-600">{prod.reserved || 0}</td>
+                          <td
+                            className={`p-3 text-center font-semibold ${
+                              isLowStock(available, Number.isNaN(threshold) ? null : threshold)
+                                ? "text-red-700"
+                                : "text-gray-800"
+                            }`}
                           >
-                            View / Edit
-                          </button>
-                        </td>
-                      </tr>
+                            {available}
+                          </td>
+                          <td className="p-3 text-center text-green-700 font-semibold">
+                            £{Number(prod.price || 0).toFixed(2)}
+                          </td>
+                          <td className="p-3 text-center">{printingText}</td>
+                          <td className="p-3 text-center whitespace-nowrap">
+                            <button
+                              onClick={() => handleEditProduct(prod)}
+                              className="bg-[#891F1A] hover:bg-[#6e1915] text-white text-xs px-4 py-2 rounded-full transition-colors"
+                              type="button"
+                            >
+                              View / Edit
+                            </button>
+                            <button
+                              onClick={() => setLedgerProduct(prod)}
+                              className="ml-2 border border-[#891F1A] text-[#891F1A] hover:bg-red-50 text-xs px-4 py-2 rounded-full transition-colors"
+                              type="button"
+                            >
+                              Ledger
+                            </button>
+                          </td>
+                        </tr>
+                        {expanded &&
+                          variants.map((v) => {
+                            const vAvailable = variantAvailable(v);
+                            return (
+                              <tr key={`${prod.id}-${v.signature}`} className="bg-gray-50/70 text-xs">
+                                <td />
+                                <td className="p-2 text-center text-gray-500 font-mono">
+                                  {prod.id}
+                                  {v.sku_suffix}
+                                </td>
+                                <td />
+                                <td className="p-2 pl-6 text-gray-700">{v.label || v.signature}</td>
+                                <td className="p-2 text-center">{v.stock_quantity ?? "—"}</td>
+                                <td className="p-2 text-center text-gray-600">{v.reserved}</td>
+                                <td
+                                  className={`p-2 text-center font-semibold ${
+                                    isLowStock(vAvailable, v.low_stock_threshold) ? "text-red-700" : "text-gray-800"
+                                  }`}
+                                >
+                                  {Number.isFinite(vAvailable) ? vAvailable : "Shared"}
+                                </td>
+                                <td colSpan={3} className="p-2 text-gray-500">
+                                  {v.low_stock_threshold !== null ? `Low-stock alert at ${v.low_stock_threshold}` : ""}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                      </React.Fragment>
                     );
                   })}
               </tbody>
@@ -547,6 +630,16 @@ export default function InventoryManagerPage() {
         </main>
       </div>
 
+      {ledgerProduct && (
+        <StockLedgerModal
+          productId={ledgerProduct.id}
+          productName={ledgerProduct.name || ledgerProduct.title || "Product"}
+          variants={ledgerProduct.variants}
+          onClose={() => setLedgerProduct(null)}
+          onAdjusted={applyStockLevel}
+        />
+      )}
+
       {/* MODAL */}
       <ModalAny
         isOpen={isModalOpen}
@@ -1,84 +1,44 @@
 'use client';
 
-import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useEffect, useId, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { API_BASE_URL } from '../../utils/api';
+import { announceAdminLogin } from '../utils/adminSession';
 
 // ---------- Constants & helpers ----------
-const FALLBACK_SUPERADMIN_PAGES = [
-  'Dashboard', 'Products Section', 'Blog', 'Settings', 'First Carousel',
-  'Media Library', 'Notifications', 'Testimonials', 'Second Carousel',
-  'Hero Banner', 'Manage Categories', 'Orders', 'Inventory',
-  'Google Settings', 'Google Analytics', 'New Account', 'Blog View',
-];
-
-const labelToPath: Record<string, string> = {
-  Dashboard: '/admin/dashboard',
-  'Products Section': '/admin/products',
-  Blog: '/admin/blogView',
-  Settings: '/admin/settings',
-  'First Carousel': '/admin/first-carousel',
-  'Media Library': '/admin/media-library',
-  Notifications: '/admin/notifications',
-  Testimonials: '/admin/testimonials',
-  'Second Carousel': '/admin/second-carousel',
-  'Hero Banner': '/admin/hero-banner',
-  'Manage Categories': '/admin/manage-categories',
-  Orders: '/admin/orders',
-  Inventory: '/admin/inventory',
-  'Google Settings': '/admin/G-Settings',
-  'Google Analytics': '/admin/G-Analytics',
-  'New Account': '/admin/new-account',
-  'Blog View': '/admin/blogView',
-};
-
-// Frontend key header
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  headers.set('Accept', 'application/json');
-  return { ...init, headers, cache: 'no-store' };
+// Why the middleware sent the admin back here (?reason=…)
+const REASON_MESSAGES: Record<string, string> = {
+  expired: 'Your session has expired. Please sign in again.',
+  deleted: 'Your admin account no longer exists.',
+  role_changed: 'Your role was changed. Please sign in again.',
+  no_access: 'Your role has no admin pages assigned.',
 };
 
-const FIRST_ROUTE = (labels: string[]) =>
-  labels.map((label) => labelToPath[label]).find(Boolean) || '/admin/dashboard';
-
 // ---------- Component ----------
 export default function AdminLogin() {
   const router = useRouter();
 
   const userId = useId();
   const passId = useId();
+  const codeId = useId();
 
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string>('');
   const [busy, setBusy] = useState(false);
-
-  const isFallbackAdmin = useMemo(
-    () => username === 'saim1234' && password === 'saim1234',
-    [username, password]
-  );
+  // 'code' once the password is accepted and the account has 2FA enabled
+  const [step, setStep] = useState<'password' | 'code'>('password');
+  const [code, setCode] = useState('');
 
   const mountedRef = useRef(true);
   useEffect(() => {
     mountedRef.current = true;
-    // Redirect if already logged in
-    try {
-      const isLoggedIn = localStorage.getItem('admin-auth');
-      const accessPages = localStorage.getItem('access-pages');
-      if (isLoggedIn === 'true' && accessPages) {
-        const pages: string[] = JSON.parse(accessPages);
-        router.replace(FIRST_ROUTE(pages));
-      }
-    } catch {
-      /* ignore */
-    }
+    // Signed-in admins never reach this page — the middleware redirects them
+    const reason = new URLSearchParams(window.location.search).get('reason') || '';
+    if (REASON_MESSAGES[reason]) setError(REASON_MESSAGES[reason]);
     return () => {
       mountedRef.current = false;
     };
-  }, [router]);
+  }, []);
 
   const setSafeError = (msg: string) => {
     if (mountedRef.current) setError(msg);
@@ -90,69 +50,36 @@ export default function AdminLogin() {
     setSafeError('');
     setBusy(true);
 
-    // 1) If backend has no admins and fallback creds are used → bootstrap flow
-    try {
-      const checkRes = await fetch(`${API_BASE_URL}/api/show-admin/?_=${Date.now()}`, withFrontendKey());
-      const adminData = await checkRes.json().catch(() => []);
-      const noAdminsExist = checkRes.ok && Array.isArray(adminData) && adminData.length === 0;
-
-      if (noAdminsExist && isFallbackAdmin) {
-        try {
-          localStorage.setItem('admin-auth', 'true');
-          localStorage.setItem('admin-id', 'superadmin');
-          localStorage.setItem('access-pages', JSON.stringify(FALLBACK_SUPERADMIN_PAGES));
-          router.replace(FIRST_ROUTE(FALLBACK_SUPERADMIN_PAGES));
-          return;
-        } finally {
-          setBusy(false);
-        }
-      }
-    } catch {
-      // If the check fails and fallback creds are used, allow bootstrap as before
-      if (isFallbackAdmin) {
-        try {
-          localStorage.setItem('admin-auth', 'true');
-          localStorage.setItem('admin-id', 'superadmin');
-          localStorage.setItem('access-pages', JSON.stringify(FALLBACK_SUPERADMIN_PAGES));
-          router.replace('/admin/dashboard');
-          return;
-        } finally {
-          setBusy(false);
-        }
-      }
-      setSafeError('Server check failed. Try again.');
-      setBusy(false);
-      return;
-    }
-
-    // 2) Normal admin login
     try {
-      const res = await fetch(
-        `${API_BASE_URL}/api/admin-login/`,
-        withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ username, password }),
-        })
-      );
+      const res = await fetch(step === 'code' ? '/api/admin/login/verify' : '/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        credentials: 'same-origin',
+        cache: 'no-store',
+        body: JSON.stringify(step === 'code' ? { code } : { username, password }),
+      });
       const data = await res.json().catch(() => ({}));
 
-      if (res.ok && data?.success) {
-        try {
-          localStorage.setItem('admin-auth', 'true');
-          localStorage.setItem('admin-id', String(data.admin_id || ''));
-          localStorage.setItem('access-pages', JSON.stringify(Array.isArray(data.access_pages) ? data.access_pages : []));
-          router.replace(FIRST_ROUTE(Array.isArray(data.access_pages) ? data.access_pages : []));
-        } finally {
-          setBusy(false);
+      if (res.ok && data?.two_factor_required) {
+        setPassword('');
+        setStep('code');
+      } else if (res.ok) {
+        announceAdminLogin();
+        if (typeof data?.recovery_codes_left === 'number' && data.recovery_codes_left <= 2) {
+          alert(`You have ${data.recovery_codes_left} recovery code(s) left. Generate new ones from My Account.`);
         }
+        router.replace(String(data?.redirect || '/admin/dashboard'));
       } else {
+        if (data?.restart) {
+          setStep('password');
+          setCode('');
+        }
         setSafeError(String(data?.error || 'Login failed'));
-        setBusy(false);
       }
     } catch {
       setSafeError('Server error. Please try again.');
-      setBusy(false);
+    } finally {
+      if (mountedRef.current) setBusy(false);
     }
   };
 
@@ -177,40 +104,66 @@ export default function AdminLogin() {
         ) : null}
 
         <form onSubmit={handleSubmit} noValidate>
-          <div className="mb-4">
-            <label htmlFor={userId} className="block text-sm text-gray-700 mb-1">
-              Username
-            </label>
-            <input
-              id={userId}
-              type="text"
-              inputMode="text"
-              autoComplete="username"
-              placeholder="Your admin username"
-              className="w-full border border-gray-300 px-3 py-2 rounded text-black focus:outline-none focus:ring-2 focus:ring-blue-600"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              required
-              aria-required="true"
-            />
-          </div>
-
-          <div className="mb-6">
-            <label htmlFor={passId} className="block text-sm text-gray-700 mb-1">
-              Password
-            </label>
-            <input
-              id={passId}
-              type="password"
-              autoComplete="current-password"
-              placeholder="Your password"
-              className="w-full border border-gray-300 px-3 py-2 rounded text-black focus:outline-none focus:ring-2 focus:ring-blue-600"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              aria-required="true"
-            />
-          </div>
+          {step === 'code' ? (
+            <div className="mb-6">
+              <label htmlFor={codeId} className="block text-sm text-gray-700 mb-1">
+                Authentication code
+              </label>
+              <input
+                id={codeId}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code or recovery code"
+                className="w-full border border-gray-300 px-3 py-2 rounded text-black focus:outline-none focus:ring-2 focus:ring-blue-600"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoFocus
+                required
+                aria-required="true"
+              />
+              <p className="mt-2 text-[11px] text-gray-500 leading-snug">
+                Open your authenticator app, or use one of your recovery codes.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-4">
+                <label htmlFor={userId} className="block text-sm text-gray-700 mb-1">
+                  Username
+                </label>
+                <input
+                  id={userId}
+                  type="text"
+                  inputMode="text"
+                  autoComplete="username"
+                  placeholder="Your admin username"
+                  className="w-full border border-gray-300 px-3 py-2 rounded text-black focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                  aria-required="true"
+                />
+              </div>
+
+              <div className="mb-6">
+                <label htmlFor={passId} className="block text-sm text-gray-700 mb-1">
+                  Password
+                </label>
+                <input
+                  id={passId}
+                  type="password"
+                  autoComplete="current-password"
+                  placeholder="Your password"
+                  className="w-full border border-gray-300 px-3 py-2 rounded text-black focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  aria-required="true"
+                />
+              </div>
+            </>
+          )}
 
           <button
             type="submit"
@@ -218,14 +171,9 @@ export default function AdminLogin() {
             className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors duration-150"
             aria-busy={busy}
           >
-            {busy ? 'Signing in…' : 'Login'}
+            {busy ? 'Signing in…' : step === 'code' ? 'Verify' : 'Login'}
           </button>
         </form>
-
-        {/* Small, honest heads-up about bootstrap creds. Keeps current behavior. */}
-        <p className="mt-4 text-[11px] text-gray-500 leading-snug">
-          Note: if no admins exist, the bootstrap account (local only) is permitted with preset credentials until a real admin is created.
-        </p>
       </main>
     </div>
   );
@@ -4,6 +4,7 @@ import React, { useCallback, useEffect, useMemo, useState } from "react";
 import AdminAuthGuard from "../components/AdminAuthGaurd";
 import AdminSidebar from "../components/AdminSideBar";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import Checkbox from "@mui/material/Checkbox";
@@ -12,16 +13,10 @@ import CategorySubCategoryModal from "../components/CategorySubCategoryModal";
 import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
 
 /* ------------------ constants & helpers ------------------ */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
 
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers, cache: "no-store", credentials: "omit", mode: "cors" };
-};
 
 const jsonFetch = async (url: string, init: RequestInit = {}) => {
-  const res = await fetch(url, withFrontendKey({ ...init, headers: { "Content-Type": "application/json", ...(init.headers || {}) } }));
+  const res = await apiFetch(url, { ...init, headers: { "Content-Type": "application/json", ...(init.headers || {}) } });
   const text = await res.text().catch(() => "");
   let data: any = null;
   try {
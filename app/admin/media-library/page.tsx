@@ -23,14 +23,7 @@ const AdminSideBar = dynamic(() => import('../components/AdminSideBar'), {
 });
 import { getCroppedImg } from '../utils/CropImage';
 import { API_BASE_URL } from '../../utils/api';
-
-// 🔐 Frontend key helper (used only for /api/* calls)
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  return { ...init, headers };
-};
+import { apiFetch } from '../../utils/apiClient';
 
 // Only treat URLs under /api/ as API calls (attach headers there). Never for /media/*
 const isApiPath = (url: string) => {
@@ -75,19 +68,8 @@ async function downloadImageClient(img: any) {
 
     // Server image — CORS blob fetch (no fallback navigation)
     const absUrl = img.url?.startsWith('http') ? img.url : `${API_BASE_URL}${img.url}`;
-    const apiInit =
-      isApiPath(absUrl) ? (withFrontendKey() as RequestInit) : ({} as RequestInit);
-    const res = await fetch(absUrl, {
-      ...apiInit,
-      method: 'GET',
-      cache: 'no-store',
-      headers: {
-        ...(isApiPath(absUrl)
-          ? Object.fromEntries((withFrontendKey().headers as Headers).entries())
-          : {}),
-        Accept: 'image/*',
-      },
-    });
+    const imageInit: RequestInit = { cache: 'no-store', headers: { Accept: 'image/*' } };
+    const res = isApiPath(absUrl) ? await apiFetch(absUrl, imageInit) : await fetch(absUrl, imageInit);
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
     const blob = await res.blob();
 
@@ -270,7 +252,7 @@ const MediaLibraryPage = () => {
     const fetchImages = async () => {
       try {
         setStatusMsg('Loading images…');
-        const res = await fetch(`${API_BASE_URL}/api/show-all-images/`, withFrontendKey({ signal: ac.signal }));
+        const res = await apiFetch(`${API_BASE_URL}/api/show-all-images/`, { signal: ac.signal });
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         const data = await res.json();
         const updated = data.map((img: any) => ({
@@ -465,14 +447,14 @@ const MediaLibraryPage = () => {
         formData.append('alt_text', alt_text);
         formData.append('tags', JSON.stringify(tags));
 
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/update-image/${imageId}/`,
-          withFrontendKey({
-            method: 'POST',
-            body: formData,
-            // keepalive for background tab safety
-            keepalive: true,
-          })
+          {
+          method: 'POST',
+          body: formData,
+          // keepalive for background tab safety
+          keepalive: true,
+        }
         );
 
         if (!res.ok) throw new Error('Upload failed');
@@ -493,14 +475,14 @@ const MediaLibraryPage = () => {
   // 🔴 Delete helper (server API)
   const deleteImage = useCallback(async (imageId: string) => {
     try {
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/delete-image/`,
-        withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ image_id: imageId }),
-          keepalive: true,
-        })
+        {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image_id: imageId }),
+        keepalive: true,
+      }
       );
 
       if (!res.ok) {
@@ -608,23 +590,23 @@ const MediaLibraryPage = () => {
   // ---------- Metadata ----------
   const saveMetadata = useCallback(async () => {
     try {
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/edit-image/`,
-        withFrontendKey({
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            image_id: modalImage.image_id,
-            alt_text: modalImage.alt_text,
-            tags: Array.isArray(modalImage.tags) ? modalImage.tags : [],
-            width: modalImage.width,
-            height: modalImage.height,
-            linked_id: modalImage.linked_id,
-            linked_table: modalImage.linked_table,
-            linked_page: modalImage.linked_page,
-            image_type: modalImage.image_type,
-          }),
-        })
+        {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          image_id: modalImage.image_id,
+          alt_text: modalImage.alt_text,
+          tags: Array.isArray(modalImage.tags) ? modalImage.tags : [],
+          width: modalImage.width,
+          height: modalImage.height,
+          linked_id: modalImage.linked_id,
+          linked_table: modalImage.linked_table,
+          linked_page: modalImage.linked_page,
+          image_type: modalImage.image_type,
+        }),
+      }
       );
 
       if (!res.ok) throw new Error('Failed to save metadata');
@@ -4,6 +4,7 @@ import React, { useEffect, useId, useMemo, useRef, useState } from "react";
 import AdminSidebar from "../components/AdminSideBar";
 import AdminAuthGuard from "../components/AdminAuthGaurd";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
 import {
   DragDropContext,
   Droppable,
@@ -14,28 +15,21 @@ import {
 /* ==============================
    Frontend key & fetch helpers
    ============================== */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  headers.set("Accept", "application/json");
-  return { ...init, headers, cache: "no-store" };
-};
 
 const fetchJSON = async <T,>(path: string, init?: RequestInit): Promise<T> => {
-  const res = await fetch(path, withFrontendKey(init));
+  const res = await apiFetch(path, init);
   if (!res.ok) throw new Error(`Request failed: ${res.status}`);
   return res.json();
 };
 
 const postJSON = async <T,>(path: string, body: unknown): Promise<T> => {
-  const res = await fetch(
+  const res = await apiFetch(
     path,
-    withFrontendKey({
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    })
+    {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }
   );
   if (!res.ok) {
     const msg = await res.text().catch(() => "");
@@ -353,13 +347,13 @@ export default function AdminNavBarViewPage() {
 
     // Fire-and-forget persistence (keep current contract)
     try {
-      await fetch(
+      await apiFetch(
         `${API_BASE_URL}/api/update-product-order/`,
-        withFrontendKey({
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ products: newFiltered.map((r) => ({ id: r.id })) }),
-        })
+        {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ products: newFiltered.map((r) => ({ id: r.id })) }),
+      }
       );
     } catch {
       /* non-blocking */
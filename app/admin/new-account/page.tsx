@@ -3,12 +3,15 @@
 import { useEffect, useMemo, useState, useCallback, useId } from 'react';
 import AdminSidebar from '../components/AdminSideBar';
 import Modal from '../components/Modal';
+import LoginHistoryTable from '../components/LoginHistoryTable';
 import { formatDistanceToNow } from 'date-fns';
 import { ToastContainer, toast } from 'react-toastify';
 import Checkbox from '@mui/material/Checkbox';
 import 'react-toastify/dist/ReactToastify.css';
 import { API_BASE_URL } from '../../utils/api';
+import { apiFetch } from '../../utils/apiClient';
 import AdminAuthGuard from '../components/AdminAuthGaurd';
+import { logoutAdmin, useAdminSession } from '../utils/adminSession';
 
 /* ========================= Types ========================= */
 type AdminUser = {
@@ -21,15 +24,6 @@ type AdminUser = {
   created_at: string;
 };
 
-/* =================== FRONTEND KEY helper =================== */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  // keep request lean to avoid preflights
-  return { ...init, headers, cache: 'no-store', credentials: 'omit', mode: 'cors' };
-};
-
 /* ================= Allowed nav labels (source of truth) ================= */
 const sidebarLinks = [
   'Dashboard',
@@ -44,6 +38,7 @@ const sidebarLinks = [
   'Hero Banner',
   'Manage Categories',
   'Orders',
+  'Promotions',
   'Inventory',
   'Google Analytics',
   'New Account',
@@ -62,6 +57,7 @@ const rolePermissionsMap: { [role: string]: string[] } = {
     'Settings',
     'Blog',
     'Orders',
+    'Promotions',
     'Inventory',
     'Manage Categories',
     'Attributes',
@@ -80,6 +76,7 @@ const rolePermissionsMap: { [role: string]: string[] } = {
   ],
   'Marketing Manager': [
     'Blog',
+    'Promotions',
     'Testimonials',
     'First Carousel',
     'Second Carousel',
@@ -126,6 +123,7 @@ export default function AdminNewAccountPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedAdminId, setSelectedAdminId] = useState<string | null>(null);
   const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const [historyFor, setHistoryFor] = useState<AdminUser | null>(null);
 
   // edit mode state
   const [editMode, setEditMode] = useState(false);
@@ -145,24 +143,18 @@ export default function AdminNewAccountPage() {
   const tableCaptionId = useId();
 
   /* ============ Load current admin's grantable pages ============ */
+  const { session } = useAdminSession();
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem('access-pages');
-      const parsed: string[] = raw ? JSON.parse(raw) : [];
-      const normalized = normalizePermissions(parsed).filter((p) => p !== 'Blog View');
-      setGrantableSet(new Set(normalized.map((l) => norm(l))));
-    } catch {
-      setGrantableSet(new Set());
-    }
-  }, []);
+    const normalized = normalizePermissions(session?.access_pages || []).filter((p) => p !== 'Blog View');
+    setGrantableSet(new Set(normalized.map((l) => norm(l))));
+  }, [session]);
 
   /* ====================== Data fetching ====================== */
   const fetchAdmins = useCallback(async () => {
     const ac = new AbortController();
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE_URL}/api/show-admin/?_=${Date.now()}`, {
-        ...withFrontendKey(),
+      const res = await apiFetch(`${API_BASE_URL}/api/show-admin/?_=${Date.now()}`, {
         signal: ac.signal,
       });
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -247,12 +239,8 @@ export default function AdminNewAccountPage() {
     setIsModalOpen(true);
   };
 
-  const forceLogout = () => {
-    try {
-      localStorage.removeItem('admin-auth');
-      localStorage.removeItem('admin-id');
-      localStorage.removeItem('access-pages');
-    } catch {}
+  const forceLogout = async () => {
+    await logoutAdmin();
     toast.info('You have been logged out.');
     window.location.href = '/admin/login';
   };
@@ -281,7 +269,7 @@ export default function AdminNewAccountPage() {
       if (!editMode) {
         // Re-check duplicates right before create
         try {
-          const ref = await fetch(`${API_BASE_URL}/api/show-admin/?_=${Date.now()}`, withFrontendKey());
+          const ref = await apiFetch(`${API_BASE_URL}/api/show-admin/?_=${Date.now()}`);
           const refData = await ref.json();
           const list: AdminUser[] = refData?.admins || refData || [];
           if (Array.isArray(list)) {
@@ -295,16 +283,14 @@ export default function AdminNewAccountPage() {
 
         const access_pages = filteredPayloadPermissions(formData.permissions);
 
-        const res = await fetch(`${API_BASE_URL}/api/save-admin/`, {
-          ...withFrontendKey({
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              admin_name: username,
-              password,
-              role_name: role,
-              access_pages,
-            }),
+        const res = await apiFetch(`${API_BASE_URL}/api/save-admin/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            admin_name: username,
+            password,
+            role_name: role,
+            access_pages,
           }),
         });
 
@@ -341,12 +327,10 @@ export default function AdminNewAccountPage() {
         };
         if (password) payload.password = password;
 
-        const res = await fetch(`${API_BASE_URL}/api/edit-admin/`, {
-          ...withFrontendKey({
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-          }),
+        const res = await apiFetch(`${API_BASE_URL}/api/edit-admin/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
         });
 
         if (!res.ok) {
@@ -375,12 +359,10 @@ export default function AdminNewAccountPage() {
   const handleDeleteAdmin = async () => {
     if (!selectedAdminId) return;
     try {
-      const res = await fetch(`${API_BASE_URL}/api/delete-admin/`, {
-        ...withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ admin_id: selectedAdminId }),
-        }),
+      const res = await apiFetch(`${API_BASE_URL}/api/delete-admin/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ admin_id: selectedAdminId }),
       });
       const result = await res.json().catch(() => ({}));
 
@@ -388,8 +370,7 @@ export default function AdminNewAccountPage() {
         toast.success('✅ Admin deleted');
         setUsers((prev) => prev.filter((user) => user.admin_id !== selectedAdminId));
 
-        const currentId =
-          typeof window !== 'undefined' ? localStorage.getItem('admin-id') : null;
+        const currentId = session?.admin_id;
         if (currentId && currentId === selectedAdminId) {
           forceLogout();
           return;
@@ -507,6 +488,13 @@ export default function AdminNewAccountPage() {
                         >
                           Edit
                         </button>
+                        <button
+                          type="button"
+                          onClick={() => setHistoryFor(user)}
+                          className="text-gray-700 hover:text-black text-xs font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-600 rounded"
+                        >
+                          History
+                        </button>
                         <button
                           type="button"
                           onClick={() => {
@@ -661,6 +649,18 @@ export default function AdminNewAccountPage() {
             </Modal>
           )}
 
+          {/* Login History */}
+          {historyFor && (
+            <Modal isOpen={!!historyFor} onClose={() => setHistoryFor(null)}>
+              <div className="p-4 sm:p-6">
+                <h2 className="text-lg font-semibold text-[#891F1A] mb-4">
+                  Login history · {historyFor.admin_name}
+                </h2>
+                <LoginHistoryTable adminId={historyFor.admin_id} username={historyFor.admin_name} />
+              </div>
+            </Modal>
+          )}
+
           {/* Confirm Delete */}
           {confirmDeleteOpen && (
             <Modal isOpen={confirmDeleteOpen} onClose={() => setConfirmDeleteOpen(false)}>
@@ -1,11 +1,26 @@
 // Front_End/app/admin/notifications/page.tsx
 "use client";
 
-import React, { useEffect, useMemo, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import AdminSidebar from "../components/AdminSideBar";
 import AdminAuthGuard from "../components/AdminAuthGaurd";
+import InventoryDigestPanel from "../components/InventoryDigestPanel";
+import { useAdminSession } from "../utils/adminSession";
+import {
+  markNotificationsRead,
+  setNotificationPrefs,
+  useAdminNotifications,
+  useNotificationPrefs,
+} from "../utils/notificationStream";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch, FRONTEND_KEY } from "../../utils/apiClient";
+import {
+  NOTIFICATION_SOURCE_PATHS,
+  notificationSourceLabel,
+  notificationSourcesFor,
+  type AdminNotification,
+} from "../../utils/adminNotifications";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import { FaEye, FaCheck, FaPause, FaTimes } from "react-icons/fa";
@@ -13,12 +28,6 @@ import { FaEye, FaCheck, FaPause, FaTimes } from "react-icons/fa";
 /** ─────────────────────────────────────────────────────────────────────────────
  * Frontend-key helper
  * ────────────────────────────────────────────────────────────────────────────*/
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
 
 // Dev guard (helps avoid head-scratching 403s locally)
 if (typeof window !== "undefined" && process.env.NODE_ENV !== "production" && !FRONTEND_KEY) {
@@ -28,16 +37,16 @@ if (typeof window !== "undefined" && process.env.NODE_ENV !== "production" && !F
 
 /** Small JSON fetch helper with better errors + optional abort */
 const jsonFetch = async (url: string, init: RequestInit = {}, signal?: AbortSignal) => {
-  const res = await fetch(
+  const res = await apiFetch(
     url,
-    withFrontendKey({
-      ...init,
-      headers: {
-        "Content-Type": "application/json",
-        ...(init.headers || {}),
-      },
-      signal,
-    })
+    {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.headers || {}),
+    },
+    signal,
+  }
   );
 
   const text = await res.text().catch(() => "");
@@ -75,210 +84,53 @@ const isAbortError = (err: unknown) => {
 /** ─────────────────────────────────────────────────────────────────────────────
  * Types
  * ────────────────────────────────────────────────────────────────────────────*/
-interface Notification {
-  notification_id: string;
-  message: string;
-  created_at: string;
-  type: string;
-  status: "read" | "unread";
-  source_table?: string; // BE will send "product_comment" here for comment notifications
-  source_id?: string; // For product_comment this MUST be the comment_id (testimonial_id)
-  order_id?: string;
-  sku?: string;
-  user?: string;
-  meta_status?: "pending" | "approved" | "rejected" | "hidden"; // optional inline comment status
-}
 type CommentStatus = "pending" | "approved" | "rejected" | "hidden";
 
-/** Human labels and routes */
-const sourceTableToPageLabel: Record<string, string> = {
-  category: "Manage Categories",
-  subcategory: "Manage Categories",
-  orders: "Orders",
-  product: "Products Section",
-  inventory: "Inventory",
-  admin: "New Account",
-  blog: "Blog",
-  product_comment: "Product Comments", // virtual page for comments
-};
-
-const sourceToPath: Record<string, string> = {
-  category: "/admin/manage-categories",
-  subcategory: "/admin/manage-categories",
-  orders: "/admin/orders",
-  product: "/admin/products",
-  inventory: "/admin/inventory",
-  admin: "/admin/new-account",
-  blog: "/admin/blogView",
-  product_comment: "/admin/notifications", // stay here for comment moderation
-};
-
-const prettySource = (src: string) =>
-  src.toLowerCase() === "product_comment"
-    ? "Product Comments"
-    : sourceTableToPageLabel[src.toLowerCase()] || src;
-
 /** ─────────────────────────────────────────────────────────────────────────────
  * Page
  * ────────────────────────────────────────────────────────────────────────────*/
 export default function AdminNotificationsClient() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [sortOrder, setSortOrder] = useState<"latest" | "oldest">("latest");
   const [activeTab, setActiveTab] = useState<string>("all");
-  const [accessibleSources, setAccessibleSources] = useState<string[]>([]);
+  const { session } = useAdminSession();
+  // Live feed; the stream only sends sources this admin's role can open
+  const { notifications, connected, loaded } = useAdminNotifications();
+  const prefs = useNotificationPrefs();
+
+  // Access control (sources whose page this admin can access)
+  const accessibleSources = useMemo(
+    () => Array.from(notificationSourcesFor(session?.access_pages || [])),
+    [session]
+  );
   const [commentStatuses, setCommentStatuses] = useState<Record<string, CommentStatus>>({});
   const router = useRouter();
 
-  /** Fetch + normalize notifications */
-  const fetchNotifications = useCallback(
-    async (signal?: AbortSignal) => {
-      if (signal?.aborted) return; // cheap early exit
-      const data = await jsonFetch(`${API_BASE_URL}/api/notifications/`, { method: "GET" }, signal);
-
-      const normalized: Notification[] = (data as Notification[]).map((n) => {
-        const src = (n.source_table || "").toLowerCase();
-        const isComment =
-          n.type?.toLowerCase() === "comment" || src === "producttestimonial" || src === "product_comment";
-        if (isComment) {
-          return {
-            ...n,
-            source_table: "product_comment", // force virtual source name
-          };
-        }
-        return n;
-      });
-
-      // keep only known sources (and product_comment)
-      const filtered = normalized.filter((n) => {
-        const src = (n.source_table || "").toLowerCase();
-        return Object.keys(sourceToPath).includes(src);
-      });
-
-      setNotifications(filtered);
-
-      // seed inline meta-status for comments if backend sent it
-      const seed: Record<string, CommentStatus> = {};
-      filtered.forEach((n) => {
-        if ((n.source_table || "").toLowerCase() === "product_comment" && n.source_id) {
-          if (n.meta_status) seed[n.source_id] = n.meta_status;
-        }
-      });
-      if (Object.keys(seed).length) setCommentStatuses((prev) => ({ ...prev, ...seed }));
-    },
-    []
-  );
-
-  /** Load access control + notifications on mount */
+  /** Seed inline meta-status for comments if backend sent it */
   useEffect(() => {
-    const ac = new AbortController();
-
-    const bootstrap = async () => {
-      try {
-        // Access control (pages user can access)
-        const accessPages = localStorage.getItem("access-pages");
-        if (accessPages) {
-          const pages = JSON.parse(accessPages) as string[];
-          const allowedSources = Object.entries(sourceTableToPageLabel)
-            .filter(([_, label]) => pages.includes(label))
-            .map(([source]) => source.toLowerCase());
-          setAccessibleSources(allowedSources);
-        }
-      } catch {
-        /* ignore access parse errors */
-      }
-
-      try {
-        await fetchNotifications(ac.signal);
-      } catch (err) {
-        if (isAbortError(err)) return;
-        // eslint-disable-next-line no-console
-        console.error(err);
-        toast.error("Failed to load notifications.");
-      }
-    };
-
-    bootstrap();
-    return () => ac.abort("component unmounted");
-  }, [fetchNotifications]);
+    const seed: Record<string, CommentStatus> = {};
+    notifications.forEach((n) => {
+      if (n.source_table === "product_comment" && n.source_id && n.meta_status) seed[n.source_id] = n.meta_status;
+    });
+    if (Object.keys(seed).length) setCommentStatuses((prev) => ({ ...prev, ...seed }));
+  }, [notifications]);
 
-  /** Light polling (30s) when tab is visible */
-  useEffect(() => {
-    let timer: any;
-    let stopped = false;
-
-    const tick = async () => {
-      if (document.hidden) return;
-      const ac = new AbortController();
-      try {
-        await fetchNotifications(ac.signal);
-      } catch (err) {
-        if (!isAbortError(err)) {
-          // non-fatal; keep polling quiet
-        }
-      }
-    };
-
-    const start = () => {
-      if (stopped) return;
-      timer = setInterval(tick, 30000);
-    };
-    const stop = () => {
-      stopped = true;
-      clearInterval(timer);
-    };
-
-    const onVis = () => {
-      if (!document.hidden) void tick();
-    };
-    document.addEventListener("visibilitychange", onVis);
-    start();
-    return () => {
-      stop();
-      document.removeEventListener("visibilitychange", onVis);
-    };
-  }, [fetchNotifications]);
-
-  /** Update single notif to read (optimistic) */
-  const updateNotifStatusRead = async (id: string) => {
+  /** Mark as read here and in the admin's other tabs (optimistic; reverted if the backend refuses) */
+  const markRead = async (ids: string[]) => {
     try {
-      setNotifications((prev) => prev.map((n) => (n.notification_id === id ? { ...n, status: "read" } : n)));
-      await jsonFetch(`${API_BASE_URL}/api/notification-update`, {
-        method: "POST",
-        body: JSON.stringify({ notification_id: id, status: "read" }),
-      });
+      await markNotificationsRead(ids);
     } catch (error) {
-      // revert if failed
-      setNotifications((prev) => prev.map((n) => (n.notification_id === id ? { ...n, status: "unread" } : n)));
       // eslint-disable-next-line no-console
-      if (!isAbortError(error)) {
-        console.error("Error updating notification:", error);
-        toast.error("Failed to update notification.");
-      }
+      console.error("Error updating notification:", error);
+      toast.error("Failed to update notification.");
     }
   };
 
-  /** Batch mark as read: try batch endpoint; fallback to per-ID */
-  const markAllAsRead = async (ids: string[]) => {
-    if (!ids.length) return;
-    try {
-      await jsonFetch(`${API_BASE_URL}/api/notifications/mark-read-batch`, {
-        method: "POST",
-        body: JSON.stringify({ ids }),
-      });
-    } catch (err) {
-      if (!isAbortError(err)) {
-        // fallback: parallel individual updates
-        await Promise.all(
-          ids.map((id) =>
-            jsonFetch(`${API_BASE_URL}/api/notification-update`, {
-              method: "POST",
-              body: JSON.stringify({ notification_id: id, status: "read" }),
-            }).catch(() => {})
-          )
-        );
-      }
+  /** Browser alerts for new notifications (per browser, stored locally) */
+  const togglePref = async (key: "desktop" | "sound") => {
+    const next = await setNotificationPrefs({ ...prefs, [key]: !prefs[key] });
+    if (key === "desktop" && !prefs.desktop && !next.desktop) {
+      toast.info("Allow notifications for this site in your browser to get desktop alerts.");
     }
-    setNotifications((prev) => prev.map((n) => (ids.includes(n.notification_id) ? { ...n, status: "read" } : n)));
   };
 
   /** Product comment moderation actions */
@@ -296,12 +148,10 @@ export default function AdminNotificationsClient() {
       setCommentStatusLocal(commentId, status);
 
       // Mark any notification pointing to this comment as read
-      setNotifications((prev) =>
-        prev.map((n) =>
-          (n.source_table || "").toLowerCase() === "product_comment" && n.source_id === commentId
-            ? { ...n, status: "read" }
-            : n
-        )
+      await markRead(
+        notifications
+          .filter((n) => n.source_table === "product_comment" && n.source_id === commentId && n.status === "unread")
+          .map((n) => n.notification_id)
       );
     } catch (err) {
       if (!isAbortError(err)) {
@@ -352,16 +202,18 @@ export default function AdminNotificationsClient() {
     );
     const hasProductComment = notifications.some((n) => (n.source_table || "").toLowerCase() === "product_comment");
     if (hasProductComment) base.add("product_comment");
+    // the stock digest lives on the Inventory tab, so it shows even before the first alert
+    if (accessibleSources.includes("inventory")) base.add("inventory");
     return Array.from(base);
   }, [notifications, accessibleSources]);
 
   const getRedirectPath = (source: string) => {
     const lower = source.toLowerCase();
-    return sourceToPath[lower] || "/admin/notifications";
+    return NOTIFICATION_SOURCE_PATHS[lower] || "/admin/notifications";
   };
 
-  const onCardClick = async (n: Notification) => {
-    await updateNotifStatusRead(n.notification_id);
+  const onCardClick = async (n: AdminNotification) => {
+    if (n.status === "unread") void markRead([n.notification_id]);
 
     const src = (n.source_table || "").toLowerCase();
     if (src === "product_comment") {
@@ -388,9 +240,24 @@ export default function AdminNotificationsClient() {
                 <div>
                   <h1 className="text-3xl font-bold text-[#891F1A] mb-1">🔔 Notifications</h1>
                   <p className="text-gray-500 text-sm">Browse and manage your system alerts</p>
+                  <p className="text-xs mt-1 flex items-center gap-1.5" role="status">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full ${connected ? "bg-green-500" : "bg-gray-400"}`}
+                      aria-hidden="true"
+                    />
+                    <span className="text-gray-500">{connected ? "Live" : "Reconnecting…"}</span>
+                  </p>
                 </div>
 
-                <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 flex-wrap justify-end">
+                  <label className="text-sm text-gray-500 inline-flex items-center gap-1 mr-2">
+                    <input type="checkbox" checked={prefs.desktop} onChange={() => togglePref("desktop")} />
+                    Desktop alerts
+                  </label>
+                  <label className="text-sm text-gray-500 inline-flex items-center gap-1 mr-2">
+                    <input type="checkbox" checked={prefs.sound} onChange={() => togglePref("sound")} />
+                    Sound
+                  </label>
                   <label className="text-sm text-gray-500">Sort</label>
                   <select
                     value={sortOrder}
@@ -430,7 +297,7 @@ export default function AdminNotificationsClient() {
                       ? "All"
                       : tab === "unread"
                       ? "Unread"
-                      : prettySource(tab);
+                      : notificationSourceLabel(tab);
 
                   return (
                     <div key={tab} className="relative">
@@ -455,11 +322,13 @@ export default function AdminNotificationsClient() {
               )}
             </div>
 
+            {activeTab === "inventory" && <InventoryDigestPanel />}
+
             {/* Mark all as read */}
             {sorted.length > 0 && (
               <div className="mb-4 flex justify-end">
                 <button
-                  onClick={() => markAllAsRead(unreadIdsInCurrentView)}
+                  onClick={() => markRead(unreadIdsInCurrentView)}
                   disabled={!unreadIdsInCurrentView.length}
                   className={`px-4 py-2 rounded-md shadow transition ${
                     unreadIdsInCurrentView.length
@@ -499,7 +368,7 @@ export default function AdminNotificationsClient() {
                             {n.message}
                           </p>
                           <p className="text-sm text-gray-500 mt-1">
-                            Source: <b>{isComment ? "Product Comments" : prettySource(n.source_table || "N/A")}</b>
+                            Source: <b>{isComment ? "Product Comments" : notificationSourceLabel(n.source_table || "N/A")}</b>
                             {isComment && commentId ? (
                               <span className="ml-2 text-gray-400">
                                 • Comment ID: <b>{commentId}</b>
@@ -601,7 +470,9 @@ export default function AdminNotificationsClient() {
                 })}
               </div>
             ) : (
-              <div className="text-center text-gray-400 text-sm py-10">No notifications to show.</div>
+              <div className="text-center text-gray-400 text-sm py-10">
+                {loaded ? "No notifications to show." : "Loading notifications…"}
+              </div>
             )}
           </div>
         </div>
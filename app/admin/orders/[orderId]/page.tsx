@@ -2,11 +2,10 @@
 'use client';
 
 import { useParams } from 'next/navigation';
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
 import AdminSidebar from '../../components/AdminSideBar';
 import AdminAuthGuard from '../../components/AdminAuthGaurd';
 import { motion } from 'framer-motion';
-import axios, { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import {
@@ -17,22 +16,45 @@ import {
   FaStickyNote,
   FaShoppingCart,
   FaUserAlt,
-  FaSyncAlt,
+  FaHistory,
+  FaFilePdf,
 } from 'react-icons/fa';
-import { API_BASE_URL } from '../../../utils/api';
-
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-
-/* Axios with the Frontend key header */
-const axiosWithKey = axios.create();
-axiosWithKey.interceptors.request.use((config: InternalAxiosRequestConfig) => {
-  if (!config.headers) config.headers = new AxiosHeaders();
-  else if (!(config.headers instanceof AxiosHeaders)) {
-    config.headers = AxiosHeaders.from(config.headers);
-  }
-  (config.headers as AxiosHeaders).set('X-Frontend-Key', FRONTEND_KEY);
-  return config;
-});
+import { api, isAbortError, isApiError } from '../../../utils/apiClient';
+import {
+  getPaymentProvider,
+  markOrderPaid,
+  PAYMENT_STATUS_LABELS,
+  type PaymentStatus,
+} from '../../../utils/payments';
+import {
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TONES,
+  canTransition,
+  changeOrderStatus,
+  nextOrderStatuses,
+  normalizeStatusHistory,
+  orderStatusLabel,
+  parseOrderStatus,
+  requiresReason,
+  type OrderStatus,
+  type OrderStatusEvent,
+} from '../../../utils/orderStatus';
+import OrderTimeline from '../../../components/OrderTimeline';
+import { hasCreditNote, invoiceUrl } from '../../../utils/invoices';
+import {
+  MAX_PIECES,
+  MAX_WEIGHT_KG,
+  createShipment,
+  fetchCarriers,
+  fetchTracking,
+  normalizeShipment,
+  shipmentLabelUrl,
+  type CarrierId,
+  type CarrierOption,
+  type Shipment,
+  type TrackingEvent,
+} from '../../../utils/shipments';
+import ShipmentTracking from '../../../components/ShipmentTracking';
 
 /* Types */
 type UIItem = {
@@ -48,31 +70,33 @@ type LoadedOrder = {
   customer: { name: string; email: string; address: string };
   items: UIItem[];
   total: number;
-  status: string; // lower-case backend status
+  status: OrderStatus | null; // null = value the state machine doesn't know
+  rawStatus: string;
+  history: OrderStatusEvent[];
+  payment: { method: string; status: PaymentStatus };
+  shipment: Shipment | null;
   notes: string[];
 };
 
 const toAED = (n: number) => `AED ${Number(n || 0).toFixed(2)}`;
 
-/* Map backend -> UI label */
-const labelStatus = (s: string): 'Pending' | 'Processing' | 'Shipped' | 'Completed' | 'Cancelled' => {
-  const v = (s || '').toLowerCase();
-  if (v === 'processing' || v === 'pending') return 'Pending'; // UI merges both as "Pending" or show "Processing" if you prefer
-  if (v === 'shipped') return 'Shipped';
-  if (v === 'completed') return 'Completed';
-  if (v === 'cancelled') return 'Cancelled';
-  return 'Pending';
+const toPaymentStatus = (s: unknown): PaymentStatus => {
+  const v = String(s || '').toLowerCase();
+  return v in PAYMENT_STATUS_LABELS ? (v as PaymentStatus) : 'unpaid';
 };
 
-/* For the dropdown -> backend value */
-const uiToBackendStatus = (label: string) => {
-  const v = (label || '').toLowerCase();
-  if (v === 'processing') return 'processing';
-  if (v === 'pending') return 'pending';
-  if (v === 'shipped') return 'shipped';
-  if (v === 'completed') return 'completed';
-  if (v === 'cancelled') return 'cancelled';
-  return 'pending';
+const paymentPill: Record<PaymentStatus, string> = {
+  unpaid: 'bg-gray-200 text-gray-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-200 text-gray-700',
+};
+
+const statusIcon: Partial<Record<OrderStatus, ReactNode>> = {
+  pending: <FaClock />,
+  shipped: <FaTruck />,
+  completed: <FaCheck />,
 };
 
 export default function OrderDetailPage() {
@@ -83,8 +107,22 @@ export default function OrderDetailPage() {
   }, [params]);
 
   const [order, setOrder] = useState<LoadedOrder | null>(null);
-  const [statusLabel, setStatusLabel] = useState<'Pending' | 'Processing' | 'Shipped' | 'Completed' | 'Cancelled'>('Pending');
+  const [nextStatus, setNextStatus] = useState<OrderStatus | ''>('');
+  const [statusReason, setStatusReason] = useState('');
+  const [savingStatus, setSavingStatus] = useState(false);
   const [newNote, setNewNote] = useState('');
+  const [carriers, setCarriers] = useState<CarrierOption[]>([]);
+  const [shipForm, setShipForm] = useState<{ carrier: CarrierId | ''; weight: string; pieces: string }>({
+    carrier: '',
+    weight: '',
+    pieces: '1',
+  });
+  const [creatingShipment, setCreatingShipment] = useState(false);
+  const [tracking, setTracking] = useState<{ events: TrackingEvent[]; loading: boolean; error: string }>({
+    events: [],
+    loading: false,
+    error: '',
+  });
   const [error, setError] = useState('');
 
   const fetchedRef = useRef(false);
@@ -96,11 +134,9 @@ export default function OrderDetailPage() {
     const controller = new AbortController();
     (async () => {
       try {
-        const res = await axiosWithKey.get(`${API_BASE_URL}/api/show-order/`, { signal: controller.signal as any });
-        const orders = res.data?.orders || [];
-        const found = orders.find((o: any) => String(o.orderID) === String(orderId));
+        const found: any = await api.showOrder(String(orderId), { signal: controller.signal });
 
-        if (!found) {
+        if (!found?.orderID) {
           setError('❌ Invalid order ID');
           return;
         }
@@ -148,57 +184,131 @@ export default function OrderDetailPage() {
           },
           items,
           total,
-          status: String(found.status || 'pending').toLowerCase(),
+          status: parseOrderStatus(found.status),
+          rawStatus: String(found.status ?? ''),
+          history: normalizeStatusHistory(found.status_history),
+          payment: {
+            method: String(found.payment_method || ''),
+            status: toPaymentStatus(found.payment_status),
+          },
+          shipment: normalizeShipment(found.shipment),
           notes: [`Order placed on ${found.Date || 'N/A'}`],
         };
 
         setOrder(loaded);
-        setStatusLabel(labelStatus(loaded.status));
         fetchedRef.current = true;
       } catch (err: any) {
-        if (err?.name === 'CanceledError') return;
-        setError('❌ Failed to fetch order');
+        if (isAbortError(err)) return;
+        setError(isApiError(err) && err.status === 404 ? '❌ Invalid order ID' : '❌ Failed to fetch order');
       }
     })();
 
     return () => controller.abort();
   }, [orderId]);
 
-  /* Persist status changes (PUT) */
+  /* Shipment: carriers for the booking form, or live tracking once booked */
+  const shipmentNumber = order?.shipment?.tracking_number || '';
+  const canShip = !!order && !order.shipment && canTransition(order.status, 'shipped');
+
   useEffect(() => {
-    if (!order) return;
-    const backendTarget = uiToBackendStatus(statusLabel);
-    if (backendTarget === order.status) return;
+    if (!canShip) return;
+    const controller = new AbortController();
+    fetchCarriers(controller.signal)
+      .then((list) => {
+        setCarriers(list);
+        setShipForm((f) => (f.carrier ? f : { ...f, carrier: list.find((c) => c.ready)?.id || '' }));
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) console.warn('Carrier list failed:', err);
+      });
+    return () => controller.abort();
+  }, [canShip]);
 
-    (async () => {
-      try {
-        await axiosWithKey.put(`${API_BASE_URL}/api/edit-order/`, {
-          order_id: order.id,
-          status: backendTarget,
-        });
-        toast.success(`Status updated to ${statusLabel}`);
-        setOrder((prev) => (prev ? { ...prev, status: backendTarget } : prev));
-      } catch (err) {
-        toast.error('❌ Failed to update order status');
-      }
-    })();
-  }, [statusLabel, order]);
+  useEffect(() => {
+    if (!orderId || !shipmentNumber) return;
+    const controller = new AbortController();
+    setTracking((t) => ({ ...t, loading: true, error: '' }));
+    fetchTracking(String(orderId), undefined, controller.signal)
+      .then(({ events, error }) => setTracking({ events, loading: false, error }))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setTracking({ events: [], loading: false, error: err?.message || 'Failed to load tracking' });
+      });
+    return () => controller.abort();
+  }, [orderId, shipmentNumber]);
+
+  const bookShipment = async () => {
+    if (!order || !shipForm.carrier) return;
+    const weight = Number(shipForm.weight);
+    const pieces = Number(shipForm.pieces);
+    if (!(weight > 0 && weight <= MAX_WEIGHT_KG)) {
+      toast.error(`Enter a package weight up to ${MAX_WEIGHT_KG} kg`);
+      return;
+    }
+    setCreatingShipment(true);
+    try {
+      const shipment = await createShipment({ order_id: order.id, carrier: shipForm.carrier, weight_kg: weight, pieces });
+      setOrder((prev) => (prev ? { ...prev, shipment } : prev));
+      // Booking doesn't change the status; offer the move so the customer gets the shipped email
+      setNextStatus('shipped');
+      toast.success(`Shipment created: ${shipment.tracking_number}`);
+    } catch (err: any) {
+      if (err?.shipment) setOrder((prev) => (prev ? { ...prev, shipment: err.shipment } : prev));
+      toast.error(`❌ ${err?.message || 'Failed to create shipment'}`);
+    } finally {
+      setCreatingShipment(false);
+    }
+  };
+
+  /* Status transitions — only moves the state machine allows are offered */
+  const updateStatus = async () => {
+    if (!order || !nextStatus) return;
+    if (requiresReason(nextStatus) && !statusReason.trim()) {
+      toast.error(`Please give a reason for ${ORDER_STATUS_LABELS[nextStatus]}`);
+      return;
+    }
+    setSavingStatus(true);
+    try {
+      const event = await changeOrderStatus({
+        order_id: order.id,
+        from: order.status,
+        to: nextStatus,
+        reason: statusReason,
+      });
+      setOrder((prev) =>
+        prev ? { ...prev, status: event.to, rawStatus: event.to, history: [...prev.history, event] } : prev
+      );
+      setNextStatus('');
+      setStatusReason('');
+      toast.success(`Status updated to ${ORDER_STATUS_LABELS[event.to]}`);
+    } catch (err: any) {
+      toast.error(`❌ ${err?.message || 'Failed to update order status'}`);
+    } finally {
+      setSavingStatus(false);
+    }
+  };
 
   /* UI helpers */
-  const StatusBadge = ({ s }: { s: typeof statusLabel }) => {
+  const StatusBadge = ({ s, raw }: { s: OrderStatus | null; raw: string }) => {
     const base =
       'inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold tracking-wide';
-    if (s === 'Pending')
-      return <span className={`${base} bg-yellow-100 text-yellow-700`}><FaClock /> Pending</span>;
-    if (s === 'Processing')
-      return <span className={`${base} bg-blue-100 text-blue-700`}><FaSyncAlt /> Processing</span>;
-    if (s === 'Shipped')
-      return <span className={`${base} bg-indigo-100 text-indigo-700`}><FaTruck /> Shipped</span>;
-    if (s === 'Completed')
-      return <span className={`${base} bg-green-100 text-green-700`}><FaCheck /> Completed</span>;
-    if (s === 'Cancelled')
-      return <span className={`${base} bg-gray-200 text-gray-700`}>Cancelled</span>;
-    return <span className={`${base} bg-gray-200 text-gray-700`}>Unknown</span>;
+    if (!s) return <span className={`${base} bg-gray-200 text-gray-700`}>Unknown ({raw || '—'})</span>;
+    return (
+      <span className={`${base} ${ORDER_STATUS_TONES[s]}`}>
+        {statusIcon[s]} {orderStatusLabel(s)}
+      </span>
+    );
+  };
+
+  const markPaid = async () => {
+    if (!order) return;
+    try {
+      await markOrderPaid(order.id, order.payment.method || 'cod');
+      setOrder((prev) => (prev ? { ...prev, payment: { ...prev.payment, status: 'paid' } } : prev));
+      toast.success('Payment marked as received');
+    } catch {
+      toast.error('❌ Failed to update payment status');
+    }
   };
 
   const addNote = () => {
@@ -247,10 +357,32 @@ export default function OrderDetailPage() {
               initial={{ opacity: 0, y: -6 }}
               animate={{ opacity: 1, y: 0 }}
             >
-              <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
-                🧾 Order #{order.id}
-              </h1>
-              <p className="text-sm text-gray-500 mt-1">Placed on {order.date}</p>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-2">
+                    🧾 Order #{order.id}
+                  </h1>
+                  <p className="text-sm text-gray-500 mt-1">Placed on {order.date}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <a
+                    href={invoiceUrl(order.id)}
+                    download
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-[#891F1A] text-white text-sm font-medium hover:bg-[#6e1815]"
+                  >
+                    <FaFilePdf /> Invoice
+                  </a>
+                  {hasCreditNote(order.status) && (
+                    <a
+                      href={invoiceUrl(order.id, 'credit_note')}
+                      download
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      <FaFilePdf /> Credit Note
+                    </a>
+                  )}
+                </div>
+              </div>
             </motion.div>
 
             <motion.div
@@ -307,23 +439,179 @@ export default function OrderDetailPage() {
                   <FaBoxOpen /> Order Status
                 </h2>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-4">
-                  <div><StatusBadge s={statusLabel} /></div>
-                  <select
-                    aria-label="Change order status"
-                    value={statusLabel}
-                    onChange={(e) => setStatusLabel(e.target.value as any)}
-                    className="w-full sm:w-64 border-gray-300 focus:ring-2 focus:ring-red-700 focus:border-red-700 rounded-md px-4 py-2 text-sm text-gray-700 transition-all shadow-sm"
-                  >
-                    {/* If you want to expose Processing distinctly in UI, keep it here */}
-                    <option>Pending</option>
-                    <option>Processing</option>
-                    <option>Shipped</option>
-                    <option>Completed</option>
-                    <option>Cancelled</option>
-                  </select>
+                  <div><StatusBadge s={order.status} raw={order.rawStatus} /></div>
+                  {nextOrderStatuses(order.status).length > 0 ? (
+                    <select
+                      aria-label="Change order status"
+                      value={nextStatus}
+                      onChange={(e) => setNextStatus(e.target.value as OrderStatus | '')}
+                      className="w-full sm:w-64 border-gray-300 focus:ring-2 focus:ring-red-700 focus:border-red-700 rounded-md px-4 py-2 text-sm text-gray-700 transition-all shadow-sm"
+                    >
+                      <option value="">Move to…</option>
+                      {nextOrderStatuses(order.status).map((s) => (
+                        <option key={s} value={s}>
+                          {ORDER_STATUS_LABELS[s]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-500">This is a final status.</span>
+                  )}
+                </div>
+
+                {nextStatus && (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      value={statusReason}
+                      onChange={(e) => setStatusReason(e.target.value)}
+                      placeholder={
+                        requiresReason(nextStatus)
+                          ? `Why is this order ${ORDER_STATUS_LABELS[nextStatus]}? (required)`
+                          : 'Reason (optional)'
+                      }
+                      rows={2}
+                      maxLength={500}
+                      className="w-full border border-gray-300 rounded-md p-3 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-700 transition shadow-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={updateStatus}
+                      disabled={savingStatus}
+                      className="bg-red-700 hover:bg-red-800 text-white px-4 py-2 rounded-md text-sm transition disabled:opacity-60"
+                    >
+                      {savingStatus ? 'Updating…' : `Mark as ${ORDER_STATUS_LABELS[nextStatus]}`}
+                    </button>
+                  </div>
+                )}
+
+                <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-700">
+                  <span>
+                    <strong>Payment:</strong>{' '}
+                    {getPaymentProvider(order.payment.method)?.label || order.payment.method || 'Not recorded'}
+                  </span>
+                  <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold ${paymentPill[order.payment.status]}`}>
+                    {PAYMENT_STATUS_LABELS[order.payment.status]}
+                  </span>
+                  {order.payment.status !== 'paid' && (
+                    <button
+                      type="button"
+                      onClick={markPaid}
+                      className="sm:ml-auto border border-gray-300 hover:bg-gray-100 rounded-md px-3 py-1.5 text-xs"
+                    >
+                      Mark as paid
+                    </button>
+                  )}
                 </div>
               </section>
 
+              {/* Shipment */}
+              <section aria-labelledby="order-shipment">
+                <h2 id="order-shipment" className="text-lg font-semibold flex items-center gap-2 text-gray-700 mb-3">
+                  <FaTruck /> Shipment
+                </h2>
+                {order.shipment ? (
+                  <div className="space-y-3">
+                    <ShipmentTracking
+                      shipment={order.shipment}
+                      events={tracking.events}
+                      loading={tracking.loading}
+                      error={tracking.error}
+                    />
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                      <span>
+                        {order.shipment.pieces} piece(s), {order.shipment.weight_kg} kg · booked{' '}
+                        {order.shipment.created_at ? new Date(order.shipment.created_at).toLocaleString('en-GB') : ''}
+                        {order.shipment.created_by ? ` by ${order.shipment.created_by}` : ''}
+                      </span>
+                      {order.shipment.has_label && (
+                        <a
+                          href={shipmentLabelUrl(order.id)}
+                          download
+                          className="inline-flex items-center gap-2 border border-gray-300 hover:bg-gray-100 rounded-md px-3 py-1.5 text-xs text-gray-700"
+                        >
+                          <FaFilePdf /> Shipping label
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                ) : canShip ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end text-sm">
+                    <label className="sm:col-span-2">
+                      <span className="block text-xs text-gray-500 mb-1">Carrier</span>
+                      <select
+                        value={shipForm.carrier}
+                        onChange={(e) => setShipForm((f) => ({ ...f, carrier: e.target.value as CarrierId | '' }))}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-700"
+                      >
+                        <option value="">Choose a carrier…</option>
+                        {carriers.map((c) => (
+                          <option key={c.id} value={c.id} disabled={!c.ready} title={c.reason}>
+                            {c.label}
+                            {c.ready ? '' : ' (not set up)'}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      <span className="block text-xs text-gray-500 mb-1">Weight (kg)</span>
+                      <input
+                        type="number"
+                        min={0.1}
+                        max={MAX_WEIGHT_KG}
+                        step={0.1}
+                        value={shipForm.weight}
+                        onChange={(e) => setShipForm((f) => ({ ...f, weight: e.target.value }))}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-700"
+                      />
+                    </label>
+                    <label>
+                      <span className="block text-xs text-gray-500 mb-1">Pieces</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_PIECES}
+                        value={shipForm.pieces}
+                        onChange={(e) => setShipForm((f) => ({ ...f, pieces: e.target.value }))}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-gray-700"
+                      />
+                    </label>
+                    {carriers.some((c) => !c.ready) && (
+                      <ul className="sm:col-span-4 text-xs text-gray-500 list-disc pl-5">
+                        {carriers
+                          .filter((c) => !c.ready)
+                          .map((c) => (
+                            <li key={c.id}>
+                              {c.label}: {c.reason}
+                            </li>
+                          ))}
+                      </ul>
+                    )}
+                    <div className="sm:col-span-4">
+                      <button
+                        type="button"
+                        onClick={bookShipment}
+                        disabled={creatingShipment || !shipForm.carrier || !shipForm.weight}
+                        className="bg-red-700 hover:bg-red-800 text-white px-4 py-2 rounded-md text-sm transition disabled:opacity-60"
+                      >
+                        {creatingShipment ? 'Booking…' : 'Create shipment'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 italic">
+                    Shipments can be created once the order is being processed.
+                  </p>
+                )}
+              </section>
+
+              {/* Timeline */}
+              <section aria-labelledby="status-history">
+                <h2 id="status-history" className="text-lg font-semibold flex items-center gap-2 text-gray-700 mb-3">
+                  <FaHistory /> Status History
+                </h2>
+                <OrderTimeline events={order.history} audience="admin" />
+              </section>
+
               {/* Notes (UI-only; not persisted unless you add an endpoint) */}
               <section aria-labelledby="internal-notes">
                 <h2 id="internal-notes" className="text-lg font-semibold flex items-center gap-2 text-gray-700 mb-3">
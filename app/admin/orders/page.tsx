@@ -6,53 +6,53 @@ import AdminSidebar from "../components/AdminSideBar";
 import AdminAuthGuard from "../components/AdminAuthGaurd";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
-import axios, { AxiosHeaders, InternalAxiosRequestConfig } from "axios";
-import { API_BASE_URL } from "../../utils/api";
+import {
+  api,
+  isAbortError,
+  pageCount,
+  DEFAULT_PAGE_SIZE,
+  type OrderListQuery,
+  type OrderSortKey,
+} from "../../utils/apiClient";
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TONES,
+  changeOrderStatus,
+  nextOrderStatuses,
+  orderStatusLabel,
+  parseOrderStatus,
+  requiresReason,
+  type OrderStatus,
+} from "../../utils/orderStatus";
 
 /* ========================= Types ========================= */
-type OrderStatus = "Pending" | "Processing" | "Shipped" | "Completed";
-
 type Order = {
   id: string;
   date: string; // YYYY-MM-DD
   customer: string;
   items: number;
   total: number;
-  status: OrderStatus;
+  status: OrderStatus | null; // null = value the state machine doesn't know
+  rawStatus: string;
 };
 
-/* ================= FRONTEND KEY → request helper ================= */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-
-const axiosWithKey = axios.create({
-  withCredentials: false,
-});
-
-axiosWithKey.interceptors.request.use((config: InternalAxiosRequestConfig) => {
-  // Normalize headers for Axios v1
-  if (!config.headers) {
-    config.headers = new AxiosHeaders();
-  } else if (!(config.headers instanceof AxiosHeaders)) {
-    config.headers = AxiosHeaders.from(config.headers);
-  }
-  if (FRONTEND_KEY) {
-    (config.headers as AxiosHeaders).set("X-Frontend-Key", FRONTEND_KEY);
-  }
-  // Safeguards to reduce accidental caching and preflights
-  (config.headers as AxiosHeaders).set("Accept", "application/json");
-  (config.headers as AxiosHeaders).set("Content-Type", "application/json");
-  config.transformRequest = [(data) => (data ? JSON.stringify(data) : data)];
-  return config;
-});
+type Filters = {
+  status: OrderStatus | "All";
+  date_from: string;
+  date_to: string;
+  customer: string;
+  total_min: string;
+  total_max: string;
+};
 
-/* ======================= Utilities ======================= */
-const toOrderStatus = (status: unknown): OrderStatus => {
-  const s = String(status || "").toLowerCase();
-  if (s === "pending") return "Pending";
-  if (s === "processing") return "Processing";
-  if (s === "shipped") return "Shipped";
-  if (s === "completed") return "Completed";
-  return "Pending";
+const EMPTY_FILTERS: Filters = {
+  status: "All",
+  date_from: "",
+  date_to: "",
+  customer: "",
+  total_min: "",
+  total_max: "",
 };
 
 const currency = new Intl.NumberFormat(undefined, {
@@ -61,136 +61,152 @@ const currency = new Intl.NumberFormat(undefined, {
   maximumFractionDigits: 2,
 });
 
+const toAmount = (v: string) => (v.trim() && Number.isFinite(Number(v)) ? Number(v) : undefined);
+
+// Free-text fields wait for the admin to stop typing before hitting the server
+function useDebounced<T>(value: T, delay = 350) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(t);
+  }, [value, delay]);
+  return debounced;
+}
+
 /* ========================= Page ========================= */
 export default function AdminOrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [filter, setFilter] = useState<OrderStatus | "All">("All");
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<{ key: OrderSortKey; direction: "asc" | "desc" }>({
+    key: "date",
+    direction: "desc",
+  });
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const customerQuery = useDebounced(filters.customer);
+  const totalMin = useDebounced(filters.total_min);
+  const totalMax = useDebounced(filters.total_max);
 
   const captionId = useId();
 
-  const statusFilters: Array<OrderStatus | "All"> = useMemo(
-    () => ["All", "Pending", "Processing", "Shipped", "Completed"],
-    []
-  );
+  const statusFilters: Array<OrderStatus | "All"> = useMemo(() => ["All", ...ORDER_STATUSES], []);
 
   const statusClass = useCallback((status: OrderStatus | "All") => {
     const base =
-      "px-4 py-2 text-sm rounded-full border transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2";
-    const map: Record<OrderStatus | "All", string> = {
-      All: "border-gray-300 bg-white text-gray-700 hover:bg-gray-100 focus-visible:ring-gray-400",
-      Pending:
-        "border-yellow-300 bg-yellow-50 text-yellow-700 hover:bg-yellow-100 focus-visible:ring-yellow-400",
-      Processing:
-        "border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100 focus-visible:ring-blue-400",
-      Shipped:
-        "border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 focus-visible:ring-indigo-400",
-      Completed:
-        "border-green-300 bg-green-50 text-green-700 hover:bg-green-100 focus-visible:ring-green-400",
-    };
-    return `${base} ${map[status]}`;
+      "px-4 py-2 text-sm rounded-full border border-gray-300 transition-all hover:opacity-80 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-gray-400";
+    return `${base} ${status === "All" ? "bg-white text-gray-700" : ORDER_STATUS_TONES[status]}`;
   }, []);
 
-  const tableStatusPill = useCallback((status: OrderStatus) => {
+  const tableStatusPill = useCallback((status: OrderStatus | null) => {
     const base =
       "inline-flex items-center gap-2 text-xs font-semibold px-3 py-1 rounded-full";
-    switch (status) {
-      case "Pending":
-        return `${base} bg-yellow-100 text-yellow-800`;
-      case "Processing":
-        return `${base} bg-blue-100 text-blue-800`;
-      case "Shipped":
-        return `${base} bg-indigo-100 text-indigo-800`;
-      case "Completed":
-        return `${base} bg-green-100 text-green-800`;
-      default:
-        return `${base} bg-gray-200 text-gray-700`;
-    }
+    return `${base} ${status ? ORDER_STATUS_TONES[status] : "bg-gray-200 text-gray-700"}`;
+  }, []);
+
+  const query: OrderListQuery = useMemo(
+    () => ({
+      page,
+      page_size: DEFAULT_PAGE_SIZE,
+      status: filters.status === "All" ? undefined : filters.status,
+      date_from: filters.date_from || undefined,
+      date_to: filters.date_to || undefined,
+      customer: customerQuery || undefined,
+      total_min: toAmount(totalMin),
+      total_max: toAmount(totalMax),
+      sort: sort.key,
+      direction: sort.direction,
+    }),
+    [page, filters.status, filters.date_from, filters.date_to, customerQuery, totalMin, totalMax, sort]
+  );
+
+  // Any filter or sort change starts again from the first page
+  const updateFilter = useCallback(<K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  }, []);
+
+  const toggleSort = useCallback((key: OrderSortKey) => {
+    setSort((prev) =>
+      prev.key === key ? { key, direction: prev.direction === "asc" ? "desc" : "asc" } : { key, direction: "desc" }
+    );
+    setPage(1);
   }, []);
 
+  const sortIndicator = (key: OrderSortKey) =>
+    sort.key === key ? (sort.direction === "asc" ? " ▲" : " ▼") : "";
+
+  const ariaSort = (key: OrderSortKey) =>
+    sort.key === key ? (sort.direction === "asc" ? "ascending" : "descending") : "none";
+
   /* ===================== Data Loading ===================== */
   useEffect(() => {
     const ac = new AbortController();
     (async () => {
       setLoading(true);
       try {
-        const res = await axiosWithKey.get(`${API_BASE_URL}/api/show-order/`, {
-          signal: ac.signal as any, // axios supports AbortController
-          params: { _: Date.now() }, // cache buster
-        });
-        const apiOrders = res?.data?.orders ?? [];
-        const mapped: Order[] = apiOrders.map((o: any) => ({
+        const result = await api.listOrders(query, { signal: ac.signal });
+        const mapped: Order[] = result.results.map((o: any) => ({
           id: String(o.orderID ?? o.id ?? ""),
           date: String(o.Date ?? o.date ?? "").split(" ")[0] || "",
           customer: String(o.UserName ?? o.customer ?? "Unknown"),
           items: Number(o.item?.count ?? o.items ?? 0) || 0,
           total: Number(o.total ?? o.total_price ?? 0) || 0,
-          status: toOrderStatus(o.status),
+          status: parseOrderStatus(o.status),
+          rawStatus: String(o.status ?? ""),
         }));
         setOrders(mapped);
+        setTotal(result.count);
       } catch (err: any) {
-        if (err?.name !== "CanceledError") {
+        if (!isAbortError(err)) {
           toast.error("❌ Failed to load orders");
         }
       } finally {
-        setLoading(false);
+        if (!ac.signal.aborted) setLoading(false);
       }
     })();
     return () => ac.abort();
-  }, []);
+  }, [query, reloadKey]);
+
+  const pages = pageCount({ count: total, page_size: DEFAULT_PAGE_SIZE });
+  const firstShown = total ? (page - 1) * DEFAULT_PAGE_SIZE + 1 : 0;
+  const lastShown = Math.min(total, page * DEFAULT_PAGE_SIZE);
 
   /* ===================== Actions/Mutations ===================== */
   const handleStatusChange = useCallback(
     async (orderId: string, newStatus: OrderStatus) => {
       const order = orders.find((o) => o.id === orderId);
       if (!order) return;
+      const label = ORDER_STATUS_LABELS[newStatus];
 
-      try {
-        await axiosWithKey.put(`${API_BASE_URL}/api/edit-order/`, {
-          order_id: orderId,
-          user_name: order.customer,
-          total_price: order.total,
-          status: newStatus.toLowerCase(),
-        });
+      let reason = "";
+      if (requiresReason(newStatus)) {
+        reason = window.prompt(`Reason for marking order ${orderId} ${label}:`)?.trim() || "";
+        if (!reason) return;
+      }
 
+      try {
+        await changeOrderStatus({ order_id: orderId, from: order.status, to: newStatus, reason });
         setOrders((prev) =>
-          prev.map((o) => (o.id === orderId ? { ...o, status: newStatus } : o))
+          prev.map((o) => (o.id === orderId ? { ...o, status: newStatus, rawStatus: newStatus } : o))
         );
-        toast.success(`✅ Order status updated to ${newStatus}`);
-      } catch {
-        toast.error("❌ Failed to update status");
+        toast.success(`✅ Order status updated to ${label}`);
+      } catch (err: any) {
+        toast.error(`❌ ${err?.message || "Failed to update status"}`);
       }
     },
     [orders]
   );
 
-  // Keep the incoming structure tolerant; normalize into our Order shape then prepend.
-  const handleSaveOrder = useCallback(
-    (order: any) => {
-      const customer = String(order.customer ?? order.user_name ?? "Unknown");
-      const items = Number(
-        typeof order.items === "number" ? order.items : order.items_count ?? 0
-      );
-      const totalNum = Number(order.total ?? order.total_price ?? 0) || 0;
-      const status = toOrderStatus(order.status ?? "Pending");
-      const newId = `ORD${String(orders.length + 1).padStart(3, "0")}`;
-      const today = new Date().toISOString().split("T")[0];
-
-      const newEntry: Order = {
-        id: newId,
-        date: today,
-        customer,
-        items,
-        total: totalNum,
-        status,
-      };
-      setOrders((prev) => [newEntry, ...prev]);
-      toast.success("✅ Order added successfully");
-      setIsModalOpen(false);
-    },
-    [orders.length]
-  );
+  // The server assigns the id and decides where the order sorts, so just reload the page
+  const handleSaveOrder = useCallback(() => {
+    toast.success("✅ Order added successfully");
+    setIsModalOpen(false);
+    setReloadKey((k) => k + 1);
+  }, []);
 
   /* ========================= Render ========================= */
   return (
@@ -228,25 +244,92 @@ export default function AdminOrdersPage() {
             </header>
 
             {/* Filters */}
-            <section className="flex flex-col sm:flex-row gap-2 sm:items-center mb-6 sm:mb-8">
+            <section className="flex flex-col gap-4 mb-6 sm:mb-8">
               <div className="flex flex-wrap items-center gap-2">
                 {statusFilters.map((status) => {
-                  const isActive = filter === status;
+                  const isActive = filters.status === status;
                   return (
                     <button
                       key={status}
                       type="button"
-                      onClick={() => setFilter(status)}
+                      onClick={() => updateFilter("status", status)}
                       className={`${statusClass(status)} ${
                         isActive ? "ring-2 ring-offset-1 ring-[#891F1A]" : ""
                       }`}
                       aria-pressed={isActive}
                     >
-                      {status}
+                      {status === "All" ? "All" : ORDER_STATUS_LABELS[status]}
                     </button>
                   );
                 })}
               </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 text-sm">
+                <label className="col-span-2 flex flex-col gap-1">
+                  <span className="text-gray-600">Customer</span>
+                  <input
+                    type="search"
+                    value={filters.customer}
+                    onChange={(e) => updateFilter("customer", e.target.value)}
+                    placeholder="Name or email"
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">From</span>
+                  <input
+                    type="date"
+                    value={filters.date_from}
+                    max={filters.date_to || undefined}
+                    onChange={(e) => updateFilter("date_from", e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">To</span>
+                  <input
+                    type="date"
+                    value={filters.date_to}
+                    min={filters.date_from || undefined}
+                    onChange={(e) => updateFilter("date_to", e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">Min total</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={filters.total_min}
+                    onChange={(e) => updateFilter("total_min", e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-600">Max total</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={filters.total_max}
+                    onChange={(e) => updateFilter("total_max", e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 bg-white"
+                  />
+                </label>
+              </div>
+              {JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS) && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFilters(EMPTY_FILTERS);
+                    setPage(1);
+                  }}
+                  className="self-start text-sm text-[#891F1A] hover:underline"
+                >
+                  Clear filters
+                </button>
+              )}
             </section>
 
             {/* Table */}
@@ -258,11 +341,21 @@ export default function AdminOrdersPage() {
                 <thead className="text-white bg-[#891F1A] sticky top-0 z-10">
                   <tr>
                     <th className="p-3 text-left">Order ID</th>
-                    <th className="p-3 text-left">Date</th>
-                    <th className="p-3 text-left">Customer</th>
+                    <th className="p-3 text-left" aria-sort={ariaSort("date")}>
+                      <button type="button" onClick={() => toggleSort("date")}>Date{sortIndicator("date")}</button>
+                    </th>
+                    <th className="p-3 text-left" aria-sort={ariaSort("customer")}>
+                      <button type="button" onClick={() => toggleSort("customer")}>
+                        Customer{sortIndicator("customer")}
+                      </button>
+                    </th>
                     <th className="p-3 text-center">Items</th>
-                    <th className="p-3 text-right">Total</th>
-                    <th className="p-3 text-center">Status</th>
+                    <th className="p-3 text-right" aria-sort={ariaSort("total")}>
+                      <button type="button" onClick={() => toggleSort("total")}>Total{sortIndicator("total")}</button>
+                    </th>
+                    <th className="p-3 text-center" aria-sort={ariaSort("status")}>
+                      <button type="button" onClick={() => toggleSort("status")}>Status{sortIndicator("status")}</button>
+                    </th>
                     <th className="p-3 text-center">Action</th>
                   </tr>
                 </thead>
@@ -277,51 +370,51 @@ export default function AdminOrdersPage() {
                   )}
 
                   {!loading &&
-                    orders
-                      .filter((o) => filter === "All" || o.status === filter)
-                      .map((order) => (
-                        <tr key={order.id} className="hover:bg-gray-50 transition">
-                          <th scope="row" className="p-4 font-semibold text-[#891F1A]">
-                            {order.id}
-                          </th>
-                          <td className="p-4 text-gray-600">{order.date || "—"}</td>
-                          <td className="p-4">{order.customer}</td>
-                          <td className="p-4 text-center">{order.items}</td>
-                          <td className="p-4 text-right font-bold text-green-700">
-                            {currency.format(order.total)}
-                          </td>
-                          <td className="p-4 text-center">
-                            <label className="sr-only" htmlFor={`status-${order.id}`}>
-                              Change status for order {order.id}
-                            </label>
-                            <select
-                              id={`status-${order.id}`}
-                              value={order.status}
-                              onChange={(e) =>
-                                handleStatusChange(order.id, e.target.value as OrderStatus)
-                              }
-                              className={`${tableStatusPill(order.status)} bg-white cursor-pointer`}
-                            >
-                              {(["Pending", "Processing", "Shipped", "Completed"] as OrderStatus[]).map(
-                                (s) => (
-                                  <option key={s} value={s}>
-                                    {s}
-                                  </option>
-                                )
-                              )}
-                            </select>
-                          </td>
-                          <td className="p-4 text-center">
-                            <Link
-                              href={`/admin/orders/${order.id}`}
-                              className="bg-[#891F1A] hover:bg-[#6d1915] text-white text-xs px-4 py-2 rounded-full transition duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#891F1A]"
-                              aria-label={`View order ${order.id}`}
-                            >
-                              View
-                            </Link>
-                          </td>
-                        </tr>
-                      ))}
+                    orders.map((order) => (
+                      <tr key={order.id} className="hover:bg-gray-50 transition">
+                        <th scope="row" className="p-4 font-semibold text-[#891F1A]">
+                          {order.id}
+                        </th>
+                        <td className="p-4 text-gray-600">{order.date || "—"}</td>
+                        <td className="p-4">{order.customer}</td>
+                        <td className="p-4 text-center">{order.items}</td>
+                        <td className="p-4 text-right font-bold text-green-700">
+                          {currency.format(order.total)}
+                        </td>
+                        <td className="p-4 text-center">
+                          <label className="sr-only" htmlFor={`status-${order.id}`}>
+                            Change status for order {order.id}
+                          </label>
+                          {/* Only moves the state machine allows are offered */}
+                          <select
+                            id={`status-${order.id}`}
+                            value={order.status ?? ""}
+                            onChange={(e) =>
+                              handleStatusChange(order.id, e.target.value as OrderStatus)
+                            }
+                            className={`${tableStatusPill(order.status)} bg-white cursor-pointer`}
+                          >
+                            <option value={order.status ?? ""} disabled>
+                              {orderStatusLabel(order.rawStatus)}
+                            </option>
+                            {nextOrderStatuses(order.status).map((s) => (
+                              <option key={s} value={s}>
+                                → {ORDER_STATUS_LABELS[s]}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="p-4 text-center">
+                          <Link
+                            href={`/admin/orders/${order.id}`}
+                            className="bg-[#891F1A] hover:bg-[#6d1915] text-white text-xs px-4 py-2 rounded-full transition duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#891F1A]"
+                            aria-label={`View order ${order.id}`}
+                          >
+                            View
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
 
                   {!loading && orders.length === 0 && (
                     <tr>
@@ -333,6 +426,37 @@ export default function AdminOrdersPage() {
                 </tbody>
               </table>
             </section>
+
+            {/* Pagination */}
+            <nav
+              className="mt-4 flex flex-col sm:flex-row items-center justify-between gap-3 text-sm text-gray-600"
+              aria-label="Orders pages"
+            >
+              <span aria-live="polite">
+                {total ? `Showing ${firstShown}–${lastShown} of ${total}` : loading ? "" : "No matching orders"}
+              </span>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page <= 1 || loading}
+                  className="px-3 py-1.5 rounded border border-gray-300 bg-white disabled:opacity-50"
+                >
+                  ← Previous
+                </button>
+                <span>
+                  Page {page} of {pages}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => Math.min(pages, p + 1))}
+                  disabled={page >= pages || loading}
+                  className="px-3 py-1.5 rounded border border-gray-300 bg-white disabled:opacity-50"
+                >
+                  Next →
+                </button>
+              </div>
+            </nav>
           </div>
         </main>
       </div>
@@ -12,6 +12,7 @@ import AdminSidebar from "../components/AdminSideBar";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import Modal from "../components/ProductModal";
+import CatalogImportModal from "../components/CatalogImportModal";
 import { Checkbox } from "@mui/material";
 import {
   DragDropContext,
@@ -20,15 +21,10 @@ import {
   DropResult,
 } from "@hello-pangea/dnd";
 import { API_BASE_URL } from "../../utils/api";
+import { apiFetch, FRONTEND_KEY } from "../../utils/apiClient";
+import { catalogExportUrl } from "../../utils/catalog";
+import { refreshStorefront } from "../../utils/storefront";
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-
-/** Attach the frontend key only when present. Never send an empty header. */
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
 
 /** Safer JSON parse + error bubbling for non-2xx results. */
 const parseJsonStrict = async (res: Response, label: string) => {
@@ -47,37 +43,6 @@ const parseJsonStrict = async (res: Response, label: string) => {
   return json;
 };
 
-function addLowStockNotification(
-  productName: string,
-  productId: string,
-  quantity: number
-) {
-  if (typeof window === "undefined") return;
-  try {
-    const existing = JSON.parse(localStorage.getItem("notifications") || "[]");
-    const alreadyExists = existing.some(
-      (n: any) => n.type === "low_stock" && n.product_id === productId
-    );
-    if (alreadyExists) return;
-
-    const newNotification = {
-      id: crypto.randomUUID(),
-      type: "low_stock",
-      order_id: productId,
-      user: "System",
-      status: "Low Stock",
-      message: `⚠️ Product "${productName}" (ID: ${productId}) is low on stock (${quantity} left)`,
-      created_at: new Date().toISOString(),
-      product_id: productId,
-    };
-
-    localStorage.setItem(
-      "notifications",
-      JSON.stringify([newNotification, ...existing])
-    );
-  } catch {}
-}
-
 const printingMethodShortForms: Record<string, string> = {
   "Screen Printing": "SP",
   "Digital Printing": "DP",
@@ -147,6 +112,7 @@ export default function AdminProductManager() {
   const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
   const [isMounted, setIsMounted] = useState(false);
   const [isUnlinking, setIsUnlinking] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Change Existing Product modal
   const [isChangeExistingOpen, setIsChangeExistingOpen] = useState(false);
@@ -171,17 +137,17 @@ export default function AdminProductManager() {
     const controller = new AbortController();
     try {
       const [catRes, subRes, prodRes] = await Promise.all([
-        fetch(
+        apiFetch(
           `${API_BASE_URL}/api/show-categories/`,
-          withFrontendKey({ signal: controller.signal })
+          { signal: controller.signal }
         ),
-        fetch(
+        apiFetch(
           `${API_BASE_URL}/api/show-subcategories/`,
-          withFrontendKey({ signal: controller.signal })
+          { signal: controller.signal }
         ),
-        fetch(
+        apiFetch(
           `${API_BASE_URL}/api/show-product/`,
-          withFrontendKey({ signal: controller.signal })
+          { signal: controller.signal }
         ),
       ]);
 
@@ -251,10 +217,6 @@ export default function AdminProductManager() {
 
       // Master, deduped list
       const allProdsMaster = uniqueById(arrProds);
-      for (const p of allProdsMaster) {
-        const qty = Number(p.quantity ?? 0);
-        if (qty > 0 && qty <= 5) addLowStockNotification(p.name, p.id, qty);
-      }
 
       setRawData(finalData);
       setCategories(finalData.map((c) => c.name));
@@ -361,13 +323,13 @@ export default function AdminProductManager() {
           preserve_mappings: true,
         };
 
-        return fetch(
+        return apiFetch(
           `${API_BASE_URL}/api/edit-product/`,
-          withFrontendKey({
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(payload),
-          })
+          {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
         ).then((res) => parseJsonStrict(res, "edit-product"));
       });
 
@@ -402,16 +364,17 @@ export default function AdminProductManager() {
 
     setIsDeleting(true);
     try {
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/delete-product/`,
-        withFrontendKey({
-          method: "DELETE",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ ids: selectedProductIds, confirm: true }),
-        })
+        {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: selectedProductIds, confirm: true }),
+      }
       );
       await parseJsonStrict(res, "delete-product");
       toast.success("🗑️ Selected products deleted");
+      refreshStorefront("catalog");
       setSelectedProductIds([]);
       await reloadAllData();
     } catch (err: any) {
@@ -444,13 +407,13 @@ export default function AdminProductManager() {
           subcategory_ids: [String(selectedSubcategoryId)],
         };
 
-        return fetch(
+        return apiFetch(
           `${API_BASE_URL}/api/unlink-product-subcategory/`,
-          withFrontendKey({
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(payload),
-          })
+          {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
         ).then((res) => parseJsonStrict(res, "unlink-product-subcategory"));
       });
 
@@ -557,15 +520,15 @@ export default function AdminProductManager() {
       });
 
       try {
-        const response = await fetch(
+        const response = await apiFetch(
           `${API_BASE_URL}/api/update-product-order/`,
-          withFrontendKey({
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              products: reordered.map((p) => ({ id: String(p.id) })),
-            }),
-          })
+          {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            products: reordered.map((p) => ({ id: String(p.id) })),
+          }),
+        }
         );
         await parseJsonStrict(response, "update-product-order");
         toast.success("✅ Product order saved");
@@ -630,14 +593,10 @@ export default function AdminProductManager() {
           replace: false, // add-only
         };
 
-        const res = await fetch(
-          `${API_BASE_URL}/api/link-product-subcategory/`, // trailing slash
-          withFrontendKey({
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(payload),
-          })
-        );
+        const res = await apiFetch("link-product-subcategory", {
+          method: "POST",
+          body: JSON.stringify(payload),
+        });
         const data = await parseJsonStrict(res, "link-product-subcategory");
 
         if (
@@ -719,6 +678,28 @@ export default function AdminProductManager() {
                   + Add Product
                 </button>
 
+                <button
+                  type="button"
+                  className="whitespace-nowrap bg-white border border-[#891F1A] text-[#891F1A] hover:bg-[#891F1A] hover:text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                  onClick={() => setIsImportOpen(true)}
+                >
+                  Import
+                </button>
+
+                <select
+                  aria-label="Export catalog"
+                  className="border border-gray-300 px-3 py-2 rounded-md text-sm bg-white text-black focus:border-[#891F1A] focus:ring-1 focus:ring-[#891F1A]"
+                  value=""
+                  onChange={(e) => {
+                    const format = e.target.value as "csv" | "xlsx";
+                    if (format) window.location.assign(catalogExportUrl(format));
+                  }}
+                >
+                  <option value="">Export…</option>
+                  <option value="csv">Export CSV</option>
+                  <option value="xlsx">Export Excel (.xlsx)</option>
+                </select>
+
                 {selectedSubCategory !== "__all__" && (
                   <button
                     type="button"
@@ -1016,6 +997,10 @@ export default function AdminProductManager() {
             productId={editingProductId || undefined}
           />
 
+          {isImportOpen && (
+            <CatalogImportModal onClose={() => setIsImportOpen(false)} onImported={reloadAllData} />
+          )}
+
           {/* Change Existing Product modal */}
           {isChangeExistingOpen && (
             <div
@@ -0,0 +1,524 @@
+"use client";
+
+import { useCallback, useEffect, useId, useMemo, useState } from "react";
+import AdminSidebar from "../components/AdminSideBar";
+import AdminAuthGuard from "../components/AdminAuthGaurd";
+import Modal from "../components/Modal";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import { API_BASE_URL } from "../../utils/api";
+import { apiFetch } from "../../utils/apiClient";
+import {
+  normalizePromotion,
+  normalizePromoCode,
+  PROMOTION_TYPE_LABELS,
+  type Promotion,
+  type PromotionType,
+} from "../../utils/promotions";
+
+/* ========================= Types ========================= */
+type Option = { id: string; label: string };
+
+const emptyPromotion: Promotion = {
+  code: "",
+  type: "percentage",
+  value: 10,
+  starts_at: "",
+  expires_at: "",
+  usage_limit: 0,
+  used_count: 0,
+  min_order_value: 0,
+  product_ids: [],
+  category_ids: [],
+  is_active: true,
+};
+
+/* ======================= Utilities ======================= */
+const promotionState = (p: Promotion): { label: string; cls: string } => {
+  const now = Date.now();
+  if (!p.is_active) return { label: "Disabled", cls: "bg-gray-200 text-gray-700" };
+  if (p.expires_at && Date.parse(p.expires_at) + 86_400_000 <= now)
+    return { label: "Expired", cls: "bg-red-100 text-red-700" };
+  if (p.usage_limit && (p.used_count || 0) >= p.usage_limit)
+    return { label: "Used up", cls: "bg-yellow-100 text-yellow-800" };
+  if (p.starts_at && Date.parse(p.starts_at) > now)
+    return { label: "Scheduled", cls: "bg-blue-100 text-blue-800" };
+  return { label: "Active", cls: "bg-green-100 text-green-800" };
+};
+
+const describeValue = (p: Promotion) =>
+  p.type === "percentage"
+    ? `${p.value}% off`
+    : p.type === "fixed"
+    ? `AED ${p.value.toFixed(2)} off`
+    : "Free shipping";
+
+const selectedValues = (e: React.ChangeEvent<HTMLSelectElement>) =>
+  Array.from(e.target.selectedOptions).map((o) => o.value);
+
+/* ========================= Page ========================= */
+export default function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [products, setProducts] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+
+  const captionId = useId();
+
+  /* ===================== Data Loading ===================== */
+  const loadPromotions = useCallback(async (signal?: AbortSignal) => {
+    setLoading(true);
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/api/show-promotions/?_=${Date.now()}`,
+        { signal }
+      );
+      if (!res.ok) throw new Error(`show-promotions ${res.status}`);
+      const data = await res.json();
+      const list: any[] = Array.isArray(data) ? data : data?.promotions || [];
+      setPromotions(list.map(normalizePromotion));
+    } catch (err: any) {
+      if (err?.name !== "AbortError") toast.error("❌ Failed to load promotions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const ac = new AbortController();
+    loadPromotions(ac.signal);
+
+    // scoping options (best-effort)
+    (async () => {
+      try {
+        const [prodRes, catRes, subRes] = await Promise.all([
+          apiFetch(`${API_BASE_URL}/api/show-product/`, { signal: ac.signal }),
+          apiFetch(`${API_BASE_URL}/api/show-categories/`, { signal: ac.signal }),
+          apiFetch(`${API_BASE_URL}/api/show-subcategories/`, { signal: ac.signal }),
+        ]);
+        const [prods, cats, subs] = await Promise.all([
+          prodRes.ok ? prodRes.json() : [],
+          catRes.ok ? catRes.json() : [],
+          subRes.ok ? subRes.json() : [],
+        ]);
+        setProducts(
+          (Array.isArray(prods) ? prods : []).map((p: any) => ({
+            id: String(p.id),
+            label: String(p.name ?? p.title ?? p.id),
+          }))
+        );
+        setCategories([
+          ...(Array.isArray(cats) ? cats : []).map((c: any) => ({
+            id: String(c.id),
+            label: String(c.name),
+          })),
+          ...(Array.isArray(subs) ? subs : []).map((s: any) => ({
+            id: String(s.id),
+            label: `↳ ${s.name}`,
+          })),
+        ]);
+      } catch {
+        // scoping lists are optional
+      }
+    })();
+
+    return () => ac.abort();
+  }, [loadPromotions]);
+
+  const labelFor = useMemo(() => {
+    const map: Record<string, string> = {};
+    [...products, ...categories].forEach((o) => (map[o.id] = o.label.replace(/^↳ /, "")));
+    return map;
+  }, [products, categories]);
+
+  /* ===================== Actions/Mutations ===================== */
+  const updateField = <K extends keyof Promotion>(key: K, value: Promotion[K]) =>
+    setEditing((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const handleSave = useCallback(async () => {
+    if (!editing) return;
+    const code = normalizePromoCode(editing.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      toast.error("Code must be 3–32 letters, digits, - or _");
+      return;
+    }
+    if (editing.type === "percentage" && (editing.value <= 0 || editing.value > 100)) {
+      toast.error("Percentage must be between 1 and 100");
+      return;
+    }
+    if (editing.type === "fixed" && editing.value <= 0) {
+      toast.error("Amount must be greater than 0");
+      return;
+    }
+    if (editing.starts_at && editing.expires_at && editing.expires_at < editing.starts_at) {
+      toast.error("Expiry date must be after the start date");
+      return;
+    }
+    const duplicate = promotions.some(
+      (p) => p.code === code && p.promotion_id !== editing.promotion_id
+    );
+    if (duplicate) {
+      toast.error(`Code ${code} already exists`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const isEdit = !!editing.promotion_id;
+      const res = await apiFetch(
+        `${API_BASE_URL}/api/${isEdit ? "edit-promotion" : "save-promotion"}/`,
+        {
+        method: isEdit ? "PUT" : "POST",
+        body: JSON.stringify({ ...editing, code }),
+      }
+      );
+      if (!res.ok) throw new Error(await res.text());
+      toast.success(isEdit ? "✅ Promotion updated" : "✅ Promotion created");
+      setEditing(null);
+      loadPromotions();
+    } catch {
+      toast.error("❌ Failed to save promotion");
+    } finally {
+      setSaving(false);
+    }
+  }, [editing, promotions, loadPromotions]);
+
+  const handleToggle = useCallback(async (promo: Promotion) => {
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/api/edit-promotion/`,
+        {
+        method: "PUT",
+        body: JSON.stringify({ ...promo, is_active: !promo.is_active }),
+      }
+      );
+      if (!res.ok) throw new Error();
+      setPromotions((prev) =>
+        prev.map((p) =>
+          p.promotion_id === promo.promotion_id ? { ...p, is_active: !promo.is_active } : p
+        )
+      );
+    } catch {
+      toast.error("❌ Failed to update promotion");
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (promo: Promotion) => {
+    if (!window.confirm(`Delete promotion ${promo.code}?`)) return;
+    try {
+      const res = await apiFetch(
+        `${API_BASE_URL}/api/delete-promotion/`,
+        {
+        method: "POST",
+        body: JSON.stringify({ promotion_id: promo.promotion_id }),
+      }
+      );
+      if (!res.ok) throw new Error();
+      setPromotions((prev) => prev.filter((p) => p.promotion_id !== promo.promotion_id));
+      toast.success("🗑️ Promotion deleted");
+    } catch {
+      toast.error("❌ Failed to delete promotion");
+    }
+  }, []);
+
+  /* ========================= Render ========================= */
+  return (
+    <AdminAuthGuard>
+      <div
+        className="flex bg-gray-50 text-black"
+        style={{ fontFamily: "var(--font-poppins), Arial, Helvetica, sans-serif" }}
+      >
+        <aside className="w-64 hidden lg:block border-r border-gray-200 bg-white">
+          <AdminSidebar />
+        </aside>
+
+        <main className="flex-1 px-4 sm:px-6 lg:px-8 xl:px-12 py-6 sm:py-8 lg:py-10 min-h-screen">
+          <div className="max-w-7xl mx-auto">
+            {/* Header */}
+            <header className="mb-6 sm:mb-8 bg-gradient-to-r from-white via-[#f8f9fa] to-gray-100 p-4 sm:p-6 rounded-2xl shadow-sm border border-gray-200 flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-800">🏷️ Promotions</h1>
+                <p className="text-gray-500 mt-1 text-sm">
+                  Create discount codes for checkout: percentage, fixed amount or free shipping.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setEditing({ ...emptyPromotion })}
+                className="bg-[#891F1A] text-white px-4 py-2 rounded text-sm hover:bg-[#6d1915] focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[#891F1A]"
+              >
+                + New Code
+              </button>
+            </header>
+
+            {/* Table */}
+            <section className="overflow-auto rounded-2xl shadow-lg border border-gray-200 max-h-[600px] thin-scrollbar">
+              <table className="w-full table-auto text-sm bg-white" aria-describedby={captionId}>
+                <caption id={captionId} className="sr-only">
+                  Discount codes with their rules and usage
+                </caption>
+                <thead className="text-white bg-[#891F1A] sticky top-0 z-10">
+                  <tr>
+                    <th className="p-3 text-left">Code</th>
+                    <th className="p-3 text-left">Discount</th>
+                    <th className="p-3 text-left">Valid</th>
+                    <th className="p-3 text-center">Usage</th>
+                    <th className="p-3 text-right">Min. Order</th>
+                    <th className="p-3 text-left">Scope</th>
+                    <th className="p-3 text-center">Status</th>
+                    <th className="p-3 text-center">Action</th>
+                  </tr>
+                </thead>
+
+                <tbody className="text-gray-700 divide-y divide-gray-100">
+                  {loading && (
+                    <tr>
+                      <td colSpan={8} className="py-10 text-center text-gray-400">
+                        <div className="animate-pulse text-sm">Loading promotions…</div>
+                      </td>
+                    </tr>
+                  )}
+
+                  {!loading &&
+                    promotions.map((p) => {
+                      const state = promotionState(p);
+                      const scope = [...(p.category_ids || []), ...(p.product_ids || [])];
+                      return (
+                        <tr key={p.promotion_id || p.code} className="hover:bg-gray-50 transition">
+                          <th scope="row" className="p-4 font-mono font-semibold text-[#891F1A]">
+                            {p.code}
+                          </th>
+                          <td className="p-4">{describeValue(p)}</td>
+                          <td className="p-4 text-gray-600 whitespace-nowrap">
+                            {p.starts_at || "—"} → {p.expires_at || "no expiry"}
+                          </td>
+                          <td className="p-4 text-center">
+                            {p.used_count || 0} / {p.usage_limit || "∞"}
+                          </td>
+                          <td className="p-4 text-right">
+                            {p.min_order_value ? `AED ${p.min_order_value.toFixed(2)}` : "—"}
+                          </td>
+                          <td className="p-4 text-gray-600 max-w-[220px] truncate" title={scope.map((id) => labelFor[id] || id).join(", ")}>
+                            {scope.length ? scope.map((id) => labelFor[id] || id).join(", ") : "All products"}
+                          </td>
+                          <td className="p-4 text-center">
+                            <span className={`inline-flex text-xs font-semibold px-3 py-1 rounded-full ${state.cls}`}>
+                              {state.label}
+                            </span>
+                          </td>
+                          <td className="p-4 text-center whitespace-nowrap space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditing({ ...p })}
+                              className="bg-[#891F1A] hover:bg-[#6d1915] text-white text-xs px-3 py-1.5 rounded-full"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleToggle(p)}
+                              className="border border-gray-300 text-xs px-3 py-1.5 rounded-full hover:bg-gray-100"
+                            >
+                              {p.is_active ? "Disable" : "Enable"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(p)}
+                              className="text-red-600 text-xs hover:underline"
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+
+                  {!loading && promotions.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="py-10 text-center text-gray-400">
+                        No promotions yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        </main>
+      </div>
+
+      <Modal isOpen={!!editing} onClose={() => setEditing(null)}>
+        {editing && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+            className="space-y-4 text-black"
+          >
+            <h2 className="text-2xl font-bold text-[#891F1A]">
+              {editing.promotion_id ? `Edit ${editing.code}` : "New Promotion"}
+            </h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm">
+                <span className="font-medium">Code</span>
+                <input
+                  type="text"
+                  value={editing.code}
+                  onChange={(e) => updateField("code", e.target.value.toUpperCase())}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md font-mono"
+                  placeholder="SUMMER10"
+                  required
+                />
+              </label>
+
+              <label className="block text-sm">
+                <span className="font-medium">Type</span>
+                <select
+                  value={editing.type}
+                  onChange={(e) => updateField("type", e.target.value as PromotionType)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                >
+                  {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map((t) => (
+                    <option key={t} value={t}>
+                      {PROMOTION_TYPE_LABELS[t]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {editing.type !== "free_shipping" && (
+                <label className="block text-sm">
+                  <span className="font-medium">
+                    {editing.type === "percentage" ? "Percent off" : "Amount off (AED)"}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={editing.value}
+                    onChange={(e) => updateField("value", parseFloat(e.target.value) || 0)}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                  />
+                </label>
+              )}
+
+              <label className="block text-sm">
+                <span className="font-medium">Minimum order value (AED)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={editing.min_order_value}
+                  onChange={(e) => updateField("min_order_value", parseFloat(e.target.value) || 0)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                />
+              </label>
+
+              <label className="block text-sm">
+                <span className="font-medium">Starts on</span>
+                <input
+                  type="date"
+                  value={editing.starts_at}
+                  onChange={(e) => updateField("starts_at", e.target.value)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                />
+              </label>
+
+              <label className="block text-sm">
+                <span className="font-medium">Expires on</span>
+                <input
+                  type="date"
+                  value={editing.expires_at}
+                  onChange={(e) => updateField("expires_at", e.target.value)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                />
+              </label>
+
+              <label className="block text-sm">
+                <span className="font-medium">Usage limit (0 = unlimited)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={editing.usage_limit}
+                  onChange={(e) => updateField("usage_limit", parseInt(e.target.value, 10) || 0)}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+                />
+              </label>
+
+              <label className="flex items-center gap-3 text-sm mt-6">
+                <input
+                  type="checkbox"
+                  checked={!!editing.is_active}
+                  onChange={(e) => updateField("is_active", e.target.checked)}
+                  className="w-5 h-5"
+                />
+                <span className="font-medium">Active</span>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm">
+                <span className="font-medium">Limit to categories</span>
+                <select
+                  multiple
+                  value={editing.category_ids}
+                  onChange={(e) => updateField("category_ids", selectedValues(e))}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md h-40"
+                >
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block text-sm">
+                <span className="font-medium">Limit to products</span>
+                <select
+                  multiple
+                  value={editing.product_ids}
+                  onChange={(e) => updateField("product_ids", selectedValues(e))}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md h-40"
+                >
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Leave both lists empty to apply the code to the whole cart. Hold Ctrl/⌘ to select several.
+            </p>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-[#891F1A] text-white px-4 py-2 rounded text-sm hover:bg-[#6d1915] disabled:opacity-60"
+              >
+                {saving ? "Saving…" : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <ToastContainer />
+    </AdminAuthGuard>
+  );
+}
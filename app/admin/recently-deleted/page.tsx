@@ -4,32 +4,10 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import AdminAuthGuard from '../components/AdminAuthGaurd';
 import AdminSidebar from '../components/AdminSideBar';
-import { API_BASE_URL } from '../../utils/api';
+import { apiFetch } from '../../utils/apiClient';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 
-// --- INLINE FRONTEND FIXES (no new files) ---
-const BASE_URL = (API_BASE_URL || '').replace(/\/+$/, '');
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-
-async function apiFetch(path: string, init: RequestInit = {}) {
-  const url = `${BASE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
-
-  const headers = new Headers(init.headers || {});
-  headers.set('Content-Type', 'application/json');
-
-  // Send your custom gate key
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-
-  return fetch(url, {
-    ...init,
-    headers,
-    credentials: 'include', // if you use cookies/session
-    cache: 'no-store',
-  });
-}
-// --- END FIXES ---
-
 type BlockedBy = { model: string; id: string; reason: string };
 type WillRestoreWith = { model: string; by: string; parent_field: string };
 
@@ -4,14 +4,7 @@ import { useState, useEffect } from 'react';
 import AdminAuthGuard from '../components/AdminAuthGaurd';
 import AdminSidebar from '../components/AdminSideBar';
 import { API_BASE_URL } from '../../utils/api';
-
-// Frontend key helper
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set('X-Frontend-Key', FRONTEND_KEY);
-  return { ...init, headers };
-};
+import { apiFetch } from '../../utils/apiClient';
 
 // Types
 type Category = { id: string; name: string; slug?: string; status?: string };
@@ -79,8 +72,8 @@ export default function SecondCarouselPage() {
     const controller = new AbortController();
 
     Promise.all([
-      fetch(`${API_BASE_URL}/api/show-categories/`, withFrontendKey({ signal: controller.signal })),
-      fetch(`${API_BASE_URL}/api/show-subcategories/`, withFrontendKey({ signal: controller.signal })),
+      apiFetch(`${API_BASE_URL}/api/show-categories/`, { signal: controller.signal }),
+      apiFetch(`${API_BASE_URL}/api/show-subcategories/`, { signal: controller.signal }),
     ])
       .then(async ([catsRes, subsRes]) => {
         const [arrCats, arrSubs] = await Promise.all([catsRes.json(), subsRes.json()]);
@@ -115,7 +108,7 @@ export default function SecondCarouselPage() {
 
   // Fetch existing carousel + normalize into rows
   useEffect(() => {
-    fetch(`${API_BASE_URL}/api/second-carousel/`, withFrontendKey())
+    apiFetch(`${API_BASE_URL}/api/second-carousel/`)
       .then(res => res.json())
       .then(data => {
         if (data?.title) setTitle(data.title);
@@ -297,13 +290,13 @@ export default function SecondCarouselPage() {
 
       const validImages = uploadedImageData.filter(Boolean);
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${API_BASE_URL}/api/second-carousel/`,
-        withFrontendKey({
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title, description, images: validImages }),
-        })
+        {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, description, images: validImages }),
+      }
       );
 
       const result = await response.json();
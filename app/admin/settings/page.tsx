@@ -6,6 +6,9 @@ import AdminAuthGuard from "../components/AdminAuthGaurd";
 import GeneralSettings from "../components/GeneralSettings";
 import PaymentSettings from "../components/PaymentSettings";
 import ShippingSettings from "../components/ShippingSettings";
+import CheckoutSettings from "../components/CheckoutSettings";
+import InvoiceSettings from "../components/InvoiceSettings";
+import EmailSettings from "../components/EmailSettings";
 import { FaCog } from "react-icons/fa"; // red icon for heading
 
 
@@ -28,14 +31,14 @@ const SettingsPage = () => {
                 </h1>
               </div>
               <p className="text-sm text-gray-500 mt-1 hidden md:block">
-                Manage your general, payment, and shipping settings here.
+                Manage your general, payment, shipping, checkout, invoice and email settings here.
               </p>
             </div>
 
             {/* Tabs */}
             <div className="bg-white border border-gray-200 rounded-2xl shadow-md p-4 sm:p-6 mb-6 sm:mb-8">
               <div className="flex space-x-4 border-b border-gray-200 pb-2">
-                {["General", "Payment", "Shipping"].map((tab) => (
+                {["General", "Payment", "Shipping", "Checkout", "Invoices", "Emails"].map((tab) => (
                   <button
                     key={tab}
                     className={`px-4 py-2 text-sm font-semibold transition rounded-t-md ${
@@ -55,6 +58,9 @@ const SettingsPage = () => {
                 {activeTab === "General" && <GeneralSettings />}
                 {activeTab === "Payment" && <PaymentSettings />}
                 {activeTab === "Shipping" && <ShippingSettings />}
+                {activeTab === "Checkout" && <CheckoutSettings />}
+                {activeTab === "Invoices" && <InvoiceSettings />}
+                {activeTab === "Emails" && <EmailSettings />}
               </div>
             </div>
           </div>
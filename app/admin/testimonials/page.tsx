@@ -9,20 +9,7 @@ import { MdReviews } from "react-icons/md";
 import { FaStar } from "react-icons/fa";
 import dynamic from "next/dynamic";
 import { API_BASE_URL } from "../../utils/api";
-
-/* ================= Frontend key helper (no preflight) ================= */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return {
-    ...init,
-    headers,
-    cache: "no-store",
-    credentials: "omit",
-    mode: "cors",
-  };
-};
+import { apiFetch } from "../../utils/apiClient";
 
 /* ================= Lazy table (unchanged UI) ================= */
 const TestimonialsTable = dynamic(() => import("../testimonialsTable/page"), {
@@ -71,9 +58,9 @@ export default function TestimonialsPage() {
     (async () => {
       setIsLoading(true);
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-testimonials/?all=1&_=${Date.now()}`,
-          withFrontendKey({ method: "GET", signal: ac.signal as any })
+          { method: "GET", signal: ac.signal as any }
         );
         if (!res.ok) throw new Error(`Fetch failed (${res.status})`);
         const data = await res.json().catch(() => ({} as any));
@@ -127,7 +114,7 @@ export default function TestimonialsPage() {
           const url = `${API_BASE_URL}/api/edit-testimonials/?id=${encodeURIComponent(
             String(item.id)
           )}`;
-          const res = await fetch(url, withFrontendKey({ method: "DELETE" }));
+          const res = await apiFetch(url, { method: "DELETE" });
           if (!res.ok) throw new Error(`Delete failed (${res.status})`);
           toast.success("🗑️ Testimonial deleted.");
         } catch {
@@ -159,9 +146,9 @@ export default function TestimonialsPage() {
 
   const refetchServerTruth = useCallback(async () => {
     try {
-      const res = await fetch(
+      const res = await apiFetch(
         `${API_BASE_URL}/api/show-testimonials/?all=1&_=${Date.now()}`,
-        withFrontendKey({ method: "GET" })
+        { method: "GET" }
       );
       if (!res.ok) return;
       const data = await res.json().catch(() => ({} as any));
@@ -231,13 +218,13 @@ export default function TestimonialsPage() {
           }`;
           const method = isUpdate ? "PUT" : "POST";
 
-          const res = await fetch(
+          const res = await apiFetch(
             url,
-            withFrontendKey({
-              method,
-              headers: { "Content-Type": "application/json", Accept: "application/json" },
-              body: JSON.stringify(payload),
-            })
+            {
+            method,
+            headers: { "Content-Type": "application/json", Accept: "application/json" },
+            body: JSON.stringify(payload),
+          }
           );
 
           if (!res.ok) throw new Error(`Row save failed (${res.status})`);
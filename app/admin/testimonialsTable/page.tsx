@@ -3,14 +3,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { API_BASE_URL } from "../../utils/api";
-
-// Frontend key helper (same contract as main page)
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
+import { apiFetch } from "../../utils/apiClient";
 
 type Row = {
   name: string;
@@ -28,9 +21,9 @@ export default function TestimonialsTablePage() {
 
     (async () => {
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-testimonials/?all=1&_=${Date.now()}`,
-          withFrontendKey({ method: "GET", cache: "no-store", signal: controller.signal })
+          { method: "GET", cache: "no-store", signal: controller.signal }
         );
         if (!res.ok) throw new Error(`Fetch failed (${res.status})`);
         const data = await res.json();
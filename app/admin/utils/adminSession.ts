@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/* =========================================================
+   Client view of the admin session. The session itself is an
+   HttpOnly cookie; this only caches what /api/admin/session
+   says about it so the guard, sidebar and pages agree.
+   ========================================================= */
+
+export type ClientAdminSession = {
+  admin_id: string;
+  admin_name: string;
+  role_name: string;
+  access_pages: string[];
+  expires_at: string;
+};
+
+// Written on login/logout so other tabs re-check (value is just a timestamp)
+const SESSION_EVENT_KEY = 'admin-session-event';
+
+let current: ClientAdminSession | null | undefined; // undefined = not loaded yet
+let lastReason = '';
+let inflight: Promise<ClientAdminSession | null> | null = null;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((fn) => fn());
+
+export const sessionEndReason = () => lastReason;
+
+export function loadAdminSession(force = false): Promise<ClientAdminSession | null> {
+  if (!force && current !== undefined) return Promise.resolve(current);
+  if (inflight) return inflight;
+
+  inflight = fetch('/api/admin/session', { cache: 'no-store', credentials: 'same-origin' })
+    .then(async (res) => {
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 401) {
+        lastReason = String(data?.error || 'expired');
+        return null;
+      }
+      // transient server error → keep whatever we had
+      if (!res.ok) return current ?? null;
+      return {
+        admin_id: String(data.admin_id || ''),
+        admin_name: String(data.admin_name || ''),
+        role_name: String(data.role_name || ''),
+        access_pages: Array.isArray(data.access_pages) ? data.access_pages : [],
+        expires_at: String(data.expires_at || ''),
+      };
+    })
+    .catch(() => current ?? null)
+    .then((session) => {
+      current = session;
+      inflight = null;
+      emit();
+      return session;
+    });
+
+  return inflight;
+}
+
+export async function logoutAdmin() {
+  try {
+    await fetch('/api/admin/logout', { method: 'POST', credentials: 'same-origin' });
+  } catch {}
+  current = null;
+  emit();
+  try {
+    localStorage.setItem(SESSION_EVENT_KEY, String(Date.now()));
+  } catch {}
+}
+
+export const announceAdminLogin = () => {
+  current = undefined;
+  try {
+    localStorage.setItem(SESSION_EVENT_KEY, String(Date.now()));
+  } catch {}
+};
+
+export function useAdminSession() {
+  const [session, setSession] = useState<ClientAdminSession | null | undefined>(current);
+
+  useEffect(() => {
+    const sync = () => setSession(current);
+    listeners.add(sync);
+    loadAdminSession().then(sync);
+
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === SESSION_EVENT_KEY) loadAdminSession(true);
+    };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      listeners.delete(sync);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return { session: session ?? null, loading: session === undefined };
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { API_BASE_URL } from '../../utils/api';
+import { apiFetch } from '../../utils/apiClient';
+import { type AdminNotification, normalizeAdminNotifications } from '../../utils/adminNotifications';
+
+/* =========================================================
+   Live admin notifications for this tab. One EventSource is
+   shared by the sidebar badge and the notifications page;
+   read marks are mirrored to the admin's other tabs over a
+   BroadcastChannel so every badge drops at once, without
+   waiting for the next server snapshot.
+   ========================================================= */
+
+export type NotificationPrefs = { desktop: boolean; sound: boolean };
+
+type StreamState = { notifications: AdminNotification[]; connected: boolean; loaded: boolean };
+
+const STREAM_URL = '/api/admin/notifications/stream';
+const CHANNEL_NAME = 'admin-notifications';
+const PREFS_KEY = 'admin-notifications:prefs';
+// Ids some tab already alerted for, so three open tabs don't beep three times
+const ALERTED_KEY = 'admin-notifications:alerted';
+const ALERTED_LIMIT = 100;
+// After the server refuses the stream (signed out, no access) try again this much later
+const REOPEN_MS = 30_000;
+
+let state: StreamState = { notifications: [], connected: false, loaded: false };
+let snapshot: AdminNotification[] = [];
+const readLocally = new Set<string>(); // marked read here or in another tab, not yet confirmed by a snapshot
+let seen: Set<string> | null = null; // null until the first snapshot, which never alerts
+
+let source: EventSource | null = null;
+let channel: BroadcastChannel | null = null;
+let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+let users = 0;
+
+const listeners = new Set<() => void>();
+const prefListeners = new Set<() => void>();
+
+function publish() {
+  state = {
+    ...state,
+    notifications: snapshot.map((n) => (readLocally.has(n.notification_id) ? { ...n, status: 'read' } : n)),
+  };
+  listeners.forEach((fn) => fn());
+}
+
+function setConnected(connected: boolean) {
+  if (state.connected === connected) return;
+  state = { ...state, connected };
+  listeners.forEach((fn) => fn());
+}
+
+/* =========================================================
+   ALERTS
+   ========================================================= */
+
+const DEFAULT_PREFS: NotificationPrefs = { desktop: false, sound: false };
+
+export function notificationPrefs(): NotificationPrefs {
+  try {
+    return { ...DEFAULT_PREFS, ...JSON.parse(localStorage.getItem(PREFS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PREFS;
+  }
+}
+
+/** Saves the prefs; turning desktop alerts on asks for permission and stays off if it's refused. */
+export async function setNotificationPrefs(next: NotificationPrefs) {
+  if (next.desktop && typeof Notification !== 'undefined' && Notification.permission !== 'granted') {
+    const permission = await Notification.requestPermission().catch(() => 'denied' as NotificationPermission);
+    if (permission !== 'granted') next = { ...next, desktop: false };
+  }
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(next));
+  } catch {}
+  prefListeners.forEach((fn) => fn());
+  return next;
+}
+
+export function useNotificationPrefs(): NotificationPrefs {
+  const [prefs, setPrefs] = useState<NotificationPrefs>(DEFAULT_PREFS);
+  useEffect(() => {
+    const update = () => setPrefs(notificationPrefs());
+    update();
+    prefListeners.add(update);
+    const onStorage = (e: StorageEvent) => e.key === PREFS_KEY && update();
+    window.addEventListener('storage', onStorage);
+    return () => {
+      prefListeners.delete(update);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+  return prefs;
+}
+
+// First tab to claim an id alerts for it
+function claimAlert(id: string) {
+  try {
+    const alerted: string[] = JSON.parse(localStorage.getItem(ALERTED_KEY) || '[]');
+    if (alerted.includes(id)) return false;
+    localStorage.setItem(ALERTED_KEY, JSON.stringify([id, ...alerted].slice(0, ALERTED_LIMIT)));
+    return true;
+  } catch {
+    return true;
+  }
+}
+
+function playChime() {
+  try {
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctx) return;
+    const ctx = new Ctx();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(880, ctx.currentTime);
+    osc.frequency.setValueAtTime(660, ctx.currentTime + 0.12);
+    gain.gain.setValueAtTime(0.15, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.4);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.4);
+    osc.onended = () => void ctx.close();
+  } catch {}
+}
+
+function alertFor(fresh: AdminNotification[]) {
+  const prefs = notificationPrefs();
+  if (!prefs.desktop && !prefs.sound) return;
+  const mine = fresh.filter((n) => claimAlert(n.notification_id));
+  if (!mine.length) return;
+
+  if (prefs.sound) playChime();
+  if (prefs.desktop && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    const [first] = mine;
+    const note = new Notification(mine.length === 1 ? 'New notification' : `${mine.length} new notifications`, {
+      body: first.message,
+      tag: mine.length === 1 ? first.notification_id : 'admin-notifications',
+      icon: '/images/logo.png',
+    });
+    note.onclick = () => {
+      window.focus();
+      window.location.assign('/admin/notifications');
+      note.close();
+    };
+  }
+}
+
+/* =========================================================
+   STREAM
+   ========================================================= */
+
+function onSnapshot(e: MessageEvent) {
+  let list: AdminNotification[];
+  try {
+    list = normalizeAdminNotifications(JSON.parse(e.data));
+  } catch {
+    return;
+  }
+
+  const ids = new Set(list.map((n) => n.notification_id));
+  if (seen) alertFor(list.filter((n) => n.status === 'unread' && !seen!.has(n.notification_id)));
+  seen = ids;
+
+  // the server has caught up with (or forgotten) a local read mark
+  for (const id of Array.from(readLocally)) {
+    const row = list.find((n) => n.notification_id === id);
+    if (!row || row.status === 'read') readLocally.delete(id);
+  }
+
+  snapshot = list;
+  state = { ...state, loaded: true, connected: true };
+  publish();
+}
+
+function open() {
+  if (source || typeof EventSource === 'undefined') return;
+  source = new EventSource(STREAM_URL, { withCredentials: true });
+  source.addEventListener('snapshot', onSnapshot as EventListener);
+  source.onopen = () => setConnected(true);
+  source.onerror = () => {
+    setConnected(false);
+    // CONNECTING = the browser retries by itself; CLOSED = the server refused us
+    if (source?.readyState !== EventSource.CLOSED) return;
+    close();
+    reopenTimer = setTimeout(() => users && open(), REOPEN_MS);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined' && !channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e) => {
+      if (!Array.isArray(e.data?.ids)) return;
+      if (e.data.type === 'read') e.data.ids.forEach((id: string) => readLocally.add(String(id)));
+      else if (e.data.type === 'unread') e.data.ids.forEach((id: string) => readLocally.delete(String(id)));
+      else return;
+      publish();
+    };
+  }
+}
+
+function close() {
+  source?.close();
+  source = null;
+  if (reopenTimer) clearTimeout(reopenTimer);
+  reopenTimer = null;
+}
+
+/** The admin's visible notifications, live. Pass enabled=false for admins without Notifications access. */
+export function useAdminNotifications(enabled = true): StreamState {
+  const [view, setView] = useState<StreamState>(state);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const update = () => setView(state);
+    listeners.add(update);
+    users += 1;
+    open();
+    update();
+    return () => {
+      listeners.delete(update);
+      users -= 1;
+      if (!users) {
+        close();
+        channel?.close();
+        channel = null;
+        setConnected(false);
+      }
+    };
+  }, [enabled]);
+
+  return view;
+}
+
+/* =========================================================
+   READ STATE
+   ========================================================= */
+
+async function postRead(body: object, path: string) {
+  const res = await apiFetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/**
+ * Marks rows read here and in the admin's other tabs straight away,
+ * then tells the backend (batch endpoint, falling back to one call per
+ * row). Reverts and rethrows when the backend rejects every row.
+ */
+export async function markNotificationsRead(ids: string[]) {
+  const fresh = ids.filter((id) => !readLocally.has(id));
+  if (!fresh.length) return;
+  fresh.forEach((id) => readLocally.add(id));
+  publish();
+  channel?.postMessage({ type: 'read', ids: fresh });
+
+  try {
+    if (fresh.length === 1) {
+      await postRead({ notification_id: fresh[0], status: 'read' }, '/api/notification-update');
+      return;
+    }
+    await postRead({ ids: fresh }, '/api/notifications/mark-read-batch').catch(async () => {
+      const results = await Promise.allSettled(
+        fresh.map((id) => postRead({ notification_id: id, status: 'read' }, '/api/notification-update'))
+      );
+      if (results.every((r) => r.status === 'rejected')) throw new Error('Failed to mark notifications read');
+    });
+  } catch (err) {
+    fresh.forEach((id) => readLocally.delete(id));
+    publish();
+    channel?.postMessage({ type: 'unread', ids: fresh });
+    throw err;
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { sessionFromRequest, signToken, verifyToken } from '../../../lib/adminSession';
+import {
+  enrollmentExpiry,
+  fetchTwoFactor,
+  lockedMessage,
+  lockedUntil,
+  recordLoginEvent,
+  saveTwoFactor,
+  type Enrollment,
+} from '../../../lib/adminSecurity';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+} from '../../../lib/totp';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const issueRecoveryCodes = async () => {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: await Promise.all(codes.map(hashRecoveryCode)) };
+};
+
+// Status for the signed-in admin's own account
+export async function GET(req: Request) {
+  const session = await sessionFromRequest(req);
+  if (!session) return fail('Not signed in', 401);
+
+  const record = await fetchTwoFactor(session.admin_id);
+  if (!record) return fail('Failed to load two-factor status', 502);
+  return NextResponse.json({ enabled: record.enabled, recovery_remaining: record.recovery_codes.length });
+}
+
+/**
+ * Actions:
+ *  - setup:      new secret + QR code; nothing is stored until `enable`
+ *  - enable:     { enroll_token, code } → stores secret, returns recovery codes once
+ *  - regenerate: { code } → replaces recovery codes
+ *  - disable:    { code } → TOTP or recovery code
+ */
+export async function POST(req: Request) {
+  const session = await sessionFromRequest(req);
+  if (!session) return fail('Not signed in', 401);
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  const action = String(body?.action || '');
+  const code = String(body?.code ?? '').trim();
+
+  const record = await fetchTwoFactor(session.admin_id);
+  if (!record) return fail('Failed to load two-factor status', 502);
+
+  if (action === 'setup') {
+    if (record.enabled) return fail('Two-factor authentication is already enabled');
+    const secret = generateTotpSecret();
+    const url = otpauthUrl(secret, session.admin_name || session.admin_id);
+    const enrollment: Enrollment = { admin_id: session.admin_id, secret, exp: enrollmentExpiry() };
+    return NextResponse.json({
+      secret,
+      otpauth_url: url,
+      qr: await QRCode.toDataURL(url, { margin: 1, width: 220 }),
+      enroll_token: await signToken('2fa_enroll', enrollment),
+    });
+  }
+
+  if (action === 'enable') {
+    if (record.enabled) return fail('Two-factor authentication is already enabled');
+    const enrollment = await verifyToken<Enrollment>('2fa_enroll', body?.enroll_token);
+    if (!enrollment || enrollment.admin_id !== session.admin_id) return fail('Setup expired. Start again.');
+    const step = await verifyTotp(enrollment.secret, code);
+    if (step === null) return fail('Invalid code');
+
+    const { codes, hashes } = await issueRecoveryCodes();
+    const saved = await saveTwoFactor({
+      admin_id: session.admin_id,
+      enabled: true,
+      secret: enrollment.secret,
+      recovery_codes: hashes,
+      last_step: step,
+    });
+    if (!saved) return fail('Failed to enable two-factor authentication', 502);
+    return NextResponse.json({ enabled: true, recovery_codes: codes });
+  }
+
+  if (action !== 'regenerate' && action !== 'disable') return fail('Unknown action');
+  if (!record.enabled) return fail('Two-factor authentication is not enabled');
+
+  // Same lockout as the login's code step, so a stolen session can't guess codes here
+  const locked = await lockedUntil('', session.admin_id);
+  if (locked) return fail(lockedMessage(locked), 429);
+
+  // TOTP, or (when disabling) a recovery code
+  const step = await verifyTotp(record.secret, code, record.last_step);
+  const recovery = step === null && action === 'disable' && record.recovery_codes.includes(await hashRecoveryCode(code));
+  if (step === null && !recovery) {
+    await recordLoginEvent(req, { username: session.admin_name || session.admin_id, admin_id: session.admin_id, outcome: 'bad_2fa' });
+    const nowLocked = await lockedUntil('', session.admin_id);
+    return fail(nowLocked ? lockedMessage(nowLocked) : 'Invalid code', nowLocked ? 429 : 400);
+  }
+  const last_step = step ?? record.last_step;
+
+  if (action === 'regenerate') {
+    const { codes, hashes } = await issueRecoveryCodes();
+    if (!(await saveTwoFactor({ ...record, recovery_codes: hashes, last_step }))) {
+      return fail('Failed to regenerate recovery codes', 502);
+    }
+    return NextResponse.json({ enabled: true, recovery_codes: codes });
+  }
+
+  if (!(await saveTwoFactor({ admin_id: session.admin_id, enabled: false, secret: '', recovery_codes: [], last_step }))) {
+    return fail('Failed to disable two-factor authentication', 502);
+  }
+  return NextResponse.json({ enabled: false });
+}
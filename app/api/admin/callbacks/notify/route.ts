@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { loadCallbackForEmail, notifyCallback } from '../../../../lib/notifications';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * { id } → tells the customer their call back is scheduled. Called by
+ * the admin call-back page after it saves a request as Scheduled; the
+ * stored row is re-read so the mail matches what was saved.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/event-callback', 'Call-back');
+  if ('error' in auth) return auth.error;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  const id = String(body?.id ?? '').trim();
+  if (!id) return fail('id is required');
+
+  const row = await loadCallbackForEmail(id);
+  if (!row) return fail('Call-back request not found', 404);
+  if (row.status !== 'scheduled') return NextResponse.json({ sent: false });
+
+  return NextResponse.json({ sent: await notifyCallback('callback_scheduled', row) });
+}
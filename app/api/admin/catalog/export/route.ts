@@ -0,0 +1,34 @@
+import { exportCatalog } from '../../../../lib/catalog';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+/** GET ?format=csv|xlsx → the whole catalog in the import layout, as a download. */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/products', 'Products');
+  if ('error' in auth) return auth.error;
+
+  const format = new URL(req.url).searchParams.get('format') || 'csv';
+  if (format !== 'csv' && format !== 'xlsx') return fail('format must be csv or xlsx');
+
+  let file: Buffer;
+  try {
+    file = await exportCatalog(format);
+  } catch {
+    return fail('Failed to export the catalog', 502);
+  }
+
+  const name = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(file, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${name}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
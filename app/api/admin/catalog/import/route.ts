@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { catalogImportJob, loadCatalogContext, readCatalogFile, startCatalogImport } from '../../../../lib/catalog';
+import { validateCatalogTable } from '../../../../utils/catalog';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * multipart { file: .csv | .xlsx, mode: 'preview' | 'run', skip_invalid? }
+ * "preview" → { preview } and changes nothing. "run" re-validates the
+ * same file and starts a background job → { job }; it refuses while
+ * any row is invalid unless skip_invalid is set.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/products', 'Products');
+  if ('error' in auth) return auth.error;
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return fail('Expected a file upload');
+  }
+  const file = form.get('file');
+  if (!(file instanceof File)) return fail('file is required');
+  const mode = String(form.get('mode') || 'preview');
+  if (mode !== 'preview' && mode !== 'run') return fail('mode must be preview or run');
+
+  let table: string[][];
+  try {
+    table = await readCatalogFile(file);
+  } catch (err: any) {
+    return fail(err?.message || 'Could not read the file', 422);
+  }
+
+  let preview;
+  try {
+    preview = validateCatalogTable(table, await loadCatalogContext());
+  } catch {
+    return fail('Failed to load the current catalog', 502);
+  }
+  if (mode === 'preview') return NextResponse.json({ preview });
+
+  if (preview.errors.length) return fail(preview.errors[0], 422, { preview });
+  const valid = preview.rows.filter((r) => !r.errors.length);
+  const skipped = preview.rows.length - valid.length;
+  if (skipped && form.get('skip_invalid') !== '1') {
+    return fail(`${skipped} row(s) have errors; fix them or choose to skip them`, 422, { preview });
+  }
+  if (!valid.length) return fail('No valid rows to import', 422, { preview });
+
+  const job = startCatalogImport(valid, auth.session.admin_name || 'admin', skipped);
+  return NextResponse.json({ job }, { status: 202 });
+}
+
+/** GET ?job_id=… → { job } with its progress. */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/products', 'Products');
+  if ('error' in auth) return auth.error;
+
+  const job_id = (new URL(req.url).searchParams.get('job_id') || '').trim();
+  if (!job_id) return fail('job_id is required');
+  const job = catalogImportJob(job_id);
+  return job ? NextResponse.json({ job }) : fail('Import not found (the server may have restarted)', 404);
+}
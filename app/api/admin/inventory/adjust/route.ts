@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { loadStockLevels, saveStockMovements } from '../../../../lib/inventory';
+import type { StockLine } from '../../../../utils/inventory';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PRODUCTS = 500;
+const MAX_QUANTITY = 1_000_000;
+
+/**
+ * { product_ids, variant_signature?, mode: 'set' | 'delta', quantity, note }
+ * → one adjustment per product, or for one variant of a single product.
+ * "set" records the difference to a counted quantity, so the ledger
+ * still adds up; reserved units are never touched.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/inventory', 'Inventory');
+  if ('error' in auth) return auth.error;
+  const { session } = auth;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const ids: string[] = Array.from(
+    new Set((Array.isArray(body?.product_ids) ? body.product_ids : []).map((id: unknown) => String(id ?? '').trim()))
+  ).filter(Boolean) as string[];
+  if (!ids.length) return fail('product_ids is required');
+  if (ids.length > MAX_PRODUCTS) return fail(`At most ${MAX_PRODUCTS} products at once`);
+
+  const variant_signature = String(body?.variant_signature ?? '').trim();
+  if (variant_signature && ids.length !== 1) return fail('A variant can only be adjusted for a single product');
+
+  const mode = body?.mode;
+  if (mode !== 'set' && mode !== 'delta') return fail('mode must be "set" or "delta"');
+  const quantity = Number(body?.quantity);
+  if (!Number.isInteger(quantity) || Math.abs(quantity) > MAX_QUANTITY) return fail('quantity must be a whole number');
+  if (mode === 'set' && quantity < 0) return fail('A counted quantity cannot be negative');
+  if (mode === 'delta' && quantity === 0) return fail('quantity must not be 0');
+  const note = String(body?.note ?? '').trim().slice(0, 300);
+  if (!note) return fail('Say why the stock is being adjusted');
+
+  try {
+    // only exact rows count: adjusting a variant without its own count starts one
+    const levels = (await loadStockLevels(ids)).filter((l) => l.variant_signature === variant_signature);
+    const onHand = new Map(levels.map((l) => [l.product_id, l.on_hand ?? 0]));
+    const lines: StockLine[] = ids.map((product_id) => ({
+      product_id,
+      variant_signature,
+      quantity: mode === 'set' ? quantity - (onHand.get(product_id) ?? 0) : quantity,
+    }));
+    if (mode === 'delta' && lines.some((l) => (onHand.get(l.product_id) ?? 0) + l.quantity < 0)) {
+      return fail('That would take stock below zero', 422);
+    }
+
+    const after = await saveStockMovements({
+      kind: 'adjust',
+      lines,
+      actor: session.admin_name || session.admin_id,
+      note,
+    });
+    return NextResponse.json({ levels: after });
+  } catch {
+    return fail('Failed to adjust stock', 502);
+  }
+}
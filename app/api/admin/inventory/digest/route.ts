@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { buildInventoryDigest, sendInventoryDigest } from '../../../../lib/inventory';
+import { bearerMatches, fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const DIGEST_SECRET = (process.env.INVENTORY_DIGEST_SECRET || '').trim();
+
+/**
+ * GET → today's { generated_at, out_of_stock, low_stock, suggestions }
+ * for the notifications page. Opening it also posts the day's digest
+ * to the feed if no scheduler has yet.
+ */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/inventory', 'Inventory');
+  if ('error' in auth) return auth.error;
+
+  try {
+    const digest = await buildInventoryDigest();
+    await sendInventoryDigest(digest);
+    return NextResponse.json(digest);
+  } catch {
+    return fail('Failed to build inventory digest', 502);
+  }
+}
+
+/** POST with `Authorization: Bearer $INVENTORY_DIGEST_SECRET` — for a daily cron job. */
+export async function POST(req: Request) {
+  if (!DIGEST_SECRET) return fail('Digest trigger is not configured', 503);
+  if (!bearerMatches(req, DIGEST_SECRET)) return fail('Unauthorized', 401);
+
+  try {
+    const digest = await buildInventoryDigest();
+    return NextResponse.json({ sent: await sendInventoryDigest(digest) });
+  } catch {
+    return fail('Failed to build inventory digest', 502);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { loadStockLedger, loadStockLevels } from '../../../../lib/inventory';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/** GET ?product_id=… → { levels, movements } for the inventory page's ledger; levels include variant rows. */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/inventory', 'Inventory');
+  if ('error' in auth) return auth.error;
+
+  const product_id = (new URL(req.url).searchParams.get('product_id') || '').trim();
+  if (!product_id) return fail('product_id is required');
+
+  try {
+    const [levels, movements] = await Promise.all([loadStockLevels([product_id]), loadStockLedger({ product_id })]);
+    return NextResponse.json({ levels, movements });
+  } catch {
+    return fail('Failed to load stock ledger', 502);
+  }
+}
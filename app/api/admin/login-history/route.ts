@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { sessionFromRequest } from '../../../lib/adminSession';
+import { fetchLoginHistory } from '../../../lib/adminSecurity';
+import { canOpen, fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// Admins can always see their own history; other admins' history
+// needs the same access as the account management page.
+export async function GET(req: Request) {
+  const session = await sessionFromRequest(req);
+  if (!session) return fail('Not signed in', 401);
+
+  const params = new URL(req.url).searchParams;
+  const adminId = params.get('admin_id') || session.admin_id;
+  if (adminId !== session.admin_id && !canOpen(session, '/admin/new-account')) {
+    return fail('New Account access required', 403);
+  }
+
+  // Failed password attempts only know the username, so match on both
+  const username = adminId === session.admin_id ? session.admin_name : params.get('username') || '';
+  const events = await fetchLoginHistory({ admin_id: adminId, username });
+  return NextResponse.json({ events });
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../utils/api';
+import { firstRouteFor } from '../../../lib/adminAccess';
+import { backendHeaders, newSession, sessionCookie, signSession, signToken } from '../../../lib/adminSession';
+import {
+  challengeCookie,
+  challengeExpiry,
+  fetchTwoFactor,
+  lockedMessage,
+  lockedUntil,
+  recordLoginEvent,
+  type TwoFactorChallenge,
+} from '../../../lib/adminSecurity';
+
+export const dynamic = 'force-dynamic';
+
+// Credentials are checked by the backend; this handler adds the lockout
+// policy, hands off to the 2FA step when enrolled, and otherwise turns a
+// successful login into an HttpOnly session cookie.
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const username = String(body?.username ?? '').trim();
+  const password = String(body?.password ?? '');
+  if (!username || !password) {
+    return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+  }
+
+  const locked = await lockedUntil(username);
+  if (locked) {
+    return NextResponse.json({ error: lockedMessage(locked), locked_until: locked.toISOString() }, { status: 429 });
+  }
+
+  let data: any = {};
+  let ok = false;
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/admin-login/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ username, password }),
+      cache: 'no-store',
+    });
+    data = await res.json().catch(() => ({}));
+    ok = res.ok && !!data?.success;
+  } catch {
+    return NextResponse.json({ error: 'Server error. Please try again.' }, { status: 502 });
+  }
+
+  if (!ok || !data?.admin_id) {
+    await recordLoginEvent(req, { username, outcome: 'bad_password' });
+    const nowLocked = await lockedUntil(username);
+    const error = nowLocked ? lockedMessage(nowLocked) : String(data?.error || 'Login failed');
+    return NextResponse.json({ error }, { status: nowLocked ? 429 : 401 });
+  }
+
+  const session = newSession({
+    admin_id: data.admin_id,
+    admin_name: data.admin_name || username,
+    role_name: data.role_name,
+    access_pages: data.access_pages,
+  });
+  if (!session.access_pages.length) {
+    return NextResponse.json({ error: 'This account has no admin pages assigned' }, { status: 403 });
+  }
+
+  const twoFactor = await fetchTwoFactor(session.admin_id);
+  if (!twoFactor) return NextResponse.json({ error: 'Server error. Please try again.' }, { status: 502 });
+
+  if (twoFactor.enabled) {
+    const challenge: TwoFactorChallenge = {
+      username,
+      admin_id: session.admin_id,
+      admin_name: session.admin_name,
+      role_name: session.role_name,
+      access_pages: session.access_pages,
+      exp: challengeExpiry(),
+    };
+    const res = NextResponse.json({ two_factor_required: true });
+    res.cookies.set(challengeCookie(await signToken('2fa_challenge', challenge)));
+    return res;
+  }
+
+  await recordLoginEvent(req, { username, admin_id: session.admin_id, outcome: 'success' });
+  const res = NextResponse.json({
+    admin_id: session.admin_id,
+    access_pages: session.access_pages,
+    redirect: firstRouteFor(session.access_pages),
+  });
+  res.cookies.set(sessionCookie(await signSession(session), session));
+  return res;
+}
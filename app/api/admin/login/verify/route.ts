@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { firstRouteFor } from '../../../../lib/adminAccess';
+import {
+  cookieFromRequest,
+  newSession,
+  sessionCookie,
+  signSession,
+  verifyToken,
+} from '../../../../lib/adminSession';
+import {
+  CHALLENGE_COOKIE,
+  challengeCookie,
+  fetchTwoFactor,
+  lockedMessage,
+  lockedUntil,
+  recordLoginEvent,
+  saveTwoFactor,
+  type TwoFactorChallenge,
+} from '../../../../lib/adminSecurity';
+import { hashRecoveryCode, verifyTotp } from '../../../../lib/totp';
+
+export const dynamic = 'force-dynamic';
+
+// Second login step: a TOTP code or one of the admin's recovery codes
+export async function POST(req: Request) {
+  const challenge = await verifyToken<TwoFactorChallenge>('2fa_challenge', cookieFromRequest(req, CHALLENGE_COOKIE));
+  if (!challenge) {
+    return NextResponse.json({ error: 'Your sign-in expired. Enter your password again.', restart: true }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const code = String(body?.code ?? '').trim();
+  if (!code) return NextResponse.json({ error: 'Enter the code from your authenticator app' }, { status: 400 });
+
+  const { username, admin_id } = challenge;
+  const locked = await lockedUntil(username, admin_id);
+  if (locked) {
+    const res = NextResponse.json({ error: lockedMessage(locked), restart: true }, { status: 429 });
+    res.cookies.set(challengeCookie(''));
+    return res;
+  }
+
+  const record = await fetchTwoFactor(admin_id);
+  if (!record) return NextResponse.json({ error: 'Server error. Please try again.' }, { status: 502 });
+
+  let outcome: 'success' | 'recovery_code' | null = null;
+  const step = record.enabled ? await verifyTotp(record.secret, code, record.last_step) : null;
+  if (step !== null) {
+    // Remember the step so the same code can't sign in again inside its window
+    if (!(await saveTwoFactor({ ...record, last_step: step }))) {
+      return NextResponse.json({ error: 'Server error. Please try again.' }, { status: 502 });
+    }
+    outcome = 'success';
+  } else if (record.enabled) {
+    // Recovery codes are single-use
+    const hash = await hashRecoveryCode(code);
+    if (record.recovery_codes.includes(hash)) {
+      const saved = await saveTwoFactor({ ...record, recovery_codes: record.recovery_codes.filter((h) => h !== hash) });
+      if (!saved) return NextResponse.json({ error: 'Server error. Please try again.' }, { status: 502 });
+      outcome = 'recovery_code';
+    }
+  }
+
+  if (!outcome) {
+    await recordLoginEvent(req, { username, admin_id, outcome: 'bad_2fa' });
+    const nowLocked = await lockedUntil(username, admin_id);
+    const res = NextResponse.json(
+      nowLocked ? { error: lockedMessage(nowLocked), restart: true } : { error: 'Invalid code' },
+      { status: nowLocked ? 429 : 401 }
+    );
+    if (nowLocked) res.cookies.set(challengeCookie(''));
+    return res;
+  }
+
+  await recordLoginEvent(req, { username, admin_id, outcome });
+  const session = newSession(challenge);
+  const res = NextResponse.json({
+    admin_id: session.admin_id,
+    access_pages: session.access_pages,
+    redirect: firstRouteFor(session.access_pages),
+    recovery_codes_left: outcome === 'recovery_code' ? record.recovery_codes.length - 1 : undefined,
+  });
+  res.cookies.set(challengeCookie(''));
+  res.cookies.set(sessionCookie(await signSession(session), session));
+  return res;
+}
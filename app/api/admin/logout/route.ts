@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { clearedSessionCookie } from '../../../lib/adminSession';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const res = NextResponse.json({ success: true });
+  res.cookies.set(clearedSessionCookie());
+  return res;
+}
@@ -0,0 +1,73 @@
+import { REVALIDATE_SECONDS, nowSeconds } from '../../../../lib/adminSession';
+import { subscribeNotificationFeed } from '../../../../lib/notificationFeed';
+import { notificationSourcesFor } from '../../../../utils/adminNotifications';
+import { requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const PING_MS = 25_000;
+
+/**
+ * Server-Sent Events: a `snapshot` event with the admin's visible
+ * notifications on connect and whenever the feed changes. The stream
+ * ends when the session expires or every REVALIDATE_SECONDS; the browser
+ * reconnects on its own, and the middleware re-checks the session on that
+ * request, so a deleted or demoted admin stops getting events.
+ */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/notifications', 'Notifications');
+  if ('error' in auth) return auth.error;
+  const { session } = auth;
+  const sources = notificationSourcesFor(session.access_pages);
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      write('retry: 5000\n\n');
+      const unsubscribe = subscribeNotificationFeed((list) => {
+        const visible = list.filter((n) => sources.has(n.source_table));
+        write(`event: snapshot\ndata: ${JSON.stringify(visible)}\n\n`);
+      });
+      const ping = setInterval(() => write(': ping\n\n'), PING_MS);
+      const lifetime = Math.max(1, Math.min(session.exp - nowSeconds(), REVALIDATE_SECONDS));
+      const end = setTimeout(() => cleanup(), lifetime * 1000);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(ping);
+        clearTimeout(end);
+        req.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {}
+      };
+      req.signal.addEventListener('abort', cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // nginx would otherwise hold events back
+    },
+  });
+}
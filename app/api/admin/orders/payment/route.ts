@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../../utils/api';
+import { backendHeaders } from '../../../../lib/adminSession';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * { order_id, payment_method } → marks the order paid by hand (cash
+ * collected, bank transfer seen). Admin-only: besides a gateway's
+ * webhook this is the one way an order becomes paid.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/orders', 'Orders');
+  if ('error' in auth) return auth.error;
+  const { session } = auth;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  const orderId = String(body?.order_id ?? '').trim();
+  if (!orderId) return fail('order_id is required');
+
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/update-payment-status/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      cache: 'no-store',
+      body: JSON.stringify({
+        order_id: orderId,
+        payment_method: String(body?.payment_method || 'cod'),
+        payment_status: 'paid',
+        reference: 'manual',
+        actor: session.admin_name || session.admin_id,
+        actor_id: session.admin_id,
+      }),
+    });
+    if (!res.ok) return fail('Failed to update payment status', 502);
+  } catch {
+    return fail('Failed to update payment status', 502);
+  }
+  return NextResponse.json({ payment_status: 'paid' });
+}
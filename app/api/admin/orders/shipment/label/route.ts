@@ -0,0 +1,32 @@
+import { backendGet } from '../../../../../lib/orderAccess';
+import { fail, requireAdminPage } from '../../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/** GET ?order_id=… → the carrier label PDF stored with the order's shipment. */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/orders', 'Orders');
+  if ('error' in auth) return auth.error;
+
+  const orderId = (new URL(req.url).searchParams.get('order_id') || '').trim();
+  if (!orderId) return fail('order_id is required');
+
+  let label = '';
+  let tracking = '';
+  try {
+    const { data } = await backendGet('/api/show-order-shipment-label/', { order_id: orderId });
+    label = String(data?.label_pdf || '');
+    tracking = String(data?.tracking_number || orderId);
+  } catch {
+    return fail('Failed to load label', 502);
+  }
+  if (!label) return fail('This shipment has no label', 404);
+
+  return new Response(Buffer.from(label, 'base64'), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="label-${tracking.replace(/[^\w.-]/g, '_')}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
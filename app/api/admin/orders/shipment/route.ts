@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../../utils/api';
+import { backendHeaders, type AdminSession } from '../../../../lib/adminSession';
+import { backendGet, unwrapOrder } from '../../../../lib/orderAccess';
+import {
+  carrierOptions,
+  consigneeFrom,
+  isCarrierError,
+  loadShipper,
+  readyCarrier,
+  type CarrierAdapter,
+} from '../../../../lib/carriers';
+import { canTransition, parseOrderStatus } from '../../../../utils/orderStatus';
+import {
+  CARRIER_LABELS,
+  MAX_PIECES,
+  MAX_WEIGHT_KG,
+  isCarrierId,
+  normalizeShipment,
+  type Shipment,
+} from '../../../../utils/shipments';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// Orders with a booking under way in this server process; a double click or
+// retry must not book a second parcel before the first is saved on the order
+const booking = new Set<string>();
+
+/** Carriers for the "Create shipment" form. */
+export async function GET(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/orders', 'Orders');
+  if ('error' in auth) return auth.error;
+  return NextResponse.json({ carriers: await carrierOptions() });
+}
+
+/**
+ * { order_id, carrier, weight_kg, pieces } → books the parcel with the
+ * carrier and stores tracking number and label on the order. Moving the
+ * order to Shipped stays a separate, audited status change. An order that
+ * already has one gets 409 with the shipment on file, never a second parcel.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/orders', 'Orders');
+  if ('error' in auth) return auth.error;
+  const { session } = auth;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const orderId = String(body?.order_id ?? '').trim();
+  const weight = Number(body?.weight_kg);
+  const pieces = Number(body?.pieces ?? 1);
+  if (!orderId) return fail('order_id is required');
+  if (!isCarrierId(body?.carrier)) return fail('Unknown carrier');
+  if (!(weight > 0 && weight <= MAX_WEIGHT_KG)) return fail(`Weight must be between 0 and ${MAX_WEIGHT_KG} kg`);
+  if (!Number.isInteger(pieces) || pieces < 1 || pieces > MAX_PIECES) return fail(`Pieces must be 1–${MAX_PIECES}`);
+
+  const adapter = await readyCarrier(body.carrier);
+  if (typeof adapter === 'string') return fail(adapter, 409);
+
+  if (booking.has(orderId)) return fail('A shipment is already being created for this order', 409);
+  booking.add(orderId);
+  try {
+    return await book(orderId, adapter, weight, pieces, session);
+  } finally {
+    booking.delete(orderId);
+  }
+}
+
+async function book(orderId: string, adapter: CarrierAdapter, weight: number, pieces: number, session: AdminSession) {
+  let order: any;
+  try {
+    order = unwrapOrder((await backendGet('/api/show-specific-order/', { order_id: orderId })).data);
+  } catch {
+    return fail('Failed to load order', 502);
+  }
+  if (!order?.orderID) return fail('Order not found', 404);
+  // Any tracking number counts, even from a carrier no longer configured
+  if (order.shipment?.tracking_number || order.tracking_number) {
+    return fail('This order already has a shipment', 409, { shipment: normalizeShipment(order.shipment) });
+  }
+  if (!canTransition(parseOrderStatus(order.status), 'shipped')) {
+    return fail('Only orders that are being processed can be shipped', 409);
+  }
+
+  const consignee = consigneeFrom(order);
+  if (!consignee.line1 || !consignee.city || !consignee.phone) {
+    return fail('The order is missing the delivery street, city or phone number', 422);
+  }
+
+  const detail = Array.isArray(order?.item?.detail) ? order.item.detail : [];
+  let created;
+  try {
+    created = await adapter.createShipment({
+      order_id: orderId,
+      weight_kg: Math.round(weight * 1000) / 1000,
+      pieces,
+      description: detail.map((d: any) => d?.product_name).filter(Boolean).join(', ') || 'Printed goods',
+      value: Number(order?.pricing?.total ?? order?.total) || 0,
+      currency: String(order?.pricing?.currency || 'AED'),
+      shipper: await loadShipper(),
+      consignee,
+    });
+  } catch (err) {
+    if (isCarrierError(err)) return fail(`${CARRIER_LABELS[err.carrier]}: ${err.message}`, 502);
+    console.error('shipment booking failed', err);
+    return fail('Failed to create shipment', 502);
+  }
+
+  const shipment: Shipment = {
+    carrier: adapter.id,
+    tracking_number: created.tracking_number,
+    tracking_url: created.tracking_url,
+    weight_kg: weight,
+    pieces,
+    has_label: !!created.label_pdf,
+    created_at: new Date().toISOString(),
+    created_by: session.admin_name || session.admin_id,
+  };
+
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/save-order-shipment/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      cache: 'no-store',
+      body: JSON.stringify({
+        order_id: orderId,
+        ...shipment,
+        label_pdf: created.label_pdf ? Buffer.from(created.label_pdf).toString('base64') : '',
+      }),
+    });
+    if (!res.ok) throw new Error(`save-order-shipment ${res.status}`);
+  } catch (err) {
+    // The carrier has booked it; say so, or the admin would book it twice
+    console.error('shipment save failed', err);
+    return fail(
+      `The parcel was booked with ${CARRIER_LABELS[adapter.id]} (tracking ${shipment.tracking_number}) but could not be saved on the order`,
+      502
+    );
+  }
+
+  return NextResponse.json({ shipment });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../../utils/api';
+import { backendHeaders } from '../../../../lib/adminSession';
+import {
+  ORDER_STATUS_LABELS,
+  parseOrderStatus,
+  transitionError,
+  type OrderStatusEvent,
+} from '../../../../utils/orderStatus';
+import { loadOrderForEmail, notifyOrderStatus } from '../../../../lib/notifications';
+import { settleOrderStock } from '../../../../lib/inventory';
+import { stockActionFor } from '../../../../utils/inventory';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * { order_id, from, to, reason } → checks the move against the order
+ * state machine, then records it with the signed-in admin as the actor.
+ * The backend re-checks `from` against the stored status so two admins
+ * editing the same order can't both win. Once it is saved the order's
+ * stock reservation is released or sold where the move settles it, and
+ * the customer is emailed about the new status.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdminPage(req, '/admin/orders', 'Orders');
+  if ('error' in auth) return auth.error;
+  const { session } = auth;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const orderId = String(body?.order_id ?? '').trim();
+  if (!orderId) return fail('order_id is required');
+  const from = parseOrderStatus(body?.from);
+  const to = parseOrderStatus(body?.to);
+  const reason = String(body?.reason ?? '').trim().slice(0, 500);
+
+  const error = transitionError(from, to ?? body?.to, reason);
+  if (error) return fail(error, 422);
+
+  const event: OrderStatusEvent = {
+    from,
+    to: to!,
+    at: new Date().toISOString(),
+    actor: session.admin_name || session.admin_id,
+    actor_type: 'admin',
+    reason,
+  };
+
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/update-order-status/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      cache: 'no-store',
+      body: JSON.stringify({ order_id: orderId, status: event.to, ...event, actor_id: session.admin_id }),
+    });
+    if (res.status === 409) return fail('The order was changed by someone else. Reload and try again.', 409);
+    if (!res.ok) return fail('Failed to update order status', 502);
+  } catch {
+    return fail('Failed to update order status', 502);
+  }
+
+  // The move is saved; stock and the customer email are best-effort
+  const stockAction = stockActionFor(event);
+  if (stockAction) {
+    try {
+      await settleOrderStock(orderId, stockAction, event.actor, `Order ${ORDER_STATUS_LABELS[event.to]}`);
+    } catch (err) {
+      console.error(`stock ${stockAction} for order ${orderId} failed`, err);
+    }
+  }
+
+  const order = await loadOrderForEmail(orderId);
+  if (order) await notifyOrderStatus(order, event);
+
+  return NextResponse.json({ event });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import {
+  clearedSessionCookie,
+  revalidateSession,
+  sessionCookie,
+  sessionFromRequest,
+  signSession,
+} from '../../../lib/adminSession';
+
+export const dynamic = 'force-dynamic';
+
+// The admin UI polls this to learn who is signed in and to notice
+// deleted accounts or role changes without waiting for the middleware.
+export async function GET(req: Request) {
+  const current = await sessionFromRequest(req);
+  if (!current) {
+    const res = NextResponse.json({ error: 'expired' }, { status: 401 });
+    res.cookies.set(clearedSessionCookie());
+    return res;
+  }
+
+  const check = await revalidateSession(current);
+  if (check.status === 'revoked') {
+    const res = NextResponse.json({ error: check.reason }, { status: 401 });
+    res.cookies.set(clearedSessionCookie());
+    return res;
+  }
+
+  const session = check.status === 'ok' ? check.session : current;
+  const res = NextResponse.json({
+    admin_id: session.admin_id,
+    admin_name: session.admin_name,
+    role_name: session.role_name,
+    access_pages: session.access_pages,
+    expires_at: new Date(session.exp * 1000).toISOString(),
+  });
+  if (check.status === 'ok') res.cookies.set(sessionCookie(await signSession(session), session));
+  return res;
+}
@@ -0,0 +1,40 @@
+import { revalidateTag } from 'next/cache';
+import { NextResponse, after } from 'next/server';
+import { sendWishlistAlerts } from '../../../../lib/wishlist';
+import type { StorefrontSection } from '../../../../utils/storefront';
+import { fail, requireAdminPage } from '../../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// Whoever may edit a section may refresh it
+const SECTION_PAGES: Record<StorefrontSection, string> = {
+  catalog: '/admin/products',
+  blog: '/admin/blog',
+};
+
+/**
+ * POST { section } → drops the cached pages, sitemaps and feeds built from
+ * that section. A catalog refresh also starts a check of wishlists for
+ * products that came back in stock or got cheaper.
+ */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const section = body?.section as StorefrontSection;
+  if (!Object.prototype.hasOwnProperty.call(SECTION_PAGES, section)) return fail('section must be catalog or blog');
+  const auth = await requireAdminPage(req, SECTION_PAGES[section]);
+  if ('error' in auth) return auth.error;
+
+  revalidateTag(section);
+  if (section === 'catalog') {
+    // Runs once the response is sent: the admin's save doesn't wait on email
+    // delivery, and like every customer email it is best-effort
+    after(() => sendWishlistAlerts().catch((err) => console.error('wishlist alerts failed', err)));
+  }
+  return NextResponse.json({ ok: true, section });
+}
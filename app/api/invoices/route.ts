@@ -0,0 +1,96 @@
+import { API_BASE_URL } from '../../utils/api';
+import { backendHeaders } from '../../lib/adminSession';
+import { backendGet, loadOrderForRequest } from '../../lib/orderAccess';
+import {
+  buildInvoiceDocument,
+  normalizeInvoiceSettings,
+  renderInvoicePdf,
+} from '../../lib/invoices';
+import { hasCreditNote, type InvoiceKind } from '../../utils/invoices';
+import { fail } from '../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const LOGO_TIMEOUT_MS = 4000;
+
+// Numbers are handed out by the backend so they stay sequential with no gaps;
+// asking again for the same order and kind returns the number already issued.
+async function issueNumber(order_id: string, kind: InvoiceKind, prefix: string) {
+  const res = await fetch(`${API_BASE_URL}/api/issue-invoice/`, {
+    method: 'POST',
+    headers: backendHeaders({ 'Content-Type': 'application/json' }),
+    cache: 'no-store',
+    body: JSON.stringify({ order_id, kind, prefix }),
+  });
+  if (!res.ok) throw new Error(`issue-invoice ${res.status}`);
+  const data = await res.json();
+  if (!data?.number) throw new Error('issue-invoice returned no number');
+  return { number: String(data.number), issuedAt: String(data.issued_at || new Date().toISOString()) };
+}
+
+const logoUrl = (u?: string) => {
+  const v = (u || '').trim();
+  if (v.startsWith('http://') || v.startsWith('https://')) return v;
+  if (v.startsWith('/')) return `${API_BASE_URL}${v}`;
+  if (v.startsWith('media/') || v.startsWith('uploads/')) return `${API_BASE_URL}/${v}`;
+  return '';
+};
+
+// The invoice goes out without a logo rather than not at all
+async function loadLogo(): Promise<Uint8Array | null> {
+  try {
+    const { data } = await backendGet('/api/show-logo/');
+    const url = logoUrl(data?.logo?.url);
+    if (!url) return null;
+    const res = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+    return res.ok ? new Uint8Array(await res.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET ?order_id=…&kind=invoice|credit_note → PDF.
+ * Admins with orders access can fetch any order; customers pass their
+ * cart owner (device_uuid, plus an ID token for accounts) and the
+ * backend only returns orders that belong to it. Credit notes exist
+ * only for cancelled or refunded orders.
+ */
+export async function GET(req: Request) {
+  const lookup = await loadOrderForRequest(req);
+  if ('error' in lookup) return fail(lookup.error, lookup.status);
+  const { order } = lookup;
+  const orderId = String(order.orderID);
+  const kind: InvoiceKind = new URL(req.url).searchParams.get('kind') === 'credit_note' ? 'credit_note' : 'invoice';
+
+  if (kind === 'credit_note' && !hasCreditNote(order.status)) {
+    return fail('Credit notes are only issued for cancelled or refunded orders', 409);
+  }
+
+  const [settingsRes, logo] = await Promise.all([
+    backendGet('/api/show-invoice-settings/').catch(() => ({ status: 0, data: null })),
+    loadLogo(),
+  ]);
+  const seller = normalizeInvoiceSettings(settingsRes.data);
+
+  let issued: { kind: InvoiceKind; number: string; issuedAt: string; creditedInvoice?: string };
+  try {
+    const invoice = await issueNumber(orderId, 'invoice', seller.invoicePrefix);
+    issued =
+      kind === 'invoice'
+        ? { kind, ...invoice }
+        : { kind, ...(await issueNumber(orderId, 'credit_note', seller.creditNotePrefix)), creditedInvoice: invoice.number };
+  } catch (err) {
+    console.error('invoice numbering failed', err);
+    return fail('Failed to issue invoice number', 502);
+  }
+
+  const pdf = await renderInvoicePdf(buildInvoiceDocument(order, seller, issued), logo);
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${issued.number.replace(/[^\w.-]/g, '_')}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { loadCallbackForEmail, notifyCallback } from '../../../lib/notifications';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// Only requests made moments ago can be acknowledged
+const FRESH_MS = 10 * 60 * 1000;
+
+const sent = new Set<string>();
+const SENT_LIMIT = 5000;
+
+/**
+ * { id, device_uuid } → acknowledgement for a call-back request the
+ * home page just saved. The request must come from the device that
+ * created it and still be pending.
+ */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const id = String(body?.id ?? '').trim();
+  const device_uuid = String(body?.device_uuid ?? '').trim();
+  if (!id || !device_uuid) return fail('id and device_uuid are required');
+  if (sent.has(id)) return NextResponse.json({ sent: false });
+
+  const row = await loadCallbackForEmail(id);
+  if (!row || String(row.device_uuid) !== device_uuid) return fail('Call-back request not found', 404);
+  const age = Date.now() - Date.parse(row.created_at);
+  if (row.status !== 'pending' || !(age < FRESH_MS)) return NextResponse.json({ sent: false });
+
+  if (sent.size >= SENT_LIMIT) sent.clear();
+  sent.add(id);
+  return NextResponse.json({ sent: await notifyCallback('callback_received', row) });
+}
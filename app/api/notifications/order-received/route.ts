@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { notifyOrderReceived } from '../../../lib/notifications';
+import { backendGet, orderOwnerFromRequest, unwrapOrder } from '../../../lib/orderAccess';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// One confirmation per order per server process; checkout retries must not resend
+const sent = new Set<string>();
+const SENT_LIMIT = 5000;
+
+/**
+ * { order_id, device_uuid } (+ the account's ID token) → "order received" email.
+ * Called by checkout right after save-order. The order is looked up
+ * through the same owner check the /orders page uses, so only the
+ * browser that placed an order can trigger its confirmation, and the
+ * mail only ever goes to the address stored on the order.
+ */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  const orderId = String(body?.order_id ?? '').trim();
+  const device_uuid = String(body?.device_uuid ?? '').trim();
+  if (!orderId || !device_uuid) return fail('order_id and device_uuid are required');
+  if (sent.has(orderId)) return NextResponse.json({ sent: false });
+  const owner = await orderOwnerFromRequest(req, device_uuid);
+  if (!owner) return fail('Your sign-in expired. Sign in again.', 401);
+
+  let order: any = null;
+  try {
+    const { data } = await backendGet('/api/show-specific-user-order/', { order_id: orderId, ...owner });
+    order = unwrapOrder(data);
+  } catch {
+    return fail('Failed to load order', 502);
+  }
+  if (!order?.orderID) return fail('Order not found', 404);
+
+  if (sent.size >= SENT_LIMIT) sent.clear();
+  sent.add(orderId);
+  return NextResponse.json({ sent: await notifyOrderReceived(order) });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../utils/api';
+import { backendHeaders } from '../../lib/adminSession';
+import { orderOwnerFromRequest } from '../../lib/orderAccess';
+import { INITIAL_PAYMENT_STATUS, paymentMockAllowed, type PaymentMethodId } from '../../utils/payments';
+import { fail } from '../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST the checkout's order { …, device_uuid } + the account's ID token.
+ * Saved with the server key, so the backend can trust what this route
+ * stamps on it: the owner (uid only from a verified token) and the
+ * payment_status the chosen method starts with.
+ */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return fail('Body must be a JSON object');
+
+  const payment_method = String(body.payment_method || '') as PaymentMethodId;
+  if (!(payment_method in INITIAL_PAYMENT_STATUS) || (payment_method === 'mock' && !paymentMockAllowed())) {
+    return fail('Unknown payment method');
+  }
+
+  const owner = await orderOwnerFromRequest(req, String(body.device_uuid || '').trim());
+  if (!owner) return fail('Not allowed to place this order', 401);
+
+  try {
+    const headers = backendHeaders({ 'Content-Type': 'application/json' });
+    if (owner.device_uuid) headers.set('X-Device-UUID', owner.device_uuid);
+    const res = await fetch(`${API_BASE_URL}/api/save-order/`, {
+      method: 'POST',
+      headers,
+      cache: 'no-store',
+      body: JSON.stringify({
+        ...body,
+        device_uuid: owner.device_uuid,
+        firebase_uid: owner.firebase_uid || undefined,
+        payment_method,
+        payment_status: INITIAL_PAYMENT_STATUS[payment_method],
+      }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) return fail(String(data?.error || 'Failed to save order'), res.status >= 500 ? 502 : res.status);
+    return NextResponse.json(data);
+  } catch {
+    return fail('Failed to save order', 502);
+  }
+}
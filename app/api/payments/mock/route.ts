@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../utils/api';
+import { backendHeaders } from '../../../lib/adminSession';
+import { loadOrderForRequest } from '../../../lib/orderAccess';
+import { paymentMockAllowed } from '../../../utils/payments';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const OUTCOMES = new Set(['paid', 'failed', 'cancelled']);
+
+/**
+ * POST ?order_id=…(&device_uuid) + the account's ID token { outcome, reference }.
+ * Plays the part of a gateway webhook for the mock gateway page; gone
+ * unless the mock is allowed, and only for the customer's own mock orders.
+ */
+export async function POST(req: Request) {
+  if (!paymentMockAllowed()) return fail('Not found', 404);
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  const outcome = String(body?.outcome || '');
+  if (!OUTCOMES.has(outcome)) return fail('outcome must be paid, failed or cancelled');
+
+  const lookup = await loadOrderForRequest(req);
+  if ('error' in lookup) return fail(lookup.error, lookup.status);
+  if (lookup.order.payment_method !== 'mock') return fail('This order was not placed with the test gateway', 409);
+
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/update-payment-status/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      cache: 'no-store',
+      body: JSON.stringify({
+        order_id: String(lookup.order.orderID),
+        payment_method: 'mock',
+        payment_status: outcome,
+        reference: String(body?.reference || '').slice(0, 100),
+      }),
+    });
+    if (!res.ok) return fail('Failed to record the test payment', 502);
+  } catch {
+    return fail('Failed to record the test payment', 502);
+  }
+  return NextResponse.json({ payment_status: outcome });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { loadOrderForRequest } from '../../../lib/orderAccess';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET ?order_id=…(&device_uuid) + the account's ID token → { payment_status, payment_method }.
+ * Same access rules as invoices. Gateways report to the backend (webhook),
+ * so this is what the confirmation page shows; the browser never sets it.
+ */
+export async function GET(req: Request) {
+  const lookup = await loadOrderForRequest(req);
+  if ('error' in lookup) return fail(lookup.error, lookup.status);
+  const { order } = lookup;
+  return NextResponse.json({
+    payment_status: String(order.payment_status || 'unpaid'),
+    payment_method: String(order.payment_method || ''),
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { searchCatalog } from '../../lib/search';
+import { parseSearchFilters } from '../../utils/search';
+import { fail } from '../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/** GET ?q=&category=&method=&attr=Name:Value&min=&max=&sort=&page= → one page of hits with facet counts. Public. */
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await searchCatalog(parseSearchFilters(new URL(req.url).searchParams)));
+  } catch {
+    return fail('Search is unavailable right now', 502);
+  }
+}
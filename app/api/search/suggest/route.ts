@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { suggestSearch } from '../../../lib/search';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/** GET ?q= → completions, categories and top products for the header search boxes. Public. */
+export async function GET(req: Request) {
+  const q = (new URL(req.url).searchParams.get('q') || '').slice(0, 200);
+  try {
+    return NextResponse.json(await suggestSearch(q));
+  } catch {
+    return fail('Search is unavailable right now', 502);
+  }
+}
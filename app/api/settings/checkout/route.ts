@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import {
+  actorFrom,
+  backendFetch,
+  backendJSON,
+  badRequest,
+  diffSettings,
+  isPlainObject,
+  upstreamError,
+  writeAudit,
+} from '../shared';
+
+export const dynamic = 'force-dynamic';
+
+type CheckoutSettingsBody = {
+  guestCheckout: boolean;
+};
+
+// Off until an admin opts in — the storefront has always required sign-in
+const DEFAULTS: CheckoutSettingsBody = { guestCheckout: false };
+
+const loadStored = async (): Promise<CheckoutSettingsBody> => {
+  const data = await backendJSON<Partial<CheckoutSettingsBody>>('/api/show-checkout-settings/');
+  return { guestCheckout: data?.guestCheckout === true };
+};
+
+function validate(body: any): { value?: CheckoutSettingsBody; errors: string[] } {
+  if (!isPlainObject(body)) return { errors: ['Body must be a JSON object'] };
+  const errors: string[] = [];
+  if (typeof body.guestCheckout !== 'boolean') errors.push('guestCheckout must be true or false');
+  return errors.length ? { errors } : { value: { guestCheckout: body.guestCheckout }, errors };
+}
+
+export async function GET() {
+  return NextResponse.json(await loadStored());
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+
+  const { value, errors } = validate(body);
+  if (!value) return badRequest('Invalid checkout settings', errors);
+
+  const before = await loadStored().catch(() => DEFAULTS);
+
+  const res = await backendFetch('/api/save-checkout-settings/', {
+    method: 'POST',
+    body: JSON.stringify(value),
+  }).catch(() => null);
+  if (!res?.ok) return upstreamError('save checkout settings');
+
+  await writeAudit('checkout', await actorFrom(req), diffSettings(before, value));
+  return NextResponse.json(value);
+}
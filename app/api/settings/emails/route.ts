@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import {
+  actorFrom,
+  backendFetch,
+  badRequest,
+  isPlainObject,
+  upstreamError,
+  writeAudit,
+} from '../shared';
+import { loadEmailTemplates } from '../../../lib/notifications';
+import {
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATE_INFO,
+  emailTemplateErrors,
+  type EmailTemplates,
+} from '../../../utils/emailTemplates';
+
+export const dynamic = 'force-dynamic';
+
+type EmailSettingsBody = { templates: EmailTemplates };
+
+function validate(body: any): { value?: EmailSettingsBody; errors: string[] } {
+  if (!isPlainObject(body) || !isPlainObject(body.templates)) return { errors: ['templates must be an object'] };
+  const errors: string[] = [];
+  const templates = {} as EmailTemplates;
+  for (const id of EMAIL_TEMPLATE_IDS) {
+    const t = body.templates[id];
+    const problems = emailTemplateErrors(id, t);
+    if (problems.length) errors.push(...problems);
+    else templates[id] = { enabled: t.enabled, subject: t.subject.trim(), body: t.body.trim() };
+  }
+  return errors.length ? { errors } : { value: { templates }, errors };
+}
+
+export async function GET() {
+  return NextResponse.json({ templates: await loadEmailTemplates() });
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+
+  const { value, errors } = validate(body);
+  if (!value) return badRequest('Invalid email templates', errors);
+
+  const before = await loadEmailTemplates();
+
+  const res = await backendFetch('/api/save-email-settings/', {
+    method: 'POST',
+    body: JSON.stringify(value),
+  }).catch(() => null);
+  if (!res?.ok) return upstreamError('save email templates');
+
+  // Bodies are long; the log only needs to say which template changed and how
+  const changes: string[] = [];
+  for (const id of EMAIL_TEMPLATE_IDS) {
+    const a = before[id];
+    const b = value.templates[id];
+    const label = EMAIL_TEMPLATE_INFO[id].label;
+    if (a.enabled !== b.enabled) changes.push(`${label} ${b.enabled ? 'enabled' : 'disabled'}`);
+    if (a.subject !== b.subject) changes.push(`${label} subject: ${a.subject} → ${b.subject}`);
+    if (a.body !== b.body) changes.push(`${label} body updated`);
+  }
+  await writeAudit('emails', await actorFrom(req), changes);
+  return NextResponse.json(value);
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { badRequest, isPlainObject } from '../../shared';
+import { isEmail, sendMail } from '../../../../lib/mailer';
+import {
+  EMAIL_TEMPLATE_IDS,
+  SAMPLE_EMAIL_VARS,
+  emailTemplateErrors,
+  renderEmailTemplate,
+  type EmailTemplateId,
+} from '../../../../utils/emailTemplates';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * { id, template, to } → sends the (possibly unsaved) template filled
+ * with sample values, so admins can check it in a real inbox — or in
+ * the local mail stand-in during development.
+ */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+  if (!isPlainObject(body)) return badRequest('Body must be a JSON object');
+
+  const id = body.id as EmailTemplateId;
+  if (!EMAIL_TEMPLATE_IDS.includes(id)) return badRequest('Unknown template');
+  if (!isEmail(body.to)) return badRequest('A valid recipient address is required');
+  const errors = emailTemplateErrors(id, body.template);
+  if (errors.length) return badRequest('Invalid template', errors);
+
+  const rendered = renderEmailTemplate(body.template, SAMPLE_EMAIL_VARS);
+  try {
+    const sent = await sendMail({ to: String(body.to).trim(), ...rendered, subject: `[Test] ${rendered.subject}` });
+    if (!sent) return NextResponse.json({ error: 'Email is not configured on this server' }, { status: 503 });
+  } catch (err) {
+    console.error('test email failed', err);
+    return NextResponse.json({ error: 'The mail server refused the message' }, { status: 502 });
+  }
+  return NextResponse.json({ ok: true });
+}
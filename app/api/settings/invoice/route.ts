@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import {
+  actorFrom,
+  backendFetch,
+  backendJSON,
+  badRequest,
+  diffSettings,
+  isPlainObject,
+  upstreamError,
+  writeAudit,
+} from '../shared';
+import { DEFAULT_INVOICE_SETTINGS, normalizeInvoiceSettings, type InvoiceSettings } from '../../../lib/invoices';
+
+export const dynamic = 'force-dynamic';
+
+const loadStored = async (): Promise<InvoiceSettings> =>
+  normalizeInvoiceSettings(await backendJSON('/api/show-invoice-settings/'));
+
+const TEXT_LIMITS: Record<Exclude<keyof InvoiceSettings, 'vatRegistered'>, number> = {
+  companyName: 120,
+  address: 400,
+  trn: 15,
+  email: 120,
+  phone: 40,
+  invoicePrefix: 12,
+  creditNotePrefix: 12,
+  footerNote: 400,
+};
+
+function validate(body: any): { value?: InvoiceSettings; errors: string[] } {
+  if (!isPlainObject(body)) return { errors: ['Body must be a JSON object'] };
+  const errors: string[] = [];
+
+  const text = {} as Record<keyof typeof TEXT_LIMITS, string>;
+  (Object.keys(TEXT_LIMITS) as (keyof typeof TEXT_LIMITS)[]).forEach((key) => {
+    const v = String(body[key] ?? '').trim();
+    if (v.length > TEXT_LIMITS[key]) errors.push(`${key} must be at most ${TEXT_LIMITS[key]} characters`);
+    text[key] = v;
+  });
+
+  if (typeof body.vatRegistered !== 'boolean') errors.push('vatRegistered must be true or false');
+  if (!text.companyName) errors.push('companyName is required');
+  // UAE Tax Registration Numbers are 15 digits
+  if (text.trn && !/^\d{15}$/.test(text.trn)) errors.push('trn must be 15 digits');
+  if (body.vatRegistered === true && !text.trn) errors.push('A TRN is required when VAT registered');
+  if (text.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text.email)) errors.push('email must be a valid address');
+  for (const key of ['invoicePrefix', 'creditNotePrefix'] as const) {
+    if (!/^[A-Z0-9-]{1,12}$/.test(text[key])) errors.push(`${key} may only use A-Z, 0-9 and "-"`);
+  }
+  if (text.invoicePrefix && text.invoicePrefix === text.creditNotePrefix) {
+    errors.push('Invoices and credit notes need different prefixes');
+  }
+
+  return errors.length ? { errors } : { value: { ...text, vatRegistered: body.vatRegistered }, errors };
+}
+
+export async function GET() {
+  return NextResponse.json(await loadStored());
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+
+  const { value, errors } = validate(body);
+  if (!value) return badRequest('Invalid invoice settings', errors);
+
+  const before = await loadStored().catch(() => DEFAULT_INVOICE_SETTINGS);
+
+  const res = await backendFetch('/api/save-invoice-settings/', {
+    method: 'POST',
+    body: JSON.stringify(value),
+  }).catch(() => null);
+  if (!res?.ok) return upstreamError('save invoice settings');
+
+  await writeAudit('invoice', await actorFrom(req), diffSettings(before, value));
+  return NextResponse.json(value);
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { backendJSON, formatAudit, isPlainObject, type AuditEntry } from '../../shared';
+
+export const dynamic = 'force-dynamic';
+
+// Newest first; the panel renders each entry as one line
+export async function GET() {
+  const data = await backendJSON<{ logs?: AuditEntry[] } | AuditEntry[]>(
+    '/api/show-settings-logs/?section=payment'
+  );
+  const list = Array.isArray(data) ? data : Array.isArray(data?.logs) ? data.logs : [];
+  const logs = list
+    .filter((e) => isPlainObject(e) && e.section === 'payment' && Array.isArray(e.changes))
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at))
+    .map(formatAudit);
+  return NextResponse.json({ logs });
+}
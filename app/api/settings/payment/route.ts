@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import {
+  actorFrom,
+  backendFetch,
+  backendJSON,
+  badRequest,
+  diffSettings,
+  isMasked,
+  isPlainObject,
+  maskSecret,
+  upstreamError,
+  writeAudit,
+} from '../shared';
+
+export const dynamic = 'force-dynamic';
+
+type PaymentSettingsBody = {
+  stripeKey: string;
+  paypalKey: string;
+  codEnabled: boolean;
+  mode: 'sandbox' | 'live';
+};
+
+const SECRET_KEYS = ['stripeKey', 'paypalKey'];
+
+// null when the backend can't be read. Saves need the stored keys (a masked
+// value in the form means "keep it"), so they must not run on a guess.
+// Sandbox only when saved as such, like DEFAULT_SETTINGS in utils/payments.
+const loadStored = async (): Promise<PaymentSettingsBody | null> => {
+  const data = await backendJSON<Partial<PaymentSettingsBody>>('/api/show-payment-settings/');
+  if (!data) return null;
+  return {
+    stripeKey: String(data.stripeKey || ''),
+    paypalKey: String(data.paypalKey || ''),
+    codEnabled: data.codEnabled !== false,
+    mode: data.mode === 'sandbox' ? 'sandbox' : 'live',
+  };
+};
+
+function validate(body: any, stored: PaymentSettingsBody): { value?: PaymentSettingsBody; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(body)) return { errors: ['Body must be a JSON object'] };
+
+  // A masked value means "unchanged" — the browser never sees the real key
+  const resolve = (key: 'stripeKey' | 'paypalKey') => {
+    const v = String(body[key] ?? '').trim();
+    return isMasked(v) ? stored[key] : v;
+  };
+  const stripeKey = resolve('stripeKey');
+  const paypalKey = resolve('paypalKey');
+
+  if (stripeKey && !/^(sk|rk)_(live|test)_[A-Za-z0-9]+$/.test(stripeKey)) {
+    errors.push('stripeKey must be a Stripe secret key (sk_live_… / sk_test_…)');
+  }
+  if (paypalKey && !/^[A-Za-z0-9_-]{10,}$/.test(paypalKey)) {
+    errors.push('paypalKey must be a PayPal client id');
+  }
+  if (typeof body.codEnabled !== 'boolean') errors.push('codEnabled must be true or false');
+  if (!['sandbox', 'live'].includes(body.mode)) errors.push('mode must be sandbox or live');
+
+  if (body.mode === 'live') {
+    if (stripeKey.startsWith('sk_test_') || stripeKey.startsWith('rk_test_')) {
+      errors.push('Live mode cannot use a Stripe test key');
+    }
+    if (!stripeKey && !paypalKey && !body.codEnabled) {
+      errors.push('Live mode needs at least one gateway key or Cash on Delivery');
+    }
+  }
+
+  return errors.length
+    ? { errors }
+    : { value: { stripeKey, paypalKey, codEnabled: body.codEnabled, mode: body.mode }, errors };
+}
+
+const masked = (s: PaymentSettingsBody): PaymentSettingsBody => ({
+  ...s,
+  stripeKey: maskSecret(s.stripeKey),
+  paypalKey: maskSecret(s.paypalKey),
+});
+
+export async function GET() {
+  const stored = await loadStored();
+  if (!stored) return upstreamError('load payment settings');
+  return NextResponse.json(masked(stored));
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+
+  const stored = await loadStored();
+  if (!stored) return upstreamError('load payment settings');
+  const { value, errors } = validate(body, stored);
+  if (!value) return badRequest('Invalid payment settings', errors);
+
+  const res = await backendFetch('/api/save-payment-settings/', {
+    method: 'POST',
+    body: JSON.stringify(value),
+  }).catch(() => null);
+  if (!res?.ok) return upstreamError('save payment settings');
+
+  await writeAudit('payment', await actorFrom(req), diffSettings(stored, value, SECRET_KEYS));
+  return NextResponse.json(masked(value));
+}
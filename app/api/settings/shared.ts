@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../utils/api';
+import { backendHeaders, sessionFromRequest } from '../../lib/adminSession';
+
+/* =========================================================
+   Server-side helpers for the /api/settings/* route handlers.
+   Settings live in the Django backend; these handlers validate,
+   mask secrets and write an audit entry for every change.
+   ========================================================= */
+
+export type SettingsSection = 'shipping' | 'payment' | 'checkout' | 'invoice' | 'emails';
+
+export type AuditEntry = {
+  created_at: string;
+  section: SettingsSection;
+  actor: string;
+  changes: string[];
+};
+
+export async function backendFetch(path: string, init: RequestInit = {}) {
+  const headers = backendHeaders(init.headers || {});
+  if (init.body) headers.set('Content-Type', 'application/json');
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers, cache: 'no-store' });
+}
+
+export async function backendJSON<T = any>(path: string, init: RequestInit = {}): Promise<T | null> {
+  try {
+    const res = await backendFetch(path, init);
+    if (!res.ok) return null;
+    return (await res.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+export const badRequest = (error: string, details: string[] = []) =>
+  NextResponse.json({ error, details }, { status: 400 });
+
+export const upstreamError = (what: string) =>
+  NextResponse.json({ error: `Failed to ${what}` }, { status: 502 });
+
+/* =========================================================
+   Secrets
+   ========================================================= */
+
+const MASK = '••••••';
+
+// "sk_live_abc…wxyz" → "sk_live_••••••wxyz"; short values are fully masked
+export function maskSecret(value: string): string {
+  const v = String(value || '');
+  if (!v) return '';
+  if (v.length <= 8) return MASK;
+  const prefix = v.match(/^[a-z]{2}_(live|test)_/i)?.[0] || '';
+  return `${prefix}${MASK}${v.slice(-4)}`;
+}
+
+export const isMasked = (value: string) => String(value || '').includes(MASK);
+
+/* =========================================================
+   Audit log
+   ========================================================= */
+
+// The middleware only lets signed-in admins write, so the session names the actor
+export const actorFrom = async (req: Request) => (await sessionFromRequest(req))?.admin_id || 'unknown';
+
+export function diffSettings(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  secretKeys: string[] = []
+): string[] {
+  const changes: string[] = [];
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+  for (const key of keys) {
+    const a = JSON.stringify(before?.[key] ?? null);
+    const b = JSON.stringify(after?.[key] ?? null);
+    if (a === b) continue;
+    if (secretKeys.includes(key)) {
+      changes.push(after?.[key] ? `${key} updated` : `${key} removed`);
+    } else if (typeof after?.[key] === 'object' && after?.[key] !== null) {
+      changes.push(`${key} updated`);
+    } else {
+      changes.push(`${key}: ${before?.[key] ?? '—'} → ${after?.[key] ?? '—'}`);
+    }
+  }
+  return changes;
+}
+
+export async function writeAudit(section: SettingsSection, actor: string, changes: string[]) {
+  if (!changes.length) return;
+  const entry: AuditEntry = { created_at: new Date().toISOString(), section, actor, changes };
+  // Audit failures must never block the settings save itself
+  try {
+    await backendFetch('/api/save-settings-log/', { method: 'POST', body: JSON.stringify(entry) });
+  } catch (err) {
+    console.error('settings audit write failed', err);
+  }
+}
+
+export const formatAudit = (e: AuditEntry) =>
+  `${new Date(e.created_at).toLocaleString('en-GB')} · admin ${e.actor} · ${e.changes.join(', ')}`;
+
+/* =========================================================
+   Small validators
+   ========================================================= */
+
+export const isPlainObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+export const isNonNegativeNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
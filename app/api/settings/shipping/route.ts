@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { SHIPPING_COUNTRIES } from '../../../utils/pricing';
+import {
+  actorFrom,
+  backendFetch,
+  backendJSON,
+  badRequest,
+  diffSettings,
+  isNonNegativeNumber,
+  isPlainObject,
+  upstreamError,
+  writeAudit,
+} from '../shared';
+
+export const dynamic = 'force-dynamic';
+
+type ShippingSettingsBody = {
+  zones: Array<{
+    zoneName: string;
+    country: string;
+    type: 'flat' | 'weight' | 'free';
+    price: number;
+    cities: string[];
+    classRates: Record<string, number>;
+    freeOver: number;
+  }>;
+  integrations: { aramex: boolean; dhl: boolean };
+};
+
+const DEFAULTS: ShippingSettingsBody = { zones: [], integrations: { aramex: false, dhl: false } };
+
+function validate(body: any): { value?: ShippingSettingsBody; errors: string[] } {
+  const errors: string[] = [];
+  if (!isPlainObject(body)) return { errors: ['Body must be a JSON object'] };
+  if (!Array.isArray(body.zones)) errors.push('zones must be an array');
+  if (!isPlainObject(body.integrations)) errors.push('integrations must be an object');
+  if (errors.length) return { errors };
+
+  const zones: ShippingSettingsBody['zones'] = [];
+  body.zones.forEach((z: any, i: number) => {
+    const at = `zones[${i}]`;
+    if (!isPlainObject(z)) return errors.push(`${at} must be an object`);
+    const zoneName = String(z.zoneName ?? '').trim();
+    if (!zoneName || zoneName.length > 100) errors.push(`${at}.zoneName is required (max 100 chars)`);
+    if (!(SHIPPING_COUNTRIES as readonly string[]).includes(z.country)) {
+      errors.push(`${at}.country must be one of ${SHIPPING_COUNTRIES.join(', ')}`);
+    }
+    if (!['flat', 'weight', 'free'].includes(z.type)) errors.push(`${at}.type must be flat, weight or free`);
+    if (z.type !== 'free' && !isNonNegativeNumber(z.price)) errors.push(`${at}.price must be a number ≥ 0`);
+    if (z.freeOver !== undefined && !isNonNegativeNumber(z.freeOver)) {
+      errors.push(`${at}.freeOver must be a number ≥ 0`);
+    }
+    const cities = z.cities ?? [];
+    if (!Array.isArray(cities) || cities.some((c: unknown) => typeof c !== 'string')) {
+      errors.push(`${at}.cities must be a list of names`);
+    }
+    const classRates = z.classRates ?? {};
+    if (!isPlainObject(classRates) || Object.values(classRates).some((v) => !isNonNegativeNumber(v))) {
+      errors.push(`${at}.classRates must map class names to numbers ≥ 0`);
+    }
+    zones.push({
+      zoneName,
+      country: z.country,
+      type: z.type,
+      price: z.type === 'free' ? 0 : Number(z.price) || 0,
+      cities: Array.isArray(cities) ? cities.map((c: string) => c.trim()).filter(Boolean) : [],
+      classRates: isPlainObject(classRates) ? classRates : {},
+      freeOver: Number(z.freeOver) || 0,
+    });
+  });
+
+  // the same city can only belong to one zone per country
+  const seen = new Set<string>();
+  zones.forEach((z) => {
+    const keys = z.cities.length ? z.cities.map((c) => `${z.country}|${c.toLowerCase()}`) : [`${z.country}|*`];
+    keys.forEach((k) => {
+      if (seen.has(k)) errors.push(`Duplicate zone for ${k.replace('|*', ' (whole country)').replace('|', ' / ')}`);
+      seen.add(k);
+    });
+  });
+
+  const integrations = {
+    aramex: body.integrations.aramex === true,
+    dhl: body.integrations.dhl === true,
+  };
+
+  return errors.length ? { errors } : { value: { zones, integrations }, errors };
+}
+
+export async function GET() {
+  const data = await backendJSON<Partial<ShippingSettingsBody>>('/api/show-shipping-settings/');
+  return NextResponse.json({
+    zones: Array.isArray(data?.zones) ? data.zones : DEFAULTS.zones,
+    integrations: isPlainObject(data?.integrations) ? data.integrations : DEFAULTS.integrations,
+  });
+}
+
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return badRequest('Invalid JSON');
+  }
+
+  const { value, errors } = validate(body);
+  if (!value) return badRequest('Invalid shipping settings', errors);
+
+  const before = (await backendJSON<ShippingSettingsBody>('/api/show-shipping-settings/')) || DEFAULTS;
+
+  const res = await backendFetch('/api/save-shipping-settings/', {
+    method: 'POST',
+    body: JSON.stringify(value),
+  }).catch(() => null);
+  if (!res?.ok) return upstreamError('save shipping settings');
+
+  await writeAudit('shipping', await actorFrom(req), diffSettings(before, value));
+  return NextResponse.json(value);
+}
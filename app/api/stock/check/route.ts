@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { loadStockLevels } from '../../../lib/inventory';
+import { mergeStockLines, stockShortages, type StockLine } from '../../../utils/inventory';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LINES = 100;
+
+/** { lines: [{ product_id, variant_signature, quantity }] } → { shortages }. Public: checkout calls it. */
+export async function POST(req: Request) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+  if (!Array.isArray(body?.lines)) return fail('lines must be an array');
+  if (body.lines.length > MAX_LINES) return fail(`At most ${MAX_LINES} lines`);
+
+  const lines: StockLine[] = mergeStockLines(
+    body.lines.map((l: any) => ({
+      product_id: String(l?.product_id ?? '').trim(),
+      variant_signature: String(l?.variant_signature ?? ''),
+      quantity: Number(l?.quantity) || 0,
+    }))
+  );
+
+  try {
+    const levels = await loadStockLevels(lines.map((l) => l.product_id));
+    return NextResponse.json({ shortages: stockShortages(lines, levels) });
+  } catch {
+    return fail('Failed to check stock', 502);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { loadOrderForRequest } from '../../../lib/orderAccess';
+import { reserveOrderStock } from '../../../lib/inventory';
+import { orderStockLines, oversoldLines } from '../../../utils/inventory';
+import { sessionFromRequest } from '../../../lib/adminSession';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST ?order_id=…(&device_uuid) + the account's ID token → holds the order's items.
+ * Called right after save-order by checkout (owner check, like invoices)
+ * and by the admin order form (session cookie). Safe to repeat: the backend
+ * applies one reservation per order. 409 { shortages } when the hold left
+ * lines short (someone bought the last units since the checkout's check).
+ */
+export async function POST(req: Request) {
+  const lookup = await loadOrderForRequest(req);
+  if ('error' in lookup) return fail(lookup.error, lookup.status);
+
+  const session = lookup.isAdmin ? await sessionFromRequest(req) : null;
+  const actor = session ? session.admin_name || session.admin_id : 'checkout';
+  try {
+    const levels = await reserveOrderStock(lookup.order, actor);
+    const shortages = oversoldLines(orderStockLines(lookup.order), levels);
+    if (shortages.length) return fail('Some items are no longer in stock', 409, { shortages, levels });
+    return NextResponse.json({ reserved: levels.length > 0, levels });
+  } catch (err) {
+    console.error('stock reservation failed', err);
+    return fail('Failed to reserve stock', 502);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { loadOrderForRequest } from '../../lib/orderAccess';
+import { carrierFor, isCarrierError } from '../../lib/carriers';
+import { normalizeShipment, sortTrackingEvents, type TrackingEvent } from '../../utils/shipments';
+import { fail } from '../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+// Carriers rate-limit tracking; the modal is opened far more often than parcels move
+const CACHE_MS = 5 * 60 * 1000;
+const CACHE_LIMIT = 2000;
+const cache = new Map<string, { at: number; events: TrackingEvent[] }>();
+
+/**
+ * GET ?order_id=…(&device_uuid) + the account's ID token → { shipment, events }.
+ * Same access rules as invoices. A carrier outage still returns the
+ * shipment, with `error` set and no events.
+ */
+export async function GET(req: Request) {
+  const lookup = await loadOrderForRequest(req);
+  if ('error' in lookup) return fail(lookup.error, lookup.status);
+
+  const shipment = normalizeShipment(lookup.order.shipment);
+  if (!shipment) return NextResponse.json({ shipment: null, events: [] });
+  // customers don't need to know which admin booked it
+  const visible = lookup.isAdmin ? shipment : { ...shipment, created_by: '' };
+
+  const key = `${shipment.carrier}:${shipment.tracking_number}`;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < CACHE_MS) return NextResponse.json({ shipment: visible, events: hit.events });
+
+  try {
+    const events = sortTrackingEvents(await carrierFor(shipment.carrier).track(shipment.tracking_number));
+    if (cache.size >= CACHE_LIMIT) cache.clear();
+    cache.set(key, { at: Date.now(), events });
+    return NextResponse.json({ shipment: visible, events });
+  } catch (err) {
+    if (!isCarrierError(err)) console.error('tracking failed', err);
+    return NextResponse.json({ shipment: visible, events: [], error: 'Live tracking is temporarily unavailable' });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { sendWishlistAlerts } from '../../../lib/wishlist';
+import { bearerMatches, fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+const ALERTS_SECRET = (process.env.WISHLIST_ALERTS_SECRET || '').trim();
+
+/**
+ * POST with `Authorization: Bearer $WISHLIST_ALERTS_SECRET` — for a cron job,
+ * so stock that changes outside the product editor still sends alerts.
+ * → { checked, sent }
+ */
+export async function POST(req: Request) {
+  if (!ALERTS_SECRET) return fail('Wishlist alerts trigger is not configured', 503);
+  if (!bearerMatches(req, ALERTS_SECRET)) return fail('Unauthorized', 401);
+
+  try {
+    return NextResponse.json(await sendWishlistAlerts());
+  } catch {
+    return fail('Failed to check wishlists', 502);
+  }
+}
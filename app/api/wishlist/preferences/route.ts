@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '../../../utils/api';
+import { backendHeaders } from '../../../lib/adminSession';
+import { accountFromRequest } from '../../../lib/accountAuth';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST { back_in_stock, price_drop } + the account's ID token → { email }.
+ * Alerts go to the address on the verified token, never one the
+ * browser names, so nobody can point someone else's alerts elsewhere.
+ */
+export async function POST(req: Request) {
+  const auth = await accountFromRequest(req);
+  if (auth.status !== 'ok') return fail('Sign in to get wishlist alerts', 401);
+  const { uid, email } = auth.account;
+  if (!email) return fail('Your account has no email address for alerts', 422);
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return fail('Invalid JSON');
+  }
+
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/save-wishlist-alerts/`, {
+      method: 'POST',
+      headers: backendHeaders({ 'Content-Type': 'application/json' }),
+      cache: 'no-store',
+      body: JSON.stringify({
+        firebase_uid: uid,
+        back_in_stock: body?.back_in_stock === true,
+        price_drop: body?.price_drop === true,
+        email,
+      }),
+    });
+    if (!res.ok) return fail('Failed to save your alert settings', 502);
+  } catch {
+    return fail('Failed to save your alert settings', 502);
+  }
+  return NextResponse.json({ email });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { loadSearchHits } from '../../../lib/search';
+import { WISHLIST_MAX_ITEMS } from '../../../utils/wishlist';
+import { fail } from '../../../lib/apiRoutes';
+
+export const dynamic = 'force-dynamic';
+
+/** GET ?ids=1,2,3 → { hits } in that order; products no longer in the menu are left out. Public. */
+export async function GET(req: Request) {
+  const ids = Array.from(
+    new Set((new URL(req.url).searchParams.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean))
+  );
+  if (ids.length > WISHLIST_MAX_ITEMS) return fail(`At most ${WISHLIST_MAX_ITEMS} ids`);
+  try {
+    return NextResponse.json({ hits: await loadSearchHits(ids) });
+  } catch {
+    return fail('Products are unavailable right now', 502);
+  }
+}
@@ -9,6 +9,7 @@ import LogoSection from '../components/LogoSection';
 import Footer from '../components/Footer';
 import { SafeImg } from '../components/SafeImage';
 import { API_BASE_URL } from '../utils/api';
+import { apiFetch } from '../utils/apiClient';
 import Script from 'next/script';
 
 type Blog = {
@@ -23,13 +24,6 @@ type Blog = {
   updated?: string | null;
 };
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  headers.set('Accept', 'application/json');
-  return { ...init, headers, cache: 'no-store' };
-};
 
 const fallbackPosts: Blog[] = [
   {
@@ -81,7 +75,7 @@ export default function BlogPage() {
 
     const fetchBlogs = async () => {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/show-all-blogs/`, withFrontendKey());
+        const res = await apiFetch(`${API_BASE_URL}/api/show-all-blogs/`);
         if (!res.ok) throw new Error('Failed to fetch blogs');
         const data: Blog[] = await res.json();
 
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+
+import MobileTopBar from '../../components/HomePageTop';
+import TempHeader from '../../components/TempHeader';
+import Footer from '../../components/Footer';
+import LoginModal from '../../components/LoginModal';
+import { useCart } from '../../components/CartProvider';
+import { cartOwner, isAbortError } from '../../utils/apiClient';
+import { guestOrderEmail, orderTrackingUrl } from '../../utils/checkout';
+import {
+  fetchPaymentStatus,
+  getPaymentProvider,
+  PAYMENT_STATUS_LABELS,
+  WHATSAPP_NUMBER,
+  type PaymentMethodId,
+  type PaymentStatus,
+} from '../../utils/payments';
+
+const STATUS_COPY: Record<PaymentStatus, { title: string; body: string; tone: string }> = {
+  paid: {
+    title: 'Payment received — thank you!',
+    body: 'Your order is confirmed and our team will start working on it shortly.',
+    tone: 'text-green-700',
+  },
+  pending: {
+    title: 'Order placed',
+    body: 'We have received your order. Payment will be collected as agreed.',
+    tone: 'text-[#891F1A]',
+  },
+  unpaid: {
+    title: 'Order placed',
+    body: 'We have received your order and are waiting for payment.',
+    tone: 'text-[#891F1A]',
+  },
+  failed: {
+    title: 'Payment failed',
+    body: 'Your order was saved but the payment did not go through. You can contact us to complete it.',
+    tone: 'text-red-700',
+  },
+  cancelled: {
+    title: 'Payment cancelled',
+    body: 'Your order was saved without payment. Contact us if you would like to complete it.',
+    tone: 'text-red-700',
+  },
+};
+
+const CHECKING_COPY = {
+  title: 'Confirming your payment…',
+  body: 'This usually takes a few seconds. You can leave this page; your order is saved either way.',
+  tone: 'text-[#891F1A]',
+};
+
+// Gateways confirm through the backend, which can lag the customer's return by a few seconds
+const POLL_MS = 3000;
+const POLL_ATTEMPTS = 10;
+const ONLINE_METHODS: PaymentMethodId[] = ['card', 'mock'];
+
+function Confirmation() {
+  const params = useSearchParams();
+  const orderId = params.get('order_id') || '';
+  const method = (params.get('method') || '') as PaymentMethodId;
+  const cancelled = params.get('cancelled') === '1';
+  const ref = params.get('ref') || '';
+
+  const provider = getPaymentProvider(method);
+  const [serverStatus, setServerStatus] = useState<PaymentStatus | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [syncError, setSyncError] = useState(false);
+
+  // Guest orders: tracking link + an offer to sign up (the login merge claims this device's orders)
+  const { accountUid, accountReady } = useCart();
+  const [guestEmail, setGuestEmail] = useState('');
+  const [signupOpen, setSignupOpen] = useState(false);
+  const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signup');
+  const nameRef = useRef<HTMLInputElement>(null);
+  const emailRef = useRef<HTMLInputElement>(null);
+  const passwordRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (orderId) setGuestEmail(guestOrderEmail(orderId));
+  }, [orderId]);
+
+  const isGuestOrder = !!guestEmail;
+  const trackingHref = isGuestOrder ? orderTrackingUrl(orderId, guestEmail) : '';
+
+  // Read the status the server has; online payments are re-checked until the gateway has reported
+  useEffect(() => {
+    if (!orderId || !accountReady) return;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    const check = async () => {
+      attempts++;
+      try {
+        const { payment_status } = await fetchPaymentStatus(orderId, cartOwner(), controller.signal);
+        setServerStatus(payment_status);
+        setSyncError(false);
+        const waiting = ONLINE_METHODS.includes(method) && !cancelled && payment_status === 'unpaid';
+        if (waiting && attempts < POLL_ATTEMPTS) {
+          timer = setTimeout(check, POLL_MS);
+          return;
+        }
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('❌ Payment status check failed:', err);
+        setSyncError(true);
+      }
+      setChecking(false);
+    };
+    check();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [orderId, accountReady, method, cancelled]);
+
+  // Backing out of a gateway leaves the order unpaid; say why
+  const status: PaymentStatus | null = serverStatus === 'unpaid' && cancelled ? 'cancelled' : serverStatus;
+  const copy = checking ? CHECKING_COPY : STATUS_COPY[status || 'unpaid'];
+
+  return (
+    <main className="max-w-2xl mx-auto py-16 px-4" aria-labelledby="confirmation-heading">
+      <section className="bg-white shadow rounded-lg p-8 space-y-6 text-black">
+        <h1 id="confirmation-heading" className={`text-2xl font-semibold ${copy.tone}`}>
+          {copy.title}
+        </h1>
+        <p className="text-sm text-gray-700">{copy.body}</p>
+
+        <dl className="text-sm space-y-2 border-t pt-4">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Order number</dt>
+            <dd className="font-medium">{orderId ? `#${orderId}` : '—'}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Payment method</dt>
+            <dd className="font-medium">{provider?.label || '—'}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Payment status</dt>
+            <dd className="font-medium">{status ? PAYMENT_STATUS_LABELS[status] : '—'}</dd>
+          </div>
+          {ref ? (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Reference</dt>
+              <dd className="font-mono text-xs">{ref}</dd>
+            </div>
+          ) : null}
+        </dl>
+
+        {isGuestOrder ? (
+          <div className="rounded-md border border-gray-200 bg-gray-50 p-4 text-sm space-y-3">
+            <p>
+              We&apos;ve emailed a link to track this order to <span className="font-medium">{guestEmail}</span>.
+            </p>
+            {!accountReady ? null : accountUid ? (
+              <p className="text-green-700" role="status">
+                This order is now saved to your account.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-gray-700">
+                  Create an account to see this order and your future orders in one place, and check out faster next
+                  time.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAuthMode('signup');
+                    setSignupOpen(true);
+                  }}
+                  className="px-4 py-2 rounded-md bg-[#891F1A] text-white text-sm font-medium hover:bg-[#6e1815]"
+                >
+                  Create an account
+                </button>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {syncError ? (
+          <p className="text-xs text-amber-700" role="status">
+            We could not check the payment status right now. Our team will confirm it with you.
+          </p>
+        ) : null}
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Link
+            href={isGuestOrder && !accountUid ? trackingHref : '/orders'}
+            className="flex-1 text-center py-3 rounded-md bg-[#891F1A] text-white text-sm font-medium hover:bg-[#6e1815]"
+          >
+            {isGuestOrder && !accountUid ? 'Track this order' : 'View my orders'}
+          </Link>
+          {status === 'failed' || status === 'cancelled' ? (
+            <a
+              href={`https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(`Hi, I need help paying for order #${orderId}`)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 text-center py-3 rounded-md border border-gray-300 text-sm font-medium"
+            >
+              Contact us on WhatsApp
+            </a>
+          ) : (
+            <Link
+              href="/home"
+              className="flex-1 text-center py-3 rounded-md border border-gray-300 text-sm font-medium"
+            >
+              Continue shopping
+            </Link>
+          )}
+        </div>
+      </section>
+
+      <LoginModal
+        isVisible={signupOpen}
+        mode={authMode}
+        nameRef={nameRef}
+        emailRef={emailRef}
+        passwordRef={passwordRef}
+        onClose={() => setSignupOpen(false)}
+        onAuth={async () => {
+          setSignupOpen(false);
+        }}
+        toggleMode={() => setAuthMode((m) => (m === 'signin' ? 'signup' : 'signin'))}
+      />
+    </main>
+  );
+}
+
+export default function CheckoutConfirmationPage() {
+  return (
+    <div
+      className="min-h-screen bg-gray-50 text-black text-[3.5vw] sm:text-base"
+      style={{ fontFamily: 'var(--font-poppins), Arial, Helvetica, sans-serif' }}
+    >
+      <TempHeader />
+      <MobileTopBar />
+      <Suspense fallback={<div className="min-h-[50vh]" />}>
+        <Confirmation />
+      </Suspense>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { cartOwner } from '../../utils/apiClient';
+import { completeMockPayment, confirmationUrl } from '../../utils/payments';
+
+/* =========================================================
+   Local stand-in for a hosted card gateway (sandbox only).
+   Approve/Decline is recorded by the server, as a real
+   gateway's webhook would be, then the browser goes back to
+   the confirmation page.
+   ========================================================= */
+
+function MockGateway() {
+  const router = useRouter();
+  const params = useSearchParams();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const orderId = params.get('order_id') || '';
+  const amount = params.get('amount') || '0.00';
+  const currency = params.get('currency') || 'AED';
+  const ref = params.get('ref') || '';
+
+  const finish = async (outcome: 'paid' | 'failed' | 'cancelled') => {
+    setBusy(true);
+    setError('');
+    try {
+      await completeMockPayment(orderId, outcome, ref, cartOwner());
+      router.replace(confirmationUrl({ order_id: orderId, method: 'mock', ref, cancelled: outcome === 'cancelled' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the test payment');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-gray-100 flex items-center justify-center px-4 text-black"
+      style={{ fontFamily: 'var(--font-poppins), Arial, Helvetica, sans-serif' }}
+    >
+      <main className="w-full max-w-md bg-white rounded-xl shadow p-8 space-y-6" aria-labelledby="mock-heading">
+        <div className="text-xs uppercase tracking-wide text-amber-700 bg-amber-50 border border-amber-200 rounded px-3 py-1 inline-block">
+          Sandbox · no real money is charged
+        </div>
+        <h1 id="mock-heading" className="text-2xl font-semibold">Test Payment</h1>
+
+        <dl className="text-sm space-y-2">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Order</dt>
+            <dd className="font-medium">#{orderId || '—'}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Reference</dt>
+            <dd className="font-mono text-xs">{ref || '—'}</dd>
+          </div>
+          <div className="flex justify-between border-t pt-2">
+            <dt className="font-semibold">Amount</dt>
+            <dd className="font-semibold">
+              {currency} {amount}
+            </dd>
+          </div>
+        </dl>
+
+        {error ? (
+          <p className="text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        ) : null}
+
+        <div className="grid grid-cols-1 gap-2">
+          <button
+            onClick={() => finish('paid')}
+            disabled={busy || !orderId}
+            className="w-full py-3 rounded-md bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+          >
+            Approve payment
+          </button>
+          <button
+            onClick={() => finish('failed')}
+            disabled={busy || !orderId}
+            className="w-full py-3 rounded-md bg-[#891F1A] text-white text-sm font-medium hover:bg-[#6e1815] disabled:opacity-50"
+          >
+            Decline payment
+          </button>
+          <button
+            onClick={() => finish('cancelled')}
+            disabled={busy || !orderId}
+            className="w-full py-2 rounded-md border border-gray-300 text-sm disabled:opacity-50"
+          >
+            Cancel and return
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function MockGatewayPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-100" />}>
+      <MockGateway />
+    </Suspense>
+  );
+}
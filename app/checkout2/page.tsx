@@ -8,9 +8,35 @@ import 'toastify-js/src/toastify.css';
 
 import MobileTopBar from '../components/HomePageTop';
 import Footer from '../components/Footer';
-import { API_BASE_URL } from '../utils/api';
+import { cartOwner, ensureDeviceUUID } from '../utils/apiClient';
+import { useCart } from '../components/CartProvider';
 import { ChatBot } from '../components/ChatBot';
 import { SafeImg } from '../components/SafeImage';
+import {
+  priceCart,
+  fetchShippingZones,
+  fetchProductPricingInfo,
+  SHIPPING_COUNTRIES,
+  type ShippingZone,
+  type ProductPricingInfo,
+} from '../utils/pricing';
+import { fetchPromotionByCode, type Promotion } from '../utils/promotions';
+import {
+  availablePaymentProviders,
+  confirmationUrl,
+  fetchPaymentSettings,
+  getPaymentProvider,
+  type PaymentMethodId,
+  type PaymentSettings,
+} from '../utils/payments';
+import {
+  isGuestCheckoutEnabled,
+  placeOrder,
+  rememberGuestOrder,
+  sendGuestTrackingLink,
+  sendOrderReceivedEmail,
+} from '../utils/checkout';
+import { checkStock, lineSignature, reserveOrderStock, type StockShortage } from '../utils/inventory';
 
 /* 🔐 Firebase auth hook-in */
 import { onAuthStateChanged } from 'firebase/auth';
@@ -18,119 +44,41 @@ import { auth } from '../lib/firebase';
 import TempHeader from '../components/TempHeader';
 import Script from 'next/script';
 
-/* =========================================================
-   HELPERS (kept local to this file)
-   ========================================================= */
-
-// Browser-stable device UUID
-function ensureDeviceUUID(): string {
-  if (typeof window === 'undefined') return ''; // SSR guard
-  const KEY = 'cart_user_id';
-  let id = localStorage.getItem(KEY)?.trim();
-  if (id) return id;
-
-  // RFC4122-ish v4 (device-scoped)
-  id = ([1e7] as any + -1e3 + -4e3 + -8e3 + -1e11).replace(/[018]/g, (c: string) =>
-    (Number(c) ^ ((crypto.getRandomValues(new Uint8Array(1))[0] & 15) >> (Number(c) / 4))).toString(16)
-  );
-
-  localStorage.setItem(KEY, id);
-  return id;
-}
-
-// Fetch wrapper that always injects X-Frontend-Key + X-Device-UUID
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-function fetchWithKey(url: string, init: RequestInit = {}) {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  try {
-    const deviceUUID = ensureDeviceUUID();
-    if (deviceUUID) headers.set('X-Device-UUID', deviceUUID);
-  } catch {}
-  return fetch(url, { ...init, headers });
-}
-
-// Reusable Add-to-Cart util (kept internal)
-async function addToCart(opts: {
-  product_id: string;
-  quantity?: number;
-  selected_size?: string;
-  selected_attributes?: Record<string, string>;
-}) {
-  const device_uuid = ensureDeviceUUID();
-
-  const res = await fetch(`${API_BASE_URL}/api/save-cart/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Frontend-Key': FRONTEND_KEY,
-      'X-Device-UUID': device_uuid,
-    },
-    body: JSON.stringify({
-      device_uuid,
-      product_id: opts.product_id,
-      quantity: opts.quantity ?? 1,
-      selected_size: opts.selected_size ?? '',
-      selected_attributes: opts.selected_attributes ?? {},
-    }),
-  });
-
-  if (!res.ok) {
-    throw new Error(await res.text().catch(() => 'Failed to add to cart'));
-  }
-}
-
 /* =========================================================
    PAGE CODE
    ========================================================= */
 
-type ProductTuple = [string, string, string, number, string]; // [rowId, name, image, unitPrice, desc]
-
-type HumanAttr = {
-  attribute_id?: string;
-  option_id?: string;
-  attribute_name: string;
-  option_label: string;
-  price_delta: string; // "0.00" from backend
-};
-
 export default function PaymentCheckoutPage() {
   const router = useRouter();
 
   // 🔐 AUTH GATE — allow if Firebase user exists OR pseudo session exists
   const [isAuthed, setIsAuthed] = useState<boolean | null>(null);
+  // signed-out visitors may still check out when admins enabled guest checkout
+  const [guestMode, setGuestMode] = useState<boolean | null>(null);
+  const canCheckout = isAuthed === true || guestMode === true;
 
-  const [cartData, setCartData] = useState<{ products: ProductTuple[] }>({ products: [] });
-  const [loading, setLoading] = useState(true);
-
-  // quantity and price keyed by our internal row id (cart_item_id if present, else product_id|signature)
-  const [quantities, setQuantities] = useState<Record<string, number>>({});
-  const [customPrices, setCustomPrices] = useState<Record<string, number>>({});
-
-  // extra metadata passed to order payload (not shown in UI)
-  const [cartMeta, setCartMeta] = useState<
-    Record<
-      string,
-      {
-        cart_item_id?: string;
-        product_id: string; // real product id for backend
-        selected_size?: string;
-        selected_attributes?: Record<string, string>;
-        selected_attributes_human?: HumanAttr[];
-        variant_signature?: string;
-        attributes_price_delta?: number;
-        base_price?: number;
-        line_total?: number;
-      }
-    >
-  >({});
+  // the cart itself lives in the shared store (components/CartProvider)
+  const { lines, loading, setQuantity, removeItem: removeCartLine, clear: clearCart } = useCart();
 
   const [discountCode, setDiscountCode] = useState('');
+  const [appliedPromotion, setAppliedPromotion] = useState<Promotion | null>(null);
+  const [applyingCode, setApplyingCode] = useState(false);
   const [userInfo, setUserInfo] = useState({
     name: '', email: '', phone: '', company: '',
-    address: '', city: '', zip: '', instructions: '',
+    address: '', city: '', country: 'UAE', zip: '', instructions: '',
   });
-  const [token, setToken] = useState<string | null>(null);
+
+  // pricing inputs configured by admins (shipping zones + per-product tax/shipping class)
+  const [shippingZones, setShippingZones] = useState<ShippingZone[]>([]);
+  const [pricingInfo, setPricingInfo] = useState<Record<string, ProductPricingInfo>>({});
+
+  // payment method step
+  const [paymentSettings, setPaymentSettings] = useState<PaymentSettings | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId | ''>('');
+  const [placingOrder, setPlacingOrder] = useState(false);
+
+  // lines asking for more than is in stock; checkout is blocked until they're fixed
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
 
   /* ---------- AUTH BOOTSTRAP ---------- */
   useEffect(() => {
@@ -158,9 +106,14 @@ export default function PaymentCheckoutPage() {
     };
   }, []);
 
-  // Hard redirect if not authed
+  // Signed out: continue as guest if allowed, otherwise hard redirect
   useEffect(() => {
-    if (isAuthed === false) {
+    if (isAuthed !== false) return;
+    let cancelled = false;
+    isGuestCheckoutEnabled().then((enabled) => {
+      if (cancelled) return;
+      setGuestMode(enabled);
+      if (enabled) return;
       Toastify({
         text: 'Please log in to access your cart',
         duration: 2800,
@@ -171,180 +124,133 @@ export default function PaymentCheckoutPage() {
         ariaLive: 'polite',
       }).showToast();
       router.replace('/home'); // you can use /home?login=1 to auto-open modal
-    }
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [isAuthed, router]);
 
-  /* ---------- Token bootstrap ---------- */
+  /* ---------- Pricing inputs (zones + product tax/shipping settings) ---------- */
   useEffect(() => {
-    const storedToken = localStorage.getItem('cart_user_id');
-    if (storedToken) setToken(storedToken);
-  }, []);
+    if (!canCheckout) return;
+    const controller = new AbortController();
+    fetchShippingZones(controller.signal).then(setShippingZones);
+    fetchPaymentSettings(controller.signal).then((settings) => {
+      if (controller.signal.aborted) return;
+      setPaymentSettings(settings);
+      setPaymentMethod((prev) => prev || availablePaymentProviders(settings)[0]?.id || '');
+    });
+    return () => controller.abort();
+  }, [canCheckout]);
+
+  const paymentOptions = useMemo(
+    () => (paymentSettings ? availablePaymentProviders(paymentSettings) : []),
+    [paymentSettings]
+  );
+
+  const cartProductIds = useMemo(
+    () => Array.from(new Set(lines.map((l) => l.product_id))).sort().join(','),
+    [lines]
+  );
 
-  /* ---------- Fetch cart (only after auth) ---------- */
   useEffect(() => {
-    if (isAuthed !== true) return; // block fetch until auth passes
+    if (!cartProductIds) return;
+    const controller = new AbortController();
+    fetchProductPricingInfo(cartProductIds.split(','), controller.signal).then((info) => {
+      if (!controller.signal.aborted) setPricingInfo(info);
+    });
+    return () => controller.abort();
+  }, [cartProductIds]);
+
+  /* ---------- Stock ---------- */
+  const stockLines = useMemo(
+    () => lines.map((l) => ({ product_id: l.product_id, variant_signature: lineSignature(l), quantity: l.quantity })),
+    [lines]
+  );
+  const stockKey = useMemo(() => JSON.stringify(stockLines), [stockLines]);
 
-    const deviceUUID = ensureDeviceUUID();
-    if (!deviceUUID) {
-      console.warn('❌ No device UUID available.');
-      setLoading(false);
+  useEffect(() => {
+    if (!canCheckout || !stockLines.length) {
+      setShortages([]);
       return;
     }
-
     const controller = new AbortController();
-
-    const fetchCart = async () => {
-      try {
-        setLoading(true);
-
-        const res = await fetchWithKey(`${API_BASE_URL}/api/show-cart/`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ device_uuid: deviceUUID }),
-          cache: 'no-store',
-          signal: controller.signal,
-        });
-
-        if (!res.ok) {
-          throw new Error(`Cart fetch failed: ${res.status}`);
-        }
-
-        const data = await res.json();
-        const items = data?.cart_items || [];
-
-        const q: Record<string, number> = {};
-        const p: Record<string, number> = {};
-        const prod: ProductTuple[] = [];
-        const meta: typeof cartMeta = {};
-
-        for (const item of items) {
-          const cartItemId = item.cart_item_id;
-          const productId = item.product_id;
-          const signature = item.variant_signature || '';
-
-          // Robust unique row id
-          const rowId: string = cartItemId || `${productId}${signature ? `|${signature}` : ''}`;
-
-          const unitPriceStr =
-            item?.price_breakdown?.unit_price ??
-            item?.unit_price ??
-            item?.product_price ??
-            '0';
-          const unitPriceNum = parseFloat(unitPriceStr) || 0;
-
-          // Human-readable selections
-          const size = (item.selected_size || '').toString().trim();
-          const human: HumanAttr[] = Array.isArray(item.selected_attributes_human)
-            ? item.selected_attributes_human
-            : [];
-          const selectionParts: string[] = [];
-          if (size) selectionParts.push(`Size: ${size}`);
-          human.forEach((d) => selectionParts.push(`${d.attribute_name}: ${d.option_label}`));
-          const selectionDesc = selectionParts.join(' • ');
-
-          // Fill UI lists
-          q[rowId] = item.quantity || 1;
-          p[rowId] = unitPriceNum;
-          prod.push([
-            rowId,
-            item.product_name,
-            item.product_image || '/images/default.jpg',
-            unitPriceNum,
-            selectionDesc,
-          ]);
-
-          // Stash metadata used later
-          const basePriceNum = parseFloat(item?.price_breakdown?.base_price ?? '0') || 0;
-          const lineTotalNum = parseFloat(item?.price_breakdown?.line_total ?? '0') || 0;
-          const attrsDeltaNum =
-            parseFloat(item?.price_breakdown?.attributes_delta ?? item?.attributes_price_delta ?? '0') || 0;
-
-          meta[rowId] = {
-            cart_item_id: cartItemId,
-            product_id: productId,
-            selected_size: size,
-            selected_attributes: item.selected_attributes || {},
-            selected_attributes_human: human,
-            variant_signature: signature,
-            attributes_price_delta: attrsDeltaNum,
-            base_price: basePriceNum,
-            line_total: lineTotalNum,
-          };
-        }
-
-        setQuantities(q);
-        setCustomPrices(p);
-        setCartData({ products: prod });
-        setCartMeta(meta);
-      } catch (err) {
-        console.error('❌ Cart fetch error:', err);
-        setCartData({ products: [] });
-      } finally {
-        setLoading(false);
-      }
+    // wait for the quantity buttons to settle
+    const t = setTimeout(() => {
+      checkStock(stockLines, controller.signal)
+        .then((short) => {
+          if (!controller.signal.aborted) setShortages(short);
+        })
+        .catch(() => {});
+    }, 400);
+    return () => {
+      clearTimeout(t);
+      controller.abort();
     };
-
-    fetchCart();
-    return () => controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthed]);
+  }, [canCheckout, stockKey]);
+
+  const shortByLine = useMemo(
+    () => new Map(shortages.map((s) => [`${s.product_id}|${s.variant_signature}`, s])),
+    [shortages]
+  );
 
   /* ---------- Pricing ---------- */
-  const subtotal = useMemo(
+  const pricing = useMemo(
     () =>
-      cartData.products.reduce(
-        (acc, [rowId]) => acc + (quantities[rowId] || 1) * (customPrices[rowId] || 0),
-        0
+      priceCart(
+        lines.map((l) => ({
+          id: l.id,
+          product_id: l.product_id,
+          quantity: l.quantity,
+          unit_price: l.unit_price,
+        })),
+        pricingInfo,
+        shippingZones,
+        { country: userInfo.country, city: userInfo.city },
+        appliedPromotion
       ),
-    [cartData.products, quantities, customPrices]
+    [lines, pricingInfo, shippingZones, userInfo.country, userInfo.city, appliedPromotion]
   );
-  const tax = 50;
-  const shipping = 100;
-  const total = useMemo(() => subtotal + tax + shipping, [subtotal]);
+  const { subtotal, discount, tax, shipping, total } = pricing;
+  const promotionError = pricing.promotion && 'reason' in pricing.promotion ? pricing.promotion.reason : '';
+
+  /* ---------- Discount code ---------- */
+  const handleApplyDiscount = async () => {
+    const code = discountCode.trim();
+    if (!code) return;
+    setApplyingCode(true);
+    try {
+      const promo = await fetchPromotionByCode(code);
+      if (!promo) throw new Error('Invalid discount code');
+      setAppliedPromotion(promo);
+    } catch (err: any) {
+      setAppliedPromotion(null);
+      Toastify({
+        text: err?.message === 'Invalid discount code' ? err.message : 'Could not validate discount code',
+        duration: 3000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        ariaLive: 'polite',
+      }).showToast();
+    } finally {
+      setApplyingCode(false);
+    }
+  };
 
   /* ---------- Quantity / Remove ---------- */
-  const updateQuantity = useCallback((rowId: string, delta: number) => {
-    setQuantities((prev) => ({
-      ...prev,
-      [rowId]: Math.max(1, Math.min(99, (prev[rowId] || 1) + delta)),
-    }));
-  }, []);
+  const updateQuantity = useCallback(
+    (rowId: string, delta: number) => {
+      const line = lines.find((l) => l.id === rowId);
+      if (line) setQuantity(rowId, line.quantity + delta);
+    },
+    [lines, setQuantity]
+  );
 
   const removeItem = useCallback(async (rowId: string) => {
-    const meta = cartMeta[rowId];
-    const realProductId = meta?.product_id || rowId;
-
-    // Optimistic UI updates
-    setQuantities((prev) => {
-      const copy = { ...prev };
-      delete copy[rowId];
-      return copy;
-    });
-
-    setCustomPrices((prev) => {
-      const copy = { ...prev };
-      delete copy[rowId];
-      return copy;
-    });
-
-    setCartData((prev) => ({
-      ...prev,
-      products: prev.products.filter(([rid]) => rid !== rowId),
-    }));
-
     try {
-      const res = await fetchWithKey(`${API_BASE_URL}/api/delete-cart-item/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: token, // legacy compatibility
-          product_id: realProductId,
-          variant_signature: meta?.variant_signature || '',
-          device_uuid: ensureDeviceUUID(), // new way
-        }),
-      });
-
-      if (!res.ok) throw new Error();
+      await removeCartLine(rowId);
 
       Toastify({
         text: 'Product removed from cart successfully',
@@ -366,11 +272,12 @@ export default function PaymentCheckoutPage() {
         ariaLive: 'assertive',
       }).showToast();
     }
-  }, [API_BASE_URL, cartMeta, token]);
+  }, [removeCartLine]);
 
   /* ---------- Place Order ---------- */
   const handleOrderNow = async () => {
     const device_uuid = ensureDeviceUUID();
+    const isGuest = isAuthed !== true;
 
     if (!userInfo.email || !userInfo.address || !userInfo.city || !userInfo.phone || !userInfo.name) {
       Toastify({
@@ -385,6 +292,65 @@ export default function PaymentCheckoutPage() {
       return;
     }
 
+    // Guests have no account to fall back on; the email is how they find the order again
+    if (isGuest && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(userInfo.email.trim())) {
+      Toastify({
+        text: 'Please enter a valid email so we can send your order-tracking link',
+        duration: 3000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        style: { borderRadius: '0.75rem', padding: '12px 20px' },
+        ariaLive: 'assertive',
+      }).showToast();
+      return;
+    }
+
+    const provider = getPaymentProvider(paymentMethod);
+    if (!provider) {
+      Toastify({
+        text: 'Please choose a payment method',
+        duration: 3000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        style: { borderRadius: '0.75rem', padding: '12px 20px' },
+        ariaLive: 'assertive',
+      }).showToast();
+      return;
+    }
+
+    if (pricing.unserviceable) {
+      Toastify({
+        text: `We do not deliver to ${userInfo.city || userInfo.country} yet`,
+        duration: 3000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        style: { borderRadius: '0.75rem', padding: '12px 20px' },
+        ariaLive: 'assertive',
+      }).showToast();
+      return;
+    }
+
+    // Re-check right before saving: someone else may have bought the last units
+    setPlacingOrder(true);
+    const short = await checkStock(stockLines).catch(() => [] as StockShortage[]);
+    setPlacingOrder(false);
+    if (short.length) {
+      setShortages(short);
+      Toastify({
+        text: 'Some items are no longer in stock in the quantity you chose',
+        duration: 3000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        style: { borderRadius: '0.75rem', padding: '12px 20px' },
+        ariaLive: 'assertive',
+      }).showToast();
+      return;
+    }
+
     const msgLines: string[] = [
       `Name: ${userInfo.name}`,
       `Email: ${userInfo.email}`,
@@ -392,6 +358,7 @@ export default function PaymentCheckoutPage() {
       `Company: ${userInfo.company || 'N/A'}`,
       `Address: ${userInfo.address}`,
       `City: ${userInfo.city}`,
+      `Country: ${userInfo.country}`,
       `Zip: ${userInfo.zip || 'N/A'}`,
       `Instructions: ${userInfo.instructions || 'N/A'}`,
       ``,
@@ -399,77 +366,111 @@ export default function PaymentCheckoutPage() {
     ];
 
     const itemsForBackend: any[] = [];
+    const pricedById = Object.fromEntries(pricing.lines.map((l) => [l.id, l]));
 
-    for (const [rowId, name] of cartData.products.map(([rid, n]) => [rid, n] as const)) {
-      const qty = quantities[rowId] || 1;
-      const unitPrice = customPrices[rowId] || 0;
+    for (const line of lines) {
+      const qty = line.quantity;
+      const unitPrice = line.unit_price;
 
-      const meta = cartMeta[rowId];
-      const realProductId = meta?.product_id ?? rowId;
-
-      const size = meta?.selected_size?.trim() ? `Size: ${meta.selected_size.trim()}` : '';
-      const human = Array.isArray(meta?.selected_attributes_human) ? meta.selected_attributes_human : [];
+      const size = line.selected_size ? `Size: ${line.selected_size}` : '';
+      const human = line.selected_attributes_human;
 
       const selectionTokens: string[] = [];
       if (size) selectionTokens.push(size);
       human.forEach((d) => selectionTokens.push(`${d.attribute_name}: ${d.option_label}`));
       const selectionParen = selectionTokens.length ? ` (${selectionTokens.join(', ')})` : '';
 
-      const base = typeof meta?.base_price === 'number' ? meta.base_price : unitPrice;
+      const base = line.base_price || unitPrice;
       const deltas = human.map((d) => d.price_delta || '0');
       const mathParts = [base.toString(), ...deltas].join(' + ');
       const lineTotal = (unitPrice * qty).toFixed(2);
 
-      msgLines.push(`${name}${selectionParen}: ${qty} x $(${mathParts}) = $${lineTotal}`);
+      msgLines.push(`${line.name}${selectionParen}: ${qty} x $(${mathParts}) = $${lineTotal}`);
 
       itemsForBackend.push({
-        product_id: realProductId,
-        quantity: parseInt(qty.toString()),
+        product_id: line.product_id,
+        quantity: qty,
         unit_price: Number(unitPrice.toFixed(2)),
         total_price: Number((unitPrice * qty).toFixed(2)),
-        selected_size: meta?.selected_size || '',
-        selected_attributes: meta?.selected_attributes || {},
+        selected_size: line.selected_size,
+        selected_attributes: line.selected_attributes,
         selected_attributes_human: human,
-        base_price: typeof meta?.base_price === 'number' ? meta.base_price : undefined,
-        variant_signature: meta?.variant_signature || '',
-        attributes_price_delta: meta?.attributes_price_delta || 0,
+        base_price: line.base_price,
+        variant_signature: line.variant_signature,
+        attributes_price_delta: line.attributes_price_delta,
+        discount_amount: pricedById[line.id]?.discount_amount ?? 0,
+        tax_rate: pricedById[line.id]?.tax_rate ?? 0,
+        tax_amount: pricedById[line.id]?.tax_amount ?? 0,
+        shipping_class: pricedById[line.id]?.shipping_class ?? [],
       });
     }
 
     msgLines.push(
       ``,
       `Subtotal: AED ${subtotal.toFixed(2)}`,
-      `Tax: AED ${tax}`,
-      `Shipping: AED ${shipping}`,
-      `Total: AED ${total.toFixed(2)}`
+      ...(pricing.promotion?.ok
+        ? [
+            pricing.promotion.freeShipping
+              ? `Promotion (${pricing.promotion.promotion.code}): Free shipping`
+              : `Discount (${pricing.promotion.promotion.code}): -AED ${discount.toFixed(2)}`,
+          ]
+        : []),
+      ...pricing.taxLines.map((t) => `VAT ${t.rate}%: AED ${t.amount.toFixed(2)}`),
+      `Shipping${pricing.shippingZone ? ` (${pricing.shippingZone.zoneName || pricing.shippingZone.country})` : ''}: AED ${shipping.toFixed(2)}`,
+      `Total: AED ${total.toFixed(2)}`,
+      `Payment: ${provider.label}`
     );
 
     const payload = {
       user_name: userInfo.name || 'Guest',
       total_price: total.toFixed(2),
       status: 'pending',
-      notes: 'Order from checkout page',
+      payment_method: provider.id,
+      notes: isGuest ? 'Guest order from checkout page' : 'Order from checkout page',
       device_uuid, // store device on order
+      guest: isGuest,
+      guest_email: isGuest ? userInfo.email.trim() : '',
       items: itemsForBackend,
+      pricing: {
+        subtotal,
+        discount,
+        tax,
+        tax_lines: pricing.taxLines,
+        shipping,
+        shipping_zone: pricing.shippingZone?.zoneName || '',
+        total,
+        currency: 'AED',
+      },
+      discount_code: pricing.promotion?.ok ? pricing.promotion.promotion.code : '',
       delivery: {
         name: userInfo.name,
         email: userInfo.email,
         phone: userInfo.phone,
         street_address: userInfo.address,
         city: userInfo.city,
+        country: userInfo.country,
         zip_code: userInfo.zip,
         instructions: userInfo.instructions?.trim() ? [userInfo.instructions.trim()] : [],
       },
     };
 
+    setPlacingOrder(true);
+    let orderId = '';
+    let stockProblem = '';
     try {
-      const res = await fetchWithKey(`${API_BASE_URL}/api/save-order/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      if (!res.ok) throw new Error(await res.text());
+      orderId = await placeOrder(payload);
+      // The order stands either way; stock we couldn't hold stops the payment below
+      if (orderId) {
+        stockProblem = await reserveOrderStock(orderId, cartOwner()).then(
+          (short) => (short.length ? 'Some items sold out while you were checking out.' : ''),
+          () => 'We could not confirm stock for your order.'
+        );
+      }
+      if (isGuest && orderId) {
+        rememberGuestOrder(orderId, userInfo.email);
+        await sendGuestTrackingLink(orderId, userInfo.email);
+      }
+      if (orderId) await sendOrderReceivedEmail(orderId);
 
       Toastify({
         text: 'Order successfully placed!',
@@ -481,33 +482,8 @@ export default function PaymentCheckoutPage() {
         ariaLive: 'polite',
       }).showToast();
 
-      // After order: attempt to clean cart items
-      for (const [rowId] of cartData.products) {
-        const meta = cartMeta[rowId];
-        const realProductId = meta?.product_id || rowId;
-        try {
-          await fetchWithKey(`${API_BASE_URL}/api/delete-cart-item/`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              user_id: token, // legacy compatibility
-              product_id: realProductId,
-              variant_signature: meta?.variant_signature || '',
-              device_uuid, // also pass device
-            }),
-          });
-        } catch (err) {
-          console.warn(`❌ Failed to delete item ${rowId} after order:`, err);
-        }
-      }
-
-      setCartData({ products: [] });
-      setQuantities({});
-      setCustomPrices({});
-
-      const msg = msgLines.join('\n');
-      // open WhatsApp intent in a safe way
-      window.open(`https://wa.me/971545396249?text=${encodeURIComponent(msg)}`, '_blank', 'noopener,noreferrer');
+      // After order: empty the cart (best-effort, per line)
+      await clearCart();
     } catch (err) {
       console.error('❌ Order save failed:', err);
       Toastify({
@@ -519,20 +495,57 @@ export default function PaymentCheckoutPage() {
         style: { borderRadius: '0.75rem', padding: '12px 20px' },
         ariaLive: 'assertive',
       }).showToast();
+      setPlacingOrder(false);
+      return;
+    }
+
+    // Don't take payment for goods we can't hold; the team follows up on the order
+    if (stockProblem) {
+      Toastify({
+        text: `${stockProblem} Order #${orderId} is saved and no payment was taken — our team will contact you.`,
+        duration: 8000,
+        gravity: 'top',
+        position: 'right',
+        backgroundColor: '#d32f2f',
+        style: { borderRadius: '0.75rem', padding: '12px 20px' },
+        ariaLive: 'assertive',
+      }).showToast();
+      router.push(confirmationUrl({ order_id: orderId, method: provider.id, cancelled: true }));
+      return;
+    }
+
+    // Hand the saved order over to the chosen payment provider
+    try {
+      const outcome = await provider.start({
+        order_id: orderId,
+        amount: total,
+        currency: 'AED',
+        customer: { name: userInfo.name, email: userInfo.email, phone: userInfo.phone },
+        summary: [`Order #${orderId}`, ...msgLines].join('\n'),
+      });
+      if (/^https?:\/\//i.test(outcome.redirect_url)) {
+        window.location.assign(outcome.redirect_url);
+      } else {
+        router.push(outcome.redirect_url);
+      }
+    } catch (err) {
+      console.error('❌ Payment start failed:', err);
+      router.push(confirmationUrl({ order_id: orderId, method: provider.id, cancelled: true }));
     }
   };
 
-  const orderItems = cartData.products.map(([rowId, name, pic, unitPrice, desc]) => ({
-    id: rowId,
-    name,
-    pic: pic || 'images/img1.jpg',
-    desc: desc || '',
-    quantity: quantities[rowId] || 1,
-    price: customPrices[rowId] || unitPrice || 0,
+  const orderItems = lines.map((l) => ({
+    id: l.id,
+    stockKey: `${l.product_id}|${lineSignature(l)}`,
+    name: l.name,
+    pic: l.image || 'images/img1.jpg',
+    desc: l.description,
+    quantity: l.quantity,
+    price: l.unit_price,
   }));
 
   // 🔐 Gate render while auth resolves OR cart loads
-  if (isAuthed === null || loading) {
+  if (isAuthed === null || (isAuthed === false && guestMode === null) || loading) {
     return (
       <div
         className="min-h-screen flex items-center justify-center text-xl text-gray-600"
@@ -540,13 +553,13 @@ export default function PaymentCheckoutPage() {
         role="status"
         aria-live="polite"
       >
-        {isAuthed === null ? 'Checking sign-in…' : 'Loading your cart...'}
+        {canCheckout ? 'Loading your cart...' : 'Checking sign-in…'}
       </div>
     );
   }
 
-  // Safety: if not authed, we already redirected; render nothing
-  if (isAuthed === false) return null;
+  // Safety: if not allowed, we already redirected; render nothing
+  if (!canCheckout) return null;
 
   // SEO hygiene for checkout: discourage indexing
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || '';
@@ -585,6 +598,13 @@ export default function PaymentCheckoutPage() {
         <section className="bg-white shadow rounded-lg p-8" aria-labelledby="delivery-heading">
           <h2 id="delivery-heading" className="text-2xl font-semibold mb-6 text-black">Delivery Address</h2>
 
+          {isAuthed === false ? (
+            <p className="mb-6 rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-700" role="note">
+              You are checking out as a guest. We&apos;ll email you a link to track your order, and you can create
+              an account afterwards to keep it.
+            </p>
+          ) : null}
+
           <div className="space-y-4 text-black">
             {[
               { label: 'Full Name', key: 'name', type: 'text', autoComplete: 'name', required: true },
@@ -593,42 +613,91 @@ export default function PaymentCheckoutPage() {
               { label: 'Company', key: 'company', type: 'text', autoComplete: 'organization' },
               { label: 'Street Address', key: 'address', type: 'text', autoComplete: 'street-address', required: true },
               { label: 'City', key: 'city', type: 'text', autoComplete: 'address-level2', required: true },
+              { label: 'Country', key: 'country', type: 'select', autoComplete: 'country-name', required: true },
               { label: 'Zip', key: 'zip', type: 'text', autoComplete: 'postal-code', inputMode: 'numeric' },
               { label: 'Instructions', key: 'instructions', type: 'text', autoComplete: 'off' },
             ].map(({ label, key, type, autoComplete, required, inputMode, pattern }) => {
               const id = `field-${key}`;
-              const half = ['phone', 'company', 'city', 'zip', 'instructions'].includes(key);
+              const half = ['phone', 'company', 'city', 'country', 'zip', 'instructions'].includes(key);
               return (
                 <div key={key} className={half ? 'w-full sm:w-1/2' : ''}>
                   <label htmlFor={id} className="text-sm font-normal block">
                     {label}{required ? <span className="text-red-600"> *</span> : null}
                   </label>
-                  <input
-                    id={id}
-                    type={type as any}
-                    required={!!required}
-                    onChange={(e) => setUserInfo((prev) => ({ ...prev, [key]: e.target.value }))}
-                    className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-gray-50"
-                    autoComplete={autoComplete as any}
-                    inputMode={inputMode as any}
-                    pattern={pattern as any}
-                  />
+                  {type === 'select' ? (
+                    <select
+                      id={id}
+                      required={!!required}
+                      value={userInfo[key as keyof typeof userInfo]}
+                      onChange={(e) => setUserInfo((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-gray-50"
+                      autoComplete={autoComplete as any}
+                    >
+                      {SHIPPING_COUNTRIES.map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      id={id}
+                      type={type as any}
+                      required={!!required}
+                      onChange={(e) => setUserInfo((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-gray-50"
+                      autoComplete={autoComplete as any}
+                      inputMode={inputMode as any}
+                      pattern={pattern as any}
+                    />
+                  )}
                 </div>
               );
             })}
           </div>
 
+          {/* Payment method */}
+          <fieldset className="mt-8" aria-describedby="payment-hint">
+            <legend className="text-lg font-semibold mb-3 text-black">Payment Method</legend>
+            {paymentSettings === null ? (
+              <p id="payment-hint" className="text-sm text-gray-500">Loading payment options…</p>
+            ) : paymentOptions.length === 0 ? (
+              <p id="payment-hint" className="text-sm text-red-600">No payment methods are available right now.</p>
+            ) : (
+              <div className="space-y-2">
+                {paymentOptions.map((p) => (
+                  <label
+                    key={p.id}
+                    className={`flex items-start gap-3 border rounded-md p-3 cursor-pointer transition
+                      ${paymentMethod === p.id ? 'border-[#891F1A] bg-red-50' : 'border-gray-300 bg-gray-50'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="payment-method"
+                      value={p.id}
+                      checked={paymentMethod === p.id}
+                      onChange={() => setPaymentMethod(p.id)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium">{p.label}</span>
+                      <span className="block text-xs text-gray-600">{p.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
           <button
             onClick={handleOrderNow}
-            disabled={cartData.products.length === 0}
+            disabled={lines.length === 0 || !paymentMethod || placingOrder || shortages.length > 0}
             className={`w-full mt-8 py-3 text-sm font-medium rounded-md transition-all
-              ${cartData.products.length === 0
+              ${lines.length === 0 || !paymentMethod || placingOrder || shortages.length > 0
                 ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
                 : 'bg-[#891F1A] text-white hover:bg-[#6e1815] focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400'}`}
-            aria-disabled={cartData.products.length === 0}
+            aria-disabled={lines.length === 0 || !paymentMethod || placingOrder || shortages.length > 0}
             aria-label="Place order"
           >
-            Order Now
+            {placingOrder ? 'Placing order…' : 'Order Now'}
           </button>
         </section>
 
@@ -660,6 +729,13 @@ export default function PaymentCheckoutPage() {
                     {item.desc ? (
                       <p className="text-xs text-gray-600 mt-0.5 font-normal">{item.desc}</p>
                     ) : null}
+                    {shortByLine.has(item.stockKey) ? (
+                      <p className="text-xs text-red-600 mt-0.5 font-medium" role="alert">
+                        {shortByLine.get(item.stockKey)!.available > 0
+                          ? `Only ${shortByLine.get(item.stockKey)!.available} left in stock`
+                          : 'Out of stock'}
+                      </p>
+                    ) : null}
                   </div>
 
                   <div className="flex items-center space-x-1 my-2 sm:my-0" aria-label="Quantity controls">
@@ -703,27 +779,34 @@ export default function PaymentCheckoutPage() {
                 type="text"
                 value={discountCode}
                 onChange={(e) => setDiscountCode(e.target.value)}
+                disabled={!!appliedPromotion}
                 className="flex-1 px-2 py-2 border border-gray-300 rounded-md"
                 placeholder="Enter code"
                 autoComplete="off"
               />
-              <button
-                onClick={() =>
-                  Toastify({
-                    text: 'Invalid discount code',
-                    duration: 3000,
-                    gravity: 'top',
-                    position: 'right',
-                    backgroundColor: '#d32f2f',
-                    ariaLive: 'polite',
-                  }).showToast()
-                }
-                disabled={!discountCode.trim()}
-                className="px-4 py-2 border border-gray-300 rounded-md font-medium disabled:opacity-50"
-              >
-                Apply
-              </button>
+              {appliedPromotion ? (
+                <button
+                  onClick={() => {
+                    setAppliedPromotion(null);
+                    setDiscountCode('');
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md font-medium"
+                >
+                  Remove
+                </button>
+              ) : (
+                <button
+                  onClick={handleApplyDiscount}
+                  disabled={!discountCode.trim() || applyingCode}
+                  className="px-4 py-2 border border-gray-300 rounded-md font-medium disabled:opacity-50"
+                >
+                  {applyingCode ? 'Checking…' : 'Apply'}
+                </button>
+              )}
             </div>
+            {promotionError ? (
+              <p className="text-xs text-red-600 mt-1" role="alert">{promotionError}</p>
+            ) : null}
           </div>
 
           {/* Totals */}
@@ -732,14 +815,45 @@ export default function PaymentCheckoutPage() {
               <span className="font-normal">Subtotal</span>
               <span className="font-normal">AED {subtotal.toFixed(2)}</span>
             </div>
+            {pricing.promotion?.ok ? (
+              <div className="flex justify-between text-sm text-green-700">
+                <span className="font-normal">
+                  {pricing.promotion.freeShipping ? 'Free shipping' : 'Discount'} ({pricing.promotion.promotion.code})
+                </span>
+                <span className="font-normal">
+                  {pricing.promotion.freeShipping ? '✓' : `-AED ${discount.toFixed(2)}`}
+                </span>
+              </div>
+            ) : null}
+            {pricing.taxLines.length === 0 ? (
+              <div className="flex justify-between text-sm">
+                <span className="font-normal">Tax</span>
+                <span className="font-normal">AED {tax.toFixed(2)}</span>
+              </div>
+            ) : (
+              pricing.taxLines.map((t) => (
+                <div key={t.rate} className="flex justify-between text-sm">
+                  <span className="font-normal">VAT ({t.rate}%)</span>
+                  <span className="font-normal">AED {t.amount.toFixed(2)}</span>
+                </div>
+              ))
+            )}
             <div className="flex justify-between text-sm">
-              <span className="font-normal">Tax</span>
-              <span className="font-normal">AED {tax.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="font-normal">Shipping</span>
-              <span className="font-normal">AED {shipping.toFixed(2)}</span>
+              <span className="font-normal">
+                Shipping
+                {pricing.shippingZone?.zoneName ? (
+                  <span className="text-xs text-gray-500"> · {pricing.shippingZone.zoneName}</span>
+                ) : null}
+              </span>
+              <span className="font-normal">
+                {pricing.unserviceable ? 'Not available' : `AED ${shipping.toFixed(2)}`}
+              </span>
             </div>
+            {pricing.unserviceable ? (
+              <p className="text-xs text-red-600" role="alert">
+                We do not deliver to this destination yet. Please choose another city or country.
+              </p>
+            ) : null}
             <div className="flex justify-between pt-2 border-t">
               <strong className="text-lg">Total</strong>
               <strong className="text-lg">AED {total.toFixed(2)}</strong>
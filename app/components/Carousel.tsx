@@ -11,6 +11,7 @@ import React, {
 import Link from 'next/link';
 import { FaChevronLeft, FaChevronRight } from 'react-icons/fa';
 import { API_BASE_URL } from '../utils/api';
+import { apiFetch } from '../utils/apiClient';
 import { SafeImg } from './SafeImage';
 
 interface CarouselImageRaw {
@@ -43,13 +44,6 @@ interface NavCat {
   subcategories?: NavSub[];
 }
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  headers.set('Accept', 'application/json');
-  return { ...init, headers, cache: 'no-store' };
-};
 
 const norm = (s?: string | number) => (s ?? '').toString().trim().toLowerCase();
 
@@ -96,8 +90,8 @@ export default function FirstCarousel() {
         setError(null);
 
         const [navRes, carRes] = await Promise.all([
-          fetch(`${baseUrl}/api/show_nav_items/?_=${Date.now()}`, withFrontendKey({ signal })),
-          fetch(`${baseUrl}/api/first-carousel/?_=${Date.now()}`, withFrontendKey({ signal })),
+          apiFetch(`${baseUrl}/api/show_nav_items/?_=${Date.now()}`, { signal }),
+          apiFetch(`${baseUrl}/api/first-carousel/?_=${Date.now()}`, { signal }),
         ]);
         if (signal.aborted) return;
 
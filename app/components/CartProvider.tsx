@@ -0,0 +1,295 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname } from "next/navigation";
+import { onAuthStateChanged, type User } from "firebase/auth";
+import { toast } from "react-toastify";
+import { auth } from "../lib/firebase";
+import {
+  api,
+  isAbortError,
+  setCartAccount,
+  type ApiCartItem,
+  type ApiHumanAttribute,
+  type SaveCartInput,
+} from "../utils/apiClient";
+import { clampQty, mergeGuestCart } from "../utils/cart";
+
+/* =========================================================
+   Cart store — one copy of the device cart for every page.
+   Loaded from show-cart, quantity edits are written back
+   (debounced), and other tabs are told to reload. Follows
+   Firebase auth: on sign-in the guest cart is merged into
+   the account cart before anything is shown.
+   ========================================================= */
+
+export type CartLine = {
+  id: string; // cart_item_id, else product_id|variant_signature
+  cart_item_id?: string;
+  product_id: string;
+  name: string;
+  image: string;
+  description: string; // "Size: M • Paper: Matte"
+  quantity: number;
+  unit_price: number;
+  base_price: number;
+  line_total: number;
+  attributes_price_delta: number;
+  selected_size: string;
+  selected_attributes: Record<string, string>;
+  selected_attributes_human: ApiHumanAttribute[];
+  variant_signature: string;
+};
+
+type CartContextValue = {
+  lines: CartLine[];
+  count: number; // total units, for the header badge
+  subtotal: number;
+  loading: boolean;
+  accountUid: string; // Firebase uid, "" for guests
+  accountReady: boolean; // auth resolved and any login merge finished
+  refresh: () => Promise<void>;
+  addItem: (input: SaveCartInput) => Promise<void>;
+  setQuantity: (lineId: string, quantity: number) => void;
+  removeItem: (lineId: string) => Promise<void>;
+  removeProduct: (productId: string) => Promise<void>;
+  clear: () => Promise<void>;
+  miniCartOpen: boolean;
+  openMiniCart: () => void;
+  closeMiniCart: () => void;
+};
+
+// Written after every cart change so other tabs reload (value is just a timestamp)
+const CART_EVENT_KEY = "cart-sync-event";
+const QTY_SAVE_DELAY_MS = 400;
+
+const CartContext = createContext<CartContextValue | null>(null);
+
+const toNum = (v: unknown) => parseFloat(String(v ?? "0")) || 0;
+
+function toCartLine(item: ApiCartItem): CartLine {
+  const signature = item.variant_signature || "";
+  const size = (item.selected_size || "").toString().trim();
+  const human = Array.isArray(item.selected_attributes_human) ? item.selected_attributes_human : [];
+
+  const parts: string[] = [];
+  if (size) parts.push(`Size: ${size}`);
+  human.forEach((d) => parts.push(`${d.attribute_name}: ${d.option_label}`));
+
+  return {
+    id: item.cart_item_id || `${item.product_id}${signature ? `|${signature}` : ""}`,
+    cart_item_id: item.cart_item_id,
+    product_id: item.product_id,
+    name: item.product_name,
+    image: item.product_image || "/images/default.jpg",
+    description: parts.join(" • "),
+    quantity: item.quantity || 1,
+    unit_price: toNum(item.price_breakdown?.unit_price ?? item.unit_price ?? item.product_price),
+    base_price: toNum(item.price_breakdown?.base_price),
+    line_total: toNum(item.price_breakdown?.line_total),
+    attributes_price_delta: toNum(item.price_breakdown?.attributes_delta ?? item.attributes_price_delta),
+    selected_size: size,
+    selected_attributes: item.selected_attributes || {},
+    selected_attributes_human: human,
+    variant_signature: signature,
+  };
+}
+
+const announceCartChange = () => {
+  try {
+    localStorage.setItem(CART_EVENT_KEY, String(Date.now()));
+  } catch {}
+};
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [miniCartOpen, setMiniCartOpen] = useState(false);
+  const [accountUid, setAccountUid] = useState("");
+  const [accountReady, setAccountReady] = useState(false);
+  const storefront = !usePathname()?.startsWith("/admin");
+  const accountRef = useRef<string | null>(null); // null until auth reports
+
+  const linesRef = useRef<CartLine[]>([]);
+  linesRef.current = lines;
+  const loadRef = useRef<AbortController | null>(null);
+  const qtyTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const refresh = useCallback(async () => {
+    loadRef.current?.abort();
+    const ac = new AbortController();
+    loadRef.current = ac;
+    try {
+      const items = await api.showCart({ signal: ac.signal });
+      setLines(items.map(toCartLine));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Cart fetch error:", err);
+    } finally {
+      if (loadRef.current === ac) {
+        loadRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!storefront) return;
+    let cancelled = false;
+    let unsub = () => {};
+
+    const onAccount = async (user: User | null) => {
+      const uid = user?.uid || "";
+      if (uid !== accountRef.current) {
+        const signedIn = accountRef.current !== null && !!uid;
+        accountRef.current = uid;
+        setCartAccount(uid, user ? () => user.getIdToken() : undefined);
+        if (uid) {
+          try {
+            const { merged } = await mergeGuestCart(uid);
+            if (merged && signedIn) toast.info("We added the items from your guest cart to your account.");
+            if (merged) announceCartChange();
+          } catch (err) {
+            console.error("Guest cart merge failed:", err);
+          }
+        }
+      }
+      if (cancelled) return;
+      setAccountUid(uid);
+      setAccountReady(true);
+      refresh();
+    };
+
+    try {
+      unsub = onAuthStateChanged(auth, (user) => {
+        onAccount(user);
+      });
+    } catch {
+      onAccount(null);
+    }
+
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === CART_EVENT_KEY) refresh();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      cancelled = true;
+      unsub();
+      window.removeEventListener("storage", onStorage);
+      loadRef.current?.abort();
+      Object.values(qtyTimers.current).forEach(clearTimeout);
+    };
+  }, [refresh, storefront]);
+
+  const addItem = useCallback(
+    async (input: SaveCartInput) => {
+      await api.saveCart(input);
+      announceCartChange();
+      await refresh();
+    },
+    [refresh]
+  );
+
+  // Optimistic; the write is debounced per line so +/+/+ sends one request
+  const setQuantity = useCallback(
+    (lineId: string, quantity: number) => {
+      const line = linesRef.current.find((l) => l.id === lineId);
+      if (!line) return;
+      const next = clampQty(quantity);
+      if (next === line.quantity) return;
+
+      setLines((prev) => prev.map((l) => (l.id === lineId ? { ...l, quantity: next } : l)));
+
+      clearTimeout(qtyTimers.current[lineId]);
+      qtyTimers.current[lineId] = setTimeout(async () => {
+        delete qtyTimers.current[lineId];
+        try {
+          await api.updateCartItem({
+            cart_item_id: line.cart_item_id,
+            product_id: line.product_id,
+            variant_signature: line.variant_signature,
+            quantity: next,
+          });
+          announceCartChange();
+        } catch (err) {
+          console.error("Cart quantity save failed:", err);
+          refresh(); // put back what the server has
+        }
+      }, QTY_SAVE_DELAY_MS);
+    },
+    [refresh]
+  );
+
+  const removeItem = useCallback(
+    async (lineId: string) => {
+      const line = linesRef.current.find((l) => l.id === lineId);
+      if (!line) return;
+      clearTimeout(qtyTimers.current[lineId]);
+      setLines((prev) => prev.filter((l) => l.id !== lineId));
+      try {
+        await api.deleteCartItem({ product_id: line.product_id, variant_signature: line.variant_signature });
+        announceCartChange();
+      } catch (err) {
+        refresh();
+        throw err;
+      }
+    },
+    [refresh]
+  );
+
+  // Every variant of a product (listing pages toggle by product, not by line)
+  const removeProduct = useCallback(
+    async (productId: string) => {
+      setLines((prev) => prev.filter((l) => l.product_id !== productId));
+      try {
+        await api.deleteCartItem({ product_id: productId });
+        announceCartChange();
+      } finally {
+        refresh();
+      }
+    },
+    [refresh]
+  );
+
+  const clear = useCallback(async () => {
+    const current = linesRef.current;
+    setLines([]);
+    for (const line of current) {
+      try {
+        await api.deleteCartItem({ product_id: line.product_id, variant_signature: line.variant_signature });
+      } catch (err) {
+        console.warn(`Failed to delete cart item ${line.id}:`, err);
+      }
+    }
+    announceCartChange();
+  }, []);
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      lines,
+      count: lines.reduce((n, l) => n + l.quantity, 0),
+      subtotal: lines.reduce((sum, l) => sum + l.unit_price * l.quantity, 0),
+      loading,
+      accountUid,
+      accountReady,
+      refresh,
+      addItem,
+      setQuantity,
+      removeItem,
+      removeProduct,
+      clear,
+      miniCartOpen,
+      openMiniCart: () => setMiniCartOpen(true),
+      closeMiniCart: () => setMiniCartOpen(false),
+    }),
+    [lines, loading, accountUid, accountReady, refresh, addItem, setQuantity, removeItem, removeProduct, clear, miniCartOpen]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+export function useCart() {
+  const ctx = useContext(CartContext);
+  if (!ctx) throw new Error("useCart must be used inside <CartProvider>");
+  return ctx;
+}
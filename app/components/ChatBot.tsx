@@ -2,6 +2,7 @@
 
 import React, { useEffect, useRef, useState, useCallback, useMemo, memo } from "react";
 import { Send, Minus, MessageCircle, ChevronRight } from "lucide-react";
+import { apiGet, apiPost } from "../utils/apiClient";
 
 // ---- util
 const cls = (...parts: Array<string | false | null | undefined>) =>
@@ -9,68 +10,8 @@ const cls = (...parts: Array<string | false | null | undefined>) =>
 
 const fmt = new Intl.DateTimeFormat([], { hour: "2-digit", minute: "2-digit" });
 
-// IMPORTANT: Make sure this really points to Django (e.g., "http://127.0.0.1:8000")
-import { API_BASE_URL } from "../utils/api";
-
 type Msg = { id: string; type: "bot" | "user"; text: string; ts: number };
 
-// ---- Frontend key helpers ----
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (!FRONTEND_KEY && process.env.NODE_ENV !== "production") {
-    // avoid noisy console in prod
-    // eslint-disable-next-line no-console
-    console.warn("NEXT_PUBLIC_FRONTEND_KEY is empty; requests may be forbidden.");
-  }
-  headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
-
-// Shared fetch helpers (strict JSON + CORS)
-const readAsJsonOrThrow = async (res: Response) => {
-  const contentType = res.headers.get("content-type") || "";
-  const bodyText = await res.text();
-
-  if (contentType.includes("application/json")) {
-    try {
-      return JSON.parse(bodyText);
-    } catch {}
-  }
-  try {
-    return JSON.parse(bodyText);
-  } catch {
-    const snippet = bodyText.slice(0, 300).replace(/\s+/g, " ");
-    throw new Error(
-      `Expected JSON but got ${res.status} ${res.statusText}. Content-Type="${contentType}". First chars: "${snippet}"`
-    );
-  }
-};
-
-const fetchJSON = async (url: string, init?: RequestInit, signal?: AbortSignal) => {
-  if (!API_BASE_URL || API_BASE_URL.startsWith("/") || API_BASE_URL === "") {
-    throw new Error(
-      `API_BASE_URL appears invalid ("${API_BASE_URL}"). It must be an absolute URL to your Django server.`
-    );
-  }
-  const baseInit: RequestInit = {
-    method: "GET",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-    },
-    mode: "cors",
-    signal,
-    ...init,
-  };
-  const finalInit = withFrontendKey(baseInit);
-  const res = await fetch(url, finalInit);
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} ${res.statusText} from ${url}`);
-  }
-  return readAsJsonOrThrow(res);
-};
-
 // Reduced motion
 const useReducedMotion = () => {
   const [reducedMotion, setReducedMotion] = useState(false);
@@ -339,7 +280,7 @@ export function ChatBot() {
     const run = () => {
       const ac = new AbortController();
       aborters.current.push(ac);
-      fetchJSON(`${API_BASE_URL}/api/bot-prompts/`, { method: "GET" }, ac.signal)
+      apiGet<any>("bot-prompts", { signal: ac.signal })
         .then((data) => {
           if (cancelled) return;
           const loaded = Array.isArray(data) ? data : Array.isArray(data?.prompts) ? data.prompts : null;
@@ -446,13 +387,10 @@ export function ChatBot() {
 
       try {
         // 1) Send user message (returns/echoes conversation_id)
-        const userData = await fetchJSON(
-          `${API_BASE_URL}/api/user-response/`,
-          {
-            method: "POST",
-            body: JSON.stringify({ message: text, conversation_id: conversationId || undefined }),
-          },
-          ac1.signal
+        const userData = await apiPost<any>(
+          "user-response",
+          { message: text, conversation_id: conversationId || undefined },
+          { signal: ac1.signal }
         );
 
         const newConvId =
@@ -464,13 +402,10 @@ export function ChatBot() {
         if (newConvId && newConvId !== conversationId) setConversationId(newConvId);
 
         // 2) Get bot reply (include message to avoid 400s server-side)
-        const botData = await fetchJSON(
-          `${API_BASE_URL}/api/bot-response/`,
-          {
-            method: "POST",
-            body: JSON.stringify({ message: text, conversation_id: newConvId || conversationId || undefined }),
-          },
-          ac2.signal
+        const botData = await apiPost<any>(
+          "bot-response",
+          { message: text, conversation_id: newConvId || conversationId || undefined },
+          { signal: ac2.signal }
         );
 
         const botMsg: string =
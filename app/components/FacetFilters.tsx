@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  SEARCH_SORTS,
+  searchQueryString,
+  type FacetOption,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchSort,
+} from "../utils/search";
+
+/* =========================================================
+   Filter sidebar and sort box for listings driven by
+   SearchFilters (/search and the subcategory pages). Every
+   option is a plain link to the filtered URL, so views can
+   be shared and crawled; a change always goes back to page 1.
+   ========================================================= */
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+/** `path` with the filters as its query string. */
+export const filterHref = (path: string, filters: Partial<SearchFilters>) => {
+  const qs = searchQueryString(filters);
+  return qs ? `${path}?${qs}` : path;
+};
+
+/** How many filters are on; the query and sort don't count. */
+export const activeFilterCount = (f: SearchFilters) =>
+  f.categories.length +
+  f.methods.length +
+  Object.values(f.attributes).flat().length +
+  (f.price_min !== null || f.price_max !== null ? 1 : 0) +
+  (f.in_stock ? 1 : 0);
+
+function OptionLink({ option, href, type = "checkbox" }: { option: FacetOption; href: string; type?: "checkbox" | "radio" }) {
+  const dead = !option.count && !option.selected;
+  return (
+    <li>
+      {dead ? (
+        <span className="flex items-center gap-2 text-sm text-gray-400" aria-disabled="true">
+          <Mark type={type} on={false} />
+          <span className="flex-1">{option.label}</span>
+          <span className="text-xs">0</span>
+        </span>
+      ) : (
+        <Link
+          href={href}
+          scroll={false}
+          prefetch={false}
+          role={type}
+          aria-checked={option.selected}
+          className="flex items-center gap-2 text-sm text-gray-700 hover:text-[#891F1A]"
+        >
+          <Mark type={type} on={option.selected} />
+          <span className={`flex-1 ${option.selected ? "font-medium text-gray-900" : ""}`}>{option.label}</span>
+          <span className="text-xs text-gray-400">{option.count}</span>
+        </Link>
+      )}
+    </li>
+  );
+}
+
+function Mark({ type, on }: { type: "checkbox" | "radio"; on: boolean }) {
+  return (
+    <span
+      aria-hidden="true"
+      className={`inline-flex h-4 w-4 shrink-0 items-center justify-center border ${
+        type === "radio" ? "rounded-full" : "rounded"
+      } ${on ? "border-[#891F1A] bg-[#891F1A]" : "border-gray-300 bg-white"}`}
+    >
+      {on && <span className={`h-1.5 w-1.5 bg-white ${type === "radio" ? "rounded-full" : "rounded-sm"}`} />}
+    </span>
+  );
+}
+
+function Group({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-b border-gray-200 py-4" role="group" aria-label={title}>
+      <p className="text-sm font-semibold text-gray-900 mb-2 capitalize">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+/** Facet sidebar; `path` is the listing the links point back to. */
+export default function FacetFilters({
+  path,
+  facets,
+  filters,
+  showCategories = true,
+}: {
+  path: string;
+  facets: SearchFacets;
+  filters: SearchFilters;
+  showCategories?: boolean;
+}) {
+  const router = useRouter();
+  const [priceMin, setPriceMin] = useState(filters.price_min?.toString() ?? "");
+  const [priceMax, setPriceMax] = useState(filters.price_max?.toString() ?? "");
+
+  useEffect(() => {
+    setPriceMin(filters.price_min?.toString() ?? "");
+    setPriceMax(filters.price_max?.toString() ?? "");
+  }, [filters.price_min, filters.price_max]);
+
+  const href = (next: Partial<SearchFilters>) => filterHref(path, { ...filters, page: 1, ...next });
+
+  const attributeHref = (name: string, value: string) => {
+    const attributes = { ...filters.attributes, [name]: toggle(filters.attributes[name] || [], value) };
+    if (!attributes[name].length) delete attributes[name];
+    return href({ attributes });
+  };
+
+  const applyPrice = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parse = (v: string) => (v.trim() === "" || !(Number(v) >= 0) ? null : Number(v));
+    router.push(href({ price_min: parse(priceMin), price_max: parse(priceMax) }), { scroll: false });
+  };
+
+  const active = activeFilterCount(filters);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm px-4">
+      {active > 0 && (
+        <div className="flex justify-between items-center pt-4">
+          <span className="text-xs text-gray-500">
+            {active} filter{active === 1 ? "" : "s"} applied
+          </span>
+          <Link href={filterHref(path, { q: filters.q, sort: filters.sort })} scroll={false} className="text-xs text-[#891F1A] underline">
+            Clear all
+          </Link>
+        </div>
+      )}
+
+      <Group title="Availability">
+        <ul>
+          <OptionLink
+            option={{ value: "in_stock", label: "In stock only", count: facets.in_stock, selected: filters.in_stock }}
+            href={href({ in_stock: !filters.in_stock })}
+          />
+        </ul>
+      </Group>
+
+      {showCategories && facets.categories.length > 0 && (
+        <Group title="Category">
+          <ul className="space-y-1.5">
+            {facets.categories.map((o) => (
+              <OptionLink key={o.value} option={o} href={href({ categories: toggle(filters.categories, o.value) })} />
+            ))}
+          </ul>
+        </Group>
+      )}
+
+      <Group title="Price">
+        <ul className="space-y-1.5 mb-3">
+          {facets.price.buckets.map((b) => (
+            <OptionLink
+              key={b.value}
+              type="radio"
+              option={b}
+              href={b.selected ? href({ price_min: null, price_max: null }) : href({ price_min: b.min, price_max: b.max })}
+            />
+          ))}
+        </ul>
+        <form className="flex items-center gap-2" onSubmit={applyPrice}>
+          <input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            value={priceMin}
+            onChange={(e) => setPriceMin(e.target.value)}
+            placeholder={String(facets.price.min)}
+            aria-label="Minimum price"
+            className="w-20 border rounded px-2 py-1 text-sm"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min={0}
+            inputMode="decimal"
+            value={priceMax}
+            onChange={(e) => setPriceMax(e.target.value)}
+            placeholder={String(facets.price.max)}
+            aria-label="Maximum price"
+            className="w-20 border rounded px-2 py-1 text-sm"
+          />
+          <button type="submit" className="text-sm px-3 py-1 rounded bg-[#891F1A] text-white hover:bg-[#6d1915]">
+            Go
+          </button>
+        </form>
+      </Group>
+
+      {facets.methods.length > 0 && (
+        <Group title="Printing method">
+          <ul className="space-y-1.5">
+            {facets.methods.map((o) => (
+              <OptionLink key={o.value} option={o} href={href({ methods: toggle(filters.methods, o.value) })} />
+            ))}
+          </ul>
+        </Group>
+      )}
+
+      {facets.attributes.map((a) =>
+        a.options.length ? (
+          <Group key={a.name} title={a.name}>
+            {a.type === "color" ? (
+              <ul className="flex flex-wrap gap-2">
+                {a.options.filter((o) => o.count || o.selected).map((o) => (
+                  <li key={o.value}>
+                    <Link
+                      href={attributeHref(a.name, o.value)}
+                      scroll={false}
+                      prefetch={false}
+                      role="checkbox"
+                      aria-checked={o.selected}
+                      title={`${o.label} (${o.count})`}
+                      className={`inline-block rounded-full border px-3 py-1 text-xs ${
+                        o.selected ? "border-[#891F1A] bg-[#891F1A] text-white" : "border-gray-300 text-gray-700 hover:border-[#891F1A]"
+                      }`}
+                    >
+                      {o.label}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <ul className="space-y-1.5">
+                {a.options.map((o) => (
+                  <OptionLink key={o.value} option={o} href={attributeHref(a.name, o.value)} />
+                ))}
+              </ul>
+            )}
+          </Group>
+        ) : null
+      )}
+    </div>
+  );
+}
+
+/** Sort box; picking an order loads that URL. `labels` renames options, e.g. "relevance" where there's no query. */
+export function SortSelect({
+  path,
+  filters,
+  labels = {},
+}: {
+  path: string;
+  filters: SearchFilters;
+  labels?: Partial<Record<SearchSort, string>>;
+}) {
+  const router = useRouter();
+  return (
+    <label className="text-sm text-gray-600 flex items-center gap-2">
+      Sort by
+      <select
+        value={filters.sort}
+        onChange={(e) =>
+          router.push(filterHref(path, { ...filters, page: 1, sort: e.target.value as SearchSort }), { scroll: false })
+        }
+        className="border rounded px-2 py-1 text-sm bg-white"
+      >
+        {SEARCH_SORTS.map((s) => (
+          <option key={s.value} value={s.value}>
+            {labels[s.value] || s.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
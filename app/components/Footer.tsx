@@ -4,6 +4,7 @@ import React, { useState, useEffect, useMemo, useCallback } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
 import { SafeImg } from "./SafeImage";
 
 /* ──────────────────────────────────────────────────────────
@@ -24,12 +25,6 @@ const SERVICES = [
 
 type NavCategory = { id?: string | number; name: string; url: string };
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
 
 const LOCAL_LOGO_FALLBACK = "/images/logowhite.png";
 const normalizeLogoUrl = (u?: string) => {
@@ -129,9 +124,9 @@ export default function Footer() {
 
       // 2) Fresh fetch (no blocking the main thread; small JSON)
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${baseUrl}/api/show_nav_items/`,
-          withFrontendKey({ signal: controller.signal, cache: "no-store" })
+          { signal: controller.signal, cache: "no-store" }
         );
         const data = res.ok ? await res.json() : null;
         const cats: NavCategory[] = Array.isArray(data)
@@ -177,7 +172,7 @@ export default function Footer() {
       try {
         // Defer logo fetch; footer is below the fold in most cases
         const fetcher = async () => {
-          const res = await fetch(`${API_BASE_URL}/api/show-logo/`, withFrontendKey({ cache: "no-store" }));
+          const res = await apiFetch(`${API_BASE_URL}/api/show-logo/`, { cache: "no-store" });
           const json = res.ok ? await res.json() : null;
           const url = normalizeLogoUrl(json?.logo?.url);
           if (!cancelled) setLogoUrl(url);
@@ -6,36 +6,24 @@ import React, {
   useEffect,
   useRef,
   useCallback,
-  useMemo,
   useId,
-  useDeferredValue,
   memo,
 } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
 import { onAuthStateChanged, signOut, User } from "firebase/auth";
 import { doc, getDoc } from "firebase/firestore";
 import { auth, db } from "../lib/firebase";
 import SafeImage, { SafeImg } from "./SafeImage";
+import { searchPath } from "../utils/search";
+import { useSearchSuggestions } from "../utils/searchSuggestions";
 
 /** Lazy-load the modal to drop JS on first paint (TBT win) */
 const LoginModal = dynamic(() => import("../components/LoginModal"), { ssr: false });
 
-/** FRONTEND KEY helper (adds header X-Frontend-Key) — keep headers minimal to avoid CORS preflight */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return {
-    ...init,
-    headers,
-    cache: "no-store",
-    credentials: "omit",
-    mode: "cors",
-  };
-};
-
 /* ---------- Logo helpers (mobile header) ---------- */
 const LOCAL_LOGO_WHITE = "/images/logowhite.png";
 const normalizeLogoUrl = (u?: string) => {
@@ -76,88 +64,6 @@ interface CategoryRaw {
   subcategories: SubcategoryRaw[];
 }
 
-/** Flattened lookup shapes */
-type Cat = { id: ID; name: string; url: string; images: ImageDTO[] };
-type Sub = { id: ID; name: string; url: string; images: ImageDTO[]; catId: ID; catName: string };
-type Prod = {
-  id: ID;
-  name: string;
-  url: string;
-  images: ImageDTO[];
-  catId: ID;
-  catName: string;
-  subId: ID;
-  subName: string;
-};
-
-/* ============================== Fuzzy Search (module scope to avoid re-create) =============================== */
-const norm = (s: string) => s.toLowerCase().normalize("NFKD").replace(/\p{Diacritic}/gu, "");
-
-function editDistance(a: string, b: string) {
-  const A = a;
-  const B = b;
-  const al = A.length;
-  const bl = B.length;
-  const INF = al + bl;
-  const da: Record<string, number> = {};
-  const d = Array.from({ length: al + 2 }, () => Array(bl + 2).fill(0));
-  d[0][0] = INF;
-  for (let i = 0; i <= al; i++) {
-    d[i + 1][1] = i;
-    d[i + 1][0] = INF;
-  }
-  for (let j = 0; j <= bl; j++) {
-    d[1][j + 1] = j;
-    d[0][j + 1] = INF;
-  }
-  for (let i = 1; i <= al; i++) {
-    let db = 0;
-    for (let j = 1; j <= bl; j++) {
-      const i1 = da[B[j - 1]] || 0;
-      const j1 = db;
-      let cost = 1;
-      if (A[i - 1] === B[j - 1]) {
-        cost = 0;
-        db = j;
-      }
-      d[i + 1][j + 1] = Math.min(
-        d[i][j] + cost,
-        d[i + 1][j] + 1,
-        d[i][j + 1] + 1,
-        d[i1][j1] + (i - i1 - 1) + 1 + (j - j1 - 1)
-      );
-    }
-    da[A[i - 1]] = i;
-  }
-  return d[al + 1][bl + 1];
-}
-
-const similarity = (a: string, b: string) => {
-  const A = norm(a);
-  const B = norm(b);
-  if (!A || !B) return 0;
-  if (B.includes(A)) {
-    return Math.min(1, 0.8 + Math.max(0, (A.length / B.length) * 0.2));
-  }
-  const dist = editDistance(A, B);
-  const maxLen = Math.max(A.length, B.length);
-  return 1 - dist / Math.max(1, maxLen);
-};
-
-type Scored<T> = { item: T; score: number };
-function topMatches<T extends { name: string }>(arr: T[], q: string, minScore = 0.45, limit = 50): Scored<T>[] {
-  const Q = q.trim();
-  if (!Q) return [];
-  const results: Scored<T>[] = [];
-  const Qn = norm(Q);
-  for (const it of arr) {
-    const s = similarity(Qn, it.name);
-    if (s >= minScore) results.push({ item: it, score: s });
-  }
-  results.sort((a, b) => b.score - a.score);
-  return results.slice(0, limit);
-}
-
 function slugify(str: string) {
   return str.toLowerCase().trim().replace(/\s+/g, "-");
 }
@@ -188,22 +94,16 @@ function MobileTopBarInner() {
   const emailRef = useRef<HTMLInputElement>(null);
   const passwordRef = useRef<HTMLInputElement>(null);
 
-  // ======= Search =======
+  // ======= Menu =======
   const [navData, setNavData] = useState<CategoryRaw[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
 
+  // ======= Search =======
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
-  /** Use deferred value to let typing stay snappy while we compute (TBT/INP win) */
-  const debouncedQuery = useDeferredValue(searchQuery);
-
-  const scrollerRef = useRef<HTMLDivElement>(null);
-  const ITEMS_PER_LOAD = 20;
-  const [loadedCount, setLoadedCount] = useState(ITEMS_PER_LOAD);
-
   const searchWrapRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [showSearch, setShowSearch] = useState(false);
+  const { suggestions, loading: suggesting, error: suggestError } = useSearchSuggestions(searchQuery, showSearch);
 
   // ======= Mobile Logo (ShowLogo API) =======
   const [mobileLogoUrl, setMobileLogoUrl] = useState<string>(LOCAL_LOGO_WHITE);
@@ -213,8 +113,7 @@ function MobileTopBarInner() {
 
     (async () => {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/show-logo/?_=${Date.now()}`, {
-          ...withFrontendKey(),
+        const res = await apiFetch(`${API_BASE_URL}/api/show-logo/?_=${Date.now()}`, {
           signal: ac.signal,
         });
         const json = res.ok ? await res.json() : null;
@@ -237,18 +136,14 @@ function MobileTopBarInner() {
     const ac = new AbortController();
 
     (async () => {
-      setLoading(true);
-      setError(null);
       try {
         const url = `${API_BASE_URL}/api/show_nav_items/?_=${Date.now()}`;
-        const res = await fetch(url, { ...withFrontendKey(), signal: ac.signal });
+        const res = await apiFetch(url, { signal: ac.signal });
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         const json: CategoryRaw[] = await res.json();
         if (!cancelled) setNavData(Array.isArray(json) ? json : []);
-      } catch (err: unknown) {
-        if (!cancelled) setError((err as Error)?.message || "Failed to load items");
-      } finally {
-        if (!cancelled) setLoading(false);
+      } catch {
+        // The drawer just shows no categories
       }
     })();
 
@@ -311,29 +206,6 @@ function MobileTopBarInner() {
     };
   }, [showSearch]);
 
-  // Infinite-ish loading reset on new query
-  useEffect(() => setLoadedCount(ITEMS_PER_LOAD), [debouncedQuery]);
-
-  // Infinite-ish scrolling (passive + rAF coalesced)
-  useEffect(() => {
-    const el = scrollerRef.current;
-    if (!el) return;
-
-    let ticking = false;
-    const onScroll = () => {
-      if (ticking) return;
-      ticking = true;
-      requestAnimationFrame(() => {
-        const nearBottom = el.scrollTop + el.clientHeight >= el.scrollHeight - 40;
-        if (nearBottom) setLoadedCount((c) => c + ITEMS_PER_LOAD);
-        ticking = false;
-      });
-    };
-
-    el.addEventListener("scroll", onScroll, { passive: true });
-    return () => el.removeEventListener("scroll", onScroll as EventListener);
-  }, []);
-
   const toggleCategory = useCallback((name: string) => {
     setExpandedCategory((prev) => (prev === name ? null : name));
   }, []);
@@ -379,7 +251,7 @@ function MobileTopBarInner() {
         // Backend fallback
         if (!displayName) {
           try {
-            const res = await fetch(`${API_BASE_URL}/api/show-user/?_=${Date.now()}`, withFrontendKey());
+            const res = await apiFetch(`${API_BASE_URL}/api/show-user/?_=${Date.now()}`);
             const data = await res.json();
             const found = data?.users?.find((x: any) => x.user_id === u.uid);
             displayName = found?.name || found?.username || found?.first_name || null;
@@ -428,7 +300,7 @@ function MobileTopBarInner() {
     if (!idInput && !typedName) return;
 
     try {
-      const res = await fetch(`${API_BASE_URL}/api/show-user/?_=${Date.now()}`, withFrontendKey());
+      const res = await apiFetch(`${API_BASE_URL}/api/show-user/?_=${Date.now()}`);
       const data = await res.json();
       const lower = idInput.toLowerCase();
 
@@ -471,184 +343,21 @@ function MobileTopBarInner() {
     }
   }, []);
 
-  /* =============================== Derivations =============================== */
-  const { cats, subs, prods } = useMemo(() => {
-    const cats: Cat[] = [];
-    const subs: Sub[] = [];
-    const prods: Prod[] = [];
-    navData.forEach((cat) => {
-      cats.push({ id: cat.id, name: cat.name, url: cat.url, images: cat.images || [] });
-      cat.subcategories?.forEach((sub) => {
-        subs.push({
-          id: sub.id,
-          name: sub.name,
-          url: sub.url,
-          images: sub.images || [],
-          catId: cat.id,
-          catName: cat.name,
-        });
-        sub.products?.forEach((p) => {
-          prods.push({
-            id: p.id,
-            name: p.name,
-            url: p.url,
-            images: p.images || [],
-            catId: cat.id,
-            catName: cat.name,
-            subId: sub.id,
-            subName: sub.name,
-          });
-        });
-      });
-    });
-    return { cats, subs, prods };
-  }, [navData]);
-
-  const quickBadges = useMemo<string[]>(() => (navData || []).map((c) => c.name), [navData]);
-
-  function detectIntent(q: string) {
-    const cm = topMatches(cats, q, 0.55, 5);
-    const sm = topMatches(subs, q, 0.5, 5);
-    const pm = topMatches(prods, q, 0.5, 5);
-
-    const bestCat = cm[0];
-    const bestSub = sm[0];
-    const bestProd = pm[0];
-
-    const includesBoost = (name: string) => (norm(name).includes(norm(q)) ? 0.05 : 0);
-
-    const catScore = bestCat ? bestCat.score + includesBoost(bestCat.item.name) : 0;
-    const subScore = bestSub ? bestSub.score + includesBoost(bestSub.item.name) : 0;
-    const prodScore = bestProd ? bestProd.score + includesBoost(bestProd.item.name) : 0;
+  const query = searchQuery.trim();
+  // Suggestions answer the last query sent; until the current one comes back they may be stale
+  const current = suggestions && suggestions.query === query ? suggestions : null;
 
-    if (bestCat && catScore >= subScore && catScore >= prodScore && catScore >= 0.58) {
-      return { type: "category" as const, target: bestCat.item, suggestions: cm.slice(1, 4) };
-    }
-    if (bestSub && subScore >= prodScore && subScore >= 0.55) {
-      return { type: "subcategory" as const, target: bestSub.item, suggestions: sm.slice(1, 4) };
-    }
-    if (bestProd && prodScore >= 0.55) {
-      return { type: "product" as const, target: bestProd.item, suggestions: pm.slice(1, 4) };
-    }
-    return { type: "broad" as const, target: null, suggestions: [...cm, ...sm, ...pm].slice(0, 3) };
-  }
-
-  const intent = useMemo(() => detectIntent(debouncedQuery), [debouncedQuery, cats, subs, prods]);
-
-  type ViewItem =
-    | { kind: "header"; key: string; text: string }
-    | { kind: "chips"; key: string; chips: { text: string }[] }
-    | { kind: "product"; key: string; prod: Prod };
-
-  const viewItems = useMemo<ViewItem[]>(() => {
-    if (!debouncedQuery) return [];
-
-    const items: ViewItem[] = [];
-
-    if (intent.type === "category" && intent.target) {
-      const cat = intent.target as Cat;
-      items.push({ kind: "header", key: `cat-${cat.id}`, text: cat.name });
-      const subOfCat = subs.filter((s) => s.catId === cat.id);
-      if (subOfCat.length) {
-        items.push({
-          kind: "chips",
-          key: `chips-cat-${cat.id}`,
-          chips: subOfCat.map((s) => ({ text: s.name })),
-        });
-      }
-      const prodsInCat = prods.filter((p) => p.catId === cat.id);
-      prodsInCat.forEach((p) => items.push({ kind: "product", key: `p-${p.id}`, prod: p }));
-      return items;
-    }
-
-    if (intent.type === "subcategory" && intent.target) {
-      const sub = intent.target as Sub;
-      items.push({ kind: "header", key: `cat-${sub.catId}`, text: sub.catName });
-      const siblings = subs.filter((s) => s.catId === sub.catId);
-      if (siblings.length) {
-        items.push({
-          kind: "chips",
-          key: `chips-sub-${sub.id}`,
-          chips: siblings.map((s) => ({ text: s.name })),
-        });
-      }
-      const subProds = prods.filter((p) => p.subId === sub.id);
-      subProds.forEach((p) => items.push({ kind: "product", key: `p-${p.id}`, prod: p }));
-      const catRemainder = prods.filter((p) => p.catId === sub.catId && p.subId !== sub.id);
-      catRemainder.forEach((p) => items.push({ kind: "product", key: `p2-${p.id}`, prod: p }));
-      return items;
-    }
-
-    if (intent.type === "product" && intent.target) {
-      const prodHit = intent.target as Prod;
-      items.push({ kind: "header", key: `cat-${prodHit.catId}`, text: prodHit.catName });
-      const siblings = subs.filter((s) => s.catId === prodHit.catId);
-      if (siblings.length) {
-        items.push({
-          kind: "chips",
-          key: `chips-prod-${prodHit.id}`,
-          chips: siblings.map((s) => ({ text: s.name })),
-        });
-      }
-      const subProds = prods.filter((p) => p.subId === prodHit.subId);
-      const sortedSubProds = [prodHit, ...subProds.filter((p) => p.id !== prodHit.id)];
-      sortedSubProds.forEach((p) => items.push({ kind: "product", key: `p-${p.id}`, prod: p }));
-      const catRemainder = prods.filter((p) => p.catId === prodHit.catId && p.subId !== prodHit.subId);
-      catRemainder.forEach((p) => items.push({ kind: "product", key: `p2-${p.id}`, prod: p }));
-      return items;
-    }
-
-    // Broad fallback
-    const scored = topMatches(prods, debouncedQuery, 0.45, 200);
-    const grouped = new Map<ID, { catName: string; items: Prod[] }>();
-    for (const { item } of scored) {
-      if (!grouped.has(item.catId)) grouped.set(item.catId, { catName: item.catName, items: [] });
-      grouped.get(item.catId)!.items.push(item);
-    }
-    for (const [catId, group] of grouped.entries()) {
-      items.push({ kind: "header", key: `cat-${String(catId)}`, text: group.catName });
-      const subOfCat = subs.filter((s) => s.catId === catId);
-      if (subOfCat.length) {
-        items.push({
-          kind: "chips",
-          key: `chips-broad-${String(catId)}`,
-          chips: subOfCat.map((s) => ({ text: s.name })),
-        });
-      }
-      group.items.forEach((p) => items.push({ kind: "product", key: `p-${p.id}`, prod: p }));
-    }
-    return items;
-  }, [debouncedQuery, intent, prods, subs]);
-
-  const didYouMean = useMemo(() => {
-    if (!debouncedQuery) return [];
-    if ((intent as any).type === "broad") {
-      return (intent as any).suggestions.map((s: any) => s.item.name);
-    }
-    const extras = (intent as any).suggestions?.map((s: any) => s.item.name).filter((n: string) => !!n) || [];
-    return extras.slice(0, 3);
-  }, [intent, debouncedQuery]);
-
-  const visibleItems = useMemo(() => {
-    const list: ViewItem[] = [];
-    let count = 0;
-    for (const it of viewItems) {
-      if (it.kind === "product") {
-        count++;
-        if (count > loadedCount) break;
-      }
-      list.push(it);
-    }
-    return list;
-  }, [viewItems, loadedCount]);
-
-  const onChipClick = useCallback((text: string) => {
-    setSearchQuery(text);
-    setShowSearch(true);
-    requestAnimationFrame(() => searchInputRef.current?.focus());
+  const closeSearch = useCallback(() => {
+    setShowSearch(false);
+    setIsMenuOpen(false);
   }, []);
 
-  const safeUrl = (url: string | undefined, fallback: string) => (url && url.trim().length > 0 ? url : fallback);
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query) return;
+    closeSearch();
+    router.push(searchPath({ q: query }));
+  };
 
   // a11y ids
   const sidebarTitleId = useId();
@@ -736,8 +445,11 @@ function MobileTopBarInner() {
 
             {/* Search */}
             <div className="px-4 mb-3" ref={searchWrapRef}>
-              <div
+              <form
                 className="relative"
+                action="/search"
+                role="search"
+                onSubmit={submitSearch}
                 onClick={() => {
                   setShowSearch(true);
                   searchInputRef.current?.focus();
@@ -745,15 +457,17 @@ function MobileTopBarInner() {
               >
                 <input
                   ref={searchInputRef}
-                  type="text"
+                  name="q"
+                  type="search"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   onFocus={() => setShowSearch(true)}
-                  placeholder={loading ? "Loading items…" : "Type to explore..."}
+                  placeholder="Search products, SKUs…"
                   className="w-full py-2 pl-10 pr-4 border rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 text-black font-normal"
                   aria-label="Search"
                   aria-controls={searchListboxId}
-                  disabled={loading}
+                  autoComplete="off"
+                  enterKeyHint="search"
                 />
                 <svg
                   className="w-5 h-5 absolute left-3 top-2.5 text-gray-400"
@@ -764,7 +478,7 @@ function MobileTopBarInner() {
                 >
                   <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                 </svg>
-              </div>
+              </form>
 
               {/* DROPDOWN PANEL */}
               {showSearch && (
@@ -774,146 +488,146 @@ function MobileTopBarInner() {
                   role="listbox"
                   aria-label="Search suggestions"
                   aria-live="polite"
+                  aria-busy={suggesting}
                   style={{ contentVisibility: "auto", containIntrinsicSize: "1px 300px" as any }}
                 >
-                  <p className="px-3 pt-2 text-[11px] text-gray-500 font-light">
-                    {loading && "Fetching catalog…"}
-                    {!loading && !error && quickBadges.length > 0 && "Quick categories:"}
-                    {!loading && !error && quickBadges.length === 0 && "No categories found."}
-                    {error && <span className="text-red-600 font-normal">{error}</span>}
-                  </p>
-
-                  {quickBadges.length > 0 && (
-                    <div className="px-3 pb-2 pt-1 flex flex-wrap gap-2 border-b border-gray-100">
-                      {quickBadges.slice(0, 10).map((b) => (
-                        <button
-                          key={b}
-                          type="button"
-                          className="text-[11px] rounded-full px-2.5 py-1 transition text-white bg-[#8B1C1C] hover:bg-[#6f1414] font-medium"
-                          onMouseDown={(e) => {
-                            e.preventDefault();
-                            onChipClick(b);
-                          }}
-                          aria-label={`Filter by ${b}`}
-                        >
-                          {b}
-                        </button>
-                      ))}
-                    </div>
-                  )}
+                  {suggestError && <p className="px-3 pt-2 text-[11px] text-red-600 font-normal">{suggestError}</p>}
+
+                  {!query ? (
+                    <>
+                      <p className="px-3 pt-2 text-[11px] text-gray-500 font-light">
+                        {current ? (current.categories.length ? "Quick categories:" : "No categories found.") : suggesting && "Fetching categories…"}
+                      </p>
+                      {!!current?.categories.length && (
+                        <div className="px-3 pb-2 pt-1 flex flex-wrap gap-2 border-b border-gray-100">
+                          {current.categories.slice(0, 10).map((c) => (
+                            <Link
+                              key={c.path}
+                              href={c.path}
+                              prefetch
+                              onClick={closeSearch}
+                              className="text-[11px] rounded-full px-2.5 py-1 transition text-white bg-[#8B1C1C] hover:bg-[#6f1414] font-medium"
+                            >
+                              {c.name}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                      <p className="px-3 py-3 text-[11px] text-gray-500 font-light">
+                        Search by <strong className="font-bold text-red-700">product name</strong>,
+                        <strong className="font-bold text-red-700"> SKU</strong>, or a
+                        <strong className="font-bold text-red-700"> material or size</strong>.
+                      </p>
+                    </>
+                  ) : (
+                    <div className="max-h-72 overflow-y-auto">
+                      {current?.corrected && (
+                        <div className="px-3 py-2 text-[11px] text-gray-600 border-b border-gray-100">
+                          <span className="font-light">Showing results for </span>
+                          <button
+                            className="underline decoration-dotted hover:text-[#8B1C1C] font-medium"
+                            onMouseDown={(e) => {
+                              e.preventDefault();
+                              setSearchQuery(current.corrected!);
+                            }}
+                            type="button"
+                          >
+                            {current.corrected}
+                          </button>
+                        </div>
+                      )}
 
-                  {debouncedQuery && didYouMean.length > 0 && (
-                    <div className="px-3 py-2 text-[11px] text-gray-600 border-b border-gray-100">
-                      <span className="font-light">Did you mean: </span>
-                      {didYouMean.map((s, i) => (
-                        <button
-                          key={s + i}
-                          className="underline decoration-dotted mr-2 hover:text-[#8B1C1C] font-medium"
-                          onMouseDown={(e) => {
-                            e.preventDefault();
-                            setSearchQuery(s);
-                          }}
-                          aria-label={`Use suggestion ${s}`}
-                          type="button"
-                        >
-                          {s}
-                        </button>
-                      ))}
-                    </div>
-                  )}
+                      {!!current?.completions.length && (
+                        <ul className="py-1 border-b border-gray-100">
+                          {current.completions.map((c) => (
+                            <li key={c}>
+                              <button
+                                type="button"
+                                role="option"
+                                aria-selected={false}
+                                className="w-full text-left px-3 py-1.5 text-sm text-gray-800 hover:bg-gray-50 font-normal"
+                                onMouseDown={(e) => {
+                                  e.preventDefault();
+                                  setSearchQuery(c);
+                                }}
+                              >
+                                {c}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
 
-                  {debouncedQuery ? (
-                    <div ref={scrollerRef} className="max-h-72 overflow-y-auto">
-                      {visibleItems.length ? (
+                      {!!current?.categories.length && (
+                        <div className="px-3 py-2 flex flex-wrap gap-2 border-b border-gray-100">
+                          {current.categories.map((c) => (
+                            <Link
+                              key={c.path}
+                              href={c.path}
+                              prefetch
+                              onClick={closeSearch}
+                              className="text-[11px] rounded-full px-2.5 py-1 bg-gray-100 hover:bg-gray-200 font-medium"
+                            >
+                              {c.parent ? `${c.parent} › ${c.name}` : c.name}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+
+                      {current && current.products.length > 0 && (
                         <ul className="divide-y divide-gray-100">
-                          {visibleItems.map((it) => {
-                            if (it.kind === "header") {
-                              return (
-                                <li key={it.key} className="py-1 bg-white text-black sticky top-0 z-10">
-                                  <h3 className="px-3 py-1 text-[11px] font-medium uppercase text-red-700">
-                                    {it.text}
-                                  </h3>
-                                </li>
-                              );
-                            }
-                            if (it.kind === "chips") {
-                              return (
-                                <li key={it.key} className="px-3 py-2 bg-white text-black">
-                                  <div className="flex flex-wrap gap-2">
-                                    {it.chips.map((c, idx) => (
-                                      <button
-                                        key={c.text + idx}
-                                        className="text-[11px] rounded-full px-2.5 py-1 bg-gray-100 hover:bg-gray-200 font-medium"
-                                        onMouseDown={(e) => {
-                                          e.preventDefault();
-                                          onChipClick(c.text);
-                                        }}
-                                        type="button"
-                                      >
-                                        {c.text}
-                                      </button>
-                                    ))}
+                          {current.products.map((p) => (
+                            <li key={p.id}>
+                              <Link
+                                href={p.path}
+                                prefetch
+                                className="block px-3 py-3 hover:bg-gray-50"
+                                onClick={closeSearch}
+                                role="option"
+                                aria-selected={false}
+                              >
+                                <div className="flex items-center gap-3">
+                                  <SafeImg
+                                    src={p.image}
+                                    alt={p.name}
+                                    className="w-12 h-12 rounded-md object-cover shrink-0"
+                                    width={48}
+                                    height={48}
+                                    onError={(e: React.SyntheticEvent<HTMLImageElement>) => {
+                                      const t = e.currentTarget;
+                                      t.onerror = null;
+                                      t.src = "/images/default.jpg";
+                                    }}
+                                    loading="lazy"
+                                    decoding="async"
+                                  />
+                                  <div className="min-w-0 flex-1">
+                                    <span className="block font-medium text-sm text-gray-900 truncate">{p.name}</span>
+                                    <small className="text-[11px] text-gray-600 font-light">
+                                      {p.subcategory?.name} • <span className="text-gray-500">{p.category?.name}</span>
+                                    </small>
                                   </div>
-                                </li>
-                              );
-                            }
-                            const p = it.prod;
-                            const imgObj = p.images?.[0];
-                            const img = imgObj?.url || "/images/default.jpg";
-                            const alt = imgObj?.alt_text || p.name || "Product";
-                            return (
-                              <li key={it.key}>
-                                <Link
-                                  href={safeUrl(
-                                    p.url,
-                                    `/home/${slugify(p.catName)}/${slugify(p.subName)}/products/${p.id}`
-                                  )}
-                                  prefetch
-                                  className="block px-3 py-3 hover:bg-gray-50"
-                                  onClick={() => setIsMenuOpen(false)}
-                                  role="option"
-                                >
-                                  <div className="flex items-center gap-3">
-                                    <SafeImg
-                                      src={img}
-                                      alt={alt}
-                                      className="w-12 h-12 rounded-md object-cover shrink-0"
-                                      width={48}
-                                      height={48}
-                                      onError={(e: React.SyntheticEvent<HTMLImageElement>) => {
-                                        const t = e.currentTarget;
-                                        t.onerror = null;
-                                        t.src = "/images/default.jpg";
-                                      }}
-                                      loading="lazy"
-                                      decoding="async"
-                                    />
-                                    <div className="min-w-0 flex-1">
-                                      <span className="block font-medium text-sm text-gray-900 truncate">
-                                        {p.name}
-                                      </span>
-                                      <small className="text-[11px] text-gray-600 font-light">
-                                        {p.subName} • <span className="text-gray-500">{p.catName}</span>
-                                      </small>
-                                    </div>
-                                  </div>
-                                </Link>
-                              </li>
-                            );
-                          })}
+                                </div>
+                              </Link>
+                            </li>
+                          ))}
                         </ul>
-                      ) : (
+                      )}
+
+                      {current && !current.products.length && !current.categories.length ? (
                         <p className="px-3 py-5 text-sm text-gray-500 font-normal">
-                          No matches for “{searchQuery}”. Try another keyword.
+                          No matches for “{query}”. Try another keyword.
                         </p>
+                      ) : (
+                        <Link
+                          href={searchPath({ q: query })}
+                          onClick={closeSearch}
+                          className="block px-3 py-3 text-sm font-medium text-[#8B1C1C] hover:bg-gray-50 border-t border-gray-100"
+                        >
+                          {current ? `See all results for “${query}”` : "Searching…"}
+                        </Link>
                       )}
                     </div>
-                  ) : (
-                    <p className="px-3 py-3 text-[11px] text-gray-500 font-light">
-                      Start typing a <strong className="font-bold text-red-700">Category</strong>,
-                      <strong className="font-bold text-red-700"> Subcategory</strong>, or a
-                      <strong className="font-bold text-red-700"> Product</strong>.
-                    </p>
                   )}
                 </div>
               )}
@@ -1009,6 +723,9 @@ function MobileTopBarInner() {
               <Link href="/orders" prefetch className="hover:text-gray-700 font-medium" onClick={() => setIsMenuOpen(false)}>
                 My Orders
               </Link>
+              <Link href="/wishlist" prefetch className="hover:text-gray-700 font-medium" onClick={() => setIsMenuOpen(false)}>
+                Wishlist
+              </Link>
               <Link href="/blog" prefetch className="hover:text-gray-700 font-medium" onClick={() => setIsMenuOpen(false)}>
                 Blog
               </Link>
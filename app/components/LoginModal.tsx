@@ -26,6 +26,7 @@ import { setDoc, doc } from "firebase/firestore";
 import { db } from "../lib/firebase";
 import { toast } from "react-toastify";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
 import { SafeImg } from "./SafeImage";
 
 /* ──────────────────────────────────────────────────────────
@@ -44,16 +45,6 @@ type LoginModalProps = {
   toggleMode: () => void;
 };
 
-/* ──────────────────────────────────────────────────────────
-   Frontend key helper (avoid per-render env reads)
-   ────────────────────────────────────────────────────────── */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers, cache: "no-store" };
-};
-
 /* ──────────────────────────────────────────────────────────
    Local icon assets (sized to prevent CLS)
    ────────────────────────────────────────────────────────── */
@@ -208,7 +199,7 @@ const LoginModal: React.FC<LoginModalProps> = ({
         const controller = new AbortController();
         nameAbortRef.current = controller;
 
-        const res = await fetch(`${API_BASE_URL}/api/show-user/`, withFrontendKey({ signal: controller.signal }));
+        const res = await apiFetch(`${API_BASE_URL}/api/show-user/`, { signal: controller.signal });
         const data = await res.json();
         const exists = (data?.users || []).some(
           (u: any) =>
@@ -255,7 +246,7 @@ const LoginModal: React.FC<LoginModalProps> = ({
         emailAbortRef.current = controller;
 
         // Backend duplicate?
-        const res = await fetch(`${API_BASE_URL}/api/show-user/`, withFrontendKey({ signal: controller.signal }));
+        const res = await apiFetch(`${API_BASE_URL}/api/show-user/`, { signal: controller.signal });
         const data = await res.json();
         const existsInBackend = (data?.users || []).some(
           (u: any) => (u.email || "").trim().toLowerCase() === email.toLowerCase()
@@ -303,13 +294,13 @@ const LoginModal: React.FC<LoginModalProps> = ({
     name: string;
     is_verified: boolean;
   }) => {
-    const response = await fetch(
+    const response = await apiFetch(
       `${API_BASE_URL}/api/save-user/`,
-      withFrontendKey({
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      })
+      {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    }
     );
     const data = await response.json().catch(() => ({}));
     if (!response.ok) {
@@ -326,13 +317,13 @@ const LoginModal: React.FC<LoginModalProps> = ({
     name?: string;
     is_verified?: boolean;
   }) => {
-    const response = await fetch(
+    const response = await apiFetch(
       `${API_BASE_URL}/api/edit-user/`,
-      withFrontendKey({
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      })
+      {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    }
     );
     if (!response.ok) {
       const data = await response.json().catch(() => ({}));
@@ -406,7 +397,7 @@ const LoginModal: React.FC<LoginModalProps> = ({
     const id = idRaw.trim();
     if (isValidEmail(id)) return id;
     try {
-      const usersRes = await fetch(`${API_BASE_URL}/api/show-user/`, withFrontendKey());
+      const usersRes = await apiFetch(`${API_BASE_URL}/api/show-user/`);
       const usersData = await usersRes.json();
       const matched = (usersData?.users || []).find(
         (u: any) =>
@@ -1,5 +1,5 @@
 "use client";
-import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import React, { useEffect, useRef, useState, useCallback } from "react";
 import Toastify from "toastify-js";
 import "toastify-js/src/toastify.css";
 import { signOut, onAuthStateChanged, User } from "firebase/auth";
@@ -7,17 +7,16 @@ import { doc, getDoc } from "firebase/firestore";
 import { auth, db } from "../lib/firebase";
 import LoginModal from "./LoginModal";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FaRegHeart } from "react-icons/fa";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
+import { useCart } from "./CartProvider";
+import { CartCountBadge } from "./MiniCart";
+import { isGuestCheckoutEnabled } from "../utils/checkout";
 import { SafeImg } from "./SafeImage";
-
-/** FRONTEND KEY helper (adds header X-Frontend-Key) */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  headers.set("Accept", "application/json");
-  return { ...init, headers, cache: "no-store" };
-};
+import { searchPath } from "../utils/search";
+import { useSearchSuggestions } from "../utils/searchSuggestions";
 
 /* ===================== Logo helpers ===================== */
 const LOCAL_LOGO_FALLBACK = "/images/logo.png"; // fallback if API returns nothing
@@ -35,82 +34,7 @@ const normalizeLogoUrl = (u?: string): string => {
 
 const cacheBust = (u: string) => (u ? `${u}${u.includes("?") ? "&" : "?"}v=${Date.now()}` : u);
 
-/* ===================== Existing types & helpers (unchanged) ===================== */
-type ID = string | number;
-type ImgObj = { url?: string; alt_text?: string } | null | undefined;
-
-interface ProductRaw { id: ID; name: string; images: ImgObj[]; url: string; }
-interface SubcategoryRaw { id: ID; name: string; images: ImgObj[]; url: string; products: ProductRaw[]; }
-interface CategoryRaw { id: ID; name: string; images: ImgObj[]; url: string; subcategories: SubcategoryRaw[]; }
-
-type Cat = { id: ID; name: string; url: string; images: ImgObj[] };
-type Sub = { id: ID; name: string; url: string; images: ImgObj[]; catId: ID; catName: string; catUrl: string; };
-type Prod = { id: ID; name: string; url: string; images: ImgObj[]; catId: ID; catName: string; catUrl: string; subId: ID; subName: string; subUrl: string; };
-
 const PLACEHOLDER_IMG = "https://i.ibb.co/ynT1dLc/image-not-found.png";
-function getFirstImageUrl(images: ImgObj[]): string {
-  if (!images || !images.length) return PLACEHOLDER_IMG;
-  const first = images[0] || {};
-  const raw = (first.url || "").trim();
-  if (!raw) return PLACEHOLDER_IMG;
-  if (/^https?:\/\//i.test(raw) || raw.startsWith("//") || raw.startsWith("/")) return raw;
-  if (raw.startsWith("media/") || raw.startsWith("uploads/")) {
-    return `${API_BASE_URL}/${raw.replace(/^\/+/, "")}`;
-  }
-  return raw;
-}
-
-// Paths
-const buildCategoryHref = (catSlug: string) => `/home/${catSlug}`;
-const buildSubHref = (catSlug: string, subSlug: string) => `/home/${catSlug}/${subSlug}`;
-const buildProductHref = (catSlug: string, subSlug: string, productId: ID) => `/home/${catSlug}/${subSlug}/products/${productId}`;
-
-// Fuzzy helpers (unchanged)
-const norm = (s: string) => s.toLowerCase().normalize("NFKD").replace(/\p{Diacritic}/gu, "");
-function editDistance(a: string, b: string) {
-  const al = a.length, bl = b.length, INF = al + bl;
-  const da: Record<string, number> = {};
-  const d = Array.from({ length: al + 2 }, () => Array(bl + 2).fill(0));
-  d[0][0] = INF;
-  for (let i = 0; i <= al; i++) { d[i + 1][1] = i; d[i + 1][0] = INF; }
-  for (let j = 0; j <= bl; j++) { d[1][j + 1] = j; d[0][j + 1] = INF; }
-  for (let i = 1; i <= al; i++) {
-    let db = 0;
-    for (let j = 1; j <= bl; j++) {
-      const i1 = da[b[j - 1]] || 0;
-      const j1 = db;
-      let cost = 1;
-      if (a[i - 1] === b[j - 1]) { cost = 0; db = j; }
-      d[i + 1][j + 1] = Math.min(
-        d[i][j] + cost,
-        d[i + 1][j] + 1,
-        d[i][j + 1] + 1,
-        d[i1][j1] + (i - i1 - 1) + 1 + (j - j1 - 1)
-      );
-    }
-    da[a[i - 1]] = i;
-  }
-  return d[al + 1][bl + 1];
-}
-const similarity = (a: string, b: string) => {
-  const A = norm(a); const B = norm(b);
-  if (!A || !B) return 0;
-  if (B.includes(A)) return Math.min(1, 0.8 + Math.max(0, (A.length / B.length) * 0.2));
-  const dist = editDistance(A, B);
-  const maxLen = Math.max(A.length, B.length);
-  return 1 - dist / Math.max(1, maxLen);
-};
-type Scored<T> = { item: T; score: number };
-function topMatches<T extends { name: string }>(arr: T[], q: string, minScore = 0.45, limit = 50): Scored<T>[] {
-  const Q = q.trim(); if (!Q) return [];
-  const results: Scored<T>[] = [];
-  for (const it of arr) {
-    const s = similarity(Q, it.name);
-    if (s >= minScore) results.push({ item: it, score: s });
-  }
-  results.sort((a, b) => b.score - a.score);
-  return results.slice(0, limit);
-}
 
 /* ============================== Component =============================== */
 export default function LogoSection() {
@@ -120,9 +44,9 @@ export default function LogoSection() {
     const controller = new AbortController();
     (async () => {
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-logo/?_=${Date.now()}`,
-          withFrontendKey({ signal: controller.signal })
+          { signal: controller.signal }
         );
         const json: ShowLogoPayload = res.ok ? await res.json() : {};
         const normalized = normalizeLogoUrl(json?.logo?.url);
@@ -134,20 +58,23 @@ export default function LogoSection() {
     return () => controller.abort();
   }, []);
 
+  const { openMiniCart } = useCart();
   const [isVisible, setIsVisible] = useState(false);
   const [mode, setMode] = useState<"signup" | "signin">("signin");
   const [user, setUser] = useState<User | null>(null);
   const [pseudoLoggedIn, setPseudoLoggedIn] = useState<boolean>(false);
   const [pseudoName, setPseudoName] = useState<string>("");
+  // With guest checkout on, signed-out visitors get the cart instead of a sign-in prompt
+  const [guestCheckout, setGuestCheckout] = useState(false);
+  useEffect(() => {
+    isGuestCheckoutEnabled().then(setGuestCheckout);
+  }, []);
   const [username, setUsername] = useState<string | null>(null);
 
-  const [navData, setNavData] = useState<CategoryRaw[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
-  const [debouncedQuery, setDebouncedQuery] = useState("");
   const [showSearch, setShowSearch] = useState(false);
+  const { suggestions, loading, error } = useSearchSuggestions(searchQuery, showSearch);
   const searchWrapRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const userMenuRef = useRef<HTMLDivElement>(null);
@@ -157,11 +84,6 @@ export default function LogoSection() {
   const emailRef = useRef<HTMLInputElement>(null);
   const passwordRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    const t = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 250);
-    return () => clearTimeout(t);
-  }, [searchQuery]);
-
   // Auth state
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
@@ -179,7 +101,7 @@ export default function LogoSection() {
         } catch {}
         try {
           if (!displayName) {
-            const res = await fetch(`${API_BASE_URL}/api/show-user/`, withFrontendKey());
+            const res = await apiFetch(`${API_BASE_URL}/api/show-user/`);
             const data = await res.json();
             const found = data?.users?.find((u: any) => u.user_id === firebaseUser.uid);
             displayName = found?.name || found?.username || null;
@@ -220,28 +142,6 @@ export default function LogoSection() {
     } catch {}
   }, []);
 
-  // Load nav items
-  useEffect(() => {
-    const controller = new AbortController();
-    (async () => {
-      setLoading(true); setError(null);
-      try {
-        const res = await fetch(
-          `${API_BASE_URL}/api/show_nav_items/?_=${Date.now()}`,
-          withFrontendKey({ signal: controller.signal })
-        );
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const json: CategoryRaw[] = await res.json();
-        setNavData(json || []);
-      } catch (err: any) {
-        setError(err?.message || "Failed to load items");
-      } finally {
-        setLoading(false);
-      }
-    })();
-    return () => controller.abort();
-  }, []);
-
   useEffect(() => {
     function handleClickOutside(e: MouseEvent) {
       if (searchWrapRef.current && !searchWrapRef.current.contains(e.target as Node)) setShowSearch(false);
@@ -266,7 +166,7 @@ export default function LogoSection() {
     const typedName = (nameRef.current?.value || "").trim();
     if (!idInput && !typedName) return;
     try {
-      const res = await fetch(`${API_BASE_URL}/api/show-user/`, withFrontendKey());
+      const res = await apiFetch(`${API_BASE_URL}/api/show-user/`);
       const data = await res.json();
       const lower = idInput.toLowerCase();
       const found = (data?.users || []).find((u: any) => {
@@ -295,151 +195,16 @@ export default function LogoSection() {
     } catch { alert("Error during logout."); }
   }, []);
 
-  const quickBadges = useMemo<string[]>(() => (navData || []).map((c) => c.name), [navData]);
-
-  const { cats, subs, prods } = useMemo(() => {
-    const cats: Cat[] = [], subs: Sub[] = [], prods: Prod[] = [];
-    navData.forEach((cat) => {
-      const catUrl = cat.url || String(cat.id);
-      cats.push({ id: cat.id, name: cat.name, url: catUrl, images: cat.images || [] });
-      cat.subcategories?.forEach((sub) => {
-        const subUrl = sub.url || String(sub.id);
-        const subFlat: Sub = { id: sub.id, name: sub.name, url: subUrl, images: sub.images || [], catId: cat.id, catName: cat.name, catUrl };
-        subs.push(subFlat);
-        sub.products?.forEach((p) => {
-          prods.push({ id: p.id, name: p.name, url: p.url, images: p.images || [], catId: cat.id, catName: cat.name, catUrl, subId: sub.id, subName: sub.name, subUrl });
-        });
-      });
-    });
-    return { cats, subs, prods };
-  }, [navData]);
-
-  function detectIntent(q: string) {
-    const cm = topMatches(cats, q, 0.55, 5);
-    const sm = topMatches(subs, q, 0.5, 5);
-    const pm = topMatches(prods, q, 0.5, 5);
-    const bestCat = cm[0]; const bestSub = sm[0]; const bestProd = pm[0];
-    const includesBoost = (name: string) => (norm(name).includes(norm(q)) ? 0.05 : 0);
-    const catScore = bestCat ? bestCat.score + includesBoost(bestCat.item.name) : 0;
-    const subScore = bestSub ? bestSub.score + includesBoost(bestSub.item.name) : 0;
-    const prodScore = bestProd ? bestProd.score + includesBoost(bestProd.item.name) : 0;
-    if (catScore >= subScore && catScore >= prodScore && catScore >= 0.58) return { type: "category" as const, target: bestCat!.item, suggestions: cm.slice(1, 4) };
-    if (subScore >= prodScore && subScore >= 0.55) return { type: "subcategory" as const, target: bestSub!.item, suggestions: sm.slice(1, 4) };
-    if (bestProd && prodScore >= 0.55) return { type: "product" as const, target: bestProd!.item, suggestions: pm.slice(1, 4) };
-    return { type: "broad" as const, target: null, suggestions: [...cm, ...sm, ...pm].slice(0, 3) };
-  }
-
-  const intent = useMemo(() => detectIntent(debouncedQuery), [debouncedQuery, cats, subs, prods]);
-
-  type ViewItem =
-    | { kind: "header"; key: string; text: string; href?: string }
-    | { kind: "chips"; key: string; chips: { text: string; href: string }[] }
-    | { kind: "product"; key: string; prod: Prod; href: string; img: string };
-
-  const ITEMS_PER_LOAD = 20;
-  const scrollerRef = useRef<HTMLDivElement>(null);
-  const [loadedCount, setLoadedCount] = useState(ITEMS_PER_LOAD);
-  useEffect(() => setLoadedCount(ITEMS_PER_LOAD), [debouncedQuery]);
-  useEffect(() => {
-    function onScroll() {
-      const el = scrollerRef.current; if (!el) return;
-      const nearBottom = el.scrollTop + el.clientHeight >= el.scrollHeight - 40;
-      if (nearBottom) setLoadedCount((c) => c + ITEMS_PER_LOAD);
-    }
-    const el = scrollerRef.current;
-    if (el) el.addEventListener("scroll", onScroll);
-    return () => { if (el) el.removeEventListener("scroll", onScroll); };
-  }, []);
+  const query = searchQuery.trim();
+  // Suggestions answer the last query sent; until the current one comes back they may be stale
+  const current = suggestions && suggestions.query === query ? suggestions : null;
 
-  function pushProductsDedup(list: ViewItem[], seen: Set<ID>, items: Prod[], keyPrefix: string) {
-    for (const p of items) {
-      if (seen.has(p.id)) continue;
-      seen.add(p.id);
-      const href = buildProductHref(p.catUrl, p.subUrl, p.id);
-      const img = getFirstImageUrl(p.images);
-      list.push({ kind: "product", key: `${keyPrefix}-${p.id}`, prod: p, href, img });
-    }
-  }
-
-  const viewItems = useMemo<ViewItem[]>(() => {
-    if (!debouncedQuery) return [];
-    const items: ViewItem[] = [];
-    const seen = new Set<ID>();
-
-    if (intent.type === "category" && intent.target) {
-      const cat = intent.target as Cat;
-      items.push({ kind: "header", key: `cat-${cat.id}`, text: cat.name, href: buildCategoryHref(cat.url) });
-      const subOfCat = subs.filter((s) => s.catId === cat.id);
-      if (subOfCat.length) {
-        items.push({ kind: "chips", key: `chips-cat-${cat.id}`, chips: subOfCat.map((s) => ({ text: s.name, href: buildSubHref(s.catUrl, s.url) })) });
-      }
-      const prodsInCat = prods.filter((p) => p.catId === cat.id);
-      pushProductsDedup(items, seen, prodsInCat, "pc");
-      return items;
-    }
-
-    if (intent.type === "subcategory" && intent.target) {
-      const sub = intent.target as Sub;
-      items.push({ kind: "header", key: `cat-${sub.catId}`, text: sub.catName, href: buildCategoryHref(sub.catUrl) });
-      const siblings = subs.filter((s) => s.catId === sub.catId);
-      if (siblings.length) {
-        items.push({ kind: "chips", key: `chips-sub-${sub.id}`, chips: siblings.map((s) => ({ text: s.name, href: buildSubHref(s.catUrl, s.url) })) });
-      }
-      const subProds = prods.filter((p) => p.subId === sub.id);
-      pushProductsDedup(items, seen, subProds, "ps");
-      const catRemainder = prods.filter((p) => p.catId === sub.catId && p.subId !== sub.id);
-      pushProductsDedup(items, seen, catRemainder, "pr");
-      return items;
-    }
-
-    if (intent.type === "product" && intent.target) {
-      const hit = intent.target as Prod;
-      items.push({ kind: "header", key: `cat-${hit.catId}`, text: hit.catName, href: buildCategoryHref(hit.catUrl) });
-      const siblings = subs.filter((s) => s.catId === hit.catId);
-      if (siblings.length) {
-        items.push({ kind: "chips", key: `chips-prod-${hit.id}`, chips: siblings.map((s) => ({ text: s.name, href: buildSubHref(s.catUrl, s.url) })) });
-      }
-      const subProds = prods.filter((p) => p.subId === hit.subId);
-      const sortedSubProds = [hit, ...subProds.filter((p) => p.id !== hit.id)];
-      pushProductsDedup(items, seen, sortedSubProds, "pp");
-      const catRemainder = prods.filter((p) => p.catId === hit.catId && p.subId !== hit.subId);
-      pushProductsDedup(items, seen, catRemainder, "pr");
-      return items;
-    }
-
-    // Broad fallback
-    const scored = topMatches(prods, debouncedQuery, 0.45, 200);
-    const grouped = new Map<ID, { catName: string; catUrl: string; items: Prod[] }>();
-    for (const { item } of scored) {
-      if (!grouped.has(item.catId)) grouped.set(item.catId, { catName: item.catName, catUrl: item.catUrl, items: [] });
-      grouped.get(item.catId)!.items.push(item);
-    }
-    for (const [catId, group] of grouped.entries()) {
-      items.push({ kind: "header", key: `cat-${String(catId)}`, text: group.catName, href: buildCategoryHref(group.catUrl) });
-      const subOfCat = subs.filter((s) => s.catId === catId);
-      if (subOfCat.length) {
-        items.push({ kind: "chips", key: `chips-broad-${String(catId)}`, chips: subOfCat.map((s) => ({ text: s.name, href: buildSubHref(s.catUrl, s.url) })) });
-      }
-      pushProductsDedup(items, seen, group.items, `pb-${String(catId)}`);
-    }
-    return items;
-  }, [debouncedQuery, intent, prods, subs]);
-
-  const didYouMean = useMemo(() => {
-    if (!debouncedQuery) return [];
-    if (intent.type === "broad") return intent.suggestions.map((s) => s.item.name);
-    const extras = intent.suggestions?.map((s: any) => s.item.name).filter(Boolean) || [];
-    return extras.slice(0, 3);
-  }, [intent, debouncedQuery]);
-
-  const visibleItems = useMemo(() => {
-    const list: any[] = []; let count = 0;
-    for (const it of viewItems) {
-      if ((it as any).kind === "product") { count++; if (count > ITEMS_PER_LOAD) break; }
-      list.push(it);
-    }
-    return list;
-  }, [viewItems, ITEMS_PER_LOAD]);
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query) return;
+    setShowSearch(false);
+    router.push(searchPath({ q: query }));
+  };
 
   /* ============================== Render =============================== */
   const searchListboxId = "search-suggestions";
@@ -469,8 +234,10 @@ export default function LogoSection() {
 
           {/* SEARCH WRAPPER */}
           <div ref={searchWrapRef} className="relative flex-1 min-w-[220px]" role="search">
-            <div
+            <form
               className="flex items-center bg-[#F3F3F3] px-3 sm:px-4 py-2 rounded-md gap-3 min-w-0 focus-within:ring-2 focus-within:ring-[#8B1C1C]"
+              action="/search"
+              onSubmit={submitSearch}
               onClick={() => {
                 setShowSearch(true);
                 searchInputRef.current?.focus();
@@ -478,20 +245,21 @@ export default function LogoSection() {
             >
               <input
                 ref={searchInputRef}
+                name="q"
+                type="search"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onFocus={() => setShowSearch(true)}
-                placeholder={loading ? "Loading items…" : "Type to explore..."}
+                placeholder="Search products, SKUs, categories…"
                 className="flex-1 bg-transparent outline-none text-sm lg:text-base text-[#0E0E0E] placeholder:text-[#0E0E0E] placeholder:opacity-70 font-normal"
                 aria-label="Search catalog"
                 aria-controls={searchListboxId}
                 aria-expanded={showSearch}
                 autoComplete="off"
-                disabled={loading}
               />
 
               <button
-                type="button"
+                type="submit"
                 className="shrink-0 font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400 rounded"
                 aria-label="Search"
               >
@@ -503,7 +271,7 @@ export default function LogoSection() {
                   className="w-5 h-5"
                 />
               </button>
-            </div>
+            </form>
 
             {/* DROPDOWN */}
             {showSearch && (
@@ -512,130 +280,140 @@ export default function LogoSection() {
                 className="absolute left-0 right-0 mt-2 w-full bg-white rounded-xl border border-gray-200 shadow-lg z-50"
                 role="listbox"
                 aria-label="Search suggestions"
+                aria-busy={loading}
               >
-                {/* Status / badges header */}
-                <div className="px-4 pt-3 text-xs text-gray-500 font-light">
-                  {loading && "Fetching catalog…"}
-                  {!loading && !error && quickBadges.length > 0 && "Quick categories:"}
-                  {!loading && !error && quickBadges.length === 0 && "No categories found."}
-                  {error && <span className="text-red-600">{error}</span>}
-                </div>
+                {error && <p className="px-4 pt-3 text-xs text-red-600">{error}</p>}
+
+                {!query ? (
+                  <>
+                    {/* Category badges */}
+                    <div className="px-4 pt-3 text-xs text-gray-500 font-light">
+                      {current ? (current.categories.length ? "Quick categories:" : "No categories found.") : loading && "Fetching categories…"}
+                    </div>
+                    {!!current?.categories.length && (
+                      <div className="px-4 pb-3 pt-2 flex flex-wrap gap-2 border-b border-gray-100">
+                        {current.categories.slice(0, 12).map((c) => (
+                          <Link
+                            key={c.path}
+                            href={c.path}
+                            onClick={() => setShowSearch(false)}
+                            className="text-xs sm:text-sm rounded-full px-3 py-1 transition text-white bg-[#8B1C1C] hover:bg-[#6f1414] font-medium"
+                          >
+                            {c.name}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                    <div className="px-4 py-4 text-xs text-gray-500 font-light">
+                      Search by <span className="font-semibold text-red-700">product name</span>,
+                      <span className="font-semibold text-red-700"> SKU</span>, or a
+                      <span className="font-semibold text-red-700"> material, size or print method</span>. Press Enter
+                      for all results with filters.
+                    </div>
+                  </>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto">
+                    {/* Did you mean */}
+                    {current?.corrected && (
+                      <div className="px-4 py-2 text-xs text-gray-600 border-b border-gray-100">
+                        <span className="font-normal">Showing results for </span>
+                        <button
+                          type="button"
+                          className="underline decoration-dotted hover:text-[#8B1C1C] font-medium"
+                          onClick={() => setSearchQuery(current.corrected!)}
+                        >
+                          {current.corrected}
+                        </button>
+                      </div>
+                    )}
 
-                {/* Category badges */}
-                {quickBadges.length > 0 && (
-                  <div className="px-4 pb-3 pt-2 flex flex-wrap gap-2 border-b border-gray-100">
-                    {navData.slice(0, 12).map((c) => (
-                      <Link
-                        key={c.id}
-                        href={buildCategoryHref(c.url)}
-                        className="text-xs sm:text-sm rounded-full px-3 py-1 transition text-white bg-[#8B1C1C] hover:bg-[#6f1414] font-medium"
-                      >
-                        {c.name}
-                      </Link>
-                    ))}
-                  </div>
-                )}
+                    {/* Completions */}
+                    {!!current?.completions.length && (
+                      <ul className="py-1 border-b border-gray-100" role="presentation">
+                        {current.completions.map((c) => (
+                          <li key={c}>
+                            <button
+                              type="button"
+                              role="option"
+                              aria-selected={false}
+                              className="w-full text-left px-4 py-1.5 text-sm text-gray-800 hover:bg-gray-50"
+                              onClick={() => setSearchQuery(c)}
+                            >
+                              {c}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
 
-                {/* Did you mean */}
-                {debouncedQuery && didYouMean.length > 0 && (
-                  <div className="px-4 py-2 text-xs text-gray-600 border-b border-gray-100">
-                    <span className="font-normal">Did you mean: </span>
-                    {didYouMean.map((s, i) => (
-                      <button
-                        key={s + i}
-                        className="underline decoration-dotted mr-2 hover:text-[#8B1C1C] font-normal"
-                        onClick={() => setSearchQuery(s)}
-                      >
-                        {s}
-                      </button>
-                    ))}
-                  </div>
-                )}
+                    {/* Categories */}
+                    {!!current?.categories.length && (
+                      <div className="px-4 py-2 flex flex-wrap gap-2 border-b border-gray-100">
+                        {current.categories.map((c) => (
+                          <Link
+                            key={c.path}
+                            href={c.path}
+                            onClick={() => setShowSearch(false)}
+                            className="text-xs rounded-full px-3 py-1 bg-gray-100 hover:bg-gray-200 font-medium"
+                          >
+                            {c.parent ? `${c.parent} › ${c.name}` : c.name}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
 
-                {/* Product/Results list */}
-                {debouncedQuery ? (
-                  <div ref={scrollerRef} className="max-h-96 overflow-y-auto">
-                    {visibleItems.length ? (
+                    {/* Products */}
+                    {current && current.products.length > 0 && (
                       <ul className="divide-y divide-gray-100" role="presentation">
-                        {visibleItems.map((it: any) => {
-                          if (it.kind === "header") {
-                            const content = (
-                              <div className="px-4 py-1 text-xs font-semibold tracking-wide uppercase text-red-700">
-                                {it.text}
+                        {current.products.map((p) => (
+                          <li key={p.id} role="option" aria-selected={false}>
+                            <Link
+                              href={p.path}
+                              onClick={() => setShowSearch(false)}
+                              className="w-full text-left px-4 py-3 hover:bg-gray-50 focus:bg-gray-50 flex items-center gap-3 focus:outline-none"
+                            >
+                              <SafeImg
+                                src={p.image}
+                                alt={p.name}
+                                className="w-14 h-14 rounded-md object-cover shrink-0"
+                                width={56}
+                                height={56}
+                                loading="lazy"
+                                onError={(e) => {
+                                  const target = e.target as HTMLImageElement;
+                                  target.onerror = null;
+                                  target.src = PLACEHOLDER_IMG;
+                                }}
+                              />
+                              <div className="min-w-0 flex-1">
+                                <span className="block font-medium text-sm sm:text-base text-gray-900 truncate">
+                                  {p.name}
+                                </span>
+                                <p className="text-xs sm:text-sm text-gray-600 font-normal line-clamp-2">
+                                  {p.subcategory?.name} •{" "}
+                                  <span className="text-gray-500 font-normal">{p.category?.name}</span>
+                                </p>
                               </div>
-                            );
-                            return (
-                              <li key={it.key} className="py-2 bg-white text-black top-0 z-10">
-                                {it.href ? <Link href={it.href}>{content}</Link> : content}
-                              </li>
-                            );
-                          }
-
-                          if (it.kind === "chips") {
-                            return (
-                              <li key={it.key} className="px-4 py-2 bg-white text-black">
-                                <div className="flex flex-wrap gap-2">
-                                  {it.chips.map((c: any, idx: number) => (
-                                    <Link
-                                      key={c.text + idx}
-                                      href={c.href}
-                                      className="text-xs rounded-full px-3 py-1 bg-gray-100 hover:bg-gray-200 font-medium"
-                                    >
-                                      {c.text}
-                                    </Link>
-                                  ))}
-                                </div>
-                              </li>
-                            );
-                          }
-
-                          // product row
-                          return (
-                            <li key={it.key} role="option">
-                              <Link
-                                href={it.href}
-                                className="w-full text-left px-4 py-3 hover:bg-gray-50 focus:bg-gray-50 flex items-center gap-3 focus:outline-none"
-                              >
-                                <SafeImg
-                                  src={it.img}
-                                  alt={it.prod.name}
-                                  className="w-14 h-14 rounded-md object-cover shrink-0"
-                                  width={56}
-                                  height={56}
-                                  loading="lazy"
-                                  onError={(e) => {
-                                    const target = e.target as HTMLImageElement;
-                                    target.onerror = null;
-                                    target.src = PLACEHOLDER_IMG;
-                                  }}
-                                />
-                                <div className="min-w-0 flex-1">
-                                  <span className="block font-medium text-sm sm:text-base text-gray-900 truncate">
-                                    {it.prod.name}
-                                  </span>
-                                  <p className="text-xs sm:text-sm text-gray-600 font-normal line-clamp-2">
-                                    {it.prod.subName} •{" "}
-                                    <span className="text-gray-500 font-normal">{it.prod.catName}</span>
-                                  </p>
-                                </div>
-                              </Link>
-                            </li>
-                          );
-                        })}
+                            </Link>
+                          </li>
+                        ))}
                       </ul>
-                    ) : (
+                    )}
+
+                    {current && !current.products.length && !current.categories.length ? (
                       <div className="px-4 py-6 text-sm text-gray-500 font-normal">
-                        No matches for “{searchQuery}”. Try another keyword.
+                        No matches for “{query}”. Try another keyword.
                       </div>
+                    ) : (
+                      <Link
+                        href={searchPath({ q: query })}
+                        onClick={() => setShowSearch(false)}
+                        className="block px-4 py-3 text-sm font-medium text-[#8B1C1C] hover:bg-gray-50 border-t border-gray-100"
+                      >
+                        {current ? `See all results for “${query}”` : "Searching…"}
+                      </Link>
                     )}
                   </div>
-                ) : (
-                  <div className="px-4 py-4 text-xs text-gray-500 font-light">
-                    Start typing a <span className="font-semibold text-red-700">Category</span>,
-                    <span className="font-semibold text-red-700"> Subcategory</span>, or a
-                    <span className="font-semibold text-red-700"> Product</span>. Results adapt to
-                    what you’re looking for.
-                  </div>
                 )}
               </div>
             )}
@@ -644,7 +422,7 @@ export default function LogoSection() {
 
         {/* Right-side links */}
         <div className="flex flex-row gap-8 px-1 pt-2 sm:pt-0 flex-wrap sm:flex-nowrap items-center justify-center sm:justify-start">
-          {!(user || pseudoLoggedIn) ? (
+          {!(user || pseudoLoggedIn || guestCheckout) ? (
             <button
               onClick={() => openModal("signin")}
               className="cursor-pointer flex items-center gap-2 bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-xs font-medium px-10 py-1.5 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
@@ -661,10 +439,11 @@ export default function LogoSection() {
               <span className="-ml-1 whitespace-nowrap text-sm font-medium text-white">Cart</span>
             </button>
           ) : (
-            <Link
-              href="/checkout2"
+            <button
+              type="button"
+              onClick={openMiniCart}
               className="cursor-pointer flex items-center gap-2 bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-xs font-medium px-10 py-1.5 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
-              aria-label="Go to cart"
+              aria-label="Open cart"
             >
               <img
                 src="https://img.icons8.com/?size=100&id=ii6Lr4KivOiE&format=png&color=FFFFFF"
@@ -674,7 +453,8 @@ export default function LogoSection() {
                 className="-ml-5 w-5 h-5 left-3"
               />
               <span className="-ml-1 whitespace-nowrap text-sm font-medium text-white">Cart</span>
-            </Link>
+              <CartCountBadge />
+            </button>
           )}
 
           <Link
@@ -789,6 +569,16 @@ export default function LogoSection() {
                       My Orders
                     </Link>
 
+                    <Link
+                      href="/wishlist"
+                      role="menuitem"
+                      className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 text-sm text-gray-800"
+                      onClick={() => setUserMenuOpen(false)}
+                    >
+                      <FaRegHeart className="text-[#8B1C1C]" size={18} aria-hidden />
+                      My Wishlist
+                    </Link>
+
                     <Link
                       href="/personal-profile"
                       role="menuitem"
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useCart } from "./CartProvider";
+import { MAX_QTY, MIN_QTY } from "../utils/cart";
+import { SafeImg } from "./SafeImage";
+
+const AED = (n: number) => `AED ${(Number.isFinite(n) ? n : 0).toFixed(2)}`;
+
+/** Red count bubble for cart buttons; renders nothing for an empty cart. */
+export function CartCountBadge({ className = "" }: { className?: string }) {
+  const { count } = useCart();
+  if (!count) return null;
+  return (
+    <span
+      className={`inline-flex min-w-[1.25rem] h-5 items-center justify-center rounded-full bg-white px-1 text-[11px] font-semibold text-[#8B1C1C] ${className}`}
+      aria-label={`${count} item${count === 1 ? "" : "s"} in cart`}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
+
+/** Slide-out cart, mounted once in Providers and opened via useCart().openMiniCart(). */
+export default function MiniCart() {
+  const { lines, subtotal, loading, miniCartOpen, closeMiniCart, setQuantity, removeItem } = useCart();
+  const pathname = usePathname();
+  const panelRef = useRef<HTMLElement>(null);
+
+  // Close on navigation and on Escape
+  useEffect(() => {
+    closeMiniCart();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathname]);
+
+  useEffect(() => {
+    if (!miniCartOpen) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") closeMiniCart();
+    };
+    window.addEventListener("keydown", onKey);
+    panelRef.current?.focus();
+    return () => window.removeEventListener("keydown", onKey);
+  }, [miniCartOpen, closeMiniCart]);
+
+  // The admin has no storefront cart
+  if (pathname?.startsWith("/admin")) return null;
+
+  return (
+    <div
+      className={`fixed inset-0 z-[9998] ${miniCartOpen ? "" : "pointer-events-none"}`}
+      aria-hidden={!miniCartOpen}
+      style={{ fontFamily: "var(--font-poppins), Arial, Helvetica, sans-serif" }}
+    >
+      <div
+        className={`absolute inset-0 bg-black/40 transition-opacity duration-200 ${miniCartOpen ? "opacity-100" : "opacity-0"}`}
+        onClick={closeMiniCart}
+      />
+
+      <aside
+        ref={panelRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Shopping cart"
+        className={`absolute right-0 top-0 h-full w-full max-w-sm bg-white text-black shadow-xl flex flex-col outline-none transition-transform duration-200 ease-out ${
+          miniCartOpen ? "translate-x-0" : "translate-x-full"
+        }`}
+      >
+        <header className="flex items-center justify-between px-5 py-4 border-b">
+          <h2 className="text-lg font-semibold">Your Cart</h2>
+          <button
+            type="button"
+            onClick={closeMiniCart}
+            className="text-2xl leading-none text-gray-500 hover:text-black"
+            aria-label="Close cart"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {loading && !lines.length ? (
+            <p className="text-sm text-gray-500 py-8 text-center">Loading your cart…</p>
+          ) : !lines.length ? (
+            <p className="text-sm text-gray-500 py-8 text-center">Your cart is empty.</p>
+          ) : (
+            <ul className="divide-y">
+              {lines.map((line) => (
+                <li key={line.id} className="flex gap-3 py-3">
+                  <SafeImg
+                    src={line.image}
+                    alt={line.name}
+                    width={64}
+                    height={64}
+                    className="w-16 h-16 rounded object-cover border"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{line.name}</p>
+                    {line.description && <p className="text-xs text-gray-500 truncate">{line.description}</p>}
+                    <div className="mt-2 flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="w-7 h-7 rounded border text-sm disabled:opacity-40"
+                        onClick={() => setQuantity(line.id, line.quantity - 1)}
+                        disabled={line.quantity <= MIN_QTY}
+                        aria-label={`Decrease quantity of ${line.name}`}
+                      >
+                        −
+                      </button>
+                      <span className="w-6 text-center text-sm" aria-live="polite">
+                        {line.quantity}
+                      </span>
+                      <button
+                        type="button"
+                        className="w-7 h-7 rounded border text-sm disabled:opacity-40"
+                        onClick={() => setQuantity(line.id, line.quantity + 1)}
+                        disabled={line.quantity >= MAX_QTY}
+                        aria-label={`Increase quantity of ${line.name}`}
+                      >
+                        +
+                      </button>
+                      <button
+                        type="button"
+                        className="ml-auto text-xs text-red-700 hover:underline"
+                        onClick={() => removeItem(line.id).catch(() => {})}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm font-semibold whitespace-nowrap">{AED(line.unit_price * line.quantity)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <footer className="border-t px-5 py-4 space-y-3">
+          <div className="flex justify-between text-sm">
+            <span>Subtotal</span>
+            <span className="font-semibold">{AED(subtotal)}</span>
+          </div>
+          <p className="text-xs text-gray-500">Shipping, VAT and discounts are calculated at checkout.</p>
+          <Link
+            href="/checkout2"
+            onClick={closeMiniCart}
+            className={`block text-center rounded-full bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-sm font-medium py-2.5 ${
+              lines.length ? "" : "pointer-events-none opacity-50"
+            }`}
+            aria-disabled={!lines.length}
+          >
+            View cart &amp; checkout
+          </Link>
+        </footer>
+      </aside>
+    </div>
+  );
+}
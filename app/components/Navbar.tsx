@@ -9,7 +9,10 @@ import React, {
   useId,
 } from "react";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
 import { SafeImg } from "./SafeImage";
+import { useCart } from "./CartProvider";
+import { CartCountBadge } from "./MiniCart";
 
 /* ──────────────────────────────────────────────────────────
    Types
@@ -54,20 +57,8 @@ const getDropdownItemColorClass = (color: string) => {
 };
 
 /* ──────────────────────────────────────────────────────────
-   Fetch helper (single harmless custom header) + session cache
+   Session cache
    ────────────────────────────────────────────────────────── */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const fetchWithKey = (url: string, init: RequestInit = {}) => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return fetch(url, {
-    ...init,
-    headers,
-    credentials: "omit",
-    mode: "cors",
-  });
-};
-
 // simple in-memory + sessionStorage cache to avoid re-fetch on client navigations
 let NAV_MEMO: Category[] | null = null;
 const NAV_SKEY = "cc_nav_cache_v1";
@@ -100,6 +91,7 @@ const NOT_FOUND_IMG = "/images/img1.jpg";
    Component
    ────────────────────────────────────────────────────────── */
 export default function Navbar() {
+  const { openMiniCart } = useCart();
   const [navItemsData, setNavItemsData] = useState<NavItem[]>([]);
   const [productData, setProductData] = useState<Category[]>([]);
   const [openIndex, setOpenIndex] = useState<number | null>(null);
@@ -188,7 +180,7 @@ export default function Navbar() {
     (async () => {
       try {
         setFetchError(null);
-        const res = await fetchWithKey(`${API_BASE_URL}/api/show_nav_items/`, {
+        const res = await apiFetch(`${API_BASE_URL}/api/show_nav_items/`, {
           signal: controller.signal,
         });
         if (!res.ok) {
@@ -428,6 +420,23 @@ export default function Navbar() {
                 </div>
               </div>
 
+              <button
+                type="button"
+                onClick={openMiniCart}
+                className="hidden md:flex shrink-0 items-center gap-1.5 ml-2 px-3 py-2 rounded-full bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-sm transition-colors"
+                aria-label="Open cart"
+              >
+                <img
+                  src="https://img.icons8.com/?size=100&id=ii6Lr4KivOiE&format=png&color=FFFFFF"
+                  alt=""
+                  width={18}
+                  height={18}
+                  className="w-[18px] h-[18px]"
+                  aria-hidden="true"
+                />
+                <CartCountBadge />
+              </button>
+
               {/* Edge fades hint on small screens */}
               <div className="pointer-events-none absolute inset-y-0 left-0 w-6 bg-gradient-to-r from-white to-transparent lg:hidden" />
               <div className="pointer-events-none absolute inset-y-0 right-0 w-6 bg-gradient-to-l from-white to-transparent lg:hidden" />
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import {
+  CUSTOMER_STATUS_LABELS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TONES,
+  type OrderStatusEvent,
+} from "../utils/orderStatus";
+
+type OrderTimelineProps = {
+  events: OrderStatusEvent[];
+  // customers see "In Processing" and never an admin's name
+  audience?: "admin" | "customer";
+};
+
+const formatWhen = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso || "—" : d.toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+};
+
+function actorText(e: OrderStatusEvent, audience: "admin" | "customer") {
+  if (e.actor_type === "customer") return "by you";
+  if (e.actor_type === "system") return "automatically";
+  return audience === "admin" ? `by ${e.actor || "an admin"}` : "by our team";
+}
+
+/** Oldest-first list of status changes, newest shown last. */
+export default function OrderTimeline({ events, audience = "admin" }: OrderTimelineProps) {
+  const labels = audience === "admin" ? ORDER_STATUS_LABELS : CUSTOMER_STATUS_LABELS;
+
+  if (!events.length) {
+    return <p className="text-sm text-gray-500 italic">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4" aria-label="Order status history">
+      {events.map((e, i) => (
+        <li key={`${e.at}-${e.to}-${i}`} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+              i === events.length - 1 ? "bg-[#891F1A]" : "bg-gray-300"
+            }`}
+            aria-hidden="true"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${ORDER_STATUS_TONES[e.to]}`}>
+              {labels[e.to]}
+            </span>
+            <time dateTime={e.at} className="text-xs text-gray-500">
+              {formatWhen(e.at)}
+            </time>
+            <span className="text-xs text-gray-500">{actorText(e, audience)}</span>
+          </div>
+          {e.reason ? <p className="mt-1 text-sm text-gray-700">{e.reason}</p> : null}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React from "react";
+import { CARRIER_LABELS, type Shipment, type TrackingEvent } from "../utils/shipments";
+
+type ShipmentTrackingProps = {
+  shipment: Shipment;
+  events: TrackingEvent[]; // newest first
+  loading?: boolean;
+  error?: string;
+};
+
+const formatWhen = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso || "—" : d.toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+};
+
+/** Carrier, tracking number and the carrier's scans, newest on top. */
+export default function ShipmentTracking({ shipment, events, loading = false, error = "" }: ShipmentTrackingProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+        <span>
+          <strong>Carrier:</strong> {CARRIER_LABELS[shipment.carrier]}
+        </span>
+        <span>
+          <strong>Tracking no.:</strong>{" "}
+          {shipment.tracking_url ? (
+            <a href={shipment.tracking_url} target="_blank" rel="noopener noreferrer" className="text-[#891F1A] underline">
+              {shipment.tracking_number}
+            </a>
+          ) : (
+            shipment.tracking_number
+          )}
+        </span>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading tracking…</p>
+      ) : error ? (
+        <p className="text-sm text-amber-700">{error}</p>
+      ) : !events.length ? (
+        <p className="text-sm text-gray-500 italic">No scans from the carrier yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-3" aria-label="Shipment tracking events">
+          {events.map((e, i) => (
+            <li key={`${e.at}-${e.code}-${i}`} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                  i === 0 ? "bg-[#891F1A]" : "bg-gray-300"
+                }`}
+                aria-hidden="true"
+              />
+              <p className="text-sm font-medium text-gray-800">{e.description || e.code}</p>
+              <p className="text-xs text-gray-500">
+                <time dateTime={e.at}>{formatWhen(e.at)}</time>
+                {e.location ? ` · ${e.location}` : ""}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
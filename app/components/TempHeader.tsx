@@ -5,14 +5,10 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import LoginModal from "./LoginModal";
 import { API_BASE_URL } from "../utils/api";
-
-/* ---------- FRONTEND KEY helper ---------- */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers, cache: "no-store", credentials: "omit", mode: "cors" };
-};
+import { apiFetch } from "../utils/apiClient";
+import { useCart } from "./CartProvider";
+import { CartCountBadge } from "./MiniCart";
+import { isGuestCheckoutEnabled } from "../utils/checkout";
 
 /* ---------- Logo helpers ---------- */
 const LOCAL_LOGO_FALLBACK = "/images/logo.png";
@@ -45,6 +41,7 @@ export default function TempHeader({
   handleLogout = noop,
 }: TempHeaderProps) {
   const router = useRouter();
+  const { openMiniCart } = useCart();
 
   // ===== Modal state =====
   const [isModalVisible, setIsModalVisible] = useState(false);
@@ -90,6 +87,12 @@ export default function TempHeader({
     return () => document.removeEventListener("keydown", onKey);
   }, [userMenuOpen]);
 
+  // With guest checkout on, signed-out visitors get the cart instead of a sign-in prompt
+  const [guestCheckout, setGuestCheckout] = useState(false);
+  useEffect(() => {
+    isGuestCheckoutEnabled().then(setGuestCheckout);
+  }, []);
+
   const isAuthed = Boolean(user || pseudoLoggedIn);
   const displayName = username || pseudoName || "User";
   const closeMenu = () => setUserMenuOpen(false);
@@ -121,9 +124,9 @@ export default function TempHeader({
 
     (async () => {
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-logo/?_=${Date.now()}`,
-          { ...withFrontendKey(), signal: ac.signal }
+          { signal: ac.signal }
         );
         const json = res.ok ? await res.json() : null;
         const url = normalizeLogoUrl(json?.logo?.url);
@@ -194,7 +197,7 @@ export default function TempHeader({
             {/* Right: Buttons / Links */}
             <div className="flex items-center justify-end shrink-0 min-w-0">
               <div className="flex flex-row gap-1 sm:gap-3 lg:gap-2 xl:gap-3 px-0 lg:flex-wrap xl:flex-nowrap items-center">
-                {!isAuthed ? (
+                {!isAuthed && !guestCheckout ? (
                   <button
                     onClick={() => triggerModal("signin")}
                     className="cursor-pointer flex items-center gap-2 bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-xs font-medium px-6 sm:px-8 lg:px-5 xl:px-8 py-1.5 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
@@ -214,9 +217,9 @@ export default function TempHeader({
                     <span className="whitespace-nowrap text-sm font-medium text-white">Cart</span>
                   </button>
                 ) : (
-                  <Link
-                    href="/checkout2"
-                    prefetch
+                  <button
+                    type="button"
+                    onClick={openMiniCart}
                     className="cursor-pointer flex items-center gap-2 bg-[#8B1C1C] hover:bg-[#6f1414] text-white text-xs font-medium px-6 sm:px-8 lg:px-5 xl:px-8 py-1.5 rounded-full transition-all duration-200 shadow-sm hover:shadow-md"
                     aria-label="Open cart"
                   >
@@ -231,7 +234,8 @@ export default function TempHeader({
                       aria-hidden="true"
                     />
                     <span className="whitespace-nowrap text-sm font-medium text-white">Cart</span>
-                  </Link>
+                    <CartCountBadge />
+                  </button>
                 )}
 
                 <Link
@@ -0,0 +1,230 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname } from "next/navigation";
+import { toast } from "react-toastify";
+import { auth } from "../lib/firebase";
+import { api, isAbortError } from "../utils/apiClient";
+import { useCart } from "./CartProvider";
+import {
+  DEFAULT_WISHLIST_ALERTS,
+  WISHLIST_EVENT_KEY,
+  WISHLIST_MAX_ITEMS,
+  normalizeWishlist,
+  readGuestWishlist,
+  saveWishlistAlerts,
+  writeGuestWishlist,
+  type Wishlist,
+  type WishlistAlertPrefs,
+} from "../utils/wishlist";
+
+/* =========================================================
+   Wishlist store — one copy for every page. Follows the
+   account the cart store reports: signed in, the list is read
+   from and written to the backend; as a guest it stays in
+   this browser. Signing in moves the guest list onto the
+   account. Other tabs are told to reload after each change.
+   ========================================================= */
+
+type WishlistContextValue = {
+  wishlist: Wishlist;
+  ids: Set<string>;
+  loading: boolean;
+  signedIn: boolean;
+  has: (productId: string) => boolean;
+  toggle: (productId: string) => Promise<boolean>; // resolves whether it is now on the list
+  remove: (productId: string) => Promise<void>;
+  saveAlerts: (prefs: WishlistAlertPrefs) => Promise<void>;
+  setSharing: (enabled: boolean) => Promise<string | null>;
+  refresh: () => Promise<void>;
+};
+
+const EMPTY: Wishlist = { items: [], share_token: null, alerts: DEFAULT_WISHLIST_ALERTS, email: "" };
+
+const WishlistContext = createContext<WishlistContextValue | null>(null);
+
+const guestWishlist = (): Wishlist => ({
+  ...EMPTY,
+  items: readGuestWishlist().map((product_id) => ({ product_id, added_at: "" })),
+});
+
+const announceWishlistChange = () => {
+  try {
+    localStorage.setItem(WISHLIST_EVENT_KEY, String(Date.now()));
+  } catch {}
+};
+
+/** Puts this browser's guest list on the account; ids only leave the browser once saved. */
+async function mergeGuestWishlist(uid: string, account: Wishlist) {
+  const have = new Set(account.items.map((i) => i.product_id));
+  const guest = readGuestWishlist();
+  const room = WISHLIST_MAX_ITEMS - have.size;
+  const moving = guest.filter((id) => !have.has(id)).slice(0, Math.max(0, room));
+  for (const id of moving) await api.saveWishlistItem(uid, id);
+  writeGuestWishlist([]);
+  return moving.length;
+}
+
+export function WishlistProvider({ children }: { children: React.ReactNode }) {
+  const { accountUid, accountReady } = useCart();
+  const storefront = !usePathname()?.startsWith("/admin");
+  const [wishlist, setWishlist] = useState<Wishlist>(EMPTY);
+  const [loading, setLoading] = useState(true);
+  const uidRef = useRef("");
+  uidRef.current = accountUid;
+  const wishlistRef = useRef(wishlist);
+  wishlistRef.current = wishlist;
+  const loadRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    loadRef.current?.abort();
+    const uid = uidRef.current;
+    if (!uid) {
+      setWishlist(guestWishlist());
+      setLoading(false);
+      return;
+    }
+    const ac = new AbortController();
+    loadRef.current = ac;
+    try {
+      const next = normalizeWishlist(await api.showWishlist(uid, { signal: ac.signal }));
+      setWishlist(next);
+      // Alerts go to the account's address; keep the backend's copy current (the server reads it from the ID token)
+      const email = (auth.currentUser?.email || "").trim();
+      if (email && email !== next.email) {
+        saveWishlistAlerts(next.alerts)
+          .then((saved) => setWishlist((w) => ({ ...w, email: saved })))
+          .catch((err) => console.warn("Wishlist email sync failed:", err));
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Wishlist fetch error:", err);
+    } finally {
+      if (loadRef.current === ac) {
+        loadRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!storefront || !accountReady) return;
+    let cancelled = false;
+    (async () => {
+      if (accountUid && readGuestWishlist().length) {
+        try {
+          const moved = await mergeGuestWishlist(accountUid, normalizeWishlist(await api.showWishlist(accountUid)));
+          if (moved) {
+            toast.info("We added the items you saved as a guest to your wishlist.");
+            announceWishlistChange();
+          }
+        } catch (err) {
+          console.error("Guest wishlist merge failed:", err);
+        }
+      }
+      if (!cancelled) refresh();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [accountUid, accountReady, refresh, storefront]);
+
+  useEffect(() => {
+    if (!storefront) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === WISHLIST_EVENT_KEY) refresh();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      window.removeEventListener("storage", onStorage);
+      loadRef.current?.abort();
+    };
+  }, [refresh, storefront]);
+
+  const ids = useMemo(() => new Set(wishlist.items.map((i) => i.product_id)), [wishlist.items]);
+
+  // Optimistic; a failed write puts back what the server has and rethrows
+  const write = useCallback(
+    async (productId: string, add: boolean) => {
+      const uid = uidRef.current;
+      const before = wishlistRef.current;
+      const items = add
+        ? [{ product_id: productId, added_at: new Date().toISOString() }, ...before.items]
+        : before.items.filter((i) => i.product_id !== productId);
+      setWishlist({ ...before, items });
+
+      if (!uid) {
+        writeGuestWishlist(items.map((i) => i.product_id));
+        announceWishlistChange();
+        return;
+      }
+      try {
+        if (add) await api.saveWishlistItem(uid, productId);
+        else await api.deleteWishlistItem(uid, productId);
+        announceWishlistChange();
+      } catch (err) {
+        refresh();
+        throw err;
+      }
+    },
+    [refresh]
+  );
+
+  const toggle = useCallback(
+    async (productId: string) => {
+      const add = !wishlistRef.current.items.some((i) => i.product_id === productId);
+      if (add && wishlistRef.current.items.length >= WISHLIST_MAX_ITEMS) {
+        throw new Error(`Your wishlist is full (${WISHLIST_MAX_ITEMS} items)`);
+      }
+      await write(productId, add);
+      return add;
+    },
+    [write]
+  );
+
+  const remove = useCallback((productId: string) => write(productId, false), [write]);
+
+  const saveAlerts = useCallback(
+    async (prefs: WishlistAlertPrefs) => {
+      if (!uidRef.current) throw new Error("Sign in to get wishlist alerts");
+      const email = await saveWishlistAlerts(prefs);
+      setWishlist((w) => ({ ...w, alerts: prefs, email }));
+      announceWishlistChange();
+    },
+    []
+  );
+
+  const setSharing = useCallback(async (enabled: boolean) => {
+    const uid = uidRef.current;
+    if (!uid) throw new Error("Sign in to share your wishlist");
+    const { share_token } = await api.shareWishlist(uid, enabled);
+    const token = enabled ? String(share_token || "").trim() || null : null;
+    setWishlist((w) => ({ ...w, share_token: token }));
+    announceWishlistChange();
+    return token;
+  }, []);
+
+  const value = useMemo<WishlistContextValue>(
+    () => ({
+      wishlist,
+      ids,
+      loading,
+      signedIn: !!accountUid,
+      has: (productId: string) => ids.has(productId),
+      toggle,
+      remove,
+      saveAlerts,
+      setSharing,
+      refresh,
+    }),
+    [wishlist, ids, loading, accountUid, toggle, remove, saveAlerts, setSharing, refresh]
+  );
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+}
+
+export function useWishlist() {
+  const ctx = useContext(WishlistContext);
+  if (!ctx) throw new Error("useWishlist must be used inside <WishlistProvider>");
+  return ctx;
+}
@@ -4,14 +4,7 @@ import React, { useRef, useState, useEffect, useCallback, useMemo, useId } from
 import { FaChevronLeft, FaChevronRight } from "react-icons/fa";
 import SafeImage from "./SafeImage";
 import { API_BASE_URL } from "../utils/api";
-
-/* ---------- FRONTEND KEY (avoid setting when empty to reduce preflight) ---------- */
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers, cache: "no-store", credentials: "omit", mode: "cors" };
-};
+import { apiFetch } from "../utils/apiClient";
 
 type Testimonial = {
   id?: string | number;
@@ -57,9 +50,9 @@ export default function CustomerReviews() {
     (async () => {
       setLoading(true);
       try {
-        const res = await fetch(
+        const res = await apiFetch(
           `${API_BASE_URL}/api/show-testimonials/?all=1&_=${Date.now()}`,
-          { ...withFrontendKey({ method: "GET" }), signal: ac.signal }
+          { method: "GET", signal: ac.signal }
         );
         if (!res.ok) throw new Error(`Fetch failed (${res.status})`);
         const data = await res.json();
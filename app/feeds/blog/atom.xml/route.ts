@@ -0,0 +1,7 @@
+import { atomXml, loadFeed, xmlResponse } from '../../../lib/feeds';
+
+export const revalidate = 300;
+
+export async function GET() {
+  return xmlResponse(atomXml(await loadFeed('blog')), 'application/atom+xml');
+}
@@ -0,0 +1,7 @@
+import { loadFeed, rssXml, xmlResponse } from '../../../lib/feeds';
+
+export const revalidate = 300;
+
+export async function GET() {
+  return xmlResponse(rssXml(await loadFeed('products')), 'application/rss+xml');
+}
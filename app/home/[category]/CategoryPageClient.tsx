@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import DOMPurify from 'isomorphic-dompurify';
+import { SafeImg } from '../../components/SafeImage';
+import { titleFromSlug, type CategoryPageData } from '../../utils/storefront';
+
+/** ==== Lazy-load strictly non-critical UI to cut LCP/TBT ==== */
+const Header = dynamic(() => import('../../components/header'), { ssr: false });
+const LogoSection = dynamic(() => import('../../components/LogoSection'), { ssr: false });
+const Navbar = dynamic(() => import('../../components/Navbar'), { ssr: false });
+const HomePageTop = dynamic(() => import('../../components/HomePageTop'), { ssr: false });
+const SecondCarousel = dynamic(() => import('../../components/second_carousel'), {
+  ssr: false,
+  loading: () => <div aria-hidden className="h-[220px] w-full bg-gray-50" />,
+});
+const Footer = dynamic(() => import('../../components/Footer'), {
+  ssr: false,
+  loading: () => <div aria-hidden className="h-[160px] w-full bg-gray-50" />,
+});
+const ChatBot = dynamic(() => import('../../components/ChatBot').then((m) => m.ChatBot), { ssr: false });
+
+/** ==== Types ==== */
+interface Props {
+  slug: string;
+  data: CategoryPageData;
+}
+
+/** ==== HTML sanitizer (safe links, no scripts/iframes) ==== */
+const sanitizeHtml = (dirty: string) =>
+  DOMPurify.sanitize(dirty, {
+    ALLOWED_TAGS: ['b', 'strong', 'i', 'em', 'u', 'p', 'br', 'ul', 'ol', 'li', 'span', 'a'],
+    ALLOWED_ATTR: ['href', 'target', 'rel'],
+    FORBID_TAGS: ['script', 'style', 'iframe', 'object', 'embed'],
+    ADD_ATTR: ['rel'],
+    FORBID_ATTR: ['onerror', 'onclick', 'style'],
+    RETURN_TRUSTED_TYPE: false,
+  }).replaceAll('<a ', '<a rel="nofollow noopener" target="_blank" ');
+
+/** ==== Page (Client) — loaded and described for SEO by page.tsx ==== */
+const CategoryPageClient: React.FC<Props> = ({ slug: categorySlug, data }) => {
+  const categoryInfo = data.category;
+
+  // Hero images
+  const heroImages = data.hero;
+  const desktopImages = useMemo(() => {
+    const urls = heroImages.filter((i) => i.device_type === 'desktop').map((i) => i.url);
+    return urls.length ? urls : ['/images/img1.jpg'];
+  }, [heroImages]);
+  const mobileImages = useMemo(() => {
+    const urls = heroImages.filter((i) => i.device_type === 'mobile').map((i) => i.url);
+    return urls.length ? urls : ['/images/img1.jpg'];
+  }, [heroImages]);
+  const [desktopIndex, setDesktopIndex] = useState(0);
+  const [mobileIndex, setMobileIndex] = useState(0);
+
+  // Prefetch control
+  const hasPrefetchedHeroRef = useRef(false);
+
+  const currentDesktopHero = desktopImages[desktopIndex];
+  const categoryText = useMemo(() => titleFromSlug(categorySlug), [categorySlug]);
+
+  // Motion-safe, memory-safe auto-advance for hero images
+  useEffect(() => {
+    const prefersReducedMotion =
+      typeof window !== 'undefined' &&
+      window.matchMedia &&
+      window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+    if (prefersReducedMotion || heroImages.length < 2) return;
+
+    const interval = setInterval(() => {
+      setDesktopIndex((prev) => (prev + 1) % Math.max(desktopImages.length, 1));
+      setMobileIndex((prev) => (prev + 1) % Math.max(mobileImages.length, 1));
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [heroImages.length, desktopImages.length, mobileImages.length]);
+
+  // Preload current desktop hero (helps LCP)
+  useEffect(() => {
+    if (!currentDesktopHero || hasPrefetchedHeroRef.current) return;
+    const link = document.createElement('link');
+    link.rel = 'preload';
+    link.as = 'image';
+    link.href = currentDesktopHero;
+    document.head.appendChild(link);
+    hasPrefetchedHeroRef.current = true;
+    // keep link in head for session; don’t remove
+  }, [currentDesktopHero]);
+
+  /** ==== UI ==== */
+  const rawDescription = (categoryInfo.description || '').trim();
+  const descriptionHtml = sanitizeHtml(rawDescription) || '<p>Explore our product range.</p>';
+  const categoryImage = categoryInfo.images?.[0]?.url || '/images/img1.jpg';
+
+  return (
+    <div className="flex flex-col bg-white" style={{ fontFamily: 'var(--font-poppins), Arial, Helvetica, sans-serif' }}>
+      {/* Skip link for keyboard users */}
+      <a
+        href="#main"
+        className="sr-only focus:not-sr-only focus:absolute focus:top-2 focus:left-2 focus:bg-white focus:text-black focus:px-3 focus:py-2 focus:rounded"
+      >
+        Skip to main content
+      </a>
+
+      {/* Keep chrome components, but they’re lazy-loaded to shrink TBT without jarring CLS */}
+      <Header />
+      <LogoSection />
+      <Navbar />
+      <HomePageTop />
+
+      {/* Hero wrapper reserves height to eliminate CLS; desktop first for LCP */}
+      <section aria-label="Hero banner" className="w-full">
+        <div className="hidden sm:block w-full mx-auto overflow-hidden" style={{ height: 'clamp(320px, 36vw, 440px)' }}>
+          <SafeImg
+            loading="eager"
+            width="1440"
+            height="440"
+            src={currentDesktopHero}
+            alt="Promotional hero banner for desktop"
+            className="w-full h-full object-cover"
+            // @ts-expect-error pass-through to <img> if SafeImg forwards props
+            fetchpriority="high"
+            decoding="async"
+          />
+        </div>
+
+        <div className="block sm:hidden w-full mx-auto overflow-hidden" style={{ height: 'clamp(220px, 42vw, 320px)' }}>
+          <SafeImg
+            loading="lazy"
+            width="768"
+            height="320"
+            src={mobileImages[mobileIndex]}
+            alt="Promotional hero banner for mobile"
+            className="w-full h-full object-cover"
+            decoding="async"
+          />
+        </div>
+      </section>
+
+      {/* Main content */}
+      <main id="main">
+        {/* Subcategories: use real list semantics for a11y */}
+        <section className="px-4 sm:px-6 lg:px-24 py-10 bg-white" aria-labelledby="subcategory-title">
+          <h2 id="subcategory-title" className="text-[#891F1A] text-2xl sm:text-3xl font-semibold text-center mb-6">
+            {categoryText}
+          </h2>
+
+          <ul
+            className="
+              grid gap-2
+              grid-cols-3
+              sm:grid-cols-4
+              md:grid-cols-5
+            "
+          >
+            {categoryInfo.subcategories.map((subcat) => {
+              const subcatImage = subcat.images?.[0]?.url || '/images/default.jpg';
+              const subcatSlug = subcat.url;
+
+              return (
+                <li key={String(subcat.id) || `${subcatSlug}-${subcat.name}`} className="block">
+                  <Link
+                    href={`/home/${categorySlug}/${subcatSlug}`}
+                    aria-label={`View ${subcat.name}`}
+                    className="group block focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400 rounded-lg"
+                  >
+                    <SafeImg
+                      src={subcatImage}
+                      alt={subcat.images?.[0]?.alt_text || subcat.name}
+                      loading="lazy"
+                      className="w-full h-full object-cover rounded-lg transition-transform group-hover:scale-105"
+                      decoding="async"
+                    />
+                    <div className="mt-2">
+                      <p className="text-gray-800 font-medium text-center">{subcat.name}</p>
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        {/* Category Info */}
+        <section className="px-4 sm:px-6 lg:px-24 py-10" aria-labelledby="category-info-title">
+          <div className="flex flex-col lg:flex-row items-start">
+            {/* Left: Image */}
+            <div className="lg:w-1/3 w-full mt-3 lg:mt-0 lg:pr-8">
+              <SafeImg
+                loading="lazy"
+                alt={`${categoryText} overview image`}
+                src={categoryImage}
+                className="object-cover object-center rounded mb-5 w-full h-auto"
+                decoding="async"
+              />
+            </div>
+
+            {/* Right: Text */}
+            <div className="lg:w-2/3 w-full mt-3 lg:mt-0">
+              <h1 id="category-info-title" className="text-red-700 text-4xl font-bold mb-1">
+                {categoryText}
+              </h1>
+
+              {categoryInfo.caption?.trim() ? (
+                <p className="leading-relaxed font-normal text-black">{categoryInfo.caption}</p>
+              ) : null}
+
+              {/* Description (sanitized HTML) */}
+              <div
+                className="leading-relaxed mt-3 text-gray-700 font-normal text-[15px] [&_ul]:list-disc [&_ol]:list-decimal [&_li]:ml-6 [&_a]:underline"
+                // eslint-disable-next-line react/no-danger
+                dangerouslySetInnerHTML={{ __html: descriptionHtml }}
+                aria-label={`${categoryText} description`}
+              />
+            </div>
+          </div>
+        </section>
+      </main>
+
+      <SecondCarousel />
+      <Footer />
+      <ChatBot />
+    </div>
+  );
+};
+
+export default CategoryPageClient;
@@ -0,0 +1,485 @@
+"use client";
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  memo,
+} from "react";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+
+import { errorMessage, isApiError } from "../../../utils/apiClient";
+import type { SearchFilters, SearchResult } from "../../../utils/search";
+import Header from "../../../components/header";
+import Navbar from "../../../components/Navbar";
+import LogoSection from "../../../components/LogoSection";
+import HomePageTop from "../../../components/HomePageTop";
+import Footer from "../../../components/Footer";
+import FacetFilters, { SortSelect, activeFilterCount, filterHref } from "../../../components/FacetFilters";
+import { SafeImg } from "../../../components/SafeImage";
+import { useCart } from "../../../components/CartProvider";
+import { useWishlist } from "../../../components/WishlistProvider";
+import { subcategoryPath, type SubcategoryPageData, type SubcategoryProductCard } from "../../../utils/storefront";
+
+/* ──────────────────────────────────────────────────────────────────────────
+   🔧 Lightweight, on-demand Toastify (no upfront JS/CSS cost)
+   ────────────────────────────────────────────────────────────────────────── */
+type ToastifyType = (opts: any) => { showToast: () => void };
+let toastCssInjected = false;
+async function toastify(opts: any) {
+  // @ts-ignore
+  const mod = (await import("toastify-js")).default as ToastifyType;
+  if (!toastCssInjected) {
+    const id = "toastify-css";
+    if (!document.getElementById(id)) {
+      const link = document.createElement("link");
+      link.id = id;
+      link.rel = "stylesheet";
+      link.href =
+        "https://cdn.jsdelivr.net/npm/toastify-js/src/toastify.min.css";
+      document.head.appendChild(link);
+    }
+    toastCssInjected = true;
+  }
+  return mod(opts).showToast();
+}
+
+// Backend message for rejected cart calls; anything else is connectivity
+const cartErrorText = (err: unknown) =>
+  isApiError(err) && err.kind === "http" ? `❌ ${err.message || "Try again!"}` : "❌ Network error";
+
+/* ──────────────────────────────────────────────────────────────────────────
+   ⭐ Accessible, memoized rating component (reduces re-renders)
+   ────────────────────────────────────────────────────────────────────────── */
+const StarRating = memo(function StarRating({
+  rating,
+  count = 0,
+}: {
+  rating: number;
+  count?: number;
+}) {
+  const fullStarUrl =
+    "https://img.icons8.com/?size=100&id=Jy3TrLVOr9Ac&format=png&color=891F1A";
+  const halfStarUrl =
+    "https://img.icons8.com/?size=100&id=m6oA37oGaOEP&format=png&color=891F1A";
+  const emptyStarUrl =
+    "https://img.icons8.com/?size=100&id=103&format=png&color=891F1A";
+
+  // clamp to [0,5] and round to nearest 0.5
+  const r = Math.max(0, Math.min(5, Math.round((Number(rating) || 0) * 2) / 2));
+
+  return (
+    <div
+      className="flex items-center gap mt-1"
+      aria-label={`Rated ${r} out of 5 based on ${count} reviews`}
+      role="img"
+    >
+      {Array.from({ length: 5 }).map((_, i) => {
+        const idx = i + 1;
+        if (r >= idx)
+          return (
+            <SafeImg
+              key={i}
+              src={fullStarUrl}
+              alt=""
+              className="w-4 h-4"
+              width={16}
+              height={16}
+              loading="lazy"
+              aria-hidden="true"
+            />
+          );
+        if (r >= idx - 0.5)
+          return (
+            <SafeImg
+              key={i}
+              src={halfStarUrl}
+              alt=""
+              className="w-4 h-4"
+              width={16}
+              height={16}
+              loading="lazy"
+              aria-hidden="true"
+            />
+          );
+        return (
+          <SafeImg
+            key={i}
+            src={emptyStarUrl}
+            alt=""
+            className="w-4 h-4"
+            width={16}
+            height={16}
+            loading="lazy"
+            aria-hidden="true"
+          />
+        );
+      })}
+      <span className="text-xs text-gray-600 ml-1">({count})</span>
+    </div>
+  );
+});
+
+/* ──────────────────────────────────────────────────────────────────────────
+   🧩 Split heavy/interactive widgets
+   ────────────────────────────────────────────────────────────────────────── */
+const ChatBot = dynamic(
+  () => import('../../../components/ChatBot').then((m) => m.ChatBot),
+  { ssr: false }
+);
+
+const CardActionButtons = dynamic(
+  () => import("../../../components/CardActionButtons"),
+  { ssr: false, loading: () => null }
+);
+
+// Loaded and described for SEO by page.tsx; `products` is what the filters
+// in the URL leave, in the chosen order (`listing` is null when they couldn't be applied)
+export default function SubcategoryPageClient({
+  category,
+  subcategory,
+  data,
+  products: allProducts,
+  filters,
+  listing,
+}: {
+  category: string;
+  subcategory: string;
+  data: SubcategoryPageData;
+  products: SubcategoryProductCard[];
+  filters: SearchFilters;
+  listing: SearchResult | null;
+}) {
+  const BATCH_SIZE = 100; // keep behavior stable
+
+  const [visibleCount, setVisibleCount] = useState<number>(BATCH_SIZE);
+  const products = useMemo(() => allProducts.slice(0, visibleCount), [allProducts, visibleCount]);
+
+  // A new filter or sort starts again from the first batch
+  useEffect(() => setVisibleCount(BATCH_SIZE), [allProducts]);
+
+  // ❤️ comes from the shared wishlist, 🛒 from the shared cart
+  const { ids: favoriteIds, toggle: toggleWishlist } = useWishlist();
+  const { lines: cartLines, addItem, removeProduct } = useCart();
+  const cartIds = useMemo(() => new Set(cartLines.map((l) => l.product_id)), [cartLines]);
+
+  /* ──────────────────────────────────────────────────────────────────────
+     Cart API
+     ────────────────────────────────────────────────────────────────────── */
+  const addToCart = useCallback(
+    async (
+      productId: string,
+      selectedSize: string | null = null,
+      selectedAttrOptions: Record<string, string> | null = null
+    ) => {
+      try {
+        await addItem({
+          product_id: productId,
+          quantity: 1,
+          selected_size: selectedSize ?? undefined,
+          selected_attributes: selectedAttrOptions ?? undefined,
+        });
+
+        await toastify({
+          text: "Added to cart!",
+          duration: 3000,
+          gravity: "top",
+          position: "right",
+          backgroundColor: "linear-gradient(to right, #af4c4cff, #d30000ff)",
+          style: { borderRadius: "0.75rem", padding: "12px 20px" },
+          ariaLive: "polite",
+        });
+      } catch (error) {
+        console.error("Cart error:", error);
+        await toastify({
+          text: cartErrorText(error),
+          duration: 3000,
+          gravity: "top",
+          position: "right",
+          backgroundColor: "linear-gradient(to right, #b00020, #ff5a5a)",
+          style: { borderRadius: "0.75rem", padding: "12px 20px" },
+          ariaLive: "assertive",
+        });
+      }
+    },
+    [addItem]
+  );
+
+  const removeFromCart = useCallback(
+    async (productId: string) => {
+      try {
+        await removeProduct(productId);
+
+        await toastify({
+          text: "Removed from cart",
+          duration: 3000,
+          gravity: "top",
+          position: "right",
+          backgroundColor: "linear-gradient(to right, #af4c4cff, #d30000ff)",
+          style: { borderRadius: "0.75rem", padding: "12px 20px" },
+          ariaLive: "polite",
+        });
+      } catch (error) {
+        console.error("Cart error:", error);
+        await toastify({
+          text: cartErrorText(error),
+          duration: 3000,
+          gravity: "top",
+          position: "right",
+          backgroundColor: "linear-gradient(to right, #b00020, #ff5a5a)",
+          style: { borderRadius: "0.75rem", padding: "12px 20px" },
+          ariaLive: "assertive",
+        });
+      }
+    },
+    [removeProduct]
+  );
+
+  const handleCartToggle = useCallback(
+    (product: SubcategoryProductCard) => async (e?: React.MouseEvent) => {
+      e?.stopPropagation?.();
+      // @ts-ignore
+      e?.nativeEvent?.stopImmediatePropagation?.();
+
+      const isOut =
+        product.badge?.toString().trim().toLowerCase().includes("out") ||
+        product.badge?.toString().trim().toLowerCase() === "out of stock";
+
+      if (!cartIds.has(product.id) && isOut) {
+        await toastify({
+          text: "❌ Out of Stock",
+          duration: 2500,
+          gravity: "top",
+          position: "right",
+          backgroundColor: "linear-gradient(to right, #b00020, #ff5a5a)",
+          style: { borderRadius: "0.75rem", padding: "12px 20px" },
+          ariaLive: "polite",
+        });
+        return;
+      }
+
+      if (cartIds.has(product.id)) {
+        await removeFromCart(product.id);
+      } else {
+        await addToCart(product.id, null, null);
+      }
+    },
+    [cartIds, addToCart, removeFromCart]
+  );
+
+  const favInvokeAt = useRef<Record<string, number>>({});
+  const toastStamp = useRef<Record<string, number>>({});
+
+  const toastOnce = useCallback(async (key: string, text: string, ok: boolean) => {
+    const now = Date.now();
+    if (toastStamp.current[key] && now - toastStamp.current[key] < 400) return;
+    toastStamp.current[key] = now;
+
+    await toastify({
+      text,
+      duration: 2500,
+      gravity: "top",
+      position: "right",
+      backgroundColor: ok
+        ? "linear-gradient(to right, #af4c4cff, #d30000ff)"
+        : "linear-gradient(to right, #b00020, #ff5a5a)",
+      style: { borderRadius: "0.75rem", padding: "12px 20px" },
+      ariaLive: "polite",
+    });
+  }, []);
+
+  const handleToggleFavorite = useCallback(
+    (id: string) => async (e?: React.MouseEvent) => {
+      e?.stopPropagation?.();
+      // @ts-ignore
+      e?.nativeEvent?.stopImmediatePropagation?.();
+
+      const now = Date.now();
+      if (favInvokeAt.current[id] && now - favInvokeAt.current[id] < 400) {
+        return;
+      }
+      favInvokeAt.current[id] = now;
+
+      try {
+        const isAdding = await toggleWishlist(id);
+        toastOnce(
+          `fav:${id}`,
+          isAdding ? "Added to your wishlist" : "Removed from your wishlist",
+          isAdding
+        );
+      } catch (error) {
+        console.error("Wishlist error:", error);
+        toastOnce(`fav:${id}`, `❌ ${errorMessage(error, "Try again!")}`, false);
+      }
+    },
+    [toggleWishlist, toastOnce]
+  );
+
+  /* ──────────────────────────────────────────────────────────────────────
+     UI helpers
+     ────────────────────────────────────────────────────────────────────── */
+  const loadMoreProducts = () => setVisibleCount((n) => n + BATCH_SIZE);
+
+  const listPath = subcategoryPath(data.category.url, data.subcategory.url);
+  const active = activeFilterCount(filters);
+
+  const pageTitle =
+    data.subcategory.name || subcategory.replace(/-/g, " ").trim() || "Products";
+
+  /* ──────────────────────────────────────────────────────────────────────
+     Render
+     ────────────────────────────────────────────────────────────────────── */
+  return (
+    <div
+      className="flex flex-col bg-white"
+      style={{ fontFamily: "var(--font-poppins), Arial, sans-serif" }}
+    >
+      <Header />
+      <LogoSection />
+      <Navbar />
+      <HomePageTop />
+
+      <div className="bg-gradient-to-b from-white via-gray-50 to-gray-100 min-h-screen py-10 px-4 sm:px-10">
+        <div className="bg-gradient-to-r from-red-100 via-white to-red-50 rounded-xl shadow-md p-6 sm:p-10 mb-10 text-center relative overflow-hidden">
+          <h1 className="text-4xl font-extrabold text-red-600 tracking-tight mb-2 capitalize">
+            {pageTitle}
+          </h1>
+          <p className="text-gray-600 text-lg">
+            Browse popular products in this subcategory.
+          </p>
+          <div className="absolute bottom-0 left-1/2 w-1/2 h-1 bg-red-500 translate-x-[-50%] animate-pulse" />
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-8">
+          {/* Filters */}
+          {listing && (
+            <aside className="lg:w-64 shrink-0" aria-label="Filters">
+              <FacetFilters path={listPath} facets={listing.facets} filters={filters} showCategories={false} />
+            </aside>
+          )}
+
+          {/* Grid */}
+          <section className="flex-1 min-w-0" aria-labelledby="products-heading">
+            <h2 id="products-heading" className="sr-only">
+              Products list
+            </h2>
+            {listing && (
+              <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+                <p className="text-sm text-gray-600" aria-live="polite">
+                  {allProducts.length} product{allProducts.length === 1 ? "" : "s"}
+                </p>
+                <SortSelect path={listPath} filters={filters} labels={{ relevance: "Featured" }} />
+              </div>
+            )}
+            {!allProducts.length && (
+              <div className="rounded-lg bg-white p-8 text-center text-gray-600">
+                <p className="font-medium">No products match these filters.</p>
+                <Link href={filterHref(listPath, { sort: filters.sort })} className="text-sm text-[#891F1A] underline mt-1 inline-block">
+                  Clear {active === 1 ? "the filter" : "all filters"}
+                </Link>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-8">
+              {products.map((product, index) => {
+                const detailHref = `/home/${encodeURIComponent(
+                  category
+                )}/${encodeURIComponent(subcategory)}/products/${product.id}`;
+
+                return (
+                  <article
+                    key={product.id}
+                    className="group relative overflow-hidden transition-transform"
+                    tabIndex={0}
+                    aria-label={product.name}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === " ") {
+                        (e.target as HTMLElement).querySelector("a")?.click();
+                        e.preventDefault();
+                      }
+                    }}
+                  >
+                    {/* Stock badge */}
+                    <span
+                      className={`absolute top-2 left-2 text-xs px-3 py-1 rounded-full z-20 ${
+                        product.badge?.toLowerCase().includes("out")
+                          ? "bg-white/80 text-[#891F1A] font-semibold"
+                          : "bg-[#891F1A]/80 text-white"
+                      }`}
+                      aria-label={`Stock status: ${product.badge}`}
+                    >
+                      {product.badge}
+                    </span>
+
+                    {/* Action buttons (top-right) */}
+                    <CardActionButtons
+                      isFavorite={favoriteIds.has(product.id)}
+                      isInCart={cartIds.has(product.id)}
+                      onToggleFavorite={handleToggleFavorite(product.id)}
+                      onAddToCart={handleCartToggle(product)}
+                    />
+
+                    {/* Image + link (CLS-safe with explicit sizing) */}
+                    <Link href={detailHref} className="relative block w-full">
+                      <div className="relative w-full aspect-square overflow-hidden rounded-xl">
+                        <SafeImg
+                          src={product.image}
+                          alt={product.name}
+                          className="h-full w-full object-cover transition-transform duration-500 ease-out will-change-transform group-hover:scale-105"
+                          overlay={false}
+                          // CLS control: explicit intrinsic size (square)
+                          width={800}
+                          height={800}
+                          // LCP hint for first card
+                          loading={index === 0 ? "eager" : "lazy"}
+                          // @ts-ignore (SafeImg may forward this)
+                          fetchpriority={index === 0 ? "high" : "auto"}
+                          // responsive hint
+                          sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, (max-width: 1536px) 33vw, 20vw"
+                          onError={(e: any) => {
+                            e.currentTarget.onerror = null;
+                            e.currentTarget.src = "/images/img1.png";
+                          }}
+                        />
+                      </div>
+                    </Link>
+
+                    <h3 className="text-xl font-semibold text-gray-800 mt-5">
+                      <Link href={detailHref} className="hover:underline">
+                        {product.name}
+                      </Link>
+                    </h3>
+
+                    <StarRating
+                      rating={product.rating}
+                      count={product.rating_count}
+                    />
+                  </article>
+                );
+              })}
+            </div>
+
+            {/* Load more */}
+            <div className="flex justify-center mt-10">
+              {visibleCount < allProducts.length && (
+                <button
+                  onClick={loadMoreProducts}
+                  className="bg-[#7f1d1d] text-white px-6 py-3 rounded-full font-semibold hover:bg-red-700 transition focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400"
+                  aria-controls="products-heading"
+                  aria-label="Load more products"
+                >
+                  Load More Products
+                </button>
+              )}
+            </div>
+          </section>
+        </div>
+      </div>
+
+      <Footer />
+      <ChatBot />
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 } from "react-icons/fa";
 import Toastify from "toastify-js";
 import { API_BASE_URL } from "../utils/api";
+import { apiFetch } from "../utils/apiClient";
 import { ChatBot } from "../components/ChatBot";
 import { SafeImg } from "../components/SafeImage";
 import dynamic from "next/dynamic";
@@ -38,14 +39,6 @@ const joinUrl = (...parts: string[]) =>
 // Add trailing slash when you actually want one (DRF convention)
 const withTrailingSlash = (u: string) => (u.endsWith("/") ? u : u + "/");
 
-// Frontend key helper
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
-const withFrontendKey = (init: RequestInit = {}): RequestInit => {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set("X-Frontend-Key", FRONTEND_KEY);
-  return { ...init, headers };
-};
-
 // Normalize <input type="datetime-local"> value to include seconds (HH:MM → HH:MM:00)
 const normalizeDateTimeLocal = (s: string) => {
   if (!s) return s;
@@ -189,8 +182,7 @@ export default function PrintingServicePage() {
     const ctrl = new AbortController();
     heroAbortRef.current = ctrl;
 
-    fetch(HERO_URL, {
-      ...withFrontendKey(),
+    apiFetch(HERO_URL, {
       signal: ctrl.signal,
       cache: "no-store",
     })
@@ -240,8 +232,7 @@ export default function PrintingServicePage() {
     const ctrl = new AbortController();
     catAbortRef.current = ctrl;
 
-    fetch(CATS_URL, {
-      ...withFrontendKey(),
+    apiFetch(CATS_URL, {
       signal: ctrl.signal,
       cache: "no-store",
     })
@@ -455,14 +446,8 @@ export default function PrintingServicePage() {
     };
 
     try {
-      const res = await fetch(SAVE_URL, {
+      const res = await apiFetch(SAVE_URL, {
         method: "POST",
-        ...withFrontendKey({
-          headers: {
-            "Content-Type": "application/json",
-            ...(FRONTEND_KEY ? { "X-Frontend-Key": FRONTEND_KEY } : {}),
-          },
-        }),
         body: JSON.stringify(payload),
       });
 
@@ -475,6 +460,16 @@ export default function PrintingServicePage() {
         return toast(msg, true);
       }
 
+      // Acknowledgement email; the request is saved either way
+      const saved = await res.json().catch(() => null);
+      if (saved?.id && payload.email) {
+        fetch("/api/notifications/callback-received", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: saved.id, device_uuid: payload.device_uuid }),
+        }).catch(() => {});
+      }
+
       toast("Request submitted. We’ll call you back.");
       setIsSubmitted(true);
       setDraft({
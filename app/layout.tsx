@@ -10,12 +10,13 @@ import Providers from "./providers";
 import { API_BASE_URL as API_FROM_UTIL } from "./utils/api";
 import FaviconClient from "./FaviconClient";
 import ClientTitleLock from "./ClientTitleLock";
+import { apiGet } from "./utils/apiClient";
+import { feedPath } from "./lib/feeds";
 
 const API_BASE_URL =
   (API_FROM_UTIL as string) ||
   (process.env.NEXT_PUBLIC_API_BASE_URL || "").trim();
 
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || "").trim();
 
 // ✅ add a canonical site url
 const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://your-domain.com").trim();
@@ -34,20 +35,11 @@ const poppins = Poppins({
 
 async function fetchJSON<T = any>(path: string): Promise<T | null> {
   if (!API_BASE_URL) return null;
-  const ac = new AbortController();
-  const to = setTimeout(() => ac.abort(), 5000);
   try {
-    const res = await fetch(`${API_BASE_URL}${path}`, {
-      cache: "no-store",
-      headers: FRONTEND_KEY ? { "X-Frontend-Key": FRONTEND_KEY } : undefined,
-      signal: ac.signal,
-    });
-    if (!res.ok) return null;
-    return (await res.json()) as T;
+    // Cached like the storefront pages; a no-store read here would make every route dynamic
+    return await apiGet<T>(path, { timeoutMs: 5000, retries: 0, next: { revalidate: 300 } });
   } catch {
     return null;
-  } finally {
-    clearTimeout(to);
   }
 }
 
@@ -100,7 +92,20 @@ export async function generateMetadata(): Promise<Metadata> {
       images: [iconUrl],
     },
     // ❌ themeColor moved out to viewport below
-    alternates: { canonical: "/" },
+    alternates: {
+      canonical: "/",
+      // Feed discovery for readers and aggregators
+      types: {
+        "application/rss+xml": [
+          { url: feedPath("blog", "rss"), title: `${siteTitle} Blog` },
+          { url: feedPath("products", "rss"), title: `${siteTitle} — New products` },
+        ],
+        "application/atom+xml": [
+          { url: feedPath("blog", "atom"), title: `${siteTitle} Blog` },
+          { url: feedPath("products", "atom"), title: `${siteTitle} — New products` },
+        ],
+      },
+    },
   };
 }
 
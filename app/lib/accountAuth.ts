@@ -0,0 +1,108 @@
+import { fromBase64Url, nowSeconds } from './adminSession';
+
+/* =========================================================
+   Customer accounts — server side. A Firebase uid is not a
+   secret, so routes that act for an account only trust the
+   uid inside a Firebase ID token the browser sends as
+   `Authorization: Bearer …`, verified here against Google's
+   published keys (Web Crypto only, like admin sessions).
+   ========================================================= */
+
+export type VerifiedAccount = { uid: string; email: string };
+
+// Same project as lib/firebase.js
+const PROJECT_ID = (process.env.FIREBASE_PROJECT_ID || 'creative-connect-v1').trim();
+const ISSUER = `https://securetoken.google.com/${PROJECT_ID}`;
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+const CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_KEYS_TTL_SECONDS = 60 * 60;
+// A kid we don't know only triggers a refetch this often (Google rotates every few hours)
+const MIN_REFETCH_SECONDS = 60;
+
+/* ===== Google's signing keys ===== */
+
+type KeySet = { fetchedAt: number; expiresAt: number; byKid: Map<string, CryptoKey> };
+let keySet: KeySet | null = null;
+let loading: Promise<KeySet> | null = null;
+
+async function fetchKeys(): Promise<KeySet> {
+  const res = await fetch(JWKS_URL, { cache: 'no-store' });
+  if (!res.ok) throw new Error(`Firebase signing keys ${res.status}`);
+  const data = await res.json();
+  const byKid = new Map<string, CryptoKey>();
+  for (const jwk of Array.isArray(data?.keys) ? data.keys : []) {
+    if (!jwk?.kid || jwk.kty !== 'RSA') continue;
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'RSA', n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    byKid.set(String(jwk.kid), key);
+  }
+  const maxAge = Number(/max-age=(\d+)/.exec(res.headers.get('cache-control') || '')?.[1]) || DEFAULT_KEYS_TTL_SECONDS;
+  const now = nowSeconds();
+  return { fetchedAt: now, expiresAt: now + maxAge, byKid };
+}
+
+async function signingKey(kid: string): Promise<CryptoKey | null> {
+  const now = nowSeconds();
+  const stale = !keySet || keySet.expiresAt <= now;
+  const unknown = !!keySet && !keySet.byKid.has(kid) && now - keySet.fetchedAt >= MIN_REFETCH_SECONDS;
+  if (stale || unknown) {
+    loading ||= fetchKeys().finally(() => {
+      loading = null;
+    });
+    keySet = await loading;
+  }
+  return keySet?.byKid.get(kid) ?? null;
+}
+
+/* ===== Verification ===== */
+
+const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+
+/** The account a Firebase ID token proves; null for anything forged, expired or for another project. */
+export async function verifyIdToken(token: string | null | undefined): Promise<VerifiedAccount | null> {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) return null;
+  const [head, body, sig] = parts;
+  try {
+    const header = decodeJson(head);
+    if (header?.alg !== 'RS256' || typeof header?.kid !== 'string') return null;
+
+    const claims = decodeJson(body);
+    const now = nowSeconds();
+    if (claims?.aud !== PROJECT_ID || claims?.iss !== ISSUER) return null;
+    if (typeof claims.sub !== 'string' || !claims.sub || claims.sub.length > 128) return null;
+    if (typeof claims.exp !== 'number' || claims.exp <= now - CLOCK_SKEW_SECONDS) return null;
+    if (typeof claims.iat !== 'number' || claims.iat > now + CLOCK_SKEW_SECONDS) return null;
+
+    const key = await signingKey(header.kid);
+    if (!key) return null;
+    const ok = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      fromBase64Url(sig),
+      new TextEncoder().encode(`${head}.${body}`)
+    );
+    return ok ? { uid: claims.sub, email: typeof claims.email === 'string' ? claims.email : '' } : null;
+  } catch {
+    return null;
+  }
+}
+
+export type RequestAccount =
+  | { status: 'guest' } // no token sent
+  | { status: 'invalid' } // a token was sent but doesn't verify (expired, forged)
+  | { status: 'ok'; account: VerifiedAccount };
+
+/** Reads `Authorization: Bearer <Firebase ID token>` from a route handler's request. */
+export async function accountFromRequest(req: Request): Promise<RequestAccount> {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') || '');
+  if (!match) return { status: 'guest' };
+  const account = await verifyIdToken(match[1].trim());
+  return account ? { status: 'ok', account } : { status: 'invalid' };
+}
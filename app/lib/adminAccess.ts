@@ -0,0 +1,91 @@
+/* =========================================================
+   Admin page access — shared by middleware, route handlers
+   and the client guard/sidebar. Labels are the human page
+   names stored in a role's `access_pages`.
+   ========================================================= */
+
+/** Canonical label → path map (human labels from access-pages). */
+export const LABEL_TO_PATH: Record<string, string> = {
+  'Dashboard': '/admin/dashboard',
+  'Products Section': '/admin/products',
+  'Blog View': '/admin/blogView',
+  'Blog': '/admin/blogView',
+  'Settings': '/admin/settings',
+  'First Carousel': '/admin/first-carousel',
+  'Media Library': '/admin/media-library',
+  'Notifications': '/admin/notifications',
+  'Testimonials': '/admin/testimonials',
+  'Second Carousel': '/admin/second-carousel',
+  'Hero Banner': '/admin/hero-banner',
+  'Manage Categories': '/admin/manage-categories',
+  'Orders': '/admin/orders',
+  'Promotions': '/admin/promotions',
+  'Inventory': '/admin/inventory',
+  'Google Settings': '/admin/G-Settings',
+  'Google Analytics': '/admin/G-Analytics',
+  'New Account': '/admin/new-account',
+  'Navbar': '/admin/navbar',
+  'Attributes': '/admin/attributes',
+  'Event Call Back': '/admin/event-callback',
+  'Recently Deleted': '/admin/recently-deleted',
+  'User View': '/home',
+};
+
+const LABEL_TO_PATH_LOWER: Record<string, string> = Object.fromEntries(
+  Object.entries(LABEL_TO_PATH).map(([k, v]) => [k.toLowerCase(), v])
+);
+
+function normalize(p: string) {
+  if (!p) return '/';
+  return p.replace(/\/+$/, '') || '/';
+}
+
+// Same normalization used in Sidebar
+export function normalizePermissions(perms: string[]) {
+  const s = new Set((perms || []).map((p) => p?.trim()));
+  if (s.has('Blog')) s.add('Blog View');
+  return Array.from(s).filter((p) => p !== 'Blog View');
+}
+
+export function sameSetCI(a: string[], b: string[]) {
+  const A = new Set(a.map((x) => x.trim().toLowerCase()));
+  const B = new Set(b.map((x) => x.trim().toLowerCase()));
+  if (A.size !== B.size) return false;
+  for (const v of A) if (!B.has(v)) return false;
+  return true;
+}
+
+// Every signed-in admin manages their own account (2FA, login history)
+export const ACCOUNT_PATH = '/admin/account';
+
+export function allowedPathsFor(labels: string[]): Set<string> {
+  const allowed = new Set<string>();
+  if ((labels || []).some((l) => String(l || '').trim())) allowed.add(ACCOUNT_PATH);
+  for (const raw of labels || []) {
+    const key = String(raw || '').trim().toLowerCase();
+    if (!key) continue;
+
+    const path = LABEL_TO_PATH_LOWER[key];
+    if (path) allowed.add(path);
+
+    if (key === 'blog' || key === 'blog view') {
+      allowed.add('/admin/blog');
+      allowed.add('/admin/blogView');
+    }
+  }
+  return allowed;
+}
+
+export function isAllowedPath(pathname: string, allowedPrefixes: Set<string>) {
+  const current = normalize(pathname);
+  for (const prefix of allowedPrefixes) {
+    const base = normalize(prefix);
+    if (current === base) return true;
+    if (current.startsWith(base + '/')) return true;
+  }
+  return false;
+}
+
+export const firstRouteFor = (labels: string[]) =>
+  Array.from(allowedPathsFor(labels)).find((p) => p.startsWith('/admin/') && p !== ACCOUNT_PATH) ||
+  '/admin/dashboard';
@@ -0,0 +1,148 @@
+import { API_BASE_URL } from '../utils/api';
+import { backendHeaders, nowSeconds, type AdminSession } from './adminSession';
+
+/* =========================================================
+   Admin login hardening — failed-attempt lockout, login
+   history and the per-admin 2FA record. All state lives in
+   the backend; these helpers are used by /api/admin/*.
+   ========================================================= */
+
+// Lockout policy: N consecutive failures lock the username for M minutes
+export const MAX_FAILED_ATTEMPTS = Number(process.env.ADMIN_LOGIN_MAX_ATTEMPTS) || 5;
+export const LOCKOUT_MINUTES = Number(process.env.ADMIN_LOGIN_LOCKOUT_MINUTES) || 15;
+
+export const CHALLENGE_COOKIE = 'admin_2fa_challenge';
+export const CHALLENGE_TTL_SECONDS = 5 * 60;
+export const ENROLL_TTL_SECONDS = 10 * 60;
+
+export type LoginOutcome = 'success' | 'bad_password' | 'bad_2fa' | 'recovery_code';
+
+export type LoginEvent = {
+  username: string;
+  admin_id?: string;
+  outcome: LoginOutcome;
+  ip: string;
+  user_agent: string;
+  created_at: string;
+};
+
+export type TwoFactorRecord = {
+  admin_id: string;
+  enabled: boolean;
+  secret: string;
+  recovery_codes: string[]; // SHA-256 hashes
+  last_step: number; // TOTP time step of the last accepted code (replay guard)
+};
+
+// Admin who passed the password step and still owes a second factor
+export type TwoFactorChallenge = Pick<AdminSession, 'admin_id' | 'admin_name' | 'role_name' | 'access_pages'> & {
+  username: string;
+  exp: number;
+};
+
+export type Enrollment = { admin_id: string; secret: string; exp: number };
+
+const isFailure = (o: LoginOutcome) => o === 'bad_password' || o === 'bad_2fa';
+
+async function backend(path: string, init: RequestInit = {}) {
+  const headers = backendHeaders(init.headers);
+  if (init.body) headers.set('Content-Type', 'application/json');
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers, cache: 'no-store' });
+}
+
+/* ===== Login history ===== */
+
+export const clientInfo = (req: Request) => ({
+  ip: (req.headers.get('x-forwarded-for') || '').split(',')[0].trim() || req.headers.get('x-real-ip') || '',
+  user_agent: (req.headers.get('user-agent') || '').slice(0, 255),
+});
+
+export async function recordLoginEvent(req: Request, event: Pick<LoginEvent, 'username' | 'admin_id' | 'outcome'>) {
+  const entry: LoginEvent = { ...event, ...clientInfo(req), created_at: new Date().toISOString() };
+  // History is best-effort; a failed write must not block the login itself
+  try {
+    await backend('/api/save-admin-login-event/', { method: 'POST', body: JSON.stringify(entry) });
+  } catch (err) {
+    console.error('admin login event write failed', err);
+  }
+}
+
+// Newest first; with both filters the backend matches either one
+export async function fetchLoginHistory(
+  filter: { username?: string; admin_id?: string },
+  limit = 50
+): Promise<LoginEvent[]> {
+  const qs = new URLSearchParams({ limit: String(limit) });
+  if (filter.username) qs.set('username', filter.username);
+  if (filter.admin_id) qs.set('admin_id', filter.admin_id);
+  try {
+    const res = await backend(`/api/show-admin-login-history/?${qs}`);
+    if (!res.ok) return [];
+    const data = await res.json();
+    const list: LoginEvent[] = Array.isArray(data) ? data : Array.isArray(data?.events) ? data.events : [];
+    return list.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+  } catch {
+    return [];
+  }
+}
+
+/* ===== Lockout ===== */
+
+// Locked while the last MAX_FAILED_ATTEMPTS events are all failures and the
+// newest of them is younger than the lockout window. Attempts rejected while
+// locked are not recorded, so hammering the form can't push failures out.
+// With an admin_id, failed codes on the 2FA settings count as well.
+export async function lockedUntil(username: string, admin_id?: string): Promise<Date | null> {
+  const recent = await fetchLoginHistory({ username, admin_id }, MAX_FAILED_ATTEMPTS);
+  if (recent.length < MAX_FAILED_ATTEMPTS || !recent.every((e) => isFailure(e.outcome))) return null;
+  const until = Date.parse(recent[0].created_at) + LOCKOUT_MINUTES * 60_000;
+  return until > Date.now() ? new Date(until) : null;
+}
+
+export const lockedMessage = (until: Date) => {
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60_000));
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+/* ===== 2FA record ===== */
+
+// null = backend unreachable; callers must fail closed
+export async function fetchTwoFactor(adminId: string): Promise<TwoFactorRecord | null> {
+  try {
+    const res = await backend(`/api/show-admin-2fa/?admin_id=${encodeURIComponent(adminId)}`);
+    if (res.status === 404) return { admin_id: adminId, enabled: false, secret: '', recovery_codes: [], last_step: 0 };
+    if (!res.ok) return null;
+    const data = await res.json();
+    return {
+      admin_id: adminId,
+      enabled: !!data?.enabled,
+      secret: String(data?.secret || ''),
+      recovery_codes: Array.isArray(data?.recovery_codes) ? data.recovery_codes : [],
+      last_step: Number(data?.last_step) || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function saveTwoFactor(record: TwoFactorRecord): Promise<boolean> {
+  try {
+    const res = await backend('/api/save-admin-2fa/', { method: 'POST', body: JSON.stringify(record) });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+export const challengeExpiry = () => nowSeconds() + CHALLENGE_TTL_SECONDS;
+export const enrollmentExpiry = () => nowSeconds() + ENROLL_TTL_SECONDS;
+
+export const challengeCookie = (token: string) => ({
+  name: CHALLENGE_COOKIE,
+  value: token,
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/api/admin/login',
+  maxAge: token ? CHALLENGE_TTL_SECONDS : 0,
+});
@@ -0,0 +1,198 @@
+import { API_BASE_URL } from '../utils/api';
+import { normalizePermissions, sameSetCI } from './adminAccess';
+
+/* =========================================================
+   Admin sessions — signed HttpOnly cookie.
+   Runs in both the edge middleware and Node route handlers,
+   so only Web Crypto / fetch are used here.
+   ========================================================= */
+
+export const SESSION_COOKIE = 'admin_session';
+
+// Absolute lifetime of a session; admins sign in again after this
+export const SESSION_TTL_SECONDS = Number(process.env.ADMIN_SESSION_TTL_SECONDS) || 8 * 60 * 60;
+
+// How often the middleware re-checks the admin against the backend
+export const REVALIDATE_SECONDS = 5 * 60;
+
+export type AdminSession = {
+  admin_id: string;
+  admin_name: string;
+  role_name: string;
+  access_pages: string[];
+  iat: number; // issued at (unix seconds)
+  exp: number; // expires at (unix seconds)
+  checked_at: number; // last backend revalidation (unix seconds)
+};
+
+type AdminRow = {
+  admin_id: string;
+  admin_name?: string;
+  role_name?: string;
+  access_pages?: string[];
+};
+
+
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/* ===== Signing ===== */
+
+const encoder = new TextEncoder();
+
+function sessionSecret(): string {
+  const secret = (process.env.ADMIN_SESSION_SECRET || '').trim();
+  if (secret) return secret;
+  // Never sign production sessions with a guessable key
+  if (process.env.NODE_ENV === 'production') throw new Error('ADMIN_SESSION_SECRET is not set');
+  return 'dev-only-admin-session-secret';
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+const hmacKey = () =>
+  (keyPromise ||= crypto.subtle.importKey(
+    'raw',
+    encoder.encode(sessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  ));
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let bin = '';
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (s: string) => {
+  const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((s.length + 3) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+};
+
+// What a token is for. Every kind is signed with the same key, so the type
+// travels inside the signed payload and a token is only accepted as its own kind.
+export type TokenType = 'session' | '2fa_challenge' | '2fa_enroll';
+
+// Generic signed, expiring token — sessions, 2FA challenges and enrollments
+export async function signToken<T extends { exp: number }>(typ: TokenType, payload: T): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify({ ...payload, typ })));
+  const sig = await crypto.subtle.sign('HMAC', await hmacKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+// Returns null for anything tampered, malformed, expired or of another type
+export async function verifyToken<T extends { exp: number }>(typ: TokenType, token: string | undefined | null): Promise<T | null> {
+  if (!token) return null;
+  const [body, sig] = token.split('.');
+  if (!body || !sig) return null;
+  try {
+    const ok = await crypto.subtle.verify('HMAC', await hmacKey(), fromBase64Url(sig), encoder.encode(body));
+    if (!ok) return null;
+    const { typ: actual, ...payload } = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    if (actual !== typ) return null;
+    if (typeof payload.exp !== 'number' || payload.exp <= nowSeconds()) return null;
+    return payload as T;
+  } catch {
+    return null;
+  }
+}
+
+export const signSession = (session: AdminSession) => signToken('session', session);
+
+const isSeconds = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+export async function verifySession(token: string | undefined | null): Promise<AdminSession | null> {
+  const session = await verifyToken<AdminSession>('session', token);
+  if (!session?.admin_id || !Array.isArray(session.access_pages)) return null;
+  // Revalidation is scheduled from checked_at; a session without it would never be re-checked
+  if (!isSeconds(session.iat) || !isSeconds(session.checked_at)) return null;
+  return session;
+}
+
+export function newSession(row: AdminRow): AdminSession {
+  const now = nowSeconds();
+  return {
+    admin_id: String(row.admin_id),
+    admin_name: String(row.admin_name || ''),
+    role_name: String(row.role_name || ''),
+    access_pages: Array.isArray(row.access_pages) ? row.access_pages : [],
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS,
+    checked_at: now,
+  };
+}
+
+/* ===== Cookie ===== */
+
+export const sessionCookie = (token: string, session: AdminSession) => ({
+  name: SESSION_COOKIE,
+  value: token,
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: Math.max(0, session.exp - nowSeconds()),
+});
+
+export const clearedSessionCookie = () => ({
+  name: SESSION_COOKIE,
+  value: '',
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: 0,
+});
+
+/* ===== Backend ===== */
+
+// Server-only key for the backend's privileged endpoints (2FA records, payment
+// status, stock…). NEXT_PUBLIC_FRONTEND_KEY ships to every browser, so it never
+// stands in: without a FRONTEND_KEY of its own, server calls fail closed.
+function serverKey(): string {
+  const key = (process.env.FRONTEND_KEY || '').trim();
+  if (!key || key === (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim()) {
+    throw new Error('FRONTEND_KEY is not set to a server-only key');
+  }
+  return key;
+}
+
+export function backendHeaders(init: HeadersInit = {}) {
+  const headers = new Headers(init);
+  headers.set('X-Frontend-Key', serverKey());
+  headers.set('Accept', 'application/json');
+  return headers;
+}
+
+export type RevalidateResult =
+  | { status: 'ok'; session: AdminSession }
+  | { status: 'revoked'; reason: 'deleted' | 'role_changed' }
+  | { status: 'unknown' }; // backend unreachable — keep the session for now
+
+// ONLY revoke on a confirmed delete/perm-change; be tolerant to network errors
+export async function revalidateSession(session: AdminSession): Promise<RevalidateResult> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/show-admin/`, { headers: backendHeaders(), cache: 'no-store' });
+    if (!res.ok) return { status: 'unknown' };
+    const data = await res.json();
+    const list: AdminRow[] = data?.admins || [];
+    const me = list.find((r) => String(r.admin_id) === String(session.admin_id));
+    if (!me) return { status: 'revoked', reason: 'deleted' };
+
+    const before = normalizePermissions(session.access_pages);
+    const after = normalizePermissions(me.access_pages || []);
+    if (!sameSetCI(before, after)) return { status: 'revoked', reason: 'role_changed' };
+
+    return { status: 'ok', session: { ...session, role_name: me.role_name || session.role_name, checked_at: nowSeconds() } };
+  } catch {
+    return { status: 'unknown' };
+  }
+}
+
+export function cookieFromRequest(req: Request, name: string): string | null {
+  const cookie = req.headers.get('cookie') || '';
+  const match = cookie.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// Reads the session from a request's Cookie header (route handlers)
+export const sessionFromRequest = (req: Request) => verifySession(cookieFromRequest(req, SESSION_COOKIE));
@@ -0,0 +1,43 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { allowedPathsFor, isAllowedPath } from './adminAccess';
+import { sessionFromRequest, type AdminSession } from './adminSession';
+
+/* =========================================================
+   Shared by the /api route handlers: the JSON error every
+   route answers with, the guard for admin-only routes (a
+   route is open to whoever may open its admin page), and the
+   shared-secret check for the cron-triggered ones.
+   ========================================================= */
+
+/** `{ error, ...extra }` with the given status. */
+export const fail = (error: string, status = 400, extra: object = {}) =>
+  NextResponse.json({ error, ...extra }, { status });
+
+/** Whether the admin's role opens an admin page, and so the routes behind it. */
+export const canOpen = (session: AdminSession, page: string) =>
+  isAllowedPath(page, allowedPathsFor(session.access_pages));
+
+export type AdminGuard = { session: AdminSession } | { error: NextResponse };
+
+/**
+ * The signed-in admin when their role opens `page`, else the 401/403 to
+ * return. `area` names the page in the 403 ("Orders access required").
+ */
+export async function requireAdminPage(req: Request, page: string, area?: string): Promise<AdminGuard> {
+  const session = await sessionFromRequest(req);
+  if (!session) return { error: fail('Not signed in', 401) };
+  if (!canOpen(session, page)) return { error: fail(area ? `${area} access required` : 'Access denied', 403) };
+  return { session };
+}
+
+const sha256 = (s: string) => createHash('sha256').update(s).digest();
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`. Both sides
+ * are hashed first so the comparison doesn't leak the secret's length.
+ */
+export function bearerMatches(req: Request, secret: string): boolean {
+  const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '').trim();
+  return !!token && !!secret && timingSafeEqual(sha256(token), sha256(secret));
+}
@@ -0,0 +1,136 @@
+import type { TrackingEvent } from '../../utils/shipments';
+import { CarrierError, carrierJSON, type CarrierAdapter, type ShipmentParty } from './types';
+
+/* =========================================================
+   Aramex Shipping & Tracking API (JSON flavour of the SOAP
+   services). Credentials come from the environment:
+     ARAMEX_USERNAME, ARAMEX_PASSWORD, ARAMEX_ACCOUNT_NUMBER,
+     ARAMEX_ACCOUNT_PIN, ARAMEX_ACCOUNT_ENTITY (e.g. DXB),
+     ARAMEX_ACCOUNT_COUNTRY_CODE (e.g. AE)
+   ARAMEX_BASE_URL points at the test system when set to
+   https://ws.dev.aramex.net/ShippingAPI.V2
+   ========================================================= */
+
+const BASE = () => (process.env.ARAMEX_BASE_URL || 'https://ws.aramex.net/ShippingAPI.V2').replace(/\/$/, '');
+
+const REQUIRED = [
+  'ARAMEX_USERNAME',
+  'ARAMEX_PASSWORD',
+  'ARAMEX_ACCOUNT_NUMBER',
+  'ARAMEX_ACCOUNT_PIN',
+  'ARAMEX_ACCOUNT_ENTITY',
+  'ARAMEX_ACCOUNT_COUNTRY_CODE',
+];
+
+const clientInfo = () => ({
+  UserName: process.env.ARAMEX_USERNAME,
+  Password: process.env.ARAMEX_PASSWORD,
+  Version: 'v1.0',
+  AccountNumber: process.env.ARAMEX_ACCOUNT_NUMBER,
+  AccountPin: process.env.ARAMEX_ACCOUNT_PIN,
+  AccountEntity: process.env.ARAMEX_ACCOUNT_ENTITY,
+  AccountCountryCode: process.env.ARAMEX_ACCOUNT_COUNTRY_CODE,
+  Source: 24,
+});
+
+// WCF JSON dates: "/Date(1760868000000+0400)/"
+const toWcfDate = (d: Date) => `/Date(${d.getTime()})/`;
+const fromWcfDate = (v: unknown) => {
+  const ms = /\/Date\((-?\d+)/.exec(String(v ?? ''))?.[1];
+  return ms ? new Date(Number(ms)).toISOString() : '';
+};
+
+const party = (p: ShipmentParty, withAccount = false) => ({
+  ...(withAccount ? { AccountNumber: process.env.ARAMEX_ACCOUNT_NUMBER } : {}),
+  PartyAddress: { Line1: p.line1, City: p.city, PostCode: p.postcode, CountryCode: p.country_code },
+  Contact: {
+    PersonName: p.name,
+    CompanyName: p.company || p.name,
+    PhoneNumber1: p.phone,
+    CellPhone: p.phone,
+    EmailAddress: p.email,
+  },
+});
+
+const notificationText = (list: any) =>
+  (Array.isArray(list) ? list : [])
+    .map((n: any) => n?.Message)
+    .filter(Boolean)
+    .join('; ');
+
+const trackingUrl = (n: string) => `https://www.aramex.com/track/results?ShipmentNumber=${encodeURIComponent(n)}`;
+
+export const aramex: CarrierAdapter = {
+  id: 'aramex',
+
+  configError() {
+    const missing = REQUIRED.filter((k) => !process.env[k]);
+    return missing.length ? `Missing ${missing.join(', ')}` : '';
+  },
+
+  trackingUrl,
+
+  async createShipment(req) {
+    const domestic = req.shipper.country_code === req.consignee.country_code;
+    const { res, data } = await carrierJSON('aramex', `${BASE()}/Shipping/Service_1_0.svc/json/CreateShipments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        ClientInfo: clientInfo(),
+        LabelInfo: { ReportID: 9201, ReportType: 'RPT' },
+        Shipments: [
+          {
+            Reference1: req.order_id,
+            Shipper: party(req.shipper, true),
+            Consignee: party(req.consignee),
+            ShippingDateTime: toWcfDate(new Date()),
+            Details: {
+              ActualWeight: { Unit: 'KG', Value: req.weight_kg },
+              NumberOfPieces: req.pieces,
+              ProductGroup: domestic ? 'DOM' : 'EXP',
+              ProductType: domestic ? 'ONP' : 'PPX',
+              PaymentType: 'P',
+              DescriptionOfGoods: req.description.slice(0, 100),
+              GoodsOriginCountry: req.shipper.country_code,
+              CustomsValueAmount: domestic ? null : { CurrencyCode: req.currency, Value: req.value },
+            },
+          },
+        ],
+        Transaction: { Reference1: req.order_id },
+      }),
+    });
+
+    const created = data?.Shipments?.[0];
+    if (!res.ok || data?.HasErrors || !created?.ID) {
+      const msg = notificationText(created?.Notifications) || notificationText(data?.Notifications);
+      throw new CarrierError('aramex', msg || `Aramex rejected the shipment (HTTP ${res.status})`, res.status);
+    }
+
+    const bytes = created.ShipmentLabel?.LabelFileContents;
+    return {
+      tracking_number: String(created.ID),
+      tracking_url: trackingUrl(String(created.ID)),
+      label_pdf: Array.isArray(bytes) && bytes.length ? Uint8Array.from(bytes) : null,
+    };
+  },
+
+  async track(n) {
+    const { res, data } = await carrierJSON('aramex', `${BASE()}/Tracking/Service_1_0.svc/json/TrackShipments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ ClientInfo: clientInfo(), Shipments: [n], GetLastTrackingUpdateOnly: false }),
+    });
+    if (!res.ok || data?.HasErrors) {
+      throw new CarrierError('aramex', notificationText(data?.Notifications) || 'Aramex tracking failed', res.status);
+    }
+    const result = (data?.TrackingResults || []).find((r: any) => String(r?.Key) === n);
+    return (result?.Value || []).map(
+      (u: any): TrackingEvent => ({
+        at: fromWcfDate(u?.UpdateDateTime),
+        code: String(u?.UpdateCode || ''),
+        description: String(u?.UpdateDescription || u?.Comments || ''),
+        location: String(u?.UpdateLocation || ''),
+      })
+    );
+  },
+};
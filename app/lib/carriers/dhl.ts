@@ -0,0 +1,117 @@
+import type { TrackingEvent } from '../../utils/shipments';
+import { CarrierError, carrierJSON, type CarrierAdapter, type ShipmentParty } from './types';
+
+/* =========================================================
+   DHL Express — MyDHL API (REST). Credentials come from the
+   environment: DHL_API_KEY, DHL_API_SECRET, DHL_ACCOUNT_NUMBER.
+   DHL_BASE_URL points at the test system when set to
+   https://express.api.dhl.com/mydhlapi/test
+   ========================================================= */
+
+const BASE = () => (process.env.DHL_BASE_URL || 'https://express.api.dhl.com/mydhlapi').replace(/\/$/, '');
+
+const REQUIRED = ['DHL_API_KEY', 'DHL_API_SECRET', 'DHL_ACCOUNT_NUMBER'];
+
+// Parcels are booked as one standard box per piece
+const BOX_CM = { length: 30, width: 20, height: 15 };
+
+const headers = () => ({
+  Authorization: `Basic ${Buffer.from(`${process.env.DHL_API_KEY}:${process.env.DHL_API_SECRET}`).toString('base64')}`,
+  'Content-Type': 'application/json',
+  Accept: 'application/json',
+});
+
+const party = (p: ShipmentParty) => ({
+  postalAddress: {
+    addressLine1: p.line1,
+    cityName: p.city,
+    postalCode: p.postcode,
+    countryCode: p.country_code,
+  },
+  contactInformation: { fullName: p.name, companyName: p.company || p.name, phone: p.phone, email: p.email },
+});
+
+// "2026-10-19T10:00:00 GMT+04:00" — DHL wants the shipper's local time with its offset
+function plannedShippingDate(d = new Date()) {
+  const offsetMin = -d.getTimezoneOffset();
+  const local = new Date(d.getTime() + offsetMin * 60000).toISOString().slice(0, 19);
+  const sign = offsetMin >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMin);
+  const hh = String(Math.floor(abs / 60)).padStart(2, '0');
+  const mm = String(abs % 60).padStart(2, '0');
+  return `${local} GMT${sign}${hh}:${mm}`;
+}
+
+const errorText = (data: any, status: number) =>
+  [data?.detail, ...(Array.isArray(data?.additionalDetails) ? data.additionalDetails : [])]
+    .filter(Boolean)
+    .join('; ') || `DHL rejected the request (HTTP ${status})`;
+
+const trackingUrl = (n: string) =>
+  `https://www.dhl.com/ae-en/home/tracking/tracking-express.html?submit=1&tracking-id=${encodeURIComponent(n)}`;
+
+export const dhl: CarrierAdapter = {
+  id: 'dhl',
+
+  configError() {
+    const missing = REQUIRED.filter((k) => !process.env[k]);
+    return missing.length ? `Missing ${missing.join(', ')}` : '';
+  },
+
+  trackingUrl,
+
+  async createShipment(req) {
+    const domestic = req.shipper.country_code === req.consignee.country_code;
+    const perPiece = Math.max(0.1, Math.round((req.weight_kg / req.pieces) * 1000) / 1000);
+
+    const { res, data } = await carrierJSON('dhl', `${BASE()}/shipments`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        plannedShippingDateAndTime: plannedShippingDate(),
+        pickup: { isRequested: false },
+        productCode: domestic ? 'N' : 'P',
+        accounts: [{ typeCode: 'shipper', number: process.env.DHL_ACCOUNT_NUMBER }],
+        outputImageProperties: { encodingFormat: 'pdf', imageOptions: [{ typeCode: 'label', templateName: 'ECOM26_84_001' }] },
+        customerReferences: [{ value: req.order_id, typeCode: 'CU' }],
+        customerDetails: { shipperDetails: party(req.shipper), receiverDetails: party(req.consignee) },
+        content: {
+          packages: Array.from({ length: req.pieces }, () => ({ weight: perPiece, dimensions: BOX_CM })),
+          isCustomsDeclarable: !domestic,
+          ...(domestic ? {} : { declaredValue: req.value, declaredValueCurrency: req.currency }),
+          description: req.description.slice(0, 70),
+          incoterm: 'DAP',
+          unitOfMeasurement: 'metric',
+        },
+      }),
+    });
+
+    if (!res.ok || !data?.shipmentTrackingNumber) throw new CarrierError('dhl', errorText(data, res.status), res.status);
+
+    const label = (data.documents || []).find((d: any) => d?.typeCode === 'label' && d?.content);
+    const n = String(data.shipmentTrackingNumber);
+    return {
+      tracking_number: n,
+      tracking_url: data.trackingUrl || trackingUrl(n),
+      label_pdf: label ? new Uint8Array(Buffer.from(label.content, 'base64')) : null,
+    };
+  },
+
+  async track(n) {
+    const { res, data } = await carrierJSON(
+      'dhl',
+      `${BASE()}/shipments/${encodeURIComponent(n)}/tracking?trackingView=all-checkpoints`,
+      { headers: headers() }
+    );
+    if (!res.ok) throw new CarrierError('dhl', errorText(data, res.status), res.status);
+    const events = data?.shipments?.[0]?.events || [];
+    return events.map(
+      (e: any): TrackingEvent => ({
+        at: e?.date ? new Date(`${e.date}T${e.time || '00:00:00'}${e.GMTOffset || 'Z'}`).toISOString() : '',
+        code: String(e?.typeCode || ''),
+        description: String(e?.description || ''),
+        location: String(e?.serviceArea?.[0]?.description || ''),
+      })
+    );
+  },
+};
@@ -0,0 +1,85 @@
+import { CARRIER_LABELS, countryCode, type CarrierId, type CarrierOption } from '../../utils/shipments';
+import { normalizeInvoiceSettings } from '../invoices';
+import { backendGet } from '../orderAccess';
+import { aramex } from './aramex';
+import { dhl } from './dhl';
+import { mock } from './mock';
+import type { CarrierAdapter, ShipmentParty } from './types';
+
+export { CarrierError, isCarrierError } from './types';
+export type { CarrierAdapter, ShipmentRequest } from './types';
+
+const ADAPTERS: Record<CarrierId, CarrierAdapter> = { aramex, dhl, mock };
+
+// The mock never reaches a real courier, so production only offers it when asked to
+const mockAllowed = () => process.env.NODE_ENV !== 'production' || process.env.SHIPPING_MOCK === 'true';
+
+type Integrations = { aramex: boolean; dhl: boolean };
+
+async function loadIntegrations(): Promise<Integrations> {
+  const { data } = await backendGet('/api/show-shipping-settings/').catch(() => ({ data: null }));
+  return { aramex: data?.integrations?.aramex === true, dhl: data?.integrations?.dhl === true };
+}
+
+/** Every carrier the admin could pick, with why it can't be used yet. */
+export async function carrierOptions(): Promise<CarrierOption[]> {
+  const integrations = await loadIntegrations();
+  const options: CarrierOption[] = (['aramex', 'dhl'] as const).map((id) => {
+    const reason = !integrations[id]
+      ? `Turn on the ${CARRIER_LABELS[id]} integration under Settings → Shipping`
+      : ADAPTERS[id].configError();
+    return { id, label: CARRIER_LABELS[id], ready: !reason, reason };
+  });
+  if (mockAllowed()) options.push({ id: 'mock', label: CARRIER_LABELS.mock, ready: true, reason: '' });
+  return options;
+}
+
+/** The adapter for a carrier that is enabled and configured, else the reason it isn't. */
+export async function readyCarrier(id: CarrierId): Promise<CarrierAdapter | string> {
+  const option = (await carrierOptions()).find((o) => o.id === id);
+  if (!option) return `${CARRIER_LABELS[id]} is not available`;
+  return option.ready ? ADAPTERS[id] : option.reason;
+}
+
+/** Adapter for tracking a shipment that was already booked, whatever the settings say now. */
+export const carrierFor = (id: CarrierId) => ADAPTERS[id];
+
+/* =========================================================
+   PARTIES
+   ========================================================= */
+
+/**
+ * Our side of the label: the company from the invoice settings, with
+ * the pickup city/country from SHIPPING_ORIGIN_* (free-text addresses
+ * can't be split reliably).
+ */
+export async function loadShipper(): Promise<ShipmentParty> {
+  const { data } = await backendGet('/api/show-invoice-settings/').catch(() => ({ data: null }));
+  const s = normalizeInvoiceSettings(data);
+  return {
+    name: s.companyName,
+    company: s.companyName,
+    phone: s.phone,
+    email: s.email,
+    line1: s.address.split('\n')[0] || s.companyName,
+    city: process.env.SHIPPING_ORIGIN_CITY || 'Dubai',
+    postcode: process.env.SHIPPING_ORIGIN_POSTCODE || '',
+    country_code: countryCode(process.env.SHIPPING_ORIGIN_COUNTRY || 'AE'),
+  };
+}
+
+/** The customer, from the order's delivery details (falling back to its billing address). */
+export function consigneeFrom(order: any): ShipmentParty {
+  const d = order?.delivery || {};
+  const a = order?.Address || {};
+  return {
+    name: String(d.name || order?.UserName || ''),
+    company: '',
+    phone: String(d.phone || order?.phone || ''),
+    email: String(d.email || order?.email || ''),
+    line1: String(d.street_address || a.street || ''),
+    city: String(d.city || a.city || ''),
+    postcode: String(d.zip_code || a.zip || ''),
+    country_code: countryCode(d.country || a.country),
+  };
+}
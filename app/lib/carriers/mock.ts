@@ -0,0 +1,83 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import type { TrackingEvent } from '../../utils/shipments';
+import { CarrierError, type CarrierAdapter } from './types';
+
+/* =========================================================
+   Pretend carrier for development and staging. Books instantly,
+   draws a plain label, and "moves" the parcel through its scans
+   as time passes since it was booked (the booking time is part
+   of the tracking number, so nothing needs storing).
+   ========================================================= */
+
+const PREFIX = 'MOCK';
+
+// hours after booking → scan
+const SCANS: { after: number; code: string; description: string; location: string }[] = [
+  { after: 0, code: 'PU', description: 'Shipment information received', location: 'Dubai' },
+  { after: 1, code: 'PL', description: 'Picked up by courier', location: 'Dubai' },
+  { after: 4, code: 'AF', description: 'Arrived at sort facility', location: 'Dubai Hub' },
+  { after: 20, code: 'WC', description: 'Out for delivery', location: 'Local delivery centre' },
+  { after: 26, code: 'OK', description: 'Delivered', location: 'Recipient address' },
+];
+
+const bookedAt = (n: string) => {
+  const ms = parseInt(n.slice(PREFIX.length + 1), 36);
+  return Number.isFinite(ms) ? ms : NaN;
+};
+
+export const mock: CarrierAdapter = {
+  id: 'mock',
+
+  configError: () => '',
+
+  trackingUrl: () => '',
+
+  async createShipment(req) {
+    const n = `${PREFIX}-${Date.now().toString(36).toUpperCase()}`;
+
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([288, 432]); // 4 x 6 in
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const ascii = (s: string) => s.replace(/[^\x20-\x7e]/g, '?');
+    let y = 400;
+    const line = (text: string, size = 10, f = font) => {
+      page.drawText(ascii(text), { x: 18, y, size, font: f });
+      y -= size + 6;
+    };
+    line('TEST LABEL - NOT FOR DELIVERY', 12, bold);
+    y -= 8;
+    line(n, 20, bold);
+    y -= 8;
+    line(`Order #${req.order_id}`);
+    line(`${req.pieces} piece(s), ${req.weight_kg} kg`);
+    y -= 8;
+    line('TO', 9, bold);
+    [req.consignee.name, req.consignee.line1, `${req.consignee.city} ${req.consignee.postcode}`, req.consignee.country_code]
+      .filter((s) => s.trim())
+      .forEach((s) => line(s));
+    y -= 8;
+    line('FROM', 9, bold);
+    [req.shipper.company || req.shipper.name, req.shipper.city, req.shipper.country_code]
+      .filter((s) => s.trim())
+      .forEach((s) => line(s));
+
+    return { tracking_number: n, tracking_url: '', label_pdf: await pdf.save() };
+  },
+
+  async track(n) {
+    const start = bookedAt(n);
+    if (!n.startsWith(`${PREFIX}-`) || Number.isNaN(start)) {
+      throw new CarrierError('mock', 'Unknown test tracking number', 404);
+    }
+    const now = Date.now();
+    return SCANS.filter((s) => start + s.after * 3600000 <= now).map(
+      (s): TrackingEvent => ({
+        at: new Date(start + s.after * 3600000).toISOString(),
+        code: s.code,
+        description: s.description,
+        location: s.location,
+      })
+    );
+  },
+};
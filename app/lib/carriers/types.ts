@@ -0,0 +1,74 @@
+import type { CarrierId, TrackingEvent } from '../../utils/shipments';
+
+/* =========================================================
+   Carrier adapter contract. Each carrier (Aramex, DHL, the
+   mock used in development) turns the same request into its
+   own API calls; routes only ever talk to this interface.
+   ========================================================= */
+
+export type ShipmentParty = {
+  name: string;
+  company: string;
+  phone: string;
+  email: string;
+  line1: string;
+  city: string;
+  postcode: string;
+  country_code: string; // ISO 3166-1 alpha-2
+};
+
+export type ShipmentRequest = {
+  order_id: string;
+  weight_kg: number; // whole consignment
+  pieces: number;
+  description: string;
+  value: number;
+  currency: string;
+  shipper: ShipmentParty;
+  consignee: ShipmentParty;
+};
+
+export type CreatedShipment = {
+  tracking_number: string;
+  tracking_url: string;
+  label_pdf: Uint8Array | null;
+};
+
+export interface CarrierAdapter {
+  id: CarrierId;
+  /** Credentials missing on this server, or "" when the adapter can be used. */
+  configError(): string;
+  createShipment(req: ShipmentRequest): Promise<CreatedShipment>;
+  /** Every scan the carrier has for the number, in any order. */
+  track(tracking_number: string): Promise<TrackingEvent[]>;
+  trackingUrl(tracking_number: string): string;
+}
+
+/** A carrier refused or failed a request; `message` is safe to show to admins. */
+export class CarrierError extends Error {
+  carrier: CarrierId;
+  status: number; // carrier HTTP status, 0 when it never answered
+
+  constructor(carrier: CarrierId, message: string, status = 0) {
+    super(message);
+    this.name = 'CarrierError';
+    this.carrier = carrier;
+    this.status = status;
+  }
+}
+
+export const isCarrierError = (e: unknown): e is CarrierError => e instanceof CarrierError;
+
+export const CARRIER_TIMEOUT_MS = 20000;
+
+/** fetch + JSON for carrier APIs; network failures and timeouts become CarrierErrors. */
+export async function carrierJSON(carrier: CarrierId, url: string, init: RequestInit) {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, cache: 'no-store', signal: AbortSignal.timeout(CARRIER_TIMEOUT_MS) });
+  } catch (err: any) {
+    throw new CarrierError(carrier, err?.name === 'TimeoutError' ? 'The carrier did not answer in time' : 'Could not reach the carrier');
+  }
+  const data = await res.json().catch(() => null);
+  return { res, data };
+}
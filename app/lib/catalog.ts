@@ -0,0 +1,284 @@
+import { randomUUID } from 'crypto';
+import { API_BASE_URL } from '../utils/api';
+import {
+  CATALOG_COLUMNS,
+  CATALOG_HEADERS,
+  MAX_IMPORT_BYTES,
+  NUMERIC_CATALOG_COLUMNS,
+  formatAttributes,
+  joinList,
+  parseCsv,
+  safeCell,
+  toCsv,
+  type CatalogAttribute,
+  type CatalogColumn,
+  type CatalogContext,
+  type CatalogImportJob,
+  type CatalogImportRow,
+  type CatalogProduct,
+} from '../utils/catalog';
+import { backendHeaders } from './adminSession';
+import { loadStockLevels, saveStockMovements } from './inventory';
+import { backendGet } from './orderAccess';
+import { readXlsx, writeXlsx } from './xlsx';
+
+/* =========================================================
+   Catalog import/export — server only. Rows go through the
+   same save-product / edit-product endpoints the product
+   form uses, one at a time, so the backend's own checks
+   apply; stock goes through the stock ledger.
+   ========================================================= */
+
+async function backendPost(path: string, body: unknown) {
+  const res = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: backendHeaders({ 'Content-Type': 'application/json' }),
+    cache: 'no-store',
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => null);
+  return { ok: res.ok, status: res.status, data };
+}
+
+const list = (data: any, key?: string): any[] => (Array.isArray(data) ? data : key && Array.isArray(data?.[key]) ? data[key] : []);
+
+/* =========================================================
+   CONTEXT
+   ========================================================= */
+
+export async function loadCatalogContext(): Promise<CatalogContext & { products: any[] }> {
+  const [cats, subs, products] = await Promise.all([
+    backendGet('/api/show-categories/'),
+    backendGet('/api/show-subcategories/'),
+    backendGet('/api/show-product/'),
+  ]);
+  if (cats.status !== 200 || subs.status !== 200 || products.status !== 200) {
+    throw new Error(`catalog lookups ${cats.status}/${subs.status}/${products.status}`);
+  }
+  const productRows = list(products.data, 'products');
+  return {
+    categories: list(cats.data).map((c) => ({ id: String(c.id ?? c.category_id ?? ''), name: String(c.name || '') })),
+    subcategories: list(subs.data).map((s) => ({
+      id: String(s.subcategory_id ?? s.id ?? ''),
+      name: String(s.name || ''),
+      categories: Array.isArray(s.categories) ? s.categories.map(String) : [],
+    })),
+    existing_skus: new Set(productRows.map((p) => String(p.id ?? p.product_id ?? '')).filter(Boolean)),
+    products: productRows,
+  };
+}
+
+/* =========================================================
+   FILES
+   ========================================================= */
+
+/** Uploaded .csv or .xlsx → rows of cells; throws a message fit for the admin. */
+export async function readCatalogFile(file: File): Promise<string[][]> {
+  if (file.size > MAX_IMPORT_BYTES) throw new Error(`Files up to ${MAX_IMPORT_BYTES / 1024 / 1024} MB`);
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv')) return parseCsv(await file.text());
+  if (name.endsWith('.xlsx')) return readXlsx(Buffer.from(await file.arrayBuffer()));
+  throw new Error('Upload a .csv or .xlsx file');
+}
+
+/* =========================================================
+   EXPORT
+   ========================================================= */
+
+// Several detail calls per product; a few at a time keeps the backend responsive
+const EXPORT_CONCURRENCY = 4;
+
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+const num = (v: unknown) => (v === null || v === undefined || v === '' ? '' : String(v));
+
+async function exportRow(product: any, ctx: CatalogContext): Promise<Record<CatalogColumn, string>> {
+  const product_id = String(product.id ?? product.product_id);
+  const detail = (path: string) => backendPost(path, { product_id }).then((r) => (r.ok ? r.data || {} : {}));
+  const [basic, seo, attrs, other] = await Promise.all([
+    detail('/api/show_specific_product/'),
+    detail('/api/show_product_seo/'),
+    detail('/api/show_product_attributes/'),
+    detail('/api/show_product_other_details/'),
+  ]);
+
+  const subIds: string[] = Array.isArray(other.subcategory_ids)
+    ? other.subcategory_ids.map(String)
+    : product.subcategory?.id
+    ? [String(product.subcategory.id)]
+    : [];
+  const subs = ctx.subcategories.filter((s) => subIds.includes(s.id));
+  const images: any[] = Array.isArray(other.images_with_ids)
+    ? [...other.images_with_ids].sort((a, b) => Number(!!b.is_primary) - Number(!!a.is_primary))
+    : list(other.images).map((url) => ({ url }));
+  const attributes: CatalogAttribute[] = list(attrs).map((a) => ({
+    name: String(a?.name || ''),
+    options: list(a?.options).map((o) => ({ label: String(o?.label || ''), price_delta: Number(o?.price_delta) || 0 })),
+  }));
+
+  return {
+    sku: product_id,
+    title: String(basic.name ?? product.name ?? ''),
+    description: String(basic.fit_description || ''),
+    brand: String(basic.brand_title ?? product.brand_title ?? ''),
+    price: num(basic.price ?? product.price),
+    discounted_price: num(basic.discounted_price),
+    tax_rate: num(basic.tax_rate),
+    stock: num(basic.stock_quantity ?? product.stock_quantity),
+    low_stock_alert: num(basic.low_stock_alert),
+    categories: joinList(Array.from(new Set(subs.flatMap((s) => s.categories)))),
+    subcategories: joinList(subs.map((s) => s.name)),
+    meta_title: String(seo.meta_title || ''),
+    meta_description: String(seo.meta_description || ''),
+    meta_keywords: joinList(list(seo.meta_keywords).map(String)),
+    og_title: String(seo.open_graph_title || ''),
+    og_description: String(seo.open_graph_desc || ''),
+    og_image: String(seo.open_graph_image_url || ''),
+    canonical_url: String(seo.canonical_url || ''),
+    attributes: formatAttributes(attributes.filter((a) => a.name && a.options.length)),
+    images: joinList(images.map((i) => String(i?.url || '')).filter((u) => /^https?:\/\//i.test(u))),
+    image_alt: String(seo.image_alt_text || ''),
+  };
+}
+
+/** The whole catalog as a header row + one row per product, in the import layout. */
+export async function exportCatalog(format: 'csv' | 'xlsx'): Promise<Buffer> {
+  const ctx = await loadCatalogContext();
+  const rows = await mapLimit(ctx.products, EXPORT_CONCURRENCY, (p) => exportRow(p, ctx));
+  const table = [CATALOG_HEADERS, ...rows.map((r) => CATALOG_COLUMNS.map((c) => r[c.key]))];
+
+  if (format === 'csv') return Buffer.from(toCsv(table.map((r) => r.map(safeCell))), 'utf8');
+  const numericColumns = new Set(NUMERIC_CATALOG_COLUMNS.map((k) => CATALOG_COLUMNS.findIndex((c) => c.key === k)));
+  return writeXlsx(table, { sheetName: 'Catalog', numericColumns });
+}
+
+/* =========================================================
+   IMPORT
+   ========================================================= */
+
+function productPayload(p: CatalogProduct) {
+  const out: Record<string, unknown> = {};
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined) out[key] = value;
+  };
+  set('name', p.name);
+  set('description', p.description);
+  set('brand_title', p.brand_title);
+  set('price', p.price);
+  set('discounted_price', p.discounted_price);
+  set('tax_rate', p.tax_rate);
+  set('low_stock_alert', p.low_stock_alert);
+  set('category_ids', p.category_ids);
+  set('subcategory_ids', p.subcategory_ids);
+  set('meta_title', p.meta_title);
+  set('meta_description', p.meta_description);
+  set('meta_keywords', p.meta_keywords);
+  set('open_graph_title', p.open_graph_title);
+  set('open_graph_desc', p.open_graph_desc);
+  set('open_graph_image_url', p.open_graph_image_url);
+  set('canonical_url', p.canonical_url);
+  set('image_alt_text', p.image_alt_text);
+  set(
+    'customAttributes',
+    p.attributes?.map((a) => ({
+      name: a.name,
+      options: a.options.map((o, i) => ({ ...o, is_default: i === 0, image: null, image_id: null, description: '' })),
+    }))
+  );
+  set(
+    'images_with_meta',
+    p.image_urls?.map((url, i) => ({ dataUrl: null, url, image_id: null, alt: p.image_alt_text || '', caption: '', tags: [], is_primary: i === 0 }))
+  );
+  return out;
+}
+
+/** Creates or updates one product; resolves its id. */
+async function importRow(row: CatalogImportRow, actor: string): Promise<string> {
+  const { product } = row;
+  const fields = productPayload(product);
+  let product_id = product.sku;
+
+  if (row.action === 'update') {
+    // preserve_mappings: rows without a Subcategories cell keep the product's current links
+    const res = await backendPost('/api/edit-product/', { product_ids: [product_id], ...fields, preserve_mappings: !product.subcategory_ids });
+    if (!res.ok) throw new Error(res.data?.error || `edit-product ${res.status}`);
+  } else {
+    const res = await backendPost('/api/save-product/', {
+      ...(product.sku ? { product_id: product.sku } : {}),
+      ...fields,
+      status: 'active',
+      quantity: 0, // the count is recorded below, through the ledger
+      images: [],
+      force_replace_images: true,
+    });
+    if (!res.ok) throw new Error(res.data?.error || `save-product ${res.status}`);
+    product_id = String(res.data?.product_id ?? res.data?.id ?? product.sku ?? '');
+  }
+
+  if (product.stock !== undefined && product_id) {
+    const [level] = await loadStockLevels([product_id]);
+    const delta = product.stock - (level?.on_hand ?? 0);
+    await saveStockMovements({
+      kind: 'adjust',
+      lines: [{ product_id, variant_signature: '', quantity: delta }],
+      actor,
+      note: `Catalog import (row ${row.row})`,
+    });
+  }
+  return product_id;
+}
+
+// In-memory, per server process; an admin watches a job for minutes, not days
+const jobs = new Map<string, CatalogImportJob>();
+const JOB_LIMIT = 20;
+
+export const catalogImportJob = (id: string) => jobs.get(id) || null;
+
+/** Starts working through the rows in the background and resolves the job straight away. */
+export function startCatalogImport(rows: CatalogImportRow[], actor: string, skipped: number): CatalogImportJob {
+  if (jobs.size >= JOB_LIMIT) {
+    const oldest = Array.from(jobs.values()).find((j) => j.status === 'done');
+    if (oldest) jobs.delete(oldest.id);
+  }
+  const job: CatalogImportJob = {
+    id: randomUUID(),
+    status: 'running',
+    total: rows.length,
+    processed: 0,
+    created: 0,
+    updated: 0,
+    skipped,
+    failed: [],
+    started_at: new Date().toISOString(),
+    finished_at: '',
+    started_by: actor,
+  };
+  jobs.set(job.id, job);
+
+  void (async () => {
+    for (const row of rows) {
+      try {
+        await importRow(row, actor);
+        job[row.action === 'update' ? 'updated' : 'created']++;
+      } catch (err: any) {
+        job.failed.push({ row: row.row, sku: row.product.sku, error: String(err?.message || err) });
+      }
+      job.processed++;
+    }
+    job.status = 'done';
+    job.finished_at = new Date().toISOString();
+  })();
+
+  return job;
+}
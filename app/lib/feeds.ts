@@ -0,0 +1,303 @@
+import { loadNavItems, loadProductList, loadPublishedBlogs, menuLocations } from './storefront';
+import {
+  absoluteUrl,
+  apiAssetUrl,
+  blogPath,
+  categoryPath,
+  metaText,
+  productPath,
+  subcategoryPath,
+  type NavCategory,
+} from '../utils/storefront';
+
+/* =========================================================
+   Sitemaps and feeds — server only. Built from the same
+   cached loaders as the storefront pages, so they share the
+   'catalog' / 'blog' tags and a save in the admin
+   (refreshStorefront) regenerates them with the pages.
+   ========================================================= */
+
+export const SITE_NAME = 'Creative Prints';
+
+/* ===== XML ===== */
+
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+const esc = (v: unknown) => String(v ?? '').replace(/[&<>"']/g, (c) => XML_ENTITIES[c]);
+
+// Backend timestamps → ISO 8601; '' when missing or unparseable
+const isoDate = (v: unknown) => {
+  const t = Date.parse(String(v || ''));
+  return Number.isNaN(t) ? '' : new Date(t).toISOString();
+};
+
+const latest = (dates: string[]) => dates.filter(Boolean).sort().pop() || '';
+
+const updatedAt = (row: any) => isoDate(row?.updated_at ?? row?.updated) || isoDate(row?.created_at ?? row?.created);
+
+export function xmlResponse(xml: string, contentType = 'application/xml') {
+  return new Response(xml, { headers: { 'Content-Type': `${contentType}; charset=utf-8` } });
+}
+
+/* ===== SITEMAPS ===== */
+
+export type SitemapSection = 'pages' | 'categories' | 'products' | 'blog';
+
+export const SITEMAP_SECTIONS: SitemapSection[] = ['pages', 'categories', 'products', 'blog'];
+
+export const sitemapPath = (section: SitemapSection) => `/sitemap-${section}.xml`;
+
+type SitemapEntry = {
+  path: string;
+  lastmod?: string;
+  changefreq?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  priority?: number;
+};
+
+// The storefront is English only; each URL still names its language and
+// x-default so a second locale only has to add a line here
+const HREFLANGS = ['en', 'x-default'];
+
+const STATIC_PAGES: SitemapEntry[] = [
+  { path: '/home', changefreq: 'daily', priority: 1 },
+  { path: '/blog', changefreq: 'daily', priority: 0.6 },
+  { path: '/about', changefreq: 'monthly', priority: 0.4 },
+  { path: '/contact', changefreq: 'monthly', priority: 0.4 },
+  { path: '/privacy-policy', changefreq: 'yearly', priority: 0.2 },
+];
+
+const productPaths = (nav: NavCategory[]) =>
+  new Map(
+    Array.from(menuLocations(nav), ([id, { category, subcategory }]) => [id, productPath(category.url, subcategory.url, id)])
+  );
+
+async function sectionEntries(section: SitemapSection): Promise<SitemapEntry[]> {
+  if (section === 'pages') return STATIC_PAGES;
+
+  if (section === 'blog') {
+    const posts = await loadPublishedBlogs();
+    return posts.map((b) => ({
+      path: blogPath(String(b.blog_id ?? b.id)),
+      lastmod: updatedAt(b),
+      changefreq: 'monthly' as const,
+      priority: 0.5,
+    }));
+  }
+
+  const [nav, products] = await Promise.all([loadNavItems(), loadProductList()]);
+  const modified = new Map(products.map((p) => [String(p.id), updatedAt(p)]));
+
+  if (section === 'products') {
+    return Array.from(productPaths(nav), ([id, path]) => ({
+      path,
+      lastmod: modified.get(id),
+      changefreq: 'weekly' as const,
+      priority: 0.8,
+    }));
+  }
+
+  // A listing changes when one of its products does
+  const entries: SitemapEntry[] = [];
+  for (const cat of nav) {
+    const subs = (cat.subcategories || []).map((sub) => ({
+      path: subcategoryPath(cat.url, sub.url),
+      lastmod: latest((sub.products || []).map((p) => modified.get(String(p.id)) || '')),
+      changefreq: 'weekly' as const,
+      priority: 0.6,
+    }));
+    entries.push(
+      { path: categoryPath(cat.url), lastmod: latest(subs.map((s) => s.lastmod)), changefreq: 'weekly', priority: 0.7 },
+      ...subs
+    );
+  }
+  return entries;
+}
+
+function urlXml(entry: SitemapEntry) {
+  const loc = esc(absoluteUrl(entry.path));
+  return [
+    '<url>',
+    `<loc>${loc}</loc>`,
+    entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : '',
+    entry.changefreq ? `<changefreq>${entry.changefreq}</changefreq>` : '',
+    entry.priority !== undefined ? `<priority>${entry.priority.toFixed(1)}</priority>` : '',
+    ...HREFLANGS.map((lang) => `<xhtml:link rel="alternate" hreflang="${lang}" href="${loc}"/>`),
+    '</url>',
+  ].join('');
+}
+
+export async function sitemapXml(section: SitemapSection) {
+  const entries = await sectionEntries(section);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries.map(urlXml),
+    '</urlset>',
+  ].join('\n');
+}
+
+/** Index of the section sitemaps; a section whose data can't be read is still listed, just without lastmod. */
+export async function sitemapIndexXml() {
+  const sections = await Promise.all(
+    SITEMAP_SECTIONS.map(async (section) => {
+      const entries = await sectionEntries(section).catch(() => [] as SitemapEntry[]);
+      return { section, lastmod: latest(entries.map((e) => e.lastmod || '')) };
+    })
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sections.map(
+      ({ section, lastmod }) =>
+        `<sitemap><loc>${esc(absoluteUrl(sitemapPath(section)))}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ''}</sitemap>`
+    ),
+    '</sitemapindex>',
+  ].join('\n');
+}
+
+/* ===== FEEDS ===== */
+
+export type FeedKind = 'blog' | 'products';
+
+export const feedPath = (kind: FeedKind, format: 'rss' | 'atom') => `/feeds/${kind}/${format}.xml`;
+
+type FeedItem = {
+  id: string;
+  title: string;
+  path: string;
+  summary: string;
+  published: string;
+  updated: string;
+  image?: string;
+  category?: string;
+  author?: string;
+};
+
+type Feed = { kind: FeedKind; title: string; description: string; path: string; items: FeedItem[] };
+
+const BLOG_FEED_SIZE = 20;
+const PRODUCT_FEED_SIZE = 30;
+
+async function blogFeed(): Promise<Feed> {
+  const posts = (await loadPublishedBlogs()).slice(0, BLOG_FEED_SIZE);
+  return {
+    kind: 'blog',
+    title: `${SITE_NAME} Blog`,
+    description: `Printing tips, guides and news from ${SITE_NAME}.`,
+    path: '/blog',
+    items: posts.map((b) => {
+      const path = blogPath(String(b.blog_id ?? b.id));
+      const published = isoDate(b.publishDate ?? b.created_at ?? b.created);
+      return {
+        id: absoluteUrl(path),
+        title: String(b.title || ''),
+        path,
+        summary: metaText(b.metaDescription || b.description || b.content, 300),
+        published,
+        updated: updatedAt(b) || published,
+        image: apiAssetUrl(b.thumbnail) || undefined,
+        category: b.category || undefined,
+        author: b.author || undefined,
+      };
+    }),
+  };
+}
+
+// Newest products first; ones not in the menu have no page to link to
+async function productFeed(): Promise<Feed> {
+  const [nav, products] = await Promise.all([loadNavItems(), loadProductList()]);
+  const paths = productPaths(nav);
+  const created = (p: any) => isoDate(p.created_at ?? p.created) || updatedAt(p);
+  const items = products
+    .filter((p) => paths.has(String(p.id)))
+    .sort((a, b) => created(b).localeCompare(created(a)))
+    .slice(0, PRODUCT_FEED_SIZE)
+    .map((p) => {
+      const path = paths.get(String(p.id))!;
+      const price = parseFloat(p.price);
+      return {
+        id: absoluteUrl(path),
+        title: String(p.name || ''),
+        path,
+        summary: [metaText(p.fit_description || p.description, 240), price > 0 ? `AED ${price.toFixed(2)}` : '', p.stock_status]
+          .filter(Boolean)
+          .join(' · '),
+        published: created(p),
+        updated: updatedAt(p) || created(p),
+        image: apiAssetUrl(p.image) || undefined,
+        category: p.subcategory || p.category || undefined,
+      };
+    });
+  return {
+    kind: 'products',
+    title: `${SITE_NAME} — New products`,
+    description: `The latest additions to the ${SITE_NAME} catalog.`,
+    path: '/home',
+    items,
+  };
+}
+
+export const loadFeed = (kind: FeedKind) => (kind === 'blog' ? blogFeed() : productFeed());
+
+const rssDate = (iso: string) => (iso ? new Date(iso).toUTCString() : '');
+
+export function rssXml(feed: Feed) {
+  const self = esc(absoluteUrl(feedPath(feed.kind, 'rss')));
+  const built = latest(feed.items.map((i) => i.updated));
+  const item = (i: FeedItem) =>
+    [
+      '<item>',
+      `<title>${esc(i.title)}</title>`,
+      `<link>${esc(absoluteUrl(i.path))}</link>`,
+      `<guid isPermaLink="true">${esc(i.id)}</guid>`,
+      i.published ? `<pubDate>${rssDate(i.published)}</pubDate>` : '',
+      `<description>${esc(i.summary)}</description>`,
+      i.category ? `<category>${esc(i.category)}</category>` : '',
+      i.image ? `<enclosure url="${esc(i.image)}" length="0" type="image/jpeg"/>` : '',
+      '</item>',
+    ].join('');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    `<title>${esc(feed.title)}</title>`,
+    `<link>${esc(absoluteUrl(feed.path))}</link>`,
+    `<description>${esc(feed.description)}</description>`,
+    '<language>en</language>',
+    `<atom:link href="${self}" rel="self" type="application/rss+xml"/>`,
+    built ? `<lastBuildDate>${rssDate(built)}</lastBuildDate>` : '',
+    ...feed.items.map(item),
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+export function atomXml(feed: Feed) {
+  const self = esc(absoluteUrl(feedPath(feed.kind, 'atom')));
+  const entry = (i: FeedItem) =>
+    [
+      '<entry>',
+      `<title>${esc(i.title)}</title>`,
+      `<id>${esc(i.id)}</id>`,
+      `<link rel="alternate" type="text/html" href="${esc(absoluteUrl(i.path))}"/>`,
+      `<updated>${i.updated || i.published}</updated>`,
+      i.published ? `<published>${i.published}</published>` : '',
+      i.author ? `<author><name>${esc(i.author)}</name></author>` : '',
+      `<summary>${esc(i.summary)}</summary>`,
+      i.category ? `<category term="${esc(i.category)}"/>` : '',
+      '</entry>',
+    ].join('');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `<title>${esc(feed.title)}</title>`,
+    `<subtitle>${esc(feed.description)}</subtitle>`,
+    `<id>${self}</id>`,
+    `<link rel="self" type="application/atom+xml" href="${self}"/>`,
+    `<link rel="alternate" type="text/html" href="${esc(absoluteUrl(feed.path))}"/>`,
+    `<updated>${latest(feed.items.map((i) => i.updated)) || new Date(0).toISOString()}</updated>`,
+    `<author><name>${esc(SITE_NAME)}</name></author>`,
+    ...feed.items.map(entry),
+    '</feed>',
+  ].join('\n');
+}
@@ -0,0 +1,217 @@
+import { API_BASE_URL } from '../utils/api';
+import { backendHeaders } from './adminSession';
+import { refreshNotificationFeed } from './notificationFeed';
+import { backendGet } from './orderAccess';
+import {
+  SALES_WINDOW_DAYS,
+  availableChange,
+  availableStock,
+  hasReservation,
+  isLowStock,
+  levelFor,
+  mergeStockLines,
+  normalizeStockLevel,
+  normalizeStockMovements,
+  orderStockLines,
+  outstandingReservation,
+  reorderSuggestions,
+  stockAlertFor,
+  type InventoryDigest,
+  type StockAlertKind,
+  type StockLevel,
+  type StockLine,
+  type StockMovement,
+  type StockMovementKind,
+} from '../utils/inventory';
+
+/* =========================================================
+   Stock ledger — server only. The backend applies a batch of
+   movements in one transaction and keeps on_hand / reserved
+   on the product in step with the ledger; deciding which
+   movements an order needs happens here.
+   ========================================================= */
+
+export async function loadStockLevels(product_ids: string[]): Promise<StockLevel[]> {
+  const ids = Array.from(new Set(product_ids.filter(Boolean)));
+  if (!ids.length) return [];
+  const { status, data } = await backendGet('/api/show-stock-levels/', { product_ids: ids.join(',') });
+  if (status !== 200) throw new Error(`show-stock-levels ${status}`);
+  const rows = Array.isArray(data) ? data : data?.levels;
+  return (Array.isArray(rows) ? rows : []).map(normalizeStockLevel).filter(Boolean);
+}
+
+/** Every counted product and variant (untracked products are left out). */
+export async function loadTrackedStockLevels(): Promise<StockLevel[]> {
+  const { status, data } = await backendGet('/api/show-stock-levels/', { tracked: '1' });
+  if (status !== 200) throw new Error(`show-stock-levels ${status}`);
+  const rows = Array.isArray(data) ? data : data?.levels;
+  return (Array.isArray(rows) ? rows : []).map(normalizeStockLevel).filter(Boolean);
+}
+
+/** Movements for one product, one order, or of one kind since a date; newest first. */
+export async function loadStockLedger(
+  filter: { product_id: string } | { order_id: string } | { kind: StockMovementKind; since: string }
+): Promise<StockMovement[]> {
+  const { status, data } = await backendGet('/api/show-stock-ledger/', filter);
+  if (status !== 200) throw new Error(`show-stock-ledger ${status}`);
+  return normalizeStockMovements(Array.isArray(data) ? data : data?.movements);
+}
+
+/**
+ * Records one batch; resolves the product levels after it. The backend
+ * applies a batch with a given `idempotency_key` only once: a repeat
+ * answers with the current levels and `duplicate: true`.
+ */
+export async function saveStockMovements(input: {
+  kind: StockMovementKind;
+  lines: StockLine[];
+  order_id?: string;
+  actor: string;
+  note?: string;
+  idempotency_key?: string;
+}): Promise<StockLevel[]> {
+  // adjustments are signed, everything else is merged into positive lines
+  const lines = input.kind === 'adjust' ? input.lines.filter((l) => l.quantity) : mergeStockLines(input.lines);
+  if (!lines.length) return [];
+
+  const res = await fetch(`${API_BASE_URL}/api/save-stock-movements/`, {
+    method: 'POST',
+    headers: backendHeaders({ 'Content-Type': 'application/json' }),
+    cache: 'no-store',
+    body: JSON.stringify({
+      kind: input.kind,
+      order_id: input.order_id || '',
+      actor: input.actor,
+      note: input.note || '',
+      idempotency_key: input.idempotency_key || '',
+      lines,
+    }),
+  });
+  if (!res.ok) throw new Error(`save-stock-movements ${res.status}`);
+  const data = await res.json().catch(() => null);
+  const levels: StockLevel[] = (Array.isArray(data?.levels) ? data.levels : []).map(normalizeStockLevel).filter(Boolean);
+  if (!data?.duplicate) await raiseStockAlerts(input.kind, lines, levels, input.order_id);
+  return levels;
+}
+
+// One reservation, release or sale per order, however often it is asked for
+const orderMoveKey = (order_id: string, kind: StockMovementKind) => `order:${order_id}:${kind}`;
+
+/**
+ * Holds a just-placed order's items; the idempotency key makes a retry
+ * or double submit a no-op. A race between two checkouts for the last
+ * units can still push available below zero: the order keeps its hold
+ * and the caller tells the customer (see oversoldLines).
+ */
+export async function reserveOrderStock(order: any, actor: string) {
+  const order_id = String(order?.orderID ?? '');
+  // Cheap check for the plain repeat; the key is what covers concurrent calls
+  if (hasReservation(await loadStockLedger({ order_id }), order_id)) return [];
+  return saveStockMovements({
+    kind: 'reserve',
+    order_id,
+    actor,
+    lines: orderStockLines(order),
+    idempotency_key: orderMoveKey(order_id, 'reserve'),
+  });
+}
+
+/** Releases or sells whatever the order still holds; a no-op once it is settled. */
+export async function settleOrderStock(order_id: string, kind: 'release' | 'commit', actor: string, note = '') {
+  const lines = outstandingReservation(await loadStockLedger({ order_id }), order_id);
+  return saveStockMovements({ kind, order_id, actor, note, lines, idempotency_key: orderMoveKey(order_id, kind) });
+}
+
+/* =========================================================
+   ALERTS & DIGEST
+   Alerts go into the shared admin notifications feed under the
+   "inventory" source, so only admins with Inventory access see
+   them. Every sender is best-effort, like the emails: a failed
+   alert never fails the stock change that caused it.
+   ========================================================= */
+
+async function saveNotification(input: { type: string; message: string; source_id: string; sku?: string }) {
+  const res = await fetch(`${API_BASE_URL}/api/save-notification/`, {
+    method: 'POST',
+    headers: backendHeaders({ 'Content-Type': 'application/json' }),
+    cache: 'no-store',
+    body: JSON.stringify({ ...input, source_table: 'inventory', user: 'System' }),
+  });
+  if (!res.ok) throw new Error(`save-notification ${res.status}`);
+  void refreshNotificationFeed();
+}
+
+const levelName = (level: StockLevel) => (level.label ? `"${level.label}"` : `Product #${level.product_id}`);
+
+function alertMessage(kind: StockAlertKind, level: StockLevel, available: number, order_id?: string) {
+  const cause = order_id ? ` after order #${order_id}` : '';
+  return kind === 'out_of_stock'
+    ? `⛔ ${levelName(level)} is out of stock${cause}`
+    : `⚠️ ${levelName(level)} is low on stock${cause} (${available} left, alert at ${level.low_stock_threshold})`;
+}
+
+/**
+ * Compares each touched level with what it was before the batch and
+ * notifies for the ones that crossed their threshold or hit zero.
+ */
+async function raiseStockAlerts(kind: StockMovementKind, lines: StockLine[], after: StockLevel[], order_id?: string) {
+  const change = new Map<StockLevel, number>();
+  for (const line of lines) {
+    const level = levelFor(after, line);
+    if (level) change.set(level, (change.get(level) || 0) + availableChange(kind, line.quantity));
+  }
+
+  for (const [level, delta] of Array.from(change)) {
+    const available = availableStock(level);
+    const alert = stockAlertFor(available - delta, available, level.low_stock_threshold);
+    if (!alert) continue;
+    await saveNotification({
+      type: alert,
+      message: alertMessage(alert, level, available, order_id),
+      source_id: level.variant_signature ? `${level.product_id}|${level.variant_signature}` : level.product_id,
+    }).catch((err) => console.error(`stock alert for ${level.product_id} failed`, err));
+  }
+}
+
+/** What's out, what's low and what to reorder, from the live counts and the last month's sales. */
+export async function buildInventoryDigest(): Promise<InventoryDigest> {
+  const since = new Date(Date.now() - SALES_WINDOW_DAYS * 86_400_000).toISOString();
+  const [levels, commits] = await Promise.all([
+    loadTrackedStockLevels(),
+    loadStockLedger({ kind: 'commit', since }),
+  ]);
+  const tracked = levels.filter((l) => Number.isFinite(availableStock(l)));
+  return {
+    generated_at: new Date().toISOString(),
+    out_of_stock: tracked.filter((l) => availableStock(l) <= 0),
+    low_stock: tracked.filter((l) => availableStock(l) > 0 && isLowStock(availableStock(l), l.low_stock_threshold)),
+    suggestions: reorderSuggestions(tracked, commits),
+  };
+}
+
+// One digest per day per server process; the backend also ignores a repeated source_id
+let lastDigestDay = '';
+
+/** Posts today's digest to the feed once; resolves false when it was already sent or there's nothing to report. */
+export async function sendInventoryDigest(digest: InventoryDigest) {
+  const day = digest.generated_at.slice(0, 10);
+  if (lastDigestDay === day) return false;
+  const { out_of_stock, low_stock, suggestions } = digest;
+  if (!out_of_stock.length && !low_stock.length && !suggestions.length) return false;
+
+  lastDigestDay = day;
+  try {
+    await saveNotification({
+      type: 'stock_digest',
+      source_id: `digest-${day}`,
+      message:
+        `📦 Daily stock digest: ${out_of_stock.length} out of stock, ${low_stock.length} low, ` +
+        `${suggestions.length} to reorder`,
+    });
+    return true;
+  } catch (err) {
+    lastDigestDay = '';
+    console.error('inventory digest failed', err);
+    return false;
+  }
+}
@@ -0,0 +1,422 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import { customerStatusLabel } from '../utils/orderStatus';
+import type { InvoiceKind } from '../utils/invoices';
+
+/* =========================================================
+   Invoices & credit notes — server only.
+   An order from the backend is turned into an InvoiceDocument
+   (numbers already allocated by the backend), which is then
+   drawn as an A4 PDF with the company branding from the
+   admin Invoice settings.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+// Shape stored by admin InvoiceSettings (`/api/settings/invoice/`)
+export type InvoiceSettings = {
+  companyName: string;
+  address: string; // multi-line
+  trn: string; // UAE Tax Registration Number, 15 digits
+  vatRegistered: boolean;
+  email: string;
+  phone: string;
+  invoicePrefix: string;
+  creditNotePrefix: string;
+  footerNote: string;
+};
+
+export type InvoiceLine = {
+  description: string;
+  details: string[]; // "Size: M", "Paper: Matte"
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxRate: number;
+  taxAmount: number;
+  net: number; // after discount, before VAT
+};
+
+export type InvoiceTaxLine = { rate: number; taxable: number; amount: number };
+
+export type InvoiceDocument = {
+  kind: InvoiceKind;
+  number: string;
+  issuedAt: string; // ISO
+  // credit notes point back at the invoice they reverse
+  creditedInvoice: string;
+  orderId: string;
+  orderDate: string;
+  status: string;
+  paymentMethod: string;
+  seller: InvoiceSettings;
+  buyer: { name: string; email: string; address: string[] };
+  lines: InvoiceLine[];
+  taxLines: InvoiceTaxLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  currency: string;
+};
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  companyName: 'Printshop',
+  address: '',
+  trn: '',
+  vatRegistered: false,
+  email: '',
+  phone: '',
+  invoicePrefix: 'INV-',
+  creditNotePrefix: 'CN-',
+  footerNote: '',
+};
+
+/** Stored settings → complete settings; missing or malformed fields fall back to defaults. */
+export function normalizeInvoiceSettings(raw: any): InvoiceSettings {
+  const text = (key: keyof InvoiceSettings) =>
+    typeof raw?.[key] === 'string' && raw[key].trim() ? raw[key].trim() : (DEFAULT_INVOICE_SETTINGS[key] as string);
+  return {
+    companyName: text('companyName'),
+    address: text('address'),
+    trn: text('trn'),
+    vatRegistered: raw?.vatRegistered === true,
+    email: text('email'),
+    phone: text('phone'),
+    invoicePrefix: text('invoicePrefix'),
+    creditNotePrefix: text('creditNotePrefix'),
+    footerNote: text('footerNote'),
+  };
+}
+
+/* =========================================================
+   ORDER → DOCUMENT
+   ========================================================= */
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+const toNum = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseFloat(String(v ?? ''));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+function lineFrom(d: any): InvoiceLine {
+  const quantity = Math.max(1, Math.floor(toNum(d?.quantity, 1)));
+  const unitPrice = toNum(d?.unit_price ?? d?.math?.base);
+  const gross = toNum(d?.total_price, unitPrice * quantity);
+  const discount = Math.max(0, toNum(d?.discount_amount));
+  const taxRate = Math.max(0, toNum(d?.tax_rate));
+  const net = round2(gross - discount);
+
+  const details: string[] = [];
+  const size = String(d?.selected_size ?? '').trim();
+  if (size) details.push(`Size: ${size}`);
+  (Array.isArray(d?.selected_attributes_human) ? d.selected_attributes_human : []).forEach((a: any) => {
+    if (a?.attribute_name && a?.option_label) details.push(`${a.attribute_name}: ${a.option_label}`);
+  });
+
+  return {
+    description: String(d?.product_name || 'Item'),
+    details,
+    quantity,
+    unitPrice,
+    discount,
+    taxRate,
+    taxAmount: d?.tax_amount != null ? toNum(d.tax_amount) : round2((net * taxRate) / 100),
+    net,
+  };
+}
+
+// Same grouping checkout uses, for orders saved without `pricing.tax_lines`
+function taxLinesFrom(lines: InvoiceLine[]): InvoiceTaxLine[] {
+  const byRate = new Map<number, InvoiceTaxLine>();
+  for (const l of lines) {
+    if (!l.taxRate) continue;
+    const row = byRate.get(l.taxRate) || { rate: l.taxRate, taxable: 0, amount: 0 };
+    row.taxable = round2(row.taxable + l.net);
+    row.amount = round2(row.amount + l.taxAmount);
+    byRate.set(l.taxRate, row);
+  }
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+}
+
+/**
+ * Backend order detail (show-specific-order / show-specific-user-order)
+ * → invoice. Totals come from the order's stored `pricing` when present
+ * so the PDF always matches what the customer was charged.
+ */
+export function buildInvoiceDocument(
+  order: any,
+  seller: InvoiceSettings,
+  issued: { kind: InvoiceKind; number: string; issuedAt: string; creditedInvoice?: string }
+): InvoiceDocument {
+  const detail = Array.isArray(order?.item?.detail) ? order.item.detail : [];
+  const lines = detail.map(lineFrom);
+  const pricing = order?.pricing && typeof order.pricing === 'object' ? order.pricing : {};
+
+  const total = toNum(pricing.total ?? order?.total ?? order?.total_price);
+  const subtotal = toNum(pricing.subtotal, round2(lines.reduce((acc, l) => acc + l.quantity * l.unitPrice, 0)));
+  const discount = toNum(pricing.discount, round2(lines.reduce((acc, l) => acc + l.discount, 0)));
+  const taxLines: InvoiceTaxLine[] = Array.isArray(pricing.tax_lines)
+    ? pricing.tax_lines.map((t: any) => ({ rate: toNum(t?.rate), taxable: toNum(t?.taxable), amount: toNum(t?.amount) }))
+    : taxLinesFrom(lines);
+  const tax = toNum(pricing.tax, round2(taxLines.reduce((acc, t) => acc + t.amount, 0)));
+  // Whatever is left is shipping when the order predates stored pricing
+  const shipping = toNum(pricing.shipping, Math.max(0, round2(total - subtotal + discount - tax)));
+
+  const addr = order?.Address || {};
+  const address = [addr.street, [addr.city, addr.zip].filter(Boolean).join(' '), addr.country]
+    .map((s) => String(s ?? '').trim())
+    .filter(Boolean);
+
+  return {
+    kind: issued.kind,
+    number: issued.number,
+    issuedAt: issued.issuedAt,
+    creditedInvoice: issued.creditedInvoice || '',
+    orderId: String(order?.orderID ?? order?.order_id ?? ''),
+    orderDate: String(order?.Date ?? order?.date ?? '').split(' ')[0],
+    status: customerStatusLabel(order?.status),
+    paymentMethod: String(order?.payment_method || ''),
+    seller,
+    buyer: {
+      name: String(order?.UserName || order?.user_name || 'Customer'),
+      email: String(order?.email || ''),
+      address,
+    },
+    lines,
+    taxLines,
+    subtotal,
+    discount,
+    shipping,
+    tax,
+    total,
+    currency: String(pricing.currency || 'AED'),
+  };
+}
+
+/* =========================================================
+   PDF
+   ========================================================= */
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 48;
+const BRAND = rgb(0x89 / 255, 0x1f / 255, 0x1a / 255); // #891F1A
+const MUTED = rgb(0.42, 0.42, 0.42);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+// Table columns: x of the left edge (description) or right edge (numbers)
+const COLS = { description: MARGIN, qty: 330, unit: 390, vat: 440, amount: A4[0] - MARGIN };
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+// Standard fonts only cover WinAnsi; anything else (e.g. Arabic names) would throw
+const charsets = new WeakMap<PDFFont, Set<number>>();
+
+function safeText(font: PDFFont, text: string) {
+  if (!charsets.has(font)) charsets.set(font, new Set(font.getCharacterSet()));
+  const supported = charsets.get(font)!;
+  return Array.from(String(text ?? '').replace(/[•–—]/g, '-'))
+    .map((ch) => (supported.has(ch.codePointAt(0)!) ? ch : '?'))
+    .join('');
+}
+
+function imageType(bytes: Uint8Array): 'png' | 'jpg' | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  return null;
+}
+
+/** Draws the document on as many A4 pages as the lines need and returns the PDF bytes. */
+export async function renderInvoicePdf(doc: InvoiceDocument, logo?: Uint8Array | null): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const title = doc.kind === 'credit_note' ? 'Credit Note' : doc.seller.vatRegistered ? 'Tax Invoice' : 'Invoice';
+  pdf.setTitle(`${title} ${doc.number}`);
+  pdf.setAuthor(doc.seller.companyName);
+  pdf.setCreationDate(new Date(doc.issuedAt || Date.now()));
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  let image: PDFImage | null = null;
+  const kind = logo ? imageType(logo) : null;
+  try {
+    if (logo && kind === 'png') image = await pdf.embedPng(logo);
+    if (logo && kind === 'jpg') image = await pdf.embedJpg(logo);
+  } catch {
+    image = null; // a broken logo must not cost the customer their invoice
+  }
+
+  const money = (n: number) => `${doc.currency} ${n.toFixed(2)}`;
+
+  let page: PDFPage = pdf.addPage(A4);
+  let y = A4[1] - MARGIN;
+
+  const text = (value: string, x: number, opts: { size?: number; bold?: boolean; color?: any; right?: boolean } = {}) => {
+    const font = opts.bold ? fonts.bold : fonts.regular;
+    const size = opts.size ?? 9;
+    const safe = safeText(font, value);
+    const width = font.widthOfTextAtSize(safe, size);
+    page.drawText(safe, { x: opts.right ? x - width : x, y, size, font, color: opts.color ?? rgb(0, 0, 0) });
+  };
+
+  const rule = (weight = 0.5, color = RULE) =>
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: A4[0] - MARGIN, y }, thickness: weight, color });
+
+  const tableHeader = () => {
+    text('Description', COLS.description, { bold: true });
+    text('Qty', COLS.qty, { bold: true, right: true });
+    text('Unit price', COLS.unit, { bold: true, right: true });
+    text('VAT', COLS.vat, { bold: true, right: true });
+    text('Amount', COLS.amount, { bold: true, right: true });
+    y -= 6;
+    rule(0.75, MUTED);
+    y -= 14;
+  };
+
+  // Leaves room for the footer; continues the table on a new page
+  const ensureSpace = (needed: number, repeatHeader = false) => {
+    if (y - needed >= MARGIN + 40) return;
+    page = pdf.addPage(A4);
+    y = A4[1] - MARGIN;
+    text(`${title} ${doc.number} (continued)`, MARGIN, { bold: true, color: MUTED });
+    y -= 24;
+    if (repeatHeader) tableHeader();
+  };
+
+  /* --- Header: logo + seller on the left, document details on the right --- */
+  const top = y;
+  if (image) {
+    const scaled = image.scaleToFit(140, 56);
+    page.drawImage(image, { x: MARGIN, y: top - scaled.height, width: scaled.width, height: scaled.height });
+    y = top - scaled.height - 14;
+  }
+  text(doc.seller.companyName, MARGIN, { size: 12, bold: true, color: BRAND });
+  y -= 13;
+  const sellerLines = [
+    ...doc.seller.address.split('\n'),
+    doc.seller.phone && `Tel: ${doc.seller.phone}`,
+    doc.seller.email,
+    doc.seller.trn && `TRN: ${doc.seller.trn}`,
+  ].filter(Boolean) as string[];
+  sellerLines.forEach((l) => {
+    text(l.trim(), MARGIN, { color: MUTED });
+    y -= 11;
+  });
+  const leftBottom = y;
+
+  y = top - 4;
+  text(title.toUpperCase(), COLS.amount, { size: 18, bold: true, color: BRAND, right: true });
+  y -= 22;
+  const meta: [string, string][] = [
+    [doc.kind === 'credit_note' ? 'Credit note no.' : 'Invoice no.', doc.number],
+    ['Date of issue', (doc.issuedAt || '').slice(0, 10)],
+    ...(doc.creditedInvoice ? ([['Credits invoice', doc.creditedInvoice]] as [string, string][]) : []),
+    ['Order', `#${doc.orderId}`],
+    ['Order date', doc.orderDate || '-'],
+  ];
+  meta.forEach(([label, value]) => {
+    text(label, COLS.unit, { color: MUTED, right: true });
+    text(value, COLS.amount, { bold: true, right: true });
+    y -= 12;
+  });
+
+  y = Math.min(y, leftBottom) - 16;
+  rule();
+  y -= 18;
+
+  /* --- Bill to --- */
+  text('Bill to', MARGIN, { bold: true, color: BRAND });
+  y -= 13;
+  [doc.buyer.name, ...doc.buyer.address, doc.buyer.email].filter(Boolean).forEach((l) => {
+    text(l, MARGIN);
+    y -= 11;
+  });
+  y -= 16;
+
+  /* --- Lines --- */
+  tableHeader();
+  for (const line of doc.lines) {
+    ensureSpace(14 + line.details.length * 10 + (line.discount ? 10 : 0), true);
+    text(line.description, COLS.description, { bold: true });
+    text(String(line.quantity), COLS.qty, { right: true });
+    text(line.unitPrice.toFixed(2), COLS.unit, { right: true });
+    text(`${line.taxRate}%`, COLS.vat, { right: true });
+    text(money(line.net), COLS.amount, { right: true });
+    y -= 11;
+    for (const d of line.details) {
+      text(d, COLS.description + 8, { size: 8, color: MUTED });
+      y -= 10;
+    }
+    if (line.discount) {
+      text(`Discount: -${line.discount.toFixed(2)}`, COLS.description + 8, { size: 8, color: MUTED });
+      y -= 10;
+    }
+    y -= 5;
+  }
+  if (!doc.lines.length) {
+    text('Order items are not itemised for this order.', COLS.description, { color: MUTED });
+    y -= 16;
+  }
+  rule();
+  y -= 18;
+
+  /* --- VAT breakdown (left) and totals (right) --- */
+  ensureSpace(40 + Math.max(doc.taxLines.length * 12 + 24, 5 * 13));
+  const totalsTop = y;
+
+  if (doc.taxLines.length) {
+    text('VAT summary', MARGIN, { bold: true, color: BRAND });
+    y -= 13;
+    text('Rate', MARGIN, { bold: true });
+    text('Taxable', MARGIN + 120, { bold: true, right: true });
+    text('VAT', MARGIN + 200, { bold: true, right: true });
+    y -= 12;
+    for (const t of doc.taxLines) {
+      text(`${t.rate}%`, MARGIN);
+      text(t.taxable.toFixed(2), MARGIN + 120, { right: true });
+      text(t.amount.toFixed(2), MARGIN + 200, { right: true });
+      y -= 12;
+    }
+  }
+  const vatBottom = y;
+
+  y = totalsTop;
+  const totals: [string, number][] = [
+    ['Subtotal', doc.subtotal],
+    ...(doc.discount ? ([['Discount', -doc.discount]] as [string, number][]) : []),
+    ['Shipping', doc.shipping],
+    ['VAT', doc.tax],
+  ];
+  totals.forEach(([label, value]) => {
+    text(label, COLS.vat, { right: true, color: MUTED });
+    text(money(value), COLS.amount, { right: true });
+    y -= 13;
+  });
+  y -= 2;
+  page.drawLine({ start: { x: 360, y: y + 9 }, end: { x: COLS.amount, y: y + 9 }, thickness: 0.75, color: MUTED });
+  text(doc.kind === 'credit_note' ? 'Total credited' : 'Total', COLS.vat, { bold: true, right: true });
+  text(money(doc.total), COLS.amount, { bold: true, right: true, color: BRAND });
+  y -= 13;
+  if (doc.paymentMethod) {
+    text(`Payment: ${doc.paymentMethod.toUpperCase()} - ${doc.status}`, COLS.amount, { size: 8, color: MUTED, right: true });
+    y -= 12;
+  }
+
+  y = Math.min(y, vatBottom) - 24;
+
+  /* --- Footer on every page --- */
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    page = p;
+    y = MARGIN - 8;
+    if (doc.seller.footerNote) text(doc.seller.footerNote, MARGIN, { size: 8, color: MUTED });
+    text(`Page ${i + 1} of ${pages.length}`, COLS.amount, { size: 8, color: MUTED, right: true });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,52 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+
+/* =========================================================
+   Outgoing mail — server only.
+   Production sends through the SMTP server in SMTP_HOST.
+   In development, without SMTP_HOST, mail goes to the local
+   stand-in on localhost:1025 (`npm run mail:dev`), which
+   keeps every message as an .eml file instead of sending it.
+   ========================================================= */
+
+export type OutgoingMail = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const DEV_SMTP_PORT = 1025;
+
+let transport: Transporter | null | undefined;
+
+function getTransport(): Transporter | null {
+  if (transport !== undefined) return transport;
+  const host = (process.env.SMTP_HOST || '').trim();
+
+  if (host) {
+    transport = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+    });
+  } else if (process.env.NODE_ENV !== 'production') {
+    transport = nodemailer.createTransport({ host: '127.0.0.1', port: DEV_SMTP_PORT, secure: false, ignoreTLS: true });
+  } else {
+    console.warn('SMTP_HOST is not set; transactional emails are disabled');
+    transport = null;
+  }
+  return transport;
+}
+
+const FROM = () => (process.env.MAIL_FROM || process.env.SMTP_USER || 'no-reply@localhost').trim();
+
+/** Throws when the message could not be handed to the SMTP server. Returns false when mail is disabled. */
+export async function sendMail(mail: OutgoingMail): Promise<boolean> {
+  const t = getTransport();
+  if (!t) return false;
+  await t.sendMail({ from: FROM(), ...mail });
+  return true;
+}
+
+export const isEmail = (v: unknown) => typeof v === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v.trim());
@@ -0,0 +1,60 @@
+import { normalizeAdminNotifications, type AdminNotification } from '../utils/adminNotifications';
+import { backendGet } from './orderAccess';
+
+/* =========================================================
+   Live admin notifications — server only. The backend has no
+   push, so one poller per server process watches the feed
+   while at least one admin has the stream open and hands every
+   changed snapshot to the open streams.
+   ========================================================= */
+
+const POLL_MS = 5_000;
+
+type Listener = (list: AdminNotification[]) => void;
+
+const listeners = new Set<Listener>();
+let latest: AdminNotification[] | null = null;
+let fingerprint = '';
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling: Promise<void> | null = null;
+
+// New rows and read/unread flips both change it
+const fingerprintOf = (list: AdminNotification[]) => list.map((n) => `${n.notification_id}:${n.status}`).join(',');
+
+async function poll() {
+  try {
+    const { status, data } = await backendGet('/api/notifications/');
+    if (status !== 200) return; // keep the last snapshot; the next tick retries
+    const list = normalizeAdminNotifications(Array.isArray(data) ? data : data?.notifications);
+    const next = fingerprintOf(list);
+    if (next === fingerprint && latest) return;
+    fingerprint = next;
+    latest = list;
+    listeners.forEach((fn) => fn(list));
+  } catch (err) {
+    console.error('notification feed poll failed', err);
+  }
+}
+
+/** Polls now instead of waiting for the next tick (e.g. right after something created a notification). */
+export function refreshNotificationFeed() {
+  if (!polling) polling = poll().finally(() => (polling = null));
+  return polling;
+}
+
+/** Calls `fn` with the current snapshot (once loaded) and after every change; returns the unsubscribe. */
+export function subscribeNotificationFeed(fn: Listener) {
+  listeners.add(fn);
+  if (latest) fn(latest);
+  else void refreshNotificationFeed();
+  if (!timer) timer = setInterval(() => void refreshNotificationFeed(), POLL_MS);
+  return () => {
+    listeners.delete(fn);
+    if (!listeners.size && timer) {
+      clearInterval(timer);
+      timer = null;
+      latest = null; // stale by the time someone reconnects
+      fingerprint = '';
+    }
+  };
+}
@@ -0,0 +1,140 @@
+import { isEmail, sendMail } from './mailer';
+import { backendGet, unwrapOrder } from './orderAccess';
+import { customerStatusLabel, type OrderStatusEvent } from '../utils/orderStatus';
+import { orderTrackingUrl } from '../utils/checkout';
+import { CARRIER_LABELS, normalizeShipment } from '../utils/shipments';
+import {
+  normalizeEmailTemplates,
+  renderEmailTemplate,
+  type EmailTemplateId,
+  type EmailTemplates,
+  type EmailVars,
+} from '../utils/emailTemplates';
+
+/* =========================================================
+   Transactional emails — server only.
+   Every sender is best-effort: a mail failure is logged and
+   never fails the order or call-back change that caused it.
+   ========================================================= */
+
+const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || '').trim().replace(/\/$/, '');
+
+export async function loadEmailTemplates(): Promise<EmailTemplates> {
+  const { data } = await backendGet('/api/show-email-settings/').catch(() => ({ data: null }));
+  return normalizeEmailTemplates(data?.templates);
+}
+
+async function siteName() {
+  const { data } = await backendGet('/api/show-sitetitle-details/').catch(() => ({ data: null }));
+  return String(data?.site_title || '').trim();
+}
+
+/** Renders one template and sends it. Resolves false when skipped (disabled, no address) or failed. */
+export async function sendTemplate(id: EmailTemplateId, to: unknown, vars: EmailVars, templates?: EmailTemplates) {
+  if (!isEmail(to)) return false;
+  try {
+    const tpl = (templates || (await loadEmailTemplates()))[id];
+    if (!tpl.enabled) return false;
+    const rendered = renderEmailTemplate(tpl, { site_name: await siteName(), ...vars });
+    return await sendMail({ to: String(to).trim(), ...rendered });
+  } catch (err) {
+    console.error(`email ${id} failed`, err);
+    return false;
+  }
+}
+
+/* =========================================================
+   ORDERS
+   ========================================================= */
+
+const money = (n: unknown, currency = 'AED') => `${currency} ${(parseFloat(String(n ?? 0)) || 0).toFixed(2)}`;
+
+function orderUrl(order: any) {
+  const id = String(order?.orderID ?? '');
+  // guests have no account page; they get the tracking link instead
+  const path = order?.guest ? orderTrackingUrl(id, String(order?.email || '')) : '/orders';
+  return `${SITE_URL}${path}`;
+}
+
+function orderVars(order: any): EmailVars {
+  const detail = Array.isArray(order?.item?.detail) ? order.item.detail : [];
+  const items = detail.map((d: any) => {
+    const opts = (Array.isArray(d?.selected_attributes_human) ? d.selected_attributes_human : [])
+      .map((a: any) => `${a?.attribute_name}: ${a?.option_label}`)
+      .join(', ');
+    return `${Number(d?.quantity) || 1} x ${d?.product_name || 'Item'}${opts ? ` (${opts})` : ''}`;
+  });
+  return {
+    customer_name: String(order?.UserName || 'there'),
+    order_id: String(order?.orderID ?? ''),
+    order_total: money(order?.pricing?.total ?? order?.total, order?.pricing?.currency),
+    order_items: items.join('\n'),
+    order_status: customerStatusLabel(order?.status),
+    order_url: orderUrl(order),
+  };
+}
+
+/** Backend order detail (show-specific-order) for the emails; null when it can't be loaded. */
+export async function loadOrderForEmail(order_id: string) {
+  try {
+    const { data } = await backendGet('/api/show-specific-order/', { order_id });
+    const order = unwrapOrder(data);
+    return order?.orderID ? order : null;
+  } catch {
+    return null;
+  }
+}
+
+export const notifyOrderReceived = (order: any) => sendTemplate('order_received', order?.email, orderVars(order));
+
+/**
+ * After an admin status change. Moves the customer can't tell apart
+ * (pending → processing are both "In Processing") send nothing.
+ */
+export async function notifyOrderStatus(order: any, event: OrderStatusEvent) {
+  if (event.to === 'shipped') {
+    const shipment = normalizeShipment(order?.shipment);
+    return sendTemplate('order_shipped', order?.email, {
+      ...orderVars(order),
+      carrier: shipment ? CARRIER_LABELS[shipment.carrier] : 'our courier',
+      tracking_number: shipment?.tracking_number || '—',
+      // the order page shows live scans for carriers without a public tracking site
+      tracking_url: shipment?.tracking_url || orderUrl(order),
+    });
+  }
+  if (event.from && customerStatusLabel(event.from) === customerStatusLabel(event.to)) return false;
+  return sendTemplate('order_status_changed', order?.email, {
+    ...orderVars(order),
+    order_status: customerStatusLabel(event.to),
+    status_reason: event.reason,
+  });
+}
+
+/* =========================================================
+   CALL-BACKS
+   ========================================================= */
+
+const when = (iso: unknown) => {
+  const d = new Date(String(iso || ''));
+  return Number.isNaN(d.getTime())
+    ? 'the time you asked for'
+    : d.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Dubai' });
+};
+
+export async function loadCallbackForEmail(id: string) {
+  try {
+    const { data } = await backendGet('/api/show-specific-callback/', { id });
+    return data?.id ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function notifyCallback(id: Extract<EmailTemplateId, 'callback_received' | 'callback_scheduled'>, row: any) {
+  return sendTemplate(id, row?.email, {
+    customer_name: String(row?.username || 'there'),
+    event_type: String(row?.event_type || 'event'),
+    preferred_callback: when(row?.preferred_callback),
+    phone_number: String(row?.phone_number || ''),
+  });
+}
@@ -0,0 +1,58 @@
+import { API_BASE_URL } from '../utils/api';
+import { backendHeaders, sessionFromRequest } from './adminSession';
+import { accountFromRequest } from './accountAuth';
+import { canOpen } from './apiRoutes';
+
+/* =========================================================
+   Server-side order lookups shared by the route handlers that
+   serve one order to whoever is asking (invoices, tracking):
+   admins with orders access see any order, everyone else only
+   the orders of the cart owner they present: this browser's
+   device UUID and, for an account, a verified Firebase ID token.
+   ========================================================= */
+
+export async function backendGet(path: string, query: Record<string, string> = {}) {
+  const qs = new URLSearchParams(Object.entries(query).filter(([, v]) => v)).toString();
+  const res = await fetch(`${API_BASE_URL}${path}${qs ? `?${qs}` : ''}`, {
+    headers: backendHeaders(),
+    cache: 'no-store',
+  });
+  return { status: res.status, data: res.ok ? await res.json().catch(() => null) : null };
+}
+
+// show-specific-(user-)order answer either the order or { order }
+export const unwrapOrder = (data: any) => (data && typeof data === 'object' && 'order' in data ? data.order : data);
+
+export type OrderLookup = { order: any; isAdmin: boolean } | { status: 400 | 401 | 404 | 502; error: string };
+
+/** Who a customer request speaks for; the uid only ever comes from a verified ID token. */
+export async function orderOwnerFromRequest(req: Request, device_uuid: string) {
+  const auth = await accountFromRequest(req);
+  if (auth.status === 'invalid') return null;
+  const firebase_uid = auth.status === 'ok' ? auth.account.uid : '';
+  return device_uuid || firebase_uid ? { device_uuid, firebase_uid } : null;
+}
+
+/** `order_id` and `device_uuid` come from the query string, the account from the Authorization header. */
+export async function loadOrderForRequest(req: Request): Promise<OrderLookup> {
+  const url = new URL(req.url);
+  const order_id = (url.searchParams.get('order_id') || '').trim();
+  if (!order_id) return { status: 400, error: 'order_id is required' };
+
+  const session = await sessionFromRequest(req);
+  const isAdmin = !!session && canOpen(session, '/admin/orders');
+  const owner = isAdmin ? null : await orderOwnerFromRequest(req, (url.searchParams.get('device_uuid') || '').trim());
+  if (!isAdmin && !owner) return { status: 401, error: 'Not allowed to view this order' };
+
+  try {
+    const { status, data } = isAdmin
+      ? await backendGet('/api/show-specific-order/', { order_id })
+      : await backendGet('/api/show-specific-user-order/', { order_id, ...owner });
+    if (status === 401) return { status: 401, error: 'Not allowed to view this order' };
+    const order = unwrapOrder(data);
+    if (!order?.orderID) return { status: 404, error: 'Order not found' };
+    return { order, isAdmin };
+  } catch {
+    return { status: 502, error: 'Failed to load order' };
+  }
+}
@@ -0,0 +1,585 @@
+import { unstable_cache } from 'next/cache';
+import { mapLimit } from './catalog';
+import {
+  STOREFRONT_REVALIDATE,
+  loadNavItems,
+  loadProductList,
+  loadProductSearchFields,
+  loadSubcategoryAttributes,
+  menuLocations,
+} from './storefront';
+import {
+  apiAssetUrl,
+  categoryPath,
+  productPath,
+  subcategoryPath,
+  type SubcategoryPageData,
+} from '../utils/storefront';
+import {
+  PRICE_BUCKETS,
+  PRINTING_METHOD_LABELS,
+  SEARCH_PAGE_SIZE,
+  priceBucketLabel,
+  type FacetOption,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchHit,
+  type SearchResult,
+  type SearchSuggestions,
+} from '../utils/search';
+
+/* =========================================================
+   Catalog search — server only. An inverted index over
+   every product in the menu: name, SKU, SEO keywords (as
+   tags), category names, attribute options, printing
+   methods and description.
+
+   The index is built from the storefront loaders and cached
+   under the 'catalog' tag, so it is rebuilt with the product
+   pages — every STOREFRONT_REVALIDATE, or at once when the
+   admin saves a product (refreshStorefront).
+
+   Subcategory listing pages filter and sort through the same
+   index (searchSubcategory), so the two never disagree.
+   ========================================================= */
+
+/* ===== TEXT ===== */
+
+// Hyphens and apostrophes join ("t-shirt" → "tshirt"); other punctuation splits
+export const normalizeSearchText = (s: unknown) =>
+  String(s ?? '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/['’-]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Plurals only; anything cleverer mangles product names
+function stem(word: string) {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ss|sh|ch|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'for', 'of', 'with', 'in', 'on', 'to']);
+
+const tokens = (s: unknown) => normalizeSearchText(s).split(' ').filter(Boolean).map(stem);
+
+// Words shoppers use interchangeably; each group is matched as one term
+const SYNONYM_GROUPS = [
+  ['tshirt', 'tee', 'shirt'],
+  ['hoodie', 'sweatshirt', 'jumper'],
+  ['cap', 'hat'],
+  ['mug', 'cup'],
+  ['sticker', 'label', 'decal'],
+  ['flyer', 'leaflet', 'pamphlet'],
+  ['brochure', 'booklet', 'catalogue', 'catalog'],
+  ['banner', 'signage', 'sign'],
+  ['notebook', 'notepad', 'diary', 'journal'],
+  ['bag', 'tote'],
+  ['card', 'visiting'],
+  ['envelope', 'cover'],
+  ['pen', 'ballpoint'],
+  ['bottle', 'flask', 'tumbler'],
+  ['logo', 'brand', 'branding'],
+  ['custom', 'personalised', 'personalized', 'customized', 'customised'],
+];
+
+const SYNONYMS = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  const stems = group.map(stem);
+  for (const s of stems) SYNONYMS.set(s, stems.filter((o) => o !== s));
+}
+
+/** Restricted Damerau–Levenshtein distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prevPrev[j - 2] + 1);
+      row.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Short words have to be spelled right; longer ones get one or two slips
+const typoBudget = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+/* ===== INDEX ===== */
+
+// How much a hit in each field counts toward the score
+const FIELD_WEIGHTS = {
+  sku: 8,
+  name: 6,
+  tags: 4,
+  taxonomy: 3,
+  attributes: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+type SearchDoc = {
+  hit: SearchHit;
+  sku: string; // normalized, for whole-SKU lookups
+  name: string; // normalized, for phrase matches
+  price: number; // what the shopper pays
+  created: number;
+  categories: string[]; // every menu category the product sits in
+  subcategories: string[]; // ...and every "category/subcategory", for listing pages
+  in_stock: boolean;
+  methods: string[];
+  attributes: Record<string, string[]>;
+};
+
+type SearchIndex = {
+  docs: SearchDoc[];
+  // stem → [doc index, best field weight][]
+  postings: Record<string, Array<[number, number]>>;
+  // stem → how it's usually spelled, for "did you mean" and completions
+  words: Record<string, string>;
+  categories: Array<{ url: string; name: string; subcategories: Array<{ url: string; name: string }> }>;
+};
+
+// SEO and attribute lookups are one pair of calls per product
+const INDEX_CONCURRENCY = 4;
+
+// Index words are arbitrary text; "constructor" mustn't find Object.prototype
+const own = <T>(record: Record<string, T>, key: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+/** show-product row → list price and the sale price when it undercuts it. */
+export const priceOf = (row: any) => {
+  const price = parseFloat(row?.price) || 0;
+  const sale = parseFloat(row?.discounted_price) || 0;
+  return { price, sale: sale > 0 && sale < price ? sale : null };
+};
+
+async function buildSearchIndex(): Promise<SearchIndex> {
+  const [nav, rows] = await Promise.all([loadNavItems(), loadProductList()]);
+  const located = menuLocations(nav);
+  const byId = new Map(rows.map((r) => [String(r.id ?? r.product_id), r]));
+
+  // Every menu location, for the category facet and subcategory listings
+  const inCategories = new Map<string, Set<string>>();
+  const inSubcategories = new Map<string, Set<string>>();
+  const taxonomy = new Map<string, Set<string>>();
+  for (const cat of nav) {
+    for (const sub of cat.subcategories || []) {
+      for (const p of sub.products || []) {
+        const id = String(p.id);
+        if (!inCategories.has(id)) inCategories.set(id, new Set());
+        if (!inSubcategories.has(id)) inSubcategories.set(id, new Set());
+        if (!taxonomy.has(id)) taxonomy.set(id, new Set());
+        inCategories.get(id)!.add(cat.url);
+        inSubcategories.get(id)!.add(`${cat.url}/${sub.url}`);
+        taxonomy.get(id)!.add(cat.name).add(sub.name);
+      }
+    }
+  }
+
+  const ids = Array.from(located.keys());
+  const extras = await mapLimit(ids, INDEX_CONCURRENCY, (id) =>
+    loadProductSearchFields(id).catch(() => ({ keywords: [] as string[], attributes: [] as any[] }))
+  );
+
+  const postings: SearchIndex['postings'] = Object.create(null);
+  const words: SearchIndex['words'] = Object.create(null);
+  const docs: SearchDoc[] = [];
+
+  const add = (doc: number, field: SearchField, text: unknown) => {
+    for (const word of normalizeSearchText(text).split(' ').filter(Boolean)) {
+      const s = stem(word);
+      words[s] ||= word;
+      const list = (postings[s] ||= []);
+      const last = list[list.length - 1];
+      if (last && last[0] === doc) last[1] = Math.max(last[1], FIELD_WEIGHTS[field]);
+      else list.push([doc, FIELD_WEIGHTS[field]]);
+    }
+  };
+
+  ids.forEach((id, i) => {
+    const { category, subcategory } = located.get(id)!;
+    const navProduct: any = subcategory.products.find((p) => String(p.id) === id) || {};
+    const row: any = byId.get(id) || {};
+    const { price, sale } = priceOf(row);
+    const methods: string[] = Array.isArray(row.printing_methods) ? row.printing_methods.map(String) : [];
+    const attributes: Record<string, string[]> = {};
+    for (const a of extras[i].attributes) {
+      const name = String(a?.name || '').trim();
+      const labels = (Array.isArray(a?.options) ? a.options : []).map((o: any) => String(o?.label || '').trim()).filter(Boolean);
+      if (name && labels.length) attributes[name] = labels;
+    }
+    const name = String(navProduct.name ?? row.name ?? '');
+    const stock = String(row.stock_status || '').trim();
+
+    docs.push({
+      hit: {
+        id,
+        name,
+        path: productPath(category.url, subcategory.url, id),
+        image: apiAssetUrl(navProduct.images?.[0]?.url || row.image) || '/images/img1.jpg',
+        price,
+        sale_price: sale,
+        stock_status: stock,
+        rating: Number(navProduct.rating ?? row.rating ?? 0),
+        rating_count: Number(navProduct.rating_count ?? row.rating_count ?? 0),
+        category: { id: String(category.id), name: category.name, url: category.url },
+        subcategory: { id: String(subcategory.id), name: subcategory.name, url: subcategory.url },
+      },
+      sku: normalizeSearchText(id),
+      name: normalizeSearchText(name),
+      price: sale ?? price,
+      created: Date.parse(row.created_at || '') || 0,
+      categories: Array.from(inCategories.get(id) || []),
+      subcategories: Array.from(inSubcategories.get(id) || []),
+      // Same test as the "Out of stock" badge on the cards
+      in_stock: !stock.toLowerCase().includes('out'),
+      methods,
+      attributes,
+    });
+
+    add(i, 'sku', id);
+    add(i, 'name', name);
+    add(i, 'tags', extras[i].keywords.join(' '));
+    add(i, 'taxonomy', Array.from(taxonomy.get(id) || []).join(' '));
+    add(i, 'taxonomy', row.brand_title);
+    add(i, 'attributes', Object.entries(attributes).flat(2).join(' '));
+    add(i, 'attributes', methods.map((m) => PRINTING_METHOD_LABELS[m] || m).join(' '));
+    add(i, 'description', row.fit_description || row.description);
+  });
+
+  return {
+    docs,
+    postings,
+    words,
+    categories: nav.map((c) => ({
+      url: c.url,
+      name: c.name,
+      subcategories: (c.subcategories || []).map((s) => ({ url: s.url, name: s.name })),
+    })),
+  };
+}
+
+const loadSearchIndex = unstable_cache(buildSearchIndex, ['search-index'], {
+  revalidate: STOREFRONT_REVALIDATE,
+  tags: ['catalog'],
+});
+
+/* ===== MATCHING ===== */
+
+type TermMatch = { scores: Map<number, number>; corrected: string | null };
+
+// How close a stem is to what was typed
+const QUALITY = { exact: 1, synonym: 0.9, prefix: 0.75, typo1: 0.6, typo2: 0.45 };
+
+/**
+ * One query word → per-doc score. Exact and synonym hits always count;
+ * prefixes cover half-typed words; typos are only tried when nothing
+ * else matched, and then the best correction is reported.
+ */
+function matchTerm(index: SearchIndex, vocabulary: string[], term: string): TermMatch {
+  const scores = new Map<number, number>();
+  const credit = (stemmed: string, quality: number) => {
+    for (const [doc, weight] of own(index.postings, stemmed) || []) {
+      scores.set(doc, Math.max(scores.get(doc) || 0, weight * quality));
+    }
+  };
+
+  credit(term, QUALITY.exact);
+  for (const syn of SYNONYMS.get(term) || []) credit(syn, QUALITY.synonym);
+  if (term.length >= 2) {
+    for (const word of vocabulary) if (word !== term && word.startsWith(term)) credit(word, QUALITY.prefix);
+  }
+  if (scores.size) return { scores, corrected: null };
+
+  const budget = typoBudget(term);
+  let best: { word: string; distance: number; df: number } | null = null;
+  for (const word of budget ? vocabulary : []) {
+    const distance = editDistance(term, word, budget);
+    if (distance > budget) continue;
+    credit(word, distance === 1 ? QUALITY.typo1 : QUALITY.typo2);
+    const df = index.postings[word].length;
+    if (!best || distance < best.distance || (distance === best.distance && df > best.df)) best = { word, distance, df };
+  }
+  return { scores, corrected: best ? own(index.words, best.word) || best.word : null };
+}
+
+/** Query → doc index → relevance; null means "no query", i.e. every product. */
+function matchQuery(index: SearchIndex, q: string): { scores: Map<number, number> | null; corrected: string | null } {
+  const all = tokens(q);
+  const terms = all.filter((t) => !STOP_WORDS.has(t));
+  const query = terms.length ? terms : all;
+  if (!query.length) return { scores: null, corrected: null };
+
+  const vocabulary = Object.keys(index.postings);
+  const matches = query.map((t) => matchTerm(index, vocabulary, t));
+
+  // Every word has to match somewhere
+  let scores = matches[0].scores;
+  for (const m of matches.slice(1)) {
+    const next = new Map<number, number>();
+    scores.forEach((score, doc) => {
+      if (m.scores.has(doc)) next.set(doc, score + m.scores.get(doc)!);
+    });
+    scores = next;
+  }
+
+  // The whole query as a phrase in the name, or as the SKU, outranks scattered word hits
+  const phrase = normalizeSearchText(q);
+  scores.forEach((score, doc) => {
+    const d = index.docs[doc];
+    if (d.sku === phrase) scores.set(doc, score + 20);
+    else if (d.name.includes(phrase)) scores.set(doc, score + 5);
+  });
+
+  const corrected = matches.some((m) => m.corrected)
+    ? query.map((t, i) => matches[i].corrected || own(index.words, t) || t).join(' ')
+    : null;
+  return { scores, corrected };
+}
+
+/* ===== FILTERS & FACETS ===== */
+
+type FacetKey = 'category' | 'method' | 'price' | 'stock' | `attr:${string}`;
+
+const overlaps = (have: string[], want: string[]) => !want.length || want.some((w) => have.includes(w));
+
+// Values are OR'd within a facet and AND'd across facets; `skip` leaves one
+// facet out so its own options can be counted against everything else
+function passes(doc: SearchDoc, f: SearchFilters, skip?: FacetKey) {
+  if (skip !== 'category' && !overlaps(doc.categories, f.categories)) return false;
+  if (skip !== 'method' && !overlaps(doc.methods, f.methods)) return false;
+  if (skip !== 'price') {
+    if (f.price_min !== null && doc.price < f.price_min) return false;
+    if (f.price_max !== null && doc.price > f.price_max) return false;
+  }
+  if (skip !== 'stock' && f.in_stock && !doc.in_stock) return false;
+  for (const [name, values] of Object.entries(f.attributes)) {
+    if (skip !== `attr:${name}` && !overlaps(doc.attributes[name] || [], values)) return false;
+  }
+  return true;
+}
+
+const MAX_ATTRIBUTE_FACETS = 8;
+const MAX_FACET_OPTIONS = 12;
+
+function countBy(docs: SearchDoc[], values: (d: SearchDoc) => string[]) {
+  const counts = new Map<string, number>();
+  for (const d of docs) for (const v of new Set(values(d))) counts.set(v, (counts.get(v) || 0) + 1);
+  return counts;
+}
+
+function options(counts: Map<string, number>, selected: string[], label: (v: string) => string): FacetOption[] {
+  for (const s of selected) if (!counts.has(s)) counts.set(s, 0);
+  return Array.from(counts, ([value, count]) => ({ value, label: label(value), count, selected: selected.includes(value) }))
+    .sort((a, b) => Number(b.selected) - Number(a.selected) || b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, Math.max(MAX_FACET_OPTIONS, selected.length));
+}
+
+// `attributeNames` fixes which attribute facets are offered and in what order
+function buildFacets(index: SearchIndex, matched: SearchDoc[], f: SearchFilters, attributeNames?: string[]): SearchFacets {
+  const except = (key: FacetKey) => matched.filter((d) => passes(d, f, key));
+  const categoryNames = new Map(index.categories.map((c) => [c.url, c.name]));
+
+  const priced = except('price');
+  const prices = priced.map((d) => d.price).filter((p) => p > 0);
+
+  let attributes = attributeNames;
+  if (!attributes) {
+    const common = Array.from(countBy(matched, (d) => Object.keys(d.attributes)))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([name]) => name);
+    for (const name of Object.keys(f.attributes)) if (!common.includes(name)) common.unshift(name);
+    attributes = common.slice(0, Math.max(MAX_ATTRIBUTE_FACETS, Object.keys(f.attributes).length));
+  }
+
+  return {
+    categories: options(
+      countBy(except('category'), (d) => d.categories),
+      f.categories,
+      (url) => categoryNames.get(url) || url
+    ),
+    methods: options(
+      countBy(except('method'), (d) => d.methods),
+      f.methods,
+      (code) => PRINTING_METHOD_LABELS[code] || code
+    ),
+    price: {
+      min: prices.length ? Math.floor(Math.min(...prices)) : 0,
+      max: prices.length ? Math.ceil(Math.max(...prices)) : 0,
+      buckets: PRICE_BUCKETS.map(([min, max]) => ({
+        value: `${min}-${max ?? ''}`,
+        label: priceBucketLabel([min, max]),
+        min,
+        max,
+        count: priced.filter((d) => d.price >= min && (max === null || d.price < max)).length,
+        selected: f.price_min === min && f.price_max === max,
+      })),
+    },
+    in_stock: except('stock').filter((d) => d.in_stock).length,
+    attributes: attributes.map((name) => ({
+      name,
+      options: options(
+        countBy(except(`attr:${name}`), (d) => d.attributes[name] || []),
+        f.attributes[name] || [],
+        (v) => v
+      ),
+    })),
+  };
+}
+
+const SORTS: Record<SearchFilters['sort'], (a: SearchDoc, b: SearchDoc) => number> = {
+  relevance: () => 0,
+  // Review count stands in for sales, which the storefront can't see
+  popular: (a, b) => b.hit.rating_count - a.hit.rating_count || b.hit.rating - a.hit.rating,
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  newest: (a, b) => b.created - a.created,
+  rating: (a, b) => b.hit.rating - a.hit.rating || b.hit.rating_count - a.hit.rating_count,
+};
+
+/* ===== PUBLIC ===== */
+
+type SearchOptions = {
+  subcategory?: string; // "category/subcategory": only products listed there
+  attributes?: string[]; // the attribute facets to offer, in order
+  paginate?: boolean; // false = every hit on one page
+};
+
+export async function searchCatalog(filters: SearchFilters, options: SearchOptions = {}): Promise<SearchResult> {
+  const index = await loadSearchIndex();
+  const { scores, corrected } = matchQuery(index, filters.q);
+
+  const inScope = (d: SearchDoc) => !options.subcategory || d.subcategories.includes(options.subcategory);
+  const ranked = (scores ? Array.from(scores, ([i, score]) => ({ d: index.docs[i], score })) : index.docs.map((d) => ({ d, score: 0 })))
+    .filter((r) => inScope(r.d));
+  const matched = ranked.map((r) => r.d);
+  const results = ranked
+    .filter((r) => passes(r.d, filters))
+    .sort((a, b) => SORTS[filters.sort](a.d, b.d) || b.score - a.score || a.d.hit.name.localeCompare(b.d.hit.name));
+
+  const size = options.paginate === false ? Math.max(1, results.length) : SEARCH_PAGE_SIZE;
+  const pages = Math.max(1, Math.ceil(results.length / size));
+  const page = Math.min(filters.page, pages);
+  return {
+    filters,
+    total: results.length,
+    page,
+    pages,
+    hits: results.slice((page - 1) * size, page * size).map((r) => r.d.hit),
+    facets: buildFacets(index, matched, filters, options.attributes),
+    corrected,
+  };
+}
+
+/**
+ * A subcategory listing: its products narrowed by the shared filters, with
+ * the subcategory's own attribute library as the attribute facets. Every
+ * product comes back (the page loads more in batches); "relevance" keeps
+ * the order the admin gave the products in the menu.
+ */
+export async function searchSubcategory(data: SubcategoryPageData, filters: SearchFilters): Promise<SearchResult> {
+  const library = await loadSubcategoryAttributes(data.subcategory.id).catch(() => []);
+  const result = await searchCatalog(
+    { ...filters, q: '', categories: [], page: 1 },
+    {
+      subcategory: `${data.category.url}/${data.subcategory.url}`,
+      attributes: library.map((a) => a.name),
+      paginate: false,
+    }
+  );
+
+  if (filters.sort === 'relevance') {
+    const position = new Map(data.products.map((p, i) => [p.id, i]));
+    result.hits.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+  }
+
+  // Library values first, in the admin's order, then anything products add; empty groups are dropped
+  const byName = new Map(library.map((a) => [a.name, a] as const));
+  result.facets.attributes = result.facets.attributes
+    .map((group) => {
+      const order = byName.get(group.name)?.values || [];
+      const rank = (v: string) => (order.includes(v) ? order.indexOf(v) : order.length);
+      return {
+        ...group,
+        type: byName.get(group.name)?.type,
+        options: group.options.filter((o) => o.count || o.selected).sort((a, b) => rank(a.value) - rank(b.value)),
+      };
+    })
+    .filter((group) => group.options.length);
+  return result;
+}
+
+/** Cards for the given product ids, in that order; ids not in the menu are skipped. */
+export async function loadSearchHits(ids: string[]): Promise<SearchHit[]> {
+  const index = await loadSearchIndex();
+  const byId = new Map(index.docs.map((d) => [d.hit.id, d.hit]));
+  return ids.map((id) => byId.get(id)).filter((hit): hit is SearchHit => !!hit);
+}
+
+const SUGGESTED_PRODUCTS = 6;
+const SUGGESTED_CATEGORIES = 5;
+const SUGGESTED_COMPLETIONS = 5;
+
+/** Header autocomplete: finished words, matching categories and the best few products. */
+export async function suggestSearch(q: string): Promise<SearchSuggestions> {
+  const index = await loadSearchIndex();
+  const query = q.trim();
+  if (!query) {
+    return {
+      query,
+      completions: [],
+      categories: index.categories.map((c) => ({ name: c.name, path: categoryPath(c.url) })),
+      products: [],
+      corrected: null,
+    };
+  }
+
+  const { scores, corrected } = matchQuery(index, query);
+  const products = Array.from(scores || [])
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SUGGESTED_PRODUCTS)
+    .map(([i]) => index.docs[i].hit);
+
+  // Finish the word being typed with the most common words that start with it
+  const typed = normalizeSearchText(query).split(' ').filter(Boolean);
+  const partial = typed.pop() || '';
+  const completions = Object.keys(index.postings)
+    .filter((w) => w !== partial && w.startsWith(stem(partial)))
+    .sort((a, b) => index.postings[b].length - index.postings[a].length)
+    .slice(0, SUGGESTED_COMPLETIONS)
+    .map((w) => [...typed, own(index.words, w) || w].join(' '));
+
+  // Category and subcategory names containing every word (prefix match on the last)
+  const want = tokens(query);
+  const named = (name: string) => {
+    const have = tokens(name);
+    return want.every((w, i) =>
+      have.some((h) => h === w || (SYNONYMS.get(w) || []).includes(h) || (i === want.length - 1 && h.startsWith(w)))
+    );
+  };
+  const categories: SearchSuggestions['categories'] = [];
+  for (const c of index.categories) {
+    if (named(c.name)) categories.push({ name: c.name, path: categoryPath(c.url) });
+    for (const s of c.subcategories) {
+      if (named(s.name)) categories.push({ name: s.name, path: subcategoryPath(c.url, s.url), parent: c.name });
+    }
+  }
+
+  return { query, completions, categories: categories.slice(0, SUGGESTED_CATEGORIES), products, corrected };
+}
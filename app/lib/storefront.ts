@@ -0,0 +1,270 @@
+import { cache } from 'react';
+import { apiFetch } from '../utils/apiClient';
+import {
+  apiAssetUrl,
+  type BlogPost,
+  type CategoryPageData,
+  type NavCategory,
+  type NavSubcategory,
+  type ProductPageData,
+  type StorefrontSection,
+  type SubcategoryPageData,
+} from '../utils/storefront';
+
+/* =========================================================
+   Storefront loaders — server only. Product, category and
+   blog pages render from these; reads go through Next's
+   data cache so a page costs the backend one round of calls
+   per STOREFRONT_REVALIDATE, not one per visitor.
+
+   A missing record resolves null (the page 404s); a backend
+   failure throws, so a cached page keeps being served
+   instead of being replaced by an error. Loaders are wrapped
+   in React's cache() because generateMetadata and the page
+   both ask for the same record.
+
+   Every read is tagged with its section, so saving a product
+   or publishing a post (refreshStorefront) rebuilds the
+   pages, sitemaps and feeds at once instead of waiting out
+   the interval.
+   ========================================================= */
+
+// Pages, sitemaps and feeds export `revalidate = 300` to match; Next reads
+// segment config statically, so they repeat the literal instead of importing it
+export const STOREFRONT_REVALIDATE = 300;
+
+async function cachedJSON(
+  endpoint: string,
+  body?: unknown,
+  section: StorefrontSection = 'catalog'
+): Promise<{ status: number; data: any }> {
+  const res = await apiFetch(endpoint, {
+    method: body === undefined ? 'GET' : 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+    next: { revalidate: STOREFRONT_REVALIDATE, tags: [section] },
+  });
+  const data = await res.json().catch(() => null);
+  return { status: res.status, data };
+}
+
+const list = (data: any, key?: string): any[] => (Array.isArray(data) ? data : key && Array.isArray(data?.[key]) ? data[key] : []);
+
+const ok = (r: { status: number }) => r.status >= 200 && r.status < 300;
+
+function required(r: { status: number; data: any }, what: string) {
+  if (!ok(r)) throw new Error(`${what} ${r.status}`);
+  return r.data;
+}
+
+export async function loadNavItems(): Promise<NavCategory[]> {
+  return list(required(await cachedJSON('show_nav_items'), 'show_nav_items'));
+}
+
+/** /api/show-product/ rows: price, stock and timestamps for every product. */
+export async function loadProductList(): Promise<any[]> {
+  return list(required(await cachedJSON('show-product'), 'show-product'), 'products');
+}
+
+type MenuLocation = { category: NavCategory; subcategory: NavSubcategory };
+
+/** Product id → the first place it appears in the menu; that's its canonical URL. */
+export function menuLocations(nav: NavCategory[]) {
+  const found = new Map<string, MenuLocation>();
+  for (const category of nav) {
+    for (const subcategory of category.subcategories || []) {
+      for (const p of subcategory.products || []) {
+        if (!found.has(String(p.id))) found.set(String(p.id), { category, subcategory });
+      }
+    }
+  }
+  return found;
+}
+
+/* ===== PRODUCT ===== */
+
+const isApproved = (c: any) => ['approved', 'active'].includes(String(c?.status || '').toLowerCase());
+
+export const loadProductPage = cache(async (productId: string): Promise<ProductPageData | null> => {
+  const post = (endpoint: string) => cachedJSON(endpoint, { product_id: productId });
+  const [basic, other, variant, shipping, seo, attributes, cards, nav, comments] = await Promise.all([
+    post('show_specific_product'),
+    post('show_product_other_details'),
+    post('show_product_variant'),
+    post('show_product_shipping_info'),
+    post('show_product_seo'),
+    post('show_product_attributes'),
+    post('show-product-cards'),
+    loadNavItems(),
+    post('show-product-comment'),
+  ]);
+  if (basic.status === 404 || (ok(basic) && !basic.data?.id)) return null;
+  const productData = required(basic, 'show_specific_product');
+  const variants = ok(variant) ? variant.data || {} : {};
+
+  // Where the product sits in the menu decides its breadcrumb and "related" row
+  let category: NavCategory | null = null;
+  let subcategory: NavCategory['subcategories'][number] | null = null;
+  for (const cat of nav) {
+    for (const sub of cat.subcategories || []) {
+      if ((sub.products || []).some((p) => `${p.id}` === `${productId}`)) {
+        category = cat;
+        subcategory = sub;
+      }
+    }
+  }
+
+  let related: any[] = [];
+  if (subcategory?.products?.length) {
+    const all = await loadProductList().catch(() => []);
+    related = subcategory.products
+      .filter((p: any) => `${p.id}` !== `${productId}`)
+      .slice(0, 4)
+      .map((p: any) => {
+        const full = all.find((item) => `${item.id}` === `${p.id}`);
+        return {
+          ...p,
+          image: full?.image || p.images?.[0]?.url || '/images/img1.jpg',
+          price: full?.price || 'N/A',
+          printing_methods: full?.printing_methods || [],
+          stock_status: full?.stock_status || '',
+          stock_quantity: full?.stock_quantity || 0,
+          category_slug: category?.url,
+          subcategory_slug: subcategory?.url,
+          rating: Number(p?.rating ?? full?.rating ?? 0),
+          rating_count: Number(p?.rating_count ?? full?.rating_count ?? 0),
+        };
+      });
+  }
+
+  const images: string[] = ok(other) && Array.isArray(other.data?.images) ? other.data.images : ['/images/img1.jpg'];
+  return {
+    product: {
+      ...productData,
+      sizes: variants.sizes || [],
+      printing_methods: variants.printing_methods || [],
+      fabric_finish: variants.fabric_finish || [],
+      color_variants: variants.color_variants || [],
+      material_types: variants.material_types || [],
+      add_on_options: variants.add_on_options || [],
+    },
+    images: images.map(apiAssetUrl),
+    attributes: ok(attributes) ? list(attributes.data) : [],
+    shipping: (ok(shipping) && shipping.data) || { processing_time: '3–5' },
+    cards: ok(cards) ? cards.data || {} : {},
+    seo: ok(seo) ? seo.data || {} : {},
+    category: category ? { id: String(category.id), name: category.name, url: category.url } : null,
+    subcategory: subcategory ? { id: String(subcategory.id), name: subcategory.name, url: subcategory.url } : null,
+    related,
+    comments: ok(comments) ? list(comments.data, 'results').filter(isApproved) : [],
+  };
+});
+
+/**
+ * What search indexes beyond the product list: SEO keywords (as tags) and
+ * attribute options. Same requests as the product page, so they share its
+ * cache entries.
+ */
+export async function loadProductSearchFields(productId: string) {
+  const post = (endpoint: string) => cachedJSON(endpoint, { product_id: productId });
+  const [seo, attributes] = await Promise.all([post('show_product_seo'), post('show_product_attributes')]);
+  return {
+    keywords: ok(seo) ? list(seo.data?.meta_keywords).map(String) : [],
+    attributes: ok(attributes) ? list(attributes.data) : [],
+  };
+}
+
+/* ===== CATEGORIES ===== */
+
+export const loadCategoryPage = cache(async (slug: string): Promise<CategoryPageData | null> => {
+  const [nav, cats, hero] = await Promise.all([loadNavItems(), cachedJSON('show-categories'), cachedJSON('hero-banner')]);
+  const matched = nav.find((c) => c.url?.toLowerCase() === slug.toLowerCase());
+  if (!matched) return null;
+
+  const enriched = list(cats.data).find(
+    (c) => String(c.id) === String(matched.id) || c.name?.toLowerCase() === matched.name?.toLowerCase()
+  );
+  return {
+    category: {
+      ...matched,
+      description: enriched?.description ?? matched.description,
+      caption: enriched?.caption ?? matched.caption,
+    },
+    hero: ok(hero) ? list(hero.data, 'images') : [],
+  };
+});
+
+export const loadSubcategoryPage = cache(async (categorySlug: string, subcategorySlug: string): Promise<SubcategoryPageData | null> => {
+  const [nav, stockRows] = await Promise.all([loadNavItems(), loadProductList()]);
+
+  const category = nav.find((c) => c.url === categorySlug);
+  const sub = category?.subcategories?.find((s) => s.url === subcategorySlug);
+  if (!category || !sub?.products?.length) return null;
+
+  return {
+    category: { id: String(category.id), name: category.name, url: category.url },
+    subcategory: { id: String(sub.id), name: sub.name, url: sub.url },
+    // Cards carry the stock badge from show-product
+    products: sub.products.map((prod: any) => {
+      const match = stockRows.find((p) => `${p.id}` === `${prod.id}`);
+      return {
+        id: String(prod.id),
+        name: prod.name ?? 'Unnamed Product',
+        image: prod.images?.[0]?.url || prod.image?.url || match?.image || '/images/img1.jpg',
+        badge: `${match?.stock_status || ''}`.trim() || 'Unknown',
+        rating: Number(prod.rating ?? match?.rating ?? 0),
+        rating_count: Number(prod.rating_count ?? match?.rating_count ?? 0),
+      };
+    }),
+  };
+});
+
+/**
+ * The subcategory's attribute library (admin → Attributes), in the order
+ * the admin arranged it: the filters a listing page offers. Hidden
+ * attributes are left out.
+ */
+export async function loadSubcategoryAttributes(
+  subcategoryId: string
+): Promise<Array<{ name: string; type: string; values: string[] }>> {
+  const res = await cachedJSON(`show-subcat-attributes/?${new URLSearchParams({ subcategory_id: subcategoryId }).toString()}`);
+  if (res.status === 404) return [];
+  const rows = list(required(res, 'show-subcat-attributes'), 'results');
+  return (rows.length ? rows : list(res.data, 'attributes'))
+    .filter((a) => a?.status !== 'hidden')
+    .map((a) => ({
+      name: String(a?.name || '').trim(),
+      type: String(a?.type || 'custom'),
+      values: (Array.isArray(a?.values) ? a.values : Array.isArray(a?.options) ? a.options : [])
+        .map((v: any) => String(v?.name ?? v?.label ?? '').trim())
+        .filter(Boolean),
+    }))
+    .filter((a) => a.name);
+}
+
+/* ===== BLOG ===== */
+
+/**
+ * By blog_id first, then by slug. A rejected frontend key comes back
+ * as `error` so the page can say what to check.
+ */
+export const loadBlogPost = cache(async (idOrSlug: string): Promise<{ post: BlogPost } | { error: string } | null> => {
+  const find = (query: Record<string, string>) =>
+    cachedJSON(`show-specific-blog/?${new URLSearchParams({ ...query, all: '1' }).toString()}`, undefined, 'blog');
+
+  let res = await find({ blog_id: idOrSlug });
+  if (res.status === 404) res = await find({ slug: idOrSlug });
+
+  if (res.status === 404) return null;
+  if (res.status === 401 || res.status === 403) {
+    return { error: 'Unauthorized. Check X-Frontend-Key / CORS config on backend and NEXT_PUBLIC_FRONTEND_KEY on frontend.' };
+  }
+  const data = required(res, 'show-specific-blog') as BlogPost;
+  return { post: { ...data, id: data.blog_id ?? data.id } };
+});
+
+/** Published posts, newest first. */
+export async function loadPublishedBlogs(): Promise<any[]> {
+  const rows = list(required(await cachedJSON('show-all-blogs', undefined, 'blog'), 'show-all-blogs'));
+  const when = (b: any) => Date.parse(b.publishDate || b.created_at || b.created || '') || 0;
+  return rows.filter((b) => String(b.status || '').toLowerCase() === 'published').sort((a, b) => when(b) - when(a));
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from './totp';
+
+// RFC 6238 appendix B: ASCII "12345678901234567890", SHA-1, truncated to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const AT = 1111111109 * 1000; // step 37037036 → 081804
+const STEP = 37037036;
+
+describe('verifyTotp', () => {
+  it('accepts the RFC test vector and returns its step', async () => {
+    expect(await verifyTotp(SECRET, '081804', 0, AT)).toBe(STEP);
+    expect(await verifyTotp(SECRET, '081 804', 0, AT)).toBe(STEP);
+  });
+
+  it('allows one step of clock drift either way, not two', async () => {
+    expect(await verifyTotp(SECRET, '081804', 0, AT + 30_000)).toBe(STEP);
+    expect(await verifyTotp(SECRET, '081804', 0, AT - 30_000)).toBe(STEP);
+    expect(await verifyTotp(SECRET, '081804', 0, AT + 60_000)).toBeNull();
+  });
+
+  it('refuses a code from a step already used', async () => {
+    expect(await verifyTotp(SECRET, '081804', STEP, AT)).toBeNull();
+    expect(await verifyTotp(SECRET, '081804', STEP - 1, AT)).toBe(STEP);
+  });
+
+  it('rejects malformed codes and a missing secret', async () => {
+    expect(await verifyTotp(SECRET, '81804', 0, AT)).toBeNull();
+    expect(await verifyTotp(SECRET, 'abcdef', 0, AT)).toBeNull();
+    expect(await verifyTotp('', '081804', 0, AT)).toBeNull();
+  });
+});
+
+describe('recovery codes', () => {
+  it('hashes the same code the same way however it is typed', async () => {
+    const [code] = generateRecoveryCodes(1);
+    expect(code).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}-[a-z2-9]{4}$/);
+    expect(await hashRecoveryCode(` ${code.toUpperCase().replace(/-/g, '')} `)).toBe(await hashRecoveryCode(code));
+  });
+});
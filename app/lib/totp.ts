@@ -0,0 +1,102 @@
+/* =========================================================
+   TOTP (RFC 6238) for admin two-factor authentication.
+   30s steps, 6 digits, SHA-1 — what every authenticator app
+   expects. Recovery codes are stored only as SHA-256 hashes.
+   ========================================================= */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_ISSUER = process.env.ADMIN_TOTP_ISSUER || 'Creative Prints Admin';
+export const RECOVERY_CODE_COUNT = 10;
+
+/* ===== Encoding ===== */
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const b of bytes) {
+    value = (value << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    value = (value << 5) | BASE32.indexOf(ch);
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+const randomBytes = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+
+/* ===== Codes ===== */
+
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+export const otpauthUrl = (secret: string, account: string) =>
+  `otpauth://totp/${encodeURIComponent(`${TOTP_ISSUER}:${account}`)}?secret=${secret}` +
+  `&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, [
+    'sign',
+  ]);
+  const msg = new Uint8Array(8);
+  new DataView(msg.buffer).setBigUint64(0, BigInt(counter));
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, msg));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const bin =
+    ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(bin % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * The time step a code belongs to, or null. Accepts the previous/next step too,
+ * so slightly skewed phone clocks still work; steps up to `lastStep` (the last
+ * one accepted for this admin) are refused, so a code only works once.
+ */
+export async function verifyTotp(secret: string, code: string, lastStep = 0, at = Date.now()): Promise<number | null> {
+  const clean = String(code || '').replace(/\s+/g, '');
+  if (!secret || !/^\d{6}$/.test(clean)) return null;
+  const counter = Math.floor(at / 1000 / STEP_SECONDS);
+  for (const drift of [-1, 0, 1]) {
+    const step = counter + drift;
+    if (step > lastStep && (await hotp(secret, step)) === clean) return step;
+  }
+  return null;
+}
+
+/* ===== Recovery codes ===== */
+
+// "abcd-efgh-ijkl" style, unambiguous lowercase alphabet
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(12), (b) => alphabet[b % alphabet.length]).join('');
+    return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+  });
+}
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = String(code || '').trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,180 @@
+import { cache } from 'react';
+import { API_BASE_URL } from '../utils/api';
+import { backendHeaders } from './adminSession';
+import { loadEmailTemplates, sendTemplate } from './notifications';
+import { backendGet } from './orderAccess';
+import { loadSearchHits, priceOf } from './search';
+import { absoluteUrl } from '../utils/storefront';
+import type { EmailTemplateId } from '../utils/emailTemplates';
+import {
+  DEFAULT_WISHLIST_ALERTS,
+  normalizeWishlist,
+  wishlistAlertFor,
+  type SharedWishlist,
+  type WishlistAlertKind,
+  type WishlistAlertPrefs,
+  type WishlistSnapshot,
+} from '../utils/wishlist';
+
+/* =========================================================
+   Wishlists — server only: the public shared-list lookup and
+   the back-in-stock / price-drop emails.
+
+   Alerts work from snapshots: every wishlisted product keeps
+   the price and stock the last sweep saw, and an email goes
+   out only when a sweep finds it changed for the better. A
+   sweep runs whenever the admin refreshes the catalog, and
+   from a scheduler (POST /api/wishlist/alerts) for stock that
+   changes any other way.
+   ========================================================= */
+
+/* ===== SHARED LISTS ===== */
+
+/** The list behind a share link; null once the owner stops sharing. Cached per request for generateMetadata. */
+export const loadSharedWishlist = cache(async (token: string): Promise<SharedWishlist | null> => {
+  const { status, data } = await backendGet('/api/show-shared-wishlist/', { token });
+  if (status === 404) return null;
+  if (status !== 200) throw new Error(`show-shared-wishlist ${status}`);
+  return {
+    owner_name: String(data?.owner_name || '').trim(),
+    product_ids: normalizeWishlist(data).items.map((i) => i.product_id),
+  };
+});
+
+/* ===== ALERTS ===== */
+
+type WatchedItem = WishlistSnapshot & { product_id: string };
+
+type Watcher = {
+  firebase_uid: string;
+  email: string;
+  name: string;
+  alerts: WishlistAlertPrefs;
+  items: WatchedItem[];
+};
+
+type AlertItem = { product_id: string; was: number | null; now: WishlistSnapshot };
+
+const ALERT_TEMPLATES: Record<WishlistAlertKind, EmailTemplateId> = {
+  back_in_stock: 'wishlist_back_in_stock',
+  price_drop: 'wishlist_price_drop',
+};
+
+const money = (n: number | null) => `AED ${(n ?? 0).toFixed(2)}`;
+
+const num = (v: unknown) => (v === null || v === undefined || v === '' || !Number.isFinite(Number(v)) ? null : Number(v));
+
+function normalizeWatcher(row: any): Watcher | null {
+  const firebase_uid = String(row?.firebase_uid || '').trim();
+  if (!firebase_uid) return null;
+  const { alerts } = normalizeWishlist({ alerts: row?.alerts ?? DEFAULT_WISHLIST_ALERTS });
+  return {
+    firebase_uid,
+    email: String(row?.email || '').trim(),
+    name: String(row?.name || row?.display_name || '').trim(),
+    alerts,
+    items: (Array.isArray(row?.items) ? row.items : [])
+      .map((i: any) => ({
+        product_id: String(i?.product_id ?? '').trim(),
+        price: num(i?.price),
+        in_stock: typeof i?.in_stock === 'boolean' ? i.in_stock : true,
+      }))
+      .filter((i: WatchedItem) => i.product_id),
+  };
+}
+
+// What the shopper pays and whether they can buy it; same rules as the listing cards
+function currentState(row: any): WishlistSnapshot {
+  const { price, sale } = priceOf(row);
+  return { price: sale ?? price, in_stock: !String(row?.stock_status || '').toLowerCase().includes('out') };
+}
+
+async function saveSnapshots(snapshots: Array<WatchedItem & { firebase_uid: string }>) {
+  const res = await fetch(`${API_BASE_URL}/api/save-wishlist-snapshots/`, {
+    method: 'POST',
+    headers: backendHeaders({ 'Content-Type': 'application/json' }),
+    cache: 'no-store',
+    body: JSON.stringify({ snapshots }),
+  });
+  if (!res.ok) throw new Error(`save-wishlist-snapshots ${res.status}`);
+}
+
+async function sweep() {
+  // Straight from the backend: the catalog cache may be the very thing that was just dropped
+  const [watchers, products] = await Promise.all([
+    backendGet('/api/show-wishlist-watchers/'),
+    backendGet('/api/show-product/'),
+  ]);
+  if (watchers.status !== 200) throw new Error(`show-wishlist-watchers ${watchers.status}`);
+  if (products.status !== 200) throw new Error(`show-product ${products.status}`);
+
+  const rows: any[] = Array.isArray(products.data) ? products.data : products.data?.products || [];
+  const now = new Map(rows.map((r) => [String(r?.id ?? r?.product_id), currentState(r)]));
+  const list: Watcher[] = (Array.isArray(watchers.data) ? watchers.data : watchers.data?.watchers || [])
+    .map(normalizeWatcher)
+    .filter(Boolean);
+
+  const changed: Array<WatchedItem & { firebase_uid: string }> = [];
+  const due: Array<{ watcher: Watcher; kind: WishlistAlertKind; items: AlertItem[] }> = [];
+
+  for (const watcher of list) {
+    const found: Record<WishlistAlertKind, AlertItem[]> = { back_in_stock: [], price_drop: [] };
+    for (const item of watcher.items) {
+      const state = now.get(item.product_id);
+      if (!state) continue; // no longer sold; the list page shows it's gone
+      if (state.price !== item.price || state.in_stock !== item.in_stock) {
+        changed.push({ firebase_uid: watcher.firebase_uid, product_id: item.product_id, ...state });
+      }
+      const kind = wishlistAlertFor(item, state);
+      if (kind && watcher.alerts[kind]) found[kind].push({ product_id: item.product_id, was: item.price, now: state });
+    }
+    for (const kind of Object.keys(found) as WishlistAlertKind[]) {
+      if (found[kind].length) due.push({ watcher, kind, items: found[kind] });
+    }
+  }
+
+  let sent = 0;
+  if (due.length) {
+    const [templates, hits] = await Promise.all([
+      loadEmailTemplates(),
+      loadSearchHits(Array.from(new Set(due.flatMap((d) => d.items.map((i) => i.product_id))))),
+    ]);
+    const byId = new Map(hits.map((h) => [h.id, h]));
+    for (const { watcher, kind, items } of due) {
+      const products = items
+        .filter((i) => byId.has(i.product_id))
+        .map((i) => {
+          const hit = byId.get(i.product_id)!;
+          const price = kind === 'price_drop' ? `: ${money(i.now.price)} (was ${money(i.was)})` : '';
+          return `${hit.name}${price}\n${absoluteUrl(hit.path)}`;
+        });
+      if (!products.length) continue;
+      const ok = await sendTemplate(
+        ALERT_TEMPLATES[kind],
+        watcher.email,
+        {
+          customer_name: watcher.name || 'there',
+          products: products.join('\n\n'),
+          wishlist_url: absoluteUrl('/wishlist'),
+        },
+        templates
+      );
+      if (ok) sent++;
+    }
+  }
+
+  // Saved after the emails: if this fails the next sweep may repeat an alert, but never miss one
+  if (changed.length) await saveSnapshots(changed);
+  return { checked: list.length, sent };
+}
+
+// One sweep at a time; a second trigger while one runs shares its result
+let running: Promise<{ checked: number; sent: number }> | null = null;
+
+/** Emails every opted-in customer whose wishlist has something back in stock or cheaper. */
+export function sendWishlistAlerts() {
+  running ||= sweep().finally(() => {
+    running = null;
+  });
+  return running;
+}
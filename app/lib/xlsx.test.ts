@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { readXlsx, writeXlsx } from './xlsx';
+
+describe('xlsx', () => {
+  it('reads back what it writes', () => {
+    const rows = [
+      ['sku', 'name', 'price'],
+      ['00123', 'Mug & <Lid>', '12.5'],
+      ['A-2', '', '3'],
+    ];
+    expect(readXlsx(writeXlsx(rows, { numericColumns: new Set([2]) }))).toEqual(rows);
+  });
+
+  it('drops trailing empty rows', () => {
+    expect(readXlsx(writeXlsx([['a'], [''], ['']]))).toEqual([['a']]);
+  });
+
+  it('rejects sheets with rows or columns beyond the limits', () => {
+    const tall = Array.from({ length: 10_001 }, (_, i) => [String(i)]);
+    expect(() => readXlsx(writeXlsx(tall))).toThrow('Sheets up to 10000 rows');
+    expect(() => readXlsx(writeXlsx([Array.from({ length: 501 }, () => 'x')]))).toThrow('Sheets up to 500 columns');
+  });
+
+  it('refuses a file that inflates past the unpacked size limit', () => {
+    const bomb = writeXlsx([['x'.repeat(51 * 1024 * 1024)]]);
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(() => readXlsx(bomb)).toThrow('too large once unpacked');
+  });
+
+  it('rejects files that are not zips', () => {
+    expect(() => readXlsx(Buffer.from('sku,name\n1,Mug'))).toThrow('Not a valid .xlsx file');
+  });
+});
@@ -0,0 +1,283 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+
+/* =========================================================
+   Minimal XLSX for catalog import/export — server only.
+   Reads the first worksheet of a workbook as a grid of
+   strings and writes a single-sheet workbook. Formulas,
+   dates, styles and merged cells are out of scope: cells
+   come back as the value Excel last saved.
+   ========================================================= */
+
+// Uploads are untrusted: a small zip can inflate to gigabytes, and a cell
+// reference like A9999999 would otherwise allocate a huge sparse grid
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+const MAX_ROWS = 10_000;
+const MAX_COLUMNS = 500;
+
+/* ===== Zip ===== */
+
+type ZipEntry = { name: string; data: Buffer };
+
+const u16 = (n: number) => {
+  const b = Buffer.alloc(2);
+  b.writeUInt16LE(n);
+  return b;
+};
+const u32 = (n: number) => {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(n >>> 0);
+  return b;
+};
+
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const fileName = Buffer.from(name, 'utf8');
+    const packed = deflateRawSync(data);
+    const crc = crc32(data);
+    // version, flags (bit 11 = UTF-8 names), method 8 = deflate, time, date
+    const common = Buffer.concat([u16(20), u16(0x0800), u16(8), u16(0), u16(0x21), u32(crc), u32(packed.length), u32(data.length), u16(fileName.length), u16(0)]);
+    const local = Buffer.concat([u32(0x04034b50), common, fileName, packed]);
+    central.push(Buffer.concat([u32(0x02014b50), u16(20), common, u16(0), u16(0), u16(0), u32(0), u32(offset), fileName]));
+    locals.push(local);
+    offset += local.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.concat([u32(0x06054b50), u16(0), u16(0), u16(entries.length), u16(entries.length), u32(directory.length), u32(offset), u16(0)]);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function unzip(buf: Buffer): Map<string, Buffer> {
+  // End of central directory: last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid .xlsx file');
+
+  const count = buf.readUInt16LE(end + 10);
+  let p = buf.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let unzipped = 0;
+  const tooLarge = () => new Error('The .xlsx file is too large once unpacked');
+
+  for (let i = 0; i < count; i++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) throw new Error('Corrupt .xlsx file');
+    const method = buf.readUInt16LE(p + 10);
+    const size = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString('utf8', p + 46, p + 46 + nameLen);
+    p += 46 + nameLen + extraLen + commentLen;
+
+    const start = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const raw = buf.subarray(start, start + size);
+    const room = MAX_UNZIPPED_BYTES - unzipped;
+    let data: Buffer;
+    if (method === 0) data = raw;
+    else if (method === 8) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(1, room) });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException)?.code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+        throw new Error('Corrupt .xlsx file');
+      }
+    } else continue; // other methods don't occur in files saved by Excel, Numbers or LibreOffice
+    unzipped += data.length;
+    if (unzipped > MAX_UNZIPPED_BYTES) throw tooLarge();
+    files.set(name, data);
+  }
+  return files;
+}
+
+/* ===== XML ===== */
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // characters XML 1.0 can't carry at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const unescapeXml = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e: string) => {
+    if (e[0] === '#') return String.fromCodePoint(e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[e.toLowerCase()];
+  });
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1] ?? '';
+
+// All <t> runs inside an element (rich text is split into several)
+const textOf = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((m) => unescapeXml(m[1]))
+    .join('');
+
+const columnIndex = (ref: string) => {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, '')) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+};
+
+const columnName = (index: number) => {
+  let s = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+};
+
+/* ===== Read ===== */
+
+// Excel saves 0.1 + 0.2 as 0.30000000000000004; 15 significant digits is what it displays
+const tidyNumber = (v: string) => {
+  const n = Number(v);
+  return v.trim() !== '' && Number.isFinite(n) ? String(parseFloat(n.toPrecision(15))) : v;
+};
+
+/** First worksheet as rows of cell strings; trailing empty rows are dropped. */
+export function readXlsx(buf: Buffer): string[][] {
+  const files = unzip(buf);
+  const read = (name: string) => files.get(name)?.toString('utf8') || '';
+
+  const workbook = read('xl/workbook.xml');
+  const firstSheet = workbook.match(/<sheet\s[^>]*>/)?.[0] || '';
+  const relId = attr(firstSheet, 'r:id');
+  const rels = read('xl/_rels/workbook.xml.rels');
+  const rel = Array.from(rels.matchAll(/<Relationship\s[^>]*>/g)).find((m) => attr(m[0], 'Id') === relId)?.[0] || '';
+  const target = attr(rel, 'Target').replace(/^\/?(xl\/)?/, '');
+  const sheet = read(`xl/${target || 'worksheets/sheet1.xml'}`);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const shared = Array.from(read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)).map((m) => textOf(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const r = Number(attr(rowMatch[1], 'r'));
+    const rowIndex = r > 0 ? r - 1 : rows.length;
+    if (rowIndex >= MAX_ROWS) throw new Error(`Sheets up to ${MAX_ROWS} rows`);
+    const row: string[] = [];
+    let next = 0;
+    for (const cell of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cell[1], 'r');
+      const col = ref ? columnIndex(ref) : next;
+      if (col >= MAX_COLUMNS) throw new Error(`Sheets up to ${MAX_COLUMNS} columns`);
+      if (col < 0) throw new Error('Corrupt .xlsx file');
+      next = col + 1;
+      const type = attr(cell[1], 't');
+      const body = cell[2] || '';
+      const v = unescapeXml(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+      let value: string;
+      if (type === 's') value = shared[Number(v)] ?? '';
+      else if (type === 'inlineStr') value = textOf(body);
+      else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'str' || type === 'e') value = v;
+      else value = tidyNumber(v);
+      row[col] = value;
+    }
+    rows[rowIndex] = Array.from(row, (c) => c ?? '');
+  }
+
+  const grid = Array.from(rows, (r) => r ?? []);
+  while (grid.length && grid[grid.length - 1].every((c) => !c.trim())) grid.pop();
+  return grid;
+}
+
+/* ===== Write ===== */
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * One-sheet workbook. Cells are written as text, except in
+ * `numericColumns` where numbers stay numbers (so SKUs like
+ * "00123" keep their leading zeros). The first row is frozen.
+ */
+export function writeXlsx(rows: string[][], options: { sheetName?: string; numericColumns?: Set<number> } = {}): Buffer {
+  const sheetName = escapeXml((options.sheetName || 'Sheet1').replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+  const numeric = options.numericColumns || new Set<number>();
+
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === '') return '';
+          if (r > 0 && numeric.has(c) && NUMERIC.test(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+          return `<c r="${ref}" t="inlineStr"${r === 0 ? ' s="1"' : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`, 'utf8');
+  const NS = 'http://schemas.openxmlformats.org';
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      data: xml(
+        `<Types xmlns="${NS}/package/2006/content-types">` +
+          `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+          `<Default Extension="xml" ContentType="application/xml"/>` +
+          `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+          `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+          `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+          `</Types>`
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(
+        `<Relationships xmlns="${NS}/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="${NS}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+          `</Relationships>`
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xml(
+        `<workbook xmlns="${NS}/spreadsheetml/2006/main" xmlns:r="${NS}/officeDocument/2006/relationships">` +
+          `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(
+        `<Relationships xmlns="${NS}/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="${NS}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+          `<Relationship Id="rId2" Type="${NS}/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+          `</Relationships>`
+      ),
+    },
+    {
+      // style 1 = bold, for the header row
+      name: 'xl/styles.xml',
+      data: xml(
+        `<styleSheet xmlns="${NS}/spreadsheetml/2006/main">` +
+          `<fonts count="2"><font/><font><b/></font></fonts>` +
+          `<fills count="1"><fill/></fills><borders count="1"><border/></borders>` +
+          `<cellStyleXfs count="1"><xf/></cellStyleXfs>` +
+          `<cellXfs count="2"><xf/><xf fontId="1" applyFont="1"/></cellXfs>` +
+          `</styleSheet>`
+      ),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: xml(
+        `<worksheet xmlns="${NS}/spreadsheetml/2006/main">` +
+          `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+          `<sheetData>${sheetRows}</sheetData></worksheet>`
+      ),
+    },
+  ]);
+}
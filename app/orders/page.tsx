@@ -1,8 +1,8 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaUserAlt, FaShoppingCart, FaBoxOpen } from 'react-icons/fa';
+import { FaUserAlt, FaShoppingCart, FaBoxOpen, FaTruck } from 'react-icons/fa';
 import { X } from 'lucide-react';
 
 // Top / Bottom stack (already in your project)
@@ -13,50 +13,23 @@ import HomePageTop from '../components/HomePageTop';
 import Footer from '../components/Footer';
 import { ChatBot } from '../components/ChatBot';
 
-// Your API base
-import { API_BASE_URL } from '../utils/api';
+import { api, cartOwner, ensureDeviceUUID, pageCount, DEFAULT_PAGE_SIZE } from '../utils/apiClient';
+import { downloadInvoice, hasCreditNote, type InvoiceKind } from '../utils/invoices';
+import { useCart } from '../components/CartProvider';
+import OrderTimeline from '../components/OrderTimeline';
+import ShipmentTracking from '../components/ShipmentTracking';
+import { fetchTracking, type Shipment, type TrackingEvent } from '../utils/shipments';
+import {
+  ORDER_STATUS_TONES,
+  customerStatusLabel,
+  normalizeStatusHistory,
+  parseOrderStatus,
+} from '../utils/orderStatus';
 
 /* =============================================================================
    HELPERS
    ========================================================================== */
 
-// Stable per-browser device UUID (guard crypto, localStorage)
-function ensureDeviceUUID(): string {
-  if (typeof window === 'undefined') return '';
-  const KEY = 'cart_user_id';
-  try {
-    const existing = localStorage.getItem(KEY)?.trim();
-    if (existing) return existing;
-    // RFC4122-ish v4 with crypto guard
-    const rng = (typeof crypto !== 'undefined' && crypto.getRandomValues)
-      ? crypto.getRandomValues(new Uint8Array(16))
-      : Array.from({ length: 16 }, () => Math.floor(Math.random() * 256));
-
-    rng[6] = (rng[6] & 0x0f) | 0x40; // version
-    rng[8] = (rng[8] & 0x3f) | 0x80; // variant
-
-    const hex = [...rng].map((b) => b.toString(16).padStart(2, '0')).join('');
-    const id = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
-    localStorage.setItem(KEY, id);
-    return id;
-  } catch {
-    return '';
-  }
-}
-
-// Always send keys/headers
-const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
-function fetchWithKey(url: string, init: RequestInit = {}) {
-  const headers = new Headers(init.headers || {});
-  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
-  headers.set('Accept', 'application/json');
-  try {
-    const deviceUUID = ensureDeviceUUID();
-    if (deviceUUID) headers.set('X-Device-UUID', deviceUUID);
-  } catch {}
-  return fetch(url, { ...init, headers, cache: 'no-store' });
-}
-
 // UI helpers
 function cn(...xs: Array<string | false | undefined>) {
   return xs.filter(Boolean).join(' ');
@@ -71,39 +44,25 @@ function AED(amount: number | string) {
   return `AED: ${(n as number).toFixed(2)}`;
 }
 
-// Admin → User mapping
-function userFacingStatus(raw: string) {
-  const v = (raw || '').toLowerCase();
-  if (v === 'pending' || v === 'processing') return 'In Processing';
-  if (v === 'shipped') return 'Shipped';
-  if (v === 'completed') return 'Completed';
-  if (v === 'cancelled') return 'Cancelled';
-  return raw || '—';
-}
+// Admin → User mapping (shared order state machine, customer wording)
 function statusBadge(raw: string) {
-  const label = userFacingStatus(raw);
+  const status = parseOrderStatus(raw);
   const base = 'inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold';
-  switch (label) {
-    case 'In Processing':
-      return <span className={cn(base, 'bg-yellow-100 text-yellow-800 border border-yellow-200')}>{label}</span>;
-    case 'Shipped':
-      return <span className={cn(base, 'bg-blue-100 text-blue-800 border border-blue-200')}>{label}</span>;
-    case 'Completed':
-      return <span className={cn(base, 'bg-green-100 text-green-800 border border-green-200')}>{label}</span>;
-    case 'Cancelled':
-      return <span className={cn(base, 'bg-gray-100 text-gray-700 border border-gray-200')}>{label}</span>;
-    default:
-      return <span className={cn(base, 'bg-gray-100 text-gray-700 border border-gray-200')}>{label}</span>;
-  }
+  return (
+    <span className={cn(base, status ? ORDER_STATUS_TONES[status] : 'bg-gray-100 text-gray-700 border border-gray-200')}>
+      {customerStatusLabel(raw)}
+    </span>
+  );
 }
 
 /* =============================================================================
    TYPES (mirroring your backend responses)
    ========================================================================== */
 
-// /api/show-specific-user-orders/
+// /api/show-specific-user-orders/ (paginated)
 type OrderItemLite = {
   product_id: string;
+  product_name?: string;
   quantity: number;
   unit_price: string | number;
   total_price: string | number;
@@ -111,14 +70,13 @@ type OrderItemLite = {
 type SpecificOrder = {
   order_id: string;
   date: string; // "YYYY-MM-DD HH:MM:SS"
-  status: 'pending' | 'processing' | 'shipped' | 'completed' | 'cancelled' | string;
+  status: string; // see utils/orderStatus
   total_price: number;
   product_ids: string[];
   items: OrderItemLite[];
+  status_history?: unknown[];
 };
-type SpecificUserOrdersResp = { orders: SpecificOrder[] };
-
-// /api/show-order/
+// /api/show-specific-user-order/ (one order, full detail)
 type HumanAttr = {
   attribute_id: string;
   option_id: string;
@@ -150,8 +108,25 @@ type ShowOrderEntry = {
   Address: { street?: string; city?: string; zip?: string };
   email?: string;
   order_placed_on: string;
+  status_history?: unknown[];
+  shipment?: unknown;
+};
+
+type TrackingState = {
+  order_id: string;
+  shipment: Shipment | null;
+  events: TrackingEvent[];
+  loading: boolean;
+  error: string;
+};
+
+// Customer tabs → status filter sent to the server ("In Processing" covers two states)
+const TAB_STATUS: Record<'all' | 'processing' | 'shipped' | 'completed', string | undefined> = {
+  all: undefined,
+  processing: 'pending,processing',
+  shipped: 'shipped',
+  completed: 'completed',
 };
-type ShowOrderResp = { orders: ShowOrderEntry[] };
 
 type DeliveryInfo = {
   name?: string;
@@ -162,7 +137,7 @@ type DeliveryInfo = {
 };
 
 /* =============================================================================
-   RECEIPT HTML (single source of truth for Download + Print)
+   RECEIPT HTML (printed from the order modal)
    ========================================================================== */
 
 function buildReceiptHTML(
@@ -216,7 +191,7 @@ function buildReceiptHTML(
 <body>
   <h1>Order #${order.order_id}</h1>
   <p class="muted">Date: ${order.date}</p>
-  <p class="muted">Status: ${userFacingStatus(order.status)}</p>
+  <p class="muted">Status: ${customerStatusLabel(order.status)}</p>
 
   <div class="divider"></div>
 
@@ -265,8 +240,10 @@ export default function OrdersPage() {
 
   // Tabs for user: All, In Processing, Shipped, Completed
   const [activeTab, setActiveTab] = useState<'all' | 'processing' | 'shipped' | 'completed'>('all');
+  const [page, setPage] = useState(1);
+  const [count, setCount] = useState(0);
 
-  // Maps from /api/show-order/
+  // Filled per order from /api/show-specific-user-order/ when a receipt is opened
   const [orderDetailMap, setOrderDetailMap] = useState<Record<string, ShowOrderEntry>>({});
   const [nameCache, setNameCache] = useState<Record<string, string>>({}); // product_id -> product_name
 
@@ -278,6 +255,8 @@ export default function OrdersPage() {
   // Modal a11y: focus trap
   const modalRef = useRef<HTMLDivElement | null>(null);
   const lastFocusedRef = useRef<HTMLElement | null>(null);
+  const viewingRef = useRef(''); // order whose detail fetch may still be in flight
+  const [tracking, setTracking] = useState<TrackingState | null>(null);
 
   // Respect reduced motion
   const prefersReducedMotion =
@@ -288,8 +267,12 @@ export default function OrdersPage() {
   // announce area
   const [announce, setAnnounce] = useState('Loading orders…');
 
-  // Initial fetch: device-scoped orders + full order lookups for enrichment
+  // Orders follow the cart owner: the account when signed in, else this device
+  const { accountUid, accountReady } = useCart();
+
+  // One page of owner-scoped orders; the server filters by tab
   useEffect(() => {
+    if (!accountReady) return;
     let canceled = false;
 
     const run = async () => {
@@ -298,38 +281,23 @@ export default function OrdersPage() {
         setError(null);
         setAnnounce('Loading orders…');
 
-        const device_uuid = ensureDeviceUUID();
-        if (!device_uuid) {
+        if (!ensureDeviceUUID()) {
           throw new Error('Missing device ID');
         }
 
-        // 1) specific-user-orders (device filter)
-        const url = `${API_BASE_URL}/api/show-specific-user-orders/?device_uuid=${encodeURIComponent(
-          device_uuid
-        )}`;
-        const res = await fetchWithKey(url, { method: 'GET' });
-        const data: SpecificUserOrdersResp = await res.json();
-        if (!res.ok) throw new Error(typeof data === 'string' ? data : 'Failed to load orders');
-        const list = Array.isArray(data?.orders) ? data.orders : [];
-        if (!canceled) setOrders(list);
-
-        // 2) show-order (for names, delivery, etc.)
-        const res2 = await fetchWithKey(`${API_BASE_URL}/api/show-order/`, { method: 'GET' });
-        const allOrders: ShowOrderResp = await res2.json();
-        if (res2.ok && Array.isArray(allOrders?.orders)) {
-          const map: Record<string, ShowOrderEntry> = {};
-          const localNameCache: Record<string, string> = {};
-          for (const entry of allOrders.orders) {
-            map[entry.orderID] = entry;
-            entry.item?.detail?.forEach((d) => {
-              if (d?.product_id && d?.product_name) localNameCache[d.product_id] = d.product_name;
-            });
-          }
-          if (!canceled) {
-            setOrderDetailMap(map);
-            setNameCache((prev) => ({ ...localNameCache, ...prev }));
-          }
-        }
+        // specific-user-orders (account or device filter); items carry product names
+        const data = await api.showMyOrders<SpecificOrder>({ page, status: TAB_STATUS[activeTab] });
+        if (canceled) return;
+        setOrders(data.results);
+        setCount(data.count);
+
+        const localNameCache: Record<string, string> = {};
+        data.results.forEach((o) =>
+          (o.items || []).forEach((it) => {
+            if (it.product_id && it.product_name) localNameCache[it.product_id] = it.product_name;
+          })
+        );
+        setNameCache((prev) => ({ ...prev, ...localNameCache }));
 
         if (!canceled) setAnnounce('Orders loaded.');
       } catch (e: any) {
@@ -357,19 +325,9 @@ export default function OrdersPage() {
     return () => {
       canceled = true;
     };
-  }, []);
+  }, [accountUid, accountReady, activeTab, page]);
 
-  // Filtered list by tab (user semantics)
-  const filtered = useMemo(() => {
-    if (activeTab === 'all') return orders;
-    if (activeTab === 'processing') {
-      return orders.filter((o) => {
-        const s = (o.status || '').toLowerCase();
-        return s === 'pending' || s === 'processing';
-      });
-    }
-    return orders.filter((o) => (o.status || '').toLowerCase() === activeTab);
-  }, [orders, activeTab]);
+  const pages = pageCount({ count, page_size: DEFAULT_PAGE_SIZE });
 
   // Build items display for table/cards
   function itemsDisplay(o: SpecificOrder) {
@@ -386,25 +344,68 @@ export default function OrdersPage() {
     return (o.items || []).reduce((acc, it) => acc + (Number(it.quantity) || 0), 0);
   }
 
-  // Modal open/close + delivery fill
-  const onView = (o: SpecificOrder) => {
+  // Modal open/close + delivery fill (detail is fetched once per order)
+  const deliveryFrom = (entry: ShowOrderEntry): DeliveryInfo => ({
+    name: entry?.UserName || '',
+    email: entry?.email || '',
+    street: entry?.Address?.street || '',
+    city: entry?.Address?.city || '',
+    zip: entry?.Address?.zip || '',
+  });
+
+  const onView = async (o: SpecificOrder) => {
     lastFocusedRef.current = document.activeElement as HTMLElement | null;
+    viewingRef.current = o.order_id;
     setSelectedOrder(o);
-    const entry = orderDetailMap[o.order_id];
-    if (entry) {
-      setDelivery({
-        name: entry?.UserName || '',
-        email: entry?.email || '',
-        street: entry?.Address?.street || '',
-        city: entry?.Address?.city || '',
-        zip: entry?.Address?.zip || '',
+    const cached = orderDetailMap[o.order_id];
+    setDelivery(cached ? deliveryFrom(cached) : null);
+    setModalOpen(true);
+    if (cached) return;
+
+    try {
+      const entry = await api.showMyOrder<ShowOrderEntry>(o.order_id);
+      if (!entry?.orderID) return;
+      setOrderDetailMap((prev) => ({ ...prev, [o.order_id]: entry }));
+      const names: Record<string, string> = {};
+      entry.item?.detail?.forEach((d) => {
+        if (d?.product_id && d?.product_name) names[d.product_id] = d.product_name;
       });
-    } else {
-      setDelivery(null);
+      setNameCache((prev) => ({ ...prev, ...names }));
+      if (viewingRef.current === o.order_id) setDelivery(deliveryFrom(entry));
+    } catch (err) {
+      console.warn('Order detail fetch failed:', err);
     }
-    setModalOpen(true);
   };
 
+  // Live carrier scans for orders that have left (or may have left) the shop
+  const trackedId = selectedOrder?.order_id || '';
+  const trackable =
+    !!trackedId &&
+    (!!orderDetailMap[trackedId]?.shipment ||
+      ['shipped', 'completed'].includes(parseOrderStatus(selectedOrder?.status) || ''));
+
+  useEffect(() => {
+    if (!modalOpen || !trackable) return;
+    const controller = new AbortController();
+    setTracking({ order_id: trackedId, shipment: null, events: [], loading: true, error: '' });
+    fetchTracking(trackedId, cartOwner(), controller.signal)
+      .then(({ shipment, events, error }) => {
+        if (viewingRef.current !== trackedId) return;
+        setTracking({ order_id: trackedId, shipment, events, loading: false, error });
+      })
+      .catch((err) => {
+        if (controller.signal.aborted || viewingRef.current !== trackedId) return;
+        setTracking({
+          order_id: trackedId,
+          shipment: null,
+          events: [],
+          loading: false,
+          error: err?.message || 'Tracking is not available right now.',
+        });
+      });
+    return () => controller.abort();
+  }, [modalOpen, trackable, trackedId]);
+
   const closeModal = useCallback(() => {
     setModalOpen(false);
     // return focus
@@ -447,27 +448,9 @@ export default function OrdersPage() {
   }, [modalOpen, closeModal]);
 
   /* ============================
-     Print / Download — SAME HTML
+     Print (HTML) / Download (PDF)
      ============================ */
 
-  function downloadReceiptHTML(order: SpecificOrder) {
-    try {
-      const entry = orderDetailMap[order.order_id];
-      const html = buildReceiptHTML(order, entry, nameCache);
-      const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `receipt-${order.order_id}.html`;
-      a.click();
-      URL.revokeObjectURL(url);
-    } catch {
-      loadToastify().then((Toast) =>
-        Toast({ text: 'Failed to download receipt', duration: 2500, style: { background: '#d32f2f' } }).showToast()
-      );
-    }
-  }
-
   // Hidden-iframe approach avoids popup blockers and prints the exact same HTML
   function printReceipt(order: SpecificOrder) {
     try {
@@ -504,6 +487,18 @@ export default function OrdersPage() {
     }
   }
 
+  function saveInvoice(orderId: string, kind: InvoiceKind) {
+    downloadInvoice(orderId, kind, cartOwner()).catch((err) =>
+      loadToastify().then((Toast) =>
+        Toast({
+          text: err instanceof Error ? err.message : 'Failed to download the invoice',
+          duration: 2500,
+          style: { background: '#d32f2f' },
+        }).showToast()
+      )
+    );
+  }
+
   // Build the exact line:
   // ProductName (Attribute 1:Selected Option, Attribute 2:Selected Option): Product Quantity x $(Base + Delta1, Delta2) = $Total
   function buildDetailLine(
@@ -585,7 +580,10 @@ export default function OrdersPage() {
               role="tab"
               aria-selected={activeTab === (t.key as any)}
               aria-controls={`panel-${t.key}`}
-              onClick={() => setActiveTab(t.key as any)}
+              onClick={() => {
+                setActiveTab(t.key as any);
+                setPage(1);
+              }}
               className={cn(
                 'px-4 py-2 rounded-full text-sm border transition focus:outline-none focus-visible:ring-2 focus-visible:ring-red-400',
                 activeTab === t.key
@@ -626,12 +624,12 @@ export default function OrdersPage() {
                   <tr>
                     <td colSpan={6} className="px-4 py-8 text-center text-red-600">{error}</td>
                   </tr>
-                ) : filtered.length === 0 ? (
+                ) : orders.length === 0 ? (
                   <tr>
                     <td colSpan={6} className="px-4 py-8 text-center text-gray-500">No orders found.</td>
                   </tr>
                 ) : (
-                  filtered.map((o) => (
+                  orders.map((o) => (
                     <tr key={o.order_id} className="hover:bg-gray-50">
                       <td className="px-4 py-3 font-medium text-gray-900">{o.order_id}</td>
                       <td className="px-4 py-3 text-gray-700">{itemsDisplay(o)}</td>
@@ -660,10 +658,10 @@ export default function OrdersPage() {
             <div className="p-6 text-center bg-white rounded-xl border shadow-sm text-gray-500">Loading…</div>
           ) : error ? (
             <div className="p-6 text-center bg-white rounded-xl border shadow-sm text-red-600">{error}</div>
-          ) : filtered.length === 0 ? (
+          ) : orders.length === 0 ? (
             <div className="p-6 text-center bg-white rounded-xl border shadow-sm text-gray-500">No orders found.</div>
           ) : (
-            filtered.map((o) => (
+            orders.map((o) => (
               <button
                 key={o.order_id}
                 onClick={() => onView(o)}
@@ -682,6 +680,29 @@ export default function OrdersPage() {
             ))
           )}
         </div>
+
+        {/* Pagination */}
+        {!loading && !error && pages > 1 && (
+          <nav className="mt-6 flex items-center justify-center gap-3 text-sm" aria-label="Order pages">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              className="px-3 py-1.5 rounded-md border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-gray-600">
+              Page {page} of {pages}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(pages, p + 1))}
+              disabled={page >= pages}
+              className="px-3 py-1.5 rounded-md border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </nav>
+        )}
       </main>
 
       {/* Bottom stack */}
@@ -816,8 +837,35 @@ export default function OrdersPage() {
                       <div className="flex flex-col sm:flex-row sm:items-center gap-4">
                         <div>{statusBadge(selectedOrder.status)}</div>
                       </div>
+                      <div className="mt-4">
+                        <OrderTimeline
+                          audience="customer"
+                          events={normalizeStatusHistory(
+                            selectedOrder.status_history ?? orderDetailMap[selectedOrder.order_id]?.status_history
+                          )}
+                        />
+                      </div>
                     </section>
 
+                    {/* Tracking */}
+                    {tracking?.order_id === selectedOrder.order_id && (tracking.shipment || tracking.loading) && (
+                      <section>
+                        <h3 className="text-lg font-semibold flex items-center gap-2 text-gray-700 mb-3">
+                          <FaTruck aria-hidden /> Tracking
+                        </h3>
+                        {tracking.shipment ? (
+                          <ShipmentTracking
+                            shipment={tracking.shipment}
+                            events={tracking.events}
+                            loading={tracking.loading}
+                            error={tracking.error}
+                          />
+                        ) : (
+                          <p className="text-sm text-gray-500">Loading tracking…</p>
+                        )}
+                      </section>
+                    )}
+
                     {/* Actions */}
                     <div className="flex flex-col sm:flex-row gap-3 justify-end">
                       <button
@@ -826,11 +874,21 @@ export default function OrdersPage() {
                       >
                         Print Receipt
                       </button>
+                      {hasCreditNote(selectedOrder.status) && (
+                        <button
+                          type="button"
+                          onClick={() => saveInvoice(selectedOrder.order_id, 'credit_note')}
+                          className="px-4 py-2 rounded-md border border-gray-300 text-center hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-red-300"
+                        >
+                          Download Credit Note
+                        </button>
+                      )}
                       <button
-                        onClick={() => downloadReceiptHTML(selectedOrder)}
-                        className="px-4 py-2 rounded-md bg-[#891F1A] text-white hover:bg-[#6e1815] focus:outline-none focus-visible:ring-2 focus-visible:ring-red-300"
+                        type="button"
+                        onClick={() => saveInvoice(selectedOrder.order_id, 'invoice')}
+                        className="px-4 py-2 rounded-md bg-[#891F1A] text-white text-center hover:bg-[#6e1815] focus:outline-none focus-visible:ring-2 focus-visible:ring-red-300"
                       >
-                        Download Receipt
+                        Download Invoice (PDF)
                       </button>
                     </div>
                   </motion.div>
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import MobileTopBar from '../../components/HomePageTop';
+import TempHeader from '../../components/TempHeader';
+import Footer from '../../components/Footer';
+import { api, isApiError, type ApiTrackedOrder } from '../../utils/apiClient';
+import { orderTrackingUrl } from '../../utils/checkout';
+import { PAYMENT_STATUS_LABELS, type PaymentStatus } from '../../utils/payments';
+import { customerStatusLabel, normalizeStatusHistory } from '../../utils/orderStatus';
+import OrderTimeline from '../../components/OrderTimeline';
+
+/* =========================================================
+   Order lookup for guests — order number + email, as sent in
+   the tracking link after a guest checkout.
+   ========================================================= */
+
+const AED = (v: string | number) => `AED ${(parseFloat(String(v ?? '0')) || 0).toFixed(2)}`;
+
+const cleanOrderId = (v: string) => v.trim().replace(/^#/, '');
+
+function TrackOrder() {
+  const router = useRouter();
+  const params = useSearchParams();
+  const orderIdParam = params.get('order_id') || '';
+  const emailParam = params.get('email') || '';
+
+  const [orderId, setOrderId] = useState(orderIdParam);
+  const [email, setEmail] = useState(emailParam);
+  const [order, setOrder] = useState<ApiTrackedOrder | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const lookup = useCallback(async (id: string, mail: string, signal?: AbortSignal) => {
+    setLoading(true);
+    setError('');
+    try {
+      setOrder(await api.trackOrder({ order_id: cleanOrderId(id), email: mail.trim() }, { signal }));
+    } catch (err) {
+      if (signal?.aborted) return;
+      setOrder(null);
+      setError(
+        isApiError(err) && (err.status === 404 || err.status === 403)
+          ? 'We could not find an order with that number and email.'
+          : 'Could not load the order. Please try again.'
+      );
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, []);
+
+  // Arriving from the emailed link looks the order up straight away
+  useEffect(() => {
+    setOrderId(orderIdParam);
+    setEmail(emailParam);
+    if (!orderIdParam || !emailParam) return;
+    const controller = new AbortController();
+    lookup(orderIdParam, emailParam, controller.signal);
+    return () => controller.abort();
+  }, [orderIdParam, emailParam, lookup]);
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cleanOrderId(orderId) || !email.trim()) return;
+    // keep the URL shareable; the effect above runs the lookup
+    router.replace(orderTrackingUrl(cleanOrderId(orderId), email));
+  };
+
+  const paymentStatus = order?.payment_status as PaymentStatus | undefined;
+
+  return (
+    <main className="max-w-2xl mx-auto py-16 px-4" aria-labelledby="track-heading">
+      <section className="bg-white shadow rounded-lg p-8 space-y-6 text-black">
+        <h1 id="track-heading" className="text-2xl font-semibold text-[#891F1A]">
+          Track your order
+        </h1>
+
+        <form onSubmit={onSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div>
+            <label htmlFor="track-order-id" className="text-sm block">
+              Order number
+            </label>
+            <input
+              id="track-order-id"
+              value={orderId}
+              onChange={(e) => setOrderId(e.target.value)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-gray-50"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="track-email" className="text-sm block">
+              Email used at checkout
+            </label>
+            <input
+              id="track-email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md bg-gray-50"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="py-2 px-5 rounded-md bg-[#891F1A] text-white text-sm font-medium hover:bg-[#6e1815] disabled:opacity-60"
+          >
+            {loading ? 'Looking up…' : 'Track'}
+          </button>
+        </form>
+
+        {error ? (
+          <p className="text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        ) : null}
+
+        {order ? (
+          <div className="border-t pt-4 space-y-4" aria-live="polite">
+            <dl className="text-sm space-y-2">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Order number</dt>
+                <dd className="font-medium">#{order.order_id}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Placed on</dt>
+                <dd className="font-medium">{order.date || '—'}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Status</dt>
+                <dd className="font-medium">{customerStatusLabel(order.status)}</dd>
+              </div>
+              {paymentStatus ? (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Payment</dt>
+                  <dd className="font-medium">{PAYMENT_STATUS_LABELS[paymentStatus] || paymentStatus}</dd>
+                </div>
+              ) : null}
+              {order.delivery?.city ? (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Delivering to</dt>
+                  <dd className="font-medium">
+                    {[order.delivery.city, order.delivery.country].filter(Boolean).join(', ')}
+                  </dd>
+                </div>
+              ) : null}
+            </dl>
+
+            <ul className="divide-y text-sm border rounded-md">
+              {(order.items || []).map((item, i) => (
+                <li key={i} className="flex justify-between gap-4 p-3">
+                  <span>
+                    {item.product_name} × {item.quantity}
+                    {item.selection ? <span className="block text-xs text-gray-500">{item.selection}</span> : null}
+                  </span>
+                  <span className="whitespace-nowrap">{AED(item.total_price)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between p-3 font-semibold">
+                <span>Total</span>
+                <span>{AED(order.total_price)}</span>
+              </li>
+            </ul>
+
+            <OrderTimeline audience="customer" events={normalizeStatusHistory(order.status_history)} />
+          </div>
+        ) : null}
+
+        <p className="text-xs text-gray-500">
+          Have an account?{' '}
+          <Link href="/orders" className="underline">
+            See all your orders
+          </Link>
+          .
+        </p>
+      </section>
+    </main>
+  );
+}
+
+export default function TrackOrderPage() {
+  return (
+    <div
+      className="min-h-screen bg-gray-50 text-black text-[3.5vw] sm:text-base"
+      style={{ fontFamily: 'var(--font-poppins), Arial, Helvetica, sans-serif' }}
+    >
+      <TempHeader />
+      <MobileTopBar />
+      <Suspense fallback={<div className="min-h-[50vh]" />}>
+        <TrackOrder />
+      </Suspense>
+      <Footer />
+    </div>
+  );
+}
@@ -3,6 +3,9 @@
 import AOS from "aos";
 import { useEffect, ReactNode } from "react";
 import { ToastContainer } from "react-toastify";
+import { CartProvider } from "./components/CartProvider";
+import MiniCart from "./components/MiniCart";
+import { WishlistProvider } from "./components/WishlistProvider";
 
 export default function Providers({ children }: { children: ReactNode }) {
   useEffect(() => {
@@ -10,8 +13,9 @@ export default function Providers({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <>
-      {children}
+    <CartProvider>
+      <WishlistProvider>{children}</WishlistProvider>
+      <MiniCart />
       <ToastContainer
         position="top-center"
         autoClose={3000}
@@ -24,6 +28,6 @@ export default function Providers({ children }: { children: ReactNode }) {
         pauseOnHover
         className="z-[9999]"
       />
-    </>
+    </CartProvider>
   );
 }
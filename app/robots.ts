@@ -0,0 +1,20 @@
+import type { MetadataRoute } from 'next';
+import { SITE_URL, absoluteUrl } from './utils/storefront';
+
+// Only the live site is crawlable. Staging and previews set SITE_ENV (or run
+// as a Vercel preview) and shut crawlers out entirely.
+const SITE_ENV = process.env.SITE_ENV || process.env.VERCEL_ENV || process.env.NODE_ENV;
+
+// Signed-in, checkout and API paths have nothing to index
+const PRIVATE_PATHS = ['/admin', '/api/', '/checkout2', '/orders', '/personal-profile', '/wishlist'];
+
+export default function robots(): MetadataRoute.Robots {
+  if (SITE_ENV !== 'production') {
+    return { rules: { userAgent: '*', disallow: '/' } };
+  }
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: PRIVATE_PATHS },
+    sitemap: absoluteUrl('/sitemap.xml'),
+    host: SITE_URL || undefined,
+  };
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import Header from "../components/header";
+import Navbar from "../components/Navbar";
+import LogoSection from "../components/LogoSection";
+import HomePageTop from "../components/HomePageTop";
+import Footer from "../components/Footer";
+import FacetFilters, { SortSelect, activeFilterCount } from "../components/FacetFilters";
+import { SafeImg } from "../components/SafeImage";
+import { searchPath, type SearchFilters, type SearchHit, type SearchResult } from "../utils/search";
+
+type SearchPageClientProps = {
+  filters: SearchFilters;
+  result: SearchResult | null; // null when the index couldn't be loaded
+};
+
+const money = (n: number) => `AED ${n.toFixed(2)}`;
+
+function HitCard({ hit }: { hit: SearchHit }) {
+  const out = hit.stock_status.toLowerCase().includes("out");
+  return (
+    <article className="group relative bg-white rounded-xl shadow-sm hover:shadow-md transition overflow-hidden">
+      {hit.stock_status && (
+        <span
+          className={`absolute top-2 left-2 text-xs px-3 py-1 rounded-full z-10 ${
+            out ? "bg-white/80 text-[#891F1A] font-semibold" : "bg-[#891F1A]/80 text-white"
+          }`}
+        >
+          {hit.stock_status}
+        </span>
+      )}
+      <Link href={hit.path} className="block">
+        <SafeImg
+          src={hit.image}
+          alt={hit.name}
+          className="w-full aspect-square object-cover group-hover:scale-105 transition-transform"
+          width={320}
+          height={320}
+          loading="lazy"
+          onError={(e) => {
+            const img = e.target as HTMLImageElement;
+            img.onerror = null;
+            img.src = "/images/img1.jpg";
+          }}
+        />
+        <div className="p-3">
+          <h3 className="text-sm font-semibold text-gray-900 line-clamp-2">{hit.name}</h3>
+          <p className="text-xs text-gray-500 mt-0.5 truncate">
+            {[hit.subcategory?.name, hit.category?.name].filter(Boolean).join(" • ")}
+          </p>
+          <p className="mt-2 text-sm">
+            {hit.sale_price !== null ? (
+              <>
+                <span className="font-semibold text-[#891F1A]">{money(hit.sale_price)}</span>{" "}
+                <s className="text-xs text-gray-400">{money(hit.price)}</s>
+              </>
+            ) : hit.price > 0 ? (
+              <span className="font-semibold text-gray-900">{money(hit.price)}</span>
+            ) : null}
+          </p>
+          {hit.rating_count > 0 && (
+            <p className="text-xs text-gray-600 mt-1" aria-label={`Rated ${hit.rating} out of 5`}>
+              ★ {hit.rating.toFixed(1)} <span className="text-gray-400">({hit.rating_count})</span>
+            </p>
+          )}
+        </div>
+      </Link>
+    </article>
+  );
+}
+
+/** Results grid with facet sidebar; every change is a new /search URL so results can be shared and reloaded. */
+export default function SearchPageClient({ filters, result }: SearchPageClientProps) {
+  const active = activeFilterCount(filters);
+
+  return (
+    <div className="flex flex-col bg-white" style={{ fontFamily: "var(--font-poppins), Arial, sans-serif" }}>
+      <Header />
+      <LogoSection />
+      <Navbar />
+      <HomePageTop />
+
+      <main className="bg-gradient-to-b from-white via-gray-50 to-gray-100 min-h-screen py-8 px-4 sm:px-10">
+        <header className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+            {filters.q ? (
+              <>
+                Results for <span className="text-[#891F1A]">“{filters.q}”</span>
+              </>
+            ) : (
+              "All products"
+            )}
+          </h1>
+          {result && (
+            <p className="text-sm text-gray-600 mt-1" aria-live="polite">
+              {result.total} product{result.total === 1 ? "" : "s"}
+              {result.corrected && (
+                <>
+                  {" "}
+                  — no exact matches, showing results for{" "}
+                  <Link href={searchPath({ ...filters, q: result.corrected, page: 1 })} className="underline font-medium">
+                    {result.corrected}
+                  </Link>
+                </>
+              )}
+            </p>
+          )}
+        </header>
+
+        {!result ? (
+          <p className="rounded-lg bg-red-50 text-red-700 p-4 text-sm">
+            Search is unavailable right now. Please try again in a moment.
+          </p>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-8">
+            {/* Facets */}
+            <aside className="lg:w-64 shrink-0" aria-label="Filters">
+              <FacetFilters path="/search" facets={result.facets} filters={filters} />
+            </aside>
+
+            {/* Results */}
+            <section className="flex-1 min-w-0" aria-labelledby="search-results-heading">
+              <h2 id="search-results-heading" className="sr-only">
+                Search results
+              </h2>
+              <div className="flex justify-end mb-4">
+                <SortSelect path="/search" filters={filters} />
+              </div>
+
+              {result.hits.length ? (
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {result.hits.map((hit) => (
+                    <HitCard key={hit.id} hit={hit} />
+                  ))}
+                </div>
+              ) : (
+                <div className="rounded-lg bg-white p-8 text-center text-gray-600">
+                  <p className="font-medium">No products match{filters.q ? ` “${filters.q}”` : ""}.</p>
+                  <p className="text-sm mt-1">
+                    {active ? "Try removing a filter." : "Check the spelling or try a more general word."}
+                  </p>
+                </div>
+              )}
+
+              {result.pages > 1 && (
+                <nav className="flex justify-center items-center gap-2 mt-8" aria-label="Pagination">
+                  {result.page > 1 && (
+                    <Link href={searchPath({ ...filters, page: result.page - 1 })} className="px-3 py-1.5 rounded border bg-white text-sm">
+                      ‹ Prev
+                    </Link>
+                  )}
+                  <span className="text-sm text-gray-600">
+                    Page {result.page} of {result.pages}
+                  </span>
+                  {result.page < result.pages && (
+                    <Link href={searchPath({ ...filters, page: result.page + 1 })} className="px-3 py-1.5 rounded border bg-white text-sm">
+                      Next ›
+                    </Link>
+                  )}
+                </nav>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
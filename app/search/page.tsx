@@ -0,0 +1,31 @@
+// Server Component: hits and facet counts come from the search index
+// (lib/search), so the first paint is complete; SearchPageClient turns
+// filter clicks into new URLs, which render here again.
+
+import type { Metadata } from "next";
+import SearchPageClient from "./SearchPageClient";
+import { searchCatalog } from "../lib/search";
+import { parseSearchFilters, toSearchParams, type SearchResult } from "../utils/search";
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+export async function generateMetadata({ searchParams }: { searchParams: SearchParams }): Promise<Metadata> {
+  const { q } = parseSearchFilters(toSearchParams(await searchParams));
+  return {
+    title: { absolute: q ? `Search: ${q}` : "Search products" },
+    // Result pages are endless permutations of the catalog; the products themselves are in the sitemap
+    robots: { index: false, follow: true },
+    alternates: { canonical: "/search" },
+  };
+}
+
+export default async function SearchPage({ searchParams }: { searchParams: SearchParams }) {
+  const filters = parseSearchFilters(toSearchParams(await searchParams));
+  let result: SearchResult | null = null;
+  try {
+    result = await searchCatalog(filters);
+  } catch {
+    // The page says search is unavailable instead of failing outright
+  }
+  return <SearchPageClient filters={filters} result={result} />;
+}
@@ -0,0 +1,7 @@
+import { sitemapXml, xmlResponse } from '../lib/feeds';
+
+export const revalidate = 300;
+
+export async function GET() {
+  return xmlResponse(await sitemapXml('categories'));
+}
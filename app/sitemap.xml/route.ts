@@ -0,0 +1,8 @@
+import { sitemapIndexXml, xmlResponse } from '../lib/feeds';
+
+export const revalidate = 300;
+
+/** Index pointing at one sitemap per section (sitemap-pages.xml, sitemap-products.xml, …). */
+export async function GET() {
+  return xmlResponse(await sitemapIndexXml());
+}
@@ -0,0 +1,98 @@
+import { allowedPathsFor, isAllowedPath } from '../lib/adminAccess';
+
+/* =========================================================
+   Admin notifications — the backend feed (/api/notifications/)
+   as the sidebar, the notifications page and the live stream
+   all see it. Which rows an admin gets depends on the pages
+   their role can open.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type AdminNotification = {
+  notification_id: string;
+  message: string;
+  created_at: string;
+  type: string;
+  status: 'read' | 'unread';
+  source_table: string; // lower-case; comment rows are folded into "product_comment"
+  source_id?: string; // for product_comment this is the comment_id (testimonial_id)
+  order_id?: string;
+  sku?: string;
+  user?: string;
+  meta_status?: 'pending' | 'approved' | 'rejected' | 'hidden'; // inline comment status
+};
+
+/* =========================================================
+   CONSTANTS
+   ========================================================= */
+
+// Backend source → the name it goes by (its access page's label)
+export const NOTIFICATION_SOURCE_LABELS: Record<string, string> = {
+  category: 'Manage Categories',
+  subcategory: 'Manage Categories',
+  orders: 'Orders',
+  product: 'Products Section',
+  inventory: 'Inventory',
+  admin: 'New Account',
+  blog: 'Blog',
+  attributes: 'Attributes',
+  product_comment: 'Product Comments', // virtual source; moderated on the notifications page itself
+};
+
+// …and the admin page that unlocks it
+export const NOTIFICATION_SOURCE_PATHS: Record<string, string> = {
+  category: '/admin/manage-categories',
+  subcategory: '/admin/manage-categories',
+  orders: '/admin/orders',
+  product: '/admin/products',
+  inventory: '/admin/inventory',
+  admin: '/admin/new-account',
+  blog: '/admin/blogView',
+  attributes: '/admin/attributes',
+  product_comment: '/admin/notifications',
+};
+
+export const notificationSourceLabel = (src: string) => NOTIFICATION_SOURCE_LABELS[src.toLowerCase()] || src;
+
+/* =========================================================
+   NORMALISERS & ACCESS
+   ========================================================= */
+
+/** Backend row → AdminNotification, or null for sources no admin page handles. */
+export function normalizeAdminNotification(raw: any): AdminNotification | null {
+  if (!raw?.notification_id) return null;
+  let src = String(raw.source_table || '').toLowerCase();
+  if (String(raw.type || '').toLowerCase() === 'comment' || src === 'producttestimonial') src = 'product_comment';
+  if (!(src in NOTIFICATION_SOURCE_PATHS)) return null;
+  return {
+    ...raw,
+    notification_id: String(raw.notification_id),
+    message: String(raw.message || ''),
+    created_at: String(raw.created_at || ''),
+    type: String(raw.type || ''),
+    status: raw.status === 'read' ? 'read' : 'unread',
+    source_table: src,
+  };
+}
+
+export const normalizeAdminNotifications = (raw: unknown): AdminNotification[] =>
+  (Array.isArray(raw) ? raw : []).map(normalizeAdminNotification).filter(Boolean);
+
+/**
+ * Sources an admin may see: those whose page their role opens, by the
+ * same rule as the admin guards. Comments have no page of their own and
+ * are moderated from the notifications page, so its access covers them.
+ */
+export function notificationSourcesFor(access_pages: string[]): Set<string> {
+  const allowed = allowedPathsFor(access_pages);
+  const sources = new Set<string>();
+  for (const [src, path] of Object.entries(NOTIFICATION_SOURCE_PATHS)) {
+    if (isAllowedPath(path, allowed)) sources.add(src);
+  }
+  return sources;
+}
+
+export const unreadCount = (list: AdminNotification[]) => list.filter((n) => n.status === 'unread').length;
@@ -0,0 +1,556 @@
+import { API_BASE_URL } from './api';
+
+/* =========================================================
+   Shared client for the Django API — used by the storefront
+   and the admin. Adds X-Frontend-Key (and the device UUID
+   when asked), applies one timeout/retry policy, and turns
+   every failure into an ApiError.
+   ========================================================= */
+
+export { API_BASE_URL };
+
+export const FRONTEND_KEY = (process.env.NEXT_PUBLIC_FRONTEND_KEY || '').trim();
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+
+/* ===== Device UUID ===== */
+
+const DEVICE_KEY = 'cart_user_id';
+
+// Browser-stable device UUID used as the cart owner (guest + signed-in)
+export function ensureDeviceUUID(): string {
+  if (typeof window === 'undefined') return '';
+  try {
+    const existing = localStorage.getItem(DEVICE_KEY)?.trim();
+    if (existing) return existing;
+
+    const rng =
+      typeof crypto !== 'undefined' && crypto.getRandomValues
+        ? crypto.getRandomValues(new Uint8Array(16))
+        : Uint8Array.from({ length: 16 }, () => Math.floor(Math.random() * 256));
+    rng[6] = (rng[6] & 0x0f) | 0x40; // version
+    rng[8] = (rng[8] & 0x3f) | 0x80; // variant
+
+    const hex = Array.from(rng, (b) => b.toString(16).padStart(2, '0')).join('');
+    const id = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    localStorage.setItem(DEVICE_KEY, id);
+    return id;
+  } catch {
+    return '';
+  }
+}
+
+export const readDeviceUUID = () => {
+  if (typeof window === 'undefined') return '';
+  try {
+    return localStorage.getItem(DEVICE_KEY)?.trim() || '';
+  } catch {
+    return '';
+  }
+};
+
+/* ===== Cart owner ===== */
+
+// Carts and orders belong to the signed-in Firebase account when there is one,
+// otherwise to this browser. The cart store keeps this in sync with auth.
+export type CartOwner = { device_uuid: string; firebase_uid?: string };
+
+let accountUid = '';
+let idTokenSource: (() => Promise<string>) | null = null;
+
+export const setCartAccount = (uid: string | null | undefined, getIdToken?: () => Promise<string>) => {
+  accountUid = (uid || '').trim();
+  idTokenSource = accountUid && getIdToken ? getIdToken : null;
+};
+
+// A uid is no proof of anything: our routes and the backend only act for an
+// account on a verified Firebase ID token whose subject is that uid
+export const accountIdToken = async () => (idTokenSource ? idTokenSource().catch(() => '') : '');
+
+/** `Authorization: Bearer <ID token>` when signed in; guests get the headers back unchanged. */
+export async function accountHeaders(init: HeadersInit = {}) {
+  const headers = new Headers(init);
+  const token = await accountIdToken();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return headers;
+}
+
+/** Query for our own order routes (invoices, tracking, payments); the account goes in accountHeaders(). */
+export function orderOwnerQuery(order_id: string, owner?: CartOwner, extra: Record<string, string> = {}) {
+  const q = new URLSearchParams({ order_id, ...extra });
+  if (owner?.device_uuid) q.set('device_uuid', owner.device_uuid);
+  return q;
+}
+
+export const cartOwner = (): CartOwner =>
+  accountUid ? { device_uuid: ensureDeviceUUID(), firebase_uid: accountUid } : { device_uuid: ensureDeviceUUID() };
+
+export const deviceOwner = (): CartOwner => ({ device_uuid: ensureDeviceUUID() });
+
+/* ===== Errors ===== */
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'parse';
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number; // 0 when the request never got a response
+  url: string;
+  data: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, url: string, status = 0, data: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.url = url;
+    this.data = data;
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError => err instanceof ApiError;
+
+export const isAbortError = (err: unknown) =>
+  (isApiError(err) && err.kind === 'aborted') ||
+  (typeof err === 'object' && err !== null && (err as { name?: string }).name === 'AbortError');
+
+// Human message for toasts; prefers what the backend said
+export const errorMessage = (err: unknown, fallback = 'Something went wrong') => {
+  if (isApiError(err)) return err.message || fallback;
+  if (err instanceof Error) return err.message || fallback;
+  return fallback;
+};
+
+const messageFrom = (data: any, status: number) => {
+  if (data && typeof data === 'object') {
+    const m = data.error ?? data.detail ?? data.message;
+    if (typeof m === 'string' && m.trim()) return m.trim();
+  }
+  if (typeof data === 'string' && data.trim() && data.length < 300) return data.trim();
+  return `Request failed (HTTP ${status})`;
+};
+
+/* ===== URLs & headers ===== */
+
+type Query = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * 'show-product', '/api/show-product/', 'show-product/?x=1' and absolute
+ * URLs all resolve to the same place. Django routes keep their trailing slash.
+ */
+export function apiUrl(endpoint: string, query?: Query): string {
+  let url: string;
+  if (/^https?:\/\//i.test(endpoint)) {
+    url = endpoint;
+  } else {
+    let path = endpoint.replace(/^\/+/, '');
+    if (!path.startsWith('api/')) path = `api/${path}`;
+    const [p, qs] = path.split('?');
+    url = `${API_BASE_URL}/${p.endsWith('/') ? p : `${p}/`}${qs ? `?${qs}` : ''}`;
+  }
+  if (query) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([k, v]) => {
+      if (v !== undefined && v !== null && v !== '') params.set(k, String(v));
+    });
+    const qs = params.toString();
+    if (qs) url += `${url.includes('?') ? '&' : '?'}${qs}`;
+  }
+  return url;
+}
+
+/** Adds the frontend key + JSON accept; fresh data unless the caller says otherwise. */
+export function withFrontendKey(init: RequestInit = {}, opts: { device?: boolean } = {}): RequestInit {
+  const headers = new Headers(init.headers || {});
+  if (FRONTEND_KEY) headers.set('X-Frontend-Key', FRONTEND_KEY);
+  if (!headers.has('Accept')) headers.set('Accept', 'application/json');
+  if (typeof init.body === 'string' && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+  if (opts.device) {
+    const uuid = ensureDeviceUUID();
+    if (uuid) headers.set('X-Device-UUID', uuid);
+  }
+  // Server pages asking for Next's data cache (next.revalidate) opt out of no-store
+  return { ...(init.next ? {} : { cache: 'no-store' as RequestCache }), credentials: 'omit', ...init, headers };
+}
+
+/* ===== Fetch with timeout + retries ===== */
+
+export type ApiFetchInit = RequestInit & {
+  timeoutMs?: number;
+  retries?: number; // default: 2 for GET/HEAD, 0 otherwise
+  device?: boolean; // send X-Device-UUID
+  account?: boolean; // send the signed-in account's ID token
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const retryable = (status: number) => status === 429 || status >= 500;
+
+/**
+ * fetch() against the API with the shared policy. Resolves with the Response
+ * (any status) and rejects only with an ApiError of kind network/timeout/aborted.
+ */
+export async function apiFetch(endpoint: string, init: ApiFetchInit = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, device, account, signal, ...rest } = init;
+  if (account) rest.headers = await accountHeaders(rest.headers);
+  const url = apiUrl(endpoint);
+  const method = (rest.method || 'GET').toUpperCase();
+  const maxRetries = retries ?? (method === 'GET' || method === 'HEAD' ? DEFAULT_GET_RETRIES : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new ApiError('aborted', 'Request aborted', url);
+
+    const ac = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      ac.abort();
+    }, timeoutMs);
+    const onAbort = () => ac.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      const res = await fetch(url, withFrontendKey({ ...rest, signal: ac.signal }, { device }));
+      if (attempt < maxRetries && retryable(res.status)) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+      return res;
+    } catch (err) {
+      if (signal?.aborted) throw new ApiError('aborted', 'Request aborted', url);
+      if (attempt < maxRetries) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+      if (timedOut) throw new ApiError('timeout', 'The server took too long to respond', url);
+      throw new ApiError('network', 'Network error. Check your connection and try again.', url, 0, err);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+export type ApiRequestOptions = Omit<ApiFetchInit, 'body'> & {
+  body?: unknown; // plain objects are sent as JSON; FormData/strings as-is
+  query?: Query;
+};
+
+/** apiFetch + JSON parsing; non-2xx responses become ApiError('http'). */
+export async function apiRequest<T = unknown>(endpoint: string, opts: ApiRequestOptions = {}): Promise<T> {
+  const { body, query, ...init } = opts;
+  const url = apiUrl(endpoint, query);
+  const isRaw = typeof body === 'string' || (typeof FormData !== 'undefined' && body instanceof FormData);
+
+  const res = await apiFetch(url, {
+    ...init,
+    method: init.method || (body === undefined ? 'GET' : 'POST'),
+    body: body === undefined ? undefined : isRaw ? (body as BodyInit) : JSON.stringify(body),
+  });
+
+  const text = await res.text().catch(() => '');
+  let data: any = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      if (res.ok) throw new ApiError('parse', 'Unexpected response from server', url, res.status, text);
+      data = text;
+    }
+  }
+
+  if (!res.ok) throw new ApiError('http', messageFrom(data, res.status), url, res.status, data);
+  return data as T;
+}
+
+export const apiGet = <T = unknown>(endpoint: string, opts: Omit<ApiRequestOptions, 'body' | 'method'> = {}) =>
+  apiRequest<T>(endpoint, { ...opts, method: 'GET' });
+
+export const apiPost = <T = unknown>(endpoint: string, body?: unknown, opts: Omit<ApiRequestOptions, 'body'> = {}) =>
+  apiRequest<T>(endpoint, { method: 'POST', ...opts, body: body ?? {} });
+
+export const apiPut = <T = unknown>(endpoint: string, body?: unknown, opts: Omit<ApiRequestOptions, 'body'> = {}) =>
+  apiRequest<T>(endpoint, { ...opts, method: 'PUT', body: body ?? {} });
+
+/* =========================================================
+   Typed endpoints
+   ========================================================= */
+
+export type ApiProduct = {
+  id: string;
+  name: string;
+  image?: string;
+  images?: string[];
+  subcategory?: { id: string; name: string } | null;
+  stock_status?: string;
+  stock_quantity?: number;
+  price?: string | number;
+  printing_methods?: string[];
+  created_at?: string;
+  [key: string]: unknown;
+};
+
+export type ApiHumanAttribute = {
+  attribute_id?: string;
+  attribute_name: string;
+  option_id?: string;
+  option_label: string;
+  price_delta: string; // "0.00"
+};
+
+export type ApiCartItem = {
+  cart_item_id: string;
+  product_id: string;
+  product_name: string;
+  product_image?: string;
+  quantity: number;
+  selected_size?: string;
+  selected_attributes?: Record<string, string>;
+  selected_attributes_human?: ApiHumanAttribute[];
+  variant_signature?: string;
+  // money fields arrive as decimal strings ("12.50")
+  unit_price?: string;
+  product_price?: string;
+  attributes_price_delta?: string;
+  price_breakdown?: {
+    base_price?: string;
+    attributes_delta?: string;
+    unit_price?: string;
+    line_total?: string;
+  };
+};
+
+export type ShowCartResponse = { cart_items: ApiCartItem[] };
+
+export type SaveCartInput = {
+  product_id: string;
+  quantity?: number;
+  selected_size?: string;
+  selected_attributes?: Record<string, string>;
+};
+
+export type SaveOrderResponse = {
+  success?: boolean;
+  order_id?: string;
+  orderID?: string;
+  id?: string | number;
+  error?: string;
+};
+
+export type ApiOrder = {
+  orderID: string;
+  Date: string;
+  UserName: string;
+  item: { count: number; names: string[]; detail?: unknown[] };
+  total: number;
+  status: string;
+  address?: Record<string, string>;
+  email?: string;
+  order_placed_on?: string;
+  payment_method?: string;
+  payment_status?: string;
+  [key: string]: unknown;
+};
+
+// track-order: one order looked up by number + email, no sign-in needed
+export type ApiTrackedOrder = {
+  order_id: string;
+  date: string;
+  status: string;
+  payment_status?: string;
+  payment_method?: string;
+  total_price: string | number;
+  items: { product_name: string; quantity: number; total_price: string | number; selection?: string }[];
+  delivery?: { name?: string; city?: string; country?: string };
+  status_history?: unknown[];
+};
+
+// list-orders / show-specific-user-orders: one page plus the total match count
+export type Paginated<T> = {
+  results: T[];
+  count: number;
+  page: number;
+  page_size: number;
+};
+
+export type OrderSortKey = 'date' | 'total' | 'customer' | 'status';
+
+export type OrderListQuery = {
+  page?: number;
+  page_size?: number;
+  status?: string; // one status or a comma list ("pending,processing")
+  date_from?: string; // YYYY-MM-DD, inclusive
+  date_to?: string;
+  customer?: string; // name or email, partial match
+  total_min?: number;
+  total_max?: number;
+  sort?: OrderSortKey;
+  direction?: 'asc' | 'desc';
+};
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+/** Accepts DRF-style `{results, count}` as well as the older `{orders}` / bare-array shapes. */
+export function paginatedFrom<T>(data: unknown, query: { page?: number; page_size?: number } = {}, key = 'orders') {
+  const d = (data && typeof data === 'object' ? data : {}) as Record<string, any>;
+  const results = Array.isArray(d.results) ? (d.results as T[]) : listFrom<T>(data, key);
+  const page_size = Number(d.page_size) || query.page_size || DEFAULT_PAGE_SIZE;
+  return {
+    results,
+    count: Number.isFinite(Number(d.count)) ? Number(d.count) : results.length,
+    page: Number(d.page) || query.page || 1,
+    page_size,
+  } as Paginated<T>;
+}
+
+export const pageCount = (p: Pick<Paginated<unknown>, 'count' | 'page_size'>) =>
+  Math.max(1, Math.ceil(p.count / (p.page_size || DEFAULT_PAGE_SIZE)));
+
+const orderListParams = (q: OrderListQuery) => ({
+  page: q.page || 1,
+  page_size: q.page_size || DEFAULT_PAGE_SIZE,
+  status: q.status,
+  date_from: q.date_from,
+  date_to: q.date_to,
+  customer: q.customer?.trim(),
+  total_min: q.total_min,
+  total_max: q.total_max,
+  sort: q.sort,
+  direction: q.sort ? q.direction || 'desc' : undefined,
+});
+
+export const orderIdFrom = (saved: SaveOrderResponse | null | undefined) =>
+  String(saved?.order_id ?? saved?.orderID ?? saved?.id ?? '');
+
+// Cart calls default to cartOwner(); the login merge passes an explicit owner.
+// The ID token only goes with account owners — with it the backend resolves
+// every call to the account cart, so guest-owner calls send the device alone.
+type CartRequestOptions = Omit<ApiRequestOptions, 'body'> & { owner?: CartOwner };
+
+const cartInit = (opts?: CartRequestOptions): Omit<ApiRequestOptions, 'body'> => {
+  const { owner = cartOwner(), ...rest } = opts || {};
+  return { ...rest, device: true, account: !!owner.firebase_uid };
+};
+
+const listFrom = <T,>(data: unknown, key?: string): T[] => {
+  if (Array.isArray(data)) return data as T[];
+  const inner = key && data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : null;
+  return Array.isArray(inner) ? (inner as T[]) : [];
+};
+
+export const api = {
+  showProducts: (opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiGet<ApiProduct[] | { products: ApiProduct[] }>('show-product', opts).then((d) => listFrom<ApiProduct>(d, 'products')),
+
+  showSpecificProduct: <T = Record<string, unknown>>(productId: string, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<T>('show_specific_product', { product_id: productId }, opts),
+
+  showCart: (opts?: CartRequestOptions) =>
+    apiPost<ShowCartResponse>('show-cart', { ...(opts?.owner ?? cartOwner()) }, cartInit(opts)).then((d) =>
+      listFrom<ApiCartItem>(d, 'cart_items')
+    ),
+
+  saveCart: (input: SaveCartInput, opts?: CartRequestOptions) =>
+    apiPost<{ success?: boolean; cart_item_id?: string }>(
+      'save-cart',
+      {
+        ...(opts?.owner ?? cartOwner()),
+        product_id: input.product_id,
+        quantity: input.quantity ?? 1,
+        selected_size: input.selected_size ?? '',
+        selected_attributes: input.selected_attributes ?? {},
+      },
+      cartInit(opts)
+    ),
+
+  updateCartItem: (
+    input: { cart_item_id?: string; product_id: string; variant_signature?: string; quantity: number },
+    opts?: CartRequestOptions
+  ) =>
+    apiPost<{ success?: boolean }>(
+      'update-cart-item',
+      {
+        ...(opts?.owner ?? cartOwner()),
+        cart_item_id: input.cart_item_id || '',
+        product_id: input.product_id,
+        variant_signature: input.variant_signature || '',
+        quantity: input.quantity,
+      },
+      cartInit(opts)
+    ),
+
+  // `user_id` is the legacy name for the device UUID; the backend accepts both
+  deleteCartItem: (input: { product_id: string; variant_signature?: string }, opts?: CartRequestOptions) => {
+    const owner = opts?.owner ?? cartOwner();
+    return apiPost<{ success?: boolean }>(
+      'delete-cart-item',
+      {
+        ...owner,
+        user_id: owner.device_uuid,
+        product_id: input.product_id,
+        variant_signature: input.variant_signature || '',
+      },
+      cartInit(opts)
+    );
+  },
+
+  // Moves orders placed as a guest on this device onto the account
+  claimDeviceOrders: (owner: Required<CartOwner>, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<{ claimed?: number }>('claim-device-orders', owner, { ...opts, device: true, account: true }),
+
+  // The backend emails the link; the order is matched on id + email so it can't be used to probe other orders
+  sendOrderTrackingLink: (
+    input: { order_id: string; email: string; tracking_url: string },
+    opts?: Omit<ApiRequestOptions, 'body'>
+  ) => apiPost<{ success?: boolean }>('send-order-tracking-link', input, opts),
+
+  trackOrder: (lookup: { order_id: string; email: string }, opts?: Omit<ApiRequestOptions, 'body' | 'query'>) =>
+    apiGet<ApiTrackedOrder | { order: ApiTrackedOrder }>('track-order', { ...opts, query: lookup }).then((d) =>
+      d && 'order' in d ? d.order : (d as ApiTrackedOrder)
+    ),
+
+  // One page of the cart owner's orders; items carry product names
+  showMyOrders: <T = unknown>(query: OrderListQuery = {}, opts?: Omit<ApiRequestOptions, 'body' | 'query'>) =>
+    apiGet<unknown>('show-specific-user-orders', {
+      ...opts,
+      query: { ...cartOwner(), ...orderListParams(query) },
+      device: true,
+      account: true,
+    }).then((d) => paginatedFrom<T>(d, query)),
+
+  // Full detail (names, delivery, history) for one of the cart owner's orders
+  showMyOrder: <T = ApiOrder>(order_id: string, opts?: Omit<ApiRequestOptions, 'body' | 'query'>) =>
+    apiGet<T | { order: T }>('show-specific-user-order', {
+      ...opts,
+      query: { ...cartOwner(), order_id },
+      device: true,
+      account: true,
+    }).then((d) => (d && typeof d === 'object' && 'order' in d ? d.order : (d as T))),
+
+  // Admin: filtered, sorted, paginated on the server
+  listOrders: (query: OrderListQuery = {}, opts?: Omit<ApiRequestOptions, 'body' | 'query'>) =>
+    apiGet<unknown>('list-orders', { ...opts, query: orderListParams(query) }).then((d) =>
+      paginatedFrom<ApiOrder>(d, query)
+    ),
+
+  // Admin: one order by id (404 → ApiError with status 404)
+  showOrder: (order_id: string, opts?: Omit<ApiRequestOptions, 'body' | 'query'>) =>
+    apiGet<ApiOrder | { order: ApiOrder }>('show-specific-order', { ...opts, query: { order_id } }).then((d) =>
+      d && 'order' in d && d.order && typeof d.order === 'object' ? (d.order as ApiOrder) : (d as ApiOrder)
+    ),
+
+  // Wishlists belong to the Firebase account (ID token attached); guests keep theirs in the
+  // browser (utils/wishlist). Alert settings go through /api/wishlist/preferences.
+  showWishlist: (firebase_uid: string, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<unknown>('show-wishlist', { firebase_uid }, { ...opts, account: true }),
+
+  saveWishlistItem: (firebase_uid: string, product_id: string, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<{ success?: boolean }>('save-wishlist-item', { firebase_uid, product_id }, { ...opts, account: true }),
+
+  deleteWishlistItem: (firebase_uid: string, product_id: string, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<{ success?: boolean }>('delete-wishlist-item', { firebase_uid, product_id }, { ...opts, account: true }),
+
+  // enabled → { share_token } (the same token until sharing is turned off); disabled revokes it
+  shareWishlist: (firebase_uid: string, enabled: boolean, opts?: Omit<ApiRequestOptions, 'body'>) =>
+    apiPost<{ share_token?: string | null }>('share-wishlist', { firebase_uid, enabled }, { ...opts, account: true }),
+};
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setCartAccount, type ApiCartItem } from './apiClient';
+import { mergeGuestCart, planCartMerge } from './cart';
+
+const line = (product_id: string, quantity: number, variant_signature = ''): ApiCartItem => ({
+  cart_item_id: `${product_id}|${variant_signature}`,
+  product_id,
+  product_name: product_id,
+  quantity,
+  variant_signature,
+});
+
+const quantities = (items: ApiCartItem[]) =>
+  Object.fromEntries(items.map((i) => [`${i.product_id}|${i.variant_signature || ''}`, i.quantity]));
+
+describe('planCartMerge', () => {
+  it('adds device quantities onto matching account lines and moves the rest', () => {
+    const plan = planCartMerge([line('a', 1), line('b', 3)], [line('a', 2)]);
+    expect(plan.combine).toEqual([{ target: line('a', 2), quantity: 3 }]);
+    expect(plan.move).toEqual([line('b', 3)]);
+  });
+
+  it('keeps options apart and caps combined quantities', () => {
+    const plan = planCartMerge([line('a', 60, 'red'), line('a', 1, 'blue')], [line('a', 60, 'red')]);
+    expect(plan.combine).toEqual([{ target: line('a', 60, 'red'), quantity: 99 }]);
+    expect(plan.move).toEqual([line('a', 1, 'blue')]);
+  });
+});
+
+describe('mergeGuestCart', () => {
+  // Stands in for the backend: a verified ID token always means the account cart
+  let carts: { account: ApiCartItem[]; device: ApiCartItem[] };
+
+  beforeEach(() => {
+    carts = { account: [line('a', 2), line('c', 1)], device: [line('a', 1), line('b', 3)] };
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('localStorage', { getItem: () => 'device-1', setItem: () => undefined });
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      const headers = new Headers(init.headers);
+      const cart = headers.has('Authorization') ? carts.account : carts.device;
+      const body = JSON.parse(String(init.body || '{}'));
+      const key = (i: { product_id: string; variant_signature?: string }) => `${i.product_id}|${i.variant_signature || ''}`;
+      let data: unknown = { success: true };
+
+      if (url.includes('/show-cart/')) data = { cart_items: cart };
+      if (url.includes('/update-cart-item/')) cart.find((i) => key(i) === key(body))!.quantity = body.quantity;
+      if (url.includes('/save-cart/')) cart.push(line(body.product_id, body.quantity));
+      if (url.includes('/delete-cart-item/')) cart.splice(cart.findIndex((i) => key(i) === key(body)), 1);
+      if (url.includes('/claim-device-orders/')) data = { claimed: 0 };
+      return new Response(JSON.stringify(data), { status: 200 });
+    });
+    setCartAccount('uid-1', async () => 'id-token');
+  });
+
+  afterEach(() => {
+    setCartAccount(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('folds the guest cart into the account and leaves existing account lines intact', async () => {
+    const result = await mergeGuestCart('uid-1');
+
+    expect(result.merged).toBe(2);
+    expect(quantities(carts.account)).toEqual({ 'a|': 3, 'b|': 3, 'c|': 1 });
+    expect(carts.device).toEqual([]);
+  });
+});
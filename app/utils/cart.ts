@@ -0,0 +1,102 @@
+import { api, deviceOwner, type ApiCartItem, type CartOwner } from './apiClient';
+
+/* =========================================================
+   Cart rules shared by the cart store and the login merge.
+   ========================================================= */
+
+export const MIN_QTY = 1;
+export const MAX_QTY = 99;
+
+export const clampQty = (n: number) => Math.max(MIN_QTY, Math.min(MAX_QTY, Math.round(n) || MIN_QTY));
+
+// Two lines are the same thing when product and chosen options match
+const lineKey = (item: Pick<ApiCartItem, 'product_id' | 'variant_signature'>) =>
+  `${item.product_id}|${item.variant_signature || ''}`;
+
+export type CartMergePlan = {
+  // account line that already has this variant → new combined quantity
+  combine: { target: ApiCartItem; quantity: number }[];
+  // device lines the account doesn't have yet
+  move: ApiCartItem[];
+};
+
+/** Device lines fold into the account cart; duplicates add up (capped at MAX_QTY). */
+export function planCartMerge(device: ApiCartItem[], account: ApiCartItem[]): CartMergePlan {
+  const byKey = new Map(account.map((item) => [lineKey(item), item]));
+  const combined = new Map<string, { target: ApiCartItem; quantity: number }>();
+  const move = new Map<string, ApiCartItem>();
+
+  for (const item of device) {
+    const key = lineKey(item);
+    const qty = item.quantity || 1;
+    const target = byKey.get(key);
+    if (target) {
+      const prev = combined.get(key)?.quantity ?? (target.quantity || 1);
+      combined.set(key, { target, quantity: clampQty(prev + qty) });
+    } else {
+      const prev = move.get(key);
+      move.set(key, prev ? { ...prev, quantity: clampQty((prev.quantity || 1) + qty) } : item);
+    }
+  }
+
+  return { combine: Array.from(combined.values()), move: Array.from(move.values()) };
+}
+
+/**
+ * Runs on sign-in: folds this browser's guest cart into the account cart and
+ * hands guest orders from this device to the account. Safe to repeat — once
+ * merged the device cart is empty.
+ */
+export async function mergeGuestCart(uid: string) {
+  const guest = deviceOwner();
+  const account: Required<CartOwner> = { device_uuid: guest.device_uuid, firebase_uid: uid };
+  let merged = 0;
+
+  const deviceItems = await api.showCart({ owner: guest });
+  if (deviceItems.length) {
+    const accountItems = await api.showCart({ owner: account });
+    const plan = planCartMerge(deviceItems, accountItems);
+
+    for (const { target, quantity } of plan.combine) {
+      await api.updateCartItem(
+        {
+          cart_item_id: target.cart_item_id,
+          product_id: target.product_id,
+          variant_signature: target.variant_signature,
+          quantity,
+        },
+        { owner: account }
+      );
+    }
+    for (const item of plan.move) {
+      await api.saveCart(
+        {
+          product_id: item.product_id,
+          quantity: item.quantity || 1,
+          selected_size: item.selected_size,
+          selected_attributes: item.selected_attributes,
+        },
+        { owner: account }
+      );
+    }
+
+    // Only clear the guest cart once everything is on the account
+    for (const item of deviceItems) {
+      await api.deleteCartItem(
+        { product_id: item.product_id, variant_signature: item.variant_signature },
+        { owner: guest }
+      );
+    }
+    merged = deviceItems.length;
+  }
+
+  // Order history is best-effort; the cart merge already succeeded
+  let claimed = 0;
+  try {
+    claimed = (await api.claimDeviceOrders(account))?.claimed ?? 0;
+  } catch (err) {
+    console.warn('Claiming device orders failed:', err);
+  }
+
+  return { merged, claimed };
+}
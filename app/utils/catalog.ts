@@ -0,0 +1,425 @@
+/* =========================================================
+   Catalog import/export — one product per spreadsheet row.
+   The column layout, cell formats and row validation live
+   here so the preview the admin sees and the import the
+   server runs agree; reading .xlsx and talking to the
+   backend happen server-side (app/lib/catalog).
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type CatalogColumn =
+  | 'sku'
+  | 'title'
+  | 'description'
+  | 'brand'
+  | 'price'
+  | 'discounted_price'
+  | 'tax_rate'
+  | 'stock'
+  | 'low_stock_alert'
+  | 'categories'
+  | 'subcategories'
+  | 'meta_title'
+  | 'meta_description'
+  | 'meta_keywords'
+  | 'og_title'
+  | 'og_description'
+  | 'og_image'
+  | 'canonical_url'
+  | 'attributes'
+  | 'images'
+  | 'image_alt';
+
+export type CatalogAttribute = { name: string; options: { label: string; price_delta: number }[] };
+
+/** What a row sets. Blank cells are left out, so an update only touches the columns that were filled in. */
+export type CatalogProduct = {
+  sku: string;
+  name?: string;
+  description?: string;
+  brand_title?: string;
+  price?: number;
+  discounted_price?: number;
+  tax_rate?: number;
+  stock?: number;
+  low_stock_alert?: number;
+  category_ids?: string[];
+  subcategory_ids?: string[];
+  meta_title?: string;
+  meta_description?: string;
+  meta_keywords?: string[];
+  open_graph_title?: string;
+  open_graph_desc?: string;
+  open_graph_image_url?: string;
+  canonical_url?: string;
+  attributes?: CatalogAttribute[];
+  image_urls?: string[];
+  image_alt_text?: string;
+};
+
+export type CatalogCellError = { column: string; message: string };
+
+export type CatalogImportRow = {
+  row: number; // spreadsheet row number, header = 1
+  action: 'create' | 'update';
+  product: CatalogProduct;
+  errors: CatalogCellError[];
+};
+
+export type CatalogPreview = {
+  errors: string[]; // problems with the file as a whole; nothing is imported while there are any
+  ignored_columns: string[];
+  rows: CatalogImportRow[];
+  counts: { create: number; update: number; invalid: number };
+};
+
+// What validation needs from the backend
+export type CatalogContext = {
+  categories: { id: string; name: string }[];
+  subcategories: { id: string; name: string; categories: string[] }[];
+  existing_skus: Set<string>;
+};
+
+export type CatalogImportJob = {
+  id: string;
+  status: 'running' | 'done';
+  total: number;
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number; // invalid rows left out on purpose
+  failed: { row: number; sku: string; error: string }[];
+  started_at: string;
+  finished_at: string;
+  started_by: string;
+};
+
+/* =========================================================
+   CONSTANTS
+   ========================================================= */
+
+export const CATALOG_COLUMNS: { key: CatalogColumn; header: string; hint: string }[] = [
+  { key: 'sku', header: 'SKU', hint: 'Matches an existing product to update it; blank creates a new one' },
+  { key: 'title', header: 'Title', hint: 'Required for new products' },
+  { key: 'description', header: 'Description', hint: '' },
+  { key: 'brand', header: 'Brand', hint: '' },
+  { key: 'price', header: 'Price', hint: 'Required for new products' },
+  { key: 'discounted_price', header: 'Discounted Price', hint: 'Not more than Price' },
+  { key: 'tax_rate', header: 'Tax Rate %', hint: '0–100' },
+  { key: 'stock', header: 'Stock', hint: 'Counted quantity; recorded in the stock ledger' },
+  { key: 'low_stock_alert', header: 'Low Stock Alert', hint: '' },
+  { key: 'categories', header: 'Categories', hint: 'Names or ids separated by |; taken from the subcategories when blank' },
+  { key: 'subcategories', header: 'Subcategories', hint: 'Names or ids separated by |; required for new products' },
+  { key: 'meta_title', header: 'Meta Title', hint: '' },
+  { key: 'meta_description', header: 'Meta Description', hint: '' },
+  { key: 'meta_keywords', header: 'Meta Keywords', hint: 'Separated by |' },
+  { key: 'og_title', header: 'OG Title', hint: '' },
+  { key: 'og_description', header: 'OG Description', hint: '' },
+  { key: 'og_image', header: 'OG Image', hint: 'http(s) URL' },
+  { key: 'canonical_url', header: 'Canonical URL', hint: 'http(s) URL' },
+  { key: 'attributes', header: 'Attributes', hint: 'Size: S, M, L | Colour: Red (+5), Blue' },
+  { key: 'images', header: 'Image URLs', hint: 'http(s) URLs separated by |; the first is the main image' },
+  { key: 'image_alt', header: 'Image Alt', hint: '' },
+];
+
+export const CATALOG_HEADERS = CATALOG_COLUMNS.map((c) => c.header);
+
+// Columns a spreadsheet should keep as numbers
+export const NUMERIC_CATALOG_COLUMNS: CatalogColumn[] = ['price', 'discounted_price', 'tax_rate', 'stock', 'low_stock_alert'];
+
+export const MAX_IMPORT_ROWS = 2000;
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+const SKU_RE = /^[A-Za-z0-9._-]{1,64}$/;
+const LIST_SEPARATOR = '|';
+
+/* =========================================================
+   CELLS
+   ========================================================= */
+
+const headerKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+const COLUMN_BY_HEADER = new Map<string, CatalogColumn>();
+CATALOG_COLUMNS.forEach((c) => {
+  COLUMN_BY_HEADER.set(headerKey(c.header), c.key);
+  COLUMN_BY_HEADER.set(headerKey(c.key), c.key);
+});
+
+export const splitList = (cell: string, separators = /\|/) =>
+  cell
+    .split(separators)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export const joinList = (values: string[]) => values.join(` ${LIST_SEPARATOR} `);
+
+const isHttpUrl = (v: string) => {
+  try {
+    return /^https?:$/.test(new URL(v).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** "Size: S, M, L | Colour: Red (+5), Blue" → attributes; throws with a readable message. */
+export function parseAttributes(cell: string): CatalogAttribute[] {
+  return splitList(cell).map((part) => {
+    const colon = part.indexOf(':');
+    const name = colon > 0 ? part.slice(0, colon).trim() : '';
+    if (!name) throw new Error(`"${part}" needs a name, e.g. "Size: S, M"`);
+    const options = splitList(part.slice(colon + 1), /,/).map((raw) => {
+      const m = raw.match(/^(.*?)\s*\(\s*([+-]?\d+(?:\.\d+)?)\s*\)$/);
+      return m ? { label: m[1].trim(), price_delta: Number(m[2]) } : { label: raw, price_delta: 0 };
+    });
+    if (!options.length || options.some((o) => !o.label)) throw new Error(`"${name}" has no options`);
+    return { name, options };
+  });
+}
+
+export const formatAttributes = (attrs: CatalogAttribute[]) =>
+  joinList(
+    attrs.map(
+      (a) =>
+        `${a.name}: ${a.options
+          .map((o) => (o.price_delta ? `${o.label} (${o.price_delta > 0 ? '+' : ''}${o.price_delta})` : o.label))
+          .join(', ')}`
+    )
+  );
+
+/* =========================================================
+   CSV
+   ========================================================= */
+
+/** RFC 4180: quoted fields, "" escapes, CRLF or LF, optional BOM. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const s = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (quoted) {
+      if (ch === '"' && s[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && s[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Cell as written to an export: formula-like text is prefixed with ' so Excel shows it as text. */
+export const safeCell = (v: string) => (FORMULA_START.test(v) && !/^-?\d+(\.\d+)?$/.test(v) ? `'${v}` : v);
+
+const unsafeCell = (v: string) => (v.startsWith("'") && FORMULA_START.test(v.slice(1)) ? v.slice(1) : v);
+
+export const toCsv = (rows: string[][]) =>
+  '\uFEFF' + // so Excel opens it as UTF-8
+  rows.map((r) => r.map((v) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v)).join(',')).join('\r\n') +
+  '\r\n';
+
+/* =========================================================
+   VALIDATION
+   ========================================================= */
+
+function resolveNames<T extends { id: string; name: string }>(cell: string, list: T[], what: string, errors: string[]) {
+  const out: T[] = [];
+  for (const ref of splitList(cell)) {
+    const hit =
+      list.find((x) => String(x.id) === ref) || list.find((x) => x.name.trim().toLowerCase() === ref.toLowerCase());
+    if (hit) out.push(hit);
+    else errors.push(`Unknown ${what} "${ref}"`);
+  }
+  return Array.from(new Set(out));
+}
+
+function parseRow(cells: Partial<Record<CatalogColumn, string>>, ctx: CatalogContext) {
+  const errors: CatalogCellError[] = [];
+  const header = (key: CatalogColumn) => CATALOG_COLUMNS.find((c) => c.key === key)!.header;
+  const fail = (key: CatalogColumn, message: string) => errors.push({ column: header(key), message });
+  const text = (key: CatalogColumn) => (cells[key] || '').trim();
+
+  const number = (key: CatalogColumn, { integer = false, max = Infinity } = {}) => {
+    const raw = text(key).replace(/,/g, '');
+    if (!raw) return undefined;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0 || n > max || (integer && !Number.isInteger(n))) {
+      fail(key, integer ? 'Must be a whole number, 0 or more' : max < Infinity ? `Must be a number from 0 to ${max}` : 'Must be a number, 0 or more');
+      return undefined;
+    }
+    return n;
+  };
+  const url = (key: CatalogColumn) => {
+    const v = text(key);
+    if (v && !isHttpUrl(v)) fail(key, 'Must be an http(s) URL');
+    return v || undefined;
+  };
+
+  const sku = text('sku');
+  if (sku && !SKU_RE.test(sku)) fail('sku', 'Letters, digits, . _ - only (up to 64)');
+  const action: CatalogImportRow['action'] = sku && ctx.existing_skus.has(sku) ? 'update' : 'create';
+
+  const product: CatalogProduct = {
+    sku,
+    name: text('title') || undefined,
+    description: text('description') || undefined,
+    brand_title: text('brand') || undefined,
+    price: number('price'),
+    discounted_price: number('discounted_price'),
+    tax_rate: number('tax_rate', { max: 100 }),
+    stock: number('stock', { integer: true }),
+    low_stock_alert: number('low_stock_alert', { integer: true }),
+    meta_title: text('meta_title') || undefined,
+    meta_description: text('meta_description') || undefined,
+    meta_keywords: text('meta_keywords') ? splitList(text('meta_keywords'), /[|,]/) : undefined,
+    open_graph_title: text('og_title') || undefined,
+    open_graph_desc: text('og_description') || undefined,
+    open_graph_image_url: url('og_image'),
+    canonical_url: url('canonical_url'),
+    image_alt_text: text('image_alt') || undefined,
+  };
+
+  if (product.price !== undefined && product.discounted_price !== undefined && product.discounted_price > product.price) {
+    fail('discounted_price', 'Is more than Price');
+  }
+
+  if (text('subcategories')) {
+    const missing: string[] = [];
+    const subs = resolveNames(text('subcategories'), ctx.subcategories, 'subcategory', missing);
+    missing.forEach((m) => fail('subcategories', m));
+    product.subcategory_ids = subs.map((s) => String(s.id));
+    if (!text('categories')) {
+      const parents = new Set(subs.flatMap((s) => s.categories.map((c) => c.toLowerCase())));
+      product.category_ids = ctx.categories.filter((c) => parents.has(c.name.toLowerCase())).map((c) => String(c.id));
+    }
+  }
+  if (text('categories')) {
+    const missing: string[] = [];
+    product.category_ids = resolveNames(text('categories'), ctx.categories, 'category', missing).map((c) => String(c.id));
+    missing.forEach((m) => fail('categories', m));
+  }
+
+  if (text('attributes')) {
+    try {
+      product.attributes = parseAttributes(text('attributes'));
+    } catch (err: any) {
+      fail('attributes', err.message);
+    }
+  }
+  if (text('images')) {
+    product.image_urls = splitList(text('images'));
+    const bad = product.image_urls.filter((u) => !isHttpUrl(u));
+    if (bad.length) fail('images', `Not an http(s) URL: ${bad.join(', ')}`);
+  }
+
+  if (action === 'create') {
+    if (!product.name) fail('title', 'Required for a new product');
+    if (product.price === undefined && !errors.some((e) => e.column === header('price'))) fail('price', 'Required for a new product');
+    if (!product.subcategory_ids?.length && !text('subcategories')) fail('subcategories', 'Required for a new product');
+  }
+
+  return { action, product, errors };
+}
+
+/** Header row + data rows → what an import would do, row by row. Nothing here talks to the backend. */
+export function validateCatalogTable(table: string[][], ctx: CatalogContext): CatalogPreview {
+  const preview: CatalogPreview = { errors: [], ignored_columns: [], rows: [], counts: { create: 0, update: 0, invalid: 0 } };
+  const [head = [], ...body] = table;
+
+  const columns = head.map((h) => COLUMN_BY_HEADER.get(headerKey(h)) || null);
+  head.forEach((h, i) => {
+    if (!columns[i] && h.trim()) preview.ignored_columns.push(h.trim());
+  });
+  const seen = new Set<CatalogColumn>();
+  columns.forEach((c, i) => {
+    if (!c) return;
+    if (seen.has(c)) preview.errors.push(`Column "${head[i].trim()}" appears more than once`);
+    seen.add(c);
+  });
+  if (!seen.has('sku') && !seen.has('title')) preview.errors.push('The first row must be a header with at least a SKU or Title column');
+
+  const data = body.map((cells, i) => ({ cells, row: i + 2 })).filter(({ cells }) => cells.some((c) => c.trim()));
+  if (!data.length) preview.errors.push('The file has no product rows');
+  if (data.length > MAX_IMPORT_ROWS) preview.errors.push(`At most ${MAX_IMPORT_ROWS} rows per import (this file has ${data.length})`);
+  if (preview.errors.length) return preview;
+
+  const skuRows = new Map<string, number>();
+  for (const { cells, row } of data) {
+    const byColumn: Partial<Record<CatalogColumn, string>> = {};
+    columns.forEach((c, i) => {
+      if (c) byColumn[c] = unsafeCell(cells[i] ?? '');
+    });
+    const parsed = parseRow(byColumn, ctx);
+
+    const sku = parsed.product.sku;
+    if (sku && skuRows.has(sku)) parsed.errors.push({ column: 'SKU', message: `Duplicate of row ${skuRows.get(sku)}` });
+    else if (sku) skuRows.set(sku, row);
+
+    preview.rows.push({ row, ...parsed });
+    if (parsed.errors.length) preview.counts.invalid++;
+    else preview.counts[parsed.action]++;
+  }
+  return preview;
+}
+
+/* =========================================================
+   CLIENT
+   ========================================================= */
+
+async function readJSON(res: Response, fallback: string) {
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw Object.assign(new Error(data?.error || fallback), { data });
+  return data;
+}
+
+export const catalogExportUrl = (format: 'csv' | 'xlsx') => `/api/admin/catalog/export?format=${format}`;
+
+/** Dry run: validates the file against the live catalog and changes nothing. */
+export async function previewCatalogImport(file: File): Promise<CatalogPreview> {
+  const body = new FormData();
+  body.set('file', file);
+  body.set('mode', 'preview');
+  const res = await fetch('/api/admin/catalog/import', { method: 'POST', credentials: 'same-origin', body });
+  return (await readJSON(res, 'Failed to read the file')).preview;
+}
+
+/** Starts the import in the background; invalid rows are skipped only when asked to. */
+export async function startCatalogImport(file: File, skipInvalid: boolean): Promise<CatalogImportJob> {
+  const body = new FormData();
+  body.set('file', file);
+  body.set('mode', 'run');
+  if (skipInvalid) body.set('skip_invalid', '1');
+  const res = await fetch('/api/admin/catalog/import', { method: 'POST', credentials: 'same-origin', body });
+  return (await readJSON(res, 'Failed to start the import')).job;
+}
+
+export async function fetchCatalogImportJob(job_id: string, signal?: AbortSignal): Promise<CatalogImportJob> {
+  const res = await fetch(`/api/admin/catalog/import?${new URLSearchParams({ job_id }).toString()}`, {
+    credentials: 'same-origin',
+    cache: 'no-store',
+    signal,
+  });
+  return (await readJSON(res, 'Failed to load the import')).job;
+}
@@ -0,0 +1,107 @@
+import { accountHeaders, api, cartOwner, orderIdFrom } from './apiClient';
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+// Shape stored by admin CheckoutSettings (`/api/settings/checkout/`)
+export type CheckoutSettings = {
+  guestCheckout: boolean;
+};
+
+/* =========================================================
+   LOADERS
+   ========================================================= */
+
+const DEFAULT_SETTINGS: CheckoutSettings = { guestCheckout: false };
+
+export async function fetchCheckoutSettings(signal?: AbortSignal): Promise<CheckoutSettings> {
+  try {
+    const res = await fetch('/api/settings/checkout/', { cache: 'no-store', signal });
+    if (!res.ok) return DEFAULT_SETTINGS;
+    const data = await res.json();
+    return { guestCheckout: data?.guestCheckout === true };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Headers on every page ask the same question; one request per page load is plenty
+let guestCheckoutLookup: Promise<boolean> | null = null;
+
+export function isGuestCheckoutEnabled() {
+  if (!guestCheckoutLookup) guestCheckoutLookup = fetchCheckoutSettings().then((s) => s.guestCheckout);
+  return guestCheckoutLookup;
+}
+
+/* =========================================================
+   PLACING THE ORDER
+   ========================================================= */
+
+/**
+ * Saves the order through /api/orders, which stamps the verified cart owner
+ * (so account orders show up on every device) and the initial payment status.
+ */
+export async function placeOrder(payload: Record<string, unknown>): Promise<string> {
+  const res = await fetch('/api/orders', {
+    method: 'POST',
+    headers: await accountHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify({ ...payload, device_uuid: cartOwner().device_uuid }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(String(data?.error || 'Failed to place order'));
+  return orderIdFrom(data);
+}
+
+/* =========================================================
+   GUEST ORDERS
+   ========================================================= */
+
+export function orderTrackingUrl(order_id: string, email: string) {
+  const q = new URLSearchParams({ order_id, email: email.trim() });
+  return `/orders/track?${q.toString()}`;
+}
+
+const guestOrderKey = (order_id: string) => `guest-order:${order_id}`;
+
+// Kept for the confirmation page, which may be reached via an external payment redirect
+export function rememberGuestOrder(order_id: string, email: string) {
+  try {
+    sessionStorage.setItem(guestOrderKey(order_id), email.trim());
+  } catch {}
+}
+
+export function guestOrderEmail(order_id: string) {
+  try {
+    return sessionStorage.getItem(guestOrderKey(order_id)) || '';
+  } catch {
+    return '';
+  }
+}
+
+/** Emails the tracking link; a failed send never undoes the order. */
+export async function sendGuestTrackingLink(order_id: string, email: string) {
+  const tracking_url = new URL(orderTrackingUrl(order_id, email), window.location.origin).toString();
+  try {
+    await api.sendOrderTrackingLink({ order_id, email: email.trim(), tracking_url });
+    return true;
+  } catch (err) {
+    console.error('Tracking link email failed:', err);
+    return false;
+  }
+}
+
+/** Asks the server to send the "order received" email; best-effort like the tracking link. */
+export async function sendOrderReceivedEmail(order_id: string) {
+  try {
+    const res = await fetch('/api/notifications/order-received', {
+      method: 'POST',
+      headers: await accountHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ order_id, device_uuid: cartOwner().device_uuid }),
+    });
+    return res.ok;
+  } catch (err) {
+    console.error('Order confirmation email failed:', err);
+    return false;
+  }
+}
@@ -0,0 +1,220 @@
+/* =========================================================
+   Transactional email templates. Admins edit the subject and
+   a plain-text body with {{placeholders}}; rendering wraps the
+   body in the branded HTML layout. Shared by the admin editor
+   (preview) and the server-side sender.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type EmailTemplateId =
+  | 'order_received'
+  | 'order_status_changed'
+  | 'order_shipped'
+  | 'callback_received'
+  | 'callback_scheduled'
+  | 'wishlist_back_in_stock'
+  | 'wishlist_price_drop';
+
+export type EmailTemplate = {
+  enabled: boolean;
+  subject: string;
+  body: string;
+};
+
+export type EmailTemplates = Record<EmailTemplateId, EmailTemplate>;
+
+export type EmailVars = Record<string, string | number | null | undefined>;
+
+export type RenderedEmail = { subject: string; text: string; html: string };
+
+/* =========================================================
+   DEFINITIONS
+   ========================================================= */
+
+export const EMAIL_TEMPLATE_IDS: EmailTemplateId[] = [
+  'order_received',
+  'order_status_changed',
+  'order_shipped',
+  'callback_received',
+  'callback_scheduled',
+  'wishlist_back_in_stock',
+  'wishlist_price_drop',
+];
+
+export const EMAIL_TEMPLATE_INFO: Record<EmailTemplateId, { label: string; trigger: string; placeholders: string[] }> = {
+  order_received: {
+    label: 'Order received',
+    trigger: 'Sent when a customer places an order.',
+    placeholders: ['customer_name', 'order_id', 'order_total', 'order_items', 'order_url', 'site_name'],
+  },
+  order_status_changed: {
+    label: 'Order status changed',
+    trigger: 'Sent when an admin moves an order to a new status the customer can see (except Shipped).',
+    placeholders: ['customer_name', 'order_id', 'order_status', 'status_reason', 'order_url', 'site_name'],
+  },
+  order_shipped: {
+    label: 'Order shipped',
+    trigger: 'Sent when an order is marked Shipped.',
+    placeholders: ['customer_name', 'order_id', 'carrier', 'tracking_number', 'tracking_url', 'order_url', 'site_name'],
+  },
+  callback_received: {
+    label: 'Call-back requested',
+    trigger: 'Sent when a customer asks for a call back from the home page.',
+    placeholders: ['customer_name', 'event_type', 'preferred_callback', 'site_name'],
+  },
+  callback_scheduled: {
+    label: 'Call-back scheduled',
+    trigger: 'Sent when an admin marks a call-back request Scheduled.',
+    placeholders: ['customer_name', 'event_type', 'preferred_callback', 'phone_number', 'site_name'],
+  },
+  wishlist_back_in_stock: {
+    label: 'Wishlist: back in stock',
+    trigger: 'Sent when wishlisted products come back in stock, to customers who turned the alert on.',
+    placeholders: ['customer_name', 'products', 'wishlist_url', 'site_name'],
+  },
+  wishlist_price_drop: {
+    label: 'Wishlist: price drop',
+    trigger: 'Sent when wishlisted products get cheaper, to customers who turned the alert on.',
+    placeholders: ['customer_name', 'products', 'wishlist_url', 'site_name'],
+  },
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: EmailTemplates = {
+  order_received: {
+    enabled: true,
+    subject: 'We received your order #{{order_id}}',
+    body:
+      'Hi {{customer_name}},\n\nThank you for your order. We have received it and will start on it shortly.\n\n' +
+      '{{order_items}}\n\nTotal: {{order_total}}\n\nYou can follow your order here: {{order_url}}\n\n{{site_name}}',
+  },
+  order_status_changed: {
+    enabled: true,
+    subject: 'Your order #{{order_id}} is now {{order_status}}',
+    body:
+      'Hi {{customer_name}},\n\nYour order #{{order_id}} is now {{order_status}}.\n\n{{status_reason}}\n\n' +
+      'Order details: {{order_url}}\n\n{{site_name}}',
+  },
+  order_shipped: {
+    enabled: true,
+    subject: 'Your order #{{order_id}} is on its way',
+    body:
+      'Hi {{customer_name}},\n\nGood news: your order #{{order_id}} has shipped with {{carrier}}.\n\n' +
+      'Tracking number: {{tracking_number}}\nTrack your parcel: {{tracking_url}}\n\n{{site_name}}',
+  },
+  callback_received: {
+    enabled: true,
+    subject: 'We got your call-back request',
+    body:
+      'Hi {{customer_name}},\n\nThanks for getting in touch about your {{event_type}}. ' +
+      'We will call you around {{preferred_callback}}.\n\n{{site_name}}',
+  },
+  callback_scheduled: {
+    enabled: true,
+    subject: 'Your call back is scheduled',
+    body:
+      'Hi {{customer_name}},\n\nWe have scheduled your call back about your {{event_type}} for {{preferred_callback}}. ' +
+      'We will call you on {{phone_number}}.\n\n{{site_name}}',
+  },
+  wishlist_back_in_stock: {
+    enabled: true,
+    subject: 'Back in stock from your wishlist',
+    body:
+      'Hi {{customer_name}},\n\nGood news: these items from your wishlist are back in stock.\n\n{{products}}\n\n' +
+      'See your wishlist: {{wishlist_url}}\n\n{{site_name}}',
+  },
+  wishlist_price_drop: {
+    enabled: true,
+    subject: 'Price drop on your wishlist',
+    body:
+      'Hi {{customer_name}},\n\nThese items from your wishlist just got cheaper.\n\n{{products}}\n\n' +
+      'See your wishlist: {{wishlist_url}}\n\n{{site_name}}',
+  },
+};
+
+// Example values for the admin preview
+export const SAMPLE_EMAIL_VARS: EmailVars = {
+  customer_name: 'Sara',
+  order_id: '10452',
+  order_total: 'AED 367.50',
+  order_items: '2 x Business Cards (Paper: Matte)\n1 x Roll-up Banner',
+  order_status: 'Completed',
+  status_reason: '',
+  order_url: 'https://example.com/orders',
+  carrier: 'Aramex',
+  tracking_number: '34859203841',
+  tracking_url: 'https://example.com/track/34859203841',
+  event_type: 'Wedding',
+  preferred_callback: '12 Nov 2026, 14:00',
+  phone_number: '+971 50 000 0000',
+  products: 'Roll-up Banner: AED 180.00 (was AED 220.00)\nhttps://example.com/home/banners/roll-up/products/118',
+  wishlist_url: 'https://example.com/wishlist',
+  site_name: 'Our team',
+};
+
+export const SUBJECT_MAX = 200;
+export const BODY_MAX = 5000;
+
+/** Problems with one edited template, or [] when it can be saved. */
+export function emailTemplateErrors(id: EmailTemplateId, t: any): string[] {
+  const label = EMAIL_TEMPLATE_INFO[id]?.label || id;
+  if (!t || typeof t !== 'object') return [`${label}: template is missing`];
+  const errors: string[] = [];
+  const subject = String(t.subject ?? '').trim();
+  const body = String(t.body ?? '').trim();
+  if (typeof t.enabled !== 'boolean') errors.push(`${label}: enabled must be true or false`);
+  if (!subject) errors.push(`${label}: subject is required`);
+  if (subject.length > SUBJECT_MAX) errors.push(`${label}: subject must be at most ${SUBJECT_MAX} characters`);
+  if (!body) errors.push(`${label}: body is required`);
+  if (body.length > BODY_MAX) errors.push(`${label}: body must be at most ${BODY_MAX} characters`);
+  return errors;
+}
+
+/** Stored templates → complete set; unknown ids are dropped, missing ones fall back to the defaults. */
+export function normalizeEmailTemplates(raw: any): EmailTemplates {
+  const out = {} as EmailTemplates;
+  for (const id of EMAIL_TEMPLATE_IDS) {
+    const t = raw?.[id];
+    const d = DEFAULT_EMAIL_TEMPLATES[id];
+    out[id] = {
+      enabled: typeof t?.enabled === 'boolean' ? t.enabled : d.enabled,
+      subject: typeof t?.subject === 'string' && t.subject.trim() ? t.subject : d.subject,
+      body: typeof t?.body === 'string' && t.body.trim() ? t.body : d.body,
+    };
+  }
+  return out;
+}
+
+/* =========================================================
+   RENDERING
+   ========================================================= */
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Unknown or empty placeholders render as nothing rather than "{{x}}"
+const fill = (tpl: string, vars: EmailVars) =>
+  tpl.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => String(vars[key] ?? ''));
+
+const linkify = (escaped: string) => escaped.replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1" style="color:#891F1A">$1</a>');
+
+export function renderEmailTemplate(tpl: EmailTemplate, vars: EmailVars): RenderedEmail {
+  const subject = fill(tpl.subject, vars).replace(/\s+/g, ' ').trim();
+  // blank lines left by empty placeholders collapse to one
+  const text = fill(tpl.body, vars).replace(/\n{3,}/g, '\n\n').trim();
+
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => `<p style="margin:0 0 14px">${linkify(escapeHtml(p)).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+  const html =
+    '<!doctype html><html><body style="margin:0;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif">' +
+    '<div style="max-width:560px;margin:24px auto;background:#fff;border-top:4px solid #891F1A;padding:24px;color:#222;font-size:14px;line-height:1.5">' +
+    paragraphs +
+    '</div></body></html>';
+
+  return { subject, text, html };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mergeStockLines,
+  outstandingReservation,
+  oversoldLines,
+  stockActionFor,
+  stockAlertFor,
+  stockShortages,
+  type StockLevel,
+  type StockMovement,
+} from './inventory';
+
+const level = (product_id: string, on_hand: number | null, reserved = 0, variant_signature = ''): StockLevel => ({
+  product_id,
+  variant_signature,
+  on_hand,
+  reserved,
+  label: product_id,
+  low_stock_threshold: null,
+});
+
+const move = (kind: StockMovement['kind'], quantity: number, order_id = 'o1'): StockMovement => ({
+  id: `${kind}-${quantity}`,
+  product_id: 'p1',
+  variant_signature: '',
+  kind,
+  quantity,
+  order_id,
+  actor: 'test',
+  note: '',
+  at: '2026-01-01T00:00:00Z',
+  on_hand_after: null,
+  reserved_after: null,
+});
+
+describe('mergeStockLines', () => {
+  it('adds up the same product and variant and drops empty lines', () => {
+    expect(
+      mergeStockLines([
+        { product_id: 'p1', variant_signature: '', quantity: 2 },
+        { product_id: 'p1', variant_signature: '', quantity: 1 },
+        { product_id: 'p1', variant_signature: 'red', quantity: 1 },
+        { product_id: 'p2', variant_signature: '', quantity: 0 },
+      ])
+    ).toEqual([
+      { product_id: 'p1', variant_signature: '', quantity: 3 },
+      { product_id: 'p1', variant_signature: 'red', quantity: 1 },
+    ]);
+  });
+});
+
+describe('stockShortages', () => {
+  it('adds up variants that share the product count', () => {
+    const lines = [
+      { product_id: 'p1', variant_signature: 'red', quantity: 2 },
+      { product_id: 'p1', variant_signature: 'blue', quantity: 2 },
+    ];
+    expect(stockShortages(lines, [level('p1', 5, 2)])).toEqual([
+      { product_id: 'p1', variant_signature: 'red', requested: 4, available: 3 },
+      { product_id: 'p1', variant_signature: 'blue', requested: 4, available: 3 },
+    ]);
+  });
+
+  it('never reports untracked products', () => {
+    expect(stockShortages([{ product_id: 'p1', variant_signature: '', quantity: 99 }], [level('p1', null)])).toEqual([]);
+  });
+});
+
+describe('oversoldLines', () => {
+  const lines = [{ product_id: 'p1', variant_signature: '', quantity: 3 }];
+
+  it('is empty when the order fit in what was available', () => {
+    expect(oversoldLines(lines, [level('p1', 5, 3)])).toEqual([]);
+  });
+
+  it('reports what was available before the order took its share', () => {
+    // 5 on hand, 1 held by someone else, then this order's 3 … and another checkout's 2
+    expect(oversoldLines(lines, [level('p1', 5, 6)])).toEqual([
+      { product_id: 'p1', variant_signature: '', requested: 3, available: 2 },
+    ]);
+  });
+});
+
+describe('outstandingReservation', () => {
+  it('is what the order reserved less what it released or sold', () => {
+    expect(outstandingReservation([move('reserve', 3), move('release', 1)], 'o1')).toEqual([
+      { product_id: 'p1', variant_signature: '', quantity: 2 },
+    ]);
+    expect(outstandingReservation([move('reserve', 3), move('commit', 3)], 'o1')).toEqual([]);
+    expect(outstandingReservation([move('reserve', 3, 'o2')], 'o1')).toEqual([]);
+  });
+});
+
+describe('stockActionFor', () => {
+  it('sells on completion, releases on cancel and decides refunds by whether it shipped', () => {
+    expect(stockActionFor({ from: 'processing', to: 'completed' })).toBe('commit');
+    expect(stockActionFor({ from: 'pending', to: 'cancelled' })).toBe('release');
+    expect(stockActionFor({ from: 'shipped', to: 'refunded' })).toBe('commit');
+    expect(stockActionFor({ from: 'processing', to: 'refunded' })).toBe('release');
+    expect(stockActionFor({ from: 'pending', to: 'processing' })).toBeNull();
+  });
+});
+
+describe('stockAlertFor', () => {
+  it('alerts only when a line is crossed', () => {
+    expect(stockAlertFor(3, 0, 5)).toBe('out_of_stock');
+    expect(stockAlertFor(8, 4, 5)).toBe('low_stock');
+    expect(stockAlertFor(4, 3, 5)).toBeNull();
+    expect(stockAlertFor(3, 4, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,497 @@
+import { accountHeaders, orderOwnerQuery, type CartOwner } from './apiClient';
+import type { OrderStatus, OrderStatusEvent } from './orderStatus';
+
+/* =========================================================
+   Stock movements. A product's on-hand count only changes
+   through the ledger: an order reserves what it needs when
+   it is placed, gives it back when it is cancelled, and the
+   reservation becomes a real decrement when it completes.
+   Admins record counts and corrections as adjustments.
+
+     available = on_hand − reserved
+
+   Products with attribute options can count each combination
+   (variant) on its own. A variant without its own row draws on
+   the product's count, so tracking variants is opt-in per row.
+
+   The ledger itself lives in the backend; these are the
+   shared types, the bookkeeping rules and the browser
+   helpers for our own /api/stock and inventory routes.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type StockMovementKind = 'reserve' | 'release' | 'commit' | 'adjust';
+
+export type StockMovement = {
+  id: string;
+  product_id: string;
+  variant_signature: string;
+  kind: StockMovementKind;
+  quantity: number; // always positive except for adjustments (signed)
+  order_id: string;
+  actor: string;
+  note: string;
+  at: string; // ISO
+  on_hand_after: number | null;
+  reserved_after: number | null;
+};
+
+// on_hand null = stock isn't tracked (never counted); variant_signature '' = the product's own count
+export type StockLevel = {
+  product_id: string;
+  variant_signature: string;
+  on_hand: number | null;
+  reserved: number;
+  label: string; // product name, plus the variant's options for variant rows
+  low_stock_threshold: number | null;
+};
+
+export type StockLine = { product_id: string; variant_signature: string; quantity: number };
+
+export type StockShortage = { product_id: string; variant_signature: string; requested: number; available: number };
+
+// One attribute combination as configured in the product modal and returned on products
+export type VariantStock = {
+  signature: string;
+  options: Record<string, string>; // attribute id → option id
+  label: string; // "Size: XL / Colour: Red", kept for pages without the attribute list
+  sku_suffix: string;
+  stock_quantity: number | null;
+  reserved: number;
+  low_stock_threshold: number | null;
+};
+
+/* =========================================================
+   CONSTANTS & NORMALISERS
+   ========================================================= */
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementKind, string> = {
+  reserve: 'Reserved',
+  release: 'Released',
+  commit: 'Sold',
+  adjust: 'Adjusted',
+};
+
+const STOCK_MOVEMENT_KINDS = Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementKind[];
+
+const intOrNull = (v: unknown) => {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Math.trunc(Number(v));
+  return Number.isFinite(n) ? n : null;
+};
+
+export function normalizeStockMovement(raw: any): StockMovement | null {
+  const kind = String(raw?.kind ?? '') as StockMovementKind;
+  if (!raw?.product_id || !STOCK_MOVEMENT_KINDS.includes(kind)) return null;
+  return {
+    id: String(raw.id ?? ''),
+    product_id: String(raw.product_id),
+    variant_signature: String(raw.variant_signature || ''),
+    kind,
+    quantity: intOrNull(raw.quantity) ?? 0,
+    order_id: String(raw.order_id || ''),
+    actor: String(raw.actor || ''),
+    note: String(raw.note || ''),
+    at: String(raw.at || raw.created_at || ''),
+    on_hand_after: intOrNull(raw.on_hand_after),
+    reserved_after: intOrNull(raw.reserved_after),
+  };
+}
+
+export const normalizeStockMovements = (raw: unknown): StockMovement[] =>
+  (Array.isArray(raw) ? raw : []).map(normalizeStockMovement).filter((m): m is StockMovement => !!m);
+
+export function normalizeStockLevel(raw: any): StockLevel | null {
+  if (!raw?.product_id && !raw?.id) return null;
+  return {
+    product_id: String(raw.product_id ?? raw.id),
+    variant_signature: String(raw.variant_signature || ''),
+    on_hand: intOrNull(raw.on_hand ?? raw.stock_quantity),
+    reserved: Math.max(0, intOrNull(raw.reserved ?? raw.reserved_quantity) ?? 0),
+    label: [raw.product_name ?? raw.name, raw.variant_label].filter(Boolean).join(' — '),
+    low_stock_threshold: intOrNull(raw.low_stock_threshold ?? raw.low_stock_alert),
+  };
+}
+
+/** Units that can still be sold; Infinity when the product's stock isn't tracked. */
+export const availableStock = (level: StockLevel | null | undefined) =>
+  level && level.on_hand !== null ? level.on_hand - level.reserved : Number.POSITIVE_INFINITY;
+
+/* =========================================================
+   VARIANTS
+   ========================================================= */
+
+/**
+ * The key of a combination of chosen options: "attr:option" pairs
+ * sorted by attribute id, so the same choice always gives the same
+ * key whatever order it was made in. No options → '' (the product).
+ */
+export const variantSignature = (selected: Record<string, string> | null | undefined) =>
+  Object.entries(selected || {})
+    .filter(([attr, option]) => attr && option)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([attr, option]) => `${attr}:${option}`)
+    .join('|');
+
+/** Cart and order lines: computed from their chosen options, else whatever signature they carry. */
+export const lineSignature = (line: { selected_attributes?: unknown; variant_signature?: unknown }) => {
+  const selected = line?.selected_attributes;
+  const computed =
+    selected && typeof selected === 'object' && !Array.isArray(selected)
+      ? variantSignature(selected as Record<string, string>)
+      : '';
+  return computed || String(line?.variant_signature || '');
+};
+
+export function normalizeVariantStock(raw: any): VariantStock | null {
+  const options: Record<string, string> = {};
+  if (raw?.options && typeof raw.options === 'object') {
+    Object.entries(raw.options).forEach(([k, v]) => {
+      if (k && v !== null && v !== undefined && v !== '') options[k] = String(v);
+    });
+  }
+  const signature = variantSignature(options) || String(raw?.signature || '');
+  if (!signature) return null;
+  return {
+    signature,
+    options,
+    label: String(raw?.label || ''),
+    sku_suffix: String(raw?.sku_suffix || ''),
+    stock_quantity: intOrNull(raw?.stock_quantity ?? raw?.on_hand),
+    reserved: Math.max(0, intOrNull(raw?.reserved ?? raw?.reserved_quantity) ?? 0),
+    low_stock_threshold: intOrNull(raw?.low_stock_threshold),
+  };
+}
+
+export const normalizeVariantStocks = (raw: unknown): VariantStock[] =>
+  (Array.isArray(raw) ? raw : []).map(normalizeVariantStock).filter((v): v is VariantStock => !!v);
+
+export const variantAvailable = (v: VariantStock) =>
+  v.stock_quantity === null ? Number.POSITIVE_INFINITY : v.stock_quantity - v.reserved;
+
+export const isLowStock = (available: number, threshold: number | null | undefined) =>
+  Number.isFinite(available) && (available <= 0 || (threshold !== null && threshold !== undefined && available <= threshold));
+
+// Grids beyond this are unmanageable by hand; admins should split the product instead
+export const MAX_VARIANT_COMBINATIONS = 300;
+
+type AttributeLike = { id: string; name: string; options: { id: string; label: string }[] };
+
+/** Every combination of one option per attribute, in attribute order; [] past MAX_VARIANT_COMBINATIONS. */
+export function variantCombinations(attrs: AttributeLike[]): { signature: string; options: Record<string, string>; label: string }[] {
+  const used = attrs.filter((a) => a.id && a.options.length);
+  if (!used.length) return [];
+  if (used.reduce((n, a) => n * a.options.length, 1) > MAX_VARIANT_COMBINATIONS) return [];
+
+  let combos: { options: Record<string, string>; parts: string[] }[] = [{ options: {}, parts: [] }];
+  for (const attr of used) {
+    combos = combos.flatMap((c) =>
+      attr.options.map((o) => ({
+        options: { ...c.options, [attr.id]: o.id },
+        parts: [...c.parts, `${attr.name}: ${o.label}`],
+      }))
+    );
+  }
+  return combos.map((c) => ({ signature: variantSignature(c.options), options: c.options, label: c.parts.join(' / ') }));
+}
+
+/* =========================================================
+   BOOKKEEPING
+   ========================================================= */
+
+const lineKey = (l: Pick<StockLine, 'product_id' | 'variant_signature'>) => `${l.product_id}|${l.variant_signature}`;
+
+/** Same product + variant lines added together; zero and negative quantities dropped. */
+export function mergeStockLines(lines: StockLine[]): StockLine[] {
+  const merged = new Map<string, StockLine>();
+  for (const l of lines) {
+    const quantity = Math.trunc(Number(l.quantity)) || 0;
+    if (!l.product_id || quantity <= 0) continue;
+    const key = lineKey(l);
+    const prev = merged.get(key);
+    merged.set(key, prev ? { ...prev, quantity: prev.quantity + quantity } : { ...l, quantity });
+  }
+  return Array.from(merged.values());
+}
+
+/** What a backend order (show-specific-order) takes out of stock. */
+export const orderStockLines = (order: any): StockLine[] =>
+  mergeStockLines(
+    (Array.isArray(order?.item?.detail) ? order.item.detail : []).map((d: any) => ({
+      product_id: String(d?.product_id ?? ''),
+      variant_signature: lineSignature(d),
+      quantity: Number(d?.quantity) || 1,
+    }))
+  );
+
+/** The count a line draws on: its variant's own row, else the product's. */
+export function levelFor(levels: StockLevel[], line: Pick<StockLine, 'product_id' | 'variant_signature'>) {
+  const own = line.variant_signature
+    ? levels.find((l) => l.product_id === line.product_id && l.variant_signature === line.variant_signature)
+    : undefined;
+  return own || levels.find((l) => l.product_id === line.product_id && !l.variant_signature) || null;
+}
+
+/**
+ * Lines that ask for more than is available. Variants without their
+ * own count share the product's, so their demand is added up first.
+ * Each shortage names the line's own variant.
+ */
+export function stockShortages(lines: StockLine[], levels: StockLevel[]): StockShortage[] {
+  const merged = mergeStockLines(lines);
+  const demand = new Map<StockLevel | null, number>();
+  const levelOf = merged.map((l) => levelFor(levels, l));
+  merged.forEach((l, i) => demand.set(levelOf[i], (demand.get(levelOf[i]) || 0) + l.quantity));
+
+  const short: StockShortage[] = [];
+  merged.forEach((l, i) => {
+    const level = levelOf[i];
+    const available = availableStock(level);
+    const requested = demand.get(level) || 0;
+    if (requested > available) {
+      short.push({
+        product_id: l.product_id,
+        variant_signature: l.variant_signature,
+        requested,
+        available: Math.max(0, available),
+      });
+    }
+  });
+  return short;
+}
+
+/**
+ * After a reservation: the lines it left short because someone bought
+ * the last units in between. `after` already counts the order's own hold.
+ */
+export function oversoldLines(lines: StockLine[], after: StockLevel[]): StockShortage[] {
+  const merged = mergeStockLines(lines);
+  const held = new Map<StockLevel, number>();
+  for (const l of merged) {
+    const level = levelFor(after, l);
+    if (level) held.set(level, (held.get(level) || 0) + l.quantity);
+  }
+  return stockShortages(merged, after.map((level) => ({ ...level, reserved: level.reserved - (held.get(level) || 0) })));
+}
+
+/**
+ * What an order still holds: its reservations less whatever has
+ * been released or sold since. Empty once the order is settled, so
+ * replaying a status change never moves stock twice.
+ */
+export function outstandingReservation(movements: StockMovement[], order_id: string): StockLine[] {
+  const held = new Map<string, StockLine>();
+  for (const m of movements) {
+    if (m.order_id !== order_id || m.kind === 'adjust') continue;
+    const key = lineKey(m);
+    const prev = held.get(key)?.quantity || 0;
+    const quantity = m.kind === 'reserve' ? prev + m.quantity : prev - m.quantity;
+    held.set(key, { product_id: m.product_id, variant_signature: m.variant_signature, quantity });
+  }
+  return Array.from(held.values()).filter((l) => l.quantity > 0);
+}
+
+/** An order that has ever reserved stock is not reserved again (checkout retries, admin re-saves). */
+export const hasReservation = (movements: StockMovement[], order_id: string) =>
+  movements.some((m) => m.order_id === order_id && m.kind === 'reserve');
+
+/**
+ * The stock move a status change settles the reservation with, if any.
+ * Refunds after the parcel has left count as sold — the goods don't
+ * come back on their own; a return is recorded as an adjustment.
+ */
+export function stockActionFor(event: Pick<OrderStatusEvent, 'from' | 'to'>): 'release' | 'commit' | null {
+  const shippedFrom: (OrderStatus | null)[] = ['shipped', 'completed'];
+  if (event.to === 'completed') return 'commit';
+  if (event.to === 'cancelled') return 'release';
+  if (event.to === 'refunded') return shippedFrom.includes(event.from) ? 'commit' : 'release';
+  return null;
+}
+
+/* =========================================================
+   ALERTS & REORDERING
+   ========================================================= */
+
+export type StockAlertKind = 'low_stock' | 'out_of_stock';
+
+/**
+ * The alert a change of available stock raises, if it crossed a line:
+ * reaching zero, or dropping to the threshold. Staying below a line
+ * doesn't repeat the alert; the daily digest covers what is still low.
+ */
+export function stockAlertFor(before: number, after: number, threshold: number | null): StockAlertKind | null {
+  if (!Number.isFinite(before) || !Number.isFinite(after) || after >= before) return null;
+  if (after <= 0 && before > 0) return 'out_of_stock';
+  if (threshold !== null && after > 0 && after <= threshold && before > threshold) return 'low_stock';
+  return null;
+}
+
+// How much available stock a movement of each kind takes (selling reserved units changes nothing)
+export const availableChange = (kind: StockMovementKind, quantity: number) =>
+  kind === 'reserve' ? -quantity : kind === 'release' ? quantity : kind === 'adjust' ? quantity : 0;
+
+export type ReorderSuggestion = {
+  product_id: string;
+  variant_signature: string;
+  label: string;
+  available: number;
+  threshold: number | null;
+  sold: number; // over the sales window
+  per_day: number;
+  days_left: number | null; // null when nothing sold
+  suggested: number;
+};
+
+export const SALES_WINDOW_DAYS = 30;
+// Order enough to cover this many days of sales, and never less than to clear the threshold
+export const REORDER_COVER_DAYS = 30;
+// Running out sooner than this counts as low even above the threshold (typical supplier lead time)
+export const REORDER_LEAD_DAYS = 14;
+
+/**
+ * What to reorder, most urgent first: counts at or below their
+ * threshold, or that will run out within the lead time at the recent
+ * rate of sale (`commits` = "sold" movements in the sales window).
+ */
+export function reorderSuggestions(levels: StockLevel[], commits: StockMovement[]): ReorderSuggestion[] {
+  const soldBy = new Map<StockLevel, number>();
+  for (const m of commits) {
+    if (m.kind !== 'commit') continue;
+    const level = levelFor(levels, m);
+    if (level) soldBy.set(level, (soldBy.get(level) || 0) + m.quantity);
+  }
+
+  const out: ReorderSuggestion[] = [];
+  for (const level of levels) {
+    const available = availableStock(level);
+    if (!Number.isFinite(available)) continue;
+    const sold = soldBy.get(level) || 0;
+    const per_day = sold / SALES_WINDOW_DAYS;
+    const days_left = per_day > 0 ? Math.max(0, available) / per_day : null;
+    const low = isLowStock(available, level.low_stock_threshold);
+    if (!low && !(days_left !== null && days_left < REORDER_LEAD_DAYS)) continue;
+
+    const target = Math.max((level.low_stock_threshold ?? 0) + 1, Math.ceil(per_day * REORDER_COVER_DAYS));
+    out.push({
+      product_id: level.product_id,
+      variant_signature: level.variant_signature,
+      label: level.label || level.product_id,
+      available,
+      threshold: level.low_stock_threshold,
+      sold,
+      per_day: Math.round(per_day * 100) / 100,
+      days_left: days_left === null ? null : Math.floor(days_left),
+      suggested: Math.max(0, target - available),
+    });
+  }
+  return out.sort((a, b) => a.available - b.available || (a.days_left ?? Infinity) - (b.days_left ?? Infinity));
+}
+
+export type InventoryDigest = {
+  generated_at: string;
+  out_of_stock: StockLevel[];
+  low_stock: StockLevel[];
+  suggestions: ReorderSuggestion[];
+};
+
+/* =========================================================
+   CLIENT
+   ========================================================= */
+
+async function readJSON(res: Response, fallback: string) {
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || fallback);
+  return data;
+}
+
+/** Checkout: which lines can't be fulfilled right now. Resolves [] when the check itself fails. */
+export async function checkStock(lines: StockLine[], signal?: AbortSignal): Promise<StockShortage[]> {
+  try {
+    const res = await fetch('/api/stock/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lines: mergeStockLines(lines) }),
+      signal,
+    });
+    const data = await readJSON(res, 'Stock check failed');
+    return Array.isArray(data.shortages) ? data.shortages : [];
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn('Stock check failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Right after save-order: holds the order's items. Customers pass their
+ * cart owner; admins are recognised by their session cookie. Resolves the
+ * lines that were oversold (still held, for an admin to sort out); throws
+ * when nothing could be reserved.
+ */
+export async function reserveOrderStock(order_id: string, owner?: CartOwner): Promise<StockShortage[]> {
+  const q = orderOwnerQuery(order_id, owner);
+  const res = await fetch(`/api/stock/reserve?${q.toString()}`, {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: owner ? await accountHeaders() : undefined,
+  });
+  if (res.status === 409) {
+    const data = await res.json().catch(() => ({}));
+    if (Array.isArray(data?.shortages)) return data.shortages;
+  }
+  await readJSON(res, 'Failed to reserve stock');
+  return [];
+}
+
+/** Admin: a product's levels (its own count first, then variants) and its movements, newest first. */
+export async function fetchStockLedger(
+  product_id: string,
+  signal?: AbortSignal
+): Promise<{ levels: StockLevel[]; movements: StockMovement[] }> {
+  const q = new URLSearchParams({ product_id });
+  const res = await fetch(`/api/admin/inventory/ledger?${q.toString()}`, {
+    credentials: 'same-origin',
+    cache: 'no-store',
+    signal,
+  });
+  const data = await readJSON(res, 'Failed to load stock ledger');
+  const levels: StockLevel[] = (Array.isArray(data.levels) ? data.levels : [])
+    .map(normalizeStockLevel)
+    .filter(Boolean)
+    .sort((a: StockLevel, b: StockLevel) => (a.variant_signature ? 1 : 0) - (b.variant_signature ? 1 : 0));
+  return { levels, movements: normalizeStockMovements(data.movements) };
+}
+
+/** Admin: today's low/out-of-stock lists and reorder suggestions. */
+export async function fetchInventoryDigest(signal?: AbortSignal): Promise<InventoryDigest> {
+  const res = await fetch('/api/admin/inventory/digest', { credentials: 'same-origin', cache: 'no-store', signal });
+  const data = await readJSON(res, 'Failed to load inventory digest');
+  const levels = (raw: unknown) => (Array.isArray(raw) ? raw : []).map(normalizeStockLevel).filter(Boolean);
+  return {
+    generated_at: String(data.generated_at || ''),
+    out_of_stock: levels(data.out_of_stock),
+    low_stock: levels(data.low_stock),
+    suggestions: Array.isArray(data.suggestions) ? data.suggestions : [],
+  };
+}
+
+/** Admin: set a counted quantity or add/remove units, with a note for the ledger. */
+export async function adjustStock(input: {
+  product_ids: string[];
+  variant_signature?: string; // only with a single product
+  mode: 'set' | 'delta';
+  quantity: number;
+  note: string;
+}): Promise<StockLevel[]> {
+  const res = await fetch('/api/admin/inventory/adjust', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify(input),
+  });
+  const data = await readJSON(res, 'Failed to adjust stock');
+  return (Array.isArray(data.levels) ? data.levels : []).map(normalizeStockLevel).filter(Boolean);
+}
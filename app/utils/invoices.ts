@@ -0,0 +1,38 @@
+import { parseOrderStatus } from './orderStatus';
+import { accountHeaders, orderOwnerQuery, type CartOwner } from './apiClient';
+
+/* =========================================================
+   Invoice downloads — PDFs are rendered by /api/invoices.
+   Admins follow a plain link (session cookie); customers
+   download through fetch so their ID token can go along.
+   ========================================================= */
+
+export type InvoiceKind = 'invoice' | 'credit_note';
+
+// A credit note reverses the invoice once the money is (or will be) given back
+export const hasCreditNote = (rawStatus: unknown) => {
+  const s = parseOrderStatus(rawStatus);
+  return s === 'cancelled' || s === 'refunded';
+};
+
+export function invoiceUrl(order_id: string, kind: InvoiceKind = 'invoice', owner?: CartOwner) {
+  return `/api/invoices?${orderOwnerQuery(order_id, owner, { kind }).toString()}`;
+}
+
+/** Customer side: fetches the PDF as the cart owner and hands it to the browser as a download. */
+export async function downloadInvoice(order_id: string, kind: InvoiceKind, owner: CartOwner) {
+  const res = await fetch(invoiceUrl(order_id, kind, owner), { headers: await accountHeaders(), cache: 'no-store' });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(String(data?.error || 'Failed to download the invoice'));
+  }
+  const name = /filename="([^"]+)"/.exec(res.headers.get('content-disposition') || '')?.[1] || `${kind}-${order_id}.pdf`;
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
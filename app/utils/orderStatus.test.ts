@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, normalizeStatusHistory, parseOrderStatus, transitionError } from './orderStatus';
+
+describe('parseOrderStatus', () => {
+  it('accepts the spellings the backend and old orders use, and never guesses', () => {
+    expect(parseOrderStatus('On Hold')).toBe('on_hold');
+    expect(parseOrderStatus(' awaiting-payment ')).toBe('awaiting_payment');
+    expect(parseOrderStatus('PROCESSING')).toBe('processing');
+    expect(parseOrderStatus('in transit')).toBeNull();
+    expect(parseOrderStatus(null)).toBeNull();
+  });
+});
+
+describe('transitions', () => {
+  it('only allows the moves in the state machine', () => {
+    expect(canTransition('processing', 'shipped')).toBe(true);
+    expect(canTransition('pending', 'shipped')).toBe(false);
+    expect(canTransition('refunded', 'pending')).toBe(false);
+    expect(canTransition(null, 'pending')).toBe(true);
+    expect(canTransition(null, 'shipped')).toBe(false);
+  });
+
+  it('explains refusals and asks for a reason where one is required', () => {
+    expect(transitionError('pending', 'pending')).toBe('Order is already Pending');
+    expect(transitionError('shipped', 'cancelled')).toBe('An order cannot go from Shipped to Cancelled');
+    expect(transitionError(null, 'completed')).toBe('A new order cannot start as Completed');
+    expect(transitionError('pending', 'cancelled', '  ')).toBe('A reason is required to mark an order Cancelled');
+    expect(transitionError('pending', 'cancelled', 'Customer asked')).toBe('');
+    expect(transitionError('pending', 'lost')).toBe('Unknown order status');
+  });
+});
+
+describe('normalizeStatusHistory', () => {
+  it('drops unknown states and sorts oldest first', () => {
+    const history = normalizeStatusHistory([
+      { from: 'pending', to: 'processing', at: '2026-01-02T00:00:00Z', actor: 'Sara', reason: ' ' },
+      { to: 'teleported', at: '2026-01-03T00:00:00Z' },
+      { status: 'Pending', created_at: '2026-01-01T00:00:00Z', actor_type: 'customer' },
+    ]);
+    expect(history).toEqual([
+      { from: null, to: 'pending', at: '2026-01-01T00:00:00Z', actor: 'customer', actor_type: 'customer', reason: '' },
+      {
+        from: 'pending',
+        to: 'processing',
+        at: '2026-01-02T00:00:00Z',
+        actor: 'Sara',
+        actor_type: 'admin',
+        reason: '',
+      },
+    ]);
+    expect(normalizeStatusHistory('nope')).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+/* =========================================================
+   Order lifecycle — the one list of order states, which moves
+   between them are allowed, and the history of moves made.
+   Used by the admin pages, the customer pages and the
+   /api/admin/orders/status route that performs transitions.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+// Values as stored by the backend (lower-case, snake_case)
+export type OrderStatus =
+  | 'pending'
+  | 'awaiting_payment'
+  | 'processing'
+  | 'on_hold'
+  | 'shipped'
+  | 'completed'
+  | 'cancelled'
+  | 'refunded';
+
+export type OrderStatusEvent = {
+  from: OrderStatus | null; // null for the order being placed
+  to: OrderStatus;
+  at: string; // ISO timestamp
+  actor: string; // admin name, "customer" or "system"
+  actor_type: 'admin' | 'customer' | 'system';
+  reason: string;
+};
+
+/* =========================================================
+   STATES & TRANSITIONS
+   ========================================================= */
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'awaiting_payment',
+  'processing',
+  'on_hold',
+  'shipped',
+  'completed',
+  'cancelled',
+  'refunded',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  awaiting_payment: 'Awaiting Payment',
+  processing: 'Processing',
+  on_hold: 'On Hold',
+  shipped: 'Shipped',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+// Customers don't see the difference between the first internal steps
+export const CUSTOMER_STATUS_LABELS: Record<OrderStatus, string> = {
+  ...ORDER_STATUS_LABELS,
+  pending: 'In Processing',
+  processing: 'In Processing',
+};
+
+// Tailwind classes for badges/pills, shared so every page colours a state the same way
+export const ORDER_STATUS_TONES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  awaiting_payment: 'bg-orange-100 text-orange-800',
+  processing: 'bg-blue-100 text-blue-800',
+  on_hold: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-200 text-gray-700',
+  refunded: 'bg-red-100 text-red-800',
+};
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['awaiting_payment', 'processing', 'on_hold', 'cancelled'],
+  awaiting_payment: ['pending', 'processing', 'on_hold', 'cancelled'],
+  processing: ['on_hold', 'shipped', 'cancelled', 'refunded'],
+  on_hold: ['pending', 'awaiting_payment', 'processing', 'cancelled'],
+  shipped: ['completed', 'refunded'],
+  completed: ['refunded'],
+  cancelled: ['refunded'], // a paid order that was cancelled still needs its refund recorded
+  refunded: [],
+};
+
+// Statuses a new order can be created in from the admin
+export const INITIAL_ORDER_STATUSES: OrderStatus[] = ['pending', 'awaiting_payment', 'processing', 'on_hold'];
+
+// Moves into these states must say why; the reason is shown on the timeline
+export const REASON_REQUIRED: OrderStatus[] = ['on_hold', 'cancelled', 'refunded'];
+
+export const isOrderStatus = (v: unknown): v is OrderStatus =>
+  typeof v === 'string' && (ORDER_STATUSES as string[]).includes(v);
+
+/** "On Hold" / "on-hold" / "ON_HOLD" → "on_hold"; anything unknown → null (never guessed). */
+export function parseOrderStatus(raw: unknown): OrderStatus | null {
+  const v = String(raw ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  return isOrderStatus(v) ? v : null;
+}
+
+export const nextOrderStatuses = (from: OrderStatus | null): OrderStatus[] =>
+  from ? ORDER_TRANSITIONS[from] : INITIAL_ORDER_STATUSES;
+
+export const canTransition = (from: OrderStatus | null, to: OrderStatus) => nextOrderStatuses(from).includes(to);
+
+export const requiresReason = (to: OrderStatus) => REASON_REQUIRED.includes(to);
+
+export const isFinalStatus = (s: OrderStatus) => ORDER_TRANSITIONS[s].length === 0;
+
+/** Raw backend value → admin label; unknown values are shown as-is so they stand out. */
+export const orderStatusLabel = (raw: unknown) => {
+  const s = parseOrderStatus(raw);
+  return s ? ORDER_STATUS_LABELS[s] : String(raw || '—');
+};
+
+export const customerStatusLabel = (raw: unknown) => {
+  const s = parseOrderStatus(raw);
+  return s ? CUSTOMER_STATUS_LABELS[s] : String(raw || '—');
+};
+
+/** Why a move is refused, or "" when it is allowed. */
+export function transitionError(from: OrderStatus | null, to: unknown, reason = ''): string {
+  if (!isOrderStatus(to)) return 'Unknown order status';
+  if (from === to) return `Order is already ${ORDER_STATUS_LABELS[to]}`;
+  if (!canTransition(from, to)) {
+    return from
+      ? `An order cannot go from ${ORDER_STATUS_LABELS[from]} to ${ORDER_STATUS_LABELS[to]}`
+      : `A new order cannot start as ${ORDER_STATUS_LABELS[to]}`;
+  }
+  if (requiresReason(to) && !reason.trim()) return `A reason is required to mark an order ${ORDER_STATUS_LABELS[to]}`;
+  return '';
+}
+
+/* =========================================================
+   HISTORY
+   ========================================================= */
+
+/** Backend `status_history` → oldest-first events; malformed entries are dropped. */
+export function normalizeStatusHistory(raw: unknown): OrderStatusEvent[] {
+  if (!Array.isArray(raw)) return [];
+  const events: OrderStatusEvent[] = [];
+  for (const e of raw) {
+    const to = parseOrderStatus(e?.to ?? e?.status);
+    if (!to) continue;
+    const actorType = e?.actor_type === 'customer' || e?.actor_type === 'system' ? e.actor_type : 'admin';
+    events.push({
+      from: parseOrderStatus(e?.from),
+      to,
+      at: String(e?.at ?? e?.changed_at ?? e?.created_at ?? ''),
+      actor: String(e?.actor ?? e?.actor_name ?? (actorType === 'admin' ? '' : actorType)),
+      actor_type: actorType,
+      reason: String(e?.reason ?? '').trim(),
+    });
+  }
+  return events.sort((a, b) => (Date.parse(a.at) || 0) - (Date.parse(b.at) || 0));
+}
+
+/* =========================================================
+   CLIENT
+   ========================================================= */
+
+/**
+ * Admin-side transition. Goes through our own route so the move is
+ * checked against the state machine and stamped with the signed-in
+ * admin before it reaches the backend.
+ */
+export async function changeOrderStatus(input: {
+  order_id: string;
+  from: OrderStatus | null;
+  to: OrderStatus;
+  reason?: string;
+}): Promise<OrderStatusEvent> {
+  const res = await fetch('/api/admin/orders/status', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to update order status');
+  return data.event as OrderStatusEvent;
+}
@@ -0,0 +1,240 @@
+import { accountHeaders, apiPost, orderOwnerQuery, type CartOwner } from './apiClient';
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type PaymentMethodId = 'cod' | 'card' | 'whatsapp' | 'mock';
+
+export type PaymentStatus = 'unpaid' | 'pending' | 'paid' | 'failed' | 'cancelled';
+
+// Shape stored by admin PaymentSettings (`/api/settings/payment/`); keys arrive masked
+export type PaymentSettings = {
+  stripeKey: string;
+  paypalKey: string;
+  codEnabled: boolean;
+  mode: 'sandbox' | 'live';
+};
+
+export type PaymentIntent = {
+  order_id: string;
+  amount: number;
+  currency: string;
+  customer: { name: string; email: string; phone: string };
+  summary: string; // plain-text order summary (used by WhatsApp handoff)
+};
+
+export type PaymentOutcome = {
+  payment_status: PaymentStatus;
+  // where the browser should go next (gateway page or our confirmation page)
+  redirect_url: string;
+  reference?: string;
+};
+
+export interface PaymentProvider {
+  id: PaymentMethodId;
+  label: string;
+  description: string;
+  isAvailable(settings: PaymentSettings): boolean;
+  start(intent: PaymentIntent): Promise<PaymentOutcome>;
+}
+
+export const WHATSAPP_NUMBER = '971545396249';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  pending: 'Pending',
+  paid: 'Paid',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// payment_status a new order starts with. Set by our order route (never the
+// browser); after that only the server moves it on, e.g. marks it paid.
+export const INITIAL_PAYMENT_STATUS: Record<PaymentMethodId, Extract<PaymentStatus, 'unpaid' | 'pending'>> = {
+  cod: 'pending',
+  card: 'unpaid',
+  whatsapp: 'pending',
+  mock: 'unpaid',
+};
+
+/* =========================================================
+   HELPERS
+   ========================================================= */
+
+// No status in the URL: the confirmation page asks the server. `cancelled`
+// only picks the wording when no payment was made (gateway left or never opened).
+export function confirmationUrl(params: {
+  order_id: string;
+  method: PaymentMethodId;
+  ref?: string;
+  cancelled?: boolean;
+}) {
+  const q = new URLSearchParams({ order_id: params.order_id, method: params.method });
+  if (params.ref) q.set('ref', params.ref);
+  if (params.cancelled) q.set('cancelled', '1');
+  return `/checkout2/confirmation?${q.toString()}`;
+}
+
+// The mock marks orders paid without any money moving, so production only offers it when asked to
+export const paymentMockAllowed = () =>
+  process.env.NODE_ENV !== 'production' || process.env.NEXT_PUBLIC_PAYMENT_MOCK === 'true';
+
+const absolute = (path: string) =>
+  typeof window === 'undefined' ? path : new URL(path, window.location.origin).toString();
+
+/* =========================================================
+   PROVIDERS
+   ========================================================= */
+
+const cashOnDelivery: PaymentProvider = {
+  id: 'cod',
+  label: 'Cash on Delivery',
+  description: 'Pay in cash or by card when your order arrives.',
+  isAvailable: (s) => !!s.codEnabled,
+  async start(intent) {
+    return {
+      payment_status: 'pending',
+      redirect_url: confirmationUrl({ order_id: intent.order_id, method: 'cod' }),
+    };
+  },
+};
+
+const cardGateway: PaymentProvider = {
+  id: 'card',
+  label: 'Credit / Debit Card',
+  description: 'Pay securely online. You will be redirected to our payment partner.',
+  isAvailable: (s) => !!(s.stripeKey || s.paypalKey),
+  async start(intent) {
+    // The backend owns the secret keys, creates the hosted checkout session and
+    // records the outcome from the gateway's webhook; the return URLs only bring the customer back
+    const data = await apiPost<{ checkout_url?: string; reference?: string }>('create-payment-session', {
+      order_id: intent.order_id,
+      amount: intent.amount,
+      currency: intent.currency,
+      email: intent.customer.email,
+      success_url: absolute(confirmationUrl({ order_id: intent.order_id, method: 'card' })),
+      cancel_url: absolute(confirmationUrl({ order_id: intent.order_id, method: 'card', cancelled: true })),
+    });
+    if (!data?.checkout_url) throw new Error('Payment session did not return a checkout URL');
+    return { payment_status: 'pending', redirect_url: data.checkout_url, reference: data.reference };
+  },
+};
+
+const whatsappConfirm: PaymentProvider = {
+  id: 'whatsapp',
+  label: 'Confirm on WhatsApp',
+  description: 'Send your order to our team on WhatsApp and arrange payment with them.',
+  isAvailable: () => true,
+  async start(intent) {
+    window.open(
+      `https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(intent.summary)}`,
+      '_blank',
+      'noopener,noreferrer'
+    );
+    return {
+      payment_status: 'pending',
+      redirect_url: confirmationUrl({ order_id: intent.order_id, method: 'whatsapp' }),
+    };
+  },
+};
+
+// Local stand-in for a hosted gateway; needs the mock allowed and sandbox mode saved by an admin
+const mockGateway: PaymentProvider = {
+  id: 'mock',
+  label: 'Test Payment (sandbox)',
+  description: 'Simulated card payment for testing the checkout flow.',
+  isAvailable: (s) => paymentMockAllowed() && s.mode === 'sandbox',
+  async start(intent) {
+    const reference = `mock_${Date.now().toString(36)}`;
+    const q = new URLSearchParams({
+      order_id: intent.order_id,
+      amount: intent.amount.toFixed(2),
+      currency: intent.currency,
+      ref: reference,
+    });
+    return { payment_status: 'pending', redirect_url: `/checkout2/mock-gateway?${q.toString()}`, reference };
+  },
+};
+
+export const PAYMENT_PROVIDERS: PaymentProvider[] = [cardGateway, cashOnDelivery, whatsappConfirm, mockGateway];
+
+export const getPaymentProvider = (id: string) => PAYMENT_PROVIDERS.find((p) => p.id === id);
+
+export const availablePaymentProviders = (settings: PaymentSettings) =>
+  PAYMENT_PROVIDERS.filter((p) => p.isAvailable(settings));
+
+/* =========================================================
+   LOADERS
+   ========================================================= */
+
+// Unreadable or never-saved settings count as live, so nothing test-only is offered by accident
+const DEFAULT_SETTINGS: PaymentSettings = { stripeKey: '', paypalKey: '', codEnabled: true, mode: 'live' };
+
+export async function fetchPaymentSettings(signal?: AbortSignal): Promise<PaymentSettings> {
+  try {
+    const res = await fetch('/api/settings/payment/', { cache: 'no-store', signal });
+    if (!res.ok) return DEFAULT_SETTINGS;
+    const data = await res.json();
+    return {
+      stripeKey: String(data?.stripeKey || ''),
+      paypalKey: String(data?.paypalKey || ''),
+      codEnabled: data?.codEnabled !== false,
+      mode: data?.mode === 'sandbox' ? 'sandbox' : 'live',
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+const readError = async (res: Response, fallback: string) => {
+  const data = await res.json().catch(() => null);
+  return new Error(String(data?.error || fallback));
+};
+
+/** The order's payment status as the server has it (same owner check as invoices). */
+export async function fetchPaymentStatus(
+  order_id: string,
+  owner?: CartOwner,
+  signal?: AbortSignal
+): Promise<{ payment_status: PaymentStatus; payment_method: string }> {
+  const res = await fetch(`/api/payments/status?${orderOwnerQuery(order_id, owner).toString()}`, {
+    cache: 'no-store',
+    headers: await accountHeaders(),
+    signal,
+  });
+  if (!res.ok) throw await readError(res, 'Failed to load payment status');
+  const data = await res.json();
+  const status = String(data?.payment_status || '');
+  return {
+    payment_status: status in PAYMENT_STATUS_LABELS ? (status as PaymentStatus) : 'unpaid',
+    payment_method: String(data?.payment_method || ''),
+  };
+}
+
+/** Mock gateway only: the server records the chosen outcome, as a real gateway's webhook would. */
+export async function completeMockPayment(
+  order_id: string,
+  outcome: Extract<PaymentStatus, 'paid' | 'failed' | 'cancelled'>,
+  reference: string,
+  owner?: CartOwner
+) {
+  const res = await fetch(`/api/payments/mock?${orderOwnerQuery(order_id, owner).toString()}`, {
+    method: 'POST',
+    headers: await accountHeaders({ 'Content-Type': 'application/json' }),
+    credentials: 'same-origin',
+    body: JSON.stringify({ outcome, reference }),
+  });
+  if (!res.ok) throw await readError(res, 'Failed to record the test payment');
+}
+
+/** Admin: cash or a transfer was received; recorded by our route with the signed-in admin as the actor. */
+export async function markOrderPaid(order_id: string, payment_method: string) {
+  const res = await fetch('/api/admin/orders/payment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify({ order_id, payment_method }),
+  });
+  if (!res.ok) throw await readError(res, 'Failed to update payment status');
+}
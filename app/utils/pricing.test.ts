@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeZone, priceCart, resolveShippingZone, type ProductPricingInfo, type ShippingZone } from './pricing';
+
+const zone = (z: Partial<ShippingZone>): ShippingZone => ({
+  zoneName: 'Zone',
+  country: 'UAE',
+  type: 'flat',
+  price: 20,
+  cities: [],
+  classRates: {},
+  freeOver: 0,
+  ...z,
+});
+
+const info = (p: Partial<ProductPricingInfo> = {}): ProductPricingInfo => ({
+  tax_rate: 5,
+  shipping_class: [],
+  weight: 0,
+  category_ids: [],
+  ...p,
+});
+
+const line = (id: string, unit_price: number, quantity = 1) => ({ id, product_id: id, unit_price, quantity });
+
+describe('normalizeZone', () => {
+  it('coerces what the settings endpoint stores', () => {
+    const raw = {
+      zoneName: 'Dubai',
+      country: 'UAE',
+      type: 'bogus',
+      price: '-3',
+      cities: 'Dubai, ,Sharjah',
+      classRates: { ' Fragile ': '5' },
+    };
+    expect(normalizeZone(raw)).toEqual(
+      zone({ zoneName: 'Dubai', price: 0, cities: ['Dubai', 'Sharjah'], classRates: { fragile: 5 } })
+    );
+  });
+});
+
+describe('resolveShippingZone', () => {
+  const zones = [zone({ zoneName: 'Country' }), zone({ zoneName: 'Dubai', cities: ['Dubai'] })];
+
+  it('prefers a city zone over the country-wide one', () => {
+    expect(resolveShippingZone(zones, { country: 'United Arab Emirates', city: ' dubai ' })?.zoneName).toBe('Dubai');
+    expect(resolveShippingZone(zones, { country: 'uae', city: 'Ajman' })?.zoneName).toBe('Country');
+  });
+
+  it('finds nothing outside the configured countries', () => {
+    expect(resolveShippingZone(zones, { country: 'Qatar' })).toBeNull();
+    expect(resolveShippingZone(zones, { country: '' })).toBeNull();
+  });
+});
+
+describe('priceCart', () => {
+  it('adds tax per rate, flat shipping and its class surcharges', () => {
+    const result = priceCart(
+      [line('a', 10, 2), line('b', 30)],
+      { a: info({ shipping_class: ['Fragile'] }), b: info({ tax_rate: 0 }) },
+      [zone({ classRates: { fragile: 7 } })],
+      { country: 'UAE' }
+    );
+    expect(result.subtotal).toBe(50);
+    expect(result.taxLines).toEqual([{ rate: 5, taxable: 20, amount: 1 }]);
+    expect(result.shipping).toBe(27);
+    expect(result.total).toBe(78);
+  });
+
+  it('charges weight zones per kilo and waives shipping over the threshold', () => {
+    const weight = [zone({ type: 'weight', price: 4, freeOver: 100 })];
+    expect(priceCart([line('a', 10, 3)], { a: info({ weight: 0.5 }) }, weight, { country: 'UAE' }).shipping).toBe(6);
+    expect(priceCart([line('a', 50, 2)], { a: info({ weight: 0.5 }) }, weight, { country: 'UAE' }).shipping).toBe(0);
+  });
+
+  it('taxes the discounted amount', () => {
+    const result = priceCart([line('a', 100)], { a: info() }, [], { country: 'UAE' }, {
+      code: 'TEN',
+      type: 'percentage',
+      value: 10,
+      is_active: true,
+    });
+    expect(result.discount).toBe(10);
+    expect(result.tax).toBe(4.5);
+    expect(result.total).toBe(94.5);
+  });
+
+  it('flags a destination no zone covers', () => {
+    const result = priceCart([line('a', 10)], { a: info() }, [zone({})], { country: 'Kuwait' });
+    expect(result.unserviceable).toBe(true);
+    expect(result.shipping).toBe(0);
+  });
+});
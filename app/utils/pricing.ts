@@ -0,0 +1,280 @@
+import { apiPost } from './apiClient';
+import { evaluatePromotion, type Promotion, type PromotionResult } from './promotions';
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type ShippingZoneType = 'flat' | 'weight' | 'free';
+
+// Shape stored by admin ShippingSettings (`/api/settings/shipping/`)
+export type ShippingZone = {
+  zoneName: string;
+  country: string;
+  type: ShippingZoneType;
+  price: number; // flat fee, or price per KG for weight zones
+  cities?: string[]; // empty → whole country
+  classRates?: Record<string, number>; // surcharge per shipping class (once per order)
+  freeOver?: number; // subtotal threshold above which shipping is free (0 = never)
+};
+
+export type PricingDestination = {
+  country: string;
+  city?: string;
+};
+
+// One cart row as seen by the pricing engine
+export type PricingLineInput = {
+  id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+};
+
+// Per-product settings entered in ProductModal
+export type ProductPricingInfo = {
+  tax_rate: number; // percent, e.g. 5 for UAE VAT
+  shipping_class: string[];
+  weight: number; // KG per unit
+  category_ids: string[]; // used for promotion scoping
+};
+
+export type PricedLine = PricingLineInput & {
+  line_total: number;
+  discount_amount: number;
+  tax_rate: number;
+  tax_amount: number;
+  shipping_class: string[];
+  weight: number;
+};
+
+export type TaxLine = { rate: number; taxable: number; amount: number };
+
+export type PricingBreakdown = {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  // null when no code was supplied; `ok: false` carries the rejection reason
+  promotion: PromotionResult | null;
+  tax: number;
+  taxLines: TaxLine[];
+  shipping: number;
+  shippingZone: ShippingZone | null;
+  // true when zones exist but none covers the destination
+  unserviceable: boolean;
+  total: number;
+};
+
+export const SHIPPING_COUNTRIES = ['UAE', 'Saudi Arabia', 'Kuwait', 'Qatar', 'Bahrain'] as const;
+
+/* =========================================================
+   HELPERS
+   ========================================================= */
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+const toNum = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseFloat(String(v ?? ''));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const norm = (s: unknown) => String(s ?? '').trim().toLowerCase();
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'united arab emirates': 'uae',
+  'u.a.e': 'uae',
+  ksa: 'saudi arabia',
+  'kingdom of saudi arabia': 'saudi arabia',
+};
+
+const normCountry = (s: unknown) => {
+  const n = norm(s);
+  return COUNTRY_ALIASES[n] || n;
+};
+
+export const splitList = (v: unknown): string[] => {
+  if (Array.isArray(v)) return v.map((x) => String(x).trim()).filter(Boolean);
+  return String(v ?? '')
+    .split(',')
+    .map((x) => x.trim())
+    .filter(Boolean);
+};
+
+// Accepts anything the settings endpoint may return and coerces it into a zone
+export function normalizeZone(raw: any): ShippingZone {
+  const type: ShippingZoneType = ['flat', 'weight', 'free'].includes(raw?.type) ? raw.type : 'flat';
+  const classRates: Record<string, number> = {};
+  if (raw?.classRates && typeof raw.classRates === 'object') {
+    for (const [k, v] of Object.entries(raw.classRates)) {
+      const key = norm(k);
+      if (key) classRates[key] = Math.max(0, toNum(v));
+    }
+  }
+  return {
+    zoneName: String(raw?.zoneName ?? ''),
+    country: String(raw?.country ?? ''),
+    type,
+    price: Math.max(0, toNum(raw?.price)),
+    cities: splitList(raw?.cities),
+    classRates,
+    freeOver: Math.max(0, toNum(raw?.freeOver)),
+  };
+}
+
+/* =========================================================
+   ZONE RESOLUTION
+   ========================================================= */
+
+// City-specific zones win over country-wide ones; first match in admin order wins.
+export function resolveShippingZone(
+  zones: ShippingZone[],
+  destination: PricingDestination
+): ShippingZone | null {
+  const country = normCountry(destination.country);
+  const city = norm(destination.city);
+  if (!country) return null;
+
+  const inCountry = zones.filter((z) => normCountry(z.country) === country);
+  if (city) {
+    const byCity = inCountry.find((z) => (z.cities || []).some((c) => norm(c) === city));
+    if (byCity) return byCity;
+  }
+  return inCountry.find((z) => !(z.cities || []).length) || null;
+}
+
+/* =========================================================
+   PRICING
+   ========================================================= */
+
+export function priceCart(
+  lines: PricingLineInput[],
+  info: Record<string, ProductPricingInfo | undefined>,
+  zones: ShippingZone[],
+  destination: PricingDestination,
+  promotion?: Promotion | null
+): PricingBreakdown {
+  const base = lines.map((l) => {
+    const qty = Math.max(1, Math.floor(toNum(l.quantity, 1)));
+    return { ...l, quantity: qty, line_total: round2(qty * toNum(l.unit_price)) };
+  });
+
+  const promo = promotion
+    ? evaluatePromotion(
+        promotion,
+        base.map((l) => ({ ...l, category_ids: info[l.product_id]?.category_ids || [] }))
+      )
+    : null;
+  const allocations = promo?.ok ? promo.allocations : {};
+
+  // tax is charged on the discounted line amount
+  const priced: PricedLine[] = base.map((l) => {
+    const p = info[l.product_id];
+    const discount_amount = allocations[l.id] || 0;
+    const tax_rate = Math.max(0, toNum(p?.tax_rate));
+    return {
+      ...l,
+      discount_amount,
+      tax_rate,
+      tax_amount: round2(((l.line_total - discount_amount) * tax_rate) / 100),
+      shipping_class: (p?.shipping_class || []).map(norm).filter(Boolean),
+      weight: Math.max(0, toNum(p?.weight)),
+    };
+  });
+
+  const subtotal = round2(priced.reduce((acc, l) => acc + l.line_total, 0));
+  const discount = promo?.ok ? promo.discount : 0;
+
+  // VAT breakdown grouped by rate
+  const byRate = new Map<number, TaxLine>();
+  for (const l of priced) {
+    if (!l.tax_rate) continue;
+    const row = byRate.get(l.tax_rate) || { rate: l.tax_rate, taxable: 0, amount: 0 };
+    row.taxable = round2(row.taxable + l.line_total - l.discount_amount);
+    row.amount = round2(row.amount + l.tax_amount);
+    byRate.set(l.tax_rate, row);
+  }
+  const taxLines = Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+  const tax = round2(taxLines.reduce((acc, t) => acc + t.amount, 0));
+
+  const shippingZone = resolveShippingZone(zones, destination);
+  const unserviceable = zones.length > 0 && !shippingZone && priced.length > 0;
+
+  let shipping = 0;
+  if (shippingZone && priced.length) {
+    const freeByThreshold = !!shippingZone.freeOver && subtotal - discount >= shippingZone.freeOver;
+    const freeByPromotion = !!(promo?.ok && promo.freeShipping);
+    if (shippingZone.type !== 'free' && !freeByThreshold && !freeByPromotion) {
+      if (shippingZone.type === 'weight') {
+        const kg = priced.reduce((acc, l) => acc + l.weight * l.quantity, 0);
+        shipping = shippingZone.price * kg;
+      } else {
+        shipping = shippingZone.price;
+      }
+      const classes = new Set(priced.flatMap((l) => l.shipping_class));
+      classes.forEach((c) => {
+        shipping += shippingZone.classRates?.[c] || 0;
+      });
+    }
+  }
+  shipping = round2(shipping);
+
+  return {
+    lines: priced,
+    subtotal,
+    discount,
+    promotion: promo,
+    tax,
+    taxLines,
+    shipping,
+    shippingZone,
+    unserviceable,
+    total: round2(subtotal - discount + tax + shipping),
+  };
+}
+
+/* =========================================================
+   LOADERS
+   ========================================================= */
+
+export async function fetchShippingZones(signal?: AbortSignal): Promise<ShippingZone[]> {
+  try {
+    const res = await fetch('/api/settings/shipping/', { cache: 'no-store', signal });
+    if (!res.ok) return [];
+    const data = await res.json();
+    return Array.isArray(data?.zones) ? data.zones.map(normalizeZone).filter((z: ShippingZone) => z.country) : [];
+  } catch {
+    return [];
+  }
+}
+
+// tax_rate comes from show_specific_product, shipping_class/weight from show_product_shipping_info
+export async function fetchProductPricingInfo(
+  productIds: string[],
+  signal?: AbortSignal
+): Promise<Record<string, ProductPricingInfo>> {
+  const post = (path: string, product_id: string) =>
+    apiPost<any>(path, { product_id }, { signal }).catch(() => ({}));
+
+  const unique = Array.from(new Set(productIds.filter(Boolean)));
+  const entries = await Promise.all(
+    unique.map(async (id) => {
+      const [basic, shipping] = await Promise.all([
+        post('show_specific_product', id),
+        post('show_product_shipping_info', id),
+      ]);
+      return [
+        id,
+        {
+          tax_rate: toNum(basic?.tax_rate),
+          shipping_class: splitList(shipping?.shipping_class),
+          weight: toNum(shipping?.weight ?? basic?.weight),
+          category_ids: [
+            ...splitList(basic?.category_ids),
+            ...(basic?.subcategory?.id != null ? [String(basic.subcategory.id)] : []),
+          ],
+        },
+      ] as [string, ProductPricingInfo];
+    })
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,180 @@
+import { apiPost, isApiError } from './apiClient';
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type PromotionType = 'percentage' | 'fixed' | 'free_shipping';
+
+// Shape stored by /admin/promotions (`save-promotion` / `show-promotions`)
+export type Promotion = {
+  promotion_id?: string;
+  code: string;
+  type: PromotionType;
+  value: number; // percent for `percentage`, AED for `fixed`, ignored for `free_shipping`
+  starts_at?: string; // ISO date, optional
+  expires_at?: string; // ISO date, optional
+  usage_limit?: number; // 0 = unlimited
+  used_count?: number;
+  min_order_value?: number;
+  product_ids?: string[]; // empty → every product
+  category_ids?: string[]; // category or subcategory ids; empty → every category
+  is_active?: boolean;
+};
+
+export type PromotionLine = {
+  id: string;
+  product_id: string;
+  line_total: number;
+  category_ids?: string[];
+};
+
+export type PromotionResult =
+  | {
+      ok: true;
+      promotion: Promotion;
+      discount: number;
+      freeShipping: boolean;
+      // discount share per cart row (so tax is charged on the discounted amount)
+      allocations: Record<string, number>;
+    }
+  | { ok: false; reason: string };
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage',
+  fixed: 'Fixed Amount',
+  free_shipping: 'Free Shipping',
+};
+
+/* =========================================================
+   HELPERS
+   ========================================================= */
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+const toNum = (v: unknown, fallback = 0) => {
+  const n = typeof v === 'number' ? v : parseFloat(String(v ?? ''));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const toIdList = (v: unknown): string[] =>
+  Array.isArray(v) ? v.map((x) => String(x).trim()).filter(Boolean) : [];
+
+export const normalizePromoCode = (code: string) => String(code || '').trim().toUpperCase();
+
+export function normalizePromotion(raw: any): Promotion {
+  const type: PromotionType = ['percentage', 'fixed', 'free_shipping'].includes(raw?.type)
+    ? raw.type
+    : 'percentage';
+  return {
+    promotion_id: raw?.promotion_id != null ? String(raw.promotion_id) : raw?.id != null ? String(raw.id) : undefined,
+    code: normalizePromoCode(raw?.code),
+    type,
+    value: Math.max(0, toNum(raw?.value)),
+    starts_at: raw?.starts_at || '',
+    expires_at: raw?.expires_at || '',
+    usage_limit: Math.max(0, Math.floor(toNum(raw?.usage_limit))),
+    used_count: Math.max(0, Math.floor(toNum(raw?.used_count))),
+    min_order_value: Math.max(0, toNum(raw?.min_order_value)),
+    product_ids: toIdList(raw?.product_ids),
+    category_ids: toIdList(raw?.category_ids),
+    is_active: raw?.is_active !== false,
+  };
+}
+
+const endOfDay = (iso: string) => {
+  const d = new Date(iso);
+  // date-only values ("2025-12-31") stay valid for the whole day
+  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) d.setHours(23, 59, 59, 999);
+  return d;
+};
+
+/* =========================================================
+   VALIDATION
+   ========================================================= */
+
+export function evaluatePromotion(
+  promotion: Promotion,
+  lines: PromotionLine[],
+  now: Date = new Date()
+): PromotionResult {
+  if (!promotion.is_active) return { ok: false, reason: 'This code is no longer active' };
+
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return { ok: false, reason: 'This code is not active yet' };
+  }
+  if (promotion.expires_at && endOfDay(promotion.expires_at) < now) {
+    return { ok: false, reason: 'This code has expired' };
+  }
+  if (promotion.usage_limit && (promotion.used_count || 0) >= promotion.usage_limit) {
+    return { ok: false, reason: 'This code has reached its usage limit' };
+  }
+
+  const productScope = new Set(promotion.product_ids || []);
+  const categoryScope = new Set(promotion.category_ids || []);
+  const scoped = productScope.size > 0 || categoryScope.size > 0;
+
+  const eligible = lines.filter(
+    (l) =>
+      !scoped ||
+      productScope.has(String(l.product_id)) ||
+      (l.category_ids || []).some((c) => categoryScope.has(String(c)))
+  );
+  if (!eligible.length) return { ok: false, reason: 'This code does not apply to the items in your cart' };
+
+  const orderValue = lines.reduce((acc, l) => acc + l.line_total, 0);
+  if (promotion.min_order_value && orderValue < promotion.min_order_value) {
+    return {
+      ok: false,
+      reason: `Minimum order of AED ${promotion.min_order_value.toFixed(2)} required`,
+    };
+  }
+
+  const eligibleTotal = eligible.reduce((acc, l) => acc + l.line_total, 0);
+  let discount = 0;
+  if (promotion.type === 'percentage') {
+    discount = (eligibleTotal * Math.min(100, promotion.value)) / 100;
+  } else if (promotion.type === 'fixed') {
+    discount = Math.min(eligibleTotal, promotion.value);
+  }
+  discount = round2(discount);
+
+  // spread the discount over eligible rows proportionally; last row absorbs rounding
+  const allocations: Record<string, number> = {};
+  let allocated = 0;
+  eligible.forEach((l, i) => {
+    const share =
+      i === eligible.length - 1
+        ? round2(discount - allocated)
+        : eligibleTotal > 0
+        ? round2((discount * l.line_total) / eligibleTotal)
+        : 0;
+    allocations[l.id] = share;
+    allocated = round2(allocated + share);
+  });
+
+  return {
+    ok: true,
+    promotion,
+    discount,
+    freeShipping: promotion.type === 'free_shipping',
+    allocations,
+  };
+}
+
+/* =========================================================
+   LOADERS
+   ========================================================= */
+
+// Returns null when the backend does not know the code
+export async function fetchPromotionByCode(code: string, signal?: AbortSignal): Promise<Promotion | null> {
+  let data: any;
+  try {
+    data = await apiPost('validate-promotion', { code: normalizePromoCode(code) }, { signal });
+  } catch (err) {
+    if (isApiError(err) && err.status === 404) return null;
+    throw err;
+  }
+  const raw = data?.promotion ?? data;
+  return raw?.code ? normalizePromotion(raw) : null;
+}
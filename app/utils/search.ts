@@ -0,0 +1,173 @@
+import type { PageLink } from './storefront';
+
+/* =========================================================
+   Catalog search — the query/filter shape shared by the
+   /search page, the subcategory listings, the header search
+   boxes and /api/search.
+   Matching, facets and the index itself are server-side
+   (app/lib/search); this file only describes requests and
+   results and turns them into URLs.
+   ========================================================= */
+
+/* ===== TYPES ===== */
+
+export type SearchSort = 'relevance' | 'popular' | 'price_asc' | 'price_desc' | 'newest' | 'rating';
+
+export type SearchFilters = {
+  q: string;
+  categories: string[]; // category url slugs
+  methods: string[]; // printing method codes (SP, DP, OP)
+  attributes: Record<string, string[]>; // attribute name → option labels
+  price_min: number | null;
+  price_max: number | null;
+  in_stock: boolean;
+  sort: SearchSort;
+  page: number;
+};
+
+export type SearchHit = {
+  id: string;
+  name: string;
+  path: string;
+  image: string;
+  price: number;
+  sale_price: number | null;
+  stock_status: string;
+  rating: number;
+  rating_count: number;
+  category: PageLink | null;
+  subcategory: PageLink | null;
+};
+
+export type FacetOption = { value: string; label: string; count: number; selected: boolean };
+
+export type PriceBucket = FacetOption & { min: number; max: number | null };
+
+export type SearchFacets = {
+  categories: FacetOption[];
+  methods: FacetOption[];
+  price: { min: number; max: number; buckets: PriceBucket[] };
+  in_stock: number; // how many would be left with "in stock only"
+  attributes: Array<{ name: string; type?: string; options: FacetOption[] }>;
+};
+
+export type SearchResult = {
+  filters: SearchFilters;
+  total: number;
+  page: number;
+  pages: number;
+  hits: SearchHit[];
+  facets: SearchFacets;
+  corrected: string | null; // the query with typos fixed, when that's what matched
+};
+
+export type SearchSuggestions = {
+  query: string;
+  completions: string[];
+  categories: Array<{ name: string; path: string; parent?: string }>;
+  products: SearchHit[];
+  corrected: string | null;
+};
+
+/* ===== CONSTANTS ===== */
+
+export const SEARCH_PAGE_SIZE = 24;
+
+export const SEARCH_SORTS: Array<{ value: SearchSort; label: string }> = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'popular', label: 'Most popular' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Top rated' },
+];
+
+// Codes as saved by ProductModal
+export const PRINTING_METHOD_LABELS: Record<string, string> = {
+  SP: 'Screen Printing',
+  DP: 'Digital Printing',
+  OP: 'Offset Printing',
+};
+
+// AED; the last bucket is open-ended
+export const PRICE_BUCKETS: Array<[number, number | null]> = [
+  [0, 25],
+  [25, 50],
+  [50, 100],
+  [100, 250],
+  [250, null],
+];
+
+export const priceBucketLabel = ([min, max]: [number, number | null]) =>
+  max === null ? `AED ${min}+` : `AED ${min} – ${max}`;
+
+/* ===== URLS ===== */
+
+const num = (v: string | null) => {
+  if (v === null || v.trim() === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+/** Plain query params → SearchFilters; the server page and /api/search read the same keys. */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const attributes: Record<string, string[]> = {};
+  for (const pair of params.getAll('attr')) {
+    const at = pair.indexOf(':');
+    if (at <= 0) continue;
+    const name = pair.slice(0, at).trim();
+    const value = pair.slice(at + 1).trim();
+    if (name && value) (attributes[name] ||= []).push(value);
+  }
+  const sort = params.get('sort') as SearchSort;
+  return {
+    q: (params.get('q') || '').trim().slice(0, 200),
+    categories: params.getAll('category').filter(Boolean),
+    methods: params.getAll('method').filter(Boolean),
+    attributes,
+    price_min: num(params.get('min')),
+    price_max: num(params.get('max')),
+    in_stock: params.get('in_stock') === '1',
+    sort: SEARCH_SORTS.some((s) => s.value === sort) ? sort : 'relevance',
+    page: Math.max(1, Math.floor(Number(params.get('page')) || 1)),
+  };
+}
+
+/** Next's searchParams record → URLSearchParams, keeping repeated keys. */
+export function toSearchParams(record: Record<string, string | string[] | undefined>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(record)) {
+    for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) params.append(key, v);
+  }
+  return params;
+}
+
+export function searchQueryString(filters: Partial<SearchFilters>) {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  filters.categories?.forEach((c) => params.append('category', c));
+  filters.methods?.forEach((m) => params.append('method', m));
+  for (const [name, values] of Object.entries(filters.attributes || {})) {
+    values.forEach((v) => params.append('attr', `${name}:${v}`));
+  }
+  if (filters.price_min != null) params.set('min', String(filters.price_min));
+  if (filters.price_max != null) params.set('max', String(filters.price_max));
+  if (filters.in_stock) params.set('in_stock', '1');
+  if (filters.sort && filters.sort !== 'relevance') params.set('sort', filters.sort);
+  if (filters.page && filters.page > 1) params.set('page', String(filters.page));
+  return params.toString();
+}
+
+export const searchPath = (filters: Partial<SearchFilters>) => {
+  const qs = searchQueryString(filters);
+  return qs ? `/search?${qs}` : '/search';
+};
+
+/* ===== CLIENT ===== */
+
+/** Autocomplete for the header search boxes; an empty query returns just the top-level categories. */
+export async function fetchSearchSuggestions(q: string, signal?: AbortSignal): Promise<SearchSuggestions> {
+  const res = await fetch(`/api/search/suggest?${new URLSearchParams({ q }).toString()}`, { signal });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
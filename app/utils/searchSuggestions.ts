@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { isAbortError } from './apiClient';
+import { fetchSearchSuggestions, type SearchSuggestions } from './search';
+
+// Typing pause before asking the server
+const SUGGEST_DELAY_MS = 200;
+
+/**
+ * Autocomplete for a header search box. Nothing is fetched until the box
+ * is opened (`enabled`); then every pause in typing asks /api/search/suggest
+ * and drops the answer to any earlier keystroke.
+ */
+export function useSearchSuggestions(query: string, enabled: boolean) {
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const q = query.trim();
+    const controller = new AbortController();
+    const timer = setTimeout(
+      async () => {
+        setLoading(true);
+        try {
+          setSuggestions(await fetchSearchSuggestions(q, controller.signal));
+          setError(null);
+        } catch (err: any) {
+          if (isAbortError(err)) return;
+          setError('Search is unavailable right now');
+        }
+        setLoading(false);
+      },
+      q ? SUGGEST_DELAY_MS : 0
+    );
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, enabled]);
+
+  return { suggestions, loading, error };
+}
@@ -0,0 +1,143 @@
+import { accountHeaders, orderOwnerQuery, type CartOwner } from './apiClient';
+
+/* =========================================================
+   Shipments — what an order's parcel looks like once an
+   admin has booked it with a carrier, and the tracking scans
+   the carrier reports. Carriers themselves are only called
+   server-side (app/lib/carriers); these are the shared types
+   and the browser helpers for our own routes.
+   ========================================================= */
+
+/* =========================================================
+   TYPES
+   ========================================================= */
+
+export type CarrierId = 'aramex' | 'dhl' | 'mock';
+
+export type Shipment = {
+  carrier: CarrierId;
+  tracking_number: string;
+  tracking_url: string;
+  weight_kg: number;
+  pieces: number;
+  has_label: boolean;
+  created_at: string; // ISO
+  created_by: string;
+};
+
+export type TrackingEvent = {
+  at: string; // ISO
+  code: string; // carrier's own event code
+  description: string;
+  location: string;
+};
+
+export type CarrierOption = { id: CarrierId; label: string; ready: boolean; reason: string };
+
+/* =========================================================
+   CONSTANTS & NORMALISERS
+   ========================================================= */
+
+export const CARRIER_LABELS: Record<CarrierId, string> = {
+  aramex: 'Aramex',
+  dhl: 'DHL Express',
+  mock: 'Test carrier (mock)',
+};
+
+export const isCarrierId = (v: unknown): v is CarrierId => typeof v === 'string' && v in CARRIER_LABELS;
+
+export const MAX_WEIGHT_KG = 70;
+export const MAX_PIECES = 20;
+
+// Checkout stores country names; carriers want ISO codes
+export const COUNTRY_CODES: Record<string, string> = {
+  UAE: 'AE',
+  'United Arab Emirates': 'AE',
+  'Saudi Arabia': 'SA',
+  Kuwait: 'KW',
+  Qatar: 'QA',
+  Bahrain: 'BH',
+};
+
+export const countryCode = (name: unknown, fallback = 'AE') => {
+  const v = String(name ?? '').trim();
+  if (/^[A-Z]{2}$/.test(v)) return v;
+  return COUNTRY_CODES[v] || fallback;
+};
+
+/** Backend `shipment` on an order → Shipment, or null when the order hasn't shipped through a carrier. */
+export function normalizeShipment(raw: any): Shipment | null {
+  if (!raw || !isCarrierId(raw.carrier) || !raw.tracking_number) return null;
+  return {
+    carrier: raw.carrier,
+    tracking_number: String(raw.tracking_number),
+    tracking_url: String(raw.tracking_url || ''),
+    weight_kg: Number(raw.weight_kg) || 0,
+    pieces: Number(raw.pieces) || 1,
+    has_label: raw.has_label === true || !!raw.label_pdf,
+    created_at: String(raw.created_at || ''),
+    created_by: String(raw.created_by || ''),
+  };
+}
+
+/** Newest scan first; entries without a date sort last. */
+export const sortTrackingEvents = (events: TrackingEvent[]) =>
+  [...events].sort((a, b) => (Date.parse(b.at) || 0) - (Date.parse(a.at) || 0));
+
+/* =========================================================
+   CLIENT
+   ========================================================= */
+
+async function readJSON(res: Response, fallback: string) {
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || fallback);
+  return data;
+}
+
+/** Admin: carriers that can book a shipment right now. */
+export async function fetchCarriers(signal?: AbortSignal): Promise<CarrierOption[]> {
+  const res = await fetch('/api/admin/orders/shipment', { credentials: 'same-origin', cache: 'no-store', signal });
+  return (await readJSON(res, 'Failed to load carriers')).carriers || [];
+}
+
+/** Admin: books the parcel with the carrier and stores the shipment on the order. */
+export async function createShipment(input: {
+  order_id: string;
+  carrier: CarrierId;
+  weight_kg: number;
+  pieces: number;
+}): Promise<Shipment> {
+  const res = await fetch('/api/admin/orders/shipment', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify(input),
+  });
+  if (res.status === 409) {
+    // Already booked: hand back the shipment on file so the page can show it
+    const data = await res.clone().json().catch(() => ({}));
+    const existing = normalizeShipment(data?.shipment);
+    if (existing) throw Object.assign(new Error(data.error), { shipment: existing });
+  }
+  return (await readJSON(res, 'Failed to create shipment')).shipment;
+}
+
+export const shipmentLabelUrl = (order_id: string) =>
+  `/api/admin/orders/shipment/label?${new URLSearchParams({ order_id }).toString()}`;
+
+/** Customers pass their cart owner; admins are recognised by their session cookie. */
+export async function fetchTracking(
+  order_id: string,
+  owner?: CartOwner,
+  signal?: AbortSignal
+): Promise<{ shipment: Shipment | null; events: TrackingEvent[]; error: string }> {
+  const q = orderOwnerQuery(order_id, owner);
+  const headers = owner ? await accountHeaders() : undefined;
+  const res = await fetch(`/api/tracking?${q.toString()}`, { cache: 'no-store', headers, signal });
+  const data = await readJSON(res, 'Failed to load tracking');
+  return {
+    shipment: data.shipment || null,
+    events: Array.isArray(data.events) ? data.events : [],
+    error: String(data.error || ''), // carrier down; the shipment itself is still known
+  };
+}
@@ -0,0 +1,219 @@
+import { API_BASE_URL } from './api';
+
+/* =========================================================
+   Storefront pages — the data the server loaders in
+   lib/storefront hand to the product, category and blog
+   pages, plus the SEO helpers their metadata and JSON-LD
+   share.
+   ========================================================= */
+
+/* ===== TYPES ===== */
+
+// Cache tags for the server loaders; a save in the admin refreshes one section
+export type StorefrontSection = 'catalog' | 'blog';
+
+export type NavImage = { url: string; alt_text?: string };
+
+// Rows of /api/show_nav_items/ — the menu tree doubles as the catalog map
+export type NavProduct = {
+  id: string | number;
+  name: string;
+  url?: string;
+  images?: NavImage[];
+  rating?: number;
+  rating_count?: number;
+};
+
+export type NavSubcategory = {
+  id: string | number;
+  name: string;
+  url: string;
+  images: NavImage[];
+  products: NavProduct[];
+};
+
+export type NavCategory = {
+  id: string | number;
+  name: string;
+  url: string;
+  images: NavImage[];
+  subcategories: NavSubcategory[];
+  // Enriched from /api/show-categories/
+  description?: string;
+  caption?: string;
+};
+
+export type HeroImage = { url: string; device_type: 'desktop' | 'mobile' | string };
+
+// /api/show_product_seo/ as saved by ProductModal
+export type ProductSeo = {
+  meta_title?: string;
+  meta_description?: string;
+  meta_keywords?: string[];
+  open_graph_title?: string;
+  open_graph_desc?: string;
+  open_graph_image_url?: string;
+  canonical_url?: string;
+  json_ld?: string;
+  image_alt_text?: string;
+};
+
+export type PageLink = { id?: string; name: string; url: string };
+
+export type ProductPageData = {
+  product: any; // show_specific_product + the show_product_variant lists
+  images: string[]; // absolute
+  attributes: any[]; // show_product_attributes as sent; the page resolves descriptions
+  shipping: any;
+  cards: any;
+  seo: ProductSeo;
+  category: PageLink | null;
+  subcategory: PageLink | null;
+  related: any[];
+  comments: any[]; // approved only
+};
+
+export type CategoryPageData = {
+  category: NavCategory;
+  hero: HeroImage[];
+};
+
+export type SubcategoryProductCard = {
+  id: string;
+  name: string;
+  image: string;
+  badge: string;
+  rating: number;
+  rating_count: number;
+};
+
+export type SubcategoryPageData = {
+  category: PageLink;
+  subcategory: PageLink;
+  products: SubcategoryProductCard[];
+};
+
+// /api/show-specific-blog/ — SEO fields as saved by the blog editor
+export type BlogPost = {
+  id: string | number;
+  blog_id?: string | number;
+  title: string;
+  slug: string;
+  thumbnail?: string | null;
+  metaTitle?: string;
+  metaDescription?: string;
+  ogTitle?: string;
+  ogImage?: string;
+  schemaEnabled?: boolean;
+  description?: string;
+  author?: string;
+  category?: string;
+  status?: string;
+  created_at?: string | null;
+  updated_at?: string | null;
+  publishDate?: string | null;
+  content: string;
+};
+
+/* ===== URLS ===== */
+
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || '').trim().replace(/\/$/, '');
+
+/** Site-relative path → absolute URL (JSON-LD wants absolute; metadata resolves against metadataBase). */
+export const absoluteUrl = (path: string) =>
+  /^https?:\/\//i.test(path) ? path : `${SITE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
+
+/** Backend media path → absolute URL on the API host. */
+export const apiAssetUrl = (src?: string | null) => {
+  if (!src) return '';
+  if (/^https?:/i.test(src)) return src;
+  return `${API_BASE_URL.replace(/\/$/, '')}/${String(src).replace(/^\/+/, '')}`;
+};
+
+export const categoryPath = (category: string) => `/home/${encodeURIComponent(category)}`;
+export const subcategoryPath = (category: string, subcategory: string) =>
+  `${categoryPath(category)}/${encodeURIComponent(subcategory)}`;
+export const productPath = (category: string, subcategory: string, productId: string) =>
+  `${subcategoryPath(category, subcategory)}/products/${encodeURIComponent(productId)}`;
+export const blogPath = (idOrSlug: string) => `/blog/${encodeURIComponent(idOrSlug)}`;
+
+/* ===== META TEXT ===== */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'", nbsp: ' ' };
+
+/** Rich text → a plain description of at most `max` characters, cut on a word. */
+export function metaText(html: string | null | undefined, max = 160): string {
+  const text = String(html || '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, (_, e) => ENTITIES[e])
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${space > max / 2 ? cut.slice(0, space) : cut}…`;
+}
+
+/** "Business Cards" from "business-cards" when a page only has its slug. */
+export const titleFromSlug = (slug: string) =>
+  decodeURIComponent(slug)
+    .split('-')
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join(' ');
+
+/* ===== JSON-LD ===== */
+
+/**
+ * Schema pasted into the admin (bare JSON, or wrapped in its <script>
+ * tag) → the object(s) to emit; anything that doesn't parse is dropped
+ * rather than breaking the page.
+ */
+export function parseJsonLd(raw: string | null | undefined): object | null {
+  const text = String(raw || '')
+    .replace(/^\s*<script[^>]*>/i, '')
+    .replace(/<\/script>\s*$/i, '')
+    .trim();
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Safe for a <script type="application/ld+json"> body: text can't close the tag. */
+export const jsonLdHtml = (data: object) => JSON.stringify(data).replace(/</g, '\\u003c');
+
+export function breadcrumbJsonLd(items: Array<{ name: string; path: string }>) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: item.name,
+      item: absoluteUrl(item.path),
+    })),
+  };
+}
+
+/* ===== CLIENT ===== */
+
+/**
+ * Admin pages call this after a save/delete so the cached storefront
+ * (pages, sitemaps, feeds) picks the change up now. Best effort: the
+ * cache also expires by itself.
+ */
+export function refreshStorefront(section: StorefrontSection) {
+  return fetch('/api/admin/storefront/revalidate', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ section }),
+  }).then(
+    () => undefined,
+    () => undefined
+  );
+}
@@ -0,0 +1,135 @@
+import { accountHeaders } from './apiClient';
+import type { SearchHit } from './search';
+
+/* =========================================================
+   Wishlist — shared by the wishlist store, the /wishlist and
+   shared-list pages and the alert sender. A signed-in
+   customer's list lives on the backend under their Firebase
+   uid; a guest's is kept in this browser (cc_favorites) and
+   moved onto the account at sign-in.
+   ========================================================= */
+
+/* ===== TYPES ===== */
+
+export type WishlistItem = {
+  product_id: string;
+  added_at: string; // ISO
+};
+
+export type WishlistAlertPrefs = {
+  back_in_stock: boolean;
+  price_drop: boolean;
+};
+
+export type Wishlist = {
+  items: WishlistItem[];
+  share_token: string | null; // null = not shared
+  alerts: WishlistAlertPrefs;
+  email: string; // where alerts go; the verified account email when they were last saved
+};
+
+export type SharedWishlist = {
+  owner_name: string;
+  product_ids: string[];
+};
+
+export type WishlistAlertKind = 'back_in_stock' | 'price_drop';
+
+// What the alert sender last saw for one wishlisted product; price null = not seen yet
+export type WishlistSnapshot = { price: number | null; in_stock: boolean };
+
+/* ===== CONSTANTS ===== */
+
+// The key favourites were kept under before the wishlist synced
+export const GUEST_WISHLIST_KEY = 'cc_favorites';
+
+// Written after every wishlist change so other tabs reload (value is just a timestamp)
+export const WISHLIST_EVENT_KEY = 'wishlist-sync-event';
+
+export const WISHLIST_MAX_ITEMS = 200;
+
+export const DEFAULT_WISHLIST_ALERTS: WishlistAlertPrefs = { back_in_stock: true, price_drop: true };
+
+/* ===== NORMALIZE ===== */
+
+/** show-wishlist → Wishlist; missing or odd fields fall back to an empty, unshared list. */
+export function normalizeWishlist(data: any): Wishlist {
+  const rows = Array.isArray(data?.items) ? data.items : Array.isArray(data) ? data : [];
+  const seen = new Set<string>();
+  const items: WishlistItem[] = [];
+  for (const row of rows) {
+    const product_id = String(row?.product_id ?? row ?? '').trim();
+    if (!product_id || seen.has(product_id)) continue;
+    seen.add(product_id);
+    items.push({ product_id, added_at: String(row?.added_at || row?.created_at || '') });
+  }
+  const alerts = data?.alerts || {};
+  return {
+    items,
+    share_token: typeof data?.share_token === 'string' && data.share_token.trim() ? data.share_token.trim() : null,
+    alerts: {
+      back_in_stock: typeof alerts.back_in_stock === 'boolean' ? alerts.back_in_stock : DEFAULT_WISHLIST_ALERTS.back_in_stock,
+      price_drop: typeof alerts.price_drop === 'boolean' ? alerts.price_drop : DEFAULT_WISHLIST_ALERTS.price_drop,
+    },
+    email: String(data?.email || '').trim(),
+  };
+}
+
+/* ===== ALERTS ===== */
+
+/**
+ * What changed since the last look, if it's worth an email. The first
+ * look only records a baseline; back in stock wins over a price drop.
+ */
+export function wishlistAlertFor(last: WishlistSnapshot, now: WishlistSnapshot): WishlistAlertKind | null {
+  if (last.price === null) return null;
+  if (!last.in_stock && now.in_stock) return 'back_in_stock';
+  if (now.in_stock && now.price !== null && now.price > 0 && now.price < last.price - 0.005) return 'price_drop';
+  return null;
+}
+
+/* ===== URLS ===== */
+
+export const wishlistSharePath = (token: string) => `/wishlist/shared/${encodeURIComponent(token)}`;
+
+/* ===== GUEST LIST ===== */
+
+export function readGuestWishlist(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const ids = JSON.parse(localStorage.getItem(GUEST_WISHLIST_KEY) || '[]');
+    return Array.isArray(ids) ? Array.from(new Set(ids.map(String).filter(Boolean))) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeGuestWishlist(ids: string[]) {
+  try {
+    if (ids.length) localStorage.setItem(GUEST_WISHLIST_KEY, JSON.stringify(ids));
+    else localStorage.removeItem(GUEST_WISHLIST_KEY);
+  } catch {}
+}
+
+/* ===== CLIENT ===== */
+
+/** Product cards for wishlisted ids, in the order asked; products no longer in the menu are left out. */
+export async function fetchWishlistProducts(ids: string[], signal?: AbortSignal): Promise<SearchHit[]> {
+  if (!ids.length) return [];
+  const res = await fetch(`/api/wishlist/products?${new URLSearchParams({ ids: ids.join(',') }).toString()}`, { signal });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data = await res.json();
+  return Array.isArray(data?.hits) ? data.hits : [];
+}
+
+/** Saves the signed-in account's alert choices; the server sends them to the account's verified email, which it returns. */
+export async function saveWishlistAlerts(prefs: WishlistAlertPrefs): Promise<string> {
+  const res = await fetch('/api/wishlist/preferences', {
+    method: 'POST',
+    headers: await accountHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(prefs),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(String(data?.error || 'Failed to save your alert settings'));
+  return String(data?.email || '');
+}
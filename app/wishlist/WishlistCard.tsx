@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "react-toastify";
+import { FaHeart, FaRegHeart } from "react-icons/fa";
+import { SafeImg } from "../components/SafeImage";
+import { useCart } from "../components/CartProvider";
+import { useWishlist } from "../components/WishlistProvider";
+import { errorMessage } from "../utils/apiClient";
+import type { SearchHit } from "../utils/search";
+
+const money = (n: number) => `AED ${n.toFixed(2)}`;
+
+/** One product on /wishlist or a shared list: heart toggles it on the viewer's own wishlist. */
+export default function WishlistCard({ hit }: { hit: SearchHit }) {
+  const { has, toggle } = useWishlist();
+  const { lines, addItem, openMiniCart } = useCart();
+  const [busy, setBusy] = useState(false);
+  const out = hit.stock_status.toLowerCase().includes("out");
+  const wished = has(hit.id);
+  const inCart = lines.some((l) => l.product_id === hit.id);
+
+  const onHeart = async () => {
+    try {
+      await toggle(hit.id);
+    } catch (err) {
+      toast.error(errorMessage(err, "Couldn't update your wishlist"));
+    }
+  };
+
+  const onCart = async () => {
+    setBusy(true);
+    try {
+      await addItem({ product_id: hit.id, quantity: 1 });
+      openMiniCart();
+    } catch (err) {
+      toast.error(errorMessage(err, "Couldn't add to cart"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <article className="group relative bg-white rounded-xl shadow-sm hover:shadow-md transition overflow-hidden flex flex-col">
+      {hit.stock_status && (
+        <span
+          className={`absolute top-2 left-2 text-xs px-3 py-1 rounded-full z-10 ${
+            out ? "bg-white/80 text-[#891F1A] font-semibold" : "bg-[#891F1A]/80 text-white"
+          }`}
+        >
+          {hit.stock_status}
+        </span>
+      )}
+      <button
+        type="button"
+        onClick={onHeart}
+        aria-pressed={wished}
+        aria-label={wished ? `Remove ${hit.name} from your wishlist` : `Add ${hit.name} to your wishlist`}
+        className="absolute top-2 right-2 z-10 w-9 h-9 rounded-full bg-white/90 shadow flex items-center justify-center focus:outline-none focus-visible:ring-2 focus-visible:ring-[#891F1A]"
+      >
+        {wished ? <FaHeart className="text-[#891F1A]" /> : <FaRegHeart className="text-[#891F1A]" />}
+      </button>
+
+      <Link href={hit.path} className="block">
+        <SafeImg
+          src={hit.image}
+          alt={hit.name}
+          className="w-full aspect-square object-cover group-hover:scale-105 transition-transform"
+          width={320}
+          height={320}
+          loading="lazy"
+          onError={(e) => {
+            const img = e.target as HTMLImageElement;
+            img.onerror = null;
+            img.src = "/images/img1.jpg";
+          }}
+        />
+      </Link>
+      <div className="p-3 flex flex-col flex-1">
+        <h3 className="text-sm font-semibold text-gray-900 line-clamp-2">
+          <Link href={hit.path} className="hover:underline">
+            {hit.name}
+          </Link>
+        </h3>
+        <p className="text-xs text-gray-500 mt-0.5 truncate">
+          {[hit.subcategory?.name, hit.category?.name].filter(Boolean).join(" • ")}
+        </p>
+        <p className="mt-2 text-sm">
+          {hit.sale_price !== null ? (
+            <>
+              <span className="font-semibold text-[#891F1A]">{money(hit.sale_price)}</span>{" "}
+              <s className="text-xs text-gray-400">{money(hit.price)}</s>
+            </>
+          ) : hit.price > 0 ? (
+            <span className="font-semibold text-gray-900">{money(hit.price)}</span>
+          ) : null}
+        </p>
+        <button
+          type="button"
+          onClick={onCart}
+          disabled={out || busy || inCart}
+          className="mt-auto pt-3"
+        >
+          <span
+            className={`block rounded-full px-3 py-1.5 text-sm font-medium text-white ${
+              out || inCart ? "bg-gray-400" : "bg-[#891F1A] hover:bg-[#6d1915]"
+            }`}
+          >
+            {out ? "Out of stock" : inCart ? "In your cart" : busy ? "Adding…" : "Add to cart"}
+          </span>
+        </button>
+      </div>
+    </article>
+  );
+}
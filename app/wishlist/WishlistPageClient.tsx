@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-toastify";
+import Header from "../components/header";
+import Navbar from "../components/Navbar";
+import LogoSection from "../components/LogoSection";
+import HomePageTop from "../components/HomePageTop";
+import Footer from "../components/Footer";
+import { useWishlist } from "../components/WishlistProvider";
+import WishlistCard from "./WishlistCard";
+import { errorMessage, isAbortError } from "../utils/apiClient";
+import type { SearchHit } from "../utils/search";
+import { fetchWishlistProducts, wishlistSharePath, type WishlistAlertPrefs } from "../utils/wishlist";
+
+const ALERT_OPTIONS: Array<{ key: keyof WishlistAlertPrefs; label: string }> = [
+  { key: "back_in_stock", label: "When something comes back in stock" },
+  { key: "price_drop", label: "When something gets cheaper" },
+];
+
+/** The viewer's own wishlist; alerts and sharing need an account. */
+export default function WishlistPageClient() {
+  const { wishlist, loading, signedIn, remove, saveAlerts, setSharing } = useWishlist();
+  // What the last fetch asked for and got back
+  const [loaded, setLoaded] = useState<{ ids: string[]; hits: SearchHit[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const ids = useMemo(() => wishlist.items.map((i) => i.product_id), [wishlist.items]);
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    if (loading) return;
+    const controller = new AbortController();
+    const asked = idsKey ? idsKey.split(",") : [];
+    fetchWishlistProducts(asked, controller.signal)
+      .then((hits) => {
+        setLoaded({ ids: asked, hits });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError("We couldn't load your wishlist right now. Please try again in a moment.");
+      });
+    return () => controller.abort();
+  }, [idsKey, loading]);
+
+  // Removing shows at once; the fetch above catches up
+  const shown = (loaded?.hits || []).filter((h) => ids.includes(h.id));
+  const gone = loaded ? loaded.ids.filter((id) => ids.includes(id) && !loaded.hits.some((h) => h.id === id)) : [];
+
+  const shareUrl =
+    wishlist.share_token && typeof window !== "undefined"
+      ? `${window.location.origin}${wishlistSharePath(wishlist.share_token)}`
+      : "";
+
+  const run = async (task: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    try {
+      await task();
+    } catch (err) {
+      toast.error(errorMessage(err, failure));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleAlert = (key: keyof WishlistAlertPrefs) =>
+    run(() => saveAlerts({ ...wishlist.alerts, [key]: !wishlist.alerts[key] }), "Couldn't save your alert settings");
+
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast.success("Link copied");
+    } catch {
+      toast.info("Copy the link from the box");
+    }
+  };
+
+  const removeGone = () =>
+    run(async () => {
+      for (const id of gone) await remove(id);
+    }, "Couldn't update your wishlist");
+
+  return (
+    <div className="flex flex-col bg-white" style={{ fontFamily: "var(--font-poppins), Arial, sans-serif" }}>
+      <Header />
+      <LogoSection />
+      <Navbar />
+      <HomePageTop />
+
+      <main className="bg-gradient-to-b from-white via-gray-50 to-gray-100 min-h-screen py-8 px-4 sm:px-10">
+        <header className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">My Wishlist</h1>
+          {!loading && (
+            <p className="text-sm text-gray-600 mt-1" aria-live="polite">
+              {ids.length} item{ids.length === 1 ? "" : "s"}
+            </p>
+          )}
+        </header>
+
+        {!loading && !signedIn && (
+          <p className="mb-6 rounded-lg bg-amber-50 text-amber-800 p-4 text-sm">
+            You&apos;re not signed in, so this list is only saved in this browser. Sign in to keep it on every
+            device, share it and get an email when items come back in stock or drop in price.
+          </p>
+        )}
+
+        <div className="flex flex-col lg:flex-row gap-8">
+          <section className="flex-1 min-w-0" aria-labelledby="wishlist-heading" aria-busy={loading || loaded === null}>
+            <h2 id="wishlist-heading" className="sr-only">
+              Saved products
+            </h2>
+
+            {error ? (
+              <p className="rounded-lg bg-red-50 text-red-700 p-4 text-sm">{error}</p>
+            ) : loading || loaded === null ? (
+              <p className="text-sm text-gray-500">Loading your wishlist…</p>
+            ) : !ids.length ? (
+              <div className="rounded-lg bg-white p-8 text-center text-gray-600">
+                <p className="font-medium">Your wishlist is empty.</p>
+                <p className="text-sm mt-1">
+                  Tap the heart on any product to save it here.{" "}
+                  <Link href="/home" className="text-[#891F1A] underline">
+                    Start browsing
+                  </Link>
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {shown.map((hit) => (
+                    <WishlistCard key={hit.id} hit={hit} />
+                  ))}
+                </div>
+                {gone.length > 0 && (
+                  <p className="mt-6 text-sm text-gray-600">
+                    {gone.length} saved item{gone.length === 1 ? " is" : "s are"} no longer available.{" "}
+                    <button type="button" onClick={removeGone} disabled={saving} className="text-[#891F1A] underline">
+                      Remove {gone.length === 1 ? "it" : "them"}
+                    </button>
+                  </p>
+                )}
+              </>
+            )}
+          </section>
+
+          {signedIn && !loading && (
+            <aside className="lg:w-72 shrink-0 space-y-6">
+              <section className="bg-white rounded-lg shadow-sm p-4" aria-labelledby="wishlist-alerts-heading">
+                <h2 id="wishlist-alerts-heading" className="text-sm font-semibold text-gray-900 mb-2">
+                  Email alerts
+                </h2>
+                <ul className="space-y-2">
+                  {ALERT_OPTIONS.map((o) => (
+                    <li key={o.key}>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={wishlist.alerts[o.key]}
+                          disabled={saving}
+                          onChange={() => toggleAlert(o.key)}
+                          className="accent-[#891F1A]"
+                        />
+                        {o.label}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                {wishlist.email && <p className="text-xs text-gray-500 mt-2">Sent to {wishlist.email}</p>}
+              </section>
+
+              <section className="bg-white rounded-lg shadow-sm p-4" aria-labelledby="wishlist-share-heading">
+                <h2 id="wishlist-share-heading" className="text-sm font-semibold text-gray-900 mb-2">
+                  Share your wishlist
+                </h2>
+                {wishlist.share_token ? (
+                  <>
+                    <p className="text-xs text-gray-500 mb-2">Anyone with this link can see your list.</p>
+                    <div className="flex gap-2">
+                      <input
+                        readOnly
+                        value={shareUrl}
+                        onFocus={(e) => e.target.select()}
+                        aria-label="Share link"
+                        className="flex-1 min-w-0 border rounded px-2 py-1 text-xs"
+                      />
+                      <button
+                        type="button"
+                        onClick={copyShareUrl}
+                        className="text-sm px-3 py-1 rounded bg-[#891F1A] text-white hover:bg-[#6d1915]"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => run(() => setSharing(false), "Couldn't turn off sharing")}
+                      className="mt-3 text-xs text-[#891F1A] underline"
+                    >
+                      Stop sharing
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500 mb-2">Get a link friends and family can open without an account.</p>
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => run(() => setSharing(true), "Couldn't create a share link")}
+                      className="text-sm px-3 py-1.5 rounded bg-[#891F1A] text-white hover:bg-[#6d1915]"
+                    >
+                      Create share link
+                    </button>
+                  </>
+                )}
+              </section>
+            </aside>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
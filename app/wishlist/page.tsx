@@ -0,0 +1,14 @@
+// The list itself belongs to whoever is looking (account or this browser),
+// so everything is loaded client-side in WishlistPageClient.
+
+import type { Metadata } from "next";
+import WishlistPageClient from "./WishlistPageClient";
+
+export const metadata: Metadata = {
+  title: { absolute: "My Wishlist" },
+  robots: { index: false, follow: true },
+};
+
+export default function WishlistPage() {
+  return <WishlistPageClient />;
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import Header from "../../../components/header";
+import Navbar from "../../../components/Navbar";
+import LogoSection from "../../../components/LogoSection";
+import HomePageTop from "../../../components/HomePageTop";
+import Footer from "../../../components/Footer";
+import WishlistCard from "../../WishlistCard";
+import type { SearchHit } from "../../../utils/search";
+
+type Props = {
+  title: string;
+  hits: SearchHit[] | null; // null = couldn't be loaded
+};
+
+/** Someone else's list, read-only; hearts and add-to-cart act for the viewer. */
+export default function SharedWishlistPageClient({ title, hits }: Props) {
+  return (
+    <div className="flex flex-col bg-white" style={{ fontFamily: "var(--font-poppins), Arial, sans-serif" }}>
+      <Header />
+      <LogoSection />
+      <Navbar />
+      <HomePageTop />
+
+      <main className="bg-gradient-to-b from-white via-gray-50 to-gray-100 min-h-screen py-8 px-4 sm:px-10">
+        <header className="mb-6">
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">{title}</h1>
+          {hits && (
+            <p className="text-sm text-gray-600 mt-1">
+              {hits.length} item{hits.length === 1 ? "" : "s"}
+            </p>
+          )}
+        </header>
+
+        {hits === null ? (
+          <p className="rounded-lg bg-red-50 text-red-700 p-4 text-sm">
+            We couldn&apos;t load this wishlist right now. Please try again in a moment.
+          </p>
+        ) : !hits.length ? (
+          <div className="rounded-lg bg-white p-8 text-center text-gray-600">
+            <p className="font-medium">There&apos;s nothing on this wishlist yet.</p>
+            <p className="text-sm mt-1">
+              <Link href="/home" className="text-[#891F1A] underline">
+                Browse our products
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-6">
+            {hits.map((hit) => (
+              <WishlistCard key={hit.id} hit={hit} />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// Server Component: a list someone shared. Anyone with the link can open
+// it; the hearts on it save to the viewer's own wishlist.
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import SharedWishlistPageClient from "./SharedWishlistPageClient";
+import { loadSearchHits } from "../../../lib/search";
+import { loadSharedWishlist } from "../../../lib/wishlist";
+import type { SearchHit } from "../../../utils/search";
+
+type Params = Promise<{ token: string }>;
+
+// Owners can stop sharing at any time, so never serve a stale copy
+export const dynamic = "force-dynamic";
+
+const titleFor = (ownerName: string) => (ownerName ? `${ownerName}'s wishlist` : "A shared wishlist");
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { token } = await params;
+  const shared = await loadSharedWishlist(token).catch(() => undefined);
+  if (shared === null) notFound();
+  return {
+    title: { absolute: titleFor(shared?.owner_name || "") },
+    // Private links; they shouldn't turn up in search results
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedWishlistPage({ params }: { params: Params }) {
+  const { token } = await params;
+  // undefined = the backend couldn't be reached; the page says so instead of failing outright
+  const shared = await loadSharedWishlist(token).catch(() => undefined);
+  if (shared === null) notFound();
+  const hits: SearchHit[] | null = shared ? await loadSearchHits(shared.product_ids).catch(() => null) : null;
+  return <SharedWishlistPageClient title={titleFor(shared?.owner_name || "")} hits={hits} />;
+}
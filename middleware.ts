@@ -0,0 +1,112 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { allowedPathsFor, firstRouteFor, isAllowedPath } from './app/lib/adminAccess';
+import {
+  REVALIDATE_SECONDS,
+  SESSION_COOKIE,
+  clearedSessionCookie,
+  nowSeconds,
+  revalidateSession,
+  sessionCookie,
+  signSession,
+  verifySession,
+  type AdminSession,
+} from './app/lib/adminSession';
+
+/* =========================================================
+   Admin access control. Every /admin page and every settings
+   route, apart from reading the storefront's own settings,
+   needs a valid session cookie whose role grants it. The
+   /api/admin routes check the role themselves; here their
+   sessions are only re-checked against the backend.
+   ========================================================= */
+
+const toLogin = (req: NextRequest, reason?: string) => {
+  const url = req.nextUrl.clone();
+  url.pathname = '/admin/login';
+  url.search = '';
+  if (reason) url.searchParams.set('reason', reason);
+  const res = NextResponse.redirect(url);
+  res.cookies.set(clearedSessionCookie());
+  return res;
+};
+
+const unauthorized = (status: 401 | 403, error: string) => NextResponse.json({ error }, { status });
+
+const revoked = (reason: string) => {
+  const res = unauthorized(401, reason);
+  res.cookies.set(clearedSessionCookie());
+  return res;
+};
+
+// Sign-in and sign-out work with whatever cookie is (or isn't) there
+const OPEN_ADMIN_API = /^\/api\/admin\/(login|logout)(\/|$)/;
+
+type Recheck = { session: AdminSession; refreshed: boolean } | { revoked: 'deleted' | 'role_changed' };
+
+// Pick up deletions and role changes made by other admins
+async function recheck(session: AdminSession): Promise<Recheck> {
+  if (nowSeconds() - session.checked_at <= REVALIDATE_SECONDS) return { session, refreshed: false };
+  const check = await revalidateSession(session);
+  if (check.status === 'revoked') return { revoked: check.reason };
+  return check.status === 'ok' ? { session: check.session, refreshed: true } : { session, refreshed: false };
+}
+
+const withSession = async (res: NextResponse, check: { session: AdminSession; refreshed: boolean }) => {
+  if (check.refreshed) res.cookies.set(sessionCookie(await signSession(check.session), check.session));
+  return res;
+};
+
+// The settings the storefront itself reads; everything else under /api/settings
+// (invoice and email settings, the payment audit log) is admin-only even to read
+const PUBLIC_SETTINGS = /^\/api\/settings\/(payment|shipping|checkout)\/?$/;
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  let session = await verifySession(token);
+
+  if (pathname.startsWith('/api/admin')) {
+    // No session is the handler's call (401, or a cron route's bearer secret)
+    if (!session || OPEN_ADMIN_API.test(pathname)) return NextResponse.next();
+    const check = await recheck(session);
+    if ('revoked' in check) return revoked(check.revoked);
+    return withSession(NextResponse.next(), check);
+  }
+
+  if (pathname.startsWith('/api/settings')) {
+    const read = req.method === 'GET' || req.method === 'HEAD';
+    if (read && PUBLIC_SETTINGS.test(pathname)) return NextResponse.next();
+    if (!session) return unauthorized(401, 'Not signed in');
+    const check = await recheck(session);
+    if ('revoked' in check) return revoked(check.revoked);
+    if (!isAllowedPath('/admin/settings', allowedPathsFor(check.session.access_pages))) {
+      return unauthorized(403, 'Settings access required');
+    }
+    return withSession(NextResponse.next(), check);
+  }
+
+  if (pathname === '/admin/login') {
+    return session ? NextResponse.redirect(new URL(firstRouteFor(session.access_pages), req.url)) : NextResponse.next();
+  }
+
+  if (!session) return toLogin(req, token ? 'expired' : undefined);
+
+  const check = await recheck(session);
+  if ('revoked' in check) return toLogin(req, check.revoked);
+  session = check.session;
+
+  const allowed = allowedPathsFor(session.access_pages);
+  let res = NextResponse.next();
+  if (!isAllowedPath(pathname, allowed)) {
+    const home = firstRouteFor(session.access_pages);
+    // a role without any admin page would otherwise loop on its "home"
+    if (!isAllowedPath(home, allowed)) return toLogin(req, 'no_access');
+    res = NextResponse.redirect(new URL(home, req.url));
+  }
+
+  return withSession(res, check);
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*', '/api/settings/:path*'],
+};
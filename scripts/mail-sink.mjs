@@ -0,0 +1,81 @@
+// Local SMTP stand-in for development: accepts every message on
+// localhost:1025 and writes it to .mail/ as an .eml file instead of
+// delivering it. Open the files in any mail client to check a template.
+//
+//   npm run mail:dev            # port 1025, files in ./.mail
+//   MAIL_SINK_PORT=2525 npm run mail:dev
+
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.MAIL_SINK_PORT) || 1025;
+const DIR = path.resolve(process.env.MAIL_SINK_DIR || '.mail');
+
+fs.mkdirSync(DIR, { recursive: true });
+let count = 0;
+
+function save(from, to, data) {
+  const subject = /^Subject:\s*(.*)$/im.exec(data)?.[1]?.trim() || '(no subject)';
+  const file = path.join(DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}-${++count}.eml`);
+  fs.writeFileSync(file, data);
+  console.log(`✉  ${to.join(', ')} — ${subject}\n   ${file}`);
+}
+
+net
+  .createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let from = '';
+    let to = [];
+    const reply = (line) => socket.write(`${line}\r\n`);
+
+    reply('220 localhost mail-sink ready');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      while (buffer) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          // undo SMTP dot-stuffing
+          save(from, to, buffer.slice(0, end).replace(/^\.\./gm, '.'));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          from = '';
+          to = [];
+          reply('250 OK: message saved');
+          continue;
+        }
+
+        const nl = buffer.indexOf('\r\n');
+        if (nl === -1) return;
+        const line = buffer.slice(0, nl);
+        buffer = buffer.slice(nl + 2);
+        const cmd = line.slice(0, 4).toUpperCase();
+
+        if (cmd === 'EHLO') {
+          reply('250-localhost');
+          reply('250-8BITMIME');
+          reply('250 SMTPUTF8');
+        } else if (cmd === 'HELO') reply('250 localhost');
+        else if (cmd === 'MAIL') {
+          from = line.replace(/^MAIL FROM:\s*/i, '');
+          reply('250 OK');
+        } else if (cmd === 'RCPT') {
+          to.push(line.replace(/^RCPT TO:\s*/i, '').replace(/[<>]/g, ''));
+          reply('250 OK');
+        } else if (cmd === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (cmd === 'RSET' || cmd === 'NOOP') reply('250 OK');
+        else if (cmd === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+          return;
+        } else reply('502 Command not implemented');
+      }
+    });
+    socket.on('error', () => {});
+  })
+  .listen(PORT, '127.0.0.1', () => console.log(`mail-sink listening on 127.0.0.1:${PORT}, saving to ${DIR}`));